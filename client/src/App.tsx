@@ -9,6 +9,8 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import AccountingItemsPage from "@/pages/accounting-items";
+import AccountingPeriodsPage from "@/pages/accounting-periods";
 import AccountingSummaryPage from "@/pages/accounting-summary";
 import AngleBPage from "@/pages/angle-b";
 import BudgetPage from "@/pages/budget";
@@ -16,11 +18,16 @@ import CustomersPage from "@/pages/customers";
 import DashboardPage from "@/pages/dashboard";
 import ForecastImportPage from "@/pages/forecast-import";
 import GLImportPage from "@/pages/gl-import";
+import GLLedgerPage from "@/pages/gl-ledger";
 import GLReconciliationPage from "@/pages/gl-reconciliation";
+import ImportBatchesPage from "@/pages/import-batches";
 import NotFound from "@/pages/not-found";
 import OrderForecastPage from "@/pages/order-forecast";
 import ProjectAnalysisPage from "@/pages/project-analysis";
 import ProjectsPage from "@/pages/projects";
+import ReconciliationAliasesPage from "@/pages/reconciliation-aliases";
+import ReconciliationRulesPage from "@/pages/reconciliation-rules";
+import RecurringForecastsPage from "@/pages/recurring-forecasts";
 import SalesPersonSummaryPage from "@/pages/sales-person-summary";
 import StaffingPage from "@/pages/staffing";
 import StaffingCheckPage from "@/pages/staffing-check";
@@ -37,8 +44,13 @@ function Router() {
       <Route path="/sales-person-summary" component={SalesPersonSummaryPage} />
       <Route path="/gl-import" component={GLImportPage} />
       <Route path="/gl-reconciliation" component={GLReconciliationPage} />
+      <Route path="/gl-ledger" component={GLLedgerPage} />
+      <Route path="/gl-ledger/:accountCode" component={GLLedgerPage} />
       <Route path="/forecast-import" component={ForecastImportPage} />
+      <Route path="/import-batches" component={ImportBatchesPage} />
+      <Route path="/import-batches/:id" component={ImportBatchesPage} />
       <Route path="/order-forecast" component={OrderForecastPage} />
+      <Route path="/recurring-forecasts" component={RecurringForecastsPage} />
       <Route path="/staffing" component={StaffingPage} />
       <Route path="/staffing-project" component={StaffingProjectPage} />
       <Route path="/staffing-check" component={StaffingCheckPage} />
@@ -46,6 +58,10 @@ function Router() {
       <Route path="/budget" component={BudgetPage} />
       <Route path="/projects" component={ProjectsPage} />
       <Route path="/customers" component={CustomersPage} />
+      <Route path="/accounting-items" component={AccountingItemsPage} />
+      <Route path="/reconciliation-rules" component={ReconciliationRulesPage} />
+      <Route path="/reconciliation-aliases" component={ReconciliationAliasesPage} />
+      <Route path="/accounting-periods" component={AccountingPeriodsPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -29,12 +29,16 @@ interface AccountSummaryCardsProps {
       accountCode: string;
       accountName: string;
       difference: number;
+      timingDifference?: number; // 月度をまたいだ突合によるタイミング差異
+      variance?: number; // タイミング差異を除いた真の差異
       glAmount: number;
       orderAmount: number;
     }>;
     matchedAmount?: number;
     totalGlAmount?: number;
     totalOrderAmount?: number;
+    totalTimingDifference?: number;
+    totalVariance?: number;
   } | null;
   isLoading: boolean;
 }
@@ -67,6 +71,9 @@ export function AccountSummaryCards({ summary, isLoading }: AccountSummaryCardsP
     summary.totalOrderAmount ??
     summary.orderSummary.reduce((sum, item) => sum + item.totalAmount, 0);
   const totalDifference = totalGlAmount - totalOrderAmount;
+  // タイミング差異（月度をまたいで突合済みの金額）と、それを除いた真の差異
+  const totalTimingDifference = summary.totalTimingDifference ?? 0;
+  const totalVariance = summary.totalVariance ?? totalDifference - totalTimingDifference;
   // 金額突合率: 突合済み金額 / GL金額合計 * 100
   // 突合済み金額が未定義の場合は、後方互換性のため従来の計算式を使用
   const matchedAmount = summary.matchedAmount ?? 0;
@@ -130,6 +137,12 @@ export function AccountSummaryCards({ summary, isLoading }: AccountSummaryCardsP
             <p className="text-xs text-muted-foreground mt-1">
               {totalDifference === 0 ? "完全一致" : totalDifference > 0 ? "GL超過" : "受発注超過"}
             </p>
+            {totalTimingDifference !== 0 && (
+              <p className="text-xs text-muted-foreground" data-testid="text-timing-difference">
+                うちタイミング差異 ¥{totalTimingDifference.toLocaleString()} / 真の差異 ¥
+                {totalVariance.toLocaleString()}
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -167,6 +180,8 @@ export function AccountSummaryCards({ summary, isLoading }: AccountSummaryCardsP
                   <TableHead className="text-right">GL金額</TableHead>
                   <TableHead className="text-right">受発注金額</TableHead>
                   <TableHead className="text-right">差異</TableHead>
+                  <TableHead className="text-right">タイミング差異</TableHead>
+                  <TableHead className="text-right">真の差異</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -186,6 +201,14 @@ export function AccountSummaryCards({ summary, isLoading }: AccountSummaryCardsP
                       >
                         {diff.difference > 0 ? "+" : ""}¥{diff.difference.toLocaleString()}
                       </TableCell>
+                      <TableCell className="text-right font-mono text-muted-foreground">
+                        ¥{(diff.timingDifference ?? 0).toLocaleString()}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-mono ${(diff.variance ?? diff.difference) === 0 ? "text-success" : "text-warning"}`}
+                      >
+                        ¥{(diff.variance ?? diff.difference).toLocaleString()}
+                      </TableCell>
                     </TableRow>
                   ))}
               </TableBody>
@@ -9,7 +9,13 @@ import {
   FolderKanban,
   GitMerge,
   Home,
+  Languages,
+  Layers,
+  ListChecks,
+  Lock,
   LogOut,
+  Repeat,
+  Tags,
   TrendingUp,
   User,
   Users,
@@ -57,6 +63,11 @@ const menuItems = {
       url: "/gl-reconciliation",
       icon: GitMerge,
     },
+    {
+      title: "試算表・元帳",
+      url: "/gl-ledger",
+      icon: BookOpen,
+    },
   ],
   input: [
     {
@@ -69,6 +80,11 @@ const menuItems = {
       url: "/order-forecast",
       icon: FileText,
     },
+    {
+      title: "定期売上テンプレート",
+      url: "/recurring-forecasts",
+      icon: Repeat,
+    },
     {
       title: "CSV案件取込",
       url: "/forecast-import",
@@ -94,6 +110,11 @@ const menuItems = {
       url: "/gl-import",
       icon: FileUp,
     },
+    {
+      title: "取込バッチ",
+      url: "/import-batches",
+      icon: Layers,
+    },
     {
       title: "予算登録",
       url: "/budget",
@@ -111,6 +132,26 @@ const menuItems = {
       url: "/customers",
       icon: Building2,
     },
+    {
+      title: "計上科目マスタ",
+      url: "/accounting-items",
+      icon: Tags,
+    },
+    {
+      title: "突合ルールマスタ",
+      url: "/reconciliation-rules",
+      icon: ListChecks,
+    },
+    {
+      title: "突合エイリアス辞書",
+      url: "/reconciliation-aliases",
+      icon: Languages,
+    },
+    {
+      title: "月度締め管理",
+      url: "/accounting-periods",
+      icon: Lock,
+    },
   ],
 };
 
@@ -20,6 +20,7 @@ import { useToast } from "@/hooks/useToast";
 import { cn } from "@/lib/utils";
 
 import { type AutocompleteOption, AutocompleteSelect } from "./autocomplete-select";
+import { VersionConflictDialog } from "./version-conflict-dialog";
 
 export interface GridColumn {
   key: string;
@@ -57,6 +58,13 @@ export interface GridRow {
 
 export type GridRowData = GridRow & Record<string, string | number | boolean | undefined>;
 
+/** 保存時に他のユーザーの更新と競合した行 */
+export interface GridConflict {
+  localRow: GridRowData; // 編集中の行（自分の値）
+  baseRow?: GridRowData; // 編集を開始した時点の行
+  serverRow: GridRowData; // サーバー上の最新の行
+}
+
 interface ExcelDataGridProps {
   columns: GridColumn[];
   rows: GridRowData[];
@@ -67,6 +75,9 @@ interface ExcelDataGridProps {
   pageSize?: number;
   onPageSizeChange?: (size: number) => void;
   isSaving?: boolean;
+  conflicts?: GridConflict[];
+  onResolveConflicts?: (resolvedRows: GridRowData[]) => void;
+  onCancelConflicts?: () => void;
 }
 
 export function ExcelDataGrid({
@@ -79,6 +90,9 @@ export function ExcelDataGrid({
   pageSize = 50,
   onPageSizeChange,
   isSaving = false,
+  conflicts = [],
+  onResolveConflicts,
+  onCancelConflicts,
 }: ExcelDataGridProps) {
   const { state: sidebarState } = useSidebar();
   const [activeCell, setActiveCell] = useState<{ rowId: string; colKey: string } | null>(null);
@@ -764,9 +778,7 @@ export function ExcelDataGrid({
                   updates.itemName = option.label || undefined;
                 }
 
-                const newRows = rows.map((r) =>
-                  r.id === rowId ? { ...r, ...updates } : r
-                );
+                const newRows = rows.map((r) => (r.id === rowId ? { ...r, ...updates } : r));
                 onRowsChange(newRows);
 
                 // Exit editing mode after selection
@@ -1107,6 +1119,16 @@ export function ExcelDataGrid({
           <span className="text-xs">Esc: キャンセル</span>
         </div>
       </div>
+
+      {/* 楽観ロックの競合（他のユーザーが先に更新した行のマージ・上書き） */}
+      {conflicts.length > 0 && onResolveConflicts && onCancelConflicts && (
+        <VersionConflictDialog
+          columns={columns}
+          conflicts={conflicts}
+          onResolve={onResolveConflicts}
+          onCancel={onCancelConflicts}
+        />
+      )}
     </div>
   );
 }
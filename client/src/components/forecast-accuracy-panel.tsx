@@ -0,0 +1,358 @@
+import type { ForecastAccuracyMetrics } from "@shared/schema";
+import { Camera, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  type ForecastSnapshotSummary,
+  useCreateForecastSnapshot,
+  useDeleteForecastSnapshot,
+  useForecastAccuracy,
+  useForecastSnapshots,
+} from "@/hooks/useForecastAccuracy";
+import { useToast } from "@/hooks/useToast";
+
+interface ForecastAccuracyPanelProps {
+  fiscalYear: number;
+  salesPersons: string[]; // 絞り込む営業担当者（空の場合は全員）
+}
+
+// 比較する見込みの時期の選択肢
+const LEAD_MONTH_OPTIONS = [1, 2, 3, 6];
+
+const formatCurrency = (value: number) => `¥${Math.round(value).toLocaleString()}`;
+
+const formatPercent = (value: number | null) => (value === null ? "-" : `${value.toFixed(1)}%`);
+
+const formatBias = (value: number | null) =>
+  value === null ? "-" : `${value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+
+const formatLabel = (value: string) => value || "未設定";
+
+// 精度に応じた文字色
+const accuracyClassName = (value: number | null) => {
+  if (value === null) return "text-muted-foreground";
+  if (value >= 90) return "text-green-600";
+  if (value >= 70) return "text-yellow-600";
+  return "text-red-600";
+};
+
+const metricsTitle = (metrics: ForecastAccuracyMetrics) =>
+  `見込み: ${formatCurrency(metrics.forecast)} / 実績: ${formatCurrency(metrics.actual)} / 偏り: ${formatBias(metrics.bias)}`;
+
+export function ForecastAccuracyPanel({ fiscalYear, salesPersons }: ForecastAccuracyPanelProps) {
+  const { toast } = useToast();
+  const [leadMonths, setLeadMonths] = useState(1);
+  const [includeOpenPeriods, setIncludeOpenPeriods] = useState(false);
+  const [selectedSalesPerson, setSelectedSalesPerson] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ForecastSnapshotSummary | null>(null);
+
+  const { data, isLoading } = useForecastAccuracy({ fiscalYear, leadMonths, includeOpenPeriods });
+  const { data: snapshots } = useForecastSnapshots(fiscalYear);
+  const createMutation = useCreateForecastSnapshot();
+  const deleteMutation = useDeleteForecastSnapshot();
+
+  const isTarget = (salesPerson: string) =>
+    salesPersons.length === 0 || salesPersons.includes(salesPerson);
+  const salesPersonRows = (data?.salesPersons ?? []).filter((row) => isTarget(row.salesPerson));
+  const detailRows = (data?.details ?? []).filter(
+    (row) =>
+      isTarget(row.salesPerson) &&
+      (selectedSalesPerson === null || row.salesPerson === selectedSalesPerson)
+  );
+
+  const handleCreateSnapshot = () => {
+    createMutation.mutate(
+      { fiscalYear },
+      {
+        onSuccess: (snapshot) => {
+          toast({
+            title: "成功",
+            description: `見込みスナップショット「${snapshot.name}」を保存しました`,
+          });
+        },
+        onError: (error: Error) => {
+          toast({
+            title: "エラー",
+            description: error.message || "見込みスナップショットの保存に失敗しました",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleDeleteSnapshot = () => {
+    if (!deleteTarget) {
+      return;
+    }
+    deleteMutation.mutate(deleteTarget.id, {
+      onSuccess: () => {
+        setDeleteTarget(null);
+      },
+      onError: (error: Error) => {
+        toast({
+          title: "エラー",
+          description: error.message || "見込みスナップショットの削除に失敗しました",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-base">見込み精度</CardTitle>
+          <CardDescription>
+            保存した見込みスナップショットと突合済みのGL実績を比較します。精度は100%から誤差率（見込みと実績の差の絶対値の合計÷実績）を引いた値、偏りはプラスが見込み過大・マイナスが見込み過小です
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleCreateSnapshot}
+          disabled={createMutation.isPending}
+          data-testid="button-create-forecast-snapshot"
+        >
+          <Camera className="h-4 w-4 mr-2" />
+          現在の見込みを保存
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm">比較する見込み</Label>
+            <Select
+              value={leadMonths.toString()}
+              onValueChange={(value) => setLeadMonths(parseInt(value))}
+            >
+              <SelectTrigger className="w-32" data-testid="select-lead-months">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LEAD_MONTH_OPTIONS.map((months) => (
+                  <SelectItem key={months} value={months.toString()}>
+                    {months === 1 ? "月初時点" : `${months - 1}ヶ月前`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="include-open-periods"
+              checked={includeOpenPeriods}
+              onCheckedChange={setIncludeOpenPeriods}
+              data-testid="switch-include-open-periods"
+            />
+            <Label htmlFor="include-open-periods" className="text-sm">
+              締め前の月も評価する
+            </Label>
+          </div>
+          {data && <Badge variant="outline">評価した月: {data.evaluatedPeriods.length}ヶ月</Badge>}
+        </div>
+
+        {snapshots && snapshots.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-muted-foreground">保存済みのスナップショット:</span>
+            {snapshots.map((snapshot) => (
+              <Badge
+                key={snapshot.id}
+                variant="secondary"
+                className="gap-1"
+                data-testid={`badge-forecast-snapshot-${snapshot.id}`}
+              >
+                {snapshot.name}
+                <button
+                  type="button"
+                  onClick={() => setDeleteTarget(snapshot)}
+                  className="text-muted-foreground hover:text-destructive"
+                  aria-label={`${snapshot.name}を削除`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {isLoading || !data ? (
+          <Skeleton className="h-24 w-full" />
+        ) : data.evaluatedPeriods.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            評価できる月がありません。見込みスナップショットを月初前に保存し、GLデータの突合・月度締め後に評価できます
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>営業担当者</TableHead>
+                    <TableHead className="text-right">精度</TableHead>
+                    <TableHead className="text-right">偏り</TableHead>
+                    <TableHead className="text-right">見込み</TableHead>
+                    <TableHead className="text-right">実績</TableHead>
+                    {data.evaluatedPeriods.map((period) => (
+                      <TableHead
+                        key={period}
+                        className="text-right whitespace-nowrap"
+                        title={`比較したスナップショットの基準日: ${data.snapshotByPeriod[period].snapshotDate}`}
+                      >
+                        {period}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {salesPersonRows.map((row) => (
+                    <TableRow
+                      key={row.salesPerson}
+                      className={`cursor-pointer ${selectedSalesPerson === row.salesPerson ? "bg-muted" : ""}`}
+                      onClick={() =>
+                        setSelectedSalesPerson(
+                          selectedSalesPerson === row.salesPerson ? null : row.salesPerson
+                        )
+                      }
+                      data-testid={`row-forecast-accuracy-${row.salesPerson}`}
+                    >
+                      <TableCell className="font-medium">{formatLabel(row.salesPerson)}</TableCell>
+                      <TableCell
+                        className={`text-right font-mono ${accuracyClassName(row.accuracy)}`}
+                      >
+                        {formatPercent(row.accuracy)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatBias(row.bias)}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatCurrency(row.forecast)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatCurrency(row.actual)}
+                      </TableCell>
+                      {data.evaluatedPeriods.map((period) => {
+                        const monthly = row.monthly[period];
+                        return (
+                          <TableCell
+                            key={period}
+                            className={`text-right font-mono text-xs ${accuracyClassName(monthly?.accuracy ?? null)}`}
+                            title={monthly ? metricsTitle(monthly) : undefined}
+                          >
+                            {monthly ? formatPercent(monthly.accuracy) : "-"}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="text-sm font-medium">
+              サービス区分・計上科目別
+              {selectedSalesPerson !== null && (
+                <span className="text-muted-foreground">
+                  （{formatLabel(selectedSalesPerson)}）
+                </span>
+              )}
+            </div>
+            <div className="max-h-[400px] overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>営業担当者</TableHead>
+                    <TableHead>サービス区分</TableHead>
+                    <TableHead>計上科目</TableHead>
+                    <TableHead className="text-right">見込み</TableHead>
+                    <TableHead className="text-right">実績</TableHead>
+                    <TableHead className="text-right">誤差</TableHead>
+                    <TableHead className="text-right">精度</TableHead>
+                    <TableHead className="text-right">偏り</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detailRows.map((row) => (
+                    <TableRow
+                      key={`${row.salesPerson}-${row.serviceType}-${row.accountingItemCode}`}
+                    >
+                      <TableCell>{formatLabel(row.salesPerson)}</TableCell>
+                      <TableCell>{formatLabel(row.serviceType)}</TableCell>
+                      <TableCell>{row.accountingItemName}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatCurrency(row.forecast)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatCurrency(row.actual)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatCurrency(row.absoluteError)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-mono ${accuracyClassName(row.accuracy)}`}
+                      >
+                        {formatPercent(row.accuracy)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatBias(row.bias)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog
+        open={deleteTarget !== null}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+      >
+        <AlertDialogContent data-testid="dialog-delete-forecast-snapshot">
+          <AlertDialogHeader>
+            <AlertDialogTitle>見込みスナップショットを削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              この操作は取り消せません。「{deleteTarget?.name}
+              」を比較に使用している月は、それより前のスナップショットで評価されます。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteSnapshot} disabled={deleteMutation.isPending}>
+              削除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
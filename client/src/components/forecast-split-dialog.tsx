@@ -0,0 +1,414 @@
+import type {
+  AngleBForecast,
+  ForecastSplitAllocation,
+  ForecastSplitPattern,
+  ForecastSplitSchedule,
+  ForecastSplitTargetType,
+  OrderForecast,
+} from "@shared/schema";
+import { Split } from "lucide-react";
+import { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useCreateForecastSplit,
+  useForecastSplitGroup,
+  usePreviewForecastSplit,
+  useRespreadForecastSplit,
+} from "@/hooks/useForecastSplits";
+import { useToast } from "@/hooks/useToast";
+
+interface ForecastSplitDialogProps {
+  targetType: ForecastSplitTargetType;
+  line: OrderForecast | AngleBForecast | null; // 分割する行（グリッドで選択中の行）
+  hasPendingChanges: boolean; // 選択中の行に未保存の編集があるか
+}
+
+const PATTERN_LABELS: Record<ForecastSplitPattern, string> = {
+  equal: "均等割り",
+  custom: "割合を指定",
+  "working-days": "稼働日数で按分",
+};
+
+// 分割する月数の初期値
+const DEFAULT_MONTHS = 3;
+
+interface SplitFormState {
+  totalAmount: string;
+  startMonth: string;
+  months: string;
+  pattern: ForecastSplitPattern;
+  percentages: string[];
+}
+
+const addMonths = (period: string, months: number): string => {
+  const [year, month] = period.split("-").map(Number);
+  const date = new Date(year, month - 1 + months, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+// 月数に合わせて割合の入力欄を揃える（増えた月は空欄）
+const resizePercentages = (percentages: string[], months: number): string[] =>
+  Array.from({ length: Math.max(months, 0) }, (_, i) => percentages[i] ?? "");
+
+export function ForecastSplitDialog({
+  targetType,
+  line,
+  hasPendingChanges,
+}: ForecastSplitDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [formData, setFormData] = useState<SplitFormState | null>(null);
+  const [allocations, setAllocations] = useState<ForecastSplitAllocation[]>([]);
+
+  // 分割済みの行は分割計上グループ全体を再分割する
+  const splitGroupId = line?.splitGroupId ?? null;
+  const { data: splitGroup, isLoading: splitGroupLoading } = useForecastSplitGroup(
+    open ? splitGroupId : null
+  );
+  const previewMutation = usePreviewForecastSplit();
+  const createMutation = useCreateForecastSplit();
+  const respreadMutation = useRespreadForecastSplit();
+  const isSaving = createMutation.isPending || respreadMutation.isPending;
+
+  // ダイアログを開いたときに分割条件を初期化
+  useEffect(() => {
+    if (!open || !line || formData) {
+      return;
+    }
+    if (splitGroupId) {
+      if (!splitGroup) {
+        return;
+      }
+      const { group } = splitGroup;
+      setFormData({
+        totalAmount: String(Math.floor(Number(group.totalAmount))),
+        startMonth: group.startMonth,
+        months: String(group.months),
+        pattern: group.pattern,
+        percentages: resizePercentages((group.percentages ?? []).map(String), group.months),
+      });
+      return;
+    }
+    setFormData({
+      totalAmount: String(Math.floor(Number(line.amount))),
+      startMonth: line.accountingPeriod,
+      months: String(DEFAULT_MONTHS),
+      pattern: "equal",
+      percentages: resizePercentages([], DEFAULT_MONTHS),
+    });
+  }, [open, line, formData, splitGroupId, splitGroup]);
+
+  const handleOpen = () => {
+    if (!line) {
+      toast({
+        title: "行を選択してください",
+        description: "分割計上する明細を選択してください",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (hasPendingChanges) {
+      toast({
+        title: "未保存の変更があります",
+        description: "分割計上する前に、まず Ctrl+Enter で保存してください",
+        variant: "destructive",
+      });
+      return;
+    }
+    setFormData(null);
+    setAllocations([]);
+    setOpen(true);
+  };
+
+  const updateForm = (changes: Partial<SplitFormState>) => {
+    if (!formData) {
+      return;
+    }
+    const next = { ...formData, ...changes };
+    setFormData({
+      ...next,
+      percentages: resizePercentages(next.percentages, Number(next.months) || 0),
+    });
+    // 条件が変わったらプレビューをやり直す
+    setAllocations([]);
+  };
+
+  const toSchedule = (form: SplitFormState): ForecastSplitSchedule => ({
+    totalAmount: form.totalAmount,
+    startMonth: form.startMonth,
+    months: Number(form.months),
+    pattern: form.pattern,
+    percentages: form.pattern === "custom" ? form.percentages.map(Number) : null,
+  });
+
+  const handlePreview = () => {
+    if (!formData) {
+      return;
+    }
+    previewMutation.mutate(toSchedule(formData), {
+      onSuccess: (data) => setAllocations(data),
+      onError: (error: Error) => {
+        toast({
+          title: "エラー",
+          description: error.message || "分割金額の計算に失敗しました",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const handleSave = () => {
+    if (!formData || !line) {
+      return;
+    }
+    const data = {
+      ...toSchedule(formData),
+      targetType,
+      line: {
+        projectId: line.projectId,
+        customerId: line.customerId,
+        accountingItem: line.accountingItem,
+        description: line.description,
+        remarks: line.remarks,
+        probability: "probability" in line ? line.probability : undefined,
+      },
+    };
+    const callbacks = {
+      onSuccess: () => {
+        toast({
+          title: "成功",
+          description: `${formData.months}か月に${splitGroupId ? "再分割" : "分割"}して計上しました`,
+        });
+        setOpen(false);
+      },
+      onError: (error: Error) => {
+        toast({
+          title: "エラー",
+          description: error.message || "分割計上に失敗しました",
+          variant: "destructive",
+        });
+      },
+    };
+
+    if (splitGroupId) {
+      respreadMutation.mutate({ id: splitGroupId, data }, callbacks);
+    } else {
+      createMutation.mutate({ ...data, replaceIds: [line.id] }, callbacks);
+    }
+  };
+
+  const months = Number(formData?.months) || 0;
+  const percentageTotal =
+    formData?.percentages.reduce((sum, percentage) => sum + (Number(percentage) || 0), 0) ?? 0;
+  const isFormValid =
+    !!formData &&
+    formData.totalAmount.trim() !== "" &&
+    !isNaN(Number(formData.totalAmount)) &&
+    /^\d{4}-\d{2}$/.test(formData.startMonth) &&
+    Number.isInteger(months) &&
+    months >= 1 &&
+    (formData.pattern !== "custom" || Math.abs(percentageTotal - 100) < 0.01);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <Button variant="outline" onClick={handleOpen} data-testid="button-open-split">
+        <Split className="h-4 w-4 mr-2" />
+        分割計上
+      </Button>
+      <DialogContent className="max-w-2xl" data-testid="dialog-forecast-split">
+        <DialogHeader>
+          <DialogTitle>{splitGroupId ? "再分割" : "分割計上"}</DialogTitle>
+          <DialogDescription>
+            {line && `${line.projectCode} ${line.projectName} / ${line.description}`}
+            <br />
+            {splitGroupId
+              ? "同じ分割計上グループの明細をすべて削除し、新しい条件で各月の明細を作り直します。"
+              : "選択した明細を削除し、開始月から各月の明細に分割して計上します。"}
+            各月の金額は円未満を切り捨て、端数は最終月に加算します。
+          </DialogDescription>
+        </DialogHeader>
+
+        {!formData || (splitGroupId && splitGroupLoading) ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="split-total-amount">総額（円）</Label>
+                <Input
+                  id="split-total-amount"
+                  type="number"
+                  value={formData.totalAmount}
+                  onChange={(e) => updateForm({ totalAmount: e.target.value })}
+                  data-testid="input-split-total-amount"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="split-pattern">分割方法</Label>
+                <Select
+                  value={formData.pattern}
+                  onValueChange={(pattern) =>
+                    updateForm({ pattern: pattern as ForecastSplitPattern })
+                  }
+                >
+                  <SelectTrigger id="split-pattern" data-testid="select-split-pattern">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PATTERN_LABELS) as ForecastSplitPattern[]).map((pattern) => (
+                      <SelectItem key={pattern} value={pattern}>
+                        {PATTERN_LABELS[pattern]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="split-start-month">開始月</Label>
+                <Input
+                  id="split-start-month"
+                  type="month"
+                  value={formData.startMonth}
+                  onChange={(e) => updateForm({ startMonth: e.target.value })}
+                  data-testid="input-split-start-month"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="split-months">月数</Label>
+                <Input
+                  id="split-months"
+                  type="number"
+                  min={1}
+                  value={formData.months}
+                  onChange={(e) => updateForm({ months: e.target.value })}
+                  data-testid="input-split-months"
+                />
+              </div>
+            </div>
+
+            {formData.pattern === "custom" && months > 0 && (
+              <div className="space-y-2">
+                <Label>月ごとの割合（%）</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  {formData.percentages.map((percentage, index) => {
+                    const period = /^\d{4}-\d{2}$/.test(formData.startMonth)
+                      ? addMonths(formData.startMonth, index)
+                      : `${index + 1}か月目`;
+                    return (
+                      <div key={index} className="space-y-1">
+                        <span className="text-xs text-muted-foreground">{period}</span>
+                        <Input
+                          type="number"
+                          value={percentage}
+                          onChange={(e) =>
+                            updateForm({
+                              percentages: formData.percentages.map((value, i) =>
+                                i === index ? e.target.value : value
+                              ),
+                            })
+                          }
+                          data-testid={`input-split-percentage-${index}`}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+                <p
+                  className={`text-xs ${
+                    Math.abs(percentageTotal - 100) < 0.01
+                      ? "text-muted-foreground"
+                      : "text-destructive"
+                  }`}
+                >
+                  合計 {percentageTotal}%（100%にしてください）
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                onClick={handlePreview}
+                disabled={!isFormValid || previewMutation.isPending}
+                data-testid="button-preview-split"
+              >
+                {previewMutation.isPending ? "計算中..." : "金額を計算"}
+              </Button>
+            </div>
+
+            {allocations.length > 0 && (
+              <div className="max-h-64 overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>計上年月</TableHead>
+                      <TableHead className="text-right">割合</TableHead>
+                      <TableHead className="text-right">金額</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {allocations.map((allocation) => (
+                      <TableRow key={allocation.accountingPeriod}>
+                        <TableCell>{allocation.accountingPeriod}</TableCell>
+                        <TableCell className="text-right">{allocation.ratio}%</TableCell>
+                        <TableCell className="text-right">
+                          ¥{Math.floor(Number(allocation.amount)).toLocaleString()}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setOpen(false)}
+            data-testid="button-cancel-split"
+          >
+            キャンセル
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!isFormValid || allocations.length === 0 || isSaving}
+            data-testid="button-submit-split"
+          >
+            {isSaving ? "保存中..." : splitGroupId ? "再分割" : "分割して計上"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
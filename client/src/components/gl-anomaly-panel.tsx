@@ -0,0 +1,336 @@
+import type { GLAnomalyListItem, GLAnomalyStatus, GLAnomalyType } from "@shared/schema";
+import { RefreshCw, RotateCcw } from "lucide-react";
+import { useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useDismissGLAnomaly,
+  useGLAnomalies,
+  useReopenGLAnomaly,
+  useScanGLAnomalies,
+} from "@/hooks/useGLEntries";
+import { useToast } from "@/hooks/useToast";
+
+interface GLAnomalyPanelProps {
+  fiscalYear: number;
+  month?: number;
+}
+
+type StatusFilter = "all" | GLAnomalyStatus;
+type TypeFilter = "all" | GLAnomalyType;
+
+// 一覧に表示する異常の上限
+const MAX_DISPLAY_ANOMALIES = 200;
+
+const ANOMALY_TYPE_LABELS: Record<GLAnomalyType, string> = {
+  large_amount: "過大な金額",
+  duplicate_voucher: "伝票番号の重複",
+  unknown_account: "マスタ未登録の科目",
+  out_of_period: "期間外の取引日",
+  negative_revenue: "売上のマイナス計上",
+};
+
+const formatAmount = (value: number) => `¥${value.toLocaleString()}`;
+
+export function GLAnomalyPanel({ fiscalYear, month }: GLAnomalyPanelProps) {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>("all");
+  const [dismissTarget, setDismissTarget] = useState<GLAnomalyListItem | null>(null);
+  const [dismissComment, setDismissComment] = useState("");
+
+  const { data, isLoading } = useGLAnomalies({
+    fiscalYear,
+    month,
+    status: statusFilter === "all" ? undefined : statusFilter,
+  });
+  const scanMutation = useScanGLAnomalies();
+  const dismissMutation = useDismissGLAnomaly();
+  const reopenMutation = useReopenGLAnomaly();
+
+  const anomalies = (data ?? []).filter(
+    (anomaly) => typeFilter === "all" || anomaly.anomalyType === typeFilter
+  );
+
+  // 種類ごとの件数
+  const countByType = new Map<GLAnomalyType, number>();
+  for (const anomaly of data ?? []) {
+    countByType.set(anomaly.anomalyType, (countByType.get(anomaly.anomalyType) ?? 0) + 1);
+  }
+
+  const handleScan = () => {
+    scanMutation.mutate(
+      { fiscalYear, month },
+      {
+        onSuccess: (result) => {
+          toast({
+            title: "スキャン完了",
+            description: `明細${result.scannedEntries}件をスキャンしました（新たに検出: ${result.newAnomalies}件、未対応: ${result.openAnomalies}件）`,
+          });
+        },
+        onError: (error: Error) => {
+          toast({
+            title: "エラー",
+            description: error.message || "GLデータの異常検知に失敗しました",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleDismissCancel = () => {
+    setDismissTarget(null);
+    setDismissComment("");
+  };
+
+  const handleDismiss = () => {
+    if (!dismissTarget) {
+      return;
+    }
+    dismissMutation.mutate(
+      { id: dismissTarget.id, comment: dismissComment.trim() },
+      {
+        onSuccess: () => {
+          toast({
+            title: "成功",
+            description: "異常を却下しました",
+          });
+          handleDismissCancel();
+        },
+        onError: (error: Error) => {
+          toast({
+            title: "エラー",
+            description: error.message || "異常の却下に失敗しました",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleReopen = (id: string) => {
+    reopenMutation.mutate(id, {
+      onError: (error: Error) => {
+        toast({
+          title: "エラー",
+          description: error.message || "異常を未対応に戻せませんでした",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-base">異常検知</CardTitle>
+          <CardDescription>
+            過去の金額と比べて著しく大きい明細、伝票番号・金額が同じで取引日の異なる明細、マスタ未登録の勘定科目、期間外の取引日、売上のマイナス計上を検出します（取込時に自動でスキャンします）。確認済みの異常はコメントを付けて却下できます
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleScan}
+          disabled={scanMutation.isPending}
+          data-testid="button-anomaly-scan"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${scanMutation.isPending ? "animate-spin" : ""}`} />
+          再スキャン
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading || !data ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              {(Object.keys(ANOMALY_TYPE_LABELS) as GLAnomalyType[]).map((type) => (
+                <Badge key={type} variant={countByType.get(type) ? "destructive" : "outline"}>
+                  {ANOMALY_TYPE_LABELS[type]}: {countByType.get(type) ?? 0}件
+                </Badge>
+              ))}
+              <div className="flex gap-2 ml-auto">
+                <Select
+                  value={typeFilter}
+                  onValueChange={(value) => setTypeFilter(value as TypeFilter)}
+                >
+                  <SelectTrigger className="w-44" data-testid="select-anomaly-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">すべての種類</SelectItem>
+                    {(Object.keys(ANOMALY_TYPE_LABELS) as GLAnomalyType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {ANOMALY_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={statusFilter}
+                  onValueChange={(value) => setStatusFilter(value as StatusFilter)}
+                >
+                  <SelectTrigger className="w-32" data-testid="select-anomaly-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="open">未対応</SelectItem>
+                    <SelectItem value="dismissed">却下済み</SelectItem>
+                    <SelectItem value="all">すべて</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {anomalies.length === 0 ? (
+              <div className="text-center py-6 text-muted-foreground">該当する異常はありません</div>
+            ) : (
+              <div className="max-h-[400px] overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>期間</TableHead>
+                      <TableHead>伝票番号</TableHead>
+                      <TableHead>取引日</TableHead>
+                      <TableHead>勘定科目</TableHead>
+                      <TableHead className="text-right">金額</TableHead>
+                      <TableHead>種類</TableHead>
+                      <TableHead>内容</TableHead>
+                      <TableHead>対応</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {anomalies.slice(0, MAX_DISPLAY_ANOMALIES).map((anomaly) => (
+                      <TableRow key={anomaly.id} data-testid={`row-anomaly-${anomaly.id}`}>
+                        <TableCell>{anomaly.period}</TableCell>
+                        <TableCell className="font-mono">{anomaly.voucherNo}</TableCell>
+                        <TableCell>{anomaly.transactionDate}</TableCell>
+                        <TableCell className="text-sm">
+                          <span className="font-mono">{anomaly.accountCode}</span>{" "}
+                          {anomaly.accountName}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(anomaly.amount)}
+                          <span className="text-xs text-muted-foreground ml-1">
+                            {anomaly.debitCredit === "debit" ? "借" : "貸"}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">
+                            {ANOMALY_TYPE_LABELS[anomaly.anomalyType]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm max-w-[320px]">
+                          {anomaly.message}
+                          {anomaly.status === "dismissed" && anomaly.dismissComment && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              却下理由: {anomaly.dismissComment}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {anomaly.status === "open" ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setDismissTarget(anomaly)}
+                              data-testid={`button-dismiss-anomaly-${anomaly.id}`}
+                            >
+                              却下
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleReopen(anomaly.id)}
+                              disabled={reopenMutation.isPending}
+                              data-testid={`button-reopen-anomaly-${anomaly.id}`}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              未対応に戻す
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {anomalies.length > MAX_DISPLAY_ANOMALIES && (
+              <p className="text-xs text-muted-foreground">
+                {anomalies.length}件中{MAX_DISPLAY_ANOMALIES}件を表示しています
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={dismissTarget !== null} onOpenChange={(open) => !open && handleDismissCancel()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>異常の却下</DialogTitle>
+            <DialogDescription>
+              {dismissTarget &&
+                `伝票番号「${dismissTarget.voucherNo}」の${ANOMALY_TYPE_LABELS[dismissTarget.anomalyType]}を確認済みとして却下します。再スキャンしても却下した状態は維持されます。`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="dismiss-comment">却下の理由</Label>
+            <Textarea
+              id="dismiss-comment"
+              placeholder="例: 期末の一括計上のため問題なし"
+              value={dismissComment}
+              onChange={(e) => setDismissComment(e.target.value)}
+              rows={3}
+              data-testid="input-dismiss-comment"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={handleDismissCancel}>
+              キャンセル
+            </Button>
+            <Button
+              onClick={handleDismiss}
+              disabled={!dismissComment.trim() || dismissMutation.isPending}
+              data-testid="button-confirm-dismiss"
+            >
+              却下
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
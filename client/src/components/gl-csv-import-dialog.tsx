@@ -1,6 +1,14 @@
-import { Upload } from "lucide-react";
-import { useState } from "react";
+import type { GLImportPreview } from "@shared/schema";
+import { Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { useLocation } from "wouter";
 
+import {
+  type GLImportProfileDraft,
+  GLImportProfileEditor,
+} from "@/components/gl-import-profile-editor";
+import { ImportSheetSelect } from "@/components/import-sheet-select";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -11,79 +19,268 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { useImportGLEntriesCSV } from "@/hooks/useGLEntries";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  type GLImportProfileSettings,
+  useCreateGLImportProfile,
+  useDeleteGLImportProfile,
+  useGLImportProfiles,
+  usePreviewGLImport,
+  useUpdateGLImportProfile,
+} from "@/hooks/useGLImportProfiles";
+import { useStageImportBatch } from "@/hooks/useImportBatches";
 import { useToast } from "@/hooks/useToast";
 
+// プロファイル未登録（既定なし）の場合にサーバーが使用する標準レイアウト
+const STANDARD_PROFILE_ID = "standard";
+const DEFAULT_COLUMN_COUNT = 22;
+const PREVIEW_DEBOUNCE_MS = 400;
+
+const toSettings = (settings: GLImportProfileSettings): GLImportProfileSettings => ({
+  encoding: settings.encoding,
+  skipHeaderRows: settings.skipHeaderRows,
+  dateFormat: settings.dateFormat,
+  amountFormat: settings.amountFormat,
+  debitFlagValue: settings.debitFlagValue,
+  columnMapping: settings.columnMapping,
+  accountCodes: settings.accountCodes,
+});
+
 export function GLCSVImportDialog() {
   const [open, setOpen] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const importCSV = useImportGLEntriesCSV();
+  const [sheetName, setSheetName] = useState<string | undefined>(undefined);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+  const [editorMode, setEditorMode] = useState<"create" | "edit" | null>(null);
+  const [draft, setDraft] = useState<GLImportProfileDraft | null>(null);
+  const [, setLocation] = useLocation();
+  const stageBatch = useStageImportBatch();
+  const { data: profileData } = useGLImportProfiles();
+  const createProfile = useCreateGLImportProfile();
+  const updateProfile = useUpdateGLImportProfile();
+  const deleteProfile = useDeleteGLImportProfile();
+  const previewMutation = usePreviewGLImport();
+  const { mutate: runPreview, reset: resetPreview } = previewMutation;
   const { toast } = useToast();
 
+  const profiles = useMemo(() => profileData?.profiles ?? [], [profileData]);
+  const standard = profileData?.standard ?? null;
+  const defaultProfile = profiles.find((profile) => profile.isDefault === "true");
+  // 既定のプロファイルがある場合、未指定の取込は既定のプロファイルで行われるため標準レイアウトは選択肢に出さない
+  const showStandard = !defaultProfile && !!standard;
+
+  // プロファイル一覧の取得後に既定のプロファイルを初期選択
+  useEffect(() => {
+    if (selectedProfileId || !profileData) {
+      return;
+    }
+    setSelectedProfileId(
+      defaultProfile?.id ?? (showStandard ? STANDARD_PROFILE_ID : (profiles[0]?.id ?? null))
+    );
+  }, [profileData, profiles, defaultProfile, showStandard, selectedProfileId]);
+
+  const selectedProfile = profiles.find((profile) => profile.id === selectedProfileId);
+  const activeSettings: GLImportProfileSettings | null = editorMode
+    ? draft
+    : selectedProfile
+      ? toSettings(selectedProfile)
+      : selectedProfileId === STANDARD_PROFILE_ID
+        ? standard
+        : null;
+  const settingsKey = activeSettings ? JSON.stringify(toSettings(activeSettings)) : "";
+
+  // ファイルまたは設定が変わったらプレビューを更新（入力中の連続リクエストを避けるため遅延実行）
+  useEffect(() => {
+    if (!open || !selectedFile || !settingsKey) {
+      resetPreview();
+      return;
+    }
+    const timer = setTimeout(() => {
+      runPreview({ file: selectedFile, settings: JSON.parse(settingsKey), sheetName });
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [open, selectedFile, sheetName, settingsKey, runPreview, resetPreview]);
+
+  const preview: GLImportPreview | undefined = previewMutation.data;
+  const skipHeaderRows = activeSettings?.skipHeaderRows ?? 0;
+  const columnCount = Math.max(
+    DEFAULT_COLUMN_COUNT,
+    ...(preview?.rawRows ?? []).map((row) => row.length)
+  );
+  const sampleRow = preview?.rawRows[skipHeaderRows] ?? [];
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setSelectedFile(e.target.files[0]);
     }
   };
 
-  const handleImport = () => {
-    if (!selectedFile) {
+  const startCreate = () => {
+    const base = selectedProfile ?? standard;
+    if (!base) {
+      return;
+    }
+    setDraft({ ...toSettings(base), name: "", isDefault: "false" });
+    setEditorMode("create");
+  };
+
+  const startEdit = () => {
+    if (!selectedProfile) {
+      return;
+    }
+    setDraft({
+      ...toSettings(selectedProfile),
+      name: selectedProfile.name,
+      isDefault: selectedProfile.isDefault,
+    });
+    setEditorMode("edit");
+  };
+
+  const cancelEdit = () => {
+    setEditorMode(null);
+    setDraft(null);
+  };
+
+  const handleSaveProfile = () => {
+    if (!draft || !draft.name.trim()) {
       toast({
         variant: "destructive",
-        title: "ファイル未選択",
-        description: "CSVファイルを選択してください",
+        title: "プロファイル名未入力",
+        description: "プロファイル名を入力してください",
       });
       return;
     }
 
-    importCSV.mutate(selectedFile, {
-      onSuccess: (data) => {
+    const data = { ...draft, name: draft.name.trim() };
+    const callbacks = {
+      onSuccess: (result: { data: { id: string } }) => {
         toast({
-          title: "CSV取込完了",
-          description: `${data.data.importedRows}件のデータを取り込みました（スキップ: ${data.data.skippedRows}件）`,
+          title: "プロファイル保存完了",
+          description: `プロファイル「${data.name}」を保存しました`,
         });
-        setOpen(false);
-        setSelectedFile(null);
+        setSelectedProfileId(result.data.id);
+        cancelEdit();
       },
-      onError: (error: any) => {
-        const errorMessage = error?.message || "CSVファイルの取込中にエラーが発生しました";
-        const isExistingDataError = errorMessage.includes("既存のGLデータが");
+      onError: (error: Error) => {
+        toast({
+          variant: "destructive",
+          title: "プロファイル保存エラー",
+          description: error.message || "プロファイルの保存中にエラーが発生しました",
+        });
+      },
+    };
+
+    if (editorMode === "edit" && selectedProfile) {
+      updateProfile.mutate({ id: selectedProfile.id, data }, callbacks);
+    } else {
+      createProfile.mutate(data, callbacks);
+    }
+  };
 
+  const handleDeleteProfile = () => {
+    if (!selectedProfile) {
+      return;
+    }
+    deleteProfile.mutate(selectedProfile.id, {
+      onSuccess: () => {
+        toast({
+          title: "プロファイル削除完了",
+          description: `プロファイル「${selectedProfile.name}」を削除しました`,
+        });
+        setSelectedProfileId(null);
+      },
+      onError: (error: Error) => {
         toast({
           variant: "destructive",
-          title: "CSV取込エラー",
-          description:
-            errorMessage +
-            (isExistingDataError
-              ? " 先に「GL データ削除」ボタンで月度データを削除してから取り込んでください。"
-              : ""),
+          title: "プロファイル削除エラー",
+          description: error.message || "プロファイルの削除中にエラーが発生しました",
         });
       },
     });
   };
 
+  const handleImport = () => {
+    if (!selectedFile) {
+      toast({
+        variant: "destructive",
+        title: "ファイル未選択",
+        description: "CSVまたはXLSXファイルを選択してください",
+      });
+      return;
+    }
+
+    const profileId = selectedProfile?.id;
+
+    // 取込バッチに読み込み、明細を確認・修正してから反映する
+    stageBatch.mutate(
+      { file: selectedFile, importType: "gl-entries", profileId, sheetName },
+      {
+        onSuccess: (batch) => {
+          toast({
+            title: "取込ファイル読込完了",
+            description: `取込可能: ${batch.validRows}件、エラー: ${batch.errorRows}件。内容を確認して反映してください`,
+          });
+          setOpen(false);
+          setSelectedFile(null);
+          setLocation(`/import-batches/${batch.id}`);
+        },
+        onError: (error: Error) => {
+          toast({
+            variant: "destructive",
+            title: "GL取込エラー",
+            description: error.message || "ファイルの取込中にエラーが発生しました",
+          });
+        },
+      }
+    );
+  };
+
+  const isSavingProfile = createProfile.isPending || updateProfile.isPending;
+
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) {
+          cancelEdit();
+        }
+      }}
+    >
       <DialogTrigger asChild>
         <Button variant="outline">
           <Upload className="h-4 w-4 mr-2" />
           GL CSV取込
         </Button>
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>総勘定元帳CSV取込</DialogTitle>
+          <DialogTitle>総勘定元帳CSV・XLSX取込</DialogTitle>
           <DialogDescription>
-            総勘定元帳のCSVファイルを選択して取り込みます。
-            対象科目のみが自動的にフィルタリングされます。
+            総勘定元帳のCSV・XLSXファイルと取込プロファイルを選択して取込バッチに読み込みます。
+            内容を確認して反映すると、同じ月度の既存データは突合状態を保ったまま更新し、CSVから消えた行は削除します。
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-4 py-4">
           <div className="space-y-2">
-            <label className="text-sm font-medium">CSVファイル</label>
+            <label className="text-sm font-medium">CSV・XLSXファイル</label>
             <input
               type="file"
-              accept=".csv"
+              accept=".csv,.xlsx"
               onChange={handleFileChange}
               className="block w-full text-sm text-muted-foreground
                 file:mr-4 file:py-2 file:px-4
@@ -96,20 +293,219 @@ export function GLCSVImportDialog() {
               <p className="text-sm text-muted-foreground">選択: {selectedFile.name}</p>
             )}
           </div>
-          <div className="bg-muted p-3 rounded-md text-sm">
-            <p className="font-medium mb-2">対象科目コード：</p>
-            <p className="text-muted-foreground">
-              511 保守売上、512 ソフト売上、513 商品売上、514 消耗品売上、 541 仕入高、515
-              その他売上、727 通信費、737 消耗品費、 740 支払保守料、745 外注加工費
-            </p>
+
+          <ImportSheetSelect file={selectedFile} value={sheetName} onChange={setSheetName} />
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">取込プロファイル</label>
+            <div className="flex gap-2">
+              <Select
+                value={selectedProfileId ?? undefined}
+                onValueChange={setSelectedProfileId}
+                disabled={!!editorMode}
+              >
+                <SelectTrigger className="w-[320px]" data-testid="select-import-profile">
+                  <SelectValue placeholder="プロファイルを選択" />
+                </SelectTrigger>
+                <SelectContent>
+                  {showStandard && (
+                    <SelectItem value={STANDARD_PROFILE_ID}>標準レイアウト（組込み）</SelectItem>
+                  )}
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                      {profile.isDefault === "true" ? "（既定）" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!editorMode && (
+                <>
+                  <Button variant="outline" onClick={startCreate} data-testid="button-new-profile">
+                    <Plus className="h-4 w-4 mr-2" />
+                    新規作成
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={startEdit}
+                    disabled={!selectedProfile}
+                    data-testid="button-edit-profile"
+                  >
+                    <Pencil className="h-4 w-4 mr-2" />
+                    編集
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={handleDeleteProfile}
+                    disabled={!selectedProfile || deleteProfile.isPending}
+                    data-testid="button-delete-profile"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+            {!editorMode && activeSettings && (
+              <p className="text-sm text-muted-foreground">
+                対象科目コード: {activeSettings.accountCodes || "全科目"}
+              </p>
+            )}
           </div>
+
+          {editorMode && draft && (
+            <div className="rounded-md border p-4 space-y-4">
+              <GLImportProfileEditor
+                draft={draft}
+                onChange={setDraft}
+                sampleRow={sampleRow}
+                columnCount={columnCount}
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={cancelEdit}>
+                  キャンセル
+                </Button>
+                <Button
+                  onClick={handleSaveProfile}
+                  disabled={isSavingProfile}
+                  data-testid="button-save-profile"
+                >
+                  {isSavingProfile ? "保存中..." : "プロファイルを保存"}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {selectedFile && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-medium">プレビュー</span>
+                {previewMutation.isPending && (
+                  <span className="text-muted-foreground">読み込み中...</span>
+                )}
+                {preview && (
+                  <>
+                    <Badge variant="outline">
+                      {preview.sheetName
+                        ? `シート: ${preview.sheetName}`
+                        : `文字コード: ${preview.encoding}`}
+                    </Badge>
+                    <Badge variant="outline">データ行: {preview.totalRows}</Badge>
+                    <Badge variant="outline">取込対象: {preview.importableRows}</Badge>
+                    <Badge variant="outline">対象外: {preview.skippedRows}</Badge>
+                    {preview.errors.length > 0 && (
+                      <Badge variant="destructive">エラー: {preview.errors.length}</Badge>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {previewMutation.error && (
+                <p className="text-sm text-destructive">{previewMutation.error.message}</p>
+              )}
+
+              {preview && (
+                <>
+                  <div className="rounded-md border overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-12">行</TableHead>
+                          {Array.from(
+                            { length: Math.max(0, ...preview.rawRows.map((row) => row.length)) },
+                            (_, index) => (
+                              <TableHead key={index} className="whitespace-nowrap">
+                                列{index + 1}
+                              </TableHead>
+                            )
+                          )}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.rawRows.map((row, rowIndex) => (
+                          <TableRow
+                            key={rowIndex}
+                            className={rowIndex < skipHeaderRows ? "bg-muted/50" : undefined}
+                          >
+                            <TableCell className="text-muted-foreground">{rowIndex + 1}</TableCell>
+                            {row.map((value, index) => (
+                              <TableCell key={index} className="whitespace-nowrap text-xs">
+                                {value}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-12">行</TableHead>
+                          <TableHead>取引日</TableHead>
+                          <TableHead>伝票番号</TableHead>
+                          <TableHead>勘定科目</TableHead>
+                          <TableHead className="text-right">金額</TableHead>
+                          <TableHead>貸借</TableHead>
+                          <TableHead>摘要</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.entries.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={7} className="text-center text-muted-foreground">
+                              取込対象のデータがありません
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          preview.entries.map((entry) => (
+                            <TableRow key={entry.row}>
+                              <TableCell className="text-muted-foreground">{entry.row}</TableCell>
+                              <TableCell>{entry.transactionDate}</TableCell>
+                              <TableCell>{entry.voucherNo}</TableCell>
+                              <TableCell>
+                                {entry.accountCode} {entry.accountName}
+                              </TableCell>
+                              <TableCell className="text-right font-mono">
+                                ¥{Number(entry.amount).toLocaleString()}
+                              </TableCell>
+                              <TableCell>
+                                {entry.debitCredit === "debit" ? "借方" : "貸方"}
+                              </TableCell>
+                              <TableCell className="text-muted-foreground">
+                                {entry.description || "-"}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+
+                  {preview.errors.length > 0 && (
+                    <div className="text-sm text-destructive space-y-1">
+                      {preview.errors.map((error) => (
+                        <p key={error.row}>
+                          {error.row}行目: {error.message}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
         </div>
         <DialogFooter>
           <Button variant="outline" onClick={() => setOpen(false)}>
             キャンセル
           </Button>
-          <Button onClick={handleImport} disabled={!selectedFile || importCSV.isPending}>
-            {importCSV.isPending ? "取込中..." : "取込実行"}
+          <Button
+            onClick={handleImport}
+            disabled={!selectedFile || !activeSettings || !!editorMode || stageBatch.isPending}
+          >
+            {stageBatch.isPending ? "読込中..." : "読み込んで内容を確認"}
           </Button>
         </DialogFooter>
       </DialogContent>
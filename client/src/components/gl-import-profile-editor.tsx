@@ -0,0 +1,234 @@
+import type { GLImportColumnMapping } from "@shared/schema";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { GLImportProfileSettings } from "@/hooks/useGLImportProfiles";
+
+export interface GLImportProfileDraft extends GLImportProfileSettings {
+  name: string;
+  isDefault: string;
+}
+
+interface GLImportProfileEditorProps {
+  draft: GLImportProfileDraft;
+  onChange: (draft: GLImportProfileDraft) => void;
+  sampleRow: string[]; // 列の割当の選択肢に表示するデータ行（ヘッダー行の次の行）
+  columnCount: number;
+}
+
+const ENCODING_OPTIONS = [
+  { value: "auto", label: "自動判定" },
+  { value: "shift_jis", label: "Shift_JIS" },
+  { value: "utf8", label: "UTF-8" },
+  { value: "euc-jp", label: "EUC-JP" },
+];
+
+const DATE_FORMAT_OPTIONS = [
+  { value: "auto", label: "自動判定" },
+  { value: "YYYYMMDD", label: "YYYYMMDD" },
+  { value: "YYYY/MM/DD", label: "YYYY/MM/DD" },
+  { value: "YYYY-MM-DD", label: "YYYY-MM-DD" },
+];
+
+const AMOUNT_FORMAT_OPTIONS = [
+  { value: "separate", label: "借方・貸方が別の列" },
+  { value: "signed", label: "符号付き金額（マイナスは貸方）" },
+  { value: "flag", label: "金額＋貸借区分の列" },
+];
+
+const COLUMN_FIELDS: Array<{
+  key: keyof GLImportColumnMapping;
+  label: string;
+  required: boolean;
+  amountFormats?: string[];
+}> = [
+  { key: "voucherNo", label: "伝票番号", required: true },
+  { key: "transactionDate", label: "取引日", required: true },
+  { key: "accountCode", label: "勘定科目コード", required: true },
+  { key: "accountName", label: "勘定科目名", required: true },
+  { key: "description", label: "摘要", required: false },
+  { key: "debitAmount", label: "借方金額", required: true, amountFormats: ["separate"] },
+  { key: "creditAmount", label: "貸方金額", required: true, amountFormats: ["separate"] },
+  { key: "amount", label: "金額", required: true, amountFormats: ["signed", "flag"] },
+  { key: "debitCreditFlag", label: "貸借区分", required: true, amountFormats: ["flag"] },
+];
+
+const UNASSIGNED = "none";
+
+export function GLImportProfileEditor({
+  draft,
+  onChange,
+  sampleRow,
+  columnCount,
+}: GLImportProfileEditorProps) {
+  const update = (patch: Partial<GLImportProfileDraft>) => {
+    onChange({ ...draft, ...patch });
+  };
+
+  const updateColumn = (key: keyof GLImportColumnMapping, value: string) => {
+    const columnMapping = { ...draft.columnMapping };
+    if (value === UNASSIGNED) {
+      delete columnMapping[key];
+    } else {
+      columnMapping[key] = parseInt(value);
+    }
+    update({ columnMapping });
+  };
+
+  const amountFormat = draft.amountFormat ?? "separate";
+  const visibleFields = COLUMN_FIELDS.filter(
+    (field) => !field.amountFormats || field.amountFormats.includes(amountFormat)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="profile-name">プロファイル名</Label>
+          <Input
+            id="profile-name"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="例: 会計ソフトA 総勘定元帳"
+            data-testid="input-profile-name"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>文字コード</Label>
+          <Select
+            value={draft.encoding ?? "auto"}
+            onValueChange={(encoding) => update({ encoding })}
+          >
+            <SelectTrigger data-testid="select-profile-encoding">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ENCODING_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="profile-skip-rows">読み飛ばすヘッダー行数</Label>
+          <Input
+            id="profile-skip-rows"
+            type="number"
+            min={0}
+            value={draft.skipHeaderRows ?? 0}
+            onChange={(e) => update({ skipHeaderRows: Math.max(parseInt(e.target.value) || 0, 0) })}
+            data-testid="input-profile-skip-rows"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>日付形式</Label>
+          <Select
+            value={draft.dateFormat ?? "auto"}
+            onValueChange={(dateFormat) => update({ dateFormat })}
+          >
+            <SelectTrigger data-testid="select-profile-date-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_FORMAT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>借方/貸方の表現</Label>
+          <Select value={amountFormat} onValueChange={(value) => update({ amountFormat: value })}>
+            <SelectTrigger data-testid="select-profile-amount-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AMOUNT_FORMAT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {amountFormat === "flag" && (
+          <div className="space-y-2">
+            <Label htmlFor="profile-debit-flag">借方を示す貸借区分の値</Label>
+            <Input
+              id="profile-debit-flag"
+              value={draft.debitFlagValue ?? ""}
+              onChange={(e) => update({ debitFlagValue: e.target.value })}
+              placeholder="例: 借方"
+              data-testid="input-profile-debit-flag"
+            />
+          </div>
+        )}
+        <div className="space-y-2 col-span-2">
+          <Label htmlFor="profile-account-codes">取込対象の勘定科目コード</Label>
+          <Input
+            id="profile-account-codes"
+            value={draft.accountCodes ?? ""}
+            onChange={(e) => update({ accountCodes: e.target.value })}
+            placeholder="カンマ区切り（未指定の場合は全科目）"
+            data-testid="input-profile-account-codes"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>列の割当</Label>
+        <div className="grid grid-cols-3 gap-3">
+          {visibleFields.map((field) => {
+            const value = draft.columnMapping?.[field.key];
+            return (
+              <div key={field.key} className="space-y-1">
+                <span className="text-xs text-muted-foreground">
+                  {field.label}
+                  {field.required && <span className="text-destructive"> *</span>}
+                </span>
+                <Select
+                  value={value === undefined ? UNASSIGNED : value.toString()}
+                  onValueChange={(selected) => updateColumn(field.key, selected)}
+                >
+                  <SelectTrigger data-testid={`select-column-${field.key}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>未割当</SelectItem>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <SelectItem key={index} value={index.toString()}>
+                        列{index + 1}
+                        {sampleRow[index] ? `（${sampleRow[index].slice(0, 16)}）` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="profile-default"
+          checked={draft.isDefault === "true"}
+          onCheckedChange={(checked) => update({ isDefault: checked ? "true" : "false" })}
+        />
+        <Label htmlFor="profile-default">既定のプロファイルにする</Label>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useEffect, useMemo, useState } from "react";
 
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
@@ -16,7 +17,11 @@ import {
 } from "@/components/ui/sheet";
 import { Switch } from "@/components/ui/switch";
 import { useAccountingItems } from "@/hooks/useMasters";
-import { useManualReconcile, useUnmatchReconciliation } from "@/hooks/useReconciliation";
+import {
+  useManualReconcile,
+  useReconciliationLinks,
+  useUnmatchReconciliation,
+} from "@/hooks/useReconciliation";
 import { useToast } from "@/hooks/useToast";
 
 import { AutocompleteSelect } from "./autocomplete-select";
@@ -51,6 +56,9 @@ export function GLReconciliationPanel({
   const [accountCodeFilter, setAccountCodeFilter] = useState("");
   const [searchText, setSearchText] = useState("");
   const [unmatchedOnly, setUnmatchedOnly] = useState(true);
+  // 分割突合モード（複数GLを選択して1件の受発注と突合）
+  const [splitMode, setSplitMode] = useState(false);
+  const [selectedGlIds, setSelectedGlIds] = useState<string[]>([]);
   const { toast } = useToast();
 
   // 会計項目マスタデータを取得
@@ -70,6 +78,20 @@ export function GLReconciliationPanel({
     ? orderForecasts.find((o) => o.id === selectedOrderId)
     : null;
 
+  // 突合済み受発注の突合リンク（分割突合ではglMatchIdが設定されないため）
+  const { data: linkData } = useReconciliationLinks(
+    selectedOrder && selectedOrder.reconciliationStatus !== "unmatched" ? selectedOrder.id : null
+  );
+  const linkedGlIds = useMemo(
+    () => new Set((linkData?.links ?? []).map((link) => link.glEntryId)),
+    [linkData]
+  );
+
+  // 受発注の選択が変わったら複数選択をリセット
+  useEffect(() => {
+    setSelectedGlIds([]);
+  }, [selectedOrderId]);
+
   // Auto-open panel when order is selected
   useEffect(() => {
     if (externalSelectedOrderId) {
@@ -109,13 +131,14 @@ export function GLReconciliationPanel({
       // 突合除外指定されたGLデータは常に非表示
       if (gl.isExcluded === "true") return false;
 
-      // 突合済み受発注選択時: glMatchIdに一致するGLデータのみ表示
-      if (
-        selectedOrder &&
-        selectedOrder.reconciliationStatus === "matched" &&
-        selectedOrder.glMatchId
-      ) {
-        return gl.id === selectedOrder.glMatchId;
+      // 突合済み受発注選択時: 突合リンクまたはglMatchIdに一致するGLデータのみ表示
+      if (selectedOrder && selectedOrder.reconciliationStatus === "matched") {
+        if (linkedGlIds.size > 0) {
+          return linkedGlIds.has(gl.id);
+        }
+        if (selectedOrder.glMatchId) {
+          return gl.id === selectedOrder.glMatchId;
+        }
       }
 
       // 未突合受発注または選択なしの場合: 既存のフィルタリング処理
@@ -129,10 +152,24 @@ export function GLReconciliationPanel({
       }
       return true;
     });
-  }, [glEntries, accountCodeFilter, searchText, unmatchedOnly, selectedOrder]);
+  }, [glEntries, accountCodeFilter, searchText, unmatchedOnly, selectedOrder, linkedGlIds]);
+
+  const selectedGlTotal = useMemo(
+    () =>
+      glEntries
+        .filter((gl) => selectedGlIds.includes(gl.id))
+        .reduce((sum, gl) => sum + Number(gl.amount), 0),
+    [glEntries, selectedGlIds]
+  );
 
-  const handleManualMatch = async (glId: string) => {
-    if (!selectedOrderId || !selectedOrder) return;
+  const toggleGlSelection = (glId: string) => {
+    setSelectedGlIds((prev) =>
+      prev.includes(glId) ? prev.filter((id) => id !== glId) : [...prev, glId]
+    );
+  };
+
+  const handleManualMatch = async (glIds: string[]) => {
+    if (!selectedOrderId || !selectedOrder || glIds.length === 0) return;
 
     try {
       // 既に突合済みの場合は警告を表示
@@ -148,16 +185,24 @@ export function GLReconciliationPanel({
         return;
       }
 
-      await manualReconcile.mutateAsync({
-        orderId: selectedOrderId,
-        glId,
+      const { learnedAliases } = await manualReconcile.mutateAsync({
+        orderIds: [selectedOrderId],
+        glIds,
       });
 
+      const matchedMessage =
+        glIds.length > 1
+          ? `受発注見込みと${glIds.length}件のGLデータを分割突合しました`
+          : "受発注見込みとGLデータを突合しました";
       toast({
         title: "手動突合成功",
-        description: "受発注見込みとGLデータを突合しました",
+        description:
+          learnedAliases.length > 0
+            ? `${matchedMessage}（表記の異なる${learnedAliases.length}件の組をエイリアス辞書に記録しました）`
+            : matchedMessage,
       });
 
+      setSelectedGlIds([]);
       setSelectedOrderId(null);
       setOpen(false);
     } catch (_error) {
@@ -172,8 +217,9 @@ export function GLReconciliationPanel({
   const handleUnmatch = async () => {
     if (!selectedOrderId || !selectedOrder) return;
 
-    // glMatchIdが必要
-    if (!selectedOrder.glMatchId) {
+    // 分割突合の場合は突合リンクからGL IDを取得
+    const glId = selectedOrder.glMatchId ?? linkData?.links[0]?.glEntryId;
+    if (!glId) {
       toast({
         variant: "destructive",
         title: "解除エラー",
@@ -185,7 +231,7 @@ export function GLReconciliationPanel({
     try {
       await unmatchReconciliation.mutateAsync({
         orderId: selectedOrderId,
-        glId: selectedOrder.glMatchId,
+        glId,
       });
 
       toast({
@@ -331,6 +377,7 @@ export function GLReconciliationPanel({
                       status={
                         selectedOrder.reconciliationStatus as "matched" | "fuzzy" | "unmatched"
                       }
+                      crossPeriod={selectedOrder.isCrossPeriod === "true"}
                     />
                   </div>
                 </div>
@@ -377,9 +424,43 @@ export function GLReconciliationPanel({
                     <Switch checked={unmatchedOnly} onCheckedChange={setUnmatchedOnly} />
                     <Label className="text-sm">未突合のみ表示</Label>
                   </div>
+
+                  {selectedOrder.reconciliationStatus === "unmatched" && (
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={splitMode}
+                        onCheckedChange={(checked) => {
+                          setSplitMode(checked);
+                          setSelectedGlIds([]);
+                        }}
+                      />
+                      <Label className="text-sm">複数GLを選択して分割突合</Label>
+                    </div>
+                  )}
                 </div>
               </div>
 
+              {/* Split Selection Summary */}
+              {splitMode && selectedOrder.reconciliationStatus === "unmatched" && (
+                <div className="border rounded-md p-3 space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span>選択中: {selectedGlIds.length}件</span>
+                    <span className="font-mono">
+                      {formatCurrency(selectedGlTotal)} / {formatCurrency(selectedOrder.amount)}
+                    </span>
+                  </div>
+                  <Button
+                    size="sm"
+                    className="w-full"
+                    onClick={() => handleManualMatch(selectedGlIds)}
+                    disabled={selectedGlIds.length === 0 || manualReconcile.isPending}
+                  >
+                    <GitMerge className="h-4 w-4 mr-2" />
+                    選択したGLと突合
+                  </Button>
+                </div>
+              )}
+
               {/* GL List */}
               <div className="space-y-2">
                 <div className="text-sm font-medium">GLデータ ({filteredGLEntries.length}件)</div>
@@ -394,14 +475,25 @@ export function GLReconciliationPanel({
                       <button
                         key={gl.id}
                         className="w-full border rounded-md p-3 text-left hover:bg-muted/50 transition-colors"
-                        onClick={() => handleManualMatch(gl.id)}
+                        onClick={() =>
+                          splitMode ? toggleGlSelection(gl.id) : handleManualMatch([gl.id])
+                        }
                         disabled={manualReconcile.isPending}
                       >
                         <div className="space-y-1">
                           <div className="flex items-center justify-between">
-                            <span className="font-medium">{gl.voucherNo}</span>
+                            <span className="flex items-center gap-2 font-medium">
+                              {splitMode && (
+                                <Checkbox
+                                  checked={selectedGlIds.includes(gl.id)}
+                                  className="pointer-events-none"
+                                />
+                              )}
+                              {gl.voucherNo}
+                            </span>
                             <ReconciliationStatusBadge
                               status={gl.reconciliationStatus as "matched" | "fuzzy" | "unmatched"}
+                              crossPeriod={gl.isCrossPeriod === "true"}
                             />
                           </div>
                           <div className="text-xs text-muted-foreground">
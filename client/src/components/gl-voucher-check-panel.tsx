@@ -0,0 +1,167 @@
+import type { GLVoucherIssueType } from "@shared/schema";
+import { RefreshCw } from "lucide-react";
+import { useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useGLVoucherCheck } from "@/hooks/useGLEntries";
+
+interface GLVoucherCheckPanelProps {
+  fiscalYear: number;
+  month?: number;
+}
+
+type IssueFilter = "all" | GLVoucherIssueType;
+
+// 一覧に表示する伝票の上限
+const MAX_DISPLAY_VOUCHERS = 200;
+
+const formatAmount = (value: number) => `¥${value.toLocaleString()}`;
+
+export function GLVoucherCheckPanel({ fiscalYear, month }: GLVoucherCheckPanelProps) {
+  const [issueFilter, setIssueFilter] = useState<IssueFilter>("unbalanced");
+  const { data, isLoading, isFetching, refetch } = useGLVoucherCheck({ fiscalYear, month });
+
+  const vouchers = (data?.vouchers ?? []).filter(
+    (voucher) => issueFilter === "all" || voucher.issues.includes(issueFilter)
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-base">伝票の貸借チェック</CardTitle>
+          <CardDescription>
+            伝票番号ごとに借方・貸方の合計が一致するか、取込対象の勘定科目の絞込みで一部の明細のみ取り込まれていないかを確認します（取込時に自動でチェックします）
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => void refetch()}
+          disabled={isFetching}
+          data-testid="button-voucher-check"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          再チェック
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading || !data ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">チェックした伝票: {data.summary.checkedVouchers}件</Badge>
+              <Badge variant={data.summary.unbalancedVouchers > 0 ? "destructive" : "outline"}>
+                貸借不一致: {data.summary.unbalancedVouchers}件
+              </Badge>
+              <Badge variant="secondary">一部のみ取込: {data.summary.truncatedVouchers}件</Badge>
+              <Select
+                value={issueFilter}
+                onValueChange={(value) => setIssueFilter(value as IssueFilter)}
+              >
+                <SelectTrigger className="w-48 ml-auto" data-testid="select-voucher-issue">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unbalanced">貸借不一致の伝票</SelectItem>
+                  <SelectItem value="truncated">一部のみ取込の伝票</SelectItem>
+                  <SelectItem value="all">問題のある全ての伝票</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {vouchers.length === 0 ? (
+              <div className="text-center py-6 text-muted-foreground">該当する伝票はありません</div>
+            ) : (
+              <div className="max-h-[400px] overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>期間</TableHead>
+                      <TableHead>伝票番号</TableHead>
+                      <TableHead>取引日</TableHead>
+                      <TableHead className="text-right">取込明細</TableHead>
+                      <TableHead className="text-right">借方</TableHead>
+                      <TableHead className="text-right">貸方</TableHead>
+                      <TableHead>対象外の明細</TableHead>
+                      <TableHead className="text-right">貸借差額</TableHead>
+                      <TableHead>判定</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {vouchers.slice(0, MAX_DISPLAY_VOUCHERS).map((voucher) => (
+                      <TableRow
+                        key={`${voucher.period}-${voucher.voucherNo}`}
+                        data-testid={`row-voucher-${voucher.voucherNo}`}
+                      >
+                        <TableCell>{voucher.period}</TableCell>
+                        <TableCell className="font-mono">{voucher.voucherNo}</TableCell>
+                        <TableCell>{voucher.transactionDate}</TableCell>
+                        <TableCell className="text-right">{voucher.lineCount}件</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(voucher.debitTotal)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(voucher.creditTotal)}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {voucher.excludedLineCount > 0 ? (
+                            <>
+                              {voucher.excludedLineCount}件
+                              <span className="text-muted-foreground">
+                                （{voucher.excludedAccountCodes.join(", ")}）
+                              </span>
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {voucher.difference !== 0 ? formatAmount(voucher.difference) : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            {voucher.issues.includes("unbalanced") && (
+                              <Badge variant="destructive">貸借不一致</Badge>
+                            )}
+                            {voucher.issues.includes("truncated") && (
+                              <Badge variant="secondary">一部のみ取込</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {vouchers.length > MAX_DISPLAY_VOUCHERS && (
+              <p className="text-xs text-muted-foreground">
+                {vouchers.length}件中{MAX_DISPLAY_VOUCHERS}件を表示しています
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getExcelSheetNames } from "@/lib/importExport";
+
+interface ImportSheetSelectProps {
+  file: File | null;
+  value: string | undefined;
+  onChange: (sheetName: string | undefined) => void;
+}
+
+/**
+ * XLSX取込時の読込シート選択
+ * 選択されたファイルがXLSXの場合のみ表示し、先頭のシートを初期選択する
+ */
+export function ImportSheetSelect({ file, value, onChange }: ImportSheetSelectProps) {
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+
+  // ファイルが変わった時のみシート一覧を読み直す
+  useEffect(() => {
+    setSheetNames([]);
+    onChange(undefined);
+
+    if (!file || !file.name.toLowerCase().endsWith(".xlsx")) {
+      return;
+    }
+
+    let cancelled = false;
+    getExcelSheetNames(file)
+      .then((names) => {
+        if (!cancelled) {
+          setSheetNames(names);
+          onChange(names[0]);
+        }
+      })
+      .catch(() => {
+        // 読み込めない場合はサーバー側の取込エラーで通知する
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  if (sheetNames.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>シート</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-[320px]" data-testid="select-import-sheet">
+          <SelectValue placeholder="シートを選択" />
+        </SelectTrigger>
+        <SelectContent>
+          {sheetNames.map((sheetName) => (
+            <SelectItem key={sheetName} value={sheetName}>
+              {sheetName}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
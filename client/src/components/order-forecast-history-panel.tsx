@@ -0,0 +1,252 @@
+import type {
+  OrderForecast,
+  OrderForecastFieldChange,
+  OrderForecastHistoryAction,
+  OrderForecastHistoryField,
+  OrderForecastHistoryListItem,
+} from "@shared/schema";
+import { History, RotateCcw } from "lucide-react";
+import { useState } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useOrderForecastHistory, useRestoreOrderForecast } from "@/hooks/useOrderForecasts";
+import { useToast } from "@/hooks/useToast";
+
+interface OrderForecastHistoryPanelProps {
+  orderForecast: OrderForecast | null; // 履歴を表示する行（グリッドで選択中の行）
+  hasPendingChanges: boolean; // 選択中の行に未保存の編集があるか
+}
+
+const ACTION_LABELS: Record<OrderForecastHistoryAction, string> = {
+  create: "作成",
+  update: "更新",
+  delete: "削除",
+  exclude: "除外",
+  include: "除外解除",
+  promote: "角度Bから昇格",
+  demote: "角度Bへ降格",
+  restore: "復元",
+};
+
+const FIELD_LABELS: Record<OrderForecastHistoryField, string> = {
+  projectId: "プロジェクトID",
+  projectCode: "プロジェクトコード",
+  projectName: "プロジェクト名",
+  customerId: "取引先ID",
+  customerCode: "取引先コード",
+  customerName: "取引先名",
+  accountingPeriod: "計上年月",
+  accountingItem: "計上科目",
+  description: "摘要文",
+  amount: "金額",
+  remarks: "備考",
+  period: "登録期間",
+  reconciliationStatus: "突合状態",
+  isExcluded: "除外",
+  exclusionReason: "除外理由",
+};
+
+// 画面に表示しない項目（名称・コードの変更として表示される）
+const HIDDEN_FIELDS: OrderForecastHistoryField[] = ["projectId", "customerId"];
+
+const formatValue = (change: OrderForecastFieldChange, value: string | null): string => {
+  if (value === null || value === "") {
+    return "（空欄）";
+  }
+  if (change.field === "amount") {
+    return `¥${Math.floor(Number(value)).toLocaleString()}`;
+  }
+  return value;
+};
+
+const formatDateTime = (value: string | Date) =>
+  new Date(value).toLocaleString("ja-JP", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function OrderForecastHistoryPanel({
+  orderForecast,
+  hasPendingChanges,
+}: OrderForecastHistoryPanelProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<OrderForecastHistoryListItem | null>(null);
+
+  const { data: histories, isLoading } = useOrderForecastHistory(
+    open && orderForecast ? orderForecast.id : null
+  );
+  const restoreMutation = useRestoreOrderForecast();
+
+  const handleOpen = () => {
+    if (!orderForecast) {
+      toast({
+        title: "行を選択してください",
+        description: "変更履歴を表示する受発注見込みを選択してください",
+        variant: "destructive",
+      });
+      return;
+    }
+    setOpen(true);
+  };
+
+  const handleRestore = () => {
+    if (!orderForecast || !restoreTarget) {
+      return;
+    }
+    restoreMutation.mutate(
+      { id: orderForecast.id, historyId: restoreTarget.id, version: orderForecast.version },
+      {
+        onSuccess: () => {
+          toast({
+            title: "成功",
+            description: `${formatDateTime(restoreTarget.createdAt)}時点の内容に復元しました`,
+          });
+          setRestoreTarget(null);
+        },
+        onError: (error: Error) => {
+          toast({
+            title: "エラー",
+            description: error.message || "受発注データの復元に失敗しました",
+            variant: "destructive",
+          });
+          setRestoreTarget(null);
+        },
+      }
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <Button variant="outline" onClick={handleOpen} data-testid="button-open-history">
+        <History className="h-4 w-4 mr-2" />
+        変更履歴
+      </Button>
+      <SheetContent className="w-[520px] sm:max-w-[520px] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>変更履歴</SheetTitle>
+          <SheetDescription>
+            {orderForecast &&
+              `${orderForecast.projectCode} ${orderForecast.projectName} / ${orderForecast.description}`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {hasPendingChanges && (
+          <p className="mt-4 text-sm text-muted-foreground">
+            この行には未保存の編集があります。復元するには先に保存してください
+          </p>
+        )}
+
+        <div className="mt-4 space-y-3">
+          {isLoading || !histories ? (
+            <Skeleton className="h-32 w-full" />
+          ) : histories.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">変更履歴はありません</div>
+          ) : (
+            histories.map((history, index) => {
+              const visibleChanges = history.changes.filter(
+                (change) => !HIDDEN_FIELDS.includes(change.field)
+              );
+              // 最新の履歴は現在の内容と同じため復元の対象外
+              const canRestore = index > 0 && history.version !== null;
+              return (
+                <div
+                  key={history.id}
+                  className="border rounded-md p-3 space-y-2"
+                  data-testid={`history-${history.id}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={history.action === "delete" ? "destructive" : "secondary"}>
+                        {ACTION_LABELS[history.action]}
+                      </Badge>
+                      <span className="text-sm">{formatDateTime(history.createdAt)}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {history.changedByName ?? "不明"}
+                      </span>
+                    </div>
+                    {canRestore && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRestoreTarget(history)}
+                        disabled={hasPendingChanges || restoreMutation.isPending}
+                        data-testid={`button-restore-history-${history.id}`}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        この内容に戻す
+                      </Button>
+                    )}
+                  </div>
+                  {history.action !== "create" &&
+                    history.action !== "promote" &&
+                    visibleChanges.length > 0 && (
+                      <dl className="text-sm space-y-1">
+                        {visibleChanges.map((change) => (
+                          <div key={change.field} className="grid grid-cols-[7rem_1fr] gap-2">
+                            <dt className="text-muted-foreground">{FIELD_LABELS[change.field]}</dt>
+                            <dd>
+                              <span className="line-through text-muted-foreground">
+                                {formatValue(change, change.before)}
+                              </span>
+                              {" → "}
+                              <span className="font-medium">
+                                {formatValue(change, change.after)}
+                              </span>
+                            </dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </SheetContent>
+
+      <AlertDialog
+        open={restoreTarget !== null}
+        onOpenChange={(isOpen) => !isOpen && setRestoreTarget(null)}
+      >
+        <AlertDialogContent data-testid="dialog-restore-history">
+          <AlertDialogHeader>
+            <AlertDialogTitle>この内容に戻しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              {restoreTarget &&
+                `${formatDateTime(restoreTarget.createdAt)}時点のプロジェクト・取引先・計上年月・計上科目・摘要文・金額・備考に戻します。突合状態と除外設定は変更されません。復元も変更履歴に記録されます。`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore} disabled={restoreMutation.isPending}>
+              復元
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sheet>
+  );
+}
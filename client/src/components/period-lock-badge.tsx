@@ -0,0 +1,32 @@
+import { Lock } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { useIsPeriodClosed } from "@/hooks/useAccountingPeriods";
+
+interface PeriodLockBadgeProps {
+  period: string | null | undefined; // YYYY-MM形式
+  className?: string;
+}
+
+/**
+ * 締め済み期間の表示バッジ
+ * 期間が締め済みの場合のみ表示する
+ */
+export function PeriodLockBadge({ period, className }: PeriodLockBadgeProps) {
+  const isClosed = useIsPeriodClosed(period);
+
+  if (!isClosed) {
+    return null;
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className={`rounded-full px-2 py-1 gap-1 bg-muted/40 text-muted-foreground ${className || ""}`}
+      data-testid="badge-period-locked"
+    >
+      <Lock className="h-3 w-3" />
+      <span className="text-xs font-medium">{period} 締め済み</span>
+    </Badge>
+  );
+}
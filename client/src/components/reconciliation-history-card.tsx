@@ -0,0 +1,200 @@
+import type { ReconciliationLog } from "@shared/schema";
+import { FileSpreadsheet, FileText, History, Undo2 } from "lucide-react";
+import { useState } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useExportVarianceReport,
+  useReconciliationLogs,
+  useRollbackReconciliation,
+} from "@/hooks/useReconciliation";
+import { useToast } from "@/hooks/useToast";
+
+interface ReconciliationHistoryCardProps {
+  period: string | undefined;
+}
+
+export function ReconciliationHistoryCard({ period }: ReconciliationHistoryCardProps) {
+  const { data: logs = [], isLoading } = useReconciliationLogs(period);
+  const rollbackMutation = useRollbackReconciliation();
+  const exportMutation = useExportVarianceReport();
+  const [rollbackTarget, setRollbackTarget] = useState<ReconciliationLog | null>(null);
+  const { toast } = useToast();
+
+  const handleRollback = () => {
+    if (!rollbackTarget) return;
+
+    rollbackMutation.mutate(rollbackTarget.id, {
+      onSuccess: (data) => {
+        toast({
+          title: "突合取り消し完了",
+          description:
+            data.skippedGroupCount > 0
+              ? `${data.revertedGroupCount}件の突合を取り消しました（解除済み${data.skippedGroupCount}件はスキップ）`
+              : `${data.revertedGroupCount}件の突合を取り消しました`,
+        });
+        setRollbackTarget(null);
+      },
+      onError: (error) => {
+        toast({
+          variant: "destructive",
+          title: "取り消しエラー",
+          description: error.message || "突合の取り消し処理でエラーが発生しました",
+        });
+        setRollbackTarget(null);
+      },
+    });
+  };
+
+  const handleExport = (log: ReconciliationLog, format: "xlsx" | "pdf") => {
+    exportMutation.mutate(
+      { period: log.period, format, logId: log.id },
+      {
+        onError: (error) => {
+          toast({
+            variant: "destructive",
+            title: "出力エラー",
+            description: error.message || "差異レポートの出力中にエラーが発生しました",
+          });
+        },
+      }
+    );
+  };
+
+  if (!period) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-5 w-5" />
+          突合履歴
+        </CardTitle>
+        <CardDescription>
+          突合実行ごとに、その実行で突合した明細のみを取り消せます。差異レポートは出力時点の突合状態で作成します
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : logs.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">突合履歴がありません</div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>実行日時</TableHead>
+                  <TableHead className="text-right">突合</TableHead>
+                  <TableHead className="text-right">曖昧一致</TableHead>
+                  <TableHead className="text-right">未突合（受発注 / GL）</TableHead>
+                  <TableHead className="text-right">差異レポート</TableHead>
+                  <TableHead className="w-32" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {logs.map((log) => (
+                  <TableRow key={log.id} data-testid={`reconciliation-log-row-${log.id}`}>
+                    <TableCell>{new Date(log.executedAt).toLocaleString("ja-JP")}</TableCell>
+                    <TableCell className="text-right">{log.matchedCount}</TableCell>
+                    <TableCell className="text-right">{log.fuzzyMatchedCount}</TableCell>
+                    <TableCell className="text-right">
+                      {log.unmatchedOrderCount} / {log.unmatchedGlCount}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleExport(log, "xlsx")}
+                        disabled={exportMutation.isPending}
+                        data-testid={`button-export-xlsx-${log.id}`}
+                      >
+                        <FileSpreadsheet className="h-4 w-4 mr-1" />
+                        Excel
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleExport(log, "pdf")}
+                        disabled={exportMutation.isPending}
+                        data-testid={`button-export-pdf-${log.id}`}
+                      >
+                        <FileText className="h-4 w-4 mr-1" />
+                        PDF
+                      </Button>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {log.rolledBackAt ? (
+                        <Badge variant="outline">取り消し済</Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRollbackTarget(log)}
+                          disabled={rollbackMutation.isPending}
+                        >
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          取り消し
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog
+        open={rollbackTarget !== null}
+        onOpenChange={(open) => !open && setRollbackTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>突合の取り消し</AlertDialogTitle>
+            <AlertDialogDescription>
+              {rollbackTarget &&
+                `${new Date(rollbackTarget.executedAt).toLocaleString("ja-JP")}の突合実行で突合した明細を未突合に戻します。`}
+              <br />
+              既に突合解除された明細はスキップされます。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRollback}
+              disabled={rollbackMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              取り消し
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+import type { ReconciliationProposal } from "@shared/schema";
+import { Check, X } from "lucide-react";
+import { useEffect, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface ReconciliationPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  period: string | undefined;
+  proposals: ReconciliationProposal[];
+  isLoading: boolean;
+  isApproving: boolean;
+  onApprove: (proposals: ReconciliationProposal[]) => void;
+}
+
+const MATCH_TYPE_LABELS: Record<ReconciliationProposal["matchType"], string> = {
+  exact: "厳格",
+  split: "分割",
+  fuzzy: "曖昧",
+};
+
+function EvidenceMark({ matched }: { matched: boolean }) {
+  return matched ? (
+    <Check className="inline h-4 w-4 text-success" />
+  ) : (
+    <X className="inline h-4 w-4 text-destructive" />
+  );
+}
+
+export function ReconciliationPreviewDialog({
+  open,
+  onOpenChange,
+  period,
+  proposals,
+  isLoading,
+  isApproving,
+  onApprove,
+}: ReconciliationPreviewDialogProps) {
+  const [selectedIndexes, setSelectedIndexes] = useState<Set<number>>(new Set());
+
+  // 候補が更新されたら厳格・分割突合の候補を初期選択（曖昧一致は確認のうえ選択してもらう）
+  useEffect(() => {
+    setSelectedIndexes(
+      new Set(
+        proposals
+          .map((proposal, index) => (proposal.matchType === "fuzzy" ? -1 : index))
+          .filter((index) => index >= 0)
+      )
+    );
+  }, [proposals]);
+
+  const toggleSelection = (index: number) => {
+    setSelectedIndexes((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = proposals.length > 0 && selectedIndexes.size === proposals.length;
+
+  const toggleAll = () => {
+    setSelectedIndexes(allSelected ? new Set() : new Set(proposals.map((_, index) => index)));
+  };
+
+  const handleApprove = () => {
+    onApprove(proposals.filter((_, index) => selectedIndexes.has(index)));
+  };
+
+  const formatCurrency = (value: string | number) => {
+    return `¥${Number(value).toLocaleString()}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>突合プレビュー{period ? `（${period}）` : ""}</DialogTitle>
+          <DialogDescription>
+            突合候補と判定根拠を確認し、承認する候補を選択してください。承認するまで突合ステータスは変更されません。
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : proposals.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">突合候補がありません</div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox checked={allSelected} onCheckedChange={toggleAll} />
+                  </TableHead>
+                  <TableHead>種別</TableHead>
+                  <TableHead>受発注（摘要文）</TableHead>
+                  <TableHead>GL（伝票番号 / 摘要）</TableHead>
+                  <TableHead>計上科目</TableHead>
+                  <TableHead>摘要文</TableHead>
+                  <TableHead className="text-right">金額（受発注 / GL）</TableHead>
+                  <TableHead className="text-right">スコア</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {proposals.map((proposal, index) => {
+                  const { evidence } = proposal;
+                  return (
+                    <TableRow
+                      key={index}
+                      data-testid={`preview-row-${index}`}
+                      className={proposal.matchType === "fuzzy" ? "bg-warning/5" : undefined}
+                    >
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIndexes.has(index)}
+                          onCheckedChange={() => toggleSelection(index)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{MATCH_TYPE_LABELS[proposal.matchType]}</Badge>
+                        {proposal.rule && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {proposal.rule.name}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {proposal.orders.map((order) => (
+                          <div key={order.id}>
+                            {order.projectName}
+                            <span className="text-muted-foreground">
+                              {" "}
+                              / {order.description || "-"}
+                            </span>
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {proposal.glEntries.map((gl) => (
+                          <div key={gl.id}>
+                            {gl.voucherNo}
+                            <span className="text-muted-foreground">
+                              {" "}
+                              / {gl.description || "-"}
+                            </span>
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <EvidenceMark matched={evidence.account.matched} />{" "}
+                        {evidence.account.orderAccounts.join("・")} /{" "}
+                        {evidence.account.glAccounts.join("・")}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <EvidenceMark matched={evidence.description.matched} /> 類似度{" "}
+                        {evidence.description.similarity}%
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        <div>
+                          {formatCurrency(evidence.amount.orderTotal)} /{" "}
+                          {formatCurrency(evidence.amount.glTotal)}
+                        </div>
+                        {evidence.amount.difference !== 0 && (
+                          <div className="text-destructive">
+                            差額 {formatCurrency(evidence.amount.difference)}
+                          </div>
+                        )}
+                        {evidence.dateDiff > 0 && (
+                          <div className="text-muted-foreground">
+                            計上月との差 {evidence.dateDiff}日
+                          </div>
+                        )}
+                        {evidence.crossPeriod && (
+                          <Badge variant="outline" className="mt-1">
+                            月度またぎ
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{proposal.score}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            キャンセル
+          </Button>
+          <Button
+            onClick={handleApprove}
+            disabled={isLoading || isApproving || selectedIndexes.size === 0}
+            data-testid="button-approve-preview"
+          >
+            選択した{selectedIndexes.size}件を突合
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
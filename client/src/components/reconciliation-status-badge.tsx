@@ -1,4 +1,4 @@
-import { AlertTriangle, Ban, Check, X } from "lucide-react";
+import { AlertTriangle, Ban, CalendarClock, Check, X } from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
 
@@ -6,10 +6,15 @@ type ReconciliationStatus = "matched" | "fuzzy" | "unmatched" | "excluded";
 
 interface ReconciliationStatusBadgeProps {
   status: ReconciliationStatus;
+  crossPeriod?: boolean; // 月度をまたいだ突合の場合にtrue
   className?: string;
 }
 
-export function ReconciliationStatusBadge({ status, className }: ReconciliationStatusBadgeProps) {
+export function ReconciliationStatusBadge({
+  status,
+  crossPeriod = false,
+  className,
+}: ReconciliationStatusBadgeProps) {
   const config = {
     matched: {
       label: "突合済",
@@ -43,6 +48,16 @@ export function ReconciliationStatusBadge({ status, className }: ReconciliationS
     >
       <Icon className="h-3 w-3" />
       <span className="text-xs font-medium">{label}</span>
+      {crossPeriod && status !== "unmatched" && (
+        <span
+          className="flex items-center gap-0.5 text-xs font-medium"
+          title="計上月と異なる月のGLと突合しています"
+          data-testid="badge-cross-period"
+        >
+          <CalendarClock className="h-3 w-3" />
+          月度またぎ
+        </span>
+      )}
     </Badge>
   );
 }
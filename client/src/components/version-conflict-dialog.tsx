@@ -0,0 +1,282 @@
+import { useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import type { GridColumn, GridConflict, GridRowData } from "./excel-data-grid";
+
+type CellValue = string | number | boolean | undefined;
+type ValueSource = "local" | "server";
+
+interface VersionConflictDialogProps {
+  columns: GridColumn[];
+  conflicts: GridConflict[];
+  onResolve: (resolvedRows: GridRowData[]) => void;
+  onCancel: () => void;
+}
+
+// 比較対象から除く列の種類（トグル・ボタンは個別のAPIで保存される）
+const NON_COMPARABLE_TYPES: GridColumn["type"][] = ["toggle", "button"];
+
+/**
+ * autocomplete列の選択に連動する表示用フィールドを取得（excel-data-gridの編集処理と同じ対応）
+ */
+const getLinkedKeys = (key: string): string[] => {
+  if (key.includes("customer")) {
+    return ["customerCode", "customerName"];
+  }
+  if (key.includes("project")) {
+    return ["projectCode", "projectName"];
+  }
+  if (key.includes("item")) {
+    return ["itemCode", "itemName"];
+  }
+  return [];
+};
+
+const normalizeValue = (value: CellValue): string => (value == null ? "" : String(value));
+
+const isSameValue = (column: GridColumn, a: CellValue, b: CellValue): boolean => {
+  if (column.type === "number") {
+    return Number(a ?? 0) === Number(b ?? 0);
+  }
+  return normalizeValue(a) === normalizeValue(b);
+};
+
+const formatValue = (column: GridColumn, row: GridRowData): string => {
+  const value = row[column.key];
+  if (value == null || value === "") {
+    return "（空欄）";
+  }
+  if (column.type === "number") {
+    const numValue = Number(value);
+    return isNaN(numValue) ? String(value) : Math.floor(numValue).toLocaleString("ja-JP");
+  }
+  if (column.key === "projectId" && row.projectCode) {
+    return `${row.projectCode} ${row.projectName ?? ""}`.trim();
+  }
+  if (column.type === "autocomplete") {
+    const option = column.autocompleteOptions?.find((opt) => opt.value === value);
+    if (option) {
+      return option.label;
+    }
+  }
+  return String(value);
+};
+
+const getRowLabel = (row: GridRowData): string =>
+  [row.projectCode, row.projectName, row.description].filter(Boolean).join(" / ") || row.id;
+
+/**
+ * 楽観ロックの競合ダイアログ
+ *
+ * @description 保存時に他のユーザーが先に更新していた行について、自分の値とサーバーの値を項目ごとに選んでマージする。
+ * 既定では自分が変更した項目は自分の値、それ以外はサーバーの値を選択する
+ */
+export function VersionConflictDialog({
+  columns,
+  conflicts,
+  onResolve,
+  onCancel,
+}: VersionConflictDialogProps) {
+  const comparableColumns = columns.filter(
+    (column) => !column.readonly && !NON_COMPARABLE_TYPES.includes(column.type)
+  );
+
+  const getDifferentColumns = (conflict: GridConflict) =>
+    comparableColumns.filter(
+      (column) =>
+        !isSameValue(column, conflict.localRow[column.key], conflict.serverRow[column.key])
+    );
+
+  const buildDefaultSelections = () => {
+    const selections: Record<string, Record<string, ValueSource>> = {};
+    for (const conflict of conflicts) {
+      const rowSelections: Record<string, ValueSource> = {};
+      for (const column of getDifferentColumns(conflict)) {
+        const changedByMe =
+          !conflict.baseRow ||
+          !isSameValue(column, conflict.localRow[column.key], conflict.baseRow[column.key]);
+        rowSelections[column.key] = changedByMe ? "local" : "server";
+      }
+      selections[conflict.localRow.id] = rowSelections;
+    }
+    return selections;
+  };
+
+  // 競合が発生するたびにマウントされるため、選択の初期値は初回のみ計算する
+  const [selections, setSelections] = useState(buildDefaultSelections);
+
+  const handleSelect = (rowId: string, key: string, source: ValueSource) => {
+    setSelections((prev) => ({ ...prev, [rowId]: { ...prev[rowId], [key]: source } }));
+  };
+
+  const handleSelectAll = (source: ValueSource) => {
+    setSelections((prev) => {
+      const next: Record<string, Record<string, ValueSource>> = {};
+      for (const [rowId, rowSelections] of Object.entries(prev)) {
+        next[rowId] = Object.fromEntries(Object.keys(rowSelections).map((key) => [key, source]));
+      }
+      return next;
+    });
+  };
+
+  const handleResolve = () => {
+    const resolvedRows = conflicts.map((conflict) => {
+      const rowSelections = selections[conflict.localRow.id] ?? {};
+      // 自分の行をもとに、サーバーの値を選んだ項目とバージョンをサーバーの値で置き換える
+      const resolved: GridRowData = { ...conflict.localRow, version: conflict.serverRow.version };
+      for (const [key, source] of Object.entries(rowSelections)) {
+        if (source === "server") {
+          for (const field of [key, ...getLinkedKeys(key)]) {
+            resolved[field] = conflict.serverRow[field];
+          }
+        }
+      }
+      // サーバーの値と同じになった行は保存不要
+      const hasChanges = columns
+        .filter((column) => column.type !== "button")
+        .some(
+          (column) => !isSameValue(column, resolved[column.key], conflict.serverRow[column.key])
+        );
+      return { ...resolved, _modified: hasChanges };
+    });
+    onResolve(resolvedRows);
+  };
+
+  return (
+    <Dialog open={conflicts.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>更新の競合</DialogTitle>
+          <DialogDescription>
+            {conflicts.length}
+            件の行は、編集中に他のユーザーが更新しました。項目ごとに残す値を選んで保存してください。キャンセルした場合、編集内容は保存されずに残ります
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto space-y-4">
+          {conflicts.map((conflict) => {
+            const differentColumns = getDifferentColumns(conflict);
+            const rowId = conflict.localRow.id;
+            return (
+              <div key={rowId} className="border rounded-md" data-testid={`conflict-row-${rowId}`}>
+                <div className="px-3 py-2 bg-muted text-sm font-medium">
+                  {getRowLabel(conflict.localRow)}
+                </div>
+                {differentColumns.length === 0 ? (
+                  <div className="px-3 py-2 text-sm text-muted-foreground">
+                    編集した項目はサーバーの値と同じです
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-32">項目</TableHead>
+                        <TableHead>自分の値</TableHead>
+                        <TableHead>サーバーの値</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {differentColumns.map((column) => {
+                        const selected = selections[rowId]?.[column.key] ?? "local";
+                        const changedByMe =
+                          !conflict.baseRow ||
+                          !isSameValue(
+                            column,
+                            conflict.localRow[column.key],
+                            conflict.baseRow[column.key]
+                          );
+                        return (
+                          <TableRow key={column.key}>
+                            <TableCell className="text-sm font-medium">
+                              {column.label}
+                              {changedByMe && (
+                                <Badge variant="secondary" className="ml-1 text-xs">
+                                  編集
+                                </Badge>
+                              )}
+                            </TableCell>
+                            <TableCell colSpan={2} className="p-0">
+                              <RadioGroup
+                                value={selected}
+                                onValueChange={(value) =>
+                                  handleSelect(rowId, column.key, value as ValueSource)
+                                }
+                                className="grid grid-cols-2 gap-0"
+                              >
+                                {(["local", "server"] as const).map((source) => (
+                                  <label
+                                    key={source}
+                                    className="flex items-center gap-2 p-2 text-sm cursor-pointer"
+                                  >
+                                    <RadioGroupItem
+                                      value={source}
+                                      data-testid={`radio-conflict-${rowId}-${column.key}-${source}`}
+                                    />
+                                    {formatValue(
+                                      column,
+                                      source === "local" ? conflict.localRow : conflict.serverRow
+                                    )}
+                                  </label>
+                                ))}
+                              </RadioGroup>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleSelectAll("server")}
+              data-testid="button-conflict-select-server"
+            >
+              すべてサーバーの値にする
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleSelectAll("local")}
+              data-testid="button-conflict-select-local"
+            >
+              すべて自分の値で上書き
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              キャンセル
+            </Button>
+            <Button onClick={handleResolve} data-testid="button-conflict-resolve">
+              選択した値で保存
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,7 +7,7 @@ export interface AccountingItemFilter {
   search?: string;
   code?: string;
   name?: string;
-  excludeRevenueCodes?: boolean; // 510-519の売上系コードを除外するかどうか
+  excludeRevenue?: boolean; // 集計区分が売上の計上科目を除外するかどうか
 }
 
 export function useAccountingItems(filter?: AccountingItemFilter) {
@@ -22,6 +22,11 @@ export function useAccountingItems(filter?: AccountingItemFilter) {
     params.append("name", filter.name);
   }
 
+  // 計上科目マスタを表示順で全件取得
+  params.append("sortBy", "displayOrder");
+  params.append("sortOrder", "asc");
+  params.append("limit", "1000");
+
   const queryString = params.toString();
 
   return useQuery<{ items: AccountingItem[]; total: number }>({
@@ -30,7 +35,7 @@ export function useAccountingItems(filter?: AccountingItemFilter) {
       filter?.search ?? null,
       filter?.code ?? null,
       filter?.name ?? null,
-      filter?.excludeRevenueCodes ?? false,
+      filter?.excludeRevenue ?? false,
     ],
     queryFn: async () => {
       const res = await apiRequest(
@@ -42,12 +47,9 @@ export function useAccountingItems(filter?: AccountingItemFilter) {
 
       let items = result.data?.items || [];
 
-      // 売上系コード（510-519）を除外する場合
-      if (filter?.excludeRevenueCodes) {
-        items = items.filter((item: AccountingItem) => {
-          const code = parseInt(item.code);
-          return !(code >= 510 && code <= 519);
-        });
+      // 売上の計上科目を除外する場合
+      if (filter?.excludeRevenue) {
+        items = items.filter((item: AccountingItem) => item.category !== "revenue");
       }
 
       return {
@@ -0,0 +1,62 @@
+import type { AccountingPeriod, PeriodLockOverride } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export function useAccountingPeriods() {
+  return useQuery<AccountingPeriod[]>({
+    queryKey: ["/api/accounting-periods"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/accounting-periods", undefined);
+      const result = await res.json();
+      return result.data?.items || [];
+    },
+  });
+}
+
+/**
+ * 指定期間が締め済みかどうか
+ * 締め・締め解除の記録がない期間は未締めとして扱う
+ */
+export function useIsPeriodClosed(period: string | null | undefined): boolean {
+  const { data: periods = [] } = useAccountingPeriods();
+  return !!period && periods.some((p) => p.period === period && p.status === "closed");
+}
+
+export function usePeriodLockOverrides(period: string | null) {
+  return useQuery<PeriodLockOverride[]>({
+    queryKey: ["/api/accounting-periods", period, "overrides"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/accounting-periods/${period}/overrides`, undefined);
+      const result = await res.json();
+      return result.data || [];
+    },
+    enabled: !!period,
+  });
+}
+
+export function useCloseAccountingPeriod() {
+  return useMutation({
+    mutationFn: async (period: string) => {
+      const res = await apiRequest("POST", `/api/accounting-periods/${period}/close`, undefined);
+      return await res.json();
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/accounting-periods"] });
+    },
+  });
+}
+
+export function useReopenAccountingPeriod() {
+  return useMutation({
+    mutationFn: async ({ period, reason }: { period: string; reason: string }) => {
+      const res = await apiRequest("POST", `/api/accounting-periods/${period}/reopen`, {
+        reason,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/accounting-periods"] });
+    },
+  });
+}
@@ -1,3 +1,4 @@
+import type { VarianceAnalysisResponse } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
 
 import { apiRequest } from "@/lib/queryClient";
@@ -48,3 +49,34 @@ export function useAccountingSummary(
     enabled: !!fiscalYear,
   });
 }
+
+// 見込み・実績（GL）・予算の差異分析
+export function useVarianceAnalysis(
+  fiscalYear: number,
+  threshold: number,
+  salesPerson?: string,
+  enabled: boolean = true
+) {
+  return useQuery<VarianceAnalysisResponse>({
+    queryKey: ["/api/order-forecasts/variance-analysis", fiscalYear, threshold, salesPerson],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        fiscalYear: fiscalYear.toString(),
+        threshold: threshold.toString(),
+      });
+
+      if (salesPerson && salesPerson !== "all") {
+        params.append("salesPerson", salesPerson);
+      }
+
+      const res = await apiRequest(
+        "GET",
+        `/api/order-forecasts/variance-analysis?${params}`,
+        undefined
+      );
+      const result = await res.json();
+      return result.data;
+    },
+    enabled: enabled && !!fiscalYear,
+  });
+}
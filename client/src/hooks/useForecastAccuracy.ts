@@ -0,0 +1,97 @@
+import type { ForecastAccuracyResponse, ForecastSnapshot } from "@shared/schema";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { apiRequest } from "@/lib/queryClient";
+
+/** 見込みスナップショットの一覧項目（集計行は含まない） */
+export type ForecastSnapshotSummary = Omit<ForecastSnapshot, "lines"> & { lineCount: number };
+
+export interface ForecastAccuracyFilter {
+  fiscalYear: number;
+  leadMonths: number;
+  includeOpenPeriods: boolean;
+}
+
+/**
+ * 見込みスナップショット一覧取得フック
+ *
+ * @param fiscalYear - 年度
+ * @returns スナップショット一覧のクエリ結果
+ */
+export function useForecastSnapshots(fiscalYear: number) {
+  return useQuery<ForecastSnapshotSummary[]>({
+    queryKey: ["/api/forecast-accuracy/snapshots", fiscalYear],
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/forecast-accuracy/snapshots?fiscalYear=${fiscalYear}`,
+        undefined
+      );
+      const result = await res.json();
+      return result.data;
+    },
+  });
+}
+
+/**
+ * 見込み精度評価取得フック
+ *
+ * @param filter - 年度・比較する見込みの時期・締め前の月を含めるか
+ * @returns 営業担当者・サービス区分・計上科目別の見込み精度のクエリ結果
+ */
+export function useForecastAccuracy(filter: ForecastAccuracyFilter) {
+  return useQuery<ForecastAccuracyResponse>({
+    queryKey: ["/api/forecast-accuracy", filter],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        fiscalYear: filter.fiscalYear.toString(),
+        leadMonths: filter.leadMonths.toString(),
+        includeOpenPeriods: filter.includeOpenPeriods.toString(),
+      });
+      const res = await apiRequest("GET", `/api/forecast-accuracy?${params}`, undefined);
+      const result = await res.json();
+      return result.data;
+    },
+  });
+}
+
+/**
+ * 見込みスナップショット作成フック
+ *
+ * @returns スナップショット作成のMutation
+ */
+export function useCreateForecastSnapshot() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { fiscalYear: number; name?: string }) => {
+      const res = await apiRequest("POST", "/api/forecast-accuracy/snapshots", data);
+      const result = await res.json();
+      return result.data as ForecastSnapshot;
+    },
+    onSuccess: () => {
+      // スナップショット一覧と精度評価を更新
+      queryClient.invalidateQueries({ queryKey: ["/api/forecast-accuracy"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/forecast-accuracy/snapshots"] });
+    },
+  });
+}
+
+/**
+ * 見込みスナップショット削除フック
+ *
+ * @returns スナップショット削除のMutation
+ */
+export function useDeleteForecastSnapshot() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/forecast-accuracy/snapshots/${id}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/forecast-accuracy"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/forecast-accuracy/snapshots"] });
+    },
+  });
+}
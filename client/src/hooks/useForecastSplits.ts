@@ -0,0 +1,89 @@
+import type {
+  AngleBForecast,
+  ForecastSplitAllocation,
+  ForecastSplitGroup,
+  ForecastSplitSchedule,
+  ForecastSplitTargetType,
+  OrderForecast,
+} from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export interface ForecastSplitLineInput {
+  projectId: string;
+  customerId?: string | null;
+  accountingItem: string;
+  description: string;
+  remarks?: string | null;
+  probability?: number;
+}
+
+export interface ForecastSplitRequest extends ForecastSplitSchedule {
+  targetType: ForecastSplitTargetType;
+  line: ForecastSplitLineInput;
+  replaceIds?: string[];
+}
+
+export interface ForecastSplitResult {
+  group: ForecastSplitGroup;
+  lines: Array<OrderForecast | AngleBForecast>;
+}
+
+export function useForecastSplitGroup(id: string | null | undefined) {
+  return useQuery<ForecastSplitResult>({
+    queryKey: ["/api/forecast-splits", id],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/forecast-splits/${id}`, undefined);
+      const result = await res.json();
+      return result.data;
+    },
+    enabled: !!id,
+  });
+}
+
+export function usePreviewForecastSplit() {
+  return useMutation({
+    mutationFn: async (schedule: ForecastSplitSchedule): Promise<ForecastSplitAllocation[]> => {
+      const res = await apiRequest("POST", "/api/forecast-splits/preview", schedule);
+      const result = await res.json();
+      return result.data || [];
+    },
+  });
+}
+
+export function useCreateForecastSplit() {
+  return useMutation({
+    mutationFn: async (data: ForecastSplitRequest): Promise<ForecastSplitResult> => {
+      const res = await apiRequest("POST", "/api/forecast-splits", data);
+      const result = await res.json();
+      return result.data;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/forecast-splits"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/angle-b-forecasts"] });
+    },
+  });
+}
+
+export function useRespreadForecastSplit() {
+  return useMutation({
+    mutationFn: async ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Omit<ForecastSplitRequest, "replaceIds">;
+    }): Promise<ForecastSplitResult> => {
+      const res = await apiRequest("PUT", `/api/forecast-splits/${id}`, data);
+      const result = await res.json();
+      return result.data;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/forecast-splits"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/angle-b-forecasts"] });
+    },
+  });
+}
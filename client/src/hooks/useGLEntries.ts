@@ -1,4 +1,13 @@
-import type { GLEntry, NewGLEntry } from "@shared/schema";
+import type {
+  GLAnomalyListItem,
+  GLAnomalyScanSummary,
+  GLAnomalyStatus,
+  GLEntry,
+  GLLedgerResponse,
+  GLTrialBalanceResponse,
+  GLVoucherCheckResponse,
+  NewGLEntry,
+} from "@shared/schema";
 import { useMutation, useQuery } from "@tanstack/react-query";
 
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -29,6 +38,146 @@ export function useGLEntries(filter: GLEntryFilter) {
   });
 }
 
+// GL伝票の貸借チェック（借方・貸方の不一致、対象科目外の明細を取り込まなかった伝票）
+export function useGLVoucherCheck(filter: GLEntryFilter) {
+  const params = new URLSearchParams({ fiscalYear: filter.fiscalYear.toString() });
+  if (filter.month) {
+    params.append("month", filter.month.toString());
+  }
+
+  return useQuery<GLVoucherCheckResponse>({
+    queryKey: ["/api/gl-entries", "voucher-check", filter.fiscalYear, filter.month ?? null],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/gl-entries/voucher-check?${params}`, undefined);
+      const result = await res.json();
+      return result.data;
+    },
+    enabled: !!filter.fiscalYear,
+  });
+}
+
+// 月次試算表（勘定科目別の月次の借方・貸方合計と累計残高）
+export function useGLTrialBalance(fiscalYear: number) {
+  return useQuery<GLTrialBalanceResponse>({
+    queryKey: ["/api/gl-entries", "trial-balance", fiscalYear],
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/gl-entries/trial-balance?fiscalYear=${fiscalYear}`,
+        undefined
+      );
+      const result = await res.json();
+      return result.data;
+    },
+    enabled: !!fiscalYear,
+  });
+}
+
+// 勘定科目元帳（明細ごとの累計残高）
+export function useGLLedger(accountCode: string | null, filter: GLEntryFilter) {
+  const params = new URLSearchParams({ fiscalYear: filter.fiscalYear.toString() });
+  if (filter.month) {
+    params.append("month", filter.month.toString());
+  }
+
+  return useQuery<GLLedgerResponse>({
+    queryKey: ["/api/gl-entries", "ledger", accountCode, filter.fiscalYear, filter.month ?? null],
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/gl-entries/ledger/${encodeURIComponent(accountCode!)}?${params}`,
+        undefined
+      );
+      const result = await res.json();
+      return result.data;
+    },
+    enabled: !!accountCode && !!filter.fiscalYear,
+  });
+}
+
+// 伝票番号別のGLデータ（伝票の全明細）
+export function useGLVoucherEntries(voucherNo: string | null) {
+  return useQuery<GLEntry[]>({
+    queryKey: ["/api/gl-entries", "voucher", voucherNo],
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/gl-entries/voucher/${encodeURIComponent(voucherNo!)}`,
+        undefined
+      );
+      const result = await res.json();
+      return result.data || [];
+    },
+    enabled: !!voucherNo,
+  });
+}
+
+// GLデータの異常検知結果（取込後の自動スキャンで検出した異常）
+export function useGLAnomalies(filter: GLEntryFilter & { status?: GLAnomalyStatus }) {
+  const params = new URLSearchParams({ fiscalYear: filter.fiscalYear.toString() });
+  if (filter.month) {
+    params.append("month", filter.month.toString());
+  }
+  if (filter.status) {
+    params.append("status", filter.status);
+  }
+
+  return useQuery<GLAnomalyListItem[]>({
+    queryKey: [
+      "/api/gl-entries",
+      "anomalies",
+      filter.fiscalYear,
+      filter.month ?? null,
+      filter.status ?? null,
+    ],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/gl-entries/anomalies?${params}`, undefined);
+      const result = await res.json();
+      return result.data || [];
+    },
+    enabled: !!filter.fiscalYear,
+  });
+}
+
+export function useScanGLAnomalies() {
+  return useMutation({
+    mutationFn: async (filter: GLEntryFilter) => {
+      const res = await apiRequest("POST", "/api/gl-entries/anomalies/scan", filter);
+      const result = await res.json();
+      return result.data as GLAnomalyScanSummary;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/gl-entries", "anomalies"] });
+    },
+  });
+}
+
+export function useDismissGLAnomaly() {
+  return useMutation({
+    mutationFn: async ({ id, comment }: { id: string; comment: string }) => {
+      const res = await apiRequest("POST", `/api/gl-entries/anomalies/${id}/dismiss`, {
+        comment,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/gl-entries", "anomalies"] });
+    },
+  });
+}
+
+export function useReopenGLAnomaly() {
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/gl-entries/anomalies/${id}/reopen`, undefined);
+      return await res.json();
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/gl-entries", "anomalies"] });
+    },
+  });
+}
+
 export function useCreateGLEntry() {
   return useMutation({
     mutationFn: async (data: NewGLEntry) => {
@@ -65,21 +214,6 @@ export function useDeleteGLEntry() {
   });
 }
 
-export function useImportGLEntriesCSV() {
-  return useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append("file", file);
-
-      const res = await apiRequest("POST", "/api/gl-entries/import-csv", formData);
-      return await res.json();
-    },
-    onSuccess: () => {
-      void queryClient.invalidateQueries({ queryKey: ["/api/gl-entries"] });
-    },
-  });
-}
-
 export function useSetGLEntriesExclusion() {
   return useMutation({
     mutationFn: async ({
@@ -106,8 +240,10 @@ export function useSetGLEntriesExclusion() {
 
 export function useDeleteGLByPeriod() {
   return useMutation({
-    mutationFn: async (period: string) => {
-      const res = await apiRequest("DELETE", `/api/gl-entries/period/${period}`, undefined);
+    // overrideReason: 締め済み期間を管理者が削除する場合の理由
+    mutationFn: async ({ period, overrideReason }: { period: string; overrideReason?: string }) => {
+      const query = overrideReason ? `?overrideReason=${encodeURIComponent(overrideReason)}` : "";
+      const res = await apiRequest("DELETE", `/api/gl-entries/period/${period}${query}`, undefined);
       return await res.json();
     },
     onSuccess: () => {
@@ -0,0 +1,91 @@
+import type { GLImportPreview, GLImportProfile, NewGLImportProfile } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+/** CSVの解釈に使用するプロファイルの設定項目 */
+export type GLImportProfileSettings = Pick<
+  NewGLImportProfile,
+  | "encoding"
+  | "skipHeaderRows"
+  | "dateFormat"
+  | "amountFormat"
+  | "debitFlagValue"
+  | "columnMapping"
+  | "accountCodes"
+>;
+
+export function useGLImportProfiles() {
+  return useQuery<{ profiles: GLImportProfile[]; standard: GLImportProfileSettings | null }>({
+    queryKey: ["/api/gl-import-profiles"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/gl-import-profiles", undefined);
+      const result = await res.json();
+      return {
+        profiles: result.data?.items || [],
+        standard: result.data?.standard || null,
+      };
+    },
+  });
+}
+
+export function useCreateGLImportProfile() {
+  return useMutation({
+    mutationFn: async (data: NewGLImportProfile) => {
+      const res = await apiRequest("POST", "/api/gl-import-profiles", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/gl-import-profiles"] });
+    },
+  });
+}
+
+export function useUpdateGLImportProfile() {
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<NewGLImportProfile> }) => {
+      const res = await apiRequest("PUT", `/api/gl-import-profiles/${id}`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/gl-import-profiles"] });
+    },
+  });
+}
+
+export function useDeleteGLImportProfile() {
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/gl-import-profiles/${id}`, undefined);
+      return await res.json();
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/gl-import-profiles"] });
+    },
+  });
+}
+
+export function usePreviewGLImport() {
+  return useMutation({
+    mutationFn: async ({
+      file,
+      settings,
+      sheetName,
+    }: {
+      file: File;
+      settings: GLImportProfileSettings;
+      sheetName?: string;
+    }): Promise<GLImportPreview> => {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("settings", JSON.stringify(settings));
+      if (sheetName) {
+        formData.append("sheetName", sheetName);
+      }
+
+      const res = await apiRequest("POST", "/api/gl-import-profiles/preview", formData);
+      const result = await res.json();
+      return result.data;
+    },
+  });
+}
@@ -0,0 +1,152 @@
+import type { ImportBatch, ImportBatchRow, ImportBatchType, ImportRowValues } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export interface StageImportBatchParams {
+  file: File;
+  importType: ImportBatchType;
+  fiscalYear?: number; // 受注見込み・角度B案件の取込対象年度
+  profileId?: string; // GL CSV取込プロファイルID（未指定の場合は既定のプロファイル）
+  sheetName?: string; // XLSXの読込シート（未指定の場合は先頭のシート）
+}
+
+// 反映・取消で更新されるデータの取得結果を破棄
+const invalidateImportedData = (importType: string) => {
+  if (importType === "gl-entries") {
+    void queryClient.invalidateQueries({ queryKey: ["/api/gl-entries"] });
+    void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+  } else if (importType === "order-forecasts") {
+    void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+  } else {
+    void queryClient.invalidateQueries({ queryKey: ["/api/angle-b-forecasts"] });
+  }
+};
+
+export function useImportBatches() {
+  return useQuery<ImportBatch[]>({
+    queryKey: ["/api/import-batches"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/import-batches", undefined);
+      const result = await res.json();
+      return result.data || [];
+    },
+  });
+}
+
+export function useImportBatch(id: string | undefined) {
+  return useQuery<{ batch: ImportBatch; rows: ImportBatchRow[] }>({
+    queryKey: ["/api/import-batches", id],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/import-batches/${id}`, undefined);
+      const result = await res.json();
+      return result.data;
+    },
+    enabled: !!id,
+  });
+}
+
+export function useStageImportBatch() {
+  return useMutation({
+    mutationFn: async ({
+      file,
+      importType,
+      fiscalYear,
+      profileId,
+      sheetName,
+    }: StageImportBatchParams) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("importType", importType);
+      if (fiscalYear) {
+        formData.append("fiscalYear", fiscalYear.toString());
+      }
+      if (profileId) {
+        formData.append("profileId", profileId);
+      }
+      if (sheetName) {
+        formData.append("sheetName", sheetName);
+      }
+
+      const res = await apiRequest("POST", "/api/import-batches", formData);
+      const result = await res.json();
+      return result.data as ImportBatch;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
+    },
+  });
+}
+
+export function useUpdateImportBatchRow() {
+  return useMutation({
+    mutationFn: async ({
+      batchId,
+      rowId,
+      values,
+      excluded,
+    }: {
+      batchId: string;
+      rowId: string;
+      values?: ImportRowValues;
+      excluded?: boolean;
+    }) => {
+      const res = await apiRequest("PUT", `/api/import-batches/${batchId}/rows/${rowId}`, {
+        values,
+        excluded,
+      });
+      const result = await res.json();
+      return result.data as ImportBatchRow;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
+    },
+  });
+}
+
+export function useCommitImportBatch() {
+  return useMutation({
+    // overrideReason: 締め済み期間へ管理者が反映する場合の理由
+    mutationFn: async ({ id, overrideReason }: { id: string; overrideReason?: string }) => {
+      const res = await apiRequest("POST", `/api/import-batches/${id}/commit`, { overrideReason });
+      const result = await res.json();
+      return result.data as ImportBatch;
+    },
+    onSuccess: (batch) => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
+      invalidateImportedData(batch.importType);
+    },
+    onError: () => {
+      // 再検証の結果が明細に反映されているため再取得
+      void queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
+    },
+  });
+}
+
+export function useDiscardImportBatch() {
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/import-batches/${id}/discard`, undefined);
+      const result = await res.json();
+      return result.data as ImportBatch;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
+    },
+  });
+}
+
+export function useRevertImportBatch() {
+  return useMutation({
+    // overrideReason: 締め済み期間のデータを管理者が取り消す場合の理由
+    mutationFn: async ({ id, overrideReason }: { id: string; overrideReason?: string }) => {
+      const res = await apiRequest("POST", `/api/import-batches/${id}/revert`, { overrideReason });
+      const result = await res.json();
+      return result.data as ImportBatch;
+    },
+    onSuccess: (batch) => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
+      invalidateImportedData(batch.importType);
+    },
+  });
+}
@@ -55,7 +55,12 @@ export function useAccountingItems() {
   return useQuery<AccountingItem[]>({
     queryKey: ["/api/accounting-items"],
     queryFn: async () => {
-      const res = await apiRequest("GET", "/api/accounting-items", undefined);
+      // 計上科目マスタを表示順で全件取得
+      const res = await apiRequest(
+        "GET",
+        "/api/accounting-items?sortBy=displayOrder&sortOrder=asc&limit=1000",
+        undefined
+      );
       const result = await res.json();
       return result.data?.items || [];
     },
@@ -1,4 +1,4 @@
-import type { NewOrderForecast, OrderForecast } from "@shared/schema";
+import type { NewOrderForecast, OrderForecast, OrderForecastHistoryListItem } from "@shared/schema";
 import { useMutation, useQuery } from "@tanstack/react-query";
 
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -125,10 +125,41 @@ export function useDeleteOrderForecast() {
   });
 }
 
+/**
+ * 作成・更新・削除を1つのトランザクションで一括保存
+ *
+ * 保存できない行がある場合は何も保存されず、行ごとのエラーと競合した行の最新データがエラーに含まれる
+ */
+export function useBulkSaveOrderForecasts() {
+  return useMutation({
+    mutationFn: async (data: {
+      create: NewOrderForecast[];
+      update: Array<{
+        id: string;
+        data: Partial<OrderForecast>;
+        isExcluded?: boolean; // 除外設定を変更する場合に指定
+        exclusionReason?: string;
+      }>;
+      delete: Array<{ id: string; version: number }>;
+    }): Promise<{ created: number; updated: number; deleted: number }> => {
+      const res = await apiRequest("POST", "/api/order-forecasts/bulk", data);
+      const result = await res.json();
+      return result.data;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+    },
+  });
+}
+
 export function useDemoteOrderForecastToAngleB() {
   return useMutation({
     mutationFn: async ({ id }: { id: string }) => {
-      const res = await apiRequest("POST", `/api/order-forecasts/${id}/demote-to-angle-b`, undefined);
+      const res = await apiRequest(
+        "POST",
+        `/api/order-forecasts/${id}/demote-to-angle-b`,
+        undefined
+      );
       return await res.json();
     },
     onSuccess: () => {
@@ -161,3 +192,41 @@ export function useSetOrderForecastsExclusion() {
     },
   });
 }
+
+export function useOrderForecastHistory(id: string | null) {
+  return useQuery<OrderForecastHistoryListItem[]>({
+    queryKey: ["/api/order-forecasts", id, "history"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/order-forecasts/${id}/history`, undefined);
+      const result = await res.json();
+      return result.data;
+    },
+    enabled: !!id,
+  });
+}
+
+export function useRestoreOrderForecast() {
+  return useMutation({
+    mutationFn: async ({
+      id,
+      historyId,
+      version,
+    }: {
+      id: string;
+      historyId: string;
+      version: number;
+    }) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/order-forecasts/${id}/history/${historyId}/restore`,
+        { version }
+      );
+      const result = await res.json();
+      return result.data as OrderForecast;
+    },
+    onSuccess: () => {
+      // 明細一覧と変更履歴を更新（prefix matching）
+      void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+    },
+  });
+}
@@ -9,9 +9,9 @@ export interface ProjectAnalysisSummary {
   name: string;
   serviceType: string;
   analysisType: string;
-  revenue: number; // 売上（510-519）
-  costOfSales: number; // 売上原価（期首製品棚卸高 + 期首商品棚卸高 + 仕入高 - 期末製品棚卸高 - 期末商品棚卸高）
-  sgaExpenses: number; // 販管費（727,737,740,745,9999）
+  revenue: number; // 売上（計上科目マスタの集計区分が売上の科目）
+  costOfSales: number; // 売上原価（売上原価・棚卸調整の科目を符号付きで合計）
+  sgaExpenses: number; // 販管費（計上科目マスタの集計区分が販管費の科目）
   workHours: number; // 山積み工数
   angleBRevenue?: number; // 角度B案件の売上
   productivity?: number; // 生産性（分析区分=生産性の場合）
@@ -81,10 +81,10 @@ export function useProjectAnalysisDetailLines(
         projectId: projectId!,
         category: category!,
       });
-      const res = await fetch(
-        `/api/projects/analysis-summary/detail-lines?${params}`,
-        { credentials: "include", cache: "no-store" }
-      );
+      const res = await fetch(`/api/projects/analysis-summary/detail-lines?${params}`, {
+        credentials: "include",
+        cache: "no-store",
+      });
       if (res.status === 401) {
         authErrorHandler.handleResponseError(res);
         throw new Error("認証が必要です");
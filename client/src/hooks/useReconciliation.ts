@@ -1,18 +1,86 @@
+import type {
+  AppliedReconciliationRule,
+  GLEntry,
+  OrderForecast,
+  ReconciliationAlias,
+  ReconciliationLink,
+  ReconciliationLog,
+  ReconciliationProposal,
+} from "@shared/schema";
 import { useMutation, useQuery } from "@tanstack/react-query";
 
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
-interface ReconciliationRequest {
+/** 突合ウィンドウ（月度をまたいで突合する前後の月数） */
+export interface ReconciliationWindow {
+  lookBehindMonths: number;
+  lookAheadMonths: number;
+}
+
+interface ReconciliationRequest extends Partial<ReconciliationWindow> {
+  period: string;
+  type: "exact" | "fuzzy";
+}
+
+export interface ReconciliationPreviewResponse {
   period: string;
-  type: "exact";
+  proposals: ReconciliationProposal[];
+  unmatchedOrders: OrderForecast[];
+  unmatchedGl: GLEntry[];
+  alreadyMatchedOrders: number;
+  alreadyMatchedGl: number;
+}
+
+interface ApproveProposalsRequest extends Partial<ReconciliationWindow> {
+  period: string;
+  proposals: Array<{
+    orderIds: string[];
+    glIds: string[];
+  }>;
+}
+
+interface RollbackReconciliationResponse {
+  reconciliationLog: ReconciliationLog;
+  revertedGroupCount: number;
+  skippedGroupCount: number;
+}
+
+interface ApproveProposalsResponse {
+  reconciliationLog: ReconciliationLog;
+  approvedCount: number;
+}
+
+interface ManualReconcileRequest {
+  glIds: string[];
+  orderIds: string[];
+}
+
+interface ManualReconcileResponse {
+  glEntries: GLEntry[];
+  orderForecasts: OrderForecast[];
+  learnedAliases: ReconciliationAlias[];
+}
+
+interface ReconciliationLinksResponse {
+  links: ReconciliationLink[];
+  orderForecasts: OrderForecast[];
+  glEntries: GLEntry[];
 }
 
 interface ReconciliationResponse {
-  reconciliationLog: any;
+  reconciliationLog: ReconciliationLog;
   results: {
-    matched: Array<{ order: any; gl: any; score: number }>;
-    unmatchedOrders: any[];
-    unmatchedGl: any[];
+    matched: Array<{
+      order: OrderForecast;
+      gl: GLEntry;
+      score: number;
+      rule: AppliedReconciliationRule;
+      crossPeriod: boolean;
+    }>;
+    fuzzyMatched: Array<{ order: OrderForecast; gl: GLEntry; score: number }>;
+    splitMatched: Array<{ orders: OrderForecast[]; glEntries: GLEntry[] }>;
+    unmatchedOrders: OrderForecast[];
+    unmatchedGl: GLEntry[];
     alreadyMatchedOrders: number;
     alreadyMatchedGl: number;
   };
@@ -20,8 +88,8 @@ interface ReconciliationResponse {
 
 export function useReconciliation() {
   return useMutation<ReconciliationResponse, Error, ReconciliationRequest>({
-    mutationFn: async ({ period, type }: ReconciliationRequest) => {
-      const response = await apiRequest("POST", `/api/reconciliation/execute`, { period, type });
+    mutationFn: async (request: ReconciliationRequest) => {
+      const response = await apiRequest("POST", `/api/reconciliation/execute`, request);
       const result = await response.json();
       return result.data as ReconciliationResponse;
     },
@@ -33,6 +101,72 @@ export function useReconciliation() {
       void queryClient.invalidateQueries({
         queryKey: ["/api/gl-entries"],
       });
+      void queryClient.invalidateQueries({
+        queryKey: ["/api/reconciliation/logs"],
+      });
+    },
+  });
+}
+
+export function usePreviewReconciliation() {
+  return useMutation<ReconciliationPreviewResponse, Error, ReconciliationRequest>({
+    mutationFn: async (request: ReconciliationRequest) => {
+      const response = await apiRequest("POST", `/api/reconciliation/preview`, request);
+      const result = await response.json();
+      return result.data as ReconciliationPreviewResponse;
+    },
+  });
+}
+
+export function useApproveReconciliation() {
+  return useMutation<ApproveProposalsResponse, Error, ApproveProposalsRequest>({
+    mutationFn: async (request: ApproveProposalsRequest) => {
+      const response = await apiRequest("POST", `/api/reconciliation/approve`, request);
+      const result = await response.json();
+      return result.data as ApproveProposalsResponse;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/reconciliation/logs"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/gl-entries"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/reconciliation/links"] });
+    },
+  });
+}
+
+export function useReconciliationLogs(period: string | undefined) {
+  return useQuery<ReconciliationLog[]>({
+    queryKey: ["/api/reconciliation/logs", period],
+    queryFn: async () => {
+      if (!period) return [];
+      const res = await apiRequest(
+        "GET",
+        `/api/reconciliation/logs?period=${period}&limit=10`,
+        undefined
+      );
+      const result = await res.json();
+      return result.data.items as ReconciliationLog[];
+    },
+    enabled: !!period,
+  });
+}
+
+export function useRollbackReconciliation() {
+  return useMutation<RollbackReconciliationResponse, Error, string>({
+    mutationFn: async (logId: string) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/reconciliation/logs/${logId}/rollback`,
+        undefined
+      );
+      const result = await response.json();
+      return result.data as RollbackReconciliationResponse;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/reconciliation/logs"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/gl-entries"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/reconciliation/links"] });
     },
   });
 }
@@ -54,10 +188,67 @@ export function useAccountSummary(period: string | undefined) {
   });
 }
 
+/** 差異レポートをダウンロード（XLSX・PDF） */
+export function useExportVarianceReport() {
+  return useMutation<void, Error, { period: string; format: "xlsx" | "pdf"; logId?: string }>({
+    mutationFn: async ({ period, format, logId }) => {
+      const params = new URLSearchParams({ period, format });
+      if (logId) params.set("logId", logId);
+      const response = await apiRequest("GET", `/api/reconciliation/report?${params.toString()}`);
+      const blob = await response.blob();
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `突合差異レポート_${period}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    },
+  });
+}
+
+export function useReconciliationLinks(orderId: string | null | undefined) {
+  return useQuery<ReconciliationLinksResponse | null>({
+    queryKey: ["/api/reconciliation/links", orderId],
+    queryFn: async () => {
+      if (!orderId) return null;
+      const res = await apiRequest(
+        "GET",
+        `/api/reconciliation/links?orderId=${encodeURIComponent(orderId)}`,
+        undefined
+      );
+      const result = await res.json();
+      return result.data as ReconciliationLinksResponse;
+    },
+    enabled: !!orderId,
+  });
+}
+
 export function useManualReconcile() {
+  return useMutation<ManualReconcileResponse, Error, ManualReconcileRequest>({
+    mutationFn: async ({ glIds, orderIds }: ManualReconcileRequest) => {
+      const res = await apiRequest("POST", "/api/reconciliation/manual-match", {
+        glIds,
+        orderIds,
+      });
+      const result = await res.json();
+      return result.data as ManualReconcileResponse;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/gl-entries"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/reconciliation/links"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/reconciliation-aliases"] });
+    },
+  });
+}
+
+export function useConfirmFuzzyMatch() {
   return useMutation({
     mutationFn: async ({ glId, orderId }: { glId: string; orderId: string }) => {
-      const res = await apiRequest("POST", "/api/reconciliation/manual-match", { glId, orderId });
+      const res = await apiRequest("POST", "/api/reconciliation/confirm-fuzzy", { glId, orderId });
       return await res.json();
     },
     onSuccess: () => {
@@ -69,13 +260,14 @@ export function useManualReconcile() {
 
 export function useUnmatchReconciliation() {
   return useMutation({
-    mutationFn: async ({ glId, orderId }: { glId: string; orderId: string }) => {
+    mutationFn: async ({ glId, orderId }: { glId: string; orderId?: string }) => {
       const res = await apiRequest("POST", "/api/reconciliation/unmatch", { glId, orderId });
       return await res.json();
     },
     onSuccess: () => {
       void queryClient.invalidateQueries({ queryKey: ["/api/gl-entries"] });
       void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/reconciliation/links"] });
     },
   });
 }
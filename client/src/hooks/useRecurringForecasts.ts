@@ -0,0 +1,85 @@
+import type {
+  NewRecurringForecastTemplate,
+  RecurringForecastGenerationResult,
+  RecurringForecastTemplate,
+} from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export function useRecurringForecastTemplates() {
+  return useQuery<RecurringForecastTemplate[]>({
+    queryKey: ["/api/recurring-forecast-templates"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/recurring-forecast-templates", undefined);
+      const result = await res.json();
+      return result.data?.items || [];
+    },
+  });
+}
+
+export function useCreateRecurringForecastTemplate() {
+  return useMutation({
+    mutationFn: async (data: NewRecurringForecastTemplate): Promise<RecurringForecastTemplate> => {
+      const res = await apiRequest("POST", "/api/recurring-forecast-templates", data);
+      const result = await res.json();
+      return result.data;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/recurring-forecast-templates"] });
+    },
+  });
+}
+
+export function useUpdateRecurringForecastTemplate() {
+  return useMutation({
+    mutationFn: async ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Partial<NewRecurringForecastTemplate>;
+    }): Promise<{
+      template: RecurringForecastTemplate;
+      results: RecurringForecastGenerationResult[];
+    }> => {
+      const res = await apiRequest("PUT", `/api/recurring-forecast-templates/${id}`, data);
+      const result = await res.json();
+      return result.data;
+    },
+    onSuccess: () => {
+      // 生成済みの受発注データにも変更が反映されるため、受発注データも再取得する
+      void queryClient.invalidateQueries({ queryKey: ["/api/recurring-forecast-templates"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+    },
+  });
+}
+
+export function useDeleteRecurringForecastTemplate() {
+  return useMutation({
+    mutationFn: async (id: string): Promise<RecurringForecastGenerationResult[]> => {
+      const res = await apiRequest("DELETE", `/api/recurring-forecast-templates/${id}`, undefined);
+      const result = await res.json();
+      return result.data?.results || [];
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/recurring-forecast-templates"] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+    },
+  });
+}
+
+export function useGenerateRecurringForecasts() {
+  return useMutation({
+    mutationFn: async (fiscalYear: number): Promise<RecurringForecastGenerationResult> => {
+      const res = await apiRequest("POST", "/api/recurring-forecast-templates/generate", {
+        fiscalYear,
+      });
+      const result = await res.json();
+      return result.data;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+    },
+  });
+}
@@ -139,6 +139,15 @@ export async function parseExcel<T = any>(
   }
 }
 
+/**
+ * Excelファイルのシート名一覧を取得
+ */
+export async function getExcelSheetNames(file: File): Promise<string[]> {
+  const data = await file.arrayBuffer();
+  const workbook = XLSX.read(data, { type: "array", bookSheets: true });
+  return workbook.SheetNames;
+}
+
 /**
  * データをCSV形式でエクスポート
  */
@@ -13,11 +13,13 @@ async function throwIfResNotOk(res: Response) {
     }
 
     let errorMessage = res.statusText;
+    let errorPayload: unknown;
     try {
       const errorData = await res.json();
       if (errorData.message) {
         errorMessage = errorData.message;
       }
+      errorPayload = errorData.data;
     } catch {
       // JSON解析に失敗した場合はテキストとして読み取り
       try {
@@ -30,13 +32,53 @@ async function throwIfResNotOk(res: Response) {
       }
     }
 
-    const error = new Error(errorMessage) as Error & { status?: number; response?: Response };
+    const error = new Error(errorMessage) as ApiError;
     error.status = res.status;
     error.response = res;
+    error.data = errorPayload;
     throw error;
   }
 }
 
+/** APIエラー（ステータスコードとエラーレスポンスのdataを保持） */
+export type ApiError = Error & { status?: number; response?: Response; data?: unknown };
+
+/**
+ * 楽観ロックの競合（409）エラーからサーバー上の最新データを取り出す
+ *
+ * @param error - mutationで発生したエラー
+ * @returns サーバー上の最新データ。競合エラーでない場合はnull
+ */
+export function getVersionConflictData<T>(error: unknown): T | null {
+  if (error instanceof Error && (error as ApiError).status === 409 && (error as ApiError).data) {
+    return (error as ApiError).data as T;
+  }
+  return null;
+}
+
+/**
+ * 一括保存の行単位のエラー（400・409）から、行ごとのエラーと競合した行を取り出す
+ *
+ * @param error - mutationで発生したエラー
+ * @returns 行ごとのエラーと競合した行。一括保存のエラーでない場合はnull
+ */
+export function getBulkOperationErrors<TError, TConflict>(
+  error: unknown
+): { errors: TError[]; conflicts: TConflict[] } | null {
+  if (!(error instanceof Error)) {
+    return null;
+  }
+  const { status, data } = error as ApiError;
+  if ((status !== 400 && status !== 409) || !data || typeof data !== "object") {
+    return null;
+  }
+  const { errors, conflicts } = data as { errors?: TError[]; conflicts?: TConflict[] };
+  if (!Array.isArray(errors) || !Array.isArray(conflicts)) {
+    return null;
+  }
+  return { errors, conflicts };
+}
+
 export async function apiRequest(method: string, url: string, data?: unknown): Promise<Response> {
   // ヘッダーを構築（Cookieは自動送信される）
   const headers: Record<string, string> = {};
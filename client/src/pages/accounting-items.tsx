@@ -0,0 +1,420 @@
+import type { AccountingItem } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/useToast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// 集計区分の選択肢（"none" は集計対象外）
+const CATEGORY_LABELS: Record<string, string> = {
+  revenue: "売上高",
+  costOfSales: "売上原価",
+  sgaExpenses: "販管費",
+  inventoryAdjustment: "棚卸調整",
+  none: "集計対象外",
+};
+
+interface AccountingItemFormData {
+  code: string;
+  name: string;
+  category: string;
+  sign: string;
+  displayOrder: string;
+  glImportTarget: boolean;
+}
+
+const EMPTY_FORM: AccountingItemFormData = {
+  code: "",
+  name: "",
+  category: "none",
+  sign: "1",
+  displayOrder: "0",
+  glImportTarget: false,
+};
+
+export default function AccountingItemsPage() {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [selectedItem, setSelectedItem] = useState<AccountingItem | null>(null);
+  const [formData, setFormData] = useState<AccountingItemFormData>(EMPTY_FORM);
+
+  const { data: items = [], isLoading } = useQuery<AccountingItem[]>({
+    queryKey: ["/api/accounting-items", "master"],
+    queryFn: async () => {
+      const response = await apiRequest(
+        "GET",
+        "/api/accounting-items?sortBy=displayOrder&sortOrder=asc&limit=1000",
+        undefined
+      );
+      const result = await response.json();
+      // APIレスポンス: { success: true, data: { items: [...], total } }
+      return result.data?.items || [];
+    },
+  });
+
+  const toRequestBody = (data: AccountingItemFormData) => ({
+    code: data.code.trim(),
+    name: data.name.trim(),
+    category: data.category === "none" ? null : data.category,
+    sign: Number(data.sign),
+    displayOrder: Number(data.displayOrder),
+    glImportTarget: data.glImportTarget ? "true" : "false",
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: AccountingItemFormData }) => {
+      const res = id
+        ? await apiRequest("PUT", `/api/accounting-items/${id}`, toRequestBody(data))
+        : await apiRequest("POST", "/api/accounting-items", toRequestBody(data));
+      return res.json();
+    },
+    onSuccess: (_result, { id }) => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/accounting-items"] });
+      toast({
+        title: "成功",
+        description: id ? "計上科目を更新しました" : "計上科目を作成しました",
+      });
+      setIsFormOpen(false);
+      setSelectedItem(null);
+      setFormData(EMPTY_FORM);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "エラー",
+        description: error.message || "計上科目の保存に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/accounting-items/${id}`);
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/accounting-items"] });
+      toast({
+        title: "成功",
+        description: "計上科目を削除しました",
+      });
+      setIsDeleteOpen(false);
+      setSelectedItem(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "エラー",
+        description: error.message || "計上科目の削除に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    saveMutation.mutate({ id: selectedItem?.id, data: formData });
+  };
+
+  const handleDelete = () => {
+    if (!selectedItem) {
+      return;
+    }
+    deleteMutation.mutate(selectedItem.id);
+  };
+
+  const openCreateDialog = () => {
+    const maxOrder = items.reduce((max, item) => Math.max(max, item.displayOrder), 0);
+    setSelectedItem(null);
+    setFormData({ ...EMPTY_FORM, displayOrder: String(maxOrder + 10) });
+    setIsFormOpen(true);
+  };
+
+  const openEditDialog = (item: AccountingItem) => {
+    setSelectedItem(item);
+    setFormData({
+      code: item.code,
+      name: item.name,
+      category: item.category ?? "none",
+      sign: String(item.sign),
+      displayOrder: String(item.displayOrder),
+      glImportTarget: item.glImportTarget === "true",
+    });
+    setIsFormOpen(true);
+  };
+
+  const openDeleteDialog = (item: AccountingItem) => {
+    setSelectedItem(item);
+    setIsDeleteOpen(true);
+  };
+
+  const isFormValid =
+    formData.code.trim() !== "" &&
+    formData.name.trim() !== "" &&
+    formData.displayOrder !== "" &&
+    Number.isInteger(Number(formData.displayOrder)) &&
+    Number(formData.displayOrder) >= 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">
+            計上科目マスタ
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            計上科目の集計区分・符号・表示順・GL取込対象の管理（各サマリ・分析の集計に使用）
+          </p>
+        </div>
+        <Button onClick={openCreateDialog} data-testid="button-create-accounting-item">
+          <Plus className="h-4 w-4 mr-2" />
+          新規作成
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>計上科目一覧</CardTitle>
+          <CardDescription>{items.length}件の計上科目が登録されています</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">読み込み中...</div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              計上科目が登録されていません
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">表示順</TableHead>
+                  <TableHead>コード</TableHead>
+                  <TableHead>名称</TableHead>
+                  <TableHead>集計区分</TableHead>
+                  <TableHead>符号</TableHead>
+                  <TableHead>GL取込</TableHead>
+                  <TableHead className="text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.id} data-testid={`row-accounting-item-${item.id}`}>
+                    <TableCell className="text-right font-mono">{item.displayOrder}</TableCell>
+                    <TableCell className="font-mono">{item.code}</TableCell>
+                    <TableCell>{item.name}</TableCell>
+                    <TableCell>
+                      {item.category ? (
+                        <Badge variant="outline">
+                          {CATEGORY_LABELS[item.category] ?? item.category}
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary">{CATEGORY_LABELS.none}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{item.sign < 0 ? "減算" : "加算"}</TableCell>
+                    <TableCell>
+                      {item.glImportTarget === "true" ? (
+                        <Badge variant="outline">対象</Badge>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => openEditDialog(item)}
+                          data-testid={`button-edit-${item.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => openDeleteDialog(item)}
+                          data-testid={`button-delete-${item.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent data-testid="dialog-accounting-item-form">
+          <DialogHeader>
+            <DialogTitle>{selectedItem ? "計上科目編集" : "新規計上科目作成"}</DialogTitle>
+            <DialogDescription>
+              受発注見込み・角度B案件は計上科目の名称で集計されます。名称を変更すると登録済みのデータが集計されなくなります。
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="accounting-item-code">コード</Label>
+                <Input
+                  id="accounting-item-code"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                  placeholder="例: 516"
+                  data-testid="input-accounting-item-code"
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="accounting-item-name">名称</Label>
+                <Input
+                  id="accounting-item-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="例: クラウド売上"
+                  data-testid="input-accounting-item-name"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>集計区分</Label>
+                <Select
+                  value={formData.category}
+                  onValueChange={(value) => setFormData({ ...formData, category: value })}
+                >
+                  <SelectTrigger data-testid="select-accounting-item-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>符号</Label>
+                <Select
+                  value={formData.sign}
+                  onValueChange={(value) => setFormData({ ...formData, sign: value })}
+                >
+                  <SelectTrigger data-testid="select-accounting-item-sign">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">加算</SelectItem>
+                    <SelectItem value="-1">減算</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="accounting-item-display-order">表示順</Label>
+                <Input
+                  id="accounting-item-display-order"
+                  type="number"
+                  min={0}
+                  value={formData.displayOrder}
+                  onChange={(e) => setFormData({ ...formData, displayOrder: e.target.value })}
+                  data-testid="input-accounting-item-display-order"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="accounting-item-gl-import-target">
+                GL取込対象（標準レイアウトで取り込む勘定科目）
+              </Label>
+              <Switch
+                id="accounting-item-gl-import-target"
+                checked={formData.glImportTarget}
+                onCheckedChange={(checked) => setFormData({ ...formData, glImportTarget: checked })}
+                data-testid="switch-accounting-item-gl-import-target"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsFormOpen(false)}
+              data-testid="button-cancel-accounting-item"
+            >
+              キャンセル
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!isFormValid || saveMutation.isPending}
+              data-testid="button-submit-accounting-item"
+            >
+              {saveMutation.isPending ? "保存中..." : selectedItem ? "更新" : "作成"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent data-testid="dialog-delete-accounting-item">
+          <AlertDialogHeader>
+            <AlertDialogTitle>計上科目を削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              この操作は取り消せません。計上科目「{selectedItem?.name}
+              」を削除してもよろしいですか？（登録済みのデータは集計されなくなります）
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete"
+            >
+              {deleteMutation.isPending ? "削除中..." : "削除"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
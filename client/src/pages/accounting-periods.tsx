@@ -0,0 +1,346 @@
+import { History, Lock, LockOpen } from "lucide-react";
+import { useState } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useAccountingPeriods,
+  useCloseAccountingPeriod,
+  usePeriodLockOverrides,
+  useReopenAccountingPeriod,
+} from "@/hooks/useAccountingPeriods";
+import { useToast } from "@/hooks/useToast";
+
+// 会計年度の月順（4月～翌年3月）
+const FISCAL_MONTHS = [4, 5, 6, 7, 8, 9, 10, 11, 12, 1, 2, 3];
+
+const formatDateTime = (value: string | Date | null | undefined) => {
+  return value ? new Date(value).toLocaleString("ja-JP") : "-";
+};
+
+export default function AccountingPeriodsPage() {
+  const { toast } = useToast();
+  const [fiscalYear, setFiscalYear] = useState<number>(() => new Date().getFullYear());
+  const [closeTarget, setCloseTarget] = useState<string | null>(null);
+  const [reopenTarget, setReopenTarget] = useState<string | null>(null);
+  const [reopenReason, setReopenReason] = useState("");
+  const [historyTarget, setHistoryTarget] = useState<string | null>(null);
+
+  const { data: accountingPeriods = [], isLoading } = useAccountingPeriods();
+  const { data: overrides = [], isLoading: overridesLoading } =
+    usePeriodLockOverrides(historyTarget);
+  const closeMutation = useCloseAccountingPeriod();
+  const reopenMutation = useReopenAccountingPeriod();
+
+  const currentYear = new Date().getFullYear();
+  const yearOptions = Array.from({ length: 5 }, (_, i) => currentYear - 2 + i);
+
+  const rows = FISCAL_MONTHS.map((month) => {
+    const year = month >= 4 ? fiscalYear : fiscalYear + 1;
+    const period = `${year}-${month.toString().padStart(2, "0")}`;
+    return {
+      period,
+      record: accountingPeriods.find((p) => p.period === period),
+    };
+  });
+
+  const handleClose = () => {
+    if (!closeTarget) {
+      return;
+    }
+    closeMutation.mutate(closeTarget, {
+      onSuccess: () => {
+        toast({
+          title: "成功",
+          description: `${closeTarget}を締めました`,
+        });
+        setCloseTarget(null);
+      },
+      onError: (error: Error) => {
+        toast({
+          title: "エラー",
+          description: error.message || "月度の締めに失敗しました",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const handleReopen = () => {
+    if (!reopenTarget || !reopenReason.trim()) {
+      return;
+    }
+    reopenMutation.mutate(
+      { period: reopenTarget, reason: reopenReason.trim() },
+      {
+        onSuccess: () => {
+          toast({
+            title: "成功",
+            description: `${reopenTarget}の締めを解除しました`,
+          });
+          setReopenTarget(null);
+          setReopenReason("");
+        },
+        onError: (error: Error) => {
+          toast({
+            title: "エラー",
+            description: error.message || "月度の締め解除に失敗しました",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">
+            月度締め管理
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            締め済みの月度は受発注データ・角度B案件・GLデータの変更ができなくなります（締め・締め解除は管理者のみ）
+          </p>
+        </div>
+        <Select
+          value={fiscalYear.toString()}
+          onValueChange={(value) => setFiscalYear(parseInt(value))}
+        >
+          <SelectTrigger className="w-40" data-testid="select-fiscal-year">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {yearOptions.map((year) => (
+              <SelectItem key={year} value={year.toString()}>
+                {year}年度
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>月度一覧</CardTitle>
+          <CardDescription>
+            {rows.filter((row) => row.record?.status === "closed").length}
+            件の月度が締め済みです
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">読み込み中...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>月度</TableHead>
+                  <TableHead>状態</TableHead>
+                  <TableHead>締め日時</TableHead>
+                  <TableHead>締め解除日時</TableHead>
+                  <TableHead>締め解除理由</TableHead>
+                  <TableHead className="text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ period, record }) => {
+                  const isClosed = record?.status === "closed";
+                  return (
+                    <TableRow key={period} data-testid={`row-period-${period}`}>
+                      <TableCell className="font-mono">{period}</TableCell>
+                      <TableCell>
+                        {isClosed ? (
+                          <Badge variant="outline" className="gap-1">
+                            <Lock className="h-3 w-3" />
+                            締め済み
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="gap-1 text-muted-foreground">
+                            <LockOpen className="h-3 w-3" />
+                            未締め
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {formatDateTime(record?.closedAt)}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {formatDateTime(record?.reopenedAt)}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {record?.reopenReason || "-"}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setHistoryTarget(period)}
+                          data-testid={`button-history-${period}`}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        {isClosed ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setReopenTarget(period)}
+                            data-testid={`button-reopen-${period}`}
+                          >
+                            締め解除
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            onClick={() => setCloseTarget(period)}
+                            data-testid={`button-close-${period}`}
+                          >
+                            締める
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!closeTarget} onOpenChange={(open) => !open && setCloseTarget(null)}>
+        <AlertDialogContent data-testid="dialog-close-period">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{closeTarget}を締めますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              締め後は受発注データ・角度B案件・GLデータの登録・変更・削除ができなくなります。
+              管理者は理由を入力することで締め済みの月度のデータを変更できます。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleClose}
+              disabled={closeMutation.isPending}
+              data-testid="button-confirm-close"
+            >
+              {closeMutation.isPending ? "処理中..." : "締める"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog
+        open={!!reopenTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReopenTarget(null);
+            setReopenReason("");
+          }
+        }}
+      >
+        <DialogContent data-testid="dialog-reopen-period">
+          <DialogHeader>
+            <DialogTitle>{reopenTarget}の締めを解除</DialogTitle>
+            <DialogDescription>締め解除の理由を入力してください。</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reopen-reason">締め解除理由</Label>
+            <Textarea
+              id="reopen-reason"
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              placeholder="例: 監査指摘による修正のため"
+              data-testid="input-reopen-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReopenTarget(null)}>
+              キャンセル
+            </Button>
+            <Button
+              onClick={handleReopen}
+              disabled={reopenMutation.isPending || !reopenReason.trim()}
+              data-testid="button-confirm-reopen"
+            >
+              {reopenMutation.isPending ? "処理中..." : "締め解除"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyTarget} onOpenChange={(open) => !open && setHistoryTarget(null)}>
+        <DialogContent className="max-w-3xl" data-testid="dialog-override-history">
+          <DialogHeader>
+            <DialogTitle>{historyTarget}の締め後変更履歴</DialogTitle>
+            <DialogDescription>
+              管理者が締め済みの月度のデータを変更した履歴です。
+            </DialogDescription>
+          </DialogHeader>
+          {overridesLoading ? (
+            <div className="text-center py-8 text-muted-foreground">読み込み中...</div>
+          ) : overrides.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">変更履歴はありません</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>日時</TableHead>
+                  <TableHead>操作</TableHead>
+                  <TableHead>理由</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overrides.map((override) => (
+                  <TableRow key={override.id}>
+                    <TableCell className="text-muted-foreground">
+                      {formatDateTime(override.createdAt)}
+                    </TableCell>
+                    <TableCell>{override.operation}</TableCell>
+                    <TableCell>{override.reason}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
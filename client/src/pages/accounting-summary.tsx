@@ -1,7 +1,10 @@
+import type { VarianceAmounts, VarianceAnalysisResponse } from "@shared/schema";
 import { BarChart3 } from "lucide-react";
 import { useState } from "react";
 
-import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -19,15 +22,157 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { useAccountingSummary } from "@/hooks/useAccountingSummary";
+import { useAccountingSummary, useVarianceAnalysis } from "@/hooks/useAccountingSummary";
 import { useSalesPersons } from "@/hooks/useSalesPersons";
 
 const FISCAL_YEARS = [2023, 2024, 2025, 2026];
 
+const formatCurrency = (value: number) => `¥${value.toLocaleString()}`;
+
+const formatPercent = (value: number | null) =>
+  value === null ? "-" : `${value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+
+// 差異率がしきい値を超えるセルの強調表示
+const getVarianceHighlight = (amounts?: VarianceAmounts) =>
+  amounts?.exceedsThreshold
+    ? "bg-yellow-200 text-yellow-900 dark:bg-yellow-900 dark:text-yellow-100"
+    : "";
+
+// 月別セルのツールチップ（実績・差異）
+const formatVarianceTitle = (amounts?: VarianceAmounts) =>
+  amounts
+    ? `実績: ${formatCurrency(amounts.actual)} / 差異: ${formatCurrency(amounts.variance)}（${formatPercent(amounts.variancePercent)}）`
+    : undefined;
+
+/**
+ * 実績比較の追加列（実績月の累計）
+ */
+function VarianceColumns({
+  amounts,
+  showBudget = true,
+}: {
+  amounts?: VarianceAmounts;
+  showBudget?: boolean;
+}) {
+  const cellClass = "text-right font-mono text-xs py-1 px-2";
+  if (!amounts) {
+    return (
+      <>
+        {Array.from({ length: showBudget ? 5 : 4 }, (_, i) => (
+          <TableCell key={i} className={cellClass} />
+        ))}
+      </>
+    );
+  }
+  return (
+    <>
+      <TableCell className={cellClass}>{formatCurrency(amounts.forecast)}</TableCell>
+      <TableCell className={cellClass}>{formatCurrency(amounts.actual)}</TableCell>
+      <TableCell className={`${cellClass} ${getVarianceHighlight(amounts)}`}>
+        {formatCurrency(amounts.variance)}
+      </TableCell>
+      <TableCell className={`${cellClass} ${getVarianceHighlight(amounts)}`}>
+        {formatPercent(amounts.variancePercent)}
+      </TableCell>
+      {showBudget && (
+        <TableCell className={cellClass}>
+          {amounts.budget === null ? "-" : formatCurrency(amounts.budget)}
+        </TableCell>
+      )}
+    </>
+  );
+}
+
+/**
+ * 差異率がしきい値を超えるプロジェクト・計上区分の一覧
+ */
+function ProjectVarianceCard({ variance }: { variance: VarianceAnalysisResponse }) {
+  const lines = variance.projects.filter(
+    (line) =>
+      line.actualToDate.exceedsThreshold ||
+      Object.values(line.monthly).some((amounts) => amounts.exceedsThreshold)
+  );
+
+  return (
+    <Card>
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-base">プロジェクト別の見込み・実績差異</CardTitle>
+        <CardDescription>
+          差異率が{variance.threshold}
+          %以上の月があるプロジェクト・計上区分です。GL実績は突合した受発注見込みのプロジェクトに割り当て、突合されていない実績は「プロジェクト未割当」に集計しています
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        {lines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">しきい値を超える差異はありません</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs py-1 px-2">プロジェクト</TableHead>
+                  <TableHead className="text-xs py-1 px-2">計上区分</TableHead>
+                  <TableHead className="text-right text-xs py-1 px-2">
+                    見込み（実績月累計）
+                  </TableHead>
+                  <TableHead className="text-right text-xs py-1 px-2">実績</TableHead>
+                  <TableHead className="text-right text-xs py-1 px-2">差異</TableHead>
+                  <TableHead className="text-right text-xs py-1 px-2">差異率</TableHead>
+                  <TableHead className="text-xs py-1 px-2">差異の大きい月</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow
+                    key={`${line.projectId ?? "unassigned"}-${line.accountingItemCode}`}
+                    data-testid={`row-project-variance-${line.projectId ?? "unassigned"}-${line.accountingItemCode}`}
+                  >
+                    <TableCell className="text-xs py-1 px-2">
+                      {line.projectId ? (
+                        <>
+                          <span className="font-mono text-muted-foreground mr-2">
+                            {line.projectCode}
+                          </span>
+                          {line.projectName}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">プロジェクト未割当</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs py-1 px-2">{line.accountingItemName}</TableCell>
+                    <VarianceColumns amounts={line.actualToDate} showBudget={false} />
+                    <TableCell className="text-xs py-1 px-2">
+                      <div className="flex flex-wrap gap-1">
+                        {variance.months
+                          .filter((month) => line.monthly[month]?.exceedsThreshold)
+                          .map((month) => (
+                            <Badge
+                              key={month}
+                              variant="outline"
+                              title={formatVarianceTitle(line.monthly[month])}
+                            >
+                              {Number(month.split("-")[1])}月
+                            </Badge>
+                          ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function AccountingSummaryPage() {
   const [selectedYear, setSelectedYear] = useState<number>(2025);
   const [includeAngleB, setIncludeAngleB] = useState<boolean>(false);
   const [selectedSalesPerson, setSelectedSalesPerson] = useState<string>("all");
+  const [showVariance, setShowVariance] = useState<boolean>(false);
+  const [threshold, setThreshold] = useState<number>(10);
 
   // 営業担当者一覧取得
   const { data: salesPersons } = useSalesPersons();
@@ -39,10 +184,17 @@ export default function AccountingSummaryPage() {
     selectedSalesPerson
   );
 
-  // 数値フォーマット関数
-  const formatCurrency = (value: number) => {
-    return `¥${value.toLocaleString()}`;
-  };
+  // 見込み・実績・予算の差異分析（実績と比較する場合のみ取得）
+  const { data: variance } = useVarianceAnalysis(
+    selectedYear,
+    threshold,
+    selectedSalesPerson,
+    showVariance
+  );
+  const activeVariance = showVariance ? variance : undefined;
+  const varianceByCode = new Map(
+    activeVariance?.accountingItems.map((item) => [item.code, item]) ?? []
+  );
 
   // 月名を日本語で表示する関数
   const formatMonthName = (monthStr: string) => {
@@ -154,6 +306,30 @@ export default function AccountingSummaryPage() {
             </h1>
           </div>
           <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="show-variance"
+                checked={showVariance}
+                onCheckedChange={setShowVariance}
+                data-testid="switch-show-variance"
+              />
+              <label htmlFor="show-variance" className="text-sm font-medium">
+                実績・予算と比較
+              </label>
+              {showVariance && (
+                <>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-20 h-8"
+                    value={threshold}
+                    onChange={(e) => setThreshold(Math.max(0, Number(e.target.value) || 0))}
+                    data-testid="input-variance-threshold"
+                  />
+                  <span className="text-sm text-muted-foreground">%以上を強調</span>
+                </>
+              )}
+            </div>
             <div className="flex items-center gap-2">
               <Switch
                 id="include-angle-b"
@@ -212,6 +388,25 @@ export default function AccountingSummaryPage() {
                     <TableHead className="w-[120px] text-center font-bold text-xs py-1 px-2">
                       年度合計
                     </TableHead>
+                    {activeVariance && (
+                      <>
+                        <TableHead className="w-[110px] text-center text-xs py-1 px-2">
+                          見込み（実績月累計）
+                        </TableHead>
+                        <TableHead className="w-[110px] text-center text-xs py-1 px-2">
+                          実績（GL）
+                        </TableHead>
+                        <TableHead className="w-[110px] text-center text-xs py-1 px-2">
+                          差異
+                        </TableHead>
+                        <TableHead className="w-[80px] text-center text-xs py-1 px-2">
+                          差異率
+                        </TableHead>
+                        <TableHead className="w-[110px] text-center text-xs py-1 px-2">
+                          予算（実績月累計）
+                        </TableHead>
+                      </>
+                    )}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -223,13 +418,22 @@ export default function AccountingSummaryPage() {
                         <TableCell className="font-medium text-xs py-1 px-2">{item.code}</TableCell>
                         <TableCell className="text-xs py-1 px-2">{item.name}</TableCell>
                         {months.map((month) => (
-                          <TableCell key={month} className="text-right font-mono text-xs py-1 px-2">
+                          <TableCell
+                            key={month}
+                            className={`text-right font-mono text-xs py-1 px-2 ${getVarianceHighlight(varianceByCode.get(item.code)?.monthly[month])}`}
+                            title={formatVarianceTitle(
+                              varianceByCode.get(item.code)?.monthly[month]
+                            )}
+                          >
                             {formatCurrency(item.monthlyAmounts[month] || 0)}
                           </TableCell>
                         ))}
                         <TableCell className="text-right font-mono font-bold text-xs py-1 px-2">
                           {formatCurrency(calculateAnnualTotal(item.monthlyAmounts))}
                         </TableCell>
+                        {activeVariance && (
+                          <VarianceColumns amounts={varianceByCode.get(item.code)?.actualToDate} />
+                        )}
                       </TableRow>
                     ))}
                   {/* 純売上サマリ */}
@@ -238,13 +442,22 @@ export default function AccountingSummaryPage() {
                       純売上計
                     </TableCell>
                     {months.map((month) => (
-                      <TableCell key={month} className="text-right font-mono text-xs py-1 px-2">
+                      <TableCell
+                        key={month}
+                        className={`text-right font-mono text-xs py-1 px-2 ${getVarianceHighlight(activeVariance?.summaries.revenue.monthly[month])}`}
+                        title={formatVarianceTitle(
+                          activeVariance?.summaries.revenue.monthly[month]
+                        )}
+                      >
                         {formatCurrency(summaries.revenue.monthlyTotals[month] || 0)}
                       </TableCell>
                     ))}
                     <TableCell className="text-right font-mono font-bold text-xs py-1 px-2">
                       {formatCurrency(calculateSummaryAnnualTotal(summaries.revenue.monthlyTotals))}
                     </TableCell>
+                    {activeVariance && (
+                      <VarianceColumns amounts={activeVariance.summaries.revenue.actualToDate} />
+                    )}
                   </TableRow>
 
                   {/* 売上原価 */}
@@ -255,13 +468,22 @@ export default function AccountingSummaryPage() {
                         <TableCell className="font-medium text-xs py-1 px-2">{item.code}</TableCell>
                         <TableCell className="text-xs py-1 px-2">{item.name}</TableCell>
                         {months.map((month) => (
-                          <TableCell key={month} className="text-right font-mono text-xs py-1 px-2">
+                          <TableCell
+                            key={month}
+                            className={`text-right font-mono text-xs py-1 px-2 ${getVarianceHighlight(varianceByCode.get(item.code)?.monthly[month])}`}
+                            title={formatVarianceTitle(
+                              varianceByCode.get(item.code)?.monthly[month]
+                            )}
+                          >
                             {formatCurrency(item.monthlyAmounts[month] || 0)}
                           </TableCell>
                         ))}
                         <TableCell className="text-right font-mono font-bold text-xs py-1 px-2">
                           {formatCurrency(calculateAnnualTotal(item.monthlyAmounts))}
                         </TableCell>
+                        {activeVariance && (
+                          <VarianceColumns amounts={varianceByCode.get(item.code)?.actualToDate} />
+                        )}
                       </TableRow>
                     ))}
                   {/* 売上原価サマリ */}
@@ -270,7 +492,13 @@ export default function AccountingSummaryPage() {
                       売上原価計
                     </TableCell>
                     {months.map((month) => (
-                      <TableCell key={month} className="text-right font-mono text-xs py-1 px-2">
+                      <TableCell
+                        key={month}
+                        className={`text-right font-mono text-xs py-1 px-2 ${getVarianceHighlight(activeVariance?.summaries.costOfSales.monthly[month])}`}
+                        title={formatVarianceTitle(
+                          activeVariance?.summaries.costOfSales.monthly[month]
+                        )}
+                      >
                         {formatCurrency(summaries.costOfSales.monthlyTotals[month] || 0)}
                       </TableCell>
                     ))}
@@ -279,6 +507,11 @@ export default function AccountingSummaryPage() {
                         calculateSummaryAnnualTotal(summaries.costOfSales.monthlyTotals)
                       )}
                     </TableCell>
+                    {activeVariance && (
+                      <VarianceColumns
+                        amounts={activeVariance.summaries.costOfSales.actualToDate}
+                      />
+                    )}
                   </TableRow>
 
                   {/* 販管費 */}
@@ -289,13 +522,22 @@ export default function AccountingSummaryPage() {
                         <TableCell className="font-medium text-xs py-1 px-2">{item.code}</TableCell>
                         <TableCell className="text-xs py-1 px-2">{item.name}</TableCell>
                         {months.map((month) => (
-                          <TableCell key={month} className="text-right font-mono text-xs py-1 px-2">
+                          <TableCell
+                            key={month}
+                            className={`text-right font-mono text-xs py-1 px-2 ${getVarianceHighlight(varianceByCode.get(item.code)?.monthly[month])}`}
+                            title={formatVarianceTitle(
+                              varianceByCode.get(item.code)?.monthly[month]
+                            )}
+                          >
                             {formatCurrency(item.monthlyAmounts[month] || 0)}
                           </TableCell>
                         ))}
                         <TableCell className="text-right font-mono font-bold text-xs py-1 px-2">
                           {formatCurrency(calculateAnnualTotal(item.monthlyAmounts))}
                         </TableCell>
+                        {activeVariance && (
+                          <VarianceColumns amounts={varianceByCode.get(item.code)?.actualToDate} />
+                        )}
                       </TableRow>
                     ))}
                   {/* 販管費サマリ */}
@@ -304,7 +546,13 @@ export default function AccountingSummaryPage() {
                       販管費計
                     </TableCell>
                     {months.map((month) => (
-                      <TableCell key={month} className="text-right font-mono text-xs py-1 px-2">
+                      <TableCell
+                        key={month}
+                        className={`text-right font-mono text-xs py-1 px-2 ${getVarianceHighlight(activeVariance?.summaries.sgaExpenses.monthly[month])}`}
+                        title={formatVarianceTitle(
+                          activeVariance?.summaries.sgaExpenses.monthly[month]
+                        )}
+                      >
                         {formatCurrency(summaries.sgaExpenses.monthlyTotals[month] || 0)}
                       </TableCell>
                     ))}
@@ -313,12 +561,28 @@ export default function AccountingSummaryPage() {
                         calculateSummaryAnnualTotal(summaries.sgaExpenses.monthlyTotals)
                       )}
                     </TableCell>
+                    {activeVariance && (
+                      <VarianceColumns
+                        amounts={activeVariance.summaries.sgaExpenses.actualToDate}
+                      />
+                    )}
                   </TableRow>
                 </TableBody>
               </Table>
             </div>
+            {activeVariance && (
+              <p className="text-xs text-muted-foreground mt-2">
+                {activeVariance.actualPeriods.length > 0
+                  ? `実績（GL）は${formatMonthName(activeVariance.actualPeriods[0])}〜${formatMonthName(activeVariance.actualPeriods[activeVariance.actualPeriods.length - 1])}のデータです。`
+                  : "実績（GL）のデータはありません。"}
+                {`比較する見込みは受発注見込みのみ（角度B案件を含まない）、予算は年度予算の1/12を月割りしています。差異率が${activeVariance.threshold}%以上の月を強調表示し、セルにカーソルを合わせると実績と差異を表示します`}
+              </p>
+            )}
           </CardContent>
         </Card>
+
+        {/* プロジェクト別の差異 */}
+        {activeVariance && <ProjectVarianceCard variance={activeVariance} />}
       </div>
     </div>
   );
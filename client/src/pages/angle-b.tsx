@@ -3,7 +3,13 @@ import { ArrowUpCircle, FileSpreadsheet } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 
 import { AdvancedFilterPanel, type FilterState } from "@/components/advanced-filter-panel";
-import { ExcelDataGrid, type GridColumn, type GridRowData } from "@/components/excel-data-grid";
+import {
+  ExcelDataGrid,
+  type GridColumn,
+  type GridConflict,
+  type GridRowData,
+} from "@/components/excel-data-grid";
+import { ForecastSplitDialog } from "@/components/forecast-split-dialog";
 import { KeyboardShortcutsPanel } from "@/components/keyboard-shortcuts-panel";
 import { type SearchFilter, SearchFilterPanel } from "@/components/search-filter-panel";
 import { ThemeToggle } from "@/components/theme-toggle";
@@ -19,6 +25,7 @@ import {
 import { useAccountingItems, useCustomers, useProjects } from "@/hooks/useMasters";
 import { useToast } from "@/hooks/useToast";
 import { sortAccountingItemsByOrder } from "@/lib/accountingItemOrder";
+import { getVersionConflictData } from "@/lib/queryClient";
 
 export default function AngleBPage() {
   const [filter, setFilter] = useState<FilterState>(() => {
@@ -238,7 +245,28 @@ export default function AngleBPage() {
     },
   ];
 
+  // GridRow形式に変換
+  const toGridRow = (angleB: AngleBForecast): GridRowData => ({
+    id: angleB.id,
+    projectId: angleB.projectId,
+    projectCode: angleB.projectCode,
+    projectName: angleB.projectName,
+    customerId: angleB.customerId || undefined,
+    customerCode: angleB.customerCode || undefined,
+    customerName: angleB.customerName || undefined,
+    accountingPeriod: angleB.accountingPeriod,
+    accountingItem: angleB.accountingItem,
+    description: angleB.description,
+    amount: angleB.amount,
+    probability: angleB.probability,
+    remarks: angleB.remarks || "",
+    version: angleB.version, // 楽観ロック（保存時に送信）
+    _modified: false,
+    _selected: false,
+  });
+
   const [localRows, setLocalRows] = useState<GridRowData[]>([]);
+  const [versionConflicts, setVersionConflicts] = useState<GridConflict[]>([]);
   const lastSyncedDataRef = useRef<AngleBForecast[]>([]);
   const deletedIdsRef = useRef<Set<string>>(new Set());
 
@@ -252,23 +280,7 @@ export default function AngleBPage() {
       JSON.stringify(angleBForecasts) !== JSON.stringify(lastSyncedDataRef.current);
 
     if (dataChanged) {
-      const freshGridRows: GridRowData[] = angleBForecasts.map((angleB) => ({
-        id: angleB.id,
-        projectId: angleB.projectId,
-        projectCode: angleB.projectCode,
-        projectName: angleB.projectName,
-        customerId: angleB.customerId || undefined,
-        customerCode: angleB.customerCode || undefined,
-        customerName: angleB.customerName || undefined,
-        accountingPeriod: angleB.accountingPeriod,
-        accountingItem: angleB.accountingItem,
-        description: angleB.description,
-        amount: angleB.amount,
-        probability: angleB.probability,
-        remarks: angleB.remarks || "",
-        _modified: false,
-        _selected: false,
-      }));
+      const freshGridRows: GridRowData[] = angleBForecasts.map(toGridRow);
       setLocalRows(freshGridRows);
       lastSyncedDataRef.current = angleBForecasts;
     }
@@ -285,13 +297,15 @@ export default function AngleBPage() {
     setLocalRows(rows);
   };
 
-  const handleSave = async () => {
+  const saveRows = async (rows: GridRowData[]) => {
     // 二重送信防止
     if (isSaving) return;
     setIsSaving(true);
 
     try {
-      const modifiedRows = localRows.filter((row) => row._modified);
+      const modifiedRows = rows.filter((row) => row._modified);
+      // 他のユーザーが先に更新していた行（楽観ロックの競合）
+      const conflicts: GridConflict[] = [];
 
       const validationErrors: string[] = [];
       modifiedRows.forEach((row, index) => {
@@ -368,11 +382,23 @@ export default function AngleBPage() {
               updateData.customerName = null;
             }
 
-            await updateMutation.mutateAsync({
-              id: row.id,
-              data: updateData,
-              filter,
-            });
+            try {
+              await updateMutation.mutateAsync({
+                id: row.id,
+                data: { ...updateData, version: Number(row.version) },
+                filter,
+              });
+            } catch (error) {
+              const current = getVersionConflictData<AngleBForecast>(error);
+              if (!current) {
+                throw error;
+              }
+              conflicts.push({
+                localRow: row,
+                baseRow: toGridRow(existing),
+                serverRow: toGridRow(current),
+              });
+            }
           }
         }
       }
@@ -384,30 +410,28 @@ export default function AngleBPage() {
 
       const { data: freshData } = await refetchAngleB();
       if (freshData) {
-        const freshRows: GridRowData[] = freshData.map((angleB) => ({
-          id: angleB.id,
-          projectId: angleB.projectId,
-          projectCode: angleB.projectCode,
-          projectName: angleB.projectName,
-          customerId: angleB.customerId || undefined,
-          customerCode: angleB.customerCode || undefined,
-          customerName: angleB.customerName || undefined,
-          accountingPeriod: angleB.accountingPeriod,
-          accountingItem: angleB.accountingItem,
-          description: angleB.description,
-          amount: angleB.amount,
-          probability: angleB.probability,
-          remarks: angleB.remarks || "",
-          _modified: false,
-          _selected: false,
-        }));
+        // 競合した行は編集内容を残したままにする
+        const freshRows: GridRowData[] = freshData.map(
+          (angleB) =>
+            conflicts.find((conflict) => conflict.localRow.id === angleB.id)?.localRow ??
+            toGridRow(angleB)
+        );
         setLocalRows(freshRows);
       }
+      setVersionConflicts(conflicts);
 
-      toast({
-        title: "保存しました",
-        description: `${modifiedRows.length}件のデータを保存しました`,
-      });
+      if (conflicts.length === 0) {
+        toast({
+          title: "保存しました",
+          description: `${modifiedRows.length}件のデータを保存しました`,
+        });
+      } else {
+        toast({
+          title: "更新の競合",
+          description: `${conflicts.length}件は他のユーザーが先に更新していたため保存されていません`,
+          variant: "destructive",
+        });
+      }
     } catch (_error) {
       toast({
         title: "保存に失敗しました",
@@ -419,6 +443,18 @@ export default function AngleBPage() {
     }
   };
 
+  const handleSave = () => saveRows(localRows);
+
+  // 競合ダイアログで選んだ値を反映し、最新のバージョンで保存し直す
+  const handleResolveConflicts = (resolvedRows: GridRowData[]) => {
+    const nextRows = localRows.map(
+      (row) => resolvedRows.find((resolved) => resolved.id === row.id) ?? row
+    );
+    setVersionConflicts([]);
+    setLocalRows(nextRows);
+    void saveRows(nextRows);
+  };
+
   const handlePromote = async () => {
     try {
       const selectedRows = localRows.filter((row) => row._selected && !row.id.startsWith("temp-"));
@@ -438,23 +474,7 @@ export default function AngleBPage() {
 
       const { data: freshData } = await refetchAngleB();
       if (freshData) {
-        const freshRows: GridRowData[] = freshData.map((angleB) => ({
-          id: angleB.id,
-          projectId: angleB.projectId,
-          projectCode: angleB.projectCode,
-          projectName: angleB.projectName,
-          customerId: angleB.customerId || undefined,
-          customerCode: angleB.customerCode || undefined,
-          customerName: angleB.customerName || undefined,
-          accountingPeriod: angleB.accountingPeriod,
-          accountingItem: angleB.accountingItem,
-          description: angleB.description,
-          amount: angleB.amount,
-          probability: angleB.probability,
-          remarks: angleB.remarks || "",
-          _modified: false,
-          _selected: false,
-        }));
+        const freshRows: GridRowData[] = freshData.map(toGridRow);
         setLocalRows(freshRows);
       }
 
@@ -471,6 +491,12 @@ export default function AngleBPage() {
     }
   };
 
+  // 分割計上の対象（選択中の保存済みの行のうち先頭の1件）
+  const splitRow = localRows.find((row) => row._selected && !row.id.startsWith("temp-"));
+  const splitAngleB = splitRow
+    ? (angleBForecasts.find((angleB) => angleB.id === splitRow.id) ?? null)
+    : null;
+
   if (angleBLoading || customersLoading || projectsLoading || accountingItemsLoading) {
     return (
       <div className="flex flex-col h-screen">
@@ -505,6 +531,11 @@ export default function AngleBPage() {
             <ArrowUpCircle className="h-4 w-4 mr-2" />
             見込みへ昇格
           </Button>
+          <ForecastSplitDialog
+            targetType="angle-b"
+            line={splitAngleB}
+            hasPendingChanges={splitRow?._modified === true}
+          />
           <SearchFilterPanel
             open={isSearchPanelOpen}
             onOpenChange={setIsSearchPanelOpen}
@@ -527,6 +558,9 @@ export default function AngleBPage() {
           onRowsChange={handleRowsChange}
           onSave={handleSave}
           isSaving={isSaving}
+          conflicts={versionConflicts}
+          onResolveConflicts={handleResolveConflicts}
+          onCancelConflicts={() => setVersionConflicts([])}
         />
       </main>
     </div>
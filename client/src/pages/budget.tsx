@@ -133,10 +133,10 @@ export default function BudgetPage() {
     fiscalYear: selectedYear,
   });
 
-  // 計上科目マスタを取得（売上系コード510-519を除外）
+  // 計上科目マスタを取得（売上の計上科目を除外）
   const { data: accountingItems = { items: [], total: 0 }, isLoading: accountingItemsLoading } =
     useAccountingItems({
-      excludeRevenueCodes: true,
+      excludeRevenue: true,
     });
 
   // Revenue mutations
@@ -1,6 +1,8 @@
 import { FileUp, Upload } from "lucide-react";
 import { useState } from "react";
+import { useLocation } from "wouter";
 
+import { ImportSheetSelect } from "@/components/import-sheet-select";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
@@ -12,16 +14,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Skeleton } from "@/components/ui/skeleton";
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
-import { useImportForecastCSV } from "@/hooks/useForecastImport";
+import { useStageImportBatch } from "@/hooks/useImportBatches";
 import { useToast } from "@/hooks/useToast";
 
 export default function ForecastImportPage() {
@@ -37,14 +30,10 @@ export default function ForecastImportPage() {
     "order-forecasts"
   );
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [importResult, setImportResult] = useState<{
-    totalRows: number;
-    importedRows: number;
-    skippedRows: number;
-    errors: Array<{ row: number; message: string }>;
-  } | null>(null);
+  const [sheetName, setSheetName] = useState<string | undefined>(undefined);
 
-  const importCSV = useImportForecastCSV();
+  const [, setLocation] = useLocation();
+  const stageBatch = useStageImportBatch();
   const { toast } = useToast();
 
   // 年度選択肢を生成
@@ -54,7 +43,6 @@ export default function ForecastImportPage() {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setSelectedFile(e.target.files[0]);
-      setImportResult(null); // ファイル変更時に結果をクリア
     }
   };
 
@@ -63,7 +51,7 @@ export default function ForecastImportPage() {
       toast({
         variant: "destructive",
         title: "ファイル未選択",
-        description: "CSVファイルを選択してください",
+        description: "CSVまたはXLSXファイルを選択してください",
       });
       return;
     }
@@ -77,22 +65,22 @@ export default function ForecastImportPage() {
       return;
     }
 
-    importCSV.mutate(
-      { file: selectedFile, fiscalYear, type: importType },
+    // 取込バッチに読み込み、明細を確認・修正してから反映する
+    stageBatch.mutate(
+      { file: selectedFile, importType, fiscalYear, sheetName },
       {
-        onSuccess: (data) => {
-          setImportResult(data);
+        onSuccess: (batch) => {
           toast({
-            title: "CSV取込完了",
-            description: `${data.importedRows}件のデータを取り込みました（スキップ: ${data.skippedRows}件）`,
+            title: "取込ファイル読込完了",
+            description: `取込可能: ${batch.validRows}件、エラー: ${batch.errorRows}件。内容を確認して反映してください`,
           });
+          setLocation(`/import-batches/${batch.id}`);
         },
-        onError: (error: any) => {
-          const errorMessage = error?.message || "CSVファイルの取込中にエラーが発生しました";
+        onError: (error: Error) => {
           toast({
             variant: "destructive",
             title: "CSV取込エラー",
-            description: errorMessage,
+            description: error.message || "CSVファイルの取込中にエラーが発生しました",
           });
         },
       }
@@ -109,7 +97,7 @@ export default function ForecastImportPage() {
             受注見込み・角度B案件CSV取込
           </h1>
           <p className="text-muted-foreground mt-1">
-            CSVファイルをアップロードして、受注見込み案件または角度B案件を一括登録します
+            CSV・XLSXファイルを取込バッチに読み込み、内容を確認・修正してから受注見込み案件または角度B案件に一括登録します
           </p>
         </div>
 
@@ -118,7 +106,7 @@ export default function ForecastImportPage() {
           <CardHeader>
             <CardTitle className="text-base">CSV取込設定</CardTitle>
             <CardDescription>
-              取込対象年度と取込対象を選択し、CSVファイルをアップロードしてください
+              取込対象年度と取込対象を選択し、CSV・XLSXファイルをアップロードしてください
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -148,10 +136,9 @@ export default function ForecastImportPage() {
                 <Label>取込対象</Label>
                 <RadioGroup
                   value={importType}
-                  onValueChange={(value) => {
-                    setImportType(value as "order-forecasts" | "angle-b-forecasts");
-                    setImportResult(null); // 取込対象変更時に結果をクリア
-                  }}
+                  onValueChange={(value) =>
+                    setImportType(value as "order-forecasts" | "angle-b-forecasts")
+                  }
                 >
                   <div className="flex items-center space-x-2">
                     <RadioGroupItem value="order-forecasts" id="order-forecasts" />
@@ -168,13 +155,13 @@ export default function ForecastImportPage() {
                 </RadioGroup>
               </div>
 
-              {/* CSVファイル選択 */}
+              {/* CSV・XLSXファイル選択 */}
               <div className="space-y-2">
-                <Label htmlFor="csvFile">CSVファイル</Label>
+                <Label htmlFor="csvFile">CSV・XLSXファイル</Label>
                 <input
                   id="csvFile"
                   type="file"
-                  accept=".csv"
+                  accept=".csv,.xlsx"
                   onChange={handleFileChange}
                   className="block w-full text-sm text-muted-foreground
                     file:mr-4 file:py-2 file:px-4
@@ -188,6 +175,8 @@ export default function ForecastImportPage() {
                 )}
               </div>
 
+              <ImportSheetSelect file={selectedFile} value={sheetName} onChange={setSheetName} />
+
               {/* CSVフォーマット説明 */}
               <div className="bg-muted p-4 rounded-md text-sm">
                 <p className="font-medium mb-2">CSVフォーマット:</p>
@@ -211,9 +200,13 @@ export default function ForecastImportPage() {
                 <div className="mt-3 pt-3 border-t border-border space-y-2">
                   <p className="font-medium text-sm">ファイル形式に関する詳細:</p>
                   <ul className="list-disc list-inside space-y-1 text-xs text-muted-foreground">
+                    <li>
+                      <strong>XLSX:</strong>{" "}
+                      選択したシートの列1～列5をCSVと同じ構成で読み込みます。計上年月は文字列（YYYY-MM）または年月の表示形式の日付セルで入力してください。
+                    </li>
                     <li>
                       <strong>ヘッダー行:</strong>{" "}
-                      ヘッダー行があっても問題ありません。ヘッダー行はエラーとしてスキップされます。
+                      ヘッダー行があっても問題ありません。ヘッダー行はエラーの行になるため、取込バッチの確認画面で取込対象外にしてください。
                     </li>
                     <li>
                       <strong>ダブルクォート:</strong>{" "}
@@ -243,86 +236,16 @@ export default function ForecastImportPage() {
               <div>
                 <Button
                   onClick={handleImport}
-                  disabled={!selectedFile || !fiscalYear || importCSV.isPending}
+                  disabled={!selectedFile || !fiscalYear || stageBatch.isPending}
                   className="w-full sm:w-auto"
                 >
                   <Upload className="h-4 w-4 mr-2" />
-                  {importCSV.isPending ? "取込中..." : "CSV取込実行"}
+                  {stageBatch.isPending ? "読込中..." : "読み込んで内容を確認"}
                 </Button>
               </div>
             </div>
           </CardContent>
         </Card>
-
-        {/* Import Result */}
-        {importCSV.isPending ? (
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-base">取込結果</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-2">
-                <Skeleton className="h-4 w-full" />
-                <Skeleton className="h-4 w-full" />
-                <Skeleton className="h-4 w-3/4" />
-              </div>
-            </CardContent>
-          </Card>
-        ) : importResult ? (
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-base">取込結果</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {/* サマリー */}
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div className="bg-muted p-4 rounded-md">
-                    <div className="text-sm text-muted-foreground">総行数</div>
-                    <div className="text-2xl font-bold mt-1">{importResult.totalRows}</div>
-                  </div>
-                  <div className="bg-muted p-4 rounded-md">
-                    <div className="text-sm text-muted-foreground">取込成功</div>
-                    <div className="text-2xl font-bold text-success mt-1">
-                      {importResult.importedRows}
-                    </div>
-                  </div>
-                  <div className="bg-muted p-4 rounded-md">
-                    <div className="text-sm text-muted-foreground">スキップ</div>
-                    <div className="text-2xl font-bold text-warning mt-1">
-                      {importResult.skippedRows}
-                    </div>
-                  </div>
-                </div>
-
-                {/* エラー詳細 */}
-                {importResult.errors.length > 0 && (
-                  <div>
-                    <h3 className="text-sm font-medium mb-2">エラー詳細</h3>
-                    <div className="rounded-md border max-h-[400px] overflow-auto">
-                      <Table>
-                        <TableHeader>
-                          <TableRow>
-                            <TableHead className="w-20">行番号</TableHead>
-                            <TableHead>エラーメッセージ</TableHead>
-                          </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                          {importResult.errors.map((error, index) => (
-                            <TableRow key={index}>
-                              <TableCell className="font-mono">{error.row}</TableCell>
-                              <TableCell className="text-sm">{error.message}</TableCell>
-                            </TableRow>
-                          ))}
-                        </TableBody>
-                      </Table>
-                    </div>
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        ) : null}
       </div>
     </div>
   );
@@ -2,7 +2,10 @@ import { FileUp, Trash2, Upload, X } from "lucide-react";
 import { useState } from "react";
 
 import { ExclusionDialog } from "@/components/exclusion-dialog";
+import { GLAnomalyPanel } from "@/components/gl-anomaly-panel";
 import { GLCSVImportDialog } from "@/components/gl-csv-import-dialog";
+import { GLVoucherCheckPanel } from "@/components/gl-voucher-check-panel";
+import { PeriodLockBadge } from "@/components/period-lock-badge";
 import { ReconciliationStatusBadge } from "@/components/reconciliation-status-badge";
 import {
   AlertDialog,
@@ -19,6 +22,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
@@ -35,6 +39,8 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useIsPeriodClosed } from "@/hooks/useAccountingPeriods";
 import { useDeleteGLByPeriod, useGLEntries, useSetGLEntriesExclusion } from "@/hooks/useGLEntries";
 import { useToast } from "@/hooks/useToast";
 
@@ -46,6 +52,7 @@ export default function GLImportPage() {
   const [isExcluding, setIsExcluding] = useState(true);
   const [searchFilter, setSearchFilter] = useState<string>("");
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [overrideReason, setOverrideReason] = useState("");
   const { toast } = useToast();
 
   // Fetch GL entries
@@ -137,6 +144,8 @@ export default function GLImportPage() {
     return `${year}-${month.toString().padStart(2, "0")}`;
   };
 
+  const isPeriodClosed = useIsPeriodClosed(calculatePeriod());
+
   const handleDeleteGL = () => {
     const period = calculatePeriod();
     if (!period) {
@@ -148,23 +157,27 @@ export default function GLImportPage() {
       return;
     }
 
-    deleteGLByPeriod.mutate(period, {
-      onSuccess: (data) => {
-        toast({
-          title: "GL データ削除完了",
-          description: data.data?.message || `期間（${period}）のGLデータを削除しました`,
-        });
-        setDeleteDialogOpen(false);
-        handleRefresh();
-      },
-      onError: (error: any) => {
-        toast({
-          variant: "destructive",
-          title: "削除エラー",
-          description: error.message || "GL データ削除中にエラーが発生しました",
-        });
-      },
-    });
+    deleteGLByPeriod.mutate(
+      { period, overrideReason: isPeriodClosed ? overrideReason.trim() : undefined },
+      {
+        onSuccess: (data) => {
+          toast({
+            title: "GL データ削除完了",
+            description: data.data?.message || `期間（${period}）のGLデータを削除しました`,
+          });
+          setDeleteDialogOpen(false);
+          setOverrideReason("");
+          handleRefresh();
+        },
+        onError: (error: any) => {
+          toast({
+            variant: "destructive",
+            title: "削除エラー",
+            description: error.message || "GL データ削除中にエラーが発生しました",
+          });
+        },
+      }
+    );
   };
 
   // Generate year and month options
@@ -190,7 +203,9 @@ export default function GLImportPage() {
             <FileUp className="h-7 w-7" />
             GL取込
           </h1>
-          <p className="text-muted-foreground mt-1">GLデータのCSV取込と除外管理を行います</p>
+          <p className="text-muted-foreground mt-1">
+            GLデータのCSV取込、伝票の貸借チェック、異常検知と除外管理を行います
+          </p>
         </div>
 
         {/* Filter and Import Panel */}
@@ -239,6 +254,8 @@ export default function GLImportPage() {
                 </Select>
               </div>
 
+              <PeriodLockBadge period={calculatePeriod()} className="mb-2" />
+
               <div className="ml-auto flex gap-2">
                 <Button
                   variant="destructive"
@@ -309,6 +326,12 @@ export default function GLImportPage() {
           </div>
         )}
 
+        {/* Voucher Integrity Check */}
+        <GLVoucherCheckPanel fiscalYear={fiscalYear} month={month} />
+
+        {/* Anomaly Detection */}
+        <GLAnomalyPanel fiscalYear={fiscalYear} month={month} />
+
         {/* GL Exclusion Management */}
         <Card>
           <CardHeader>
@@ -454,6 +477,7 @@ export default function GLImportPage() {
                                 status={
                                   gl.reconciliationStatus as "matched" | "fuzzy" | "unmatched"
                                 }
+                                crossPeriod={gl.isCrossPeriod === "true"}
                               />
                             )}
                           </TableCell>
@@ -489,11 +513,24 @@ export default function GLImportPage() {
                 この操作は取り消せません。
               </AlertDialogDescription>
             </AlertDialogHeader>
+            {isPeriodClosed && (
+              <div className="space-y-2">
+                <Label htmlFor="override-reason">
+                  この期間は締め済みです。管理者のみ理由を入力して削除できます
+                </Label>
+                <Textarea
+                  id="override-reason"
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  placeholder="締め済み期間のデータを削除する理由"
+                />
+              </div>
+            )}
             <AlertDialogFooter>
               <AlertDialogCancel>キャンセル</AlertDialogCancel>
               <AlertDialogAction
                 onClick={handleDeleteGL}
-                disabled={deleteGLByPeriod.isPending}
+                disabled={deleteGLByPeriod.isPending || (isPeriodClosed && !overrideReason.trim())}
                 className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
               >
                 {deleteGLByPeriod.isPending ? "削除中..." : "削除"}
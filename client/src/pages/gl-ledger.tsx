@@ -0,0 +1,503 @@
+import type { GLMonthlyBalance } from "@shared/schema";
+import { ArrowLeft, BookOpen } from "lucide-react";
+import { useState } from "react";
+import { useLocation, useParams, useSearch } from "wouter";
+
+import { ReconciliationStatusBadge } from "@/components/reconciliation-status-badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useGLLedger, useGLTrialBalance, useGLVoucherEntries } from "@/hooks/useGLEntries";
+
+type TrialBalanceView = "netMovement" | "cumulativeBalance";
+
+const formatAmount = (value: number) => `¥${value.toLocaleString()}`;
+
+// 期間（YYYY-MM）を月の表示に変換
+const formatMonth = (period: string) => `${Number(period.split("-")[1])}月`;
+
+// 会計年度の選択肢（当年を中心に5年分）
+const currentYear = new Date().getFullYear();
+const yearOptions = Array.from({ length: 5 }, (_, i) => currentYear - 2 + i);
+
+export default function GLLedgerPage() {
+  const { accountCode } = useParams<{ accountCode?: string }>();
+  const search = useSearch();
+  const fiscalYearParam = Number(new URLSearchParams(search).get("fiscalYear"));
+  const fiscalYear =
+    Number.isInteger(fiscalYearParam) && fiscalYearParam > 0 ? fiscalYearParam : currentYear;
+
+  return accountCode ? (
+    <AccountLedger accountCode={decodeURIComponent(accountCode)} fiscalYear={fiscalYear} />
+  ) : (
+    <TrialBalance fiscalYear={fiscalYear} />
+  );
+}
+
+/**
+ * 会計年度の選択
+ */
+function FiscalYearSelect({
+  fiscalYear,
+  onChange,
+}: {
+  fiscalYear: number;
+  onChange: (fiscalYear: number) => void;
+}) {
+  return (
+    <Select value={fiscalYear.toString()} onValueChange={(value) => onChange(Number(value))}>
+      <SelectTrigger className="w-32" data-testid="select-fiscal-year">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {yearOptions.map((year) => (
+          <SelectItem key={year} value={year.toString()}>
+            {year}年度
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * 月次試算表（勘定科目別の月次推移）
+ */
+function TrialBalance({ fiscalYear }: { fiscalYear: number }) {
+  const [, setLocation] = useLocation();
+  const [view, setView] = useState<TrialBalanceView>("netMovement");
+  const { data, isLoading } = useGLTrialBalance(fiscalYear);
+
+  const monthValue = (month: GLMonthlyBalance) =>
+    view === "netMovement" ? month.netMovement : month.cumulativeBalance;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2" data-testid="text-page-title">
+            <BookOpen className="h-7 w-7" />
+            試算表・元帳
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            GLデータから勘定科目別の月次試算表を表示します。勘定科目を選択すると元帳、伝票番号を選択すると伝票の明細を確認できます
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={view} onValueChange={(value) => setView(value as TrialBalanceView)}>
+            <SelectTrigger className="w-36" data-testid="select-trial-balance-view">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="netMovement">月次増減</SelectItem>
+              <SelectItem value="cumulativeBalance">累計残高</SelectItem>
+            </SelectContent>
+          </Select>
+          <FiscalYearSelect
+            fiscalYear={fiscalYear}
+            onChange={(year) => setLocation(`/gl-ledger?fiscalYear=${year}`)}
+          />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{fiscalYear}年度 月次試算表</CardTitle>
+          <CardDescription>
+            金額は借方をプラス、貸方をマイナスとして表示します。GLデータに期首残高は含まれないため、累計残高は4月を起点に計算しています
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !data ? (
+            <div className="space-y-2">
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-3/4" />
+            </div>
+          ) : data.accounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">対象年度のGLデータはありません</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="whitespace-nowrap">勘定科目</TableHead>
+                    {data.periods.map((period) => (
+                      <TableHead key={period} className="text-right whitespace-nowrap">
+                        {formatMonth(period)}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-right whitespace-nowrap">借方合計</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">貸方合計</TableHead>
+                    <TableHead className="text-right whitespace-nowrap">期末残高</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.accounts.map((account) => (
+                    <TableRow
+                      key={account.accountCode}
+                      className="cursor-pointer hover-elevate"
+                      onClick={() =>
+                        setLocation(
+                          `/gl-ledger/${encodeURIComponent(account.accountCode)}?fiscalYear=${fiscalYear}`
+                        )
+                      }
+                      data-testid={`row-trial-balance-${account.accountCode}`}
+                    >
+                      <TableCell className="whitespace-nowrap">
+                        <span className="font-mono text-muted-foreground mr-2">
+                          {account.accountCode}
+                        </span>
+                        {account.accountName}
+                      </TableCell>
+                      {account.months.map((month) => (
+                        <TableCell
+                          key={month.period}
+                          className="text-right font-mono whitespace-nowrap"
+                        >
+                          {monthValue(month) !== 0 ? monthValue(month).toLocaleString() : "-"}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-mono whitespace-nowrap">
+                        {formatAmount(account.debitTotal)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono whitespace-nowrap">
+                        {formatAmount(account.creditTotal)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono whitespace-nowrap">
+                        {formatAmount(account.closingBalance)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>合計</TableCell>
+                    {data.totals.map((month) => (
+                      <TableCell
+                        key={month.period}
+                        className="text-right font-mono whitespace-nowrap"
+                      >
+                        {monthValue(month) !== 0 ? monthValue(month).toLocaleString() : "-"}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-mono whitespace-nowrap">
+                      {formatAmount(data.debitTotal)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono whitespace-nowrap">
+                      {formatAmount(data.creditTotal)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono whitespace-nowrap">
+                      {formatAmount(data.totals[data.totals.length - 1].cumulativeBalance)}
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/**
+ * 勘定科目元帳（月次推移と明細ごとの累計残高）
+ */
+function AccountLedger({ accountCode, fiscalYear }: { accountCode: string; fiscalYear: number }) {
+  const [, setLocation] = useLocation();
+  const [month, setMonth] = useState<number | undefined>(undefined);
+  const [selectedVoucherNo, setSelectedVoucherNo] = useState<string | null>(null);
+  const { data, isLoading, error } = useGLLedger(accountCode, { fiscalYear, month });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mb-2"
+            onClick={() => setLocation(`/gl-ledger?fiscalYear=${fiscalYear}`)}
+            data-testid="button-back-trial-balance"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            試算表に戻る
+          </Button>
+          <h1 className="text-3xl font-bold flex items-center gap-2" data-testid="text-page-title">
+            <BookOpen className="h-7 w-7" />
+            勘定科目元帳
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            <span className="font-mono mr-2">{accountCode}</span>
+            {data?.accountName}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={month?.toString() ?? "all"}
+            onValueChange={(value) => setMonth(value === "all" ? undefined : Number(value))}
+          >
+            <SelectTrigger className="w-28" data-testid="select-ledger-month">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">全月</SelectItem>
+              {[4, 5, 6, 7, 8, 9, 10, 11, 12, 1, 2, 3].map((m) => (
+                <SelectItem key={m} value={m.toString()}>
+                  {m}月
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FiscalYearSelect
+            fiscalYear={fiscalYear}
+            onChange={(year) =>
+              setLocation(`/gl-ledger/${encodeURIComponent(accountCode)}?fiscalYear=${year}`)
+            }
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <Card>
+          <CardContent className="py-6 text-sm text-muted-foreground">
+            {error.message || "勘定科目元帳の取得中にエラーが発生しました"}
+          </CardContent>
+        </Card>
+      ) : isLoading || !data ? (
+        <Skeleton className="h-48 w-full" />
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{fiscalYear}年度 月次推移</CardTitle>
+              <CardDescription>月を選択すると、その月の明細を表示します</CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    {data.months.map((m) => (
+                      <TableHead key={m.period} className="text-right whitespace-nowrap">
+                        <Button
+                          variant={month === Number(m.period.split("-")[1]) ? "secondary" : "ghost"}
+                          size="sm"
+                          onClick={() => setMonth(Number(m.period.split("-")[1]))}
+                          data-testid={`button-ledger-month-${m.period}`}
+                        >
+                          {formatMonth(m.period)}
+                        </Button>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(
+                    [
+                      ["借方", "debitTotal"],
+                      ["貸方", "creditTotal"],
+                      ["増減", "netMovement"],
+                      ["累計残高", "cumulativeBalance"],
+                    ] as const
+                  ).map(([label, key]) => (
+                    <TableRow key={key}>
+                      <TableCell className="whitespace-nowrap">{label}</TableCell>
+                      {data.months.map((m) => (
+                        <TableCell
+                          key={m.period}
+                          className="text-right font-mono whitespace-nowrap"
+                        >
+                          {m[key] !== 0 ? m[key].toLocaleString() : "-"}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">
+                明細（{month ? `${month}月` : "全月"}・{data.lines.length}件）
+              </CardTitle>
+              <CardDescription>伝票番号を選択すると伝票の全明細を表示します</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>取引日</TableHead>
+                    <TableHead>伝票番号</TableHead>
+                    <TableHead>摘要</TableHead>
+                    <TableHead className="text-right">借方</TableHead>
+                    <TableHead className="text-right">貸方</TableHead>
+                    <TableHead className="text-right">残高</TableHead>
+                    <TableHead>突合状態</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {month && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-muted-foreground">
+                        前月繰越
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatAmount(data.openingBalance)}
+                      </TableCell>
+                      <TableCell />
+                    </TableRow>
+                  )}
+                  {data.lines.map((line) => (
+                    <TableRow key={line.id} data-testid={`row-ledger-${line.id}`}>
+                      <TableCell className="whitespace-nowrap">{line.transactionDate}</TableCell>
+                      <TableCell>
+                        <button
+                          type="button"
+                          className="font-mono text-primary underline-offset-4 hover:underline"
+                          onClick={() => setSelectedVoucherNo(line.voucherNo)}
+                          data-testid={`button-voucher-${line.voucherNo}`}
+                        >
+                          {line.voucherNo}
+                        </button>
+                      </TableCell>
+                      <TableCell className="max-w-md truncate">{line.description}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {line.debitAmount !== 0 ? formatAmount(line.debitAmount) : ""}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {line.creditAmount !== 0 ? formatAmount(line.creditAmount) : ""}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatAmount(line.balance)}
+                      </TableCell>
+                      <TableCell>
+                        <ReconciliationStatusBadge
+                          status={line.reconciliationStatus as "matched" | "fuzzy" | "unmatched"}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>合計</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatAmount(data.debitTotal)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatAmount(data.creditTotal)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatAmount(data.closingBalance)}
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <VoucherDialog voucherNo={selectedVoucherNo} onClose={() => setSelectedVoucherNo(null)} />
+    </div>
+  );
+}
+
+/**
+ * 伝票の明細ダイアログ
+ */
+function VoucherDialog({ voucherNo, onClose }: { voucherNo: string | null; onClose: () => void }) {
+  const { data: entries = [], isLoading } = useGLVoucherEntries(voucherNo);
+
+  const debitTotal = entries
+    .filter((entry) => entry.debitCredit === "debit")
+    .reduce((sum, entry) => sum + Number(entry.amount), 0);
+  const creditTotal = entries
+    .filter((entry) => entry.debitCredit === "credit")
+    .reduce((sum, entry) => sum + Number(entry.amount), 0);
+
+  return (
+    <Dialog open={!!voucherNo} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>伝票 {voucherNo}</DialogTitle>
+          <DialogDescription>取込済みのGLデータに含まれる伝票の全明細です</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>取引日</TableHead>
+                  <TableHead>勘定科目</TableHead>
+                  <TableHead>摘要</TableHead>
+                  <TableHead className="text-right">借方</TableHead>
+                  <TableHead className="text-right">貸方</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{entry.transactionDate}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <span className="font-mono text-muted-foreground mr-2">
+                        {entry.accountCode}
+                      </span>
+                      {entry.accountName}
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate">{entry.description}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {entry.debitCredit === "debit" ? formatAmount(Number(entry.amount)) : ""}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {entry.debitCredit === "credit" ? formatAmount(Number(entry.amount)) : ""}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={3}>合計</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(debitTotal)}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatAmount(creditTotal)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
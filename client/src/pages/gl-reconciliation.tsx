@@ -1,7 +1,11 @@
-import { AlertCircle, AlertTriangle, Ban, CheckCircle2 } from "lucide-react";
-import { useState } from "react";
+import type { ReconciliationProposal } from "@shared/schema";
+import { AlertCircle, AlertTriangle, Ban, Check, CheckCircle2, Eye, X } from "lucide-react";
+import { useMemo, useState } from "react";
 
 import { AccountSummaryCards } from "@/components/account-summary-cards";
+import { PeriodLockBadge } from "@/components/period-lock-badge";
+import { ReconciliationHistoryCard } from "@/components/reconciliation-history-card";
+import { ReconciliationPreviewDialog } from "@/components/reconciliation-preview-dialog";
 import { ReconciliationStatusBadge } from "@/components/reconciliation-status-badge";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -25,12 +29,29 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useGLEntries } from "@/hooks/useGLEntries";
 import { useOrderForecasts } from "@/hooks/useOrderForecasts";
-import { useAccountSummary, useReconciliation } from "@/hooks/useReconciliation";
+import {
+  type ReconciliationWindow,
+  useAccountSummary,
+  useApproveReconciliation,
+  useConfirmFuzzyMatch,
+  usePreviewReconciliation,
+  useReconciliation,
+  useUnmatchReconciliation,
+} from "@/hooks/useReconciliation";
 import { useToast } from "@/hooks/useToast";
 
+/** 突合ウィンドウの選択肢（月度をまたいで突合する前後の月数） */
+const WINDOW_OPTIONS: Record<string, { label: string; window: ReconciliationWindow }> = {
+  none: { label: "同月のみ", window: { lookBehindMonths: 0, lookAheadMonths: 0 } },
+  next: { label: "翌月まで", window: { lookBehindMonths: 0, lookAheadMonths: 1 } },
+  around1: { label: "前後1ヶ月", window: { lookBehindMonths: 1, lookAheadMonths: 1 } },
+  around2: { label: "前後2ヶ月", window: { lookBehindMonths: 2, lookAheadMonths: 2 } },
+};
+
 export default function GLReconciliationPage() {
   const [fiscalYear, setFiscalYear] = useState<number>(() => new Date().getFullYear());
   const [month, setMonth] = useState<number | undefined>(() => new Date().getMonth() + 1);
+  const [windowKey, setWindowKey] = useState<string>("next");
   const { toast } = useToast();
 
   // Fetch data
@@ -51,6 +72,15 @@ export default function GLReconciliationPage() {
     month,
   });
   const reconcileMutation = useReconciliation();
+  const confirmFuzzyMutation = useConfirmFuzzyMatch();
+  const unmatchMutation = useUnmatchReconciliation();
+  const previewMutation = usePreviewReconciliation();
+  const approveMutation = useApproveReconciliation();
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const previewProposals = useMemo(
+    () => previewMutation.data?.proposals ?? [],
+    [previewMutation.data]
+  );
 
   // 科目別サマリー
   const period = month ? `${fiscalYear}-${String(month).padStart(2, "0")}` : undefined;
@@ -70,7 +100,70 @@ export default function GLReconciliationPage() {
       ? Math.round((matched.length / (orderForecasts.length - excluded.length)) * 100)
       : 0;
 
-  const handleReconcile = () => {
+  const glById = new Map(glEntries.map((gl) => [gl.id, gl]));
+  const reconciliationWindow = WINDOW_OPTIONS[windowKey].window;
+
+  const handlePreview = () => {
+    if (!period) {
+      toast({
+        variant: "destructive",
+        title: "月が選択されていません",
+        description: "突合プレビューを表示するには月を選択してください",
+      });
+      return;
+    }
+
+    setPreviewOpen(true);
+    previewMutation.mutate(
+      { period, type: "fuzzy", ...reconciliationWindow },
+      {
+        onError: () => {
+          setPreviewOpen(false);
+          toast({
+            variant: "destructive",
+            title: "プレビューエラー",
+            description: "突合プレビューの作成中にエラーが発生しました",
+          });
+        },
+      }
+    );
+  };
+
+  const handleApprovePreview = (proposals: ReconciliationProposal[]) => {
+    if (!period) return;
+
+    approveMutation.mutate(
+      {
+        period,
+        proposals: proposals.map((proposal) => ({
+          orderIds: proposal.orders.map((order) => order.id),
+          glIds: proposal.glEntries.map((gl) => gl.id),
+        })),
+        ...reconciliationWindow,
+      },
+      {
+        onSuccess: (data) => {
+          toast({
+            title: "突合完了",
+            description: `${data.approvedCount}件の突合候補を承認しました`,
+          });
+          setPreviewOpen(false);
+          previewMutation.reset();
+          void refetchOrders();
+          void refetchGL();
+        },
+        onError: (error) => {
+          toast({
+            variant: "destructive",
+            title: "突合エラー",
+            description: error.message || "突合候補の承認処理でエラーが発生しました",
+          });
+        },
+      }
+    );
+  };
+
+  const handleReconcile = (type: "exact" | "fuzzy") => {
     if (!month) {
       toast({
         variant: "destructive",
@@ -84,17 +177,27 @@ export default function GLReconciliationPage() {
     reconcileMutation.mutate(
       {
         period,
-        type: "exact",
+        type,
+        ...reconciliationWindow,
       },
       {
         onSuccess: (data) => {
           const { results } = data;
           const matchedCount = results.matched.length;
+          // 標準ルール以外の突合ルールで突合した件数
+          const ruleMatchedCount = results.matched.filter((match) => match.rule.id !== null).length;
+          // 月度をまたいで突合した件数
+          const crossPeriodCount = results.matched.filter((match) => match.crossPeriod).length;
+          const fuzzyMatchedCount = results.fuzzyMatched.length;
+          const splitMatchedCount = results.splitMatched.length;
           const alreadyMatchedOrders = results.alreadyMatchedOrders;
           const alreadyMatchedGl = results.alreadyMatchedGl;
           toast({
-            title: "厳格突合完了",
-            description: `新規突合: ${matchedCount}件、既存突合済み: 受発注${alreadyMatchedOrders}件/GL${alreadyMatchedGl}件`,
+            title: type === "fuzzy" ? "曖昧突合完了" : "厳格突合完了",
+            description:
+              type === "fuzzy"
+                ? `新規突合: ${matchedCount}件（うちルール適用${ruleMatchedCount}件、月度またぎ${crossPeriodCount}件）、分割突合: ${splitMatchedCount}件、曖昧一致（要確認）: ${fuzzyMatchedCount}件、既存突合済み: 受発注${alreadyMatchedOrders}件/GL${alreadyMatchedGl}件`
+                : `新規突合: ${matchedCount}件（うちルール適用${ruleMatchedCount}件、月度またぎ${crossPeriodCount}件）、分割突合: ${splitMatchedCount}件、既存突合済み: 受発注${alreadyMatchedOrders}件/GL${alreadyMatchedGl}件`,
           });
           void refetchOrders();
           void refetchGL();
@@ -110,6 +213,48 @@ export default function GLReconciliationPage() {
     );
   };
 
+  const handleConfirmFuzzy = (orderId: string, glId: string) => {
+    confirmFuzzyMutation.mutate(
+      { glId, orderId },
+      {
+        onSuccess: () => {
+          toast({
+            title: "曖昧一致確定",
+            description: "突合済として確定しました",
+          });
+        },
+        onError: (error) => {
+          toast({
+            variant: "destructive",
+            title: "確定エラー",
+            description: error.message || "曖昧一致の確定に失敗しました",
+          });
+        },
+      }
+    );
+  };
+
+  const handleRejectFuzzy = (orderId: string, glId: string) => {
+    unmatchMutation.mutate(
+      { glId, orderId },
+      {
+        onSuccess: () => {
+          toast({
+            title: "曖昧一致却下",
+            description: "未突合に戻しました",
+          });
+        },
+        onError: (error) => {
+          toast({
+            variant: "destructive",
+            title: "却下エラー",
+            description: error.message || "曖昧一致の却下に失敗しました",
+          });
+        },
+      }
+    );
+  };
+
   // Generate year and month options
   const currentYear = new Date().getFullYear();
   const yearOptions = Array.from({ length: 5 }, (_, i) => currentYear - 2 + i);
@@ -135,7 +280,10 @@ export default function GLReconciliationPage() {
           {/* Filter Panel */}
           <Card>
             <CardHeader>
-              <CardTitle className="text-base">期間選択</CardTitle>
+              <CardTitle className="text-base flex items-center gap-2">
+                期間選択
+                <PeriodLockBadge period={period} />
+              </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="flex gap-4 items-end">
@@ -179,6 +327,22 @@ export default function GLReconciliationPage() {
                     </SelectContent>
                   </Select>
                 </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">突合ウィンドウ</label>
+                  <Select value={windowKey} onValueChange={setWindowKey}>
+                    <SelectTrigger className="w-[140px]" data-testid="select-reconciliation-window">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(WINDOW_OPTIONS).map(([key, option]) => (
+                        <SelectItem key={key} value={key}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -192,7 +356,7 @@ export default function GLReconciliationPage() {
             <CardContent className="space-y-3">
               <div className="flex gap-3">
                 <Button
-                  onClick={handleReconcile}
+                  onClick={() => handleReconcile("exact")}
                   disabled={reconcileMutation.isPending || !month}
                   data-testid="button-exact-match"
                 >
@@ -202,12 +366,33 @@ export default function GLReconciliationPage() {
                     （月度 + 計上科目 + 摘要文 + 金額）
                   </span>
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleReconcile("fuzzy")}
+                  disabled={reconcileMutation.isPending || !month}
+                  data-testid="button-fuzzy-match"
+                >
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  曖昧突合実行
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handlePreview}
+                  disabled={previewMutation.isPending || !month}
+                  data-testid="button-preview-match"
+                >
+                  <Eye className="h-4 w-4 mr-2" />
+                  プレビュー
+                </Button>
               </div>
 
               {/* 既に突合済みのデータ情報 */}
               <div className="text-sm text-muted-foreground">
                 <p>※ 既に突合済みのデータは再突合されません</p>
                 <p>※ 突合の重複や上書きを防ぐため、安全に実行されます</p>
+                <p>※ 曖昧一致は「曖昧一致」タブで確定するまで突合済になりません</p>
+                <p>※ プレビューでは候補と根拠を確認し、選択した候補のみ突合できます</p>
+                <p>※ 突合ウィンドウの範囲で、前後月に計上されたGLとも月度をまたいで突合します</p>
               </div>
             </CardContent>
           </Card>
@@ -298,6 +483,9 @@ export default function GLReconciliationPage() {
         {/* 科目別サマリー */}
         <AccountSummaryCards summary={accountSummary} isLoading={summaryLoading} />
 
+        {/* Reconciliation History */}
+        <ReconciliationHistoryCard period={period} />
+
         {/* Results Tabs */}
         <Tabs defaultValue="all" className="w-full">
           <TabsList>
@@ -363,6 +551,7 @@ export default function GLReconciliationPage() {
                                     | "unmatched"
                                     | "excluded"
                                 }
+                                crossPeriod={order.isCrossPeriod === "true"}
                               />
                             </TableCell>
                             <TableCell className="font-medium">{order.projectName}</TableCell>
@@ -464,26 +653,68 @@ export default function GLReconciliationPage() {
                           <TableHead>計上科目</TableHead>
                           <TableHead>摘要文</TableHead>
                           <TableHead className="text-right">金額</TableHead>
+                          <TableHead>GL勘定科目</TableHead>
+                          <TableHead>GL摘要</TableHead>
+                          <TableHead className="text-right">GL金額</TableHead>
+                          <TableHead>操作</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {fuzzy.map((order) => (
-                          <TableRow
-                            key={order.id}
-                            className="bg-warning/5"
-                            data-testid={`fuzzy-row-${order.id}`}
-                          >
-                            <TableCell className="font-medium">{order.projectName}</TableCell>
-                            <TableCell>{order.salesPerson || "-"}</TableCell>
-                            <TableCell>{order.customerName}</TableCell>
-                            <TableCell>{order.accountingPeriod}</TableCell>
-                            <TableCell>{order.accountingItem}</TableCell>
-                            <TableCell>{order.description}</TableCell>
-                            <TableCell className="text-right font-mono">
-                              {formatCurrency(order.amount)}
-                            </TableCell>
-                          </TableRow>
-                        ))}
+                        {fuzzy.map((order) => {
+                          const gl = order.glMatchId ? glById.get(order.glMatchId) : undefined;
+                          return (
+                            <TableRow
+                              key={order.id}
+                              className="bg-warning/5"
+                              data-testid={`fuzzy-row-${order.id}`}
+                            >
+                              <TableCell className="font-medium">{order.projectName}</TableCell>
+                              <TableCell>{order.salesPerson || "-"}</TableCell>
+                              <TableCell>{order.customerName}</TableCell>
+                              <TableCell>{order.accountingPeriod}</TableCell>
+                              <TableCell>{order.accountingItem}</TableCell>
+                              <TableCell>{order.description}</TableCell>
+                              <TableCell className="text-right font-mono">
+                                {formatCurrency(order.amount)}
+                              </TableCell>
+                              <TableCell>{gl?.accountName || "-"}</TableCell>
+                              <TableCell>{gl?.description || "-"}</TableCell>
+                              <TableCell className="text-right font-mono">
+                                {gl ? formatCurrency(gl.amount) : "-"}
+                              </TableCell>
+                              <TableCell>
+                                {order.glMatchId && (
+                                  <div className="flex gap-1">
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleConfirmFuzzy(order.id, order.glMatchId!)}
+                                      disabled={
+                                        confirmFuzzyMutation.isPending || unmatchMutation.isPending
+                                      }
+                                      data-testid={`button-confirm-fuzzy-${order.id}`}
+                                    >
+                                      <Check className="h-3 w-3 mr-1" />
+                                      確定
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      onClick={() => handleRejectFuzzy(order.id, order.glMatchId!)}
+                                      disabled={
+                                        confirmFuzzyMutation.isPending || unmatchMutation.isPending
+                                      }
+                                      data-testid={`button-reject-fuzzy-${order.id}`}
+                                    >
+                                      <X className="h-3 w-3 mr-1" />
+                                      却下
+                                    </Button>
+                                  </div>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
                       </TableBody>
                     </Table>
                   </div>
@@ -662,6 +893,16 @@ export default function GLReconciliationPage() {
             </Card>
           </TabsContent>
         </Tabs>
+
+        <ReconciliationPreviewDialog
+          open={previewOpen}
+          onOpenChange={setPreviewOpen}
+          period={period}
+          proposals={previewProposals}
+          isLoading={previewMutation.isPending}
+          isApproving={approveMutation.isPending}
+          onApprove={handleApprovePreview}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,729 @@
+import type { ImportBatch, ImportBatchRow, ImportRowValues } from "@shared/schema";
+import {
+  ArrowLeft,
+  Ban,
+  CheckCircle2,
+  Layers,
+  Pencil,
+  RotateCcw,
+  Trash2,
+  Undo2,
+} from "lucide-react";
+import { useState } from "react";
+import { useLocation, useParams } from "wouter";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useCommitImportBatch,
+  useDiscardImportBatch,
+  useImportBatch,
+  useImportBatches,
+  useRevertImportBatch,
+  useUpdateImportBatchRow,
+} from "@/hooks/useImportBatches";
+import { useAccountingItems, useProjects } from "@/hooks/useMasters";
+import { useToast } from "@/hooks/useToast";
+
+const IMPORT_TYPE_LABELS: Record<string, string> = {
+  "gl-entries": "GLデータ",
+  "order-forecasts": "受注見込み案件",
+  "angle-b-forecasts": "角度B案件",
+};
+
+const BATCH_STATUS_LABELS: Record<string, string> = {
+  staged: "確認中",
+  committed: "反映済み",
+  discarded: "破棄",
+  reverted: "取消済み",
+};
+
+// 取込の種類ごとの明細の項目
+const GL_FIELDS = [
+  { key: "voucherNo", label: "伝票番号" },
+  { key: "transactionDate", label: "取引日" },
+  { key: "accountCode", label: "勘定科目コード" },
+  { key: "accountName", label: "勘定科目名" },
+  { key: "debitCredit", label: "貸借" },
+  { key: "amount", label: "金額" },
+  { key: "description", label: "摘要" },
+];
+
+const FORECAST_FIELDS = [
+  { key: "projectCode", label: "プロジェクトコード" },
+  { key: "accountingItem", label: "計上科目" },
+  { key: "accountingPeriod", label: "計上年月" },
+  { key: "description", label: "摘要" },
+  { key: "amount", label: "金額" },
+];
+
+const getFields = (importType: string) => {
+  return importType === "gl-entries" ? GL_FIELDS : FORECAST_FIELDS;
+};
+
+const formatDateTime = (value: string | Date | null | undefined) => {
+  return value ? new Date(value).toLocaleString("ja-JP") : "-";
+};
+
+const formatValue = (key: string, value: string | undefined) => {
+  if (key === "debitCredit") {
+    return value === "debit" ? "借方" : value === "credit" ? "貸方" : value || "-";
+  }
+  return value || "-";
+};
+
+function BatchStatusBadge({ status }: { status: string }) {
+  const variant =
+    status === "committed" ? "default" : status === "staged" ? "outline" : "secondary";
+  return <Badge variant={variant}>{BATCH_STATUS_LABELS[status] ?? status}</Badge>;
+}
+
+function RowStatusBadge({ status }: { status: string }) {
+  if (status === "error") {
+    return <Badge variant="destructive">エラー</Badge>;
+  }
+  if (status === "excluded") {
+    return <Badge variant="secondary">対象外</Badge>;
+  }
+  return <Badge variant="outline">取込可能</Badge>;
+}
+
+export default function ImportBatchesPage() {
+  const { id } = useParams<{ id?: string }>();
+  return id ? <ImportBatchDetail id={id} /> : <ImportBatchList />;
+}
+
+/**
+ * 取込バッチ一覧
+ */
+function ImportBatchList() {
+  const [, setLocation] = useLocation();
+  const { data: batches = [], isLoading } = useImportBatches();
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2" data-testid="text-page-title">
+          <Layers className="h-7 w-7" />
+          取込バッチ
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          GLデータ・受注見込み案件・角度B案件の取込内容を確認・修正してから反映します。反映済みのバッチは取り消せます
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">取込バッチ一覧</CardTitle>
+          <CardDescription>新しい順に最大100件を表示します</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-3/4" />
+            </div>
+          ) : batches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">取込バッチはありません</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>取込日時</TableHead>
+                  <TableHead>取込対象</TableHead>
+                  <TableHead>ファイル</TableHead>
+                  <TableHead>状態</TableHead>
+                  <TableHead className="text-right">取込可能</TableHead>
+                  <TableHead className="text-right">エラー</TableHead>
+                  <TableHead className="text-right">対象外</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch.id} data-testid={`row-import-batch-${batch.id}`}>
+                    <TableCell>{formatDateTime(batch.createdAt)}</TableCell>
+                    <TableCell>
+                      {IMPORT_TYPE_LABELS[batch.importType] ?? batch.importType}
+                    </TableCell>
+                    <TableCell>
+                      {batch.fileName}
+                      {batch.sheetName && (
+                        <span className="text-muted-foreground">（{batch.sheetName}）</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <BatchStatusBadge status={batch.status} />
+                    </TableCell>
+                    <TableCell className="text-right">{batch.validRows}</TableCell>
+                    <TableCell className="text-right">{batch.errorRows}</TableCell>
+                    <TableCell className="text-right">{batch.excludedRows}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setLocation(`/import-batches/${batch.id}`)}
+                        data-testid={`button-open-batch-${batch.id}`}
+                      >
+                        {batch.status === "staged" ? "確認" : "詳細"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/**
+ * 取込バッチ詳細（明細の確認・修正と反映・破棄・取消）
+ */
+function ImportBatchDetail({ id }: { id: string }) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [editingRow, setEditingRow] = useState<ImportBatchRow | null>(null);
+  const [confirmAction, setConfirmAction] = useState<"commit" | "discard" | "revert" | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
+
+  const { data, isLoading } = useImportBatch(id);
+  const updateRow = useUpdateImportBatchRow();
+  const commitBatch = useCommitImportBatch();
+  const discardBatch = useDiscardImportBatch();
+  const revertBatch = useRevertImportBatch();
+
+  if (isLoading || !data) {
+    return (
+      <div className="p-6 space-y-2">
+        <Skeleton className="h-8 w-1/3" />
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-4 w-full" />
+      </div>
+    );
+  }
+
+  const { batch, rows } = data;
+  const fields = getFields(batch.importType);
+  const isStaged = batch.status === "staged";
+  const visibleRows = errorsOnly ? rows.filter((row) => row.status === "error") : rows;
+
+  const handleToggleExcluded = (row: ImportBatchRow) => {
+    updateRow.mutate(
+      { batchId: batch.id, rowId: row.id, excluded: row.status !== "excluded" },
+      {
+        onError: (error: Error) => {
+          toast({
+            title: "エラー",
+            description: error.message || "明細の更新に失敗しました",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleSaveRow = (values: ImportRowValues) => {
+    if (!editingRow) {
+      return;
+    }
+    updateRow.mutate(
+      { batchId: batch.id, rowId: editingRow.id, values },
+      {
+        onSuccess: (row) => {
+          toast({
+            title: row.status === "error" ? "エラーが残っています" : "成功",
+            description:
+              row.status === "error" ? (row.errorMessage ?? "") : `${row.rowNo}行目を修正しました`,
+            variant: row.status === "error" ? "destructive" : undefined,
+          });
+          if (row.status !== "error") {
+            setEditingRow(null);
+          }
+        },
+        onError: (error: Error) => {
+          toast({
+            title: "エラー",
+            description: error.message || "明細の更新に失敗しました",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleConfirm = () => {
+    const reason = overrideReason.trim() || undefined;
+    const callbacks = {
+      onSuccess: (updated: ImportBatch) => {
+        toast({
+          title: "成功",
+          description:
+            confirmAction === "commit"
+              ? updated.result?.unbalancedVouchers
+                ? `取込バッチを反映しました（${updated.result.importedRows ?? 0}件）。貸借が一致しない伝票が${updated.result.unbalancedVouchers}件あります`
+                : `取込バッチを反映しました（${updated.result?.importedRows ?? 0}件）`
+              : confirmAction === "revert"
+                ? `取込バッチを取り消しました（削除: ${updated.result?.revertedRows ?? 0}件）`
+                : "取込バッチを破棄しました",
+        });
+        setConfirmAction(null);
+        setOverrideReason("");
+      },
+      onError: (error: Error) => {
+        toast({
+          title: "エラー",
+          description: error.message || "取込バッチの操作に失敗しました",
+          variant: "destructive",
+        });
+        setConfirmAction(null);
+      },
+    };
+
+    if (confirmAction === "commit") {
+      commitBatch.mutate({ id: batch.id, overrideReason: reason }, callbacks);
+    } else if (confirmAction === "revert") {
+      revertBatch.mutate({ id: batch.id, overrideReason: reason }, callbacks);
+    } else if (confirmAction === "discard") {
+      discardBatch.mutate(batch.id, callbacks);
+    }
+  };
+
+  const isMutating = commitBatch.isPending || discardBatch.isPending || revertBatch.isPending;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mb-2 -ml-2"
+            onClick={() => setLocation("/import-batches")}
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            取込バッチ一覧
+          </Button>
+          <h1 className="text-3xl font-bold flex items-center gap-3" data-testid="text-page-title">
+            {IMPORT_TYPE_LABELS[batch.importType] ?? batch.importType}の取込
+            <BatchStatusBadge status={batch.status} />
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {batch.fileName}
+            {batch.sheetName && `（シート: ${batch.sheetName}）`}
+            {batch.fiscalYear && ` / ${batch.fiscalYear}年度`} / 取込日時:{" "}
+            {formatDateTime(batch.createdAt)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {isStaged && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => setConfirmAction("discard")}
+                disabled={isMutating}
+                data-testid="button-discard-batch"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                破棄
+              </Button>
+              <Button
+                onClick={() => setConfirmAction("commit")}
+                disabled={isMutating || batch.errorRows > 0 || batch.validRows === 0}
+                data-testid="button-commit-batch"
+              >
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                反映
+              </Button>
+            </>
+          )}
+          {batch.status === "committed" && (
+            <Button
+              variant="outline"
+              onClick={() => setConfirmAction("revert")}
+              disabled={isMutating}
+              data-testid="button-revert-batch"
+            >
+              <Undo2 className="h-4 w-4 mr-2" />
+              取消
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-muted p-4 rounded-md">
+          <div className="text-sm text-muted-foreground">総行数</div>
+          <div className="text-2xl font-bold mt-1">{batch.totalRows}</div>
+        </div>
+        <div className="bg-muted p-4 rounded-md">
+          <div className="text-sm text-muted-foreground">取込可能</div>
+          <div className="text-2xl font-bold text-success mt-1">{batch.validRows}</div>
+        </div>
+        <div className="bg-muted p-4 rounded-md">
+          <div className="text-sm text-muted-foreground">エラー</div>
+          <div className="text-2xl font-bold text-destructive mt-1">{batch.errorRows}</div>
+        </div>
+        <div className="bg-muted p-4 rounded-md">
+          <div className="text-sm text-muted-foreground">対象外</div>
+          <div className="text-2xl font-bold text-warning mt-1">{batch.excludedRows}</div>
+        </div>
+      </div>
+
+      {batch.result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">反映結果</CardTitle>
+            <CardDescription>
+              反映日時: {formatDateTime(batch.committedAt)}
+              {batch.revertedAt && ` / 取消日時: ${formatDateTime(batch.revertedAt)}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            <Badge variant="outline">反映: {batch.result.importedRows ?? 0}件</Badge>
+            {batch.result.insertedRows !== undefined && (
+              <Badge variant="outline">追加: {batch.result.insertedRows}件</Badge>
+            )}
+            {batch.result.updatedRows !== undefined && (
+              <Badge variant="outline">更新: {batch.result.updatedRows}件</Badge>
+            )}
+            {batch.result.unchangedRows !== undefined && (
+              <Badge variant="outline">変更なし: {batch.result.unchangedRows}件</Badge>
+            )}
+            {batch.result.removedRows !== undefined && (
+              <Badge variant="outline">削除: {batch.result.removedRows}件</Badge>
+            )}
+            {!!batch.result.unmatchedCount && (
+              <Badge variant="outline">突合解除: {batch.result.unmatchedCount}件</Badge>
+            )}
+            {!!batch.result.unbalancedVouchers && (
+              <Badge variant="destructive">
+                貸借不一致の伝票: {batch.result.unbalancedVouchers}件
+              </Badge>
+            )}
+            {!!batch.result.truncatedVouchers && (
+              <Badge variant="secondary">
+                一部のみ取込の伝票: {batch.result.truncatedVouchers}件
+              </Badge>
+            )}
+            {!!batch.result.openAnomalies && (
+              <Badge variant="destructive">未対応の異常: {batch.result.openAnomalies}件</Badge>
+            )}
+            {batch.result.revertedRows !== undefined && (
+              <Badge variant="secondary">取消で削除: {batch.result.revertedRows}件</Badge>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-base">明細</CardTitle>
+            <CardDescription>
+              {isStaged
+                ? "エラーの行は修正するか取込対象外にしてください。すべての行が取込可能または対象外になると反映できます"
+                : "取込時の明細です"}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="errors-only"
+              checked={errorsOnly}
+              onCheckedChange={(checked) => setErrorsOnly(checked === true)}
+            />
+            <Label htmlFor="errors-only">エラーのみ表示</Label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border max-h-[600px] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">行</TableHead>
+                  <TableHead className="w-24">状態</TableHead>
+                  {fields.map((field) => (
+                    <TableHead key={field.key}>{field.label}</TableHead>
+                  ))}
+                  <TableHead>エラー</TableHead>
+                  {isStaged && <TableHead className="w-28" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map((row) => (
+                  <TableRow key={row.id} data-testid={`row-batch-row-${row.rowNo}`}>
+                    <TableCell className="font-mono">{row.rowNo}</TableCell>
+                    <TableCell>
+                      <RowStatusBadge status={row.status} />
+                    </TableCell>
+                    {fields.map((field) => (
+                      <TableCell
+                        key={field.key}
+                        className={field.key === "amount" ? "text-right font-mono" : "text-sm"}
+                      >
+                        {formatValue(field.key, row.values[field.key])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-sm text-destructive">
+                      {row.status === "error" ? row.errorMessage : ""}
+                    </TableCell>
+                    {isStaged && (
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setEditingRow(row)}
+                          title="修正"
+                          data-testid={`button-edit-row-${row.rowNo}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleToggleExcluded(row)}
+                          disabled={updateRow.isPending}
+                          title={row.status === "excluded" ? "取込対象に戻す" : "取込対象外にする"}
+                          data-testid={`button-exclude-row-${row.rowNo}`}
+                        >
+                          {row.status === "excluded" ? (
+                            <RotateCcw className="h-4 w-4" />
+                          ) : (
+                            <Ban className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {editingRow && (
+        <ImportBatchRowDialog
+          batch={batch}
+          row={editingRow}
+          isSaving={updateRow.isPending}
+          onSave={handleSaveRow}
+          onClose={() => setEditingRow(null)}
+        />
+      )}
+
+      <AlertDialog
+        open={confirmAction !== null}
+        onOpenChange={(open) => !open && setConfirmAction(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirmAction === "commit"
+                ? "取込バッチの反映"
+                : confirmAction === "revert"
+                  ? "取込バッチの取消"
+                  : "取込バッチの破棄"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmAction === "commit" &&
+                `取込可能な${batch.validRows}件を${IMPORT_TYPE_LABELS[batch.importType]}に反映します。`}
+              {confirmAction === "revert" &&
+                "このバッチで追加したデータを削除します（GLの突合は解除されます）。GLの再取込で更新・削除した既存データは元に戻りません。"}
+              {confirmAction === "discard" &&
+                "このバッチの取込内容を破棄します。反映は行いません。"}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {confirmAction !== "discard" && (
+            <div className="space-y-2">
+              <Label htmlFor="batch-override-reason">
+                締め済み期間を含む場合の理由（管理者のみ・任意）
+              </Label>
+              <Textarea
+                id="batch-override-reason"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+                placeholder="締め済み期間のデータを変更する理由"
+              />
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm} disabled={isMutating}>
+              {isMutating ? "処理中..." : "実行"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+interface ImportBatchRowDialogProps {
+  batch: ImportBatch;
+  row: ImportBatchRow;
+  isSaving: boolean;
+  onSave: (values: ImportRowValues) => void;
+  onClose: () => void;
+}
+
+/**
+ * 取込バッチ明細の修正ダイアログ
+ * 受注見込み・角度B案件はプロジェクトコード・計上科目をマスタから選択できる
+ */
+function ImportBatchRowDialog({
+  batch,
+  row,
+  isSaving,
+  onSave,
+  onClose,
+}: ImportBatchRowDialogProps) {
+  const [values, setValues] = useState<ImportRowValues>(row.values);
+  const isGL = batch.importType === "gl-entries";
+  const { data: projects = [] } = useProjects(isGL ? undefined : (batch.fiscalYear ?? undefined));
+  const { data: accountingItems = [] } = useAccountingItems();
+
+  const update = (key: string, value: string) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  const renderField = (key: string) => {
+    if (!isGL && key === "projectCode") {
+      const hasProject = projects.some((project) => project.code === values.projectCode);
+      return (
+        <Select
+          value={hasProject ? values.projectCode : undefined}
+          onValueChange={(v) => update(key, v)}
+        >
+          <SelectTrigger data-testid="select-row-project">
+            <SelectValue placeholder={`${values.projectCode || "未指定"}（マスタから選択）`} />
+          </SelectTrigger>
+          <SelectContent>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={project.code}>
+                {project.code} {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (!isGL && key === "accountingItem") {
+      const hasItem = accountingItems.some((item) => item.name === values.accountingItem);
+      return (
+        <Select
+          value={hasItem ? values.accountingItem : undefined}
+          onValueChange={(v) => update(key, v)}
+        >
+          <SelectTrigger data-testid="select-row-accounting-item">
+            <SelectValue placeholder={`${values.accountingItem || "未指定"}（マスタから選択）`} />
+          </SelectTrigger>
+          <SelectContent>
+            {accountingItems.map((item) => (
+              <SelectItem key={item.id} value={item.name}>
+                {item.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (isGL && key === "debitCredit") {
+      return (
+        <Select value={values.debitCredit || undefined} onValueChange={(v) => update(key, v)}>
+          <SelectTrigger data-testid="select-row-debit-credit">
+            <SelectValue placeholder="貸借を選択" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="debit">借方</SelectItem>
+            <SelectItem value="credit">貸方</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        value={values[key] ?? ""}
+        onChange={(e) => update(key, e.target.value)}
+        data-testid={`input-row-${key}`}
+      />
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{row.rowNo}行目の修正</DialogTitle>
+          <DialogDescription>
+            {row.status === "error" && row.errorMessage
+              ? row.errorMessage
+              : "修正した値は保存時に再検証されます"}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          {getFields(batch.importType).map((field) => (
+            <div key={field.key} className="space-y-2">
+              <Label>{field.label}</Label>
+              {renderField(field.key)}
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            キャンセル
+          </Button>
+          <Button onClick={() => onSave(values)} disabled={isSaving} data-testid="button-save-row">
+            {isSaving ? "保存中..." : "保存"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
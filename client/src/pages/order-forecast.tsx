@@ -1,11 +1,24 @@
-import type { NewOrderForecast, OrderForecast } from "@shared/schema";
+import type {
+  NewOrderForecast,
+  OrderForecast,
+  OrderForecastBulkConflict,
+  OrderForecastBulkRowError,
+} from "@shared/schema";
 import { ArrowDownCircle, FileSpreadsheet } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 
 import { AdvancedFilterPanel, type FilterState } from "@/components/advanced-filter-panel";
-import { ExcelDataGrid, type GridColumn, type GridRowData } from "@/components/excel-data-grid";
+import {
+  ExcelDataGrid,
+  type GridColumn,
+  type GridConflict,
+  type GridRowData,
+} from "@/components/excel-data-grid";
+import { ForecastSplitDialog } from "@/components/forecast-split-dialog";
 import { GLReconciliationPanel } from "@/components/gl-reconciliation-panel";
 import { KeyboardShortcutsPanel } from "@/components/keyboard-shortcuts-panel";
+import { OrderForecastHistoryPanel } from "@/components/order-forecast-history-panel";
+import { PeriodLockBadge } from "@/components/period-lock-badge";
 import { ReconciliationStatusBadge } from "@/components/reconciliation-status-badge";
 import { type SearchFilter, SearchFilterPanel } from "@/components/search-filter-panel";
 import { ThemeToggle } from "@/components/theme-toggle";
@@ -14,16 +27,14 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useGLEntries } from "@/hooks/useGLEntries";
 import { useAccountingItems, useCustomers, useProjects } from "@/hooks/useMasters";
 import {
-  useCreateOrderForecast,
-  useDeleteOrderForecast,
+  useBulkSaveOrderForecasts,
   useDemoteOrderForecastToAngleB,
   useOrderForecasts,
-  useSetOrderForecastsExclusion,
-  useUpdateOrderForecast,
 } from "@/hooks/useOrderForecasts";
 import { useReconciliation } from "@/hooks/useReconciliation";
 import { useToast } from "@/hooks/useToast";
 import { sortAccountingItemsByOrder } from "@/lib/accountingItemOrder";
+import { getBulkOperationErrors } from "@/lib/queryClient";
 
 export default function OrderForecastPage() {
   // Initialize filter with current fiscal year and month
@@ -73,12 +84,9 @@ export default function OrderForecastPage() {
   const { data: accountingItems = [], isLoading: accountingItemsLoading } = useAccountingItems();
 
   // Mutations
-  const createMutation = useCreateOrderForecast();
-  const updateMutation = useUpdateOrderForecast();
-  const deleteMutation = useDeleteOrderForecast();
+  const bulkSaveMutation = useBulkSaveOrderForecasts();
   const demoteMutation = useDemoteOrderForecastToAngleB();
   const reconcileMutation = useReconciliation();
-  const setOrderExclusion = useSetOrderForecastsExclusion();
 
   // ヘルパー関数: フィルタから期間文字列を生成
   // monthが未定義の場合は現在の月を使用（新規作成時のデフォルト値）
@@ -94,7 +102,7 @@ export default function OrderForecastPage() {
   const handleFilterChange = (newFilter: FilterState) => {
     const hasPendingChanges =
       localRows.some((row) => row._modified || row.id.startsWith("temp-")) ||
-      deletedIdsRef.current.size > 0;
+      deletedRowsRef.current.size > 0;
     if (hasPendingChanges) {
       toast({
         title: "未保存の変更があります",
@@ -126,7 +134,7 @@ export default function OrderForecastPage() {
   const handleSearch = (newSearchFilter: SearchFilter) => {
     const hasPendingChanges =
       localRows.some((row) => row._modified || row.id.startsWith("temp-")) ||
-      deletedIdsRef.current.size > 0;
+      deletedRowsRef.current.size > 0;
     if (hasPendingChanges) {
       toast({
         title: "未保存の変更があります",
@@ -345,7 +353,7 @@ export default function OrderForecastPage() {
   ];
 
   // GridRow形式に変換
-  const _gridRows: GridRowData[] = orderForecasts.map((order) => ({
+  const toGridRow = (order: OrderForecast): GridRowData => ({
     id: order.id,
     isExcluded: order.isExcluded,
     projectId: order.projectId,
@@ -360,14 +368,17 @@ export default function OrderForecastPage() {
     amount: order.amount,
     remarks: order.remarks || "",
     reconciliationStatus: order.reconciliationStatus,
+    version: order.version, // 楽観ロック（保存時に送信）
     _modified: false,
     _readonly: order.reconciliationStatus === "matched",
-  }));
+  });
 
   const [localRows, setLocalRows] = useState<GridRowData[]>([]);
+  const [versionConflicts, setVersionConflicts] = useState<GridConflict[]>([]);
   const [selectedOrderIdForGL, setSelectedOrderIdForGL] = useState<string | null>(null);
   const lastSyncedDataRef = useRef<OrderForecast[]>([]);
-  const deletedIdsRef = useRef<Set<string>>(new Set());
+  // 削除した行のIDと削除時点のバージョン（保存時に楽観ロックで確認）
+  const deletedRowsRef = useRef<Map<string, number>>(new Map());
 
   // Sync local rows only when filter changes or on initial load
   useEffect(() => {
@@ -384,22 +395,7 @@ export default function OrderForecastPage() {
     // Only sync if data changed (prevents infinite loop from same-data re-renders)
     if (dataChanged) {
       const freshGridRows: GridRowData[] = orderForecasts.map((order) => ({
-        id: order.id,
-        isExcluded: order.isExcluded,
-        projectId: order.projectId,
-        projectCode: order.projectCode,
-        projectName: order.projectName,
-        customerId: order.customerId || undefined,
-        customerCode: order.customerCode || undefined,
-        customerName: order.customerName || undefined,
-        accountingPeriod: order.accountingPeriod,
-        accountingItem: order.accountingItem,
-        description: order.description,
-        amount: order.amount,
-        remarks: order.remarks || "",
-        reconciliationStatus: order.reconciliationStatus,
-        _modified: false,
-        _readonly: order.reconciliationStatus === "matched",
+        ...toGridRow(order),
         _selected: false,
       }));
       setLocalRows(freshGridRows);
@@ -413,29 +409,21 @@ export default function OrderForecastPage() {
     localRows.forEach((oldRow) => {
       if (!newRowIds.has(oldRow.id) && !oldRow.id.startsWith("temp-")) {
         // Real row was deleted (not a temp row)
-        deletedIdsRef.current.add(oldRow.id);
+        deletedRowsRef.current.set(oldRow.id, Number(oldRow.version));
       }
     });
 
     setLocalRows(rows);
   };
 
-  const handleSave = async () => {
+  const saveRows = async (rows: GridRowData[]) => {
     // 二重送信防止
     if (isSaving) return;
     setIsSaving(true);
 
     try {
       // Find modified rows
-      const modifiedRows = localRows.filter((row) => row._modified);
-
-      // 除外設定が変更された行を抽出
-      const excludedChanges = modifiedRows
-        .filter((row) => !row.id.startsWith("temp-"))
-        .filter((row) => {
-          const existing = orderForecasts.find((o) => o.id === row.id);
-          return existing && existing.isExcluded !== row.isExcluded;
-        });
+      const modifiedRows = rows.filter((row) => row._modified);
 
       // Validate all modified rows before saving
       const validationErrors: string[] = [];
@@ -460,28 +448,28 @@ export default function OrderForecastPage() {
         return;
       }
 
-      // 除外設定の変更を先に保存
-      if (excludedChanges.length > 0) {
-        for (const row of excludedChanges) {
-          try {
-            await setOrderExclusion.mutateAsync({
-              ids: [row.id],
-              isExcluded: Boolean(row.isExcluded),
-              exclusionReason: row.isExcluded ? "手動除外" : undefined,
-            });
-          } catch (error) {
-            console.error("除外設定APIエラー:", error);
-          }
-        }
-      }
+      // 作成・更新する行を集める（除外設定の変更も更新と同じ一括保存で保存する）
+      const createRows: GridRowData[] = [];
+      const createData: NewOrderForecast[] = [];
+      const updateRows: GridRowData[] = [];
+      const updateData: Array<{
+        id: string;
+        data: Partial<OrderForecast>;
+        isExcluded?: boolean;
+        exclusionReason?: string;
+      }> = [];
 
-      // 通常の更新処理
       for (const row of modifiedRows) {
-        // 除外設定のみの変更の場合はスキップ（既に保存済み）
         const existing = orderForecasts.find((o) => o.id === row.id);
+        // 除外フラグは取得時は文字列、トグル操作後は真偽値になる
+        const isExcluded = row.isExcluded === true || row.isExcluded === "true";
+        const exclusionChange =
+          existing && (existing.isExcluded === "true") !== isExcluded
+            ? { isExcluded, exclusionReason: isExcluded ? "手動除外" : undefined }
+            : {};
         const isOnlyExclusionChange =
           existing &&
-          existing.isExcluded !== row.isExcluded &&
+          "isExcluded" in exclusionChange &&
           existing.projectId === row.projectId &&
           existing.customerId === row.customerId &&
           existing.accountingPeriod === row.accountingPeriod &&
@@ -491,12 +479,20 @@ export default function OrderForecastPage() {
           (existing.remarks || "") === ((row.remarks as string) || "");
 
         if (isOnlyExclusionChange) {
-          continue; // 除外設定のみの変更は既に保存済みなのでスキップ
+          // 除外設定のみの変更は入力項目を送らない（変更履歴に除外・除外解除として記録される）
+          updateRows.push(row);
+          updateData.push({
+            id: row.id,
+            data: { version: Number(row.version) },
+            ...exclusionChange,
+          });
+          continue;
         }
 
         if (row.id.startsWith("temp-")) {
           // Create new order
-          const newOrder: NewOrderForecast = {
+          createRows.push(row);
+          createData.push({
             projectId: row.projectId as string,
             projectCode: row.projectCode as string,
             projectName: row.projectName as string,
@@ -515,94 +511,134 @@ export default function OrderForecastPage() {
             remarks: (row.remarks as string) || "",
             period: currentPeriod,
             isExcluded: row.isExcluded ? "true" : "false", // 除外フラグを追加
-          };
-          await createMutation.mutateAsync({ ...newOrder, filter });
-        } else {
+          });
+        } else if (existing) {
           // Update existing order
-          if (existing) {
-            // 取引先は非必須なので、空の場合はundefinedにする
-            const updateData: Partial<OrderForecast> = {
+          updateRows.push(row);
+          updateData.push({
+            id: row.id,
+            data: {
               projectId: row.projectId as string,
               projectCode: row.projectCode as string,
               projectName: row.projectName as string,
+              // 取引先は非必須なので、空の場合はnullにする
+              customerId: (row.customerId as string) || null,
+              customerCode: row.customerId ? (row.customerCode as string) : null,
+              customerName: row.customerId ? (row.customerName as string) : null,
               accountingPeriod: row.accountingPeriod as string,
               accountingItem: row.accountingItem as string,
               description: row.description as string,
               amount: String(row.amount),
               remarks: (row.remarks as string) || "",
-            };
-
-            if (row.customerId) {
-              updateData.customerId = row.customerId as string;
-              updateData.customerCode = row.customerCode as string;
-              updateData.customerName = row.customerName as string;
-            } else {
-              updateData.customerId = null;
-              updateData.customerCode = null;
-              updateData.customerName = null;
-            }
-
-            await updateMutation.mutateAsync({
-              id: row.id,
-              data: updateData,
-              filter,
-            });
-          }
+              version: Number(row.version),
+            },
+            ...exclusionChange,
+          });
         }
       }
 
-      // Delete explicitly deleted rows (tracked in deletedIdsRef)
-      const deletedIds = Array.from(deletedIdsRef.current);
-      let deletedCount = 0;
-      const deleteErrors: string[] = [];
+      // 削除した行（deletedRowsRefで追跡）
+      const deletedRows = Array.from(deletedRowsRef.current, ([id, version]) => ({ id, version }));
 
-      for (const deletedId of deletedIds) {
+      // 作成・更新・削除を1回の通信でまとめて保存（1行でも保存できない場合は何も保存されない）
+      if (createData.length > 0 || updateData.length > 0 || deletedRows.length > 0) {
         try {
-          await deleteMutation.mutateAsync({ id: deletedId, filter });
-          deletedCount++;
+          await bulkSaveMutation.mutateAsync({
+            create: createData,
+            update: updateData,
+            delete: deletedRows,
+          });
         } catch (error) {
-          console.error("削除エラー:", error);
-          deleteErrors.push(deletedId);
+          const bulkErrors = getBulkOperationErrors<
+            OrderForecastBulkRowError,
+            OrderForecastBulkConflict
+          >(error);
+          if (!bulkErrors) {
+            throw error;
+          }
+
+          // 他のユーザーが先に更新していた行は競合ダイアログで解消してから保存し直す
+          const conflicts: GridConflict[] = [];
+          for (const { id, current } of bulkErrors.conflicts) {
+            const localRow = updateRows.find((row) => row.id === id);
+            const existing = orderForecasts.find((o) => o.id === id);
+            if (localRow && existing) {
+              conflicts.push({
+                localRow,
+                baseRow: toGridRow(existing),
+                serverRow: toGridRow(current),
+              });
+            }
+          }
+          setVersionConflicts(conflicts);
+
+          // 削除した行を他のユーザーが先に更新していた場合は、最新の内容で行を戻して削除を取り消す
+          const deleteConflicts = bulkErrors.conflicts.filter(({ id }) =>
+            deletedRowsRef.current.has(id)
+          );
+          for (const { id } of deleteConflicts) {
+            deletedRowsRef.current.delete(id);
+          }
+          if (deleteConflicts.length > 0) {
+            setLocalRows((prevRows) => [
+              ...prevRows,
+              ...deleteConflicts.map(({ current }) => toGridRow(current)),
+            ]);
+          }
+
+          if (bulkErrors.errors.length > 0) {
+            toast({
+              title: "保存できない行があります",
+              description: bulkErrors.errors
+                .map((rowError) => {
+                  if (rowError.operation === "delete") {
+                    return `削除した行: ${rowError.message}`;
+                  }
+                  const sourceRow = (rowError.operation === "create" ? createRows : updateRows)[
+                    rowError.index
+                  ];
+                  return `行${rows.indexOf(sourceRow) + 1}: ${rowError.message}`;
+                })
+                .join(", "),
+              variant: "destructive",
+            });
+          }
+          if (conflicts.length > 0) {
+            toast({
+              title: "更新の競合",
+              description: `${conflicts.length}件は他のユーザーが先に更新していたため、すべての変更を保存していません。競合を解消すると保存し直します`,
+              variant: "destructive",
+            });
+          }
+          if (deleteConflicts.length > 0) {
+            toast({
+              title: "削除の競合",
+              description: `削除した${deleteConflicts.length}件は他のユーザーが先に更新していたため、すべての変更を保存していません。最新の内容を表示しましたので、削除する場合は改めて削除してください`,
+              variant: "destructive",
+            });
+          }
+          return;
         }
       }
 
-      // Clear deleted IDs after successful deletion
-      if (deleteErrors.length === 0) {
-        deletedIdsRef.current.clear();
-      }
+      // Clear deleted rows after successful deletion
+      deletedRowsRef.current.clear();
 
       // Refetch and update local rows with fresh data
       const { data: freshData } = await refetchOrders();
 
       if (freshData) {
-        const freshRows: GridRowData[] = freshData.map((order) => ({
-          id: order.id,
-          isExcluded: order.isExcluded,
-          projectId: order.projectId,
-          projectCode: order.projectCode,
-          projectName: order.projectName,
-          customerId: order.customerId || undefined,
-          customerCode: order.customerCode || undefined,
-          customerName: order.customerName || undefined,
-          accountingPeriod: order.accountingPeriod,
-          accountingItem: order.accountingItem,
-          description: order.description,
-          amount: order.amount,
-          remarks: order.remarks || "",
-          reconciliationStatus: order.reconciliationStatus,
-          _modified: false,
-          _readonly: order.reconciliationStatus === "matched",
-        }));
-        setLocalRows(freshRows);
+        setLocalRows(freshData.map(toGridRow));
       }
+      setVersionConflicts([]);
 
       // 保存・削除の件数をまとめて表示
       const changeMessages: string[] = [];
       if (modifiedRows.length > 0) {
         changeMessages.push(`${modifiedRows.length}件を更新`);
       }
-      if (deletedCount > 0) {
-        changeMessages.push(`${deletedCount}件を削除`);
+      if (deletedRows.length > 0) {
+        changeMessages.push(`${deletedRows.length}件を削除`);
       }
 
       if (changeMessages.length > 0) {
@@ -611,14 +647,6 @@ export default function OrderForecastPage() {
           description: changeMessages.join("、"),
         });
       }
-
-      if (deleteErrors.length > 0) {
-        toast({
-          title: "削除エラー",
-          description: `${deleteErrors.length}件の削除に失敗しました`,
-          variant: "destructive",
-        });
-      }
     } catch (_error) {
       toast({
         title: "保存に失敗しました",
@@ -630,6 +658,18 @@ export default function OrderForecastPage() {
     }
   };
 
+  const handleSave = () => saveRows(localRows);
+
+  // 競合ダイアログで選んだ値を反映し、最新のバージョンで保存し直す
+  const handleResolveConflicts = (resolvedRows: GridRowData[]) => {
+    const nextRows = localRows.map(
+      (row) => resolvedRows.find((resolved) => resolved.id === row.id) ?? row
+    );
+    setVersionConflicts([]);
+    setLocalRows(nextRows);
+    void saveRows(nextRows);
+  };
+
   const handleReconcile = async () => {
     // Require month to be specified for reconciliation
     if (!filter.month) {
@@ -650,24 +690,7 @@ export default function OrderForecastPage() {
       // Refetch and update local rows with reconciliation results
       const { data: freshData } = await refetchOrders();
       if (freshData) {
-        const freshRows: GridRowData[] = freshData.map((order) => ({
-          id: order.id,
-          isExcluded: order.isExcluded,
-          projectId: order.projectId,
-          projectCode: order.projectCode,
-          projectName: order.projectName,
-          customerId: order.customerId || undefined,
-          customerCode: order.customerCode || undefined,
-          customerName: order.customerName || undefined,
-          accountingPeriod: order.accountingPeriod,
-          accountingItem: order.accountingItem,
-          description: order.description,
-          amount: order.amount,
-          remarks: order.remarks || "",
-          reconciliationStatus: order.reconciliationStatus,
-          _modified: false,
-          _readonly: order.reconciliationStatus === "matched",
-        }));
+        const freshRows: GridRowData[] = freshData.map(toGridRow);
         setLocalRows(freshRows);
       }
 
@@ -693,9 +716,7 @@ export default function OrderForecastPage() {
   };
 
   const handleDemote = async () => {
-    const selectedRows = localRows.filter(
-      (row) => row._selected && !row.id.startsWith("temp-")
-    );
+    const selectedRows = localRows.filter((row) => row._selected && !row.id.startsWith("temp-"));
     if (selectedRows.length === 0) {
       toast({
         title: "行を選択してください",
@@ -705,9 +726,7 @@ export default function OrderForecastPage() {
       return;
     }
 
-    const demotableRows = selectedRows.filter(
-      (row) => row.reconciliationStatus !== "matched"
-    );
+    const demotableRows = selectedRows.filter((row) => row.reconciliationStatus !== "matched");
     const skippedCount = selectedRows.length - demotableRows.length;
     if (skippedCount > 0) {
       toast({
@@ -734,22 +753,7 @@ export default function OrderForecastPage() {
     const { data: freshData } = await refetchOrders();
     if (freshData) {
       const freshRows: GridRowData[] = freshData.map((order) => ({
-        id: order.id,
-        isExcluded: order.isExcluded,
-        projectId: order.projectId,
-        projectCode: order.projectCode,
-        projectName: order.projectName,
-        customerId: order.customerId || undefined,
-        customerCode: order.customerCode || undefined,
-        customerName: order.customerName || undefined,
-        accountingPeriod: order.accountingPeriod,
-        accountingItem: order.accountingItem,
-        description: order.description,
-        amount: order.amount,
-        remarks: order.remarks || "",
-        reconciliationStatus: order.reconciliationStatus,
-        _modified: false,
-        _readonly: order.reconciliationStatus === "matched",
+        ...toGridRow(order),
         _selected: false,
       }));
       setLocalRows(freshRows);
@@ -775,6 +779,12 @@ export default function OrderForecastPage() {
     (o) => o.reconciliationStatus === "unmatched"
   ).length;
 
+  // 変更履歴・分割計上の対象（選択中の保存済みの行のうち先頭の1件）
+  const historyRow = localRows.find((row) => row._selected && !row.id.startsWith("temp-"));
+  const historyOrderForecast = historyRow
+    ? (orderForecasts.find((order) => order.id === historyRow.id) ?? null)
+    : null;
+
   // Loading state
   if (ordersLoading || glLoading || customersLoading || projectsLoading || accountingItemsLoading) {
     return (
@@ -800,6 +810,7 @@ export default function OrderForecastPage() {
             <h1 className="text-xl font-semibold" data-testid="text-page-title">
               受発注見込み入力
             </h1>
+            {filter.month && <PeriodLockBadge period={currentPeriod} />}
           </div>
           <div className="h-6 w-px bg-border" />
           <AdvancedFilterPanel filter={filter} onChange={handleFilterChange} projects={projects} />
@@ -822,15 +833,22 @@ export default function OrderForecastPage() {
             </div>
           </div>
 
-          <Button
-            onClick={handleDemote}
-            variant="outline"
-            data-testid="button-demote-to-angle-b"
-          >
+          <Button onClick={handleDemote} variant="outline" data-testid="button-demote-to-angle-b">
             <ArrowDownCircle className="h-4 w-4 mr-2" />
             角度B降格
           </Button>
 
+          <OrderForecastHistoryPanel
+            orderForecast={historyOrderForecast}
+            hasPendingChanges={historyRow?._modified === true}
+          />
+
+          <ForecastSplitDialog
+            targetType="order-forecast"
+            line={historyOrderForecast}
+            hasPendingChanges={historyRow?._modified === true}
+          />
+
           <SearchFilterPanel
             open={isSearchPanelOpen}
             onOpenChange={setIsSearchPanelOpen}
@@ -861,6 +879,9 @@ export default function OrderForecastPage() {
           rows={localRows}
           onRowsChange={handleRowsChange}
           onSave={handleSave}
+          conflicts={versionConflicts}
+          onResolveConflicts={handleResolveConflicts}
+          onCancelConflicts={() => setVersionConflicts([])}
           pageSize={pageSize}
           onPageSizeChange={setPageSize}
           isSaving={isSaving}
@@ -1,4 +1,9 @@
-import type { Customer, NewProject, Project } from "@shared/schema";
+import type {
+  Customer,
+  NewProject,
+  Project,
+  RecurringForecastGenerationResult,
+} from "@shared/schema";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Copy, Edit, Loader2, Plus, Trash2 } from "lucide-react";
 import { useState } from "react";
@@ -198,13 +203,22 @@ export default function ProjectsPage() {
     mutationFn: async (targetYear: number) => {
       const res = await apiRequest("POST", "/api/projects/copy-from-previous-year", { targetYear });
       const result = await res.json();
-      return result.data as { count: number; projects: Project[] };
+      return result.data as {
+        count: number;
+        projects: Project[];
+        recurringForecasts: RecurringForecastGenerationResult | null;
+      };
     },
     onSuccess: (result) => {
       void queryClient.invalidateQueries({ queryKey: ["/api/projects", selectedYear] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/order-forecasts"] });
+      const recurringCount = result.recurringForecasts?.created ?? 0;
       toast({
         title: "コピー完了",
-        description: `${result.count}件のプロジェクトをコピーしました`,
+        description:
+          recurringCount > 0
+            ? `${result.count}件のプロジェクトをコピーし、定期売上の受発注データを${recurringCount}件生成しました`
+            : `${result.count}件のプロジェクトをコピーしました`,
       });
       setCopyDialogOpen(false);
     },
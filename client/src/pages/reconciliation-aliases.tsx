@@ -0,0 +1,197 @@
+import type { ReconciliationAlias } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+import { useState } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/useToast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type AliasTypeFilter = "all" | "account" | "description";
+
+const ALIAS_TYPE_LABELS: Record<string, string> = {
+  account: "計上科目",
+  description: "摘要文",
+};
+
+export default function ReconciliationAliasesPage() {
+  const { toast } = useToast();
+  const [aliasType, setAliasType] = useState<AliasTypeFilter>("all");
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [selectedAlias, setSelectedAlias] = useState<ReconciliationAlias | null>(null);
+
+  const { data: aliases = [], isLoading } = useQuery<ReconciliationAlias[]>({
+    queryKey: ["/api/reconciliation-aliases", aliasType],
+    queryFn: async () => {
+      const query = aliasType === "all" ? "" : `?aliasType=${aliasType}`;
+      const response = await apiRequest("GET", `/api/reconciliation-aliases${query}`, undefined);
+      const result = await response.json();
+      // APIレスポンス: { success: true, data: { items: [...], total } }
+      return result.data?.items || [];
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/reconciliation-aliases/${id}`);
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/reconciliation-aliases"] });
+      toast({
+        title: "成功",
+        description: "突合エイリアスを削除しました",
+      });
+      setIsDeleteOpen(false);
+      setSelectedAlias(null);
+    },
+    onError: () => {
+      toast({
+        title: "エラー",
+        description: "突合エイリアスの削除に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = () => {
+    if (!selectedAlias) {
+      return;
+    }
+    deleteMutation.mutate(selectedAlias.id);
+  };
+
+  const openDeleteDialog = (alias: ReconciliationAlias) => {
+    setSelectedAlias(alias);
+    setIsDeleteOpen(true);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">
+            突合エイリアス辞書
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            手動突合で記録された表記ゆれの確認・削除（登録済みの組は以降の突合で同一とみなします）
+          </p>
+        </div>
+        <Select value={aliasType} onValueChange={(value) => setAliasType(value as AliasTypeFilter)}>
+          <SelectTrigger className="w-40" data-testid="select-alias-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">全ての種別</SelectItem>
+            <SelectItem value="account">計上科目</SelectItem>
+            <SelectItem value="description">摘要文</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>エイリアス一覧</CardTitle>
+          <CardDescription>{aliases.length}件のエイリアスが登録されています</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">読み込み中...</div>
+          ) : aliases.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              エイリアスが登録されていません
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>種別</TableHead>
+                  <TableHead>受発注側</TableHead>
+                  <TableHead>GL側</TableHead>
+                  <TableHead className="text-right">記録回数</TableHead>
+                  <TableHead>最終記録日時</TableHead>
+                  <TableHead className="text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {aliases.map((alias) => (
+                  <TableRow key={alias.id} data-testid={`row-alias-${alias.id}`}>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {ALIAS_TYPE_LABELS[alias.aliasType] ?? alias.aliasType}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{alias.orderText}</TableCell>
+                    <TableCell>{alias.glText}</TableCell>
+                    <TableCell className="text-right font-mono">{alias.matchCount}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {new Date(alias.lastMatchedAt).toLocaleString("ja-JP")}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => openDeleteDialog(alias)}
+                        data-testid={`button-delete-${alias.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent data-testid="dialog-delete-alias">
+          <AlertDialogHeader>
+            <AlertDialogTitle>エイリアスを削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              「{selectedAlias?.orderText}」と「{selectedAlias?.glText}
+              」は以降の突合で同一とみなされなくなります。実行済みの突合は解除されません。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete"
+            >
+              {deleteMutation.isPending ? "削除中..." : "削除"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
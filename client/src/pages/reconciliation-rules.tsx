@@ -0,0 +1,420 @@
+import type { ReconciliationRule } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/useToast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface RuleFormData {
+  name: string;
+  priority: string;
+  accountCodes: string;
+  monthTolerance: string;
+  amountTolerance: string;
+  ignoreDescription: boolean;
+  isActive: boolean;
+  remarks: string;
+}
+
+const EMPTY_FORM: RuleFormData = {
+  name: "",
+  priority: "100",
+  accountCodes: "",
+  monthTolerance: "0",
+  amountTolerance: "0",
+  ignoreDescription: false,
+  isActive: true,
+  remarks: "",
+};
+
+export default function ReconciliationRulesPage() {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<ReconciliationRule | null>(null);
+  const [formData, setFormData] = useState<RuleFormData>(EMPTY_FORM);
+
+  const { data: rules = [], isLoading } = useQuery<ReconciliationRule[]>({
+    queryKey: ["/api/reconciliation-rules"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/reconciliation-rules", undefined);
+      const result = await response.json();
+      // APIレスポンス: { success: true, data: { items: [...], total } }
+      return result.data?.items || [];
+    },
+  });
+
+  const toRequestBody = (data: RuleFormData) => ({
+    name: data.name,
+    priority: Number(data.priority),
+    accountCodes: data.accountCodes || null,
+    monthTolerance: Number(data.monthTolerance),
+    amountTolerance: data.amountTolerance,
+    ignoreDescription: data.ignoreDescription ? "true" : "false",
+    isActive: data.isActive ? "true" : "false",
+    remarks: data.remarks || null,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: RuleFormData }) => {
+      const res = id
+        ? await apiRequest("PUT", `/api/reconciliation-rules/${id}`, toRequestBody(data))
+        : await apiRequest("POST", "/api/reconciliation-rules", toRequestBody(data));
+      return res.json();
+    },
+    onSuccess: (_result, { id }) => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/reconciliation-rules"] });
+      toast({
+        title: "成功",
+        description: id ? "突合ルールを更新しました" : "突合ルールを作成しました",
+      });
+      setIsFormOpen(false);
+      setSelectedRule(null);
+      setFormData(EMPTY_FORM);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "エラー",
+        description: error.message || "突合ルールの保存に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/reconciliation-rules/${id}`);
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["/api/reconciliation-rules"] });
+      toast({
+        title: "成功",
+        description: "突合ルールを削除しました",
+      });
+      setIsDeleteOpen(false);
+      setSelectedRule(null);
+    },
+    onError: () => {
+      toast({
+        title: "エラー",
+        description: "突合ルールの削除に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    saveMutation.mutate({ id: selectedRule?.id, data: formData });
+  };
+
+  const handleDelete = () => {
+    if (!selectedRule) {
+      return;
+    }
+    deleteMutation.mutate(selectedRule.id);
+  };
+
+  const openCreateDialog = () => {
+    setSelectedRule(null);
+    setFormData(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const openEditDialog = (rule: ReconciliationRule) => {
+    setSelectedRule(rule);
+    setFormData({
+      name: rule.name,
+      priority: String(rule.priority),
+      accountCodes: rule.accountCodes ?? "",
+      monthTolerance: String(rule.monthTolerance),
+      amountTolerance: String(Number(rule.amountTolerance)),
+      ignoreDescription: rule.ignoreDescription === "true",
+      isActive: rule.isActive === "true",
+      remarks: rule.remarks ?? "",
+    });
+    setIsFormOpen(true);
+  };
+
+  const openDeleteDialog = (rule: ReconciliationRule) => {
+    setSelectedRule(rule);
+    setIsDeleteOpen(true);
+  };
+
+  const isFormValid =
+    formData.name.trim() !== "" &&
+    formData.priority !== "" &&
+    Number(formData.priority) >= 0 &&
+    Number(formData.monthTolerance) >= 0 &&
+    Number(formData.amountTolerance) >= 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">
+            突合ルールマスタ
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            GL突合の厳格突合で評価するルールの管理（標準ルールの後に優先度の小さい順で評価）
+          </p>
+        </div>
+        <Button onClick={openCreateDialog} data-testid="button-create-rule">
+          <Plus className="h-4 w-4 mr-2" />
+          新規作成
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>突合ルール一覧</CardTitle>
+          <CardDescription>{rules.length}件の突合ルールが登録されています</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">読み込み中...</div>
+          ) : rules.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              突合ルールが登録されていません
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">優先度</TableHead>
+                  <TableHead>ルール名</TableHead>
+                  <TableHead>対象科目コード</TableHead>
+                  <TableHead className="text-right">許容月数</TableHead>
+                  <TableHead>摘要文</TableHead>
+                  <TableHead className="text-right">許容金額差</TableHead>
+                  <TableHead>状態</TableHead>
+                  <TableHead className="text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id} data-testid={`row-rule-${rule.id}`}>
+                    <TableCell className="text-right font-mono">{rule.priority}</TableCell>
+                    <TableCell>
+                      <div>{rule.name}</div>
+                      {rule.remarks && (
+                        <div className="text-xs text-muted-foreground">{rule.remarks}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono">{rule.accountCodes || "全科目"}</TableCell>
+                    <TableCell className="text-right">±{rule.monthTolerance}ヶ月</TableCell>
+                    <TableCell>
+                      {rule.ignoreDescription === "true" ? "判定しない" : "一致"}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      ¥{Number(rule.amountTolerance).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      {rule.isActive === "true" ? (
+                        <Badge variant="outline">有効</Badge>
+                      ) : (
+                        <Badge variant="secondary">無効</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => openEditDialog(rule)}
+                          data-testid={`button-edit-${rule.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => openDeleteDialog(rule)}
+                          data-testid={`button-delete-${rule.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent data-testid="dialog-rule-form">
+          <DialogHeader>
+            <DialogTitle>{selectedRule ? "突合ルール編集" : "新規突合ルール作成"}</DialogTitle>
+            <DialogDescription>
+              計上科目の一致は全てのルールで必須です。対象科目コードを空欄にすると全科目が対象になります。
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="rule-name">ルール名</Label>
+                <Input
+                  id="rule-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="例: 外注費の翌月計上を許容"
+                  data-testid="input-rule-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-priority">優先度</Label>
+                <Input
+                  id="rule-priority"
+                  type="number"
+                  min={0}
+                  value={formData.priority}
+                  onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+                  data-testid="input-rule-priority"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-account-codes">対象科目コード（カンマ区切り）</Label>
+              <Input
+                id="rule-account-codes"
+                value={formData.accountCodes}
+                onChange={(e) => setFormData({ ...formData, accountCodes: e.target.value })}
+                placeholder="例: 727,737"
+                data-testid="input-rule-account-codes"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-month-tolerance">許容月数（±）</Label>
+                <Input
+                  id="rule-month-tolerance"
+                  type="number"
+                  min={0}
+                  max={12}
+                  value={formData.monthTolerance}
+                  onChange={(e) => setFormData({ ...formData, monthTolerance: e.target.value })}
+                  data-testid="input-rule-month-tolerance"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-amount-tolerance">許容金額差（円）</Label>
+                <Input
+                  id="rule-amount-tolerance"
+                  type="number"
+                  min={0}
+                  value={formData.amountTolerance}
+                  onChange={(e) => setFormData({ ...formData, amountTolerance: e.target.value })}
+                  data-testid="input-rule-amount-tolerance"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="rule-ignore-description">摘要文を判定に使わない</Label>
+              <Switch
+                id="rule-ignore-description"
+                checked={formData.ignoreDescription}
+                onCheckedChange={(checked) =>
+                  setFormData({ ...formData, ignoreDescription: checked })
+                }
+                data-testid="switch-rule-ignore-description"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="rule-is-active">有効</Label>
+              <Switch
+                id="rule-is-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                data-testid="switch-rule-is-active"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-remarks">備考</Label>
+              <Textarea
+                id="rule-remarks"
+                value={formData.remarks}
+                onChange={(e) => setFormData({ ...formData, remarks: e.target.value })}
+                placeholder="例: 消費税の端数差を許容"
+                data-testid="textarea-rule-remarks"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsFormOpen(false)}
+              data-testid="button-cancel-rule"
+            >
+              キャンセル
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!isFormValid || saveMutation.isPending}
+              data-testid="button-submit-rule"
+            >
+              {saveMutation.isPending ? "保存中..." : selectedRule ? "更新" : "作成"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent data-testid="dialog-delete-rule">
+          <AlertDialogHeader>
+            <AlertDialogTitle>突合ルールを削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              この操作は取り消せません。突合ルール「{selectedRule?.name}
+              」を削除してもよろしいですか？（実行済みの突合は解除されません）
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete"
+            >
+              {deleteMutation.isPending ? "削除中..." : "削除"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
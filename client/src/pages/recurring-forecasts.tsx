@@ -0,0 +1,642 @@
+import type {
+  NewRecurringForecastTemplate,
+  Project,
+  RecurringBillingCycle,
+  RecurringForecastGenerationResult,
+  RecurringForecastTemplate,
+} from "@shared/schema";
+import { Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useAccountingItems, useCustomers, useProjects } from "@/hooks/useMasters";
+import {
+  useCreateRecurringForecastTemplate,
+  useDeleteRecurringForecastTemplate,
+  useGenerateRecurringForecasts,
+  useRecurringForecastTemplates,
+  useUpdateRecurringForecastTemplate,
+} from "@/hooks/useRecurringForecasts";
+import { useToast } from "@/hooks/useToast";
+import { sortAccountingItemsByOrder } from "@/lib/accountingItemOrder";
+
+// 取引先にプロジェクトの取引先を使用する場合の選択値
+const PROJECT_CUSTOMER = "__project__";
+
+const BILLING_CYCLE_LABELS: Record<RecurringBillingCycle, string> = {
+  monthly: "毎月",
+  quarterly: "四半期ごと",
+  annual: "年1回",
+};
+
+interface TemplateFormData {
+  projectCode: string;
+  projectName: string;
+  customerId: string;
+  accountingItem: string;
+  descriptionPattern: string;
+  monthlyAmount: string;
+  startMonth: string;
+  endMonth: string;
+  billingCycle: RecurringBillingCycle;
+  isActive: boolean;
+  remarks: string;
+}
+
+const EMPTY_FORM: TemplateFormData = {
+  projectCode: "",
+  projectName: "",
+  customerId: PROJECT_CUSTOMER,
+  accountingItem: "",
+  descriptionPattern: "保守料 {yyyy}年{m}月分",
+  monthlyAmount: "",
+  startMonth: "",
+  endMonth: "",
+  billingCycle: "monthly",
+  isActive: true,
+  remarks: "",
+};
+
+// 生成結果の件数の表示
+const formatResult = (result: RecurringForecastGenerationResult) =>
+  `${result.fiscalYear}年度: 生成${result.created}件・更新${result.updated}件・削除${result.deleted}件` +
+  (result.skipped > 0 ? `（締め済み・突合済みのため${result.skipped}件は変更なし）` : "");
+
+export default function RecurringForecastsPage() {
+  const { toast } = useToast();
+  const [fiscalYear, setFiscalYear] = useState<number>(() => {
+    const now = new Date();
+    const currentYear = now.getFullYear();
+    const currentMonth = now.getMonth() + 1;
+    // システム日付が含まれる会計年度を計算
+    // 4月～12月: その年の年度、1月～3月: 前年の年度
+    return currentMonth >= 4 ? currentYear : currentYear - 1;
+  });
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [selectedTemplate, setSelectedTemplate] = useState<RecurringForecastTemplate | null>(null);
+  const [formData, setFormData] = useState<TemplateFormData>(EMPTY_FORM);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const { data: templates = [], isLoading } = useRecurringForecastTemplates();
+  const { data: projects = [] } = useProjects();
+  const { data: customers = [] } = useCustomers();
+  const { data: accountingItems = [] } = useAccountingItems();
+  const createMutation = useCreateRecurringForecastTemplate();
+  const updateMutation = useUpdateRecurringForecastTemplate();
+  const deleteMutation = useDeleteRecurringForecastTemplate();
+  const generateMutation = useGenerateRecurringForecasts();
+
+  // 年度選択肢を生成
+  const currentYear = new Date().getFullYear();
+  const yearOptions = Array.from({ length: 5 }, (_, i) => currentYear - 2 + i);
+
+  // テンプレートはプロジェクトコードで年度をまたぐため、コードごとに最新年度のプロジェクトを選択肢にする
+  const latestProjectByCode = new Map<string, Project>();
+  for (const project of projects) {
+    const current = latestProjectByCode.get(project.code);
+    if (!current || current.fiscalYear < project.fiscalYear) {
+      latestProjectByCode.set(project.code, project);
+    }
+  }
+  const projectOptions = Array.from(latestProjectByCode.values()).sort((a, b) =>
+    a.code.localeCompare(b.code)
+  );
+
+  const toRequestBody = (data: TemplateFormData): NewRecurringForecastTemplate => {
+    const customer = customers.find((c) => c.id === data.customerId);
+    return {
+      projectCode: data.projectCode,
+      projectName: data.projectName,
+      customerId: customer?.id ?? null,
+      customerCode: customer?.code ?? null,
+      customerName: customer?.name ?? null,
+      accountingItem: data.accountingItem,
+      descriptionPattern: data.descriptionPattern,
+      monthlyAmount: data.monthlyAmount,
+      startMonth: data.startMonth,
+      endMonth: data.endMonth || null,
+      billingCycle: data.billingCycle,
+      isActive: data.isActive ? "true" : "false",
+      remarks: data.remarks || null,
+    };
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setSelectedTemplate(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "エラー",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleSave = () => {
+    if (selectedTemplate) {
+      updateMutation.mutate(
+        { id: selectedTemplate.id, data: toRequestBody(formData) },
+        {
+          onSuccess: ({ results }) => {
+            toast({
+              title: "成功",
+              description:
+                results.length > 0
+                  ? `定期売上テンプレートを更新しました。${results.map(formatResult).join("、")}`
+                  : "定期売上テンプレートを更新しました",
+            });
+            setWarnings(results.flatMap((result) => result.warnings));
+            closeForm();
+          },
+          onError: handleError("定期売上テンプレートの更新に失敗しました"),
+        }
+      );
+      return;
+    }
+
+    createMutation.mutate(toRequestBody(formData), {
+      onSuccess: () => {
+        toast({
+          title: "成功",
+          description: "定期売上テンプレートを作成しました。受発注データは「生成」で作成されます",
+        });
+        closeForm();
+      },
+      onError: handleError("定期売上テンプレートの作成に失敗しました"),
+    });
+  };
+
+  const handleDelete = () => {
+    if (!selectedTemplate) {
+      return;
+    }
+    deleteMutation.mutate(selectedTemplate.id, {
+      onSuccess: (results) => {
+        const deletedCount = results.reduce((sum, result) => sum + result.deleted, 0);
+        toast({
+          title: "成功",
+          description:
+            deletedCount > 0
+              ? `定期売上テンプレートと当月以降の受発注データ${deletedCount}件を削除しました`
+              : "定期売上テンプレートを削除しました",
+        });
+        setIsDeleteOpen(false);
+        setSelectedTemplate(null);
+      },
+      onError: handleError("定期売上テンプレートの削除に失敗しました"),
+    });
+  };
+
+  const handleGenerate = () => {
+    generateMutation.mutate(fiscalYear, {
+      onSuccess: (result) => {
+        toast({
+          title: "成功",
+          description: formatResult(result),
+        });
+        setWarnings(result.warnings);
+      },
+      onError: handleError("定期売上の受発注データ生成に失敗しました"),
+    });
+  };
+
+  const openCreateDialog = () => {
+    setSelectedTemplate(null);
+    setFormData(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const openEditDialog = (template: RecurringForecastTemplate) => {
+    setSelectedTemplate(template);
+    setFormData({
+      projectCode: template.projectCode,
+      projectName: template.projectName,
+      customerId: template.customerId ?? PROJECT_CUSTOMER,
+      accountingItem: template.accountingItem,
+      descriptionPattern: template.descriptionPattern,
+      monthlyAmount: String(Number(template.monthlyAmount)),
+      startMonth: template.startMonth,
+      endMonth: template.endMonth ?? "",
+      billingCycle: template.billingCycle,
+      isActive: template.isActive === "true",
+      remarks: template.remarks ?? "",
+    });
+    setIsFormOpen(true);
+  };
+
+  const openDeleteDialog = (template: RecurringForecastTemplate) => {
+    setSelectedTemplate(template);
+    setIsDeleteOpen(true);
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+  const isFormValid =
+    formData.projectCode !== "" &&
+    formData.accountingItem !== "" &&
+    formData.descriptionPattern.trim() !== "" &&
+    formData.monthlyAmount !== "" &&
+    !isNaN(Number(formData.monthlyAmount)) &&
+    formData.startMonth !== "" &&
+    (formData.endMonth === "" || formData.endMonth >= formData.startMonth);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-page-title">
+            定期売上テンプレート
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            保守売上などの定期的な受発注見込みを年度ごとに生成（テンプレートの変更は当月以降の未突合の明細に反映）
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={fiscalYear.toString()}
+            onValueChange={(value) => setFiscalYear(parseInt(value))}
+          >
+            <SelectTrigger className="w-[140px]" data-testid="select-fiscal-year">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {yearOptions.map((year) => (
+                <SelectItem key={year} value={year.toString()}>
+                  {year}年度
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={handleGenerate}
+            disabled={generateMutation.isPending || templates.length === 0}
+            data-testid="button-generate-recurring"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {generateMutation.isPending ? "生成中..." : "受発注データを生成"}
+          </Button>
+          <Button onClick={openCreateDialog} data-testid="button-create-template">
+            <Plus className="h-4 w-4 mr-2" />
+            新規作成
+          </Button>
+        </div>
+      </div>
+
+      {warnings.length > 0 && (
+        <Card className="border-destructive/50" data-testid="card-generation-warnings">
+          <CardHeader>
+            <CardTitle className="text-base">生成できなかったテンプレート</CardTitle>
+            <CardDescription>
+              対象年度のプロジェクトを登録（前年度からコピー）してから再度生成してください
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="list-disc pl-5 space-y-1 text-sm">
+              {warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>定期売上テンプレート一覧</CardTitle>
+          <CardDescription>
+            {templates.length}件の定期売上テンプレートが登録されています
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">読み込み中...</div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              定期売上テンプレートが登録されていません
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>プロジェクト</TableHead>
+                  <TableHead>計上科目</TableHead>
+                  <TableHead>摘要文</TableHead>
+                  <TableHead className="text-right">月額</TableHead>
+                  <TableHead>契約期間</TableHead>
+                  <TableHead>請求サイクル</TableHead>
+                  <TableHead>状態</TableHead>
+                  <TableHead className="text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id} data-testid={`row-template-${template.id}`}>
+                    <TableCell>
+                      <div className="font-mono text-sm">{template.projectCode}</div>
+                      <div>{template.projectName}</div>
+                      {template.customerName && (
+                        <div className="text-xs text-muted-foreground">{template.customerName}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{template.accountingItem}</TableCell>
+                    <TableCell>
+                      <div>{template.descriptionPattern}</div>
+                      {template.remarks && (
+                        <div className="text-xs text-muted-foreground">{template.remarks}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      ¥{Math.floor(Number(template.monthlyAmount)).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {template.startMonth} ～ {template.endMonth ?? ""}
+                    </TableCell>
+                    <TableCell>{BILLING_CYCLE_LABELS[template.billingCycle]}</TableCell>
+                    <TableCell>
+                      {template.isActive === "true" ? (
+                        <Badge variant="outline">有効</Badge>
+                      ) : (
+                        <Badge variant="secondary">無効</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => openEditDialog(template)}
+                          data-testid={`button-edit-${template.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => openDeleteDialog(template)}
+                          data-testid={`button-delete-${template.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-template-form">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedTemplate ? "定期売上テンプレート編集" : "新規定期売上テンプレート作成"}
+            </DialogTitle>
+            <DialogDescription>
+              四半期・年1回の請求は契約開始月から3ヶ月・12ヶ月ごとに、月額に月数を掛けた金額で計上します。
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-project">プロジェクト</Label>
+                <Select
+                  value={formData.projectCode}
+                  onValueChange={(code) =>
+                    setFormData({
+                      ...formData,
+                      projectCode: code,
+                      projectName:
+                        projectOptions.find((project) => project.code === code)?.name ?? "",
+                    })
+                  }
+                >
+                  <SelectTrigger id="template-project" data-testid="select-template-project">
+                    <SelectValue placeholder="プロジェクトを選択" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projectOptions.map((project) => (
+                      <SelectItem key={project.code} value={project.code}>
+                        {project.code} {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-customer">取引先</Label>
+                <Select
+                  value={formData.customerId}
+                  onValueChange={(customerId) => setFormData({ ...formData, customerId })}
+                >
+                  <SelectTrigger id="template-customer" data-testid="select-template-customer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={PROJECT_CUSTOMER}>プロジェクトの取引先</SelectItem>
+                    {customers.map((customer) => (
+                      <SelectItem key={customer.id} value={customer.id}>
+                        {customer.code} {customer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-accounting-item">計上科目</Label>
+                <Select
+                  value={formData.accountingItem}
+                  onValueChange={(accountingItem) => setFormData({ ...formData, accountingItem })}
+                >
+                  <SelectTrigger
+                    id="template-accounting-item"
+                    data-testid="select-template-accounting-item"
+                  >
+                    <SelectValue placeholder="計上科目を選択" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sortAccountingItemsByOrder(accountingItems).map((item) => (
+                      <SelectItem key={item.id} value={item.name}>
+                        {item.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-monthly-amount">月額（円）</Label>
+                <Input
+                  id="template-monthly-amount"
+                  type="number"
+                  value={formData.monthlyAmount}
+                  onChange={(e) => setFormData({ ...formData, monthlyAmount: e.target.value })}
+                  data-testid="input-template-monthly-amount"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description">摘要文</Label>
+              <Input
+                id="template-description"
+                value={formData.descriptionPattern}
+                onChange={(e) => setFormData({ ...formData, descriptionPattern: e.target.value })}
+                data-testid="input-template-description"
+              />
+              <p className="text-xs text-muted-foreground">
+                {"{yyyy}"}・{"{mm}"}・{"{m}"}は計上年月の年・月（2桁）・月に置き換えます
+              </p>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-start-month">契約開始月</Label>
+                <Input
+                  id="template-start-month"
+                  type="month"
+                  value={formData.startMonth}
+                  onChange={(e) => setFormData({ ...formData, startMonth: e.target.value })}
+                  data-testid="input-template-start-month"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-end-month">契約終了月（任意）</Label>
+                <Input
+                  id="template-end-month"
+                  type="month"
+                  value={formData.endMonth}
+                  onChange={(e) => setFormData({ ...formData, endMonth: e.target.value })}
+                  data-testid="input-template-end-month"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-billing-cycle">請求サイクル</Label>
+                <Select
+                  value={formData.billingCycle}
+                  onValueChange={(billingCycle) =>
+                    setFormData({
+                      ...formData,
+                      billingCycle: billingCycle as RecurringBillingCycle,
+                    })
+                  }
+                >
+                  <SelectTrigger
+                    id="template-billing-cycle"
+                    data-testid="select-template-billing-cycle"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BILLING_CYCLE_LABELS) as RecurringBillingCycle[]).map((cycle) => (
+                      <SelectItem key={cycle} value={cycle}>
+                        {BILLING_CYCLE_LABELS[cycle]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="template-is-active">有効</Label>
+              <Switch
+                id="template-is-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                data-testid="switch-template-is-active"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-remarks">備考</Label>
+              <Textarea
+                id="template-remarks"
+                value={formData.remarks}
+                onChange={(e) => setFormData({ ...formData, remarks: e.target.value })}
+                placeholder="生成する受発注データの備考にも設定されます"
+                data-testid="textarea-template-remarks"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeForm} data-testid="button-cancel-template">
+              キャンセル
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!isFormValid || isSaving}
+              data-testid="button-submit-template"
+            >
+              {isSaving ? "保存中..." : selectedTemplate ? "更新" : "作成"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent data-testid="dialog-delete-template">
+          <AlertDialogHeader>
+            <AlertDialogTitle>定期売上テンプレートを削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              この操作は取り消せません。「{selectedTemplate?.projectName} /{" "}
+              {selectedTemplate?.descriptionPattern}
+              」を削除すると、当月以降の未突合の受発注データも削除されます（過去の月と突合済みの明細は残ります）
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete"
+            >
+              {deleteMutation.isPending ? "削除中..." : "削除"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { BarChart3 } from "lucide-react";
 import React, { useMemo, useState } from "react";
 
+import { ForecastAccuracyPanel } from "@/components/forecast-accuracy-panel";
 import { Card, CardContent } from "@/components/ui/card";
 import { MultiSelect } from "@/components/ui/multi-select";
 import {
@@ -559,6 +560,8 @@ export default function SalesPersonSummaryPage() {
             )}
           </CardContent>
         </Card>
+
+        <ForecastAccuracyPanel fiscalYear={selectedYear} salesPersons={selectedSalesPersons} />
       </div>
     </div>
   );
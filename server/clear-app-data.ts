@@ -28,10 +28,21 @@ async function clearAppData() {
 
     // 削除順序：外部キー制約を考慮して逆順で削除
     const tablesToDelete = [
+      "app.import_batch_rows",
+      "app.import_batches",
+      "app.period_lock_overrides",
+      "app.accounting_periods",
+      "app.reconciliation_log_details",
+      "app.reconciliation_links",
       "app.reconciliation_logs",
+      "app.gl_anomalies",
+      "app.gl_voucher_exclusions",
       "app.gl_entries",
       "app.staffing",
       "app.angle_b_forecasts",
+      "app.forecast_split_groups",
+      "app.forecast_snapshots",
+      "app.order_forecast_histories",
       "app.order_forecasts",
       "app.budgets_expense",
       "app.budgets_revenue",
@@ -48,6 +59,14 @@ async function clearAppData() {
 
     // accounting_itemsは削除しない（計上区分マスタを残す）
     console.log("📋 app.accounting_items: 削除スキップ（計上区分マスタを保持）");
+    // reconciliation_rulesは削除しない（突合ルールマスタを残す）
+    console.log("📋 app.reconciliation_rules: 削除スキップ（突合ルールマスタを保持）");
+    // reconciliation_aliasesは削除しない（手動突合で蓄積したエイリアス辞書を残す）
+    console.log("📋 app.reconciliation_aliases: 削除スキップ（突合エイリアス辞書を保持）");
+    // gl_import_profilesは削除しない（GL CSV取込プロファイルを残す）
+    console.log("📋 app.gl_import_profiles: 削除スキップ（GL CSV取込プロファイルを保持）");
+    // recurring_forecast_templatesは削除しない（定期売上テンプレートを残す）
+    console.log("📋 app.recurring_forecast_templates: 削除スキップ（定期売上テンプレートを保持）");
 
     console.log("✅ appスキーマデータ削除完了");
   } catch (error) {
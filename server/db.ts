@@ -53,4 +53,10 @@ if (isReplit) {
   db = drizzlePg(pool, { schema });
 }
 
+/** トランザクションハンドル（db.transactionのコールバック引数） */
+export type Transaction = Parameters<Parameters<(typeof db)["transaction"]>[0]>[0];
+
+/** リポジトリのクエリ実行先（通常のDB接続またはトランザクション） */
+export type DbExecutor = typeof db | Transaction;
+
 export { db, pool };
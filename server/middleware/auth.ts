@@ -133,6 +133,16 @@ export const requireAuth = async (
   await isAuthenticated(req, res, next);
 };
 
+/**
+ * 管理者判定
+ *
+ * @param user - 認証済みユーザー情報
+ * @description 簡易的な管理者判定（実際の権限システムは既存システムで管理）
+ */
+export const isAdminUser = (user: { email?: string } | undefined): boolean => {
+  return user?.email === "admin@example.com";
+};
+
 /**
  * 操作権限チェックミドルウェア
  *
@@ -154,7 +164,7 @@ export const requireOperationPermission = (operation: string) => {
 
       // 簡易的な権限チェック（実際の権限システムは既存システムで管理）
       // ここでは基本的なチェックのみ実装
-      if (operation === "admin" && user.email !== "admin@example.com") {
+      if (operation === "admin" && !isAdminUser(user)) {
         res.status(403).json({
           success: false,
           message: "管理者権限が必要です",
@@ -27,6 +27,37 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * 楽観ロックの競合エラー
+ *
+ * @description 更新対象が他のユーザーによって先に更新されていた場合に使用し、サーバー上の最新データを保持する
+ */
+export class VersionConflictError<T = unknown> extends AppError {
+  public readonly current: T;
+
+  constructor(message: string, current: T) {
+    super(message, 409, true, "VERSION_CONFLICT");
+    this.current = current;
+  }
+}
+
+/**
+ * 一括操作の行単位のエラー
+ *
+ * @description 一括操作で保存できない行があった場合に使用し、行ごとのエラーと楽観ロックの競合を保持する。
+ * 入力エラーを含む場合は400、競合のみの場合は409とする
+ */
+export class BulkOperationError<TError = unknown, TConflict = unknown> extends AppError {
+  public readonly errors: TError[];
+  public readonly conflicts: TConflict[];
+
+  constructor(message: string, errors: TError[], conflicts: TConflict[]) {
+    super(message, errors.length > 0 ? 400 : 409, true, "BULK_OPERATION_FAILED");
+    this.errors = errors;
+    this.conflicts = conflicts;
+  }
+}
+
 /**
  * 統一エラーレスポンス形式
  */
@@ -59,6 +90,9 @@ export function errorHandler(
     statusCode = error.statusCode;
     message = error.message;
     code = error.code || error.name;
+    if (error instanceof VersionConflictError) {
+      details = { current: error.current };
+    }
   }
   // Zodバリデーションエラーの場合
   else if (error.name === "ZodError") {
@@ -0,0 +1,26 @@
+import { Request } from "express";
+
+import type { PeriodLockOverrideRequest } from "../services/accountingPeriodService";
+import { isAdminUser } from "./auth";
+
+/**
+ * 締め済み期間の変更指定を取得
+ *
+ * @description リクエストボディまたはクエリの overrideReason が指定されている場合に、
+ * 管理者による締め済み期間の変更として扱う（管理者かどうかの判定はサービス層で行う）
+ * @param req - リクエスト（認証ミドルウェアでユーザー情報が設定されていること）
+ * @returns 変更指定（overrideReasonが未指定の場合はundefined）
+ */
+export const getPeriodLockOverride = (req: Request): PeriodLockOverrideRequest | undefined => {
+  const reason = req.body?.overrideReason ?? req.query.overrideReason;
+
+  if (typeof reason !== "string") {
+    return undefined;
+  }
+
+  return {
+    userId: req.user?.id ?? "",
+    isAdmin: isAdminUser(req.user),
+    reason,
+  };
+};
@@ -56,6 +56,399 @@ async function modifyAppTables() {
     `);
     console.log("✅ project_analysis_snapshotsテーブルを作成");
 
+    // reconciliation_linksテーブルを作成（分割突合対応）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.reconciliation_links (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        group_id VARCHAR NOT NULL,
+        order_forecast_id VARCHAR NOT NULL,
+        gl_entry_id VARCHAR NOT NULL,
+        match_type TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_reconciliation_links_group_id
+      ON app.reconciliation_links(group_id)
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_reconciliation_links_order_forecast_id
+      ON app.reconciliation_links(order_forecast_id)
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_reconciliation_links_gl_entry_id
+      ON app.reconciliation_links(gl_entry_id)
+    `);
+    console.log("✅ reconciliation_linksテーブルを作成");
+
+    // reconciliation_logsテーブルに取り消し日時カラムを追加
+    await pool.query(`
+      ALTER TABLE app.reconciliation_logs
+      ADD COLUMN IF NOT EXISTS rolled_back_at TIMESTAMP
+    `);
+    console.log("✅ reconciliation_logsテーブルにrolled_back_atカラムを追加");
+
+    // reconciliation_log_detailsテーブルを作成（突合実行ごとの明細）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.reconciliation_log_details (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        reconciliation_log_id VARCHAR NOT NULL,
+        group_id VARCHAR NOT NULL,
+        order_forecast_id VARCHAR NOT NULL,
+        gl_entry_id VARCHAR NOT NULL,
+        match_type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        score INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_reconciliation_log_details_log_id
+      ON app.reconciliation_log_details(reconciliation_log_id)
+    `);
+    console.log("✅ reconciliation_log_detailsテーブルを作成");
+
+    // reconciliation_rulesテーブルを作成（突合ルールマスタ）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.reconciliation_rules (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        name TEXT NOT NULL,
+        priority INTEGER NOT NULL DEFAULT 100,
+        account_codes TEXT,
+        month_tolerance INTEGER NOT NULL DEFAULT 0,
+        ignore_description TEXT NOT NULL DEFAULT 'false',
+        amount_tolerance DECIMAL(14, 2) NOT NULL DEFAULT 0,
+        is_active TEXT NOT NULL DEFAULT 'true',
+        remarks TEXT,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    console.log("✅ reconciliation_rulesテーブルを作成");
+
+    // reconciliation_log_detailsテーブルに判定ルールのカラムを追加
+    await pool.query(`
+      ALTER TABLE app.reconciliation_log_details
+      ADD COLUMN IF NOT EXISTS rule_id VARCHAR,
+      ADD COLUMN IF NOT EXISTS rule_name TEXT
+    `);
+    console.log("✅ reconciliation_log_detailsテーブルにrule_id, rule_nameカラムを追加");
+
+    // reconciliation_aliasesテーブルを作成（突合エイリアス辞書）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.reconciliation_aliases (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        alias_type TEXT NOT NULL,
+        order_text TEXT NOT NULL,
+        gl_text TEXT NOT NULL,
+        match_count INTEGER NOT NULL DEFAULT 1,
+        last_matched_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        CONSTRAINT reconciliation_aliases_alias_type_order_text_gl_text_unique
+          UNIQUE (alias_type, order_text, gl_text)
+      )
+    `);
+    console.log("✅ reconciliation_aliasesテーブルを作成");
+
+    // order_forecasts・gl_entriesテーブルに月度をまたいだ突合フラグを追加
+    await pool.query(`
+      ALTER TABLE app.order_forecasts
+      ADD COLUMN IF NOT EXISTS is_cross_period TEXT NOT NULL DEFAULT 'false'
+    `);
+    await pool.query(`
+      ALTER TABLE app.gl_entries
+      ADD COLUMN IF NOT EXISTS is_cross_period TEXT NOT NULL DEFAULT 'false'
+    `);
+    console.log("✅ order_forecasts, gl_entriesテーブルにis_cross_periodカラムを追加");
+
+    // accounting_periodsテーブルを作成（月度の締め管理）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.accounting_periods (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        period TEXT NOT NULL UNIQUE,
+        status TEXT NOT NULL DEFAULT 'open',
+        closed_at TIMESTAMP,
+        closed_by_user_id VARCHAR,
+        reopened_at TIMESTAMP,
+        reopened_by_user_id VARCHAR,
+        reopen_reason TEXT,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    console.log("✅ accounting_periodsテーブルを作成");
+
+    // period_lock_overridesテーブルを作成（締め済み期間の変更履歴）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.period_lock_overrides (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        period TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        user_id VARCHAR NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    console.log("✅ period_lock_overridesテーブルを作成");
+
+    // gl_import_profilesテーブルを作成（GL CSV取込プロファイル）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.gl_import_profiles (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        name TEXT NOT NULL UNIQUE,
+        encoding TEXT NOT NULL DEFAULT 'auto',
+        skip_header_rows INTEGER NOT NULL DEFAULT 0,
+        date_format TEXT NOT NULL DEFAULT 'auto',
+        amount_format TEXT NOT NULL DEFAULT 'separate',
+        debit_flag_value TEXT,
+        column_mapping JSONB NOT NULL,
+        account_codes TEXT,
+        is_default TEXT NOT NULL DEFAULT 'false',
+        remarks TEXT,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    console.log("✅ gl_import_profilesテーブルを作成");
+
+    // import_batchesテーブルを作成（取込バッチ）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.import_batches (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        import_type TEXT NOT NULL,
+        file_name TEXT NOT NULL,
+        sheet_name TEXT,
+        status TEXT NOT NULL DEFAULT 'staged',
+        fiscal_year INTEGER,
+        profile_id VARCHAR,
+        target_account_codes TEXT,
+        total_rows INTEGER NOT NULL DEFAULT 0,
+        valid_rows INTEGER NOT NULL DEFAULT 0,
+        error_rows INTEGER NOT NULL DEFAULT 0,
+        excluded_rows INTEGER NOT NULL DEFAULT 0,
+        result JSONB,
+        created_by_user_id VARCHAR,
+        created_by_employee_id VARCHAR,
+        committed_at TIMESTAMP,
+        committed_by_user_id VARCHAR,
+        reverted_at TIMESTAMP,
+        reverted_by_user_id VARCHAR,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    console.log("✅ import_batchesテーブルを作成");
+
+    // import_batch_rowsテーブルを作成（取込バッチ明細）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.import_batch_rows (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        batch_id VARCHAR NOT NULL,
+        row_no INTEGER NOT NULL,
+        values JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'valid',
+        error_message TEXT,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_import_batch_rows_batch_id
+      ON app.import_batch_rows(batch_id)
+    `);
+    console.log("✅ import_batch_rowsテーブルを作成");
+
+    // gl_entries・order_forecasts・angle_b_forecastsテーブルに取込バッチIDを追加
+    for (const table of ["gl_entries", "order_forecasts", "angle_b_forecasts"]) {
+      await pool.query(`
+        ALTER TABLE app.${table}
+        ADD COLUMN IF NOT EXISTS import_batch_id VARCHAR
+      `);
+    }
+    console.log(
+      "✅ gl_entries, order_forecasts, angle_b_forecastsテーブルにimport_batch_idカラムを追加"
+    );
+
+    // accounting_itemsテーブルに集計区分・符号・表示順・GL取込対象を追加
+    await pool.query(`
+      ALTER TABLE app.accounting_items
+      ADD COLUMN IF NOT EXISTS category TEXT,
+      ADD COLUMN IF NOT EXISTS sign INTEGER NOT NULL DEFAULT 1,
+      ADD COLUMN IF NOT EXISTS display_order INTEGER NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS gl_import_target TEXT NOT NULL DEFAULT 'false'
+    `);
+    // 既存の計上科目に従来の集計区分を設定（集計区分が未設定の科目のみ）
+    await pool.query(`
+      UPDATE app.accounting_items AS ai
+      SET category = v.category,
+          sign = v.sign,
+          display_order = v.display_order,
+          gl_import_target = v.gl_import_target
+      FROM (VALUES
+        ('511', 'revenue', 1, 10, 'true'),
+        ('512', 'revenue', 1, 20, 'true'),
+        ('513', 'revenue', 1, 30, 'true'),
+        ('514', 'revenue', 1, 40, 'true'),
+        ('541', 'costOfSales', 1, 50, 'true'),
+        ('515', 'revenue', 1, 60, 'true'),
+        ('727', 'sgaExpenses', 1, 70, 'true'),
+        ('737', 'sgaExpenses', 1, 80, 'true'),
+        ('740', 'sgaExpenses', 1, 90, 'true'),
+        ('745', 'sgaExpenses', 1, 100, 'true'),
+        ('1100', 'inventoryAdjustment', 1, 110, 'false'),
+        ('1200', 'inventoryAdjustment', 1, 120, 'false'),
+        ('1300', 'inventoryAdjustment', -1, 130, 'false'),
+        ('1400', 'inventoryAdjustment', -1, 140, 'false'),
+        ('9999', 'sgaExpenses', 1, 150, 'false')
+      ) AS v(code, category, sign, display_order, gl_import_target)
+      WHERE ai.code = v.code AND ai.category IS NULL
+    `);
+    console.log(
+      "✅ accounting_itemsテーブルにcategory, sign, display_order, gl_import_targetカラムを追加"
+    );
+
+    // gl_voucher_exclusionsテーブルを作成（GL伝票の取込対象外明細）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.gl_voucher_exclusions (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        voucher_no TEXT NOT NULL,
+        period TEXT NOT NULL,
+        line_count INTEGER NOT NULL DEFAULT 0,
+        debit_amount DECIMAL(14, 2) NOT NULL DEFAULT 0,
+        credit_amount DECIMAL(14, 2) NOT NULL DEFAULT 0,
+        account_codes TEXT,
+        import_batch_id VARCHAR,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        CONSTRAINT gl_voucher_exclusions_voucher_no_period_unique
+          UNIQUE (voucher_no, period)
+      )
+    `);
+    await pool.query(`
+      ALTER TABLE app.import_batches
+      ADD COLUMN IF NOT EXISTS voucher_exclusions JSONB
+    `);
+    console.log(
+      "✅ gl_voucher_exclusionsテーブルを作成、import_batchesテーブルにvoucher_exclusionsカラムを追加"
+    );
+
+    // forecast_snapshotsテーブルを作成（受発注見込みスナップショット）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.forecast_snapshots (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        fiscal_year INTEGER NOT NULL,
+        snapshot_date DATE NOT NULL,
+        name TEXT,
+        lines JSONB NOT NULL,
+        created_by_employee_id VARCHAR,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    console.log("✅ forecast_snapshotsテーブルを作成");
+
+    // gl_anomaliesテーブルを作成（GLデータの異常検知結果）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.gl_anomalies (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        gl_entry_id VARCHAR NOT NULL,
+        period TEXT NOT NULL,
+        anomaly_type TEXT NOT NULL,
+        message TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        dismiss_comment TEXT,
+        dismissed_by VARCHAR,
+        dismissed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        CONSTRAINT gl_anomalies_gl_entry_id_anomaly_type_unique
+          UNIQUE (gl_entry_id, anomaly_type)
+      )
+    `);
+    console.log("✅ gl_anomaliesテーブルを作成");
+
+    // order_forecast_historiesテーブルを作成（受発注データの変更履歴）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.order_forecast_histories (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        order_forecast_id VARCHAR NOT NULL,
+        action TEXT NOT NULL,
+        changes JSONB NOT NULL,
+        snapshot JSONB NOT NULL,
+        version INTEGER,
+        changed_by_user_id VARCHAR,
+        changed_by_employee_id VARCHAR,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_order_forecast_histories_order_forecast_id
+      ON app.order_forecast_histories(order_forecast_id)
+    `);
+    console.log("✅ order_forecast_historiesテーブルを作成");
+
+    // recurring_forecast_templatesテーブルを作成（定期売上テンプレート）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.recurring_forecast_templates (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_code TEXT NOT NULL,
+        project_name TEXT NOT NULL,
+        customer_id VARCHAR,
+        customer_code TEXT,
+        customer_name TEXT,
+        accounting_item TEXT NOT NULL,
+        description_pattern TEXT NOT NULL,
+        monthly_amount DECIMAL(14, 2) NOT NULL,
+        start_month TEXT NOT NULL,
+        end_month TEXT,
+        billing_cycle TEXT NOT NULL DEFAULT 'monthly',
+        is_active TEXT NOT NULL DEFAULT 'true',
+        remarks TEXT,
+        created_by_user_id VARCHAR,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    console.log("✅ recurring_forecast_templatesテーブルを作成");
+
+    // order_forecastsテーブルに生成元の定期売上テンプレートIDを追加
+    await pool.query(`
+      ALTER TABLE app.order_forecasts
+      ADD COLUMN IF NOT EXISTS recurring_template_id VARCHAR
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_order_forecasts_recurring_template_id
+      ON app.order_forecasts(recurring_template_id)
+    `);
+    console.log("✅ order_forecastsテーブルにrecurring_template_idカラムを追加");
+
+    // forecast_split_groupsテーブルを作成（分割計上グループ）
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app.forecast_split_groups (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        target_type TEXT NOT NULL,
+        total_amount DECIMAL(14, 2) NOT NULL,
+        start_month TEXT NOT NULL,
+        months INTEGER NOT NULL,
+        pattern TEXT NOT NULL,
+        percentages JSONB,
+        created_by_user_id VARCHAR,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    console.log("✅ forecast_split_groupsテーブルを作成");
+
+    // order_forecasts, angle_b_forecastsテーブルに分割計上グループIDを追加
+    for (const table of ["order_forecasts", "angle_b_forecasts"]) {
+      await pool.query(`
+        ALTER TABLE app.${table}
+        ADD COLUMN IF NOT EXISTS split_group_id VARCHAR
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_${table}_split_group_id
+        ON app.${table}(split_group_id)
+      `);
+    }
+    console.log("✅ order_forecasts, angle_b_forecastsテーブルにsplit_group_idカラムを追加");
+
     console.log("\n🎉 テーブル変更が完了しました！");
     console.log("変更内容を必ず確認してください。");
   } catch (error) {
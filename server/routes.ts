@@ -2,6 +2,7 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 
 import accountingItemsRoutes from "./routes/accountingItems";
+import accountingPeriodsRoutes from "./routes/accountingPeriods";
 import angleBForecastsRoutes from "./routes/angleBForecasts";
 import auditRoutes from "./routes/audit";
 import authRoutes from "./routes/auth";
@@ -11,12 +12,19 @@ import budgetsTargetRoutes from "./routes/budgetsTarget";
 import customersRoutes from "./routes/customers";
 import dashboardRoutes from "./routes/dashboard";
 import employeesRoutes from "./routes/employees";
+import forecastAccuracyRoutes from "./routes/forecastAccuracy";
 import forecastImportRoutes from "./routes/forecastImport";
+import forecastSplitsRoutes from "./routes/forecastSplits";
 import glEntriesRoutes from "./routes/glEntries";
+import glImportProfilesRoutes from "./routes/glImportProfiles";
+import importBatchesRoutes from "./routes/importBatches";
 import itemsRoutes from "./routes/items";
 import orderForecastsRoutes from "./routes/orderForecasts";
 import projectsRoutes from "./routes/projects";
 import reconciliationRoutes from "./routes/reconciliation";
+import reconciliationAliasesRoutes from "./routes/reconciliationAliases";
+import reconciliationRulesRoutes from "./routes/reconciliationRules";
+import recurringForecastsRoutes from "./routes/recurringForecasts";
 import staffingRoutes from "./routes/staffing";
 
 export function registerRoutes(app: Express): Server {
@@ -30,11 +38,19 @@ export function registerRoutes(app: Express): Server {
   app.use("/api/customers", customersRoutes);
   app.use("/api/projects", projectsRoutes);
   app.use("/api/order-forecasts", orderForecastsRoutes);
+  app.use("/api/recurring-forecast-templates", recurringForecastsRoutes);
   app.use("/api/angle-b-forecasts", angleBForecastsRoutes);
+  app.use("/api/forecast-splits", forecastSplitsRoutes);
   app.use("/api/forecast-import", forecastImportRoutes);
+  app.use("/api/forecast-accuracy", forecastAccuracyRoutes);
   app.use("/api/gl-entries", glEntriesRoutes);
+  app.use("/api/gl-import-profiles", glImportProfilesRoutes);
+  app.use("/api/import-batches", importBatchesRoutes);
   app.use("/api/reconciliation", reconciliationRoutes);
+  app.use("/api/reconciliation-rules", reconciliationRulesRoutes);
+  app.use("/api/reconciliation-aliases", reconciliationAliasesRoutes);
   app.use("/api/accounting-items", accountingItemsRoutes);
+  app.use("/api/accounting-periods", accountingPeriodsRoutes);
   app.use("/api/items", itemsRoutes);
   app.use("/api/budgets/revenue", budgetsRevenueRoutes);
   app.use("/api/budgets/expense", budgetsExpenseRoutes);
@@ -1,3 +1,4 @@
+import { ACCOUNTING_ITEM_CATEGORIES } from "@shared/schema/accountingItem";
 import { insertAccountingItemSchema } from "@shared/schema/integrated";
 import express, { type Request, Response } from "express";
 import { z } from "zod";
@@ -11,10 +12,15 @@ const accountingItemRepository = new AccountingItemRepository();
 const accountingItemService = new AccountingItemService(accountingItemRepository);
 
 // 会計項目作成スキーマ
-const createAccountingItemSchema = insertAccountingItemSchema;
+const createAccountingItemSchema = insertAccountingItemSchema.extend({
+  category: z.enum(ACCOUNTING_ITEM_CATEGORIES).nullable().optional(),
+  sign: z.union([z.literal(1), z.literal(-1)]).optional(),
+  displayOrder: z.number().int().min(0).optional(),
+  glImportTarget: z.enum(["true", "false"]).optional(),
+});
 
 // 会計項目更新スキーマ
-const updateAccountingItemSchema = insertAccountingItemSchema.partial();
+const updateAccountingItemSchema = createAccountingItemSchema.partial();
 
 // 会計項目検索スキーマ
 const searchAccountingItemSchema = z.object({
@@ -23,7 +29,7 @@ const searchAccountingItemSchema = z.object({
   name: z.string().optional(),
   page: z.string().transform(Number).optional().default("1"),
   limit: z.string().transform(Number).optional().default("20"),
-  sortBy: z.enum(["code", "name", "createdAt"]).optional().default("createdAt"),
+  sortBy: z.enum(["code", "name", "displayOrder", "createdAt"]).optional().default("createdAt"),
   sortOrder: z.enum(["asc", "desc"]).optional().default("desc"),
 });
 
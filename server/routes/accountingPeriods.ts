@@ -0,0 +1,151 @@
+import express, { type Request, Response } from "express";
+import { z } from "zod";
+
+import { requireAuth, requireOperationPermission } from "../middleware/auth";
+import { AccountingPeriodService } from "../services/accountingPeriodService";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
+
+const router = express.Router();
+const accountingPeriodRepository = new AccountingPeriodRepository();
+const accountingPeriodService = new AccountingPeriodService(accountingPeriodRepository);
+
+// 期間パラメータスキーマ
+const periodParamSchema = z.object({
+  period: z.string().regex(/^\d{4}-\d{2}$/, "期間はYYYY-MM形式で指定してください"),
+});
+
+// 締め解除スキーマ
+const reopenSchema = z.object({
+  reason: z.string().trim().min(1, "締め解除の理由は必須です"),
+});
+
+/**
+ * 会計期間一覧取得API
+ * GET /api/accounting-periods
+ */
+router.get("/", requireAuth, async (_req: Request, res: Response) => {
+  try {
+    const { periods, totalCount } = await accountingPeriodService.getAccountingPeriods();
+
+    res.json({
+      success: true,
+      data: {
+        items: periods,
+        total: totalCount,
+      },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "会計期間一覧の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 締め済み期間の変更履歴取得API
+ * GET /api/accounting-periods/:period/overrides
+ */
+router.get("/:period/overrides", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { period } = periodParamSchema.parse(req.params);
+    const overrides = await accountingPeriodService.getOverrides(period);
+
+    res.json({
+      success: true,
+      data: overrides,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "変更履歴の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 月度締めAPI
+ * POST /api/accounting-periods/:period/close
+ * 管理者のみ利用可能
+ */
+router.post(
+  "/:period/close",
+  requireAuth,
+  requireOperationPermission("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { period } = periodParamSchema.parse(req.params);
+      const user = (req as any).user;
+
+      const accountingPeriod = await accountingPeriodService.closePeriod(period, user.id);
+
+      res.json({
+        success: true,
+        data: accountingPeriod,
+        message: `${period}を締めました`,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "入力値が正しくありません",
+          errors: error.errors,
+        });
+      }
+
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || "月度の締め処理中にエラーが発生しました",
+      });
+    }
+  }
+);
+
+/**
+ * 月度締め解除API
+ * POST /api/accounting-periods/:period/reopen
+ * 管理者のみ利用可能
+ */
+router.post(
+  "/:period/reopen",
+  requireAuth,
+  requireOperationPermission("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { period } = periodParamSchema.parse(req.params);
+      const { reason } = reopenSchema.parse(req.body);
+      const user = (req as any).user;
+
+      const accountingPeriod = await accountingPeriodService.reopenPeriod(period, user.id, reason);
+
+      res.json({
+        success: true,
+        data: accountingPeriod,
+        message: `${period}の締めを解除しました`,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "入力値が正しくありません",
+          errors: error.errors,
+        });
+      }
+
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || "月度の締め解除中にエラーが発生しました",
+      });
+    }
+  }
+);
+
+export default router;
@@ -3,7 +3,12 @@ import express, { type Request, Response } from "express";
 import { z } from "zod";
 
 import { requireAuth } from "../middleware/auth";
+import { VersionConflictError } from "../middleware/errorHandler";
+import { getPeriodLockOverride } from "../middleware/periodLock";
+import { AccountingPeriodService } from "../services/accountingPeriodService";
 import { AngleBForecastService } from "../services/angleBForecastService";
+import { OrderForecastHistoryService } from "../services/orderForecastHistoryService";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
 import { AngleBForecastRepository } from "../storage/angleBForecast";
 import { OrderForecastRepository } from "../storage/orderForecast";
 
@@ -12,7 +17,9 @@ const angleBForecastRepository = new AngleBForecastRepository();
 const orderForecastRepository = new OrderForecastRepository();
 const angleBForecastService = new AngleBForecastService(
   angleBForecastRepository,
-  orderForecastRepository
+  orderForecastRepository,
+  new AccountingPeriodService(new AccountingPeriodRepository()),
+  new OrderForecastHistoryService(orderForecastRepository)
 );
 
 // 角度B案件作成スキーマ
@@ -29,6 +36,7 @@ const updateAngleBForecastSchema = insertAngleBForecastSchema.partial().extend({
   customerId: z.string().optional().nullable(),
   customerCode: z.string().optional().nullable(),
   customerName: z.string().optional().nullable(),
+  version: z.number().int(), // 編集開始時点のバージョン（楽観ロック）
 });
 
 // 角度B案件検索スキーマ
@@ -164,16 +172,19 @@ router.post("/", requireAuth, async (req: Request, res: Response) => {
   try {
     const data = createAngleBForecastSchema.parse(req.body);
     const user = (req as any).user;
-    const angleBForecast = await angleBForecastService.createAngleBForecast({
-      ...data,
-      createdByUserId: user.id,
-      createdByEmployeeId: user.employee?.id?.toString(),
-    });
+    const angleBForecast = await angleBForecastService.createAngleBForecast(
+      {
+        ...data,
+        createdByUserId: user.id,
+        createdByEmployeeId: user.employee?.id?.toString(),
+      },
+      getPeriodLockOverride(req)
+    );
     res.status(201).json({
       success: true,
       data: angleBForecast,
     });
-  } catch (error) {
+  } catch (error: any) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({
         success: false,
@@ -182,9 +193,9 @@ router.post("/", requireAuth, async (req: Request, res: Response) => {
       });
     }
     console.error("角度B案件作成エラー:", error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
-      message: "角度B案件の作成中にエラーが発生しました",
+      message: error.statusCode ? error.message : "角度B案件の作成中にエラーが発生しました",
     });
   }
 });
@@ -196,13 +207,18 @@ router.post("/", requireAuth, async (req: Request, res: Response) => {
 router.put("/:id", requireAuth, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const data = updateAngleBForecastSchema.parse(req.body);
-    const angleBForecast = await angleBForecastService.updateAngleBForecast(id, data);
+    const { version, ...data } = updateAngleBForecastSchema.parse(req.body);
+    const angleBForecast = await angleBForecastService.updateAngleBForecast(
+      id,
+      data,
+      version,
+      getPeriodLockOverride(req)
+    );
     res.json({
       success: true,
       data: angleBForecast,
     });
-  } catch (error) {
+  } catch (error: any) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({
         success: false,
@@ -210,8 +226,17 @@ router.put("/:id", requireAuth, async (req: Request, res: Response) => {
         errors: error.errors,
       });
     }
+    // 他のユーザーが先に更新していた場合は、サーバー上の最新データを返す
+    if (error instanceof VersionConflictError) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        data: error.current,
+      });
+    }
     console.error("角度B案件更新エラー:", error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       message: error instanceof Error ? error.message : "角度B案件の更新中にエラーが発生しました",
     });
@@ -225,11 +250,11 @@ router.put("/:id", requireAuth, async (req: Request, res: Response) => {
 router.delete("/:id", requireAuth, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    await angleBForecastService.deleteAngleBForecast(id);
+    await angleBForecastService.deleteAngleBForecast(id, getPeriodLockOverride(req));
     res.status(204).send();
-  } catch (error) {
+  } catch (error: any) {
     console.error("角度B案件削除エラー:", error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       message: error instanceof Error ? error.message : "角度B案件の削除中にエラーが発生しました",
     });
@@ -243,15 +268,19 @@ router.delete("/:id", requireAuth, async (req: Request, res: Response) => {
 router.post("/:id/promote", requireAuth, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const result = await angleBForecastService.promoteToOrderForecast(id);
+    const result = await angleBForecastService.promoteToOrderForecast(
+      id,
+      { userId: req.user?.id, employeeId: req.user?.employeeId?.toString() },
+      getPeriodLockOverride(req)
+    );
     res.json({
       success: true,
       data: result,
       message: "角度B案件を受発注見込に昇格しました",
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error("角度B案件昇格エラー:", error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       message: error instanceof Error ? error.message : "角度B案件の昇格中にエラーが発生しました",
     });
@@ -0,0 +1,155 @@
+import express, { type Request, Response } from "express";
+import { z } from "zod";
+
+import { requireAuth } from "../middleware/auth";
+import { ForecastAccuracyService } from "../services/forecastAccuracyService";
+import { AccountingItemRepository } from "../storage/accountingItem";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
+import { ForecastSnapshotRepository } from "../storage/forecastSnapshot";
+import { GLEntryRepository } from "../storage/glEntry";
+import { OrderForecastRepository } from "../storage/orderForecast";
+
+const router = express.Router();
+const forecastAccuracyService = new ForecastAccuracyService(
+  new ForecastSnapshotRepository(),
+  new OrderForecastRepository(),
+  new GLEntryRepository(),
+  new AccountingItemRepository(),
+  new AccountingPeriodRepository()
+);
+
+// 年度クエリスキーマ
+const fiscalYearQuerySchema = z.object({
+  fiscalYear: z.coerce.number().int().min(2000).max(2100),
+});
+
+// スナップショット作成スキーマ
+const createSnapshotSchema = z.object({
+  fiscalYear: z.coerce.number().int().min(2000).max(2100),
+  name: z.string().trim().max(100).optional(),
+});
+
+// 見込み精度評価クエリスキーマ
+const accuracyQuerySchema = z.object({
+  fiscalYear: z.coerce.number().int().min(2000).max(2100),
+  leadMonths: z.coerce.number().int().min(1).max(12).optional(),
+  includeOpenPeriods: z.enum(["true", "false"]).optional(),
+});
+
+/**
+ * 見込みスナップショット一覧取得API
+ * GET /api/forecast-accuracy/snapshots?fiscalYear=2025
+ */
+router.get("/snapshots", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { fiscalYear } = fiscalYearQuerySchema.parse(req.query);
+    const snapshots = await forecastAccuracyService.getSnapshots(fiscalYear);
+
+    res.json({
+      success: true,
+      data: snapshots,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "見込みスナップショット一覧の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 見込みスナップショット作成API
+ * POST /api/forecast-accuracy/snapshots
+ * 現在の受発注データを営業担当者・サービス区分・計上科目・月別に集計して保存する
+ */
+router.post("/snapshots", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { fiscalYear, name } = createSnapshotSchema.parse(req.body);
+    const snapshot = await forecastAccuracyService.createSnapshot(
+      fiscalYear,
+      name,
+      String(req.user!.employeeId)
+    );
+
+    res.status(201).json({
+      success: true,
+      data: snapshot,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "見込みスナップショットの作成中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 見込みスナップショット削除API
+ * DELETE /api/forecast-accuracy/snapshots/:id
+ */
+router.delete("/snapshots/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    await forecastAccuracyService.deleteSnapshot(req.params.id);
+
+    res.json({
+      success: true,
+      message: "見込みスナップショットを削除しました",
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "見込みスナップショットの削除中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 見込み精度評価API
+ * GET /api/forecast-accuracy?fiscalYear=2025&leadMonths=1&includeOpenPeriods=false
+ * 過去のスナップショット時点の見込みと突合済みGL実績を比較し、営業担当者・サービス区分・計上科目別の精度と偏りを返す
+ */
+router.get("/", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const query = accuracyQuerySchema.parse(req.query);
+    const result = await forecastAccuracyService.getAccuracy(query.fiscalYear, {
+      leadMonths: query.leadMonths,
+      includeOpenPeriods: query.includeOpenPeriods === "true",
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "見込み精度の評価中にエラーが発生しました",
+    });
+  }
+});
+
+export default router;
@@ -2,8 +2,8 @@
  * 受注見込み・角度B案件CSV取込API
  *
  * 責務:
- * - CSVファイルのアップロード受付
- * - CSV取込処理の実行
+ * - CSV・XLSXファイルのアップロード受付
+ * - CSV・XLSX取込処理の実行
  * - 取込結果の返却
  */
 
@@ -12,8 +12,16 @@ import multer from "multer";
 import { z } from "zod";
 
 import { requireAuth } from "../middleware/auth";
+import { getPeriodLockOverride } from "../middleware/periodLock";
+import { AccountingPeriodService } from "../services/accountingPeriodService";
 import { ForecastImportService } from "../services/forecastImportService";
+import {
+  IMPORT_FILE_EXTENSIONS,
+  IMPORT_FILE_MIME_TYPES,
+  SpreadsheetService,
+} from "../services/spreadsheetService";
 import { AccountingItemRepository } from "../storage/accountingItem";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
 import { AngleBForecastRepository } from "../storage/angleBForecast";
 import { OrderForecastRepository } from "../storage/orderForecast";
 import { ProjectRepository } from "../storage/project";
@@ -29,24 +37,24 @@ const forecastImportService = new ForecastImportService(
   orderForecastRepository,
   angleBForecastRepository,
   projectRepository,
-  accountingItemRepository
+  accountingItemRepository,
+  new AccountingPeriodService(new AccountingPeriodRepository())
 );
+const spreadsheetService = new SpreadsheetService();
 
-// CSVアップロード用のmulter設定
-const csvUpload = multer({
+// CSV・XLSXアップロード用のmulter設定
+const importUpload = multer({
   storage: multer.memoryStorage(),
   limits: {
     fileSize: 50 * 1024 * 1024, // 50MB
   },
   fileFilter: (_req, file, cb) => {
-    const allowedMimeTypes = ["text/csv", "application/vnd.ms-excel", "text/plain"];
-    const allowedExtensions = [".csv"];
     const ext = "." + file.originalname.split(".").pop()?.toLowerCase();
 
-    if (allowedMimeTypes.includes(file.mimetype) && allowedExtensions.includes(ext)) {
+    if (IMPORT_FILE_MIME_TYPES.includes(file.mimetype) && IMPORT_FILE_EXTENSIONS.includes(ext)) {
       cb(null, true);
     } else {
-      cb(new Error("CSVファイルのみアップロード可能です"));
+      cb(new Error("CSVまたはXLSXファイルのみアップロード可能です"));
     }
   },
 });
@@ -63,13 +71,13 @@ const importCSVSchema = z.object({
 router.post(
   "/order-forecasts",
   requireAuth,
-  csvUpload.single("file"),
+  importUpload.single("file"),
   async (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({
           success: false,
-          message: "CSVファイルがアップロードされていません",
+          message: "CSVまたはXLSXファイルがアップロードされていません",
         });
       }
 
@@ -90,12 +98,18 @@ router.post(
       const userId = user?.id || "";
       const employeeId = user?.employee?.id?.toString();
 
-      // CSV取込処理
+      // CSV・XLSX取込処理
+      const source = spreadsheetService.resolveSource(
+        req.file.originalname,
+        typeof req.body.sheetName === "string" ? req.body.sheetName : undefined
+      );
       const result = await forecastImportService.importOrderForecastsFromCSV(
         req.file.buffer,
         body.fiscalYear,
         userId,
-        employeeId
+        employeeId,
+        source,
+        getPeriodLockOverride(req)
       );
 
       res.json({
@@ -127,13 +141,13 @@ router.post(
 router.post(
   "/angle-b-forecasts",
   requireAuth,
-  csvUpload.single("file"),
+  importUpload.single("file"),
   async (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({
           success: false,
-          message: "CSVファイルがアップロードされていません",
+          message: "CSVまたはXLSXファイルがアップロードされていません",
         });
       }
 
@@ -154,12 +168,18 @@ router.post(
       const userId = user?.id || "";
       const employeeId = user?.employee?.id?.toString();
 
-      // CSV取込処理
+      // CSV・XLSX取込処理
+      const source = spreadsheetService.resolveSource(
+        req.file.originalname,
+        typeof req.body.sheetName === "string" ? req.body.sheetName : undefined
+      );
       const result = await forecastImportService.importAngleBForecastsFromCSV(
         req.file.buffer,
         body.fiscalYear,
         userId,
-        employeeId
+        employeeId,
+        source,
+        getPeriodLockOverride(req)
       );
 
       res.json({
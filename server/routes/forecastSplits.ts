@@ -0,0 +1,187 @@
+import express, { type Request, Response } from "express";
+import { z } from "zod";
+
+import { requireAuth } from "../middleware/auth";
+import { getPeriodLockOverride } from "../middleware/periodLock";
+import { AccountingPeriodService } from "../services/accountingPeriodService";
+import { ForecastSplitService } from "../services/forecastSplitService";
+import { OrderForecastHistoryService } from "../services/orderForecastHistoryService";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
+import { AngleBForecastRepository } from "../storage/angleBForecast";
+import { CustomerRepository } from "../storage/customer";
+import { ForecastSplitGroupRepository } from "../storage/forecastSplit";
+import { OrderForecastRepository } from "../storage/orderForecast";
+import { ProjectRepository } from "../storage/project";
+
+const router = express.Router();
+const orderForecastRepository = new OrderForecastRepository();
+const forecastSplitService = new ForecastSplitService(
+  new ForecastSplitGroupRepository(),
+  orderForecastRepository,
+  new AngleBForecastRepository(),
+  new ProjectRepository(),
+  new CustomerRepository(),
+  new AccountingPeriodService(new AccountingPeriodRepository()),
+  new OrderForecastHistoryService(orderForecastRepository)
+);
+
+// 分割条件スキーマ
+const splitScheduleSchema = z.object({
+  totalAmount: z
+    .union([z.string(), z.number()])
+    .transform(String)
+    .refine((value) => value.trim() !== "" && !isNaN(Number(value)), {
+      message: "総額は数値で指定してください",
+    }),
+  startMonth: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "開始年月はYYYY-MM形式で指定してください"),
+  months: z.number().int().min(1, "分割する月数は1以上で指定してください"),
+  pattern: z.enum(["equal", "custom", "working-days"]),
+  percentages: z.array(z.number()).nullable().optional(),
+});
+
+// 分割計上スキーマ
+const splitRequestSchema = splitScheduleSchema.extend({
+  targetType: z.enum(["order-forecast", "angle-b"]),
+  line: z.object({
+    projectId: z.string().min(1, "プロジェクトは必須です"),
+    customerId: z.string().nullable().optional(),
+    accountingItem: z.string().min(1, "計上科目は必須です"),
+    description: z.string().min(1, "摘要文は必須です"),
+    remarks: z.string().nullable().optional(),
+    probability: z.number().int().min(0).max(100).optional(),
+  }),
+});
+
+// 分割計上作成スキーマ
+const createSplitSchema = splitRequestSchema.extend({
+  replaceIds: z.array(z.string()).optional(),
+});
+
+// 受発注データの変更履歴に記録する操作者
+const getHistoryActor = (req: Request) => ({
+  userId: req.user?.id,
+  employeeId: req.user?.employeeId?.toString(),
+});
+
+/**
+ * 分割計上プレビューAPI
+ * POST /api/forecast-splits/preview
+ *
+ * 月別の分割金額を計算する（保存しない）
+ */
+router.post("/preview", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const schedule = splitScheduleSchema.parse(req.body);
+    const allocations = forecastSplitService.previewSplit(schedule);
+    res.json({
+      success: true,
+      data: allocations,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "分割金額の計算中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 分割計上グループ取得API
+ * GET /api/forecast-splits/:id
+ */
+router.get("/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const result = await forecastSplitService.getSplitGroup(id);
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "分割計上グループの取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 分割計上API
+ * POST /api/forecast-splits
+ *
+ * 各月の明細を作成し、replaceIdsで指定した分割元の明細は同じトランザクションで削除する
+ */
+router.post("/", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const data = createSplitSchema.parse(req.body);
+    const result = await forecastSplitService.createSplit(
+      data,
+      getHistoryActor(req),
+      getPeriodLockOverride(req)
+    );
+    res.status(201).json({
+      success: true,
+      data: result,
+      message: `${result.lines.length}か月に分割して計上しました`,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "分割計上中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 再分割API
+ * PUT /api/forecast-splits/:id
+ *
+ * 分割計上グループの明細を新しい分割条件で作り直す
+ */
+router.put("/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = splitRequestSchema.parse(req.body);
+    const result = await forecastSplitService.respreadSplit(
+      id,
+      data,
+      getHistoryActor(req),
+      getPeriodLockOverride(req)
+    );
+    res.json({
+      success: true,
+      data: result,
+      message: `${result.lines.length}か月に再分割しました`,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "再分割中にエラーが発生しました",
+    });
+  }
+});
+
+export default router;
@@ -4,30 +4,52 @@ import multer from "multer";
 import { z } from "zod";
 
 import { requireAuth } from "../middleware/auth";
+import { getPeriodLockOverride } from "../middleware/periodLock";
+import { AccountingPeriodService } from "../services/accountingPeriodService";
+import { GLAnomalyService } from "../services/glAnomalyService";
 import { GLEntryService } from "../services/glEntryService";
+import { GLImportProfileService } from "../services/glImportProfileService";
+import { GLLedgerService } from "../services/glLedgerService";
+import { GLVoucherCheckService } from "../services/glVoucherCheckService";
+import {
+  IMPORT_FILE_EXTENSIONS,
+  IMPORT_FILE_MIME_TYPES,
+  SpreadsheetService,
+} from "../services/spreadsheetService";
+import { AccountingItemRepository } from "../storage/accountingItem";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
 import { GLEntryRepository } from "../storage/glEntry";
+import { GLImportProfileRepository } from "../storage/glImportProfile";
 import { OrderForecastRepository } from "../storage/orderForecast";
 
 const router = express.Router();
 const glEntryRepository = new GLEntryRepository();
 const orderForecastRepository = new OrderForecastRepository();
-const glEntryService = new GLEntryService(glEntryRepository, orderForecastRepository);
+const accountingPeriodService = new AccountingPeriodService(new AccountingPeriodRepository());
+const glEntryService = new GLEntryService(
+  glEntryRepository,
+  orderForecastRepository,
+  accountingPeriodService,
+  new GLImportProfileService(new GLImportProfileRepository(), new AccountingItemRepository())
+);
+const glVoucherCheckService = new GLVoucherCheckService(glEntryRepository);
+const glLedgerService = new GLLedgerService(glEntryRepository);
+const glAnomalyService = new GLAnomalyService(glEntryRepository, new AccountingItemRepository());
+const spreadsheetService = new SpreadsheetService();
 
-// CSVアップロード用のmulter設定
-const csvUpload = multer({
+// CSV・XLSXアップロード用のmulter設定
+const importUpload = multer({
   storage: multer.memoryStorage(),
   limits: {
     fileSize: 50 * 1024 * 1024, // 50MB
   },
   fileFilter: (_req, file, cb) => {
-    const allowedMimeTypes = ["text/csv", "application/vnd.ms-excel", "text/plain"];
-    const allowedExtensions = [".csv"];
     const ext = "." + file.originalname.split(".").pop()?.toLowerCase();
 
-    if (allowedMimeTypes.includes(file.mimetype) && allowedExtensions.includes(ext)) {
+    if (IMPORT_FILE_MIME_TYPES.includes(file.mimetype) && IMPORT_FILE_EXTENSIONS.includes(ext)) {
       cb(null, true);
     } else {
-      cb(new Error("CSVファイルのみアップロード可能です"));
+      cb(new Error("CSVまたはXLSXファイルのみアップロード可能です"));
     }
   },
 });
@@ -60,29 +82,75 @@ const searchGLEntrySchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).optional().default("desc"),
 });
 
+// GL伝票の貸借チェックの対象期間スキーマ
+const voucherCheckQuerySchema = z.object({
+  fiscalYear: z.coerce.number().int().min(2000).max(2100),
+  month: z.coerce.number().int().min(1).max(12).optional(),
+});
+
+// GLデータの異常一覧の取得・スキャンの対象期間スキーマ
+const anomalyQuerySchema = z.object({
+  fiscalYear: z.coerce.number().int().min(2000).max(2100),
+  month: z.coerce.number().int().min(1).max(12).optional(),
+  status: z.enum(["open", "dismissed"]).optional(),
+});
+
+// GLデータの異常の却下スキーマ
+const dismissAnomalySchema = z.object({
+  comment: z.string().trim().min(1, "却下の理由は必須です"),
+});
+
+// 試算表取得スキーマ
+const trialBalanceQuerySchema = z.object({
+  fiscalYear: z.coerce.number().int().min(2000).max(2100),
+});
+
+// 勘定科目元帳取得スキーマ
+const ledgerQuerySchema = z.object({
+  fiscalYear: z.coerce.number().int().min(2000).max(2100),
+  month: z.coerce.number().int().min(1).max(12).optional(),
+});
+
 /**
- * CSV取込API
+ * CSV・XLSX取込API
  * POST /api/gl-entries/import-csv
+ * multipart/form-data（file: CSV・XLSXファイル、profileId: 取込プロファイルID、sheetName: XLSXの読込シート）
  */
 router.post(
   "/import-csv",
   requireAuth,
-  csvUpload.single("file"),
+  importUpload.single("file"),
   async (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({
           success: false,
-          message: "CSVファイルがアップロードされていません",
+          message: "CSVまたはXLSXファイルがアップロードされていません",
         });
       }
 
-      const result = await glEntryService.importFromCSV(req.file.buffer);
+      // プロファイル未指定の場合は既定のプロファイルで取り込む
+      const profileId =
+        typeof req.body.profileId === "string" && req.body.profileId
+          ? req.body.profileId
+          : undefined;
+
+      const source = spreadsheetService.resolveSource(
+        req.file.originalname,
+        typeof req.body.sheetName === "string" ? req.body.sheetName : undefined
+      );
+
+      const result = await glEntryService.importFromFile(
+        req.file.buffer,
+        profileId,
+        source,
+        getPeriodLockOverride(req)
+      );
 
       res.json({
         success: true,
         data: result,
-        message: `CSV取込が完了しました（取込: ${result.importedRows}件、スキップ: ${result.skippedRows}件）`,
+        message: `取込が完了しました（追加: ${result.insertedRows}件、更新: ${result.updatedRows}件、変更なし: ${result.unchangedRows}件、削除: ${result.removedRows}件、スキップ: ${result.skippedRows}件、貸借不一致の伝票: ${result.voucherCheck.unbalancedVouchers}件、一部のみ取込の伝票: ${result.voucherCheck.truncatedVouchers}件、未対応の異常: ${result.anomalyScan.openAnomalies}件）`,
       });
     } catch (error: any) {
       console.error("CSV取込エラー:", error);
@@ -116,7 +184,12 @@ router.post("/set-exclusion", requireAuth, async (req: Request, res: Response) =
       });
     }
 
-    const updatedCount = await glEntryService.setExclusion(ids, isExcluded, exclusionReason);
+    const updatedCount = await glEntryService.setExclusion(
+      ids,
+      isExcluded,
+      exclusionReason,
+      getPeriodLockOverride(req)
+    );
 
     res.json({
       success: true,
@@ -203,6 +276,209 @@ router.get("/", requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GL伝票の貸借チェックAPI
+ * GET /api/gl-entries/voucher-check?fiscalYear=2024&month=4
+ * 伝票番号ごとに借方・貸方の一致と、対象科目外の明細を取り込まなかった伝票を検出する
+ */
+router.get("/voucher-check", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const query = voucherCheckQuerySchema.parse(req.query);
+    const result = await glVoucherCheckService.checkVouchers(query);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "GL伝票の貸借チェック中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * GLデータの異常一覧取得API
+ * GET /api/gl-entries/anomalies?fiscalYear=2024&month=4&status=open
+ * 取込後の自動スキャンで検出した異常を対象の明細とともに返す
+ */
+router.get("/anomalies", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const query = anomalyQuerySchema.parse(req.query);
+    const anomalies = await glAnomalyService.getAnomalies(query);
+
+    res.json({
+      success: true,
+      data: anomalies,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "GLデータの異常一覧の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * GLデータの異常検知スキャンAPI
+ * POST /api/gl-entries/anomalies/scan
+ * 指定した年度・月のGLデータを再スキャンする（取込時は自動でスキャンする）
+ */
+router.post("/anomalies/scan", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const query = anomalyQuerySchema.parse(req.body);
+    const result = await glAnomalyService.scanAnomalies(query);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `スキャンが完了しました（明細: ${result.scannedEntries}件、新たに検出: ${result.newAnomalies}件、未対応: ${result.openAnomalies}件）`,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "GLデータの異常検知中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * GLデータの異常の却下API
+ * POST /api/gl-entries/anomalies/:id/dismiss
+ * 確認済みの異常をコメント付きで却下する（再スキャンしても却下状態は維持される）
+ */
+router.post("/anomalies/:id/dismiss", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { comment } = dismissAnomalySchema.parse(req.body);
+    await glAnomalyService.dismissAnomaly(req.params.id, comment, req.user!.id);
+
+    res.json({
+      success: true,
+      message: "異常を却下しました",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "GLデータの異常の却下中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * GLデータの異常の再開API
+ * POST /api/gl-entries/anomalies/:id/reopen
+ * 却下した異常を未対応に戻す
+ */
+router.post("/anomalies/:id/reopen", requireAuth, async (req: Request, res: Response) => {
+  try {
+    await glAnomalyService.reopenAnomaly(req.params.id);
+
+    res.json({
+      success: true,
+      message: "異常を未対応に戻しました",
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "GLデータの異常の再開中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 月次試算表取得API
+ * GET /api/gl-entries/trial-balance?fiscalYear=2024
+ * 勘定科目ごとに会計年度（4月〜翌年3月）の月次の借方・貸方合計、増減、累計残高を返す
+ */
+router.get("/trial-balance", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const query = trialBalanceQuerySchema.parse(req.query);
+    const result = await glLedgerService.getTrialBalance(query.fiscalYear);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "試算表の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 勘定科目元帳取得API
+ * GET /api/gl-entries/ledger/:accountCode?fiscalYear=2024&month=4
+ * 明細ごとの累計残高を返す（月を指定した場合も残高は期首から計算する）
+ */
+router.get("/ledger/:accountCode", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { accountCode } = req.params;
+    const query = ledgerQuerySchema.parse(req.query);
+    const result = await glLedgerService.getLedger(accountCode, query.fiscalYear, query.month);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "勘定科目元帳の取得中にエラーが発生しました",
+    });
+  }
+});
+
 /**
  * GLデータ詳細取得API
  * GET /api/gl-entries/:id
@@ -295,7 +571,7 @@ router.delete("/period/:period", requireAuth, async (req: Request, res: Response
       });
     }
 
-    const result = await glEntryService.deleteByPeriod(period);
+    const result = await glEntryService.deleteByPeriod(period, getPeriodLockOverride(req));
 
     res.json({
       success: true,
@@ -365,14 +641,14 @@ router.post("/", requireAuth, async (req: Request, res: Response) => {
   try {
     const data = createGLEntrySchema.parse(req.body);
 
-    const glEntry = await glEntryRepository.create(data);
+    const glEntry = await glEntryService.createGLEntry(data, getPeriodLockOverride(req));
 
     res.status(201).json({
       success: true,
       data: glEntry,
       message: "GLデータが正常に作成されました",
     });
-  } catch (error) {
+  } catch (error: any) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({
         success: false,
@@ -382,9 +658,9 @@ router.post("/", requireAuth, async (req: Request, res: Response) => {
     }
 
     console.error("GLデータ作成エラー:", error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
-      message: "GLデータの作成中にエラーが発生しました",
+      message: error.message || "GLデータの作成中にエラーが発生しました",
     });
   }
 });
@@ -398,7 +674,7 @@ router.put("/:id", requireAuth, async (req: Request, res: Response) => {
     const { id } = req.params;
     const data = updateGLEntrySchema.parse(req.body);
 
-    const glEntry = await glEntryService.updateGLEntry(id, data);
+    const glEntry = await glEntryService.updateGLEntry(id, data, getPeriodLockOverride(req));
 
     res.json({
       success: true,
@@ -429,7 +705,7 @@ router.delete("/:id", requireAuth, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    await glEntryService.deleteGLEntry(id);
+    await glEntryService.deleteGLEntry(id, getPeriodLockOverride(req));
 
     res.json({
       success: true,
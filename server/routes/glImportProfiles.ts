@@ -0,0 +1,244 @@
+import express, { type Request, Response } from "express";
+import multer from "multer";
+import { z } from "zod";
+
+import { requireAuth } from "../middleware/auth";
+import { GLImportProfileService } from "../services/glImportProfileService";
+import {
+  IMPORT_FILE_EXTENSIONS,
+  IMPORT_FILE_MIME_TYPES,
+  SpreadsheetService,
+} from "../services/spreadsheetService";
+import { AccountingItemRepository } from "../storage/accountingItem";
+import { GLImportProfileRepository } from "../storage/glImportProfile";
+
+const router = express.Router();
+const glImportProfileRepository = new GLImportProfileRepository();
+const glImportProfileService = new GLImportProfileService(
+  glImportProfileRepository,
+  new AccountingItemRepository()
+);
+const spreadsheetService = new SpreadsheetService();
+
+// プレビュー用のmulter設定（CSV・XLSX）
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB
+  },
+  fileFilter: (_req, file, cb) => {
+    const ext = "." + file.originalname.split(".").pop()?.toLowerCase();
+
+    if (IMPORT_FILE_MIME_TYPES.includes(file.mimetype) && IMPORT_FILE_EXTENSIONS.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error("CSVまたはXLSXファイルのみアップロード可能です"));
+    }
+  },
+});
+
+const columnIndexSchema = z.coerce
+  .number()
+  .int()
+  .min(0, "列番号は0以上で指定してください")
+  .max(199, "列番号は199以下で指定してください");
+
+// 列の割当スキーマ（0始まりの列番号）
+const columnMappingSchema = z.object({
+  voucherNo: columnIndexSchema,
+  transactionDate: columnIndexSchema,
+  accountCode: columnIndexSchema,
+  accountName: columnIndexSchema,
+  description: columnIndexSchema.optional(),
+  debitAmount: columnIndexSchema.optional(),
+  creditAmount: columnIndexSchema.optional(),
+  amount: columnIndexSchema.optional(),
+  debitCreditFlag: columnIndexSchema.optional(),
+});
+
+// プロファイル設定スキーマ（CSVの解釈に使用する項目）
+const profileSettingsSchema = z.object({
+  encoding: z.enum(["auto", "shift_jis", "utf8", "euc-jp"]).default("auto"),
+  skipHeaderRows: z.coerce
+    .number()
+    .int()
+    .min(0, "読み飛ばす行数は0以上で指定してください")
+    .max(100, "読み飛ばす行数は100以下で指定してください")
+    .default(0),
+  dateFormat: z.enum(["auto", "YYYYMMDD", "YYYY/MM/DD", "YYYY-MM-DD"]).default("auto"),
+  amountFormat: z.enum(["separate", "signed", "flag"]).default("separate"),
+  debitFlagValue: z.string().optional().nullable(),
+  columnMapping: columnMappingSchema,
+  accountCodes: z.string().optional().nullable(),
+});
+
+// プロファイル作成スキーマ
+const createProfileSchema = profileSettingsSchema.extend({
+  name: z.string().trim().min(1, "プロファイル名は必須です"),
+  isDefault: z.enum(["true", "false"]).optional(),
+  remarks: z.string().optional().nullable(),
+});
+
+// プロファイル更新スキーマ
+const updateProfileSchema = createProfileSchema.partial();
+
+/**
+ * GL CSV取込プロファイル一覧取得API
+ * GET /api/gl-import-profiles
+ */
+router.get("/", requireAuth, async (_req: Request, res: Response) => {
+  try {
+    const { profiles, totalCount } = await glImportProfileService.getProfiles();
+    const standard = await glImportProfileService.getStandardSettings();
+
+    res.json({
+      success: true,
+      data: {
+        items: profiles,
+        total: totalCount,
+        standard,
+      },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "GL取込プロファイル一覧の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * GL取込プレビューAPI
+ * POST /api/gl-import-profiles/preview
+ * multipart/form-data（file: CSV・XLSXファイル、settings: プロファイル設定のJSON文字列、sheetName: XLSXの読込シート）
+ */
+router.post(
+  "/preview",
+  requireAuth,
+  importUpload.single("file"),
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: "CSVまたはXLSXファイルがアップロードされていません",
+        });
+      }
+
+      const settings = profileSettingsSchema.parse(JSON.parse(req.body.settings ?? "{}"));
+      const source = spreadsheetService.resolveSource(
+        req.file.originalname,
+        typeof req.body.sheetName === "string" ? req.body.sheetName : undefined
+      );
+      const preview = await glImportProfileService.previewFile(req.file.buffer, settings, source);
+
+      res.json({
+        success: true,
+        data: preview,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "入力値が正しくありません",
+          errors: error.errors,
+        });
+      }
+      if (error instanceof SyntaxError) {
+        return res.status(400).json({
+          success: false,
+          message: "プロファイル設定の形式が正しくありません",
+        });
+      }
+
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || "取込プレビュー中にエラーが発生しました",
+      });
+    }
+  }
+);
+
+/**
+ * GL CSV取込プロファイル作成API
+ * POST /api/gl-import-profiles
+ */
+router.post("/", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const data = createProfileSchema.parse(req.body);
+    const profile = await glImportProfileService.createProfile(data);
+
+    res.status(201).json({
+      success: true,
+      data: profile,
+      message: "GL取込プロファイルが正常に作成されました",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "GL取込プロファイルの作成中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * GL CSV取込プロファイル更新API
+ * PUT /api/gl-import-profiles/:id
+ */
+router.put("/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = updateProfileSchema.parse(req.body);
+    const profile = await glImportProfileService.updateProfile(id, data);
+
+    res.json({
+      success: true,
+      data: profile,
+      message: "GL取込プロファイルが正常に更新されました",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "GL取込プロファイルの更新中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * GL CSV取込プロファイル削除API
+ * DELETE /api/gl-import-profiles/:id
+ */
+router.delete("/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    await glImportProfileService.deleteProfile(id);
+
+    res.json({
+      success: true,
+      message: "GL取込プロファイルが正常に削除されました",
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "GL取込プロファイルの削除中にエラーが発生しました",
+    });
+  }
+});
+
+export default router;
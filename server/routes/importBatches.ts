@@ -0,0 +1,320 @@
+/**
+ * 取込バッチ（ステージング）API
+ *
+ * 責務:
+ * - CSV・XLSXファイルの取込バッチへの登録
+ * - 取込バッチ明細の確認・修正
+ * - 取込バッチの反映・破棄・取消
+ */
+
+import express, { type Request, Response } from "express";
+import multer from "multer";
+import { z } from "zod";
+
+import { requireAuth } from "../middleware/auth";
+import { getPeriodLockOverride } from "../middleware/periodLock";
+import { AccountingPeriodService } from "../services/accountingPeriodService";
+import { ForecastImportService } from "../services/forecastImportService";
+import { GLEntryService } from "../services/glEntryService";
+import { GLImportProfileService } from "../services/glImportProfileService";
+import { ImportBatchService } from "../services/importBatchService";
+import {
+  IMPORT_FILE_EXTENSIONS,
+  IMPORT_FILE_MIME_TYPES,
+  SpreadsheetService,
+} from "../services/spreadsheetService";
+import { AccountingItemRepository } from "../storage/accountingItem";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
+import { AngleBForecastRepository } from "../storage/angleBForecast";
+import { GLEntryRepository } from "../storage/glEntry";
+import { GLImportProfileRepository } from "../storage/glImportProfile";
+import { ImportBatchRepository } from "../storage/importBatch";
+import { OrderForecastRepository } from "../storage/orderForecast";
+import { ProjectRepository } from "../storage/project";
+
+const router = express.Router();
+
+// リポジトリとサービスの初期化
+const orderForecastRepository = new OrderForecastRepository();
+const accountingItemRepository = new AccountingItemRepository();
+const accountingPeriodService = new AccountingPeriodService(new AccountingPeriodRepository());
+const glImportProfileService = new GLImportProfileService(
+  new GLImportProfileRepository(),
+  accountingItemRepository
+);
+const importBatchService = new ImportBatchService(
+  new ImportBatchRepository(),
+  new GLEntryService(
+    new GLEntryRepository(),
+    orderForecastRepository,
+    accountingPeriodService,
+    glImportProfileService
+  ),
+  glImportProfileService,
+  new ForecastImportService(
+    orderForecastRepository,
+    new AngleBForecastRepository(),
+    new ProjectRepository(),
+    accountingItemRepository,
+    accountingPeriodService
+  ),
+  accountingPeriodService
+);
+const spreadsheetService = new SpreadsheetService();
+
+// CSV・XLSXアップロード用のmulter設定
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB
+  },
+  fileFilter: (_req, file, cb) => {
+    const ext = "." + file.originalname.split(".").pop()?.toLowerCase();
+
+    if (IMPORT_FILE_MIME_TYPES.includes(file.mimetype) && IMPORT_FILE_EXTENSIONS.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error("CSVまたはXLSXファイルのみアップロード可能です"));
+    }
+  },
+});
+
+const importTypeSchema = z.enum(["gl-entries", "order-forecasts", "angle-b-forecasts"]);
+
+// 取込バッチ一覧の検索条件スキーマ
+const listQuerySchema = z.object({
+  importType: importTypeSchema.optional(),
+  status: z.enum(["staged", "committed", "discarded", "reverted"]).optional(),
+});
+
+// 取込バッチ登録スキーマ（multipart/form-dataのため文字列で受け取る）
+const stageSchema = z
+  .object({
+    importType: importTypeSchema,
+    fiscalYear: z.coerce.number().int().min(2000).max(2100).optional(),
+    profileId: z.string().optional(),
+    sheetName: z.string().optional(),
+  })
+  .refine((data) => data.importType === "gl-entries" || data.fiscalYear !== undefined, {
+    message: "年度が指定されていません",
+    path: ["fiscalYear"],
+  });
+
+// 取込バッチ明細更新スキーマ
+const updateRowSchema = z.object({
+  values: z.record(z.string(), z.string()).optional(),
+  excluded: z.boolean().optional(),
+});
+
+/**
+ * リクエストユーザーの取得
+ */
+const getRequestUser = (req: Request) => {
+  const user = (req as any).user;
+  return { userId: user?.id || "", employeeId: user?.employee?.id?.toString() };
+};
+
+/**
+ * 取込バッチ一覧取得API
+ * GET /api/import-batches
+ */
+router.get("/", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const filter = listQuerySchema.parse(req.query);
+    const batches = await importBatchService.getBatches(filter);
+
+    res.json({
+      success: true,
+      data: batches,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "取込バッチ一覧の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 取込バッチ詳細取得API
+ * GET /api/import-batches/:id
+ */
+router.get("/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = await importBatchService.getBatch(id);
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "取込バッチの取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 取込バッチ登録API（取込ファイルのステージング）
+ * POST /api/import-batches
+ * multipart/form-data（file: CSV・XLSXファイル、importType、fiscalYear、profileId、sheetName）
+ */
+router.post("/", requireAuth, importUpload.single("file"), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: "CSVまたはXLSXファイルがアップロードされていません",
+      });
+    }
+
+    const data = stageSchema.parse(req.body);
+    const source = spreadsheetService.resolveSource(req.file.originalname, data.sheetName);
+    const batch = await importBatchService.stage(
+      req.file.buffer,
+      req.file.originalname,
+      data.importType,
+      { fiscalYear: data.fiscalYear, profileId: data.profileId || undefined, source },
+      getRequestUser(req)
+    );
+
+    res.status(201).json({
+      success: true,
+      data: batch,
+      message: `取込ファイルを読み込みました（取込可能: ${batch.validRows}件、エラー: ${batch.errorRows}件）`,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "取込ファイルの読込中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 取込バッチ明細更新API（値の修正・取込対象外の設定）
+ * PUT /api/import-batches/:id/rows/:rowId
+ */
+router.put("/:id/rows/:rowId", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id, rowId } = req.params;
+    const data = updateRowSchema.parse(req.body);
+    const row = await importBatchService.updateRow(id, rowId, data);
+
+    res.json({
+      success: true,
+      data: row,
+      message: row.status === "error" ? row.errorMessage : "取込バッチの明細を更新しました",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "取込バッチ明細の更新中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 取込バッチ反映API
+ * POST /api/import-batches/:id/commit
+ */
+router.post("/:id/commit", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const batch = await importBatchService.commit(
+      id,
+      getRequestUser(req),
+      getPeriodLockOverride(req)
+    );
+
+    res.json({
+      success: true,
+      data: batch,
+      message:
+        batch.importType === "gl-entries"
+          ? `取込バッチを反映しました（${batch.result?.importedRows ?? 0}件、貸借不一致の伝票: ${batch.result?.unbalancedVouchers ?? 0}件、一部のみ取込の伝票: ${batch.result?.truncatedVouchers ?? 0}件）`
+          : `取込バッチを反映しました（${batch.result?.importedRows ?? 0}件）`,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "取込バッチの反映中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 取込バッチ破棄API
+ * POST /api/import-batches/:id/discard
+ */
+router.post("/:id/discard", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const batch = await importBatchService.discard(id);
+
+    res.json({
+      success: true,
+      data: batch,
+      message: "取込バッチを破棄しました",
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "取込バッチの破棄中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 取込バッチ取消API（反映したデータの削除）
+ * POST /api/import-batches/:id/revert
+ */
+router.post("/:id/revert", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const batch = await importBatchService.revert(
+      id,
+      getRequestUser(req),
+      getPeriodLockOverride(req)
+    );
+
+    res.json({
+      success: true,
+      data: batch,
+      message: `取込バッチを取り消しました（削除: ${batch.result?.revertedRows ?? 0}件）`,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "取込バッチの取消中にエラーが発生しました",
+    });
+  }
+});
+
+export default router;
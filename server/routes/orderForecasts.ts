@@ -3,10 +3,18 @@ import express, { type Request, Response } from "express";
 import { z } from "zod";
 
 import { requireAuth } from "../middleware/auth";
+import { AppError, BulkOperationError, VersionConflictError } from "../middleware/errorHandler";
+import { getPeriodLockOverride } from "../middleware/periodLock";
+import { AccountingPeriodService } from "../services/accountingPeriodService";
 import { AngleBForecastService } from "../services/angleBForecastService";
+import { OrderForecastHistoryService } from "../services/orderForecastHistoryService";
 import { OrderForecastService } from "../services/orderForecastService";
+import { VarianceAnalysisService } from "../services/varianceAnalysisService";
 import { AccountingItemRepository } from "../storage/accountingItem";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
 import { AngleBForecastRepository } from "../storage/angleBForecast";
+import { BudgetExpenseRepository } from "../storage/budgetExpense";
+import { BudgetRevenueRepository } from "../storage/budgetRevenue";
 import { GLEntryRepository } from "../storage/glEntry";
 import { OrderForecastRepository } from "../storage/orderForecast";
 import { ProjectRepository } from "../storage/project";
@@ -17,17 +25,37 @@ const projectRepository = new ProjectRepository();
 const glEntryRepository = new GLEntryRepository();
 const accountingItemRepository = new AccountingItemRepository();
 const angleBForecastRepository = new AngleBForecastRepository();
+const accountingPeriodService = new AccountingPeriodService(new AccountingPeriodRepository());
+const orderForecastHistoryService = new OrderForecastHistoryService(orderForecastRepository);
 const angleBForecastService = new AngleBForecastService(
   angleBForecastRepository,
-  orderForecastRepository
+  orderForecastRepository,
+  accountingPeriodService,
+  orderForecastHistoryService
 );
 const orderForecastService = new OrderForecastService(
   orderForecastRepository,
   projectRepository,
   glEntryRepository,
   accountingItemRepository,
-  angleBForecastRepository
+  angleBForecastRepository,
+  accountingPeriodService,
+  orderForecastHistoryService
 );
+const varianceAnalysisService = new VarianceAnalysisService(
+  orderForecastRepository,
+  glEntryRepository,
+  accountingItemRepository,
+  new BudgetExpenseRepository(),
+  new BudgetRevenueRepository()
+);
+
+// 差異分析取得スキーマ
+const varianceAnalysisQuerySchema = z.object({
+  fiscalYear: z.coerce.number().int().min(2000).max(2100),
+  threshold: z.coerce.number().min(0).max(1000).optional(),
+  salesPerson: z.string().optional(),
+});
 
 // 受発注データ作成スキーマ
 // 取引先フィールドをoptionalにする
@@ -43,6 +71,32 @@ const updateOrderForecastSchema = insertOrderForecastSchema.partial().extend({
   customerId: z.string().optional().nullable(),
   customerCode: z.string().optional().nullable(),
   customerName: z.string().optional().nullable(),
+  version: z.number().int(), // 編集開始時点のバージョン（楽観ロック）
+});
+
+// 受発注データ一括保存スキーマ
+const bulkOperationSchema = z.object({
+  create: z.array(createOrderForecastSchema).optional().default([]),
+  update: z
+    .array(
+      z.object({
+        id: z.string(),
+        data: updateOrderForecastSchema,
+        isExcluded: z.boolean().optional(), // 除外設定を変更する場合に指定
+        exclusionReason: z.string().optional(),
+      })
+    )
+    .optional()
+    .default([]),
+  delete: z
+    .array(
+      z.object({
+        id: z.string(),
+        version: z.number().int(), // 削除を指示した時点のバージョン（楽観ロック）
+      })
+    )
+    .optional()
+    .default([]),
 });
 
 // 受発注データ検索スキーマ
@@ -70,6 +124,19 @@ const searchOrderForecastSchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).optional().default("desc"),
 });
 
+// 変更履歴からの復元スキーマ
+const restoreOrderForecastSchema = z.object({
+  version: z.number().int(), // 復元を指示した時点のバージョン（楽観ロック）
+});
+
+/**
+ * 変更履歴に記録する操作者を取得
+ */
+const getHistoryActor = (req: Request) => ({
+  userId: req.user?.id,
+  employeeId: req.user?.employeeId?.toString(),
+});
+
 /**
  * 除外設定API
  * POST /api/order-forecasts/set-exclusion
@@ -92,7 +159,13 @@ router.post("/set-exclusion", requireAuth, async (req: Request, res: Response) =
       });
     }
 
-    const updatedCount = await orderForecastService.setExclusion(ids, isExcluded, exclusionReason);
+    const updatedCount = await orderForecastService.setExclusion(
+      ids,
+      isExcluded,
+      exclusionReason,
+      getHistoryActor(req),
+      getPeriodLockOverride(req)
+    );
 
     res.json({
       success: true,
@@ -264,6 +337,39 @@ router.get("/monthly-summary", requireAuth, async (req: Request, res: Response)
   }
 });
 
+/**
+ * 見込み・実績・予算の差異分析API
+ * GET /api/order-forecasts/variance-analysis?fiscalYear=2025&threshold=10&salesPerson=
+ * 計上区分別・プロジェクト別に受発注見込み・GL実績・予算を月別に比較し、差異率がしきい値以上の行を判定する
+ */
+router.get("/variance-analysis", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const query = varianceAnalysisQuerySchema.parse(req.query);
+    const analysis = await varianceAnalysisService.getVarianceAnalysis(query.fiscalYear, {
+      threshold: query.threshold,
+      salesPerson: query.salesPerson && query.salesPerson !== "all" ? query.salesPerson : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: analysis,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "差異分析の取得中にエラーが発生しました",
+    });
+  }
+});
+
 /**
  * 受発注データ詳細取得API
  * GET /api/order-forecasts/:id
@@ -372,18 +478,18 @@ router.post("/", requireAuth, async (req: Request, res: Response) => {
     const data = createOrderForecastSchema.parse(req.body);
     const user = (req as any).user;
 
-    const orderForecast = await orderForecastRepository.create({
-      ...data,
-      createdByUserId: user.id,
-      createdByEmployeeId: user.employee?.id?.toString(),
-    });
+    const orderForecast = await orderForecastService.createOrderForecast(
+      data,
+      user,
+      getPeriodLockOverride(req)
+    );
 
     res.status(201).json({
       success: true,
       data: orderForecast,
       message: "受発注データが正常に作成されました",
     });
-  } catch (error) {
+  } catch (error: any) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({
         success: false,
@@ -393,9 +499,75 @@ router.post("/", requireAuth, async (req: Request, res: Response) => {
     }
 
     console.error("受発注データ作成エラー:", error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
-      message: "受発注データの作成中にエラーが発生しました",
+      message: error.message || "受発注データの作成中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 受発注データ一括保存API
+ * POST /api/order-forecasts/bulk
+ *
+ * 作成・更新（除外設定の変更を含む）・削除を1つのトランザクションで実行する。保存できない行がある場合は何も保存せず、
+ * 行ごとのエラーと競合した行の最新データを返す
+ */
+router.post("/bulk", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { create, update, delete: deletes } = bulkOperationSchema.parse(req.body);
+
+    const result = await orderForecastService.bulkOperation(
+      {
+        create,
+        update: update.map(({ id, data: { version, ...data }, isExcluded, exclusionReason }) => ({
+          id,
+          version,
+          data,
+          isExcluded,
+          exclusionReason,
+        })),
+        delete: deletes,
+      },
+      getHistoryActor(req),
+      getPeriodLockOverride(req)
+    );
+
+    res.json({
+      success: true,
+      data: {
+        created: result.created.length,
+        updated: result.updated.length,
+        deleted: result.deleted,
+        details: result,
+      },
+      message: "受発注データを一括保存しました",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+    // 保存できない行がある場合は、行ごとのエラーと競合した行の最新データを返す
+    if (error instanceof BulkOperationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        data: {
+          errors: error.errors,
+          conflicts: error.conflicts,
+        },
+      });
+    }
+
+    console.error("受発注データ一括保存エラー:", error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "受発注データの一括保存中にエラーが発生しました",
     });
   }
 });
@@ -420,7 +592,11 @@ router.post("/:id/demote-to-angle-b", requireAuth, async (req: Request, res: Res
     }
     const { id } = parseResult.data;
 
-    const result = await angleBForecastService.demoteFromOrderForecast(id);
+    const result = await angleBForecastService.demoteFromOrderForecast(
+      id,
+      getHistoryActor(req),
+      getPeriodLockOverride(req)
+    );
 
     res.json({
       success: true,
@@ -430,6 +606,13 @@ router.post("/:id/demote-to-angle-b", requireAuth, async (req: Request, res: Res
   } catch (error: unknown) {
     console.error("角度B降格エラー:", error);
 
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
     if (error instanceof Error && error.message.includes("見つかりません")) {
       return res.status(404).json({
         success: false,
@@ -444,6 +627,73 @@ router.post("/:id/demote-to-angle-b", requireAuth, async (req: Request, res: Res
   }
 });
 
+/**
+ * 受発注データ変更履歴取得API
+ * GET /api/order-forecasts/:id/history
+ */
+router.get("/:id/history", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const history = await orderForecastHistoryService.getHistory(req.params.id);
+
+    res.json({
+      success: true,
+      data: history,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "変更履歴の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 受発注データ復元API
+ * POST /api/order-forecasts/:id/history/:historyId/restore
+ */
+router.post("/:id/history/:historyId/restore", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id, historyId } = req.params;
+    const { version } = restoreOrderForecastSchema.parse(req.body);
+
+    const orderForecast = await orderForecastService.restoreOrderForecast(
+      id,
+      historyId,
+      version,
+      getHistoryActor(req),
+      getPeriodLockOverride(req)
+    );
+
+    res.json({
+      success: true,
+      data: orderForecast,
+      message: "変更履歴の内容に復元しました",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+    // 他のユーザーが先に更新していた場合は、サーバー上の最新データを返す
+    if (error instanceof VersionConflictError) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        data: error.current,
+      });
+    }
+
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "受発注データの復元中にエラーが発生しました",
+    });
+  }
+});
+
 /**
  * 受発注データ更新API
  * PUT /api/order-forecasts/:id
@@ -451,9 +701,15 @@ router.post("/:id/demote-to-angle-b", requireAuth, async (req: Request, res: Res
 router.put("/:id", requireAuth, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const data = updateOrderForecastSchema.parse(req.body);
+    const { version, ...data } = updateOrderForecastSchema.parse(req.body);
 
-    const orderForecast = await orderForecastService.updateOrderForecast(id, data);
+    const orderForecast = await orderForecastService.updateOrderForecast(
+      id,
+      data,
+      version,
+      getHistoryActor(req),
+      getPeriodLockOverride(req)
+    );
 
     res.json({
       success: true,
@@ -468,6 +724,15 @@ router.put("/:id", requireAuth, async (req: Request, res: Response) => {
         errors: error.errors,
       });
     }
+    // 他のユーザーが先に更新していた場合は、サーバー上の最新データを返す
+    if (error instanceof VersionConflictError) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        data: error.current,
+      });
+    }
 
     res.status(error.statusCode || 500).json({
       success: false,
@@ -484,7 +749,11 @@ router.delete("/:id", requireAuth, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    await orderForecastService.deleteOrderForecast(id);
+    await orderForecastService.deleteOrderForecast(
+      id,
+      getHistoryActor(req),
+      getPeriodLockOverride(req)
+    );
 
     res.json({
       success: true,
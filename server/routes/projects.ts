@@ -3,13 +3,18 @@ import express, { type Request, Response } from "express";
 import { z } from "zod";
 
 import { requireAuth } from "../middleware/auth";
+import { AccountingPeriodService } from "../services/accountingPeriodService";
+import { OrderForecastHistoryService } from "../services/orderForecastHistoryService";
 import { ProjectService } from "../services/projectService";
+import { RecurringForecastService } from "../services/recurringForecastService";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
 import { AngleBForecastRepository } from "../storage/angleBForecast";
 import { BudgetTargetRepository } from "../storage/budgetTarget";
 import { CustomerRepository } from "../storage/customer";
 import { OrderForecastRepository } from "../storage/orderForecast";
 import { ProjectRepository } from "../storage/project";
 import { ProjectAnalysisSnapshotRepository } from "../storage/projectAnalysisSnapshot";
+import { RecurringForecastTemplateRepository } from "../storage/recurringForecastTemplate";
 import { StaffingRepository } from "../storage/staffing";
 
 const router = express.Router();
@@ -28,6 +33,13 @@ const projectService = new ProjectService(
   angleBForecastRepository
 );
 const projectAnalysisSnapshotRepository = new ProjectAnalysisSnapshotRepository();
+const recurringForecastService = new RecurringForecastService(
+  new RecurringForecastTemplateRepository(),
+  orderForecastRepository,
+  projectRepository,
+  new AccountingPeriodService(new AccountingPeriodRepository()),
+  new OrderForecastHistoryService(orderForecastRepository)
+);
 
 // プロジェクト作成スキーマ
 const createProjectSchema = insertProjectSchema;
@@ -55,6 +67,7 @@ const searchProjectSchema = z.object({
 // 前年度コピーリクエストスキーマ
 const copyFromPreviousYearSchema = z.object({
   targetYear: z.number().int().positive(),
+  generateRecurringForecasts: z.boolean().optional().default(true), // 定期売上の受発注データも生成する
 });
 
 /**
@@ -492,15 +505,24 @@ router.post("/", requireAuth, async (req: Request, res: Response) => {
  */
 router.post("/copy-from-previous-year", requireAuth, async (req: Request, res: Response) => {
   try {
-    const { targetYear } = copyFromPreviousYearSchema.parse(req.body);
+    const { targetYear, generateRecurringForecasts } = copyFromPreviousYearSchema.parse(req.body);
 
     const result = await projectService.copyFromPreviousYear(targetYear);
 
+    // コピーしたプロジェクトに定期売上テンプレートの受発注データを生成
+    const recurringForecasts = generateRecurringForecasts
+      ? await recurringForecastService.generateForFiscalYear(targetYear, {
+          userId: req.user?.id,
+          employeeId: req.user?.employeeId?.toString(),
+        })
+      : null;
+
     res.json({
       success: true,
       data: {
         count: result.count,
         projects: result.projects,
+        recurringForecasts,
       },
     });
   } catch (error: any) {
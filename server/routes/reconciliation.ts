@@ -2,25 +2,85 @@ import express, { type Request, Response } from "express";
 import { z } from "zod";
 
 import { requireAuth } from "../middleware/auth";
+import { ReconciliationReportService } from "../services/reconciliationReportService";
 import { ReconciliationService } from "../services/reconciliationService";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
 import { GLEntryRepository } from "../storage/glEntry";
 import { OrderForecastRepository } from "../storage/orderForecast";
+import { ReconciliationAliasRepository } from "../storage/reconciliationAlias";
+import { ReconciliationLinkRepository } from "../storage/reconciliationLink";
 import { ReconciliationLogRepository } from "../storage/reconciliationLog";
+import { ReconciliationRuleRepository } from "../storage/reconciliationRule";
 
 const router = express.Router();
 const reconciliationLogRepository = new ReconciliationLogRepository();
 const orderForecastRepository = new OrderForecastRepository();
 const glEntryRepository = new GLEntryRepository();
+const reconciliationLinkRepository = new ReconciliationLinkRepository();
+const reconciliationRuleRepository = new ReconciliationRuleRepository();
+const reconciliationAliasRepository = new ReconciliationAliasRepository();
+const accountingPeriodRepository = new AccountingPeriodRepository();
 const reconciliationService = new ReconciliationService(
+  reconciliationLogRepository,
+  orderForecastRepository,
+  glEntryRepository,
+  reconciliationLinkRepository,
+  reconciliationRuleRepository,
+  reconciliationAliasRepository,
+  accountingPeriodRepository
+);
+const reconciliationReportService = new ReconciliationReportService(
+  reconciliationService,
   reconciliationLogRepository,
   orderForecastRepository,
   glEntryRepository
 );
 
+// 突合ウィンドウスキーマ（月度をまたいで突合する前後の月数、未指定時は翌月まで）
+const reconciliationWindowSchema = {
+  lookBehindMonths: z.number().int().min(0).max(3).optional().default(0),
+  lookAheadMonths: z.number().int().min(0).max(3).optional().default(1),
+};
+
 // 突合実行スキーマ
 const executeReconciliationSchema = z.object({
   period: z.string().regex(/^\d{4}-\d{2}$/, "期間はYYYY-MM形式で入力してください"),
-  type: z.enum(["exact"]).optional().default("exact"), // 突合タイプ（厳格突合のみ）
+  type: z.enum(["exact", "fuzzy"]).optional().default("exact"), // 突合タイプ（fuzzy: 厳格突合 + 曖昧突合）
+  ...reconciliationWindowSchema,
+});
+
+// 突合候補承認スキーマ
+const approveProposalsSchema = z.object({
+  period: z.string().regex(/^\d{4}-\d{2}$/, "期間はYYYY-MM形式で入力してください"),
+  proposals: z
+    .array(
+      z.object({
+        orderIds: z.array(z.string()).min(1),
+        glIds: z.array(z.string()).min(1),
+      })
+    )
+    .min(1, "承認する突合候補を選択してください"),
+  ...reconciliationWindowSchema,
+});
+
+// 手動突合スキーマ（glId/orderIdは1対1突合用、glIds/orderIdsは分割突合用）
+const manualMatchSchema = z
+  .object({
+    glId: z.string().optional(),
+    orderId: z.string().optional(),
+    glIds: z.array(z.string()).optional(),
+    orderIds: z.array(z.string()).optional(),
+  })
+  .transform((data) => ({
+    glIds: data.glIds ?? (data.glId ? [data.glId] : []),
+    orderIds: data.orderIds ?? (data.orderId ? [data.orderId] : []),
+  }));
+
+// 差異レポート出力スキーマ
+const varianceReportSchema = z.object({
+  period: z.string().regex(/^\d{4}-\d{2}$/, "期間はYYYY-MM形式で入力してください"),
+  format: z.enum(["xlsx", "pdf"]).optional().default("xlsx"),
+  logId: z.string().optional(), // 未指定の場合は期間の最新の突合ログ
 });
 
 // 突合ログ検索スキーマ
@@ -40,11 +100,16 @@ const searchReconciliationLogSchema = z.object({
  */
 router.post("/execute", requireAuth, async (req: Request, res: Response) => {
   try {
-    const { period, type: _type } = executeReconciliationSchema.parse(req.body);
+    const { period, type, lookBehindMonths, lookAheadMonths } = executeReconciliationSchema.parse(
+      req.body
+    );
     const _user = (req as any).user;
 
     // 突合処理の実行（サービス層を使用）
-    const result = await reconciliationService.executeReconciliation(period);
+    const result = await reconciliationService.executeReconciliation(period, type, {
+      lookBehindMonths,
+      lookAheadMonths,
+    });
 
     res.json({
       success: true,
@@ -68,6 +133,79 @@ router.post("/execute", requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * 突合プレビューAPI（DBへの書き込みは行わない）
+ * POST /api/reconciliation/preview
+ */
+router.post("/preview", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { period, type, lookBehindMonths, lookAheadMonths } = executeReconciliationSchema.parse(
+      req.body
+    );
+
+    const result = await reconciliationService.previewReconciliation(period, type, {
+      lookBehindMonths,
+      lookAheadMonths,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    console.error("突合プレビューエラー:", error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "突合プレビューの作成中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 突合候補承認API
+ * POST /api/reconciliation/approve
+ */
+router.post("/approve", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { period, proposals, lookBehindMonths, lookAheadMonths } = approveProposalsSchema.parse(
+      req.body
+    );
+
+    const result = await reconciliationService.approveReconciliationProposals(period, proposals, {
+      lookBehindMonths,
+      lookAheadMonths,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      message: `${result.approvedCount}件の突合候補を承認しました`,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    console.error("突合候補承認エラー:", error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "突合候補の承認処理中にエラーが発生しました",
+    });
+  }
+});
+
 /**
  * 突合ログ一覧取得API
  * GET /api/reconciliation/logs
@@ -139,6 +277,30 @@ router.get("/logs/:id", requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * 突合取り消しAPI（指定した突合実行で作成した突合のみ未突合に戻す）
+ * POST /api/reconciliation/logs/:id/rollback
+ */
+router.post("/logs/:id/rollback", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const result = await reconciliationService.rollbackReconciliation(id);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `${result.revertedGroupCount}件の突合を取り消しました`,
+    });
+  } catch (error: any) {
+    console.error("突合取り消しエラー:", error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "突合の取り消し処理中にエラーが発生しました",
+    });
+  }
+});
+
 /**
  * 最新突合ログ取得API
  * GET /api/reconciliation/logs/latest
@@ -215,22 +377,89 @@ router.get("/account-summary", requireAuth, async (req: Request, res: Response)
   }
 });
 
+/**
+ * 差異レポート出力API（XLSX・PDF）
+ * GET /api/reconciliation/report
+ */
+router.get("/report", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { period, format, logId } = varianceReportSchema.parse(req.query);
+
+    const report = await reconciliationReportService.exportVarianceReport(period, format, logId);
+
+    res.setHeader("Content-Type", report.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename*=UTF-8''${encodeURIComponent(report.filename)}`
+    );
+    res.setHeader("Cache-Control", "no-store");
+    res.send(report.content);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
+    console.error("差異レポート出力エラー:", error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "差異レポートの出力中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 突合リンク取得API
+ * GET /api/reconciliation/links
+ */
+router.get("/links", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { orderId, glId } = req.query;
+
+    if (typeof orderId !== "string" && typeof glId !== "string") {
+      return res.status(400).json({
+        success: false,
+        message: "受発注見込みIDまたはGL IDが必要です",
+      });
+    }
+
+    const result = await reconciliationService.getReconciliationLinks({
+      orderId: typeof orderId === "string" ? orderId : undefined,
+      glId: typeof glId === "string" ? glId : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("突合リンク取得エラー:", error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "突合リンクの取得中にエラーが発生しました",
+    });
+  }
+});
+
 /**
  * 手動突合API
  * POST /api/reconciliation/manual-match
  */
 router.post("/manual-match", requireAuth, async (req: Request, res: Response) => {
   try {
-    const { glId, orderId } = req.body;
+    const { glIds, orderIds } = manualMatchSchema.parse(req.body);
 
-    if (!glId || !orderId) {
+    if (glIds.length === 0 || orderIds.length === 0) {
       return res.status(400).json({
         success: false,
         message: "GL IDと受発注見込みIDが必要です",
       });
     }
 
-    const result = await reconciliationService.manualReconcile(glId, orderId);
+    const result = await reconciliationService.manualReconcile(glIds, orderIds);
 
     res.json({
       success: true,
@@ -238,6 +467,14 @@ router.post("/manual-match", requireAuth, async (req: Request, res: Response) =>
       message: "手動突合が完了しました",
     });
   } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+
     console.error("手動突合エラー:", error);
     res.status(error.statusCode || 500).json({
       success: false,
@@ -246,6 +483,37 @@ router.post("/manual-match", requireAuth, async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * 曖昧一致確定API
+ * POST /api/reconciliation/confirm-fuzzy
+ */
+router.post("/confirm-fuzzy", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { glId, orderId } = req.body;
+
+    if (!glId || !orderId) {
+      return res.status(400).json({
+        success: false,
+        message: "GL IDと受発注見込みIDが必要です",
+      });
+    }
+
+    const result = await reconciliationService.confirmFuzzyMatch(glId, orderId);
+
+    res.json({
+      success: true,
+      data: result,
+      message: "曖昧一致を確定しました",
+    });
+  } catch (error: any) {
+    console.error("曖昧一致確定エラー:", error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "曖昧一致の確定処理中にエラーが発生しました",
+    });
+  }
+});
+
 /**
  * 突合解除API
  * POST /api/reconciliation/unmatch
@@ -254,10 +522,10 @@ router.post("/unmatch", requireAuth, async (req: Request, res: Response) => {
   try {
     const { glId, orderId } = req.body;
 
-    if (!glId || !orderId) {
+    if (!glId) {
       return res.status(400).json({
         success: false,
-        message: "GL IDと受発注見込みIDが必要です",
+        message: "GL IDが必要です",
       });
     }
 
@@ -0,0 +1,75 @@
+import express, { type Request, Response } from "express";
+import { z } from "zod";
+
+import { requireAuth, requireOperationPermission } from "../middleware/auth";
+import { ReconciliationAliasService } from "../services/reconciliationAliasService";
+import { ReconciliationAliasRepository } from "../storage/reconciliationAlias";
+
+const router = express.Router();
+const reconciliationAliasRepository = new ReconciliationAliasRepository();
+const reconciliationAliasService = new ReconciliationAliasService(reconciliationAliasRepository);
+
+// 突合エイリアス検索スキーマ
+const searchReconciliationAliasSchema = z.object({
+  aliasType: z.enum(["account", "description"]).optional(),
+});
+
+/**
+ * 突合エイリアス一覧取得API
+ * GET /api/reconciliation-aliases
+ */
+router.get("/", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { aliasType } = searchReconciliationAliasSchema.parse(req.query);
+    const { aliases, totalCount } =
+      await reconciliationAliasService.getReconciliationAliases(aliasType);
+
+    res.json({
+      success: true,
+      data: {
+        items: aliases,
+        total: totalCount,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "検索パラメータが正しくありません",
+        errors: error.errors,
+      });
+    }
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "突合エイリアス一覧の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 突合エイリアス削除API
+ * DELETE /api/reconciliation-aliases/:id
+ * 管理者のみ利用可能
+ */
+router.delete(
+  "/:id",
+  requireAuth,
+  requireOperationPermission("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      await reconciliationAliasService.deleteReconciliationAlias(id);
+      res.json({
+        success: true,
+        message: "突合エイリアスが正常に削除されました",
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || "突合エイリアスの削除中にエラーが発生しました",
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,177 @@
+import { insertReconciliationRuleSchema } from "@shared/schema/integrated";
+import express, { type Request, Response } from "express";
+import { z } from "zod";
+
+import { requireAuth, requireOperationPermission } from "../middleware/auth";
+import { ReconciliationRuleService } from "../services/reconciliationRuleService";
+import { ReconciliationRuleRepository } from "../storage/reconciliationRule";
+
+const router = express.Router();
+const reconciliationRuleRepository = new ReconciliationRuleRepository();
+const reconciliationRuleService = new ReconciliationRuleService(reconciliationRuleRepository);
+
+// 突合ルール作成スキーマ
+const createReconciliationRuleSchema = insertReconciliationRuleSchema
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    name: z.string().min(1, "ルール名は必須です"),
+    priority: z.coerce.number().int().min(0, "優先度は0以上で指定してください"),
+    monthTolerance: z.coerce
+      .number()
+      .int()
+      .min(0, "許容月数は0以上で指定してください")
+      .max(12, "許容月数は12以下で指定してください")
+      .optional(),
+    amountTolerance: z
+      .union([z.string(), z.number()])
+      .transform(String)
+      .refine((value) => !isNaN(Number(value)) && Number(value) >= 0, {
+        message: "許容金額差は0以上の数値で指定してください",
+      })
+      .optional(),
+    ignoreDescription: z.enum(["true", "false"]).optional(),
+    isActive: z.enum(["true", "false"]).optional(),
+  });
+
+// 突合ルール更新スキーマ
+const updateReconciliationRuleSchema = createReconciliationRuleSchema.partial();
+
+/**
+ * 突合ルール一覧取得API
+ * GET /api/reconciliation-rules
+ */
+router.get("/", requireAuth, async (_req: Request, res: Response) => {
+  try {
+    const { rules, totalCount } = await reconciliationRuleService.getReconciliationRules();
+
+    res.json({
+      success: true,
+      data: {
+        items: rules,
+        total: totalCount,
+      },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "突合ルール一覧の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 突合ルール詳細取得API
+ * GET /api/reconciliation-rules/:id
+ */
+router.get("/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const rule = await reconciliationRuleService.getReconciliationRuleById(id);
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "突合ルール詳細の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 突合ルール作成API
+ * POST /api/reconciliation-rules
+ * 管理者のみ利用可能
+ */
+router.post(
+  "/",
+  requireAuth,
+  requireOperationPermission("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const data = createReconciliationRuleSchema.parse(req.body);
+      const rule = await reconciliationRuleService.createReconciliationRule(data);
+      res.status(201).json({
+        success: true,
+        data: rule,
+        message: "突合ルールが正常に作成されました",
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "入力値が正しくありません",
+          errors: error.errors,
+        });
+      }
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || "突合ルールの作成中にエラーが発生しました",
+      });
+    }
+  }
+);
+
+/**
+ * 突合ルール更新API
+ * PUT /api/reconciliation-rules/:id
+ * 管理者のみ利用可能
+ */
+router.put(
+  "/:id",
+  requireAuth,
+  requireOperationPermission("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const data = updateReconciliationRuleSchema.parse(req.body);
+      const rule = await reconciliationRuleService.updateReconciliationRule(id, data);
+      res.json({
+        success: true,
+        data: rule,
+        message: "突合ルールが正常に更新されました",
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "入力値が正しくありません",
+          errors: error.errors,
+        });
+      }
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || "突合ルールの更新中にエラーが発生しました",
+      });
+    }
+  }
+);
+
+/**
+ * 突合ルール削除API
+ * DELETE /api/reconciliation-rules/:id
+ * 管理者のみ利用可能
+ */
+router.delete(
+  "/:id",
+  requireAuth,
+  requireOperationPermission("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      await reconciliationRuleService.deleteReconciliationRule(id);
+      res.json({
+        success: true,
+        message: "突合ルールが正常に削除されました",
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || "突合ルールの削除中にエラーが発生しました",
+      });
+    }
+  }
+);
+
+export default router;
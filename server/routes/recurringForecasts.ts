@@ -0,0 +1,222 @@
+import { insertRecurringForecastTemplateSchema } from "@shared/schema/integrated";
+import express, { type Request, Response } from "express";
+import { z } from "zod";
+
+import { requireAuth } from "../middleware/auth";
+import { AccountingPeriodService } from "../services/accountingPeriodService";
+import { OrderForecastHistoryService } from "../services/orderForecastHistoryService";
+import { RecurringForecastService } from "../services/recurringForecastService";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
+import { OrderForecastRepository } from "../storage/orderForecast";
+import { ProjectRepository } from "../storage/project";
+import { RecurringForecastTemplateRepository } from "../storage/recurringForecastTemplate";
+
+const router = express.Router();
+const orderForecastRepository = new OrderForecastRepository();
+const recurringForecastService = new RecurringForecastService(
+  new RecurringForecastTemplateRepository(),
+  orderForecastRepository,
+  new ProjectRepository(),
+  new AccountingPeriodService(new AccountingPeriodRepository()),
+  new OrderForecastHistoryService(orderForecastRepository)
+);
+
+const monthSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "年月はYYYY-MM形式で指定してください");
+
+// 定期売上テンプレート作成スキーマ
+const createRecurringForecastTemplateSchema = insertRecurringForecastTemplateSchema
+  .omit({ id: true, createdByUserId: true, createdAt: true, updatedAt: true })
+  .extend({
+    projectCode: z.string().min(1, "プロジェクトは必須です"),
+    projectName: z.string().min(1, "プロジェクトは必須です"),
+    accountingItem: z.string().min(1, "計上科目は必須です"),
+    descriptionPattern: z.string().min(1, "摘要文は必須です"),
+    monthlyAmount: z
+      .union([z.string(), z.number()])
+      .transform(String)
+      .refine((value) => value.trim() !== "" && !isNaN(Number(value)), {
+        message: "月額は数値で指定してください",
+      }),
+    startMonth: monthSchema,
+    endMonth: monthSchema.nullable().optional(),
+    billingCycle: z.enum(["monthly", "quarterly", "annual"]).optional(),
+    isActive: z.enum(["true", "false"]).optional(),
+  });
+
+// 定期売上テンプレート更新スキーマ
+const updateRecurringForecastTemplateSchema = createRecurringForecastTemplateSchema.partial();
+
+// 受発注データ生成スキーマ
+const generateRecurringForecastsSchema = z.object({
+  fiscalYear: z.number().int().min(2000).max(2100),
+});
+
+// 受発注データの変更履歴に記録する操作者
+const getHistoryActor = (req: Request) => ({
+  userId: req.user?.id,
+  employeeId: req.user?.employeeId?.toString(),
+});
+
+/**
+ * 定期売上テンプレート一覧取得API
+ * GET /api/recurring-forecast-templates
+ */
+router.get("/", requireAuth, async (_req: Request, res: Response) => {
+  try {
+    const { templates, totalCount } = await recurringForecastService.getTemplates();
+
+    res.json({
+      success: true,
+      data: {
+        items: templates,
+        total: totalCount,
+      },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "定期売上テンプレート一覧の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 定期売上の受発注データ生成API
+ * POST /api/recurring-forecast-templates/generate
+ */
+router.post("/generate", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { fiscalYear } = generateRecurringForecastsSchema.parse(req.body);
+    const result = await recurringForecastService.generateForFiscalYear(
+      fiscalYear,
+      getHistoryActor(req)
+    );
+    res.json({
+      success: true,
+      data: result,
+      message: `${fiscalYear}年度の定期売上を${result.created}件生成、${result.updated}件更新しました`,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "定期売上の受発注データ生成中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 定期売上テンプレート詳細取得API
+ * GET /api/recurring-forecast-templates/:id
+ */
+router.get("/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const template = await recurringForecastService.getTemplateById(id);
+    res.json({
+      success: true,
+      data: template,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "定期売上テンプレート詳細の取得中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 定期売上テンプレート作成API
+ * POST /api/recurring-forecast-templates
+ */
+router.post("/", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const data = createRecurringForecastTemplateSchema.parse(req.body);
+    const template = await recurringForecastService.createTemplate(data, req.user?.id);
+    res.status(201).json({
+      success: true,
+      data: template,
+      message: "定期売上テンプレートが正常に作成されました",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "定期売上テンプレートの作成中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 定期売上テンプレート更新API
+ * PUT /api/recurring-forecast-templates/:id
+ *
+ * 当月以降に生成済みの未突合の受発注データにも変更内容を反映する
+ */
+router.put("/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = updateRecurringForecastTemplateSchema.parse(req.body);
+    const { template, results } = await recurringForecastService.updateTemplate(
+      id,
+      data,
+      getHistoryActor(req)
+    );
+    res.json({
+      success: true,
+      data: { template, results },
+      message: "定期売上テンプレートが正常に更新されました",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "入力値が正しくありません",
+        errors: error.errors,
+      });
+    }
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "定期売上テンプレートの更新中にエラーが発生しました",
+    });
+  }
+});
+
+/**
+ * 定期売上テンプレート削除API
+ * DELETE /api/recurring-forecast-templates/:id
+ *
+ * 当月以降に生成済みの未突合の受発注データも削除する
+ */
+router.delete("/:id", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const results = await recurringForecastService.deleteTemplate(id, getHistoryActor(req));
+    res.json({
+      success: true,
+      data: { results },
+      message: "定期売上テンプレートが正常に削除されました",
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "定期売上テンプレートの削除中にエラーが発生しました",
+    });
+  }
+});
+
+export default router;
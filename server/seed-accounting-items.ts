@@ -44,31 +44,138 @@ async function seedAccountingItems() {
     console.log(`📋 既存のコード: ${existingCodes.join(", ")}`);
 
     // 必要な計上区分データ（現在のDBに存在するデータと一致）
+    // category: 集計区分、sign: 集計時の符号、displayOrder: 表示順、glImportTarget: 標準レイアウトのGL取込対象
     const requiredItems = [
-      { code: "511", name: "保守売上" },
-      { code: "512", name: "ソフト売上" },
-      { code: "513", name: "商品売上" },
-      { code: "514", name: "消耗品売上" },
-      { code: "515", name: "その他売上" },
-      { code: "541", name: "仕入高" },
-      { code: "727", name: "通信費" },
-      { code: "737", name: "消耗品費" },
-      { code: "740", name: "支払保守料" },
-      { code: "745", name: "外注加工費" },
-      { code: "1100", name: "期首製品棚卸高" },
-      { code: "1200", name: "期首商品棚卸高" },
-      { code: "1300", name: "期末製品棚卸高" },
-      { code: "1400", name: "期末商品棚卸高" },
-      { code: "9999", name: "その他調整経費" },
+      {
+        code: "511",
+        name: "保守売上",
+        category: "revenue",
+        sign: 1,
+        displayOrder: 10,
+        glImportTarget: "true",
+      },
+      {
+        code: "512",
+        name: "ソフト売上",
+        category: "revenue",
+        sign: 1,
+        displayOrder: 20,
+        glImportTarget: "true",
+      },
+      {
+        code: "513",
+        name: "商品売上",
+        category: "revenue",
+        sign: 1,
+        displayOrder: 30,
+        glImportTarget: "true",
+      },
+      {
+        code: "514",
+        name: "消耗品売上",
+        category: "revenue",
+        sign: 1,
+        displayOrder: 40,
+        glImportTarget: "true",
+      },
+      {
+        code: "515",
+        name: "その他売上",
+        category: "revenue",
+        sign: 1,
+        displayOrder: 60,
+        glImportTarget: "true",
+      },
+      {
+        code: "541",
+        name: "仕入高",
+        category: "costOfSales",
+        sign: 1,
+        displayOrder: 50,
+        glImportTarget: "true",
+      },
+      {
+        code: "727",
+        name: "通信費",
+        category: "sgaExpenses",
+        sign: 1,
+        displayOrder: 70,
+        glImportTarget: "true",
+      },
+      {
+        code: "737",
+        name: "消耗品費",
+        category: "sgaExpenses",
+        sign: 1,
+        displayOrder: 80,
+        glImportTarget: "true",
+      },
+      {
+        code: "740",
+        name: "支払保守料",
+        category: "sgaExpenses",
+        sign: 1,
+        displayOrder: 90,
+        glImportTarget: "true",
+      },
+      {
+        code: "745",
+        name: "外注加工費",
+        category: "sgaExpenses",
+        sign: 1,
+        displayOrder: 100,
+        glImportTarget: "true",
+      },
+      {
+        code: "1100",
+        name: "期首製品棚卸高",
+        category: "inventoryAdjustment",
+        sign: 1,
+        displayOrder: 110,
+        glImportTarget: "false",
+      },
+      {
+        code: "1200",
+        name: "期首商品棚卸高",
+        category: "inventoryAdjustment",
+        sign: 1,
+        displayOrder: 120,
+        glImportTarget: "false",
+      },
+      {
+        code: "1300",
+        name: "期末製品棚卸高",
+        category: "inventoryAdjustment",
+        sign: -1,
+        displayOrder: 130,
+        glImportTarget: "false",
+      },
+      {
+        code: "1400",
+        name: "期末商品棚卸高",
+        category: "inventoryAdjustment",
+        sign: -1,
+        displayOrder: 140,
+        glImportTarget: "false",
+      },
+      {
+        code: "9999",
+        name: "その他調整経費",
+        category: "sgaExpenses",
+        sign: 1,
+        displayOrder: 150,
+        glImportTarget: "false",
+      },
     ];
 
     let addedCount = 0;
     for (const item of requiredItems) {
       if (!existingCodes.includes(item.code)) {
-        await client.query("INSERT INTO app.accounting_items (code, name) VALUES ($1, $2)", [
-          item.code,
-          item.name,
-        ]);
+        await client.query(
+          `INSERT INTO app.accounting_items (code, name, category, sign, display_order, gl_import_target)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [item.code, item.name, item.category, item.sign, item.displayOrder, item.glImportTarget]
+        );
         console.log(`✅ 追加: ${item.code} - ${item.name}`);
         addedCount++;
       }
@@ -26,7 +26,7 @@ export class AccountingItemService {
     filter: AccountingItemFilter,
     limit: number,
     offset: number,
-    sortBy: "code" | "name" | "createdAt" = "createdAt",
+    sortBy: "code" | "name" | "displayOrder" | "createdAt" = "createdAt",
     sortOrder: "asc" | "desc" = "desc"
   ): Promise<{ accountingItems: AccountingItem[]; totalCount: number }> {
     try {
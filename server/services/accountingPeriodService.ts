@@ -0,0 +1,191 @@
+import type { AccountingPeriod, PeriodLockOverride } from "@shared/schema/integrated";
+
+import { db, type DbExecutor } from "../db";
+import { AppError } from "../middleware/errorHandler";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
+
+/** 締め済み期間のデータを管理者が理由を付けて変更する場合の指定 */
+export interface PeriodLockOverrideRequest {
+  userId: string;
+  isAdmin: boolean;
+  reason: string;
+}
+
+/**
+ * 会計期間管理サービスクラス
+ *
+ * @description 月度の締め・締め解除と、締め済み期間のデータ変更の制御を担当
+ * @responsibility 会計期間の締め状態の管理、締め済み期間への変更可否の判定と管理者による変更の記録
+ */
+export class AccountingPeriodService {
+  constructor(private accountingPeriodRepository: AccountingPeriodRepository) {}
+
+  /**
+   * 会計期間一覧取得
+   *
+   * @returns 締め・締め解除の記録がある会計期間の一覧と総件数（記録のない期間は未締め）
+   */
+  async getAccountingPeriods(): Promise<{ periods: AccountingPeriod[]; totalCount: number }> {
+    try {
+      const periods = await this.accountingPeriodRepository.findAll();
+      return { periods, totalCount: periods.length };
+    } catch (error) {
+      console.error("会計期間一覧取得エラー:", error);
+      throw new AppError("会計期間一覧の取得に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 月度の締め
+   *
+   * @param period - 期間（YYYY-MM）
+   * @param userId - 締めを行うユーザーID
+   * @returns 締め済みの会計期間
+   * @throws AppError - 既に締め済みの場合
+   */
+  async closePeriod(period: string, userId: string): Promise<AccountingPeriod> {
+    try {
+      const existing = await this.accountingPeriodRepository.findByPeriod(period);
+      if (existing?.status === "closed") {
+        throw new AppError(`${period}は既に締め済みです`, 409, true, "CONFLICT");
+      }
+
+      return await this.accountingPeriodRepository.upsert({
+        period,
+        status: "closed",
+        closedAt: new Date(),
+        closedByUserId: userId,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("月度締めエラー:", error);
+      throw new AppError("月度の締め処理に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 月度の締め解除
+   *
+   * @param period - 期間（YYYY-MM）
+   * @param userId - 締め解除を行うユーザーID
+   * @param reason - 締め解除理由
+   * @returns 締め解除後の会計期間
+   * @throws AppError - 締め済みでない場合
+   */
+  async reopenPeriod(period: string, userId: string, reason: string): Promise<AccountingPeriod> {
+    try {
+      const existing = await this.accountingPeriodRepository.findByPeriod(period);
+      if (existing?.status !== "closed") {
+        throw new AppError(`${period}は締め済みではありません`, 409, true, "CONFLICT");
+      }
+
+      return await this.accountingPeriodRepository.upsert({
+        period,
+        status: "open",
+        reopenedAt: new Date(),
+        reopenedByUserId: userId,
+        reopenReason: reason,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("月度締め解除エラー:", error);
+      throw new AppError("月度の締め解除に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 締め済み期間の変更履歴取得
+   *
+   * @param period - 期間（YYYY-MM）
+   * @returns 管理者による変更履歴（新しい順）
+   */
+  async getOverrides(period: string): Promise<PeriodLockOverride[]> {
+    try {
+      return await this.accountingPeriodRepository.findOverridesByPeriod(period);
+    } catch (error) {
+      console.error("締め済み期間変更履歴取得エラー:", error);
+      throw new AppError("締め済み期間の変更履歴の取得に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 締め済みの期間一覧取得
+   *
+   * @description CSV取込など、行ごとに締め状態を判定する処理で使用する
+   * @returns 締め済みの期間（YYYY-MM）の集合
+   */
+  async getClosedPeriods(executor: DbExecutor = db): Promise<Set<string>> {
+    const periods = await this.accountingPeriodRepository.findAll(executor);
+    return new Set(
+      periods.filter((period) => period.status === "closed").map((period) => period.period)
+    );
+  }
+
+  /**
+   * 締め済み期間への変更可否チェック
+   *
+   * @description 対象期間に締め済みの期間が含まれる場合は変更を拒否する。
+   * 管理者が理由を指定した場合のみ変更を許可し、期間ごとに変更履歴を記録する。
+   * @param periods - 変更対象データの期間（YYYY-MM）
+   * @param operation - 操作内容（変更履歴に記録する）
+   * @param override - 管理者による変更の指定
+   * @param executor - クエリ実行先（変更処理と同じトランザクションで記録する場合に指定）
+   * @throws AppError - 締め済みの期間を含み、管理者による変更の指定がない場合
+   */
+  async assertPeriodsOpen(
+    periods: Array<string | null | undefined>,
+    operation: string,
+    override?: PeriodLockOverrideRequest,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    const targetPeriods = Array.from(
+      new Set(periods.filter((period): period is string => !!period))
+    );
+    const closedPeriods = await this.accountingPeriodRepository.findClosedByPeriods(
+      targetPeriods,
+      executor
+    );
+
+    if (closedPeriods.length === 0) {
+      return;
+    }
+
+    const periodLabel = closedPeriods.map((period) => period.period).join("、");
+
+    if (!override) {
+      throw new AppError(
+        `締め済みの期間（${periodLabel}）のデータは変更できません`,
+        423,
+        true,
+        "PERIOD_CLOSED"
+      );
+    }
+
+    if (!override.isAdmin) {
+      throw new AppError(
+        "締め済みの期間のデータを変更するには管理者権限が必要です",
+        403,
+        true,
+        "FORBIDDEN"
+      );
+    }
+
+    if (!override.reason.trim()) {
+      throw new AppError("締め済みの期間のデータを変更する理由を入力してください", 400);
+    }
+
+    await this.accountingPeriodRepository.createOverrides(
+      closedPeriods.map((period) => ({
+        period: period.period,
+        operation,
+        reason: override.reason.trim(),
+        userId: override.userId,
+      })),
+      executor
+    );
+  }
+}
@@ -5,13 +5,26 @@ import type {
   NewOrderForecast,
 } from "@shared/schema";
 
+import { db } from "../db";
+import { VersionConflictError } from "../middleware/errorHandler";
 import { AngleBForecastRepository } from "../storage/angleBForecast";
 import { OrderForecastRepository } from "../storage/orderForecast";
+import { AccountingPeriodService, type PeriodLockOverrideRequest } from "./accountingPeriodService";
+import {
+  type OrderForecastHistoryActor,
+  OrderForecastHistoryService,
+} from "./orderForecastHistoryService";
+
+// 楽観ロックの競合時のメッセージ
+const VERSION_CONFLICT_MESSAGE =
+  "他のユーザーが先に更新したため保存できませんでした。最新の内容を確認してください";
 
 export class AngleBForecastService {
   constructor(
     private angleBForecastRepository: AngleBForecastRepository,
-    private orderForecastRepository: OrderForecastRepository
+    private orderForecastRepository: OrderForecastRepository,
+    private accountingPeriodService: AccountingPeriodService,
+    private orderForecastHistoryService: OrderForecastHistoryService
   ) {}
 
   async getAngleBForecasts(
@@ -43,22 +56,59 @@ export class AngleBForecastService {
     return angleBForecast;
   }
 
-  async createAngleBForecast(data: NewAngleBForecast): Promise<AngleBForecast> {
+  async createAngleBForecast(
+    data: NewAngleBForecast,
+    override?: PeriodLockOverrideRequest
+  ): Promise<AngleBForecast> {
+    await this.accountingPeriodService.assertPeriodsOpen(
+      [data.accountingPeriod],
+      "角度B案件作成",
+      override
+    );
     return await this.angleBForecastRepository.create(data);
   }
 
+  /**
+   * 角度B案件を更新
+   * 編集を開始した時点のバージョンと一致しない場合は、最新データを付けて競合エラーとする（楽観ロック）
+   */
   async updateAngleBForecast(
     id: string,
-    data: Partial<NewAngleBForecast>
+    data: Partial<NewAngleBForecast>,
+    expectedVersion: number,
+    override?: PeriodLockOverrideRequest
   ): Promise<AngleBForecast> {
-    const updated = await this.angleBForecastRepository.update(id, data);
+    const existing = await this.getAngleBForecastById(id);
+    if (existing.version !== expectedVersion) {
+      throw new VersionConflictError(VERSION_CONFLICT_MESSAGE, existing);
+    }
+    await this.accountingPeriodService.assertPeriodsOpen(
+      [existing.accountingPeriod, data.accountingPeriod],
+      "角度B案件更新",
+      override
+    );
+
+    const updated = await this.angleBForecastRepository.updateIfVersionMatches(
+      id,
+      expectedVersion,
+      data
+    );
     if (!updated) {
-      throw new Error(`角度B案件が見つかりません: ${id}`);
+      // チェック後に他のユーザーが更新した場合は最新データを返す
+      const current = await this.getAngleBForecastById(id);
+      throw new VersionConflictError(VERSION_CONFLICT_MESSAGE, current);
     }
     return updated;
   }
 
-  async deleteAngleBForecast(id: string): Promise<void> {
+  async deleteAngleBForecast(id: string, override?: PeriodLockOverrideRequest): Promise<void> {
+    const existing = await this.getAngleBForecastById(id);
+    await this.accountingPeriodService.assertPeriodsOpen(
+      [existing.accountingPeriod],
+      "角度B案件削除",
+      override
+    );
+
     const deleted = await this.angleBForecastRepository.delete(id);
     if (!deleted) {
       throw new Error(`角度B案件が見つかりません: ${id}`);
@@ -67,78 +117,102 @@ export class AngleBForecastService {
 
   /**
    * 角度B案件を受発注見込みに昇格
-   * トランザクション内で角度Bデータを削除し、受発注見込を作成
+   * トランザクション内で角度Bデータを削除し、受発注見込を作成（受発注見込の変更履歴に昇格として記録）
    */
   async promoteToOrderForecast(
-    id: string
+    id: string,
+    actor: OrderForecastHistoryActor,
+    override?: PeriodLockOverrideRequest
   ): Promise<{ orderForecast: NewOrderForecast; deleted: boolean }> {
-    // 角度B案件を取得
-    const angleBForecast = await this.angleBForecastRepository.findById(id);
-    if (!angleBForecast) {
-      throw new Error(`角度B案件が見つかりません: ${id}`);
-    }
-
-    // 受発注見込データを作成
-    const orderForecastData: NewOrderForecast = {
-      projectId: angleBForecast.projectId,
-      projectCode: angleBForecast.projectCode,
-      projectName: angleBForecast.projectName,
-      customerId: angleBForecast.customerId,
-      customerCode: angleBForecast.customerCode,
-      customerName: angleBForecast.customerName,
-      accountingPeriod: angleBForecast.accountingPeriod,
-      accountingItem: angleBForecast.accountingItem,
-      description: angleBForecast.description,
-      amount: angleBForecast.amount,
-      remarks: angleBForecast.remarks || "",
-      period: angleBForecast.period,
-      reconciliationStatus: "unmatched",
-      createdByUserId: angleBForecast.createdByUserId,
-      createdByEmployeeId: angleBForecast.createdByEmployeeId,
-    };
-
-    // 受発注見込を作成
-    const orderForecast = await this.orderForecastRepository.create(orderForecastData);
-
-    // 角度B案件を削除
-    const deleted = await this.angleBForecastRepository.delete(id);
-
-    return { orderForecast, deleted };
+    return await db.transaction(async (tx) => {
+      // 角度B案件を取得
+      const angleBForecast = await this.angleBForecastRepository.findById(id, tx);
+      if (!angleBForecast) {
+        throw new Error(`角度B案件が見つかりません: ${id}`);
+      }
+
+      await this.accountingPeriodService.assertPeriodsOpen(
+        [angleBForecast.accountingPeriod],
+        "角度B案件昇格",
+        override,
+        tx
+      );
+
+      // 受発注見込データを作成
+      const orderForecastData: NewOrderForecast = {
+        projectId: angleBForecast.projectId,
+        projectCode: angleBForecast.projectCode,
+        projectName: angleBForecast.projectName,
+        customerId: angleBForecast.customerId,
+        customerCode: angleBForecast.customerCode,
+        customerName: angleBForecast.customerName,
+        accountingPeriod: angleBForecast.accountingPeriod,
+        accountingItem: angleBForecast.accountingItem,
+        description: angleBForecast.description,
+        amount: angleBForecast.amount,
+        remarks: angleBForecast.remarks || "",
+        period: angleBForecast.period,
+        reconciliationStatus: "unmatched",
+        createdByUserId: angleBForecast.createdByUserId,
+        createdByEmployeeId: angleBForecast.createdByEmployeeId,
+      };
+
+      // 受発注見込を作成
+      const orderForecast = await this.orderForecastRepository.create(orderForecastData, tx);
+      await this.orderForecastHistoryService.record("promote", null, orderForecast, actor, tx);
+
+      // 角度B案件を削除
+      const deleted = await this.angleBForecastRepository.delete(id, tx);
+
+      return { orderForecast, deleted };
+    });
   }
 
   /**
    * 受発注見込みを角度B案件に降格
-   * 受発注見込を取得して角度B案件を作成し、受発注見込を削除（昇格の逆操作）
+   * トランザクション内で受発注見込を取得して角度B案件を作成し、受発注見込を削除（昇格の逆操作、変更履歴に降格として記録）
    */
   async demoteFromOrderForecast(
-    id: string
+    id: string,
+    actor: OrderForecastHistoryActor,
+    override?: PeriodLockOverrideRequest
   ): Promise<{ angleBForecast: AngleBForecast; deleted: boolean }> {
-    const orderForecast = await this.orderForecastRepository.findById(id);
-    if (!orderForecast) {
-      throw new Error(`受発注見込みが見つかりません: ${id}`);
-    }
-
-    const angleBForecastData: NewAngleBForecast = {
-      projectId: orderForecast.projectId,
-      projectCode: orderForecast.projectCode,
-      projectName: orderForecast.projectName,
-      customerId: orderForecast.customerId ?? undefined,
-      customerCode: orderForecast.customerCode ?? undefined,
-      customerName: orderForecast.customerName ?? undefined,
-      accountingPeriod: orderForecast.accountingPeriod,
-      accountingItem: orderForecast.accountingItem,
-      description: orderForecast.description,
-      amount: orderForecast.amount,
-      probability: 50,
-      remarks: orderForecast.remarks ?? "",
-      period: orderForecast.period,
-      createdByUserId: orderForecast.createdByUserId ?? undefined,
-      createdByEmployeeId: orderForecast.createdByEmployeeId ?? undefined,
-    };
-
-    const angleBForecast = await this.angleBForecastRepository.create(angleBForecastData);
-    const deleted = await this.orderForecastRepository.delete(id);
-
-    return { angleBForecast, deleted };
+    return await db.transaction(async (tx) => {
+      const orderForecast = await this.orderForecastRepository.findById(id, tx);
+      if (!orderForecast) {
+        throw new Error(`受発注見込みが見つかりません: ${id}`);
+      }
+
+      await this.accountingPeriodService.assertPeriodsOpen(
+        [orderForecast.accountingPeriod],
+        "受発注見込み降格",
+        override,
+        tx
+      );
+
+      const angleBForecastData: NewAngleBForecast = {
+        projectId: orderForecast.projectId,
+        projectCode: orderForecast.projectCode,
+        projectName: orderForecast.projectName,
+        customerId: orderForecast.customerId ?? undefined,
+        customerCode: orderForecast.customerCode ?? undefined,
+        customerName: orderForecast.customerName ?? undefined,
+        accountingPeriod: orderForecast.accountingPeriod,
+        accountingItem: orderForecast.accountingItem,
+        description: orderForecast.description,
+        amount: orderForecast.amount,
+        probability: 50,
+        remarks: orderForecast.remarks ?? "",
+        period: orderForecast.period,
+        createdByUserId: orderForecast.createdByUserId ?? undefined,
+        createdByEmployeeId: orderForecast.createdByEmployeeId ?? undefined,
+      };
+
+      const angleBForecast = await this.angleBForecastRepository.create(angleBForecastData, tx);
+      const deleted = await this.orderForecastRepository.delete(id, tx);
+      await this.orderForecastHistoryService.record("demote", orderForecast, null, actor, tx);
+
+      return { angleBForecast, deleted };
+    });
   }
 }
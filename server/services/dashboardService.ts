@@ -1,6 +1,7 @@
 import type { DashboardData, ServiceRevenueComparison } from "@shared/schema/budgetTarget/types";
 
 import { AccountingItemRepository } from "../storage/accountingItem";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
 import { AngleBForecastRepository } from "../storage/angleBForecast";
 import { BudgetExpenseRepository } from "../storage/budgetExpense";
 import { BudgetRevenueRepository } from "../storage/budgetRevenue";
@@ -10,8 +11,10 @@ import { GLEntryRepository } from "../storage/glEntry";
 import { OrderForecastRepository } from "../storage/orderForecast";
 import { ProjectRepository } from "../storage/project";
 import { StaffingRepository } from "../storage/staffing";
+import { AccountingPeriodService } from "./accountingPeriodService";
 import { BudgetExpenseService } from "./budgetExpenseService";
 import { BudgetRevenueService } from "./budgetRevenueService";
+import { OrderForecastHistoryService } from "./orderForecastHistoryService";
 import { OrderForecastService } from "./orderForecastService";
 import { ProjectService } from "./projectService";
 
@@ -50,7 +53,9 @@ export class DashboardService {
       projectRepository,
       glEntryRepository,
       accountingItemRepository,
-      angleBForecastRepository
+      angleBForecastRepository,
+      new AccountingPeriodService(new AccountingPeriodRepository()),
+      new OrderForecastHistoryService(orderForecastRepository)
     );
     this.projectService = new ProjectService(
       projectRepository,
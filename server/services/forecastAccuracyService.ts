@@ -0,0 +1,441 @@
+/**
+ * 見込み精度評価サービス
+ *
+ * 責務:
+ * - 受発注見込みのスナップショット（営業担当者・サービス区分・計上科目・月別の集計）の保存
+ * - 過去のスナップショット時点の見込みと突合済みGL実績の比較
+ * - 営業担当者・サービス区分・計上科目別の精度・偏りの算出
+ */
+
+import { toAccountingItemBalance } from "@shared/schema/accountingItem";
+import type {
+  ForecastAccuracyDetail,
+  ForecastAccuracyMetrics,
+  ForecastAccuracyResponse,
+  ForecastSnapshotLine,
+  SalesPersonForecastAccuracy,
+} from "@shared/schema/forecastSnapshot";
+import type { AccountingItem, ForecastSnapshot } from "@shared/schema/integrated";
+
+import { AppError } from "../middleware/errorHandler";
+import { AccountingItemRepository } from "../storage/accountingItem";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
+import {
+  ForecastSnapshotRepository,
+  type ForecastSnapshotSummary,
+} from "../storage/forecastSnapshot";
+import { GLEntryRepository } from "../storage/glEntry";
+import { OrderForecastRepository } from "../storage/orderForecast";
+
+/** 見込み精度評価の条件 */
+export interface ForecastAccuracyOptions {
+  leadMonths?: number; // 何ヶ月前の見込みと比較するか（1の場合は対象月の開始前の最新のスナップショット）
+  includeOpenPeriods?: boolean; // 締め前の月も評価するか
+}
+
+/** 集計中の見込み・実績（absoluteActualは精度・偏りの分母） */
+interface MetricsAccumulator {
+  forecast: number;
+  actual: number;
+  absoluteError: number;
+  absoluteActual: number;
+}
+
+/**
+ * 見込み精度評価サービスクラス
+ *
+ * @description 実績は突合リンクで受発注データに結び付いたGLデータのみを対象とし、
+ * 受発注見込みの金額比でプロジェクトの営業担当者・サービス区分に割り当てる。
+ * 誤差は営業担当者・サービス区分・計上科目・月の単位で計算し、集計時に相殺しない。
+ */
+export class ForecastAccuracyService {
+  constructor(
+    private forecastSnapshotRepository: ForecastSnapshotRepository,
+    private orderForecastRepository: OrderForecastRepository,
+    private glEntryRepository: GLEntryRepository,
+    private accountingItemRepository: AccountingItemRepository,
+    private accountingPeriodRepository: AccountingPeriodRepository
+  ) {}
+
+  /**
+   * 見込みスナップショットの一覧取得
+   *
+   * @param fiscalYear - 年度
+   * @returns スナップショットの一覧（基準日の新しい順、集計行は含まない）
+   */
+  async getSnapshots(fiscalYear: number): Promise<ForecastSnapshotSummary[]> {
+    try {
+      return await this.forecastSnapshotRepository.findSummaries(fiscalYear);
+    } catch (error) {
+      console.error("見込みスナップショット一覧取得エラー:", error);
+      throw new AppError("見込みスナップショット一覧の取得中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 見込みスナップショットの作成
+   *
+   * @description 現在の受発注データを営業担当者・サービス区分・計上科目・月別に集計して保存する
+   *
+   * @param fiscalYear - 年度
+   * @param name - スナップショット名（省略時は基準日から作成）
+   * @param employeeId - 作成者の従業員ID
+   * @returns 作成したスナップショット
+   */
+  async createSnapshot(
+    fiscalYear: number,
+    name: string | undefined,
+    employeeId: string
+  ): Promise<ForecastSnapshot> {
+    try {
+      const [accountingItems, summaryRows] = await Promise.all([
+        this.accountingItemRepository.findAggregationTargets(),
+        this.orderForecastRepository.getSnapshotSummary(fiscalYear),
+      ]);
+      const itemByKey = this.buildItemMap(accountingItems);
+
+      // 計上科目を会計項目コードに揃えて集計（名称とコードが混在するため）
+      const lineMap = new Map<string, ForecastSnapshotLine>();
+      for (const row of summaryRows) {
+        const item = itemByKey.get(row.accounting_item);
+        if (!item) {
+          continue; // 集計区分が未設定の計上科目は対象外
+        }
+        const key = [row.sales_person, row.service_type, item.code, row.accounting_period].join(
+          "|"
+        );
+        const line = lineMap.get(key) ?? {
+          salesPerson: row.sales_person,
+          serviceType: row.service_type,
+          accountingItemCode: item.code,
+          accountingPeriod: row.accounting_period,
+          amount: 0,
+        };
+        line.amount = this.round(line.amount + parseFloat(row.total_amount));
+        lineMap.set(key, line);
+      }
+
+      const snapshotDate = this.toDateString(new Date());
+
+      return await this.forecastSnapshotRepository.create({
+        fiscalYear,
+        snapshotDate,
+        name: name?.trim() || `${snapshotDate}時点`,
+        lines: Array.from(lineMap.values()),
+        createdByEmployeeId: employeeId,
+      });
+    } catch (error) {
+      console.error("見込みスナップショット作成エラー:", error);
+      throw new AppError("見込みスナップショットの作成中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 見込みスナップショットの削除
+   *
+   * @param id - スナップショットID
+   * @throws AppError - スナップショットが存在しない場合
+   */
+  async deleteSnapshot(id: string): Promise<void> {
+    try {
+      const deleted = await this.forecastSnapshotRepository.delete(id);
+      if (!deleted) {
+        throw new AppError("見込みスナップショットが見つかりません", 404);
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("見込みスナップショット削除エラー:", error);
+      throw new AppError("見込みスナップショットの削除中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 見込み精度の評価
+   *
+   * @description 対象月ごとに、対象月のleadMonths-1ヶ月前の月初より前に作成された最新のスナップショットの見込みと
+   * 突合済みのGL実績を比較する。比較できるスナップショットのない月は評価しない。
+   *
+   * @param fiscalYear - 年度
+   * @param options - 比較する見込みの時期・締め前の月を含めるか
+   * @returns 営業担当者別の精度と月別の推移、営業担当者・サービス区分・計上科目別の精度
+   */
+  async getAccuracy(
+    fiscalYear: number,
+    options: ForecastAccuracyOptions = {}
+  ): Promise<ForecastAccuracyResponse> {
+    const leadMonths = options.leadMonths ?? 1;
+
+    try {
+      const months = this.getFiscalYearPeriods(fiscalYear);
+
+      const [accountingItems, snapshots, closedPeriods] = await Promise.all([
+        this.accountingItemRepository.findAggregationTargets(),
+        this.forecastSnapshotRepository.findByFiscalYear(fiscalYear),
+        this.accountingPeriodRepository.findClosedByPeriods(months),
+      ]);
+      const itemByKey = this.buildItemMap(accountingItems);
+
+      const linkRows = await this.glEntryRepository.findReconciledProjectLinks(
+        months,
+        Array.from(new Set(accountingItems.map((item) => item.code)))
+      );
+
+      // 評価対象の月（実績が確定しているか、締め前の月を含める場合は突合済みのGL実績がある月）
+      const closed = new Set(closedPeriods.map((period) => period.period));
+      const candidatePeriods = options.includeOpenPeriods
+        ? months.filter((period) => linkRows.some((row) => row.period === period))
+        : months.filter((period) => closed.has(period));
+
+      // 対象月ごとに比較するスナップショットを選ぶ（基準日の古い順のため最後に一致したもの）
+      const snapshotByPeriod = new Map<string, ForecastSnapshot>();
+      for (const period of candidatePeriods) {
+        const cutoff = `${this.shiftPeriod(period, -(leadMonths - 1))}-01`;
+        const snapshot = snapshots.filter((s) => s.snapshotDate < cutoff).pop();
+        if (snapshot) {
+          snapshotByPeriod.set(period, snapshot);
+        }
+      }
+      const evaluatedPeriods = candidatePeriods.filter((period) => snapshotByPeriod.has(period));
+
+      // 営業担当者・サービス区分・計上科目・月別の見込み・実績
+      const cells = new Map<
+        string,
+        {
+          salesPerson: string;
+          serviceType: string;
+          itemCode: string;
+          period: string;
+          forecast: number;
+          actual: number;
+        }
+      >();
+      const getCell = (
+        salesPerson: string,
+        serviceType: string,
+        itemCode: string,
+        period: string
+      ) => {
+        const key = [salesPerson, serviceType, itemCode, period].join("|");
+        let cell = cells.get(key);
+        if (!cell) {
+          cell = { salesPerson, serviceType, itemCode, period, forecast: 0, actual: 0 };
+          cells.set(key, cell);
+        }
+        return cell;
+      };
+
+      for (const period of evaluatedPeriods) {
+        for (const line of snapshotByPeriod.get(period)!.lines) {
+          if (line.accountingPeriod === period && itemByKey.has(line.accountingItemCode)) {
+            getCell(line.salesPerson, line.serviceType, line.accountingItemCode, period).forecast +=
+              line.amount;
+          }
+        }
+      }
+
+      // 突合済みのGL実績を受発注見込みの金額比で割り当てる
+      const evaluated = new Set(evaluatedPeriods);
+      const linksByGlEntry = new Map<string, typeof linkRows>();
+      for (const row of linkRows) {
+        if (!evaluated.has(row.period)) {
+          continue;
+        }
+        const links = linksByGlEntry.get(row.glEntryId) ?? [];
+        links.push(row);
+        linksByGlEntry.set(row.glEntryId, links);
+      }
+
+      for (const links of Array.from(linksByGlEntry.values())) {
+        const gl = links[0];
+        const item = itemByKey.get(gl.accountCode);
+        if (!item) {
+          continue;
+        }
+        const actual = toAccountingItemBalance(
+          item,
+          gl.debitCredit === "debit" ? Number(gl.amount) : 0,
+          gl.debitCredit === "credit" ? Number(gl.amount) : 0
+        );
+        const forecastTotal = links.reduce((sum, link) => sum + Number(link.forecastAmount), 0);
+
+        for (const link of links) {
+          const share =
+            forecastTotal !== 0 ? Number(link.forecastAmount) / forecastTotal : 1 / links.length;
+          getCell(link.salesPerson ?? "", link.serviceType ?? "", item.code, gl.period).actual +=
+            actual * share;
+        }
+      }
+
+      // 営業担当者別・明細別に集計（誤差は月単位で計算してから合算）
+      const salesPersonMap = new Map<
+        string,
+        { total: MetricsAccumulator; monthly: Map<string, MetricsAccumulator> }
+      >();
+      const detailMap = new Map<
+        string,
+        { salesPerson: string; serviceType: string; itemCode: string; total: MetricsAccumulator }
+      >();
+
+      for (const cell of Array.from(cells.values())) {
+        let salesPerson = salesPersonMap.get(cell.salesPerson);
+        if (!salesPerson) {
+          salesPerson = { total: this.emptyAccumulator(), monthly: new Map() };
+          salesPersonMap.set(cell.salesPerson, salesPerson);
+        }
+        const monthly = salesPerson.monthly.get(cell.period) ?? this.emptyAccumulator();
+        salesPerson.monthly.set(cell.period, monthly);
+
+        const detailKey = [cell.salesPerson, cell.serviceType, cell.itemCode].join("|");
+        let detail = detailMap.get(detailKey);
+        if (!detail) {
+          detail = {
+            salesPerson: cell.salesPerson,
+            serviceType: cell.serviceType,
+            itemCode: cell.itemCode,
+            total: this.emptyAccumulator(),
+          };
+          detailMap.set(detailKey, detail);
+        }
+
+        for (const accumulator of [salesPerson.total, monthly, detail.total]) {
+          this.accumulate(accumulator, cell.forecast, cell.actual);
+        }
+      }
+
+      const salesPersons: SalesPersonForecastAccuracy[] = Array.from(salesPersonMap.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([salesPerson, values]) => ({
+          salesPerson,
+          ...this.toMetrics(values.total),
+          monthly: Object.fromEntries(
+            evaluatedPeriods
+              .filter((period) => values.monthly.has(period))
+              .map((period) => [period, this.toMetrics(values.monthly.get(period)!)])
+          ),
+        }));
+
+      const itemOrder = accountingItems.map((item) => item.code);
+      const details: ForecastAccuracyDetail[] = Array.from(detailMap.values())
+        .sort(
+          (a, b) =>
+            a.salesPerson.localeCompare(b.salesPerson) ||
+            a.serviceType.localeCompare(b.serviceType) ||
+            itemOrder.indexOf(a.itemCode) - itemOrder.indexOf(b.itemCode)
+        )
+        .map((detail) => ({
+          salesPerson: detail.salesPerson,
+          serviceType: detail.serviceType,
+          accountingItemCode: detail.itemCode,
+          accountingItemName: itemByKey.get(detail.itemCode)!.name,
+          ...this.toMetrics(detail.total),
+        }));
+
+      return {
+        fiscalYear,
+        leadMonths,
+        evaluatedPeriods,
+        snapshotByPeriod: Object.fromEntries(
+          evaluatedPeriods.map((period) => {
+            const snapshot = snapshotByPeriod.get(period)!;
+            return [period, { id: snapshot.id, snapshotDate: snapshot.snapshotDate }];
+          })
+        ),
+        salesPersons,
+        details,
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("見込み精度評価エラー:", error);
+      throw new AppError("見込み精度の評価中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 会計項目の名称・コードからのマッピングの作成（プライベートメソッド）
+   *
+   * @description 受発注データの計上科目は名称またはコードのため、両方で引けるようにする
+   */
+  private buildItemMap(accountingItems: AccountingItem[]): Map<string, AccountingItem> {
+    const itemByKey = new Map<string, AccountingItem>();
+    for (const item of accountingItems) {
+      itemByKey.set(item.code, item);
+      itemByKey.set(item.name, item);
+    }
+    return itemByKey;
+  }
+
+  /**
+   * 空の集計値の作成（プライベートメソッド）
+   */
+  private emptyAccumulator(): MetricsAccumulator {
+    return { forecast: 0, actual: 0, absoluteError: 0, absoluteActual: 0 };
+  }
+
+  /**
+   * 1ヶ月分の見込み・実績の加算（プライベートメソッド）
+   */
+  private accumulate(accumulator: MetricsAccumulator, forecast: number, actual: number): void {
+    accumulator.forecast += forecast;
+    accumulator.actual += actual;
+    accumulator.absoluteError += Math.abs(forecast - actual);
+    accumulator.absoluteActual += Math.abs(actual);
+  }
+
+  /**
+   * 集計値から精度・偏りを算出（プライベートメソッド）
+   */
+  private toMetrics(accumulator: MetricsAccumulator): ForecastAccuracyMetrics {
+    const { forecast, actual, absoluteError, absoluteActual } = accumulator;
+    const hasActual = absoluteActual >= 0.005;
+    return {
+      forecast: this.round(forecast),
+      actual: this.round(actual),
+      absoluteError: this.round(absoluteError),
+      accuracy: hasActual
+        ? Math.max(0, Math.round((100 - (absoluteError / absoluteActual) * 100) * 10) / 10)
+        : null,
+      bias: hasActual ? Math.round(((forecast - actual) / absoluteActual) * 1000) / 10 : null,
+    };
+  }
+
+  /**
+   * 会計年度の期間一覧（4月〜翌年3月）の取得（プライベートメソッド）
+   */
+  private getFiscalYearPeriods(fiscalYear: number): string[] {
+    return [4, 5, 6, 7, 8, 9, 10, 11, 12, 1, 2, 3].map((month) => {
+      const year = month >= 4 ? fiscalYear : fiscalYear + 1;
+      return `${year}-${month.toString().padStart(2, "0")}`;
+    });
+  }
+
+  /**
+   * 期間（YYYY-MM）を指定した月数だけずらす（プライベートメソッド）
+   */
+  private shiftPeriod(period: string, months: number): string {
+    const [year, month] = period.split("-").map(Number);
+    const index = year * 12 + (month - 1) + months;
+    return `${Math.floor(index / 12)}-${((index % 12) + 1).toString().padStart(2, "0")}`;
+  }
+
+  /**
+   * 日付をYYYY-MM-DD形式の文字列に変換（プライベートメソッド）
+   */
+  private toDateString(date: Date): string {
+    const month = (date.getMonth() + 1).toString().padStart(2, "0");
+    const day = date.getDate().toString().padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * 金額の丸め（プライベートメソッド）
+   *
+   * @description 金額は小数第2位までのため、浮動小数点の誤差を銭単位で丸める
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
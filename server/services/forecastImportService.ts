@@ -2,22 +2,28 @@
  * 受注見込み・角度B案件CSV取込サービス
  *
  * 責務:
- * - CSVファイルのパース
+ * - CSV・XLSXファイルのパース
  * - データのバリデーション
  * - 受注見込み案件・角度B案件の一括登録
  */
 
-import type { NewAngleBForecast, NewOrderForecast } from "@shared/schema/integrated";
+import type {
+  ImportBatchType,
+  NewAngleBForecast,
+  NewOrderForecast,
+} from "@shared/schema/integrated";
 import { parse } from "csv-parse";
 import iconv from "iconv-lite";
 import { Readable } from "stream";
 
-import { db } from "../db";
+import { db, type DbExecutor } from "../db";
 import { AppError } from "../middleware/errorHandler";
 import { AccountingItemRepository } from "../storage/accountingItem";
 import { AngleBForecastRepository } from "../storage/angleBForecast";
 import { OrderForecastRepository } from "../storage/orderForecast";
 import { ProjectRepository } from "../storage/project";
+import { AccountingPeriodService, type PeriodLockOverrideRequest } from "./accountingPeriodService";
+import { type ImportFileSource, SpreadsheetService } from "./spreadsheetService";
 
 export interface ImportResult {
   totalRows: number;
@@ -26,351 +32,333 @@ export interface ImportResult {
   errors: Array<{ row: number; message: string }>;
 }
 
+/** 受注見込み案件・角度B案件の取込の種類 */
+export type ForecastImportType = Exclude<ImportBatchType, "gl-entries">;
+
+// 取込ファイルの列構成（ヘッダーなし）
+const FORECAST_IMPORT_COLUMNS = [
+  "projectCode",
+  "accountingItem",
+  "accountingPeriod",
+  "description",
+  "amount",
+] as const;
+
+/** 取込行の値（列名と文字列の値） */
+export type ForecastImportRowValues = Record<(typeof FORECAST_IMPORT_COLUMNS)[number], string>;
+
+/** 検証済みの取込行（受注見込み案件・角度B案件の共通項目） */
+export type ValidatedForecastRow = Pick<
+  NewOrderForecast,
+  | "projectId"
+  | "projectCode"
+  | "projectName"
+  | "accountingPeriod"
+  | "accountingItem"
+  | "description"
+  | "amount"
+  | "remarks"
+  | "period"
+>;
+
 export class ForecastImportService {
+  private spreadsheetService = new SpreadsheetService();
+
   constructor(
     private orderForecastRepository: OrderForecastRepository,
     private angleBForecastRepository: AngleBForecastRepository,
     private projectRepository: ProjectRepository,
-    private accountingItemRepository: AccountingItemRepository
+    private accountingItemRepository: AccountingItemRepository,
+    private accountingPeriodService: AccountingPeriodService
   ) {}
 
   /**
    * 受注見込み案件CSV取込
    *
-   * @param fileBuffer - CSVファイルのバッファ
+   * @param fileBuffer - CSV・XLSXファイルのバッファ
    * @param fiscalYear - 取込対象年度
    * @param userId - 作成者ユーザーID
    * @param employeeId - 作成者従業員ID
+   * @param source - 取込ファイルの形式（XLSXの場合は読み込むシート）
+   * @param override - 締め済み期間への取込指定（管理者のみ。未指定時は締め済み期間の行をスキップ）
    * @returns 取込結果
    */
   async importOrderForecastsFromCSV(
     fileBuffer: Buffer,
     fiscalYear: number,
     userId: string,
-    employeeId?: string
+    employeeId?: string,
+    source: ImportFileSource = { fileType: "csv" },
+    override?: PeriodLockOverrideRequest
   ): Promise<ImportResult> {
-    const results: NewOrderForecast[] = [];
-    const errors: Array<{ row: number; message: string }> = [];
-    let totalRows = 0;
-    let skippedRows = 0;
+    return await this.importFromFile(
+      "order-forecasts",
+      fileBuffer,
+      fiscalYear,
+      { userId, employeeId },
+      source,
+      override
+    );
+  }
 
-    try {
-      // エンコーディング処理（BOM対応）
-      const utf8Content = this.decodeCSV(fileBuffer);
-
-      // CSVパース（ヘッダーなし、ダブルクォート対応）
-      const rawRows: any[] = [];
-      await new Promise<void>((resolve, reject) => {
-        const stream = Readable.from(utf8Content);
-        let rowIndex = 0;
-
-        stream
-          .pipe(
-            parse({
-              columns: [
-                "projectCode",
-                "accountingItem",
-                "accountingPeriod",
-                "description",
-                "amount",
-              ],
-              skipEmptyLines: true,
-              relaxColumnCount: true,
-              trim: true,
-              quote: '"',
-              escape: '"',
-            })
-          )
-          .on("data", (row: any) => {
-            rowIndex++;
-            totalRows++;
-            rawRows.push({ ...row, rowIndex });
-          })
-          .on("end", () => {
-            console.log(`CSVパース完了: 総行数=${totalRows}`);
-            resolve();
-          })
-          .on("error", (error) => {
-            console.error("CSVパースエラー:", error);
-            reject(error);
-          });
-      });
+  /**
+   * 角度B案件CSV取込
+   *
+   * @param fileBuffer - CSV・XLSXファイルのバッファ
+   * @param fiscalYear - 取込対象年度
+   * @param userId - 作成者ユーザーID
+   * @param employeeId - 作成者従業員ID
+   * @param source - 取込ファイルの形式（XLSXの場合は読み込むシート）
+   * @param override - 締め済み期間への取込指定（管理者のみ。未指定時は締め済み期間の行をスキップ）
+   * @returns 取込結果
+   */
+  async importAngleBForecastsFromCSV(
+    fileBuffer: Buffer,
+    fiscalYear: number,
+    userId: string,
+    employeeId?: string,
+    source: ImportFileSource = { fileType: "csv" },
+    override?: PeriodLockOverrideRequest
+  ): Promise<ImportResult> {
+    return await this.importFromFile(
+      "angle-b-forecasts",
+      fileBuffer,
+      fiscalYear,
+      { userId, employeeId },
+      source,
+      override
+    );
+  }
 
-      // 各行を順次処理（非同期処理を順次実行）
-      for (const row of rawRows) {
-        try {
-          // 必須項目チェック
-          if (
-            !row.projectCode ||
-            !row.accountingItem ||
-            !row.accountingPeriod ||
-            !row.description ||
-            !row.amount
-          ) {
-            skippedRows++;
-            errors.push({ row: row.rowIndex, message: "必須項目が不足しています" });
-            continue;
-          }
+  /**
+   * 取込行のバリデーション
+   *
+   * @description 必須項目・プロジェクトコード（指定年度）・計上科目・計上年月・締め済み期間・金額を検証する
+   * @param values - 取込行の値
+   * @param fiscalYear - 取込対象年度
+   * @param closedPeriods - 締め済みの期間
+   * @param override - 締め済み期間への取込指定（管理者のみ）
+   * @returns 登録する値、またはエラーメッセージ
+   */
+  async validateRow(
+    values: ForecastImportRowValues,
+    fiscalYear: number,
+    closedPeriods: Set<string>,
+    override?: PeriodLockOverrideRequest
+  ): Promise<{ data: ValidatedForecastRow } | { error: string }> {
+    // 必須項目チェック
+    if (
+      !values.projectCode ||
+      !values.accountingItem ||
+      !values.accountingPeriod ||
+      !values.description ||
+      !values.amount
+    ) {
+      return { error: "必須項目が不足しています" };
+    }
 
-          // プロジェクトコードでプロジェクトを検索（年度でフィルタ）
-          const project = await this.projectRepository.findByCodeAndFiscalYear(
-            String(row.projectCode).trim(),
-            fiscalYear
-          );
+    // プロジェクトコードでプロジェクトを検索（年度でフィルタ）
+    const project = await this.projectRepository.findByCodeAndFiscalYear(
+      String(values.projectCode).trim(),
+      fiscalYear
+    );
 
-          if (!project) {
-            skippedRows++;
-            errors.push({
-              row: row.rowIndex,
-              message: `プロジェクトコード "${row.projectCode}" が指定年度のプロジェクトマスタに見つかりません`,
-            });
-            continue;
-          }
+    if (!project) {
+      return {
+        error: `プロジェクトコード "${values.projectCode}" が指定年度のプロジェクトマスタに見つかりません`,
+      };
+    }
 
-          // 計上科目の存在確認（名称で検索）
-          const accountingItem = await this.accountingItemRepository.findByName(
-            String(row.accountingItem).trim()
-          );
+    // 計上科目の存在確認（名称で検索）
+    const accountingItem = await this.accountingItemRepository.findByName(
+      String(values.accountingItem).trim()
+    );
 
-          if (!accountingItem) {
-            skippedRows++;
-            errors.push({
-              row: row.rowIndex,
-              message: `計上科目 "${row.accountingItem}" が見つかりません`,
-            });
-            continue;
-          }
+    if (!accountingItem) {
+      return { error: `計上科目 "${values.accountingItem}" が見つかりません` };
+    }
 
-          // 計上年月のバリデーション（YYYY-MM形式）
-          const accountingPeriod = String(row.accountingPeriod).trim();
-          if (!/^\d{4}-\d{2}$/.test(accountingPeriod)) {
-            skippedRows++;
-            errors.push({
-              row: row.rowIndex,
-              message: `計上年月の形式が不正です: ${accountingPeriod} (YYYY-MM形式で入力してください)`,
-            });
-            continue;
-          }
+    // 計上年月のバリデーション（YYYY-MM形式）
+    const accountingPeriod = String(values.accountingPeriod).trim();
+    if (!/^\d{4}-\d{2}$/.test(accountingPeriod)) {
+      return {
+        error: `計上年月の形式が不正です: ${accountingPeriod} (YYYY-MM形式で入力してください)`,
+      };
+    }
 
-          // 金額のバリデーション（カンマ区切り対応）
-          const amountStr = String(row.amount).trim().replace(/,/g, "");
-          const amount = parseFloat(amountStr);
+    // 締め済み期間の行は取り込まない（管理者が理由を指定した場合を除く）
+    if (closedPeriods.has(accountingPeriod) && !override) {
+      return { error: `計上年月 ${accountingPeriod} は締め済みのため取り込めません` };
+    }
 
-          if (isNaN(amount) || amount <= 0) {
-            skippedRows++;
-            errors.push({
-              row: row.rowIndex,
-              message: `金額が不正です: ${row.amount}`,
-            });
-            continue;
-          }
+    // 金額のバリデーション（カンマ区切り対応）
+    const amountStr = String(values.amount).trim().replace(/,/g, "");
+    const amount = parseFloat(amountStr);
+
+    if (isNaN(amount) || amount <= 0) {
+      return { error: `金額が不正です: ${values.amount}` };
+    }
+
+    return {
+      data: {
+        projectId: project.id,
+        projectCode: project.code,
+        projectName: project.name,
+        accountingPeriod: accountingPeriod,
+        accountingItem: accountingItem.name,
+        description: String(values.description).trim(),
+        amount: amount.toString(),
+        remarks: "",
+        period: accountingPeriod, // 期間（period）は計上年月と同じ
+      },
+    };
+  }
+
+  /**
+   * 検証済みの取込行の一括登録
+   *
+   * @param importType - 取込の種類（受注見込み案件・角度B案件）
+   * @param rows - 検証済みの取込行
+   * @param user - 作成者のユーザーID・従業員ID
+   * @param override - 締め済み期間への取込指定（管理者のみ）
+   * @param importBatchId - 取込バッチID（取込バッチから反映する場合）
+   * @param executor - DBエグゼキューター（トランザクション内で呼び出す場合に指定）
+   * @returns 登録件数
+   * @throws AppError - 締め済みの期間を含む場合
+   */
+  async insertRows(
+    importType: ForecastImportType,
+    rows: ValidatedForecastRow[],
+    user: { userId: string; employeeId?: string },
+    override?: PeriodLockOverrideRequest,
+    importBatchId?: string,
+    executor: DbExecutor = db
+  ): Promise<number> {
+    if (rows.length === 0) {
+      return 0;
+    }
 
-          // 期間（period）を計上年月から計算
-          const period = accountingPeriod;
+    await executor.transaction(async (tx) => {
+      await this.accountingPeriodService.assertPeriodsOpen(
+        rows.map((row) => row.accountingPeriod),
+        importType === "order-forecasts" ? "受注見込みCSV取込" : "角度B案件CSV取込",
+        override,
+        tx
+      );
 
-          // 受注見込みデータ作成
+      for (const row of rows) {
+        const common = {
+          ...row,
+          createdByUserId: user.userId,
+          createdByEmployeeId: user.employeeId,
+          importBatchId: importBatchId ?? null,
+        };
+
+        if (importType === "order-forecasts") {
           const orderForecastData: NewOrderForecast = {
-            projectId: project.id,
-            projectCode: project.code,
-            projectName: project.name,
-            accountingPeriod: accountingPeriod,
-            accountingItem: accountingItem.name,
-            description: String(row.description).trim(),
-            amount: amount.toString(),
-            remarks: "",
-            period: period,
+            ...common,
             reconciliationStatus: "unmatched",
-            createdByUserId: userId,
-            createdByEmployeeId: employeeId,
           };
-
-          results.push(orderForecastData);
-        } catch (error: any) {
-          console.error(`行 ${row.rowIndex} 処理エラー:`, error);
-          skippedRows++;
-          errors.push({ row: row.rowIndex, message: error.message || "データ処理エラー" });
+          await this.orderForecastRepository.create(orderForecastData, tx);
+        } else {
+          // 角度B案件は確度50固定
+          const angleBForecastData: NewAngleBForecast = { ...common, probability: 50 };
+          await this.angleBForecastRepository.create(angleBForecastData, tx);
         }
       }
+    });
 
-      console.log(
-        `データ処理完了: 取込対象=${results.length}, スキップ=${skippedRows}, エラー=${errors.length}`
+    return rows.length;
+  }
+
+  /**
+   * 取込バッチで登録した受注見込み案件・角度B案件の取消
+   *
+   * @param importType - 取込の種類（受注見込み案件・角度B案件）
+   * @param importBatchId - 取込バッチID
+   * @param override - 締め済み期間の変更指定（管理者のみ）
+   * @param executor - DBエグゼキューター（トランザクション内で呼び出す場合に指定）
+   * @returns 削除件数
+   * @throws AppError - 締め済みの期間を含む場合、突合済みの受注見込みを含む場合
+   */
+  async revertImportBatch(
+    importType: ForecastImportType,
+    importBatchId: string,
+    override?: PeriodLockOverrideRequest,
+    executor: DbExecutor = db
+  ): Promise<number> {
+    const forecasts =
+      importType === "order-forecasts"
+        ? await this.orderForecastRepository.findByImportBatchId(importBatchId, executor)
+        : await this.angleBForecastRepository.findByImportBatchId(importBatchId, executor);
+
+    await this.accountingPeriodService.assertPeriodsOpen(
+      forecasts.map((forecast) => forecast.accountingPeriod),
+      importType === "order-forecasts" ? "受注見込み取込の取消" : "角度B案件取込の取消",
+      override,
+      executor
+    );
+
+    // 突合済みの受注見込みは突合を解除してから取り消す
+    const hasMatched = forecasts.some(
+      (forecast) =>
+        "reconciliationStatus" in forecast &&
+        (forecast.reconciliationStatus === "matched" || forecast.reconciliationStatus === "fuzzy")
+    );
+    if (hasMatched) {
+      throw new AppError(
+        "突合済みの受注見込みが含まれるため取り消せません。先に突合を解除してください",
+        409
       );
+    }
 
-      // トランザクション内で一括登録
-      if (results.length > 0) {
-        await db.transaction(async (_tx) => {
-          for (const orderForecastData of results) {
-            await this.orderForecastRepository.create(orderForecastData);
-          }
-        });
+    await executor.transaction(async (tx) => {
+      for (const forecast of forecasts) {
+        if (importType === "order-forecasts") {
+          await this.orderForecastRepository.delete(forecast.id, tx);
+        } else {
+          await this.angleBForecastRepository.delete(forecast.id, tx);
+        }
       }
+    });
 
-      return {
-        totalRows,
-        importedRows: results.length,
-        skippedRows,
-        errors,
-      };
-    } catch (error) {
-      console.error("CSV取込エラー:", error);
-      if (error instanceof AppError) {
-        throw error;
-      }
-      throw new AppError("CSVファイルの取込中にエラーが発生しました", 500);
-    }
+    return forecasts.length;
   }
 
   /**
-   * 角度B案件CSV取込
-   *
-   * @param fileBuffer - CSVファイルのバッファ
-   * @param fiscalYear - 取込対象年度
-   * @param userId - 作成者ユーザーID
-   * @param employeeId - 作成者従業員ID
-   * @returns 取込結果
+   * 取込ファイルの検証と一括登録（プライベートメソッド）
    */
-  async importAngleBForecastsFromCSV(
+  private async importFromFile(
+    importType: ForecastImportType,
     fileBuffer: Buffer,
     fiscalYear: number,
-    userId: string,
-    employeeId?: string
+    user: { userId: string; employeeId?: string },
+    source: ImportFileSource,
+    override?: PeriodLockOverrideRequest
   ): Promise<ImportResult> {
-    const results: NewAngleBForecast[] = [];
+    const results: ValidatedForecastRow[] = [];
     const errors: Array<{ row: number; message: string }> = [];
     let totalRows = 0;
     let skippedRows = 0;
 
     try {
-      // エンコーディング処理（BOM対応）
-      const utf8Content = this.decodeCSV(fileBuffer);
-
-      // CSVパース（ヘッダーなし、ダブルクォート対応）
-      const rawRows: any[] = [];
-      await new Promise<void>((resolve, reject) => {
-        const stream = Readable.from(utf8Content);
-        let rowIndex = 0;
-
-        stream
-          .pipe(
-            parse({
-              columns: [
-                "projectCode",
-                "accountingItem",
-                "accountingPeriod",
-                "description",
-                "amount",
-              ],
-              skipEmptyLines: true,
-              relaxColumnCount: true,
-              trim: true,
-              quote: '"',
-              escape: '"',
-            })
-          )
-          .on("data", (row: any) => {
-            rowIndex++;
-            totalRows++;
-            rawRows.push({ ...row, rowIndex });
-          })
-          .on("end", () => {
-            console.log(`CSVパース完了: 総行数=${totalRows}`);
-            resolve();
-          })
-          .on("error", (error) => {
-            console.error("CSVパースエラー:", error);
-            reject(error);
-          });
-      });
+      // CSV・XLSXの行を取込項目に展開
+      const rawRows = await this.readRows(fileBuffer, source);
+      totalRows = rawRows.length;
+
+      const closedPeriods = await this.accountingPeriodService.getClosedPeriods();
 
       // 各行を順次処理（非同期処理を順次実行）
       for (const row of rawRows) {
         try {
-          // 必須項目チェック
-          if (
-            !row.projectCode ||
-            !row.accountingItem ||
-            !row.accountingPeriod ||
-            !row.description ||
-            !row.amount
-          ) {
+          const validated = await this.validateRow(row.values, fiscalYear, closedPeriods, override);
+          if ("error" in validated) {
             skippedRows++;
-            errors.push({ row: row.rowIndex, message: "必須項目が不足しています" });
+            errors.push({ row: row.rowIndex, message: validated.error });
             continue;
           }
 
-          // プロジェクトコードでプロジェクトを検索（年度でフィルタ）
-          const project = await this.projectRepository.findByCodeAndFiscalYear(
-            String(row.projectCode).trim(),
-            fiscalYear
-          );
-
-          if (!project) {
-            skippedRows++;
-            errors.push({
-              row: row.rowIndex,
-              message: `プロジェクトコード "${row.projectCode}" が指定年度のプロジェクトマスタに見つかりません`,
-            });
-            continue;
-          }
-
-          // 計上科目の存在確認（名称で検索）
-          const accountingItem = await this.accountingItemRepository.findByName(
-            String(row.accountingItem).trim()
-          );
-
-          if (!accountingItem) {
-            skippedRows++;
-            errors.push({
-              row: row.rowIndex,
-              message: `計上科目 "${row.accountingItem}" が見つかりません`,
-            });
-            continue;
-          }
-
-          // 計上年月のバリデーション（YYYY-MM形式）
-          const accountingPeriod = String(row.accountingPeriod).trim();
-          if (!/^\d{4}-\d{2}$/.test(accountingPeriod)) {
-            skippedRows++;
-            errors.push({
-              row: row.rowIndex,
-              message: `計上年月の形式が不正です: ${accountingPeriod} (YYYY-MM形式で入力してください)`,
-            });
-            continue;
-          }
-
-          // 金額のバリデーション（カンマ区切り対応）
-          const amountStr = String(row.amount).trim().replace(/,/g, "");
-          const amount = parseFloat(amountStr);
-
-          if (isNaN(amount) || amount <= 0) {
-            skippedRows++;
-            errors.push({
-              row: row.rowIndex,
-              message: `金額が不正です: ${row.amount}`,
-            });
-            continue;
-          }
-
-          // 期間（period）を計上年月から計算
-          const period = accountingPeriod;
-
-          // 角度B案件データ作成（確度50固定）
-          const angleBForecastData: NewAngleBForecast = {
-            projectId: project.id,
-            projectCode: project.code,
-            projectName: project.name,
-            accountingPeriod: accountingPeriod,
-            accountingItem: accountingItem.name,
-            description: String(row.description).trim(),
-            amount: amount.toString(),
-            probability: 50, // 固定値
-            remarks: "",
-            period: period,
-            createdByUserId: userId,
-            createdByEmployeeId: employeeId,
-          };
-
-          results.push(angleBForecastData);
+          results.push(validated.data);
         } catch (error: any) {
           console.error(`行 ${row.rowIndex} 処理エラー:`, error);
           skippedRows++;
@@ -383,13 +371,7 @@ export class ForecastImportService {
       );
 
       // トランザクション内で一括登録
-      if (results.length > 0) {
-        await db.transaction(async (_tx) => {
-          for (const angleBForecastData of results) {
-            await this.angleBForecastRepository.create(angleBForecastData);
-          }
-        });
-      }
+      await this.insertRows(importType, results, user, override);
 
       return {
         totalRows,
@@ -406,6 +388,69 @@ export class ForecastImportService {
     }
   }
 
+  /**
+   * 取込ファイル（CSV・XLSX）の行の読込
+   *
+   * @description ヘッダーなしの5列（プロジェクトコード・計上科目・計上年月・摘要・金額）として各行を展開する
+   * @param fileBuffer - CSV・XLSXファイルのバッファ
+   * @param source - 取込ファイルの形式（XLSXの場合は読み込むシート）
+   * @returns 行番号付きの取込項目
+   */
+  async readRows(
+    fileBuffer: Buffer,
+    source: ImportFileSource
+  ): Promise<Array<{ rowIndex: number; values: ForecastImportRowValues }>> {
+    const toValues = (columns: string[]): ForecastImportRowValues =>
+      Object.fromEntries(
+        FORECAST_IMPORT_COLUMNS.map((column, columnIndex) => [column, columns[columnIndex] ?? ""])
+      ) as ForecastImportRowValues;
+
+    if (source.fileType === "xlsx") {
+      const { rows, sheetName } = await this.spreadsheetService.readSheet(
+        fileBuffer,
+        source.sheetName
+      );
+      console.log(`XLSX読込完了: シート=${sheetName}, 総行数=${rows.length}`);
+
+      return rows.map((values, index) => ({ rowIndex: index + 1, values: toValues(values) }));
+    }
+
+    // エンコーディング処理（BOM対応）
+    const utf8Content = this.decodeCSV(fileBuffer);
+
+    // CSVパース（ヘッダーなし、ダブルクォート対応）
+    const rawRows: Array<{ rowIndex: number; values: ForecastImportRowValues }> = [];
+    await new Promise<void>((resolve, reject) => {
+      const stream = Readable.from(utf8Content);
+      let rowIndex = 0;
+
+      stream
+        .pipe(
+          parse({
+            skipEmptyLines: true,
+            relaxColumnCount: true,
+            trim: true,
+            quote: '"',
+            escape: '"',
+          })
+        )
+        .on("data", (columns: string[]) => {
+          rowIndex++;
+          rawRows.push({ rowIndex, values: toValues(columns) });
+        })
+        .on("end", () => {
+          console.log(`CSVパース完了: 総行数=${rowIndex}`);
+          resolve();
+        })
+        .on("error", (error) => {
+          console.error("CSVパースエラー:", error);
+          reject(error);
+        });
+    });
+
+    return rawRows;
+  }
+
   /**
    * CSVファイルのエンコーディング処理（BOM対応）
    *
@@ -0,0 +1,146 @@
+import { forecastSplitGroups } from "@shared/schema";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../db";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
+import { AngleBForecastRepository } from "../storage/angleBForecast";
+import { CustomerRepository } from "../storage/customer";
+import { ForecastSplitGroupRepository } from "../storage/forecastSplit";
+import { OrderForecastRepository } from "../storage/orderForecast";
+import { ProjectRepository } from "../storage/project";
+import { insertOrderForecast, insertProject } from "../testing/fixtures";
+import { resetTestDb, type TestDb } from "../testing/testDb";
+import { AccountingPeriodService } from "./accountingPeriodService";
+import { ForecastSplitService } from "./forecastSplitService";
+import { OrderForecastHistoryService } from "./orderForecastHistoryService";
+
+vi.mock("../db", async () => {
+  const { createTestDb } = await import("../testing/testDb");
+  return await createTestDb();
+});
+
+const testDb = db as unknown as TestDb;
+
+describe("分割計上の金額計算", () => {
+  const orderForecastRepository = new OrderForecastRepository();
+  const service = new ForecastSplitService(
+    new ForecastSplitGroupRepository(),
+    orderForecastRepository,
+    new AngleBForecastRepository(),
+    new ProjectRepository(),
+    new CustomerRepository(),
+    new AccountingPeriodService(new AccountingPeriodRepository()),
+    new OrderForecastHistoryService(orderForecastRepository)
+  );
+
+  it("均等割では円未満を切り捨て、端数を最終月に加算する", () => {
+    const allocations = service.previewSplit({
+      totalAmount: "100000",
+      startMonth: "2025-11",
+      months: 3,
+      pattern: "equal",
+    });
+
+    expect(allocations).toEqual([
+      { accountingPeriod: "2025-11", ratio: 33.33, amount: "33333.00" },
+      { accountingPeriod: "2025-12", ratio: 33.33, amount: "33333.00" },
+      { accountingPeriod: "2026-01", ratio: 33.33, amount: "33334.00" },
+    ]);
+  });
+
+  it("割合指定では月ごとの割合で按分し、端数を最終月に加算する", () => {
+    const allocations = service.previewSplit({
+      totalAmount: "100001",
+      startMonth: "2025-04",
+      months: 3,
+      pattern: "custom",
+      percentages: [50, 30, 20],
+    });
+
+    expect(allocations.map((allocation) => allocation.amount)).toEqual([
+      "50000.00",
+      "30000.00",
+      "20001.00",
+    ]);
+    expect(allocations.map((allocation) => allocation.ratio)).toEqual([50, 30, 20]);
+  });
+
+  it("割合指定の数・合計・負の値が不正な場合はエラーにする", () => {
+    const schedule = {
+      totalAmount: "100000",
+      startMonth: "2025-04",
+      months: 3,
+      pattern: "custom" as const,
+    };
+
+    expect(() => service.previewSplit({ ...schedule, percentages: [50, 50] })).toThrow(
+      "月ごとの割合を分割する月数と同じ数だけ指定してください"
+    );
+    expect(() => service.previewSplit({ ...schedule, percentages: [50, 30, 10] })).toThrow(
+      "月ごとの割合の合計を100%にしてください（現在90%）"
+    );
+    expect(() => service.previewSplit({ ...schedule, percentages: [120, 0, -20] })).toThrow(
+      "月ごとの割合は0以上で指定してください"
+    );
+  });
+
+  it("稼働日按分では土日を除く日数の比で按分する", () => {
+    // 2025年6月は21日、7月は23日
+    const allocations = service.previewSplit({
+      totalAmount: "440000",
+      startMonth: "2025-06",
+      months: 2,
+      pattern: "working-days",
+    });
+
+    expect(allocations).toEqual([
+      { accountingPeriod: "2025-06", ratio: 47.73, amount: "210000.00" },
+      { accountingPeriod: "2025-07", ratio: 52.27, amount: "230000.00" },
+    ]);
+  });
+});
+
+describe("分割元の明細の置き換え", () => {
+  const orderForecastRepository = new OrderForecastRepository();
+  const service = new ForecastSplitService(
+    new ForecastSplitGroupRepository(),
+    orderForecastRepository,
+    new AngleBForecastRepository(),
+    new ProjectRepository(),
+    new CustomerRepository(),
+    new AccountingPeriodService(new AccountingPeriodRepository()),
+    new OrderForecastHistoryService(orderForecastRepository)
+  );
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await resetTestDb(testDb);
+  });
+
+  it("取得後に他のユーザーが更新した分割元の明細は置き換えず、最新データとともに409を返す", async () => {
+    const project = await insertProject(testDb);
+    const original = await insertOrderForecast(testDb, { projectId: project.id });
+    const latest = await orderForecastRepository.update(original.id, { amount: "150000.00" });
+    // 分割元の取得時点では更新前だったものとする
+    vi.spyOn(orderForecastRepository, "findById").mockResolvedValueOnce(original);
+
+    await expect(
+      service.createSplit(
+        {
+          targetType: "order-forecast",
+          totalAmount: "300000",
+          startMonth: "2025-06",
+          months: 3,
+          pattern: "equal",
+          line: { projectId: project.id, accountingItem: "売上高", description: "保守費用" },
+          replaceIds: [original.id],
+        },
+        { userId: "user-1" }
+      )
+    ).rejects.toMatchObject({ statusCode: 409, current: { version: latest?.version } });
+
+    expect((await orderForecastRepository.findById(original.id))?.amount).toBe("150000.00");
+    expect(await testDb.select().from(forecastSplitGroups)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,503 @@
+import type {
+  ForecastSplitAllocation,
+  ForecastSplitSchedule,
+  ForecastSplitTargetType,
+} from "@shared/schema/forecastSplit";
+import type { AngleBForecast, ForecastSplitGroup, OrderForecast } from "@shared/schema/integrated";
+
+import { db, type DbExecutor } from "../db";
+import { AppError, VersionConflictError } from "../middleware/errorHandler";
+import { AngleBForecastRepository } from "../storage/angleBForecast";
+import { CustomerRepository } from "../storage/customer";
+import { ForecastSplitGroupRepository } from "../storage/forecastSplit";
+import { OrderForecastRepository } from "../storage/orderForecast";
+import { ProjectRepository } from "../storage/project";
+import { AccountingPeriodService, type PeriodLockOverrideRequest } from "./accountingPeriodService";
+import {
+  type OrderForecastHistoryActor,
+  OrderForecastHistoryService,
+} from "./orderForecastHistoryService";
+
+/**
+ * 分割した各月の明細に設定する項目
+ */
+export interface ForecastSplitLineInput {
+  projectId: string;
+  customerId?: string | null;
+  accountingItem: string;
+  description: string;
+  remarks?: string | null;
+  probability?: number; // 角度B案件の確度（%）
+}
+
+/**
+ * 分割計上の指定
+ */
+export interface ForecastSplitRequest extends ForecastSplitSchedule {
+  targetType: ForecastSplitTargetType;
+  line: ForecastSplitLineInput;
+  replaceIds?: string[]; // 分割で置き換える既存の明細ID（分割元の明細）
+}
+
+/**
+ * 分割計上グループと各月の明細
+ */
+export interface ForecastSplitResult {
+  group: ForecastSplitGroup;
+  lines: Array<OrderForecast | AngleBForecast>;
+}
+
+// 分割できる月数の上限
+const MAX_SPLIT_MONTHS = 36;
+
+// 楽観ロックの競合時のメッセージ
+const VERSION_CONFLICT_MESSAGE =
+  "他のユーザーが先に更新したため保存できませんでした。最新の内容を確認してください";
+
+/**
+ * 分割計上サービスクラス
+ *
+ * @description 受発注見込み・角度B案件の金額を複数月に分割して計上する
+ * @responsibility 分割方法ごとの月別金額の計算、分割明細の作成・置き換え（再分割）をトランザクションで実行
+ */
+export class ForecastSplitService {
+  constructor(
+    private forecastSplitGroupRepository: ForecastSplitGroupRepository,
+    private orderForecastRepository: OrderForecastRepository,
+    private angleBForecastRepository: AngleBForecastRepository,
+    private projectRepository: ProjectRepository,
+    private customerRepository: CustomerRepository,
+    private accountingPeriodService: AccountingPeriodService,
+    private orderForecastHistoryService: OrderForecastHistoryService
+  ) {}
+
+  /**
+   * 月別の分割金額を計算（保存しない）
+   *
+   * @param schedule - 分割条件
+   * @returns 月ごとの分割結果
+   * @throws AppError - 分割条件が不正な場合
+   */
+  previewSplit(schedule: ForecastSplitSchedule): ForecastSplitAllocation[] {
+    return this.calculateAllocations(schedule);
+  }
+
+  /**
+   * 分割計上グループと各月の明細を取得
+   *
+   * @param id - 分割計上グループID
+   * @returns 分割計上グループと各月の明細（計上年月順）
+   * @throws AppError - 分割計上グループが見つからない場合
+   */
+  async getSplitGroup(id: string): Promise<ForecastSplitResult> {
+    const group = await this.forecastSplitGroupRepository.findById(id);
+    if (!group) {
+      throw new AppError("分割計上グループが見つかりません", 404, true, "NOT_FOUND");
+    }
+
+    const lines = await this.findGroupLines(group.targetType, id);
+    return { group, lines };
+  }
+
+  /**
+   * 金額を分割して各月の明細を作成
+   *
+   * @description 分割元の明細を指定した場合は、同じトランザクションで削除して置き換える
+   * @param request - 分割計上の指定
+   * @param actor - 実行者（受発注データの変更履歴に記録）
+   * @param override - 締め済み期間の変更指定（管理者のみ）
+   * @returns 作成した分割計上グループと各月の明細
+   * @throws AppError - 分割条件が不正な場合、分割元が突合済みの場合、締め済みの期間を含む場合
+   */
+  async createSplit(
+    request: ForecastSplitRequest,
+    actor: OrderForecastHistoryActor,
+    override?: PeriodLockOverrideRequest
+  ): Promise<ForecastSplitResult> {
+    try {
+      const allocations = this.calculateAllocations(request);
+      const replaceIds = Array.from(new Set(request.replaceIds ?? []));
+
+      return await db.transaction(async (tx) => {
+        const replacedLines = await this.findLinesByIds(request.targetType, replaceIds, tx);
+        if (replacedLines.length !== replaceIds.length) {
+          throw new AppError("分割元の明細が見つかりません", 404);
+        }
+
+        const group = await this.forecastSplitGroupRepository.create(
+          {
+            targetType: request.targetType,
+            totalAmount: request.totalAmount,
+            startMonth: request.startMonth,
+            months: request.months,
+            pattern: request.pattern,
+            percentages: request.pattern === "custom" ? request.percentages : null,
+            createdByUserId: actor.userId ?? null,
+          },
+          tx
+        );
+
+        const lines = await this.replaceLines(
+          group,
+          request,
+          allocations,
+          replacedLines,
+          actor,
+          "受発注データ分割計上",
+          override,
+          tx
+        );
+        return { group, lines };
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("分割計上エラー:", error);
+      throw new AppError("分割計上中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 分割計上グループを新しい分割条件で再分割
+   *
+   * @description グループの明細をすべて削除し、新しい条件で各月の明細を作り直す（同じトランザクションで実行）
+   * @param id - 分割計上グループID
+   * @param request - 新しい分割計上の指定（対象の種類はグループと同じであること）
+   * @param actor - 実行者（受発注データの変更履歴に記録）
+   * @param override - 締め済み期間の変更指定（管理者のみ）
+   * @returns 更新した分割計上グループと各月の明細
+   * @throws AppError - グループが見つからない場合、明細が突合済みの場合、締め済みの期間を含む場合
+   */
+  async respreadSplit(
+    id: string,
+    request: Omit<ForecastSplitRequest, "replaceIds">,
+    actor: OrderForecastHistoryActor,
+    override?: PeriodLockOverrideRequest
+  ): Promise<ForecastSplitResult> {
+    try {
+      const allocations = this.calculateAllocations(request);
+
+      return await db.transaction(async (tx) => {
+        const existing = await this.forecastSplitGroupRepository.findById(id, tx);
+        if (!existing) {
+          throw new AppError("分割計上グループが見つかりません", 404, true, "NOT_FOUND");
+        }
+        if (existing.targetType !== request.targetType) {
+          throw new AppError("分割計上グループの対象が一致しません", 400);
+        }
+
+        const currentLines = await this.findGroupLines(existing.targetType, id, tx);
+        const group = await this.forecastSplitGroupRepository.update(
+          id,
+          {
+            totalAmount: request.totalAmount,
+            startMonth: request.startMonth,
+            months: request.months,
+            pattern: request.pattern,
+            percentages: request.pattern === "custom" ? request.percentages : null,
+          },
+          tx
+        );
+        if (!group) {
+          throw new AppError("分割計上グループが見つかりません", 404, true, "NOT_FOUND");
+        }
+
+        const lines = await this.replaceLines(
+          group,
+          request,
+          allocations,
+          currentLines,
+          actor,
+          "受発注データ再分割",
+          override,
+          tx
+        );
+        return { group, lines };
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("再分割エラー:", error);
+      throw new AppError("再分割中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 既存の明細を削除して各月の明細を作成（プライベートメソッド）
+   *
+   * @description 突合済みの受発注データは置き換えない。削除・作成する明細の期間がすべて締められていないことを確認する。
+   * 置き換える明細は取得時のバージョンで削除し、取得後に他のユーザーが更新・削除していた場合は中止する
+   * @throws VersionConflictError - 置き換える明細を他のユーザーが先に更新していた場合
+   */
+  private async replaceLines(
+    group: ForecastSplitGroup,
+    request: Omit<ForecastSplitRequest, "replaceIds">,
+    allocations: ForecastSplitAllocation[],
+    replacedLines: Array<OrderForecast | AngleBForecast>,
+    actor: OrderForecastHistoryActor,
+    operation: string,
+    override: PeriodLockOverrideRequest | undefined,
+    executor: DbExecutor
+  ): Promise<Array<OrderForecast | AngleBForecast>> {
+    const reconciledLine = replacedLines.find(
+      (line) =>
+        "reconciliationStatus" in line &&
+        (line.reconciliationStatus === "matched" || line.reconciliationStatus === "fuzzy")
+    );
+    if (reconciledLine) {
+      throw new AppError(
+        `突合済みの明細（${reconciledLine.accountingPeriod} ${reconciledLine.description}）は分割できません。先に突合を解除してください`,
+        409
+      );
+    }
+
+    await this.accountingPeriodService.assertPeriodsOpen(
+      [
+        ...replacedLines.map((line) => line.accountingPeriod),
+        ...allocations.map((allocation) => allocation.accountingPeriod),
+      ],
+      request.targetType === "angle-b" ? operation.replace("受発注データ", "角度B案件") : operation,
+      override,
+      executor
+    );
+
+    const base = await this.buildLineBase(request.line, executor);
+
+    if (request.targetType === "angle-b") {
+      for (const line of replacedLines) {
+        if (
+          !(await this.angleBForecastRepository.deleteIfVersionMatches(
+            line.id,
+            line.version,
+            executor
+          ))
+        ) {
+          await this.throwVersionConflict(request.targetType, line.id, executor);
+        }
+      }
+      const created: AngleBForecast[] = [];
+      for (const allocation of allocations) {
+        created.push(
+          await this.angleBForecastRepository.create(
+            {
+              ...base,
+              accountingPeriod: allocation.accountingPeriod,
+              period: allocation.accountingPeriod,
+              amount: allocation.amount,
+              probability: request.line.probability ?? 50,
+              splitGroupId: group.id,
+              createdByUserId: actor.userId ?? undefined,
+              createdByEmployeeId: actor.employeeId ?? undefined,
+            },
+            executor
+          )
+        );
+      }
+      return created;
+    }
+
+    for (const line of replacedLines as OrderForecast[]) {
+      if (
+        !(await this.orderForecastRepository.deleteIfVersionMatches(
+          line.id,
+          line.version,
+          executor
+        ))
+      ) {
+        await this.throwVersionConflict(request.targetType, line.id, executor);
+      }
+      await this.orderForecastHistoryService.record("delete", line, null, actor, executor);
+    }
+    const created: OrderForecast[] = [];
+    for (const allocation of allocations) {
+      const orderForecast = await this.orderForecastRepository.create(
+        {
+          ...base,
+          accountingPeriod: allocation.accountingPeriod,
+          period: allocation.accountingPeriod, // 期間（period）は計上年月と同じ
+          amount: allocation.amount,
+          splitGroupId: group.id,
+          createdByUserId: actor.userId ?? null,
+          createdByEmployeeId: actor.employeeId ?? null,
+        },
+        executor
+      );
+      await this.orderForecastHistoryService.record("create", null, orderForecast, actor, executor);
+      created.push(orderForecast);
+    }
+    return created;
+  }
+
+  /**
+   * 各月の明細に共通する項目を作成（プライベートメソッド）
+   *
+   * @description プロジェクト・取引先のコードと名称はマスタから取得する
+   */
+  private async buildLineBase(line: ForecastSplitLineInput, executor: DbExecutor) {
+    const project = await this.projectRepository.findById(line.projectId, executor);
+    if (!project) {
+      throw new AppError("指定されたプロジェクトが見つかりません", 404);
+    }
+
+    const customer = line.customerId
+      ? await this.customerRepository.findById(line.customerId, executor)
+      : null;
+    if (line.customerId && !customer) {
+      throw new AppError("指定された取引先が見つかりません", 404);
+    }
+
+    return {
+      projectId: project.id,
+      projectCode: project.code,
+      projectName: project.name,
+      customerId: customer?.id ?? null,
+      customerCode: customer?.code ?? null,
+      customerName: customer?.name ?? null,
+      accountingItem: line.accountingItem,
+      description: line.description,
+      remarks: line.remarks ?? null,
+    };
+  }
+
+  /**
+   * 月別の分割金額を計算（プライベートメソッド）
+   *
+   * @description 各月の金額は円未満を切り捨て、端数は最終月に加算して総額と一致させる
+   */
+  private calculateAllocations(schedule: ForecastSplitSchedule): ForecastSplitAllocation[] {
+    const totalAmount = Number(schedule.totalAmount);
+    if (isNaN(totalAmount)) {
+      throw new AppError("総額は数値で指定してください", 400);
+    }
+    if (!Number.isInteger(schedule.months) || schedule.months < 1) {
+      throw new AppError("分割する月数は1以上で指定してください", 400);
+    }
+    if (schedule.months > MAX_SPLIT_MONTHS) {
+      throw new AppError(`分割する月数は${MAX_SPLIT_MONTHS}以下で指定してください`, 400);
+    }
+
+    const periods = Array.from({ length: schedule.months }, (_, i) =>
+      this.addMonths(schedule.startMonth, i)
+    );
+    const weights = this.getWeights(schedule, periods);
+    const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+
+    let allocatedAmount = 0;
+    return periods.map((period, index) => {
+      const isLast = index === periods.length - 1;
+      const amount = isLast
+        ? totalAmount - allocatedAmount
+        : Math.trunc((totalAmount * weights[index]) / weightTotal);
+      allocatedAmount += amount;
+      return {
+        accountingPeriod: period,
+        ratio: Math.round((weights[index] / weightTotal) * 10000) / 100,
+        amount: amount.toFixed(2),
+      };
+    });
+  }
+
+  /**
+   * 分割方法ごとの各月の重みを取得（プライベートメソッド）
+   */
+  private getWeights(schedule: ForecastSplitSchedule, periods: string[]): number[] {
+    switch (schedule.pattern) {
+      case "custom": {
+        const percentages = schedule.percentages ?? [];
+        if (percentages.length !== periods.length) {
+          throw new AppError("月ごとの割合を分割する月数と同じ数だけ指定してください", 400);
+        }
+        if (percentages.some((percentage) => percentage < 0)) {
+          throw new AppError("月ごとの割合は0以上で指定してください", 400);
+        }
+        const total = percentages.reduce((sum, percentage) => sum + percentage, 0);
+        if (Math.abs(total - 100) > 0.01) {
+          throw new AppError(`月ごとの割合の合計を100%にしてください（現在${total}%）`, 400);
+        }
+        return percentages;
+      }
+      case "working-days":
+        return periods.map((period) => this.countWorkingDays(period));
+      default:
+        return periods.map(() => 1);
+    }
+  }
+
+  /**
+   * 月の稼働日数（土日を除く日数）を取得（プライベートメソッド）
+   */
+  private countWorkingDays(period: string): number {
+    const [year, month] = period.split("-").map(Number);
+    const daysInMonth = new Date(year, month, 0).getDate();
+    let workingDays = 0;
+    for (let day = 1; day <= daysInMonth; day++) {
+      const dayOfWeek = new Date(year, month - 1, day).getDay();
+      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
+        workingDays++;
+      }
+    }
+    return workingDays;
+  }
+
+  /**
+   * 年月（YYYY-MM）に月数を加算（プライベートメソッド）
+   */
+  private addMonths(period: string, months: number): string {
+    const [year, month] = period.split("-").map(Number);
+    const date = new Date(year, month - 1 + months, 1);
+    return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, "0")}`;
+  }
+
+  /**
+   * 置き換える明細の楽観ロックの競合を通知（プライベートメソッド）
+   *
+   * @description 最新の明細はトランザクション内で取得する。削除されていた場合は見つからないエラーにする
+   */
+  private async throwVersionConflict(
+    targetType: ForecastSplitTargetType,
+    id: string,
+    executor: DbExecutor
+  ): Promise<never> {
+    const [current] = await this.findLinesByIds(targetType, [id], executor);
+    if (!current) {
+      throw new AppError("分割元の明細が見つかりません", 404);
+    }
+    throw new VersionConflictError(VERSION_CONFLICT_MESSAGE, current);
+  }
+
+  /**
+   * 分割計上グループの明細を取得（プライベートメソッド）
+   */
+  private async findGroupLines(
+    targetType: ForecastSplitTargetType,
+    groupId: string,
+    executor: DbExecutor = db
+  ): Promise<Array<OrderForecast | AngleBForecast>> {
+    return targetType === "angle-b"
+      ? await this.angleBForecastRepository.findBySplitGroupId(groupId, executor)
+      : await this.orderForecastRepository.findBySplitGroupId(groupId, executor);
+  }
+
+  /**
+   * IDで分割元の明細を取得（プライベートメソッド）
+   */
+  private async findLinesByIds(
+    targetType: ForecastSplitTargetType,
+    ids: string[],
+    executor: DbExecutor
+  ): Promise<Array<OrderForecast | AngleBForecast>> {
+    const lines: Array<OrderForecast | AngleBForecast> = [];
+    for (const id of ids) {
+      const line =
+        targetType === "angle-b"
+          ? await this.angleBForecastRepository.findById(id, executor)
+          : await this.orderForecastRepository.findById(id, executor);
+      if (line) {
+        lines.push(line);
+      }
+    }
+    return lines;
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * GLデータの異常検知サービス
+ *
+ * 責務:
+ * - 取込後のGLデータのスキャンと異常（過大な金額・伝票番号の重複・マスタ未登録の勘定科目・期間外の取引日・売上のマイナス計上）の検出
+ * - 検出結果の保存と、再スキャン時の却下状態の引継ぎ
+ * - 検出結果の一覧取得と却下・再開
+ */
+
+import { toAccountingItemBalance } from "@shared/schema/accountingItem";
+import type {
+  GLAnomalyListItem,
+  GLAnomalyScanSummary,
+  GLAnomalyStatus,
+  GLAnomalyType,
+  GLEntry,
+} from "@shared/schema/integrated";
+
+import { db, type DbExecutor } from "../db";
+import { AppError } from "../middleware/errorHandler";
+import { AccountingItemRepository } from "../storage/accountingItem";
+import { GLEntryRepository } from "../storage/glEntry";
+
+/** 過大な金額の判定に使用する過去の期間の月数 */
+export const LARGE_AMOUNT_HISTORY_MONTHS = 12;
+
+/** 過大な金額の判定に必要な過去の明細数（これより少ない勘定科目は判定しない） */
+export const LARGE_AMOUNT_MIN_HISTORY = 10;
+
+/** 過大な金額と判定する平均からの標準偏差の倍数 */
+export const LARGE_AMOUNT_STDDEV_MULTIPLIER = 3;
+
+/** 異常検知の対象期間・状態の指定 */
+export interface GLAnomalyFilter {
+  fiscalYear?: number;
+  month?: number; // 年度が指定されている場合のみ有効
+  status?: GLAnomalyStatus;
+}
+
+/** スキャンで検出した異常 */
+interface DetectedAnomaly {
+  glEntryId: string;
+  period: string;
+  anomalyType: GLAnomalyType;
+  message: string;
+}
+
+const formatAmount = (value: number) => `¥${Math.round(value).toLocaleString()}`;
+
+/**
+ * GLデータの異常検知サービスクラス
+ *
+ * @description 異常は明細・種類ごとに1件保存する。再スキャンで再び検出された異常は却下状態を引き継ぎ、
+ * 検出されなくなった異常は削除する。
+ */
+export class GLAnomalyService {
+  constructor(
+    private glEntryRepository: GLEntryRepository,
+    private accountingItemRepository: AccountingItemRepository
+  ) {}
+
+  /**
+   * 期間のGLデータのスキャン
+   *
+   * @param periods - スキャンする期間（YYYY-MM）
+   * @param executor - DBエグゼキューター（トランザクション内で呼び出す場合に指定）
+   * @returns スキャンした明細数と検出した異常の件数
+   */
+  async scanPeriods(periods: string[], executor: DbExecutor = db): Promise<GLAnomalyScanSummary> {
+    const targetPeriods = Array.from(new Set(periods)).sort();
+
+    const entries: GLEntry[] = [];
+    for (const period of targetPeriods) {
+      entries.push(...(await this.glEntryRepository.findByPeriod(period, executor)));
+    }
+
+    const detected: DetectedAnomaly[] = [];
+    const addAnomaly = (entry: GLEntry, anomalyType: GLAnomalyType, message: string) => {
+      detected.push({ glEntryId: entry.id, period: entry.period, anomalyType, message });
+    };
+
+    const accountingItems = await this.accountingItemRepository.findAll({}, executor);
+    const itemByCode = new Map(accountingItems.map((item) => [item.code, item]));
+
+    // 勘定科目・貸借ごとの過去の金額の統計（期間ごとに直前の期間から集計）
+    const statisticsByPeriod = new Map<
+      string,
+      Map<string, { entryCount: number; average: number; stddev: number }>
+    >();
+    for (const period of targetPeriods) {
+      const statistics = await this.glEntryRepository.getAccountAmountStatistics(
+        this.shiftPeriod(period, -LARGE_AMOUNT_HISTORY_MONTHS),
+        period,
+        executor
+      );
+      statisticsByPeriod.set(
+        period,
+        new Map(
+          statistics.map((statistic) => [
+            `${statistic.accountCode}|${statistic.debitCredit}`,
+            {
+              entryCount: statistic.entryCount,
+              average: Number(statistic.averageAmount),
+              stddev: Number(statistic.stddevAmount ?? 0),
+            },
+          ])
+        )
+      );
+    }
+
+    for (const entry of entries) {
+      const amount = Number(entry.amount);
+      const item = itemByCode.get(entry.accountCode);
+
+      // 過去の金額と比べて著しく大きい
+      const statistic = statisticsByPeriod
+        .get(entry.period)
+        ?.get(`${entry.accountCode}|${entry.debitCredit}`);
+      if (
+        statistic &&
+        statistic.entryCount >= LARGE_AMOUNT_MIN_HISTORY &&
+        statistic.stddev > 0 &&
+        Math.abs(amount) > statistic.average + LARGE_AMOUNT_STDDEV_MULTIPLIER * statistic.stddev
+      ) {
+        addAnomaly(
+          entry,
+          "large_amount",
+          `過去${LARGE_AMOUNT_HISTORY_MONTHS}ヶ月の平均${formatAmount(statistic.average)}（標準偏差${formatAmount(statistic.stddev)}、${statistic.entryCount}件）に対して${formatAmount(amount)}が計上されています`
+        );
+      }
+
+      // 会計項目マスタに存在しない勘定科目
+      if (!item) {
+        addAnomaly(
+          entry,
+          "unknown_account",
+          `勘定科目「${entry.accountCode} ${entry.accountName}」は会計項目マスタに登録されていません`
+        );
+      }
+
+      // 取引日が期間の範囲外
+      if (entry.transactionDate.slice(0, 7) !== entry.period) {
+        addAnomaly(
+          entry,
+          "out_of_period",
+          `取引日（${entry.transactionDate}）が期間（${entry.period}）の範囲外です`
+        );
+      }
+
+      // 売上の勘定科目へのマイナス計上（符号が-1の売上値引などは借方が通常の方向のため対象外）
+      if (item?.category === "revenue") {
+        const balance = toAccountingItemBalance(
+          item,
+          entry.debitCredit === "debit" ? amount : 0,
+          entry.debitCredit === "credit" ? amount : 0
+        );
+        if (balance < 0) {
+          addAnomaly(
+            entry,
+            "negative_revenue",
+            `売上の勘定科目に${formatAmount(balance)}（${entry.debitCredit === "debit" ? "借方" : "貸方のマイナス"}）が計上されています`
+          );
+        }
+      }
+    }
+
+    // 同じ伝票番号・勘定科目・貸借・金額の明細が別の取引日に存在する
+    const entryById = new Map(entries.map((entry) => [entry.id, entry]));
+    const duplicates = await this.glEntryRepository.findDuplicateVoucherLines(
+      targetPeriods,
+      executor
+    );
+    for (const duplicate of duplicates) {
+      const entry = entryById.get(duplicate.id);
+      if (entry) {
+        addAnomaly(
+          entry,
+          "duplicate_voucher",
+          `伝票番号「${entry.voucherNo}」の同じ勘定科目・金額の明細が別の取引日（${duplicate.otherTransactionDate}${duplicate.duplicateCount > 1 ? `ほか${duplicate.duplicateCount - 1}件` : ""}）にも存在します`
+        );
+      }
+    }
+
+    // 既存の検出結果と照合して保存（却下状態は引き継ぐ）
+    let newAnomalies = 0;
+    let openAnomalies = 0;
+    await executor.transaction(async (tx) => {
+      const existingAnomalies = await this.glEntryRepository.findAnomaliesByPeriods(
+        targetPeriods,
+        tx
+      );
+      const existingByKey = new Map(
+        existingAnomalies.map((anomaly) => [`${anomaly.glEntryId}|${anomaly.anomalyType}`, anomaly])
+      );
+
+      const keptIds = new Set<string>();
+      const created: DetectedAnomaly[] = [];
+      for (const anomaly of detected) {
+        const existing = existingByKey.get(`${anomaly.glEntryId}|${anomaly.anomalyType}`);
+        if (!existing) {
+          created.push(anomaly);
+          openAnomalies++;
+          continue;
+        }
+
+        keptIds.add(existing.id);
+        if (existing.status === "open") {
+          openAnomalies++;
+        }
+        if (existing.message !== anomaly.message || existing.period !== anomaly.period) {
+          await this.glEntryRepository.updateAnomaly(
+            existing.id,
+            { message: anomaly.message, period: anomaly.period },
+            tx
+          );
+        }
+      }
+
+      await this.glEntryRepository.createAnomalies(created, tx);
+      await this.glEntryRepository.deleteAnomalies(
+        existingAnomalies
+          .filter((anomaly) => !keptIds.has(anomaly.id))
+          .map((anomaly) => anomaly.id),
+        tx
+      );
+      newAnomalies = created.length;
+    });
+
+    return {
+      scannedEntries: entries.length,
+      detectedAnomalies: detected.length,
+      newAnomalies,
+      openAnomalies,
+    };
+  }
+
+  /**
+   * 年度・月を指定したGLデータのスキャン
+   *
+   * @param filter - 対象期間（年度・月）
+   * @returns スキャンした明細数と検出した異常の件数
+   * @throws AppError - 対象期間が指定されていない場合
+   */
+  async scanAnomalies(filter: GLAnomalyFilter): Promise<GLAnomalyScanSummary> {
+    const periods = this.resolvePeriods(filter);
+    if (periods.length === 0) {
+      throw new AppError("スキャン対象の年度を指定してください", 400);
+    }
+
+    try {
+      return await this.scanPeriods(periods);
+    } catch (error) {
+      console.error("GLデータ異常検知エラー:", error);
+      throw new AppError("GLデータの異常検知中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 異常検知結果の一覧取得
+   *
+   * @param filter - 対象期間（年度・月）と状態
+   * @returns 異常と対象の明細の一覧
+   * @throws AppError - 対象期間が指定されていない場合
+   */
+  async getAnomalies(filter: GLAnomalyFilter): Promise<GLAnomalyListItem[]> {
+    const periods = this.resolvePeriods(filter);
+    if (periods.length === 0) {
+      throw new AppError("対象の年度を指定してください", 400);
+    }
+
+    try {
+      return await this.glEntryRepository.findAnomalyListItems(periods, filter.status);
+    } catch (error) {
+      console.error("GLデータ異常一覧取得エラー:", error);
+      throw new AppError("GLデータの異常一覧の取得中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 異常の却下
+   *
+   * @param id - 異常検知結果ID
+   * @param comment - 却下の理由
+   * @param userId - 却下したユーザーID
+   * @throws AppError - 異常検知結果が存在しない場合
+   */
+  async dismissAnomaly(id: string, comment: string, userId: string): Promise<void> {
+    try {
+      const anomaly = await this.glEntryRepository.findAnomalyById(id);
+      if (!anomaly) {
+        throw new AppError("異常検知結果が見つかりません", 404);
+      }
+
+      await this.glEntryRepository.updateAnomaly(id, {
+        status: "dismissed",
+        dismissComment: comment,
+        dismissedBy: userId,
+        dismissedAt: new Date(),
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("GLデータ異常却下エラー:", error);
+      throw new AppError("GLデータの異常の却下中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 却下した異常を未対応に戻す
+   *
+   * @param id - 異常検知結果ID
+   * @throws AppError - 異常検知結果が存在しない場合
+   */
+  async reopenAnomaly(id: string): Promise<void> {
+    try {
+      const anomaly = await this.glEntryRepository.findAnomalyById(id);
+      if (!anomaly) {
+        throw new AppError("異常検知結果が見つかりません", 404);
+      }
+
+      await this.glEntryRepository.updateAnomaly(id, {
+        status: "open",
+        dismissComment: null,
+        dismissedBy: null,
+        dismissedAt: null,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("GLデータ異常再開エラー:", error);
+      throw new AppError("GLデータの異常の再開中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 対象期間の決定（プライベートメソッド）
+   *
+   * @description 月の指定がない場合は年度の12ヶ月（4月〜翌年3月）を対象にする
+   */
+  private resolvePeriods(filter: GLAnomalyFilter): string[] {
+    if (!filter.fiscalYear) {
+      return [];
+    }
+
+    const months = filter.month ? [filter.month] : [4, 5, 6, 7, 8, 9, 10, 11, 12, 1, 2, 3];
+    return months.map((month) => {
+      const year = month >= 4 ? filter.fiscalYear! : filter.fiscalYear! + 1;
+      return `${year}-${month.toString().padStart(2, "0")}`;
+    });
+  }
+
+  /**
+   * 期間（YYYY-MM）を指定した月数だけずらす（プライベートメソッド）
+   */
+  private shiftPeriod(period: string, months: number): string {
+    const [year, month] = period.split("-").map(Number);
+    const index = year * 12 + (month - 1) + months;
+    return `${Math.floor(index / 12)}-${((index % 12) + 1).toString().padStart(2, "0")}`;
+  }
+}
@@ -1,20 +1,49 @@
 import {
   CreateGLEntryData,
+  GLAnomalyScanSummary,
   GLEntry,
   GLEntryFilter,
+  GLVoucherCheckSummary,
+  GLVoucherExclusionData,
   UpdateGLEntryData,
 } from "@shared/schema/integrated";
-import { convertHalfWidthKanaToFullWidth } from "@shared/utils/textNormalization";
-import csv from "csv-parser";
-import iconv from "iconv-lite";
-import { Readable } from "stream";
 
-import { db } from "../db";
+import { db, type DbExecutor } from "../db";
 import { AppError } from "../middleware/errorHandler";
+import { AccountingItemRepository } from "../storage/accountingItem";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
 import { GLEntryRepository } from "../storage/glEntry";
 import { OrderForecastRepository } from "../storage/orderForecast";
+import { ReconciliationAliasRepository } from "../storage/reconciliationAlias";
+import { ReconciliationLinkRepository } from "../storage/reconciliationLink";
 import { ReconciliationLogRepository } from "../storage/reconciliationLog";
+import { ReconciliationRuleRepository } from "../storage/reconciliationRule";
+import { AccountingPeriodService, type PeriodLockOverrideRequest } from "./accountingPeriodService";
+import { GLAnomalyService } from "./glAnomalyService";
+import { GLImportProfileService } from "./glImportProfileService";
+import { GLVoucherCheckService } from "./glVoucherCheckService";
 import { ReconciliationService } from "./reconciliationService";
+import type { ImportFileSource } from "./spreadsheetService";
+
+/**
+ * GLデータの自然キー（伝票番号・取引日・勘定科目・貸借・金額）
+ *
+ * @description CSV再取込時に既存データと同じ行かを判定するために使用する
+ */
+const buildGLEntryNaturalKey = (
+  entry: Pick<
+    CreateGLEntryData,
+    "voucherNo" | "transactionDate" | "accountCode" | "debitCredit" | "amount"
+  >
+): string => {
+  return [
+    entry.voucherNo,
+    entry.transactionDate,
+    entry.accountCode,
+    entry.debitCredit,
+    Number(entry.amount).toFixed(2),
+  ].join("|");
+};
 
 /**
  * GL総勘定元帳管理サービスクラス
@@ -24,18 +53,32 @@ import { ReconciliationService } from "./reconciliationService";
  */
 export class GLEntryService {
   private reconciliationService: ReconciliationService;
+  private glVoucherCheckService: GLVoucherCheckService;
+  private glAnomalyService: GLAnomalyService;
 
   constructor(
     private glEntryRepository: GLEntryRepository,
-    private orderForecastRepository: OrderForecastRepository
+    private orderForecastRepository: OrderForecastRepository,
+    private accountingPeriodService: AccountingPeriodService,
+    private glImportProfileService: GLImportProfileService
   ) {
     // ReconciliationServiceを初期化
     const reconciliationLogRepository = new ReconciliationLogRepository();
+    const reconciliationLinkRepository = new ReconciliationLinkRepository();
+    const reconciliationRuleRepository = new ReconciliationRuleRepository();
+    const reconciliationAliasRepository = new ReconciliationAliasRepository();
+    const accountingPeriodRepository = new AccountingPeriodRepository();
     this.reconciliationService = new ReconciliationService(
       reconciliationLogRepository,
       orderForecastRepository,
-      glEntryRepository
+      glEntryRepository,
+      reconciliationLinkRepository,
+      reconciliationRuleRepository,
+      reconciliationAliasRepository,
+      accountingPeriodRepository
     );
+    this.glVoucherCheckService = new GLVoucherCheckService(glEntryRepository);
+    this.glAnomalyService = new GLAnomalyService(glEntryRepository, new AccountingItemRepository());
   }
 
   /**
@@ -163,14 +206,24 @@ export class GLEntryService {
    * GLデータ作成
    *
    * @param data - GLデータ作成データ
+   * @param override - 締め済み期間の変更指定（管理者のみ）
    * @returns 作成されたGLデータ情報
+   * @throws AppError - 締め済みの期間の場合
    */
-  async createGLEntry(data: CreateGLEntryData): Promise<GLEntry> {
+  async createGLEntry(
+    data: CreateGLEntryData,
+    override?: PeriodLockOverrideRequest
+  ): Promise<GLEntry> {
     try {
+      await this.accountingPeriodService.assertPeriodsOpen([data.period], "GLデータ作成", override);
+
       const glEntry = await this.glEntryRepository.create(data);
 
       return glEntry;
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       console.error("GLデータ作成エラー:", error);
       throw new AppError("GLデータの作成中にエラーが発生しました", 500);
     }
@@ -181,10 +234,15 @@ export class GLEntryService {
    *
    * @param id - GLデータID
    * @param data - GLデータ更新データ
+   * @param override - 締め済み期間の変更指定（管理者のみ）
    * @returns 更新されたGLデータ情報
-   * @throws AppError - GLデータが見つからない場合
+   * @throws AppError - GLデータが見つからない場合、変更前後の期間が締め済みの場合
    */
-  async updateGLEntry(id: string, data: UpdateGLEntryData): Promise<GLEntry> {
+  async updateGLEntry(
+    id: string,
+    data: UpdateGLEntryData,
+    override?: PeriodLockOverrideRequest
+  ): Promise<GLEntry> {
     try {
       // GLデータの存在チェック
       const existingGlEntry = await this.glEntryRepository.findById(id);
@@ -192,6 +250,12 @@ export class GLEntryService {
         throw new AppError("GLデータが見つかりません", 404);
       }
 
+      await this.accountingPeriodService.assertPeriodsOpen(
+        [existingGlEntry.period, data.period],
+        "GLデータ更新",
+        override
+      );
+
       const glEntry = await this.glEntryRepository.update(id, data);
 
       if (!glEntry) {
@@ -212,10 +276,11 @@ export class GLEntryService {
    * GLデータ削除
    *
    * @param id - GLデータID
+   * @param override - 締め済み期間の変更指定（管理者のみ）
    * @returns 削除成功フラグ
-   * @throws AppError - GLデータが見つからない場合
+   * @throws AppError - GLデータが見つからない場合、締め済みの期間の場合
    */
-  async deleteGLEntry(id: string): Promise<boolean> {
+  async deleteGLEntry(id: string, override?: PeriodLockOverrideRequest): Promise<boolean> {
     try {
       // GLデータの存在チェック
       const existingGlEntry = await this.glEntryRepository.findById(id);
@@ -223,12 +288,20 @@ export class GLEntryService {
         throw new AppError("GLデータが見つかりません", 404);
       }
 
+      await this.accountingPeriodService.assertPeriodsOpen(
+        [existingGlEntry.period],
+        "GLデータ削除",
+        override
+      );
+
       const deleted = await this.glEntryRepository.delete(id);
 
       if (!deleted) {
         throw new AppError("GLデータの削除に失敗しました", 500);
       }
 
+      await this.glEntryRepository.deleteAnomaliesByGlEntryIds([id]);
+
       return true;
     } catch (error) {
       if (error instanceof AppError) {
@@ -307,10 +380,12 @@ export class GLEntryService {
     totalDebitAmount: number;
     totalCreditAmount: number;
     matchedAmount: number;
+    openAnomalyCount: number;
   }> {
     try {
       const filter = period ? { period } : {};
       const glEntries = await this.glEntryRepository.findAll({ filter });
+      const openAnomalyCount = await this.glEntryRepository.countOpenAnomalies(period);
 
       const statistics = glEntries.reduce(
         (acc, glEntry) => {
@@ -345,7 +420,7 @@ export class GLEntryService {
         }
       );
 
-      return statistics;
+      return { ...statistics, openAnomalyCount };
     } catch (error) {
       console.error("GLデータ統計情報取得エラー:", error);
       throw new AppError("GLデータ統計情報の取得中にエラーが発生しました", 500);
@@ -374,265 +449,299 @@ export class GLEntryService {
   }
 
   /**
-   * CSV取込処理
+   * CSV・XLSX取込処理
+   *
+   * @description 同じCSVを再取込しても重複しないよう、自然キー（伝票番号・取引日・勘定科目・貸借・金額）で
+   * 既存データと照合する（同じキーの行が複数ある場合は1行ずつ対応付ける）。
+   * 一致した行は突合状態を保持したまま更新し、CSVから消えた行は突合を解除して削除する。
+   * 行エラーがある場合は誤削除を避けるため削除は行わない。
    *
-   * @param fileBuffer - CSVファイルのバッファ
-   * @returns 取込結果
+   * @param fileBuffer - CSV・XLSXファイルのバッファ
+   * @param profileId - GL CSV取込プロファイルID（未指定の場合は既定のプロファイル）
+   * @param source - 取込ファイルの形式（XLSXの場合は読み込むシート）
+   * @param override - 締め済み期間の変更指定（管理者のみ）
+   * @returns 取込結果（追加・更新・変更なし・削除の件数）
+   * @throws AppError - 締め済みの期間を含む場合
    */
-  async importFromCSV(
+  async importFromFile(
     fileBuffer: Buffer,
-    encoding?: string
+    profileId?: string,
+    source: ImportFileSource = { fileType: "csv" },
+    override?: PeriodLockOverrideRequest
   ): Promise<{
     totalRows: number;
     importedRows: number;
+    insertedRows: number;
+    updatedRows: number;
+    unchangedRows: number;
+    removedRows: number;
+    unmatchedCount: number;
     skippedRows: number;
     errors: Array<{ row: number; message: string }>;
+    voucherCheck: GLVoucherCheckSummary;
+    anomalyScan: GLAnomalyScanSummary;
   }> {
-    const TARGET_ACCOUNT_CODES = [
-      "511",
-      "512",
-      "513",
-      "514",
-      "541",
-      "515",
-      "727",
-      "737",
-      "740",
-      "745",
-    ];
-    const results: CreateGLEntryData[] = [];
-    const errors: Array<{ row: number; message: string }> = [];
-    let totalRows = 0;
-    let skippedRows = 0;
-
     try {
-      // 🔍 エンコーディング処理（手動指定対応）
-      console.log("=== CSVファイルエンコーディング処理 ===");
-      console.log("ファイルサイズ:", fileBuffer.length, "bytes");
-      console.log("指定エンコーディング:", encoding || "自動検出");
-
-      let utf8Content: string = "";
-      let detectedEncoding = encoding || "shift_jis";
-
-      // 手動指定されたエンコーディングがある場合はそれを使用
-      if (encoding) {
-        try {
-          utf8Content = iconv.decode(fileBuffer, encoding);
-          console.log(`指定エンコーディング ${encoding} で処理完了`);
-          console.log(`${encoding} サンプル:`, utf8Content.slice(0, 200));
-        } catch (error) {
-          console.log(`指定エンコーディング ${encoding} でエラー:`, error.message);
-          throw new Error(
-            `指定されたエンコーディング ${encoding} でファイルを読み込めませんでした`
-          );
-        }
-      } else {
-        // 自動検出処理
-        const encodings = ["shift_jis", "euc-jp", "utf8", "iso-2022-jp"];
-        let bestEncoding = "shift_jis";
-        let bestScore = 0;
-
-        for (const enc of encodings) {
-          try {
-            const decoded = iconv.decode(fileBuffer, enc);
-
-            // 日本語文字の数をカウント
-            const japaneseCount = (
-              decoded.match(/[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/g) || []
-            ).length;
-
-            // 文字化け文字の数をカウント
-            const garbledCount = (decoded.match(/[\uFFFD]/g) || []).length;
-
-            // スコア計算（日本語文字が多いほど高スコア、文字化け文字があるほど低スコア）
-            const score = japaneseCount - garbledCount * 10;
-
-            console.log(
-              `${enc}: 日本語文字=${japaneseCount}, 文字化け=${garbledCount}, スコア=${score}`
-            );
-            console.log(`${enc} サンプル:`, decoded.slice(0, 100));
-
-            if (score > bestScore) {
-              bestScore = score;
-              bestEncoding = enc;
-              utf8Content = decoded;
-              detectedEncoding = enc;
-            }
-          } catch (error) {
-            console.log(`${enc}: エラー - ${error.message}`);
-            continue;
-          }
-        }
+      // プロファイル設定に従ってCSV・XLSXを解釈
+      const settings = await this.glImportProfileService.resolveSettings(profileId);
+      const parsed = await this.glImportProfileService.parseFile(fileBuffer, settings, source);
+      const results = parsed.entries.map(({ entry }) => entry);
+      const { totalRows, skippedRows, errors } = parsed;
+
+      console.log(
+        `${source.fileType.toUpperCase()}パース完了: 文字コード=${parsed.encoding}, 総行数=${totalRows}, 取込対象=${results.length}, スキップ=${skippedRows}, エラー=${errors.length}`
+      );
 
-        console.log(`最適なエンコーディング: ${bestEncoding} (スコア: ${bestScore})`);
+      // 既存データと照合して登録（行エラーがある場合は誤削除を避けるため削除は行わない）
+      const applied = await this.applyImportEntries(
+        results,
+        {
+          accountCodes: parsed.accountCodes,
+          removeMissing: errors.length === 0,
+          voucherExclusions: parsed.voucherExclusions,
+        },
+        override
+      );
+
+      return {
+        totalRows,
+        importedRows: results.length,
+        ...applied,
+        skippedRows,
+        errors,
+      };
+    } catch (error) {
+      console.error("CSV取込エラー:", error);
+      if (error instanceof AppError) {
+        throw error;
       }
+      throw new AppError("CSVファイルの取込中にエラーが発生しました", 500);
+    }
+  }
 
-      console.log(`最終選択エンコーディング: ${detectedEncoding}`);
-
-      // CSVパース
-      console.log("=== CSVパース開始 ===");
-      console.log("CSV内容サンプル:", utf8Content.slice(0, 500));
-
-      await new Promise<void>((resolve, reject) => {
-        const stream = Readable.from(utf8Content);
-        let rowIndex = 0;
-
-        stream
-          .pipe(
-            csv({
-              headers: [
-                "accountCode",
-                "accountName",
-                "auxCode",
-                "auxName",
-                "taxCode",
-                "taxName",
-                "transactionDate",
-                "voucherNo",
-                "counterAccountCode",
-                "counterAccountName",
-                "counterAuxCode",
-                "counterAuxName",
-                "counterTaxCode",
-                "counterTaxName",
-                "description",
-                "number1",
-                "number2",
-                "debitAmount",
-                "debitTax",
-                "creditAmount",
-                "creditTax",
-                "balance",
-              ],
-              skipLines: 0,
-            })
-          )
-          .on("data", (row: any) => {
-            rowIndex++;
-            totalRows++;
-
-            try {
-              console.log(`行 ${rowIndex}:`, {
-                accountCode: row.accountCode,
-                accountName: row.accountName,
-                transactionDate: row.transactionDate,
-                voucherNo: row.voucherNo,
-                debitAmount: row.debitAmount,
-                creditAmount: row.creditAmount,
-              });
-
-              // 対象科目コードチェック
-              if (!TARGET_ACCOUNT_CODES.includes(row.accountCode)) {
-                console.log(`行 ${rowIndex}: 対象外科目コード ${row.accountCode}`);
-                skippedRows++;
-                return;
-              }
-
-              // データ変換
-              const debitAmount = parseFloat(row.debitAmount || "0");
-              const creditAmount = parseFloat(row.creditAmount || "0");
-
-              console.log(`行 ${rowIndex}: 借方=${debitAmount}, 貸方=${creditAmount}`);
-
-              if (debitAmount === 0 && creditAmount === 0) {
-                console.log(`行 ${rowIndex}: 金額が0のためスキップ`);
-                skippedRows++;
-                return;
-              }
-
-              const amount = debitAmount > 0 ? debitAmount : creditAmount;
-              const debitCredit = debitAmount > 0 ? "debit" : "credit";
-
-              // 日付からperiodを抽出 (YYYYMMDD形式またはYYYY/MM/DD形式)
-              const dateStr = row.transactionDate;
-              let period: string;
-              let transactionDate: string;
-
-              if (dateStr && dateStr.length === 8 && /^\d{8}$/.test(dateStr)) {
-                // YYYYMMDD形式
-                period = `${dateStr.substring(0, 4)}-${dateStr.substring(4, 6)}`;
-                transactionDate = `${dateStr.substring(0, 4)}-${dateStr.substring(4, 6)}-${dateStr.substring(6, 8)}`;
-              } else if (dateStr && dateStr.includes("/")) {
-                // YYYY/MM/DD形式
-                const dateParts = dateStr.split("/");
-                if (dateParts.length !== 3) {
-                  errors.push({ row: rowIndex, message: "日付フォーマットエラー" });
-                  return;
-                }
-                period = `${dateParts[0]}-${dateParts[1].padStart(2, "0")}`;
-                transactionDate = dateStr.replace(/\//g, "-"); // YYYY/MM/DD -> YYYY-MM-DD
-              } else {
-                errors.push({ row: rowIndex, message: `日付フォーマットエラー: ${dateStr}` });
-                return;
-              }
-
-              // データ作成
-              const glEntry: CreateGLEntryData = {
-                voucherNo: row.voucherNo,
-                transactionDate: transactionDate,
-                accountCode: row.accountCode,
-                accountName: convertHalfWidthKanaToFullWidth(row.accountName),
-                amount: amount.toString(),
-                debitCredit,
-                description: row.description || "",
-                period,
-              };
-
-              console.log(`行 ${rowIndex}: GLエントリー作成`, glEntry);
-              results.push(glEntry);
-            } catch (error: any) {
-              console.error(`行 ${rowIndex} 処理エラー:`, error);
-              errors.push({ row: rowIndex, message: error.message });
-            }
-          })
-          .on("end", () => {
-            console.log(
-              `CSVパース完了: 総行数=${totalRows}, 取込対象=${results.length}, スキップ=${skippedRows}, エラー=${errors.length}`
-            );
-            resolve();
-          })
-          .on("error", (error) => {
-            console.error("CSVパースエラー:", error);
-            reject(error);
-          });
-      });
+  /**
+   * 取込データの登録
+   *
+   * @description 自然キー（伝票番号・取引日・勘定科目・貸借・金額）で対象期間の既存データと照合し、
+   * 一致した行は突合状態を保持したまま更新、一致しない行は追加する。
+   * removeMissingを指定した場合は取込データから消えた行の突合を解除して削除する。
+   * 登録後に対象期間の伝票の貸借チェックと異常検知のスキャンを行う。
+   *
+   * @param entries - 取込データ
+   * @param options - 削除対象の勘定科目コード（空の場合は全科目）、消えた行の削除有無、取込バッチID、
+   * 対象科目外として取り込まなかった明細の伝票ごとの集計
+   * @param override - 締め済み期間の変更指定（管理者のみ）
+   * @param executor - DBエグゼキューター（トランザクション内で呼び出す場合に指定）
+   * @returns 追加・更新・変更なし・削除・突合解除の件数と伝票の貸借チェック・異常検知の件数
+   * @throws AppError - 締め済みの期間を含む場合
+   */
+  async applyImportEntries(
+    entries: CreateGLEntryData[],
+    options: {
+      accountCodes: string[];
+      removeMissing: boolean;
+      importBatchId?: string;
+      voucherExclusions?: GLVoucherExclusionData[];
+    },
+    override?: PeriodLockOverrideRequest,
+    executor: DbExecutor = db
+  ): Promise<{
+    insertedRows: number;
+    updatedRows: number;
+    unchangedRows: number;
+    removedRows: number;
+    unmatchedCount: number;
+    voucherCheck: GLVoucherCheckSummary;
+    anomalyScan: GLAnomalyScanSummary;
+  }> {
+    // 取込データに含まれるすべての期間（period）を抽出
+    const periods = new Set<string>();
+    for (const glEntry of entries) {
+      periods.add(glEntry.period);
+    }
 
-      // CSVに含まれるすべての期間（period）を抽出
-      const periods = new Set<string>();
-      for (const glEntry of results) {
-        periods.add(glEntry.period);
-      }
+    // 締め済みの期間には取り込まない（管理者が理由を指定した場合を除く）
+    await this.accountingPeriodService.assertPeriodsOpen(
+      Array.from(periods),
+      "GLデータCSV取込",
+      override,
+      executor
+    );
 
-      // 各期間について既存データをチェック
+    let insertedRows = 0;
+    let updatedRows = 0;
+    let unchangedRows = 0;
+    let removedRows = 0;
+    let unmatchedCount = 0;
+
+    // トランザクション内で既存データと照合して登録
+    await executor.transaction(async (tx) => {
+      // 対象期間の既存データを自然キーごとに保持
+      const existingByKey = new Map<string, GLEntry[]>();
+      const existingEntries: GLEntry[] = [];
       for (const period of periods) {
-        const existingData = await this.glEntryRepository.findByPeriod(period);
-        if (existingData.length > 0) {
-          throw new AppError(
-            `対象期間（${period}）に既存のGLデータが${existingData.length}件存在します。先に月度データを削除してから取り込んでください。`,
-            400
+        existingEntries.push(...(await this.glEntryRepository.findByPeriod(period, tx)));
+      }
+      for (const entry of existingEntries) {
+        const key = buildGLEntryNaturalKey(entry);
+        existingByKey.set(key, [...(existingByKey.get(key) ?? []), entry]);
+      }
+
+      const keptIds = new Set<string>();
+
+      for (const glEntry of entries) {
+        const description = glEntry.description || null;
+        const isSameContent = (entry: GLEntry) =>
+          entry.accountName === glEntry.accountName && (entry.description || null) === description;
+
+        // 同じキーの行が複数ある場合は内容も一致する既存データを優先して対応付ける
+        const candidates = (existingByKey.get(buildGLEntryNaturalKey(glEntry)) ?? []).filter(
+          (entry) => !keptIds.has(entry.id)
+        );
+        const existing = candidates.find(isSameContent) ?? candidates[0];
+        if (!existing) {
+          await this.glEntryRepository.create(
+            { ...glEntry, importBatchId: options.importBatchId ?? null },
+            tx
           );
+          insertedRows++;
+          continue;
         }
+
+        keptIds.add(existing.id);
+        if (isSameContent(existing)) {
+          unchangedRows++;
+          continue;
+        }
+
+        // 突合状態（reconciliationStatus・orderMatchId）は変更しない
+        await this.glEntryRepository.update(
+          existing.id,
+          { accountName: glEntry.accountName, description },
+          tx
+        );
+        updatedRows++;
       }
 
-      // トランザクション内で一括登録
-      if (results.length > 0) {
-        await db.transaction(async (_tx) => {
-          for (const glEntry of results) {
-            await this.glEntryRepository.create(glEntry);
-          }
-        });
+      // 対象期間の取込対象外明細を取込ファイルの内容で置き換え
+      if (options.voucherExclusions) {
+        await this.glEntryRepository.replaceVoucherExclusions(
+          Array.from(periods),
+          options.voucherExclusions
+            .filter((exclusion) => periods.has(exclusion.period))
+            .map((exclusion) => ({
+              voucherNo: exclusion.voucherNo,
+              period: exclusion.period,
+              lineCount: exclusion.lineCount,
+              debitAmount: exclusion.debitAmount.toFixed(2),
+              creditAmount: exclusion.creditAmount.toFixed(2),
+              accountCodes: exclusion.accountCodes.join(",") || null,
+              importBatchId: options.importBatchId ?? null,
+            })),
+          tx
+        );
       }
 
-      return {
-        totalRows,
-        importedRows: results.length,
-        skippedRows,
-        errors,
-      };
-    } catch (error) {
-      console.error("CSV取込エラー:", error);
-      throw new AppError("CSVファイルの取込中にエラーが発生しました", 500);
+      if (!options.removeMissing) {
+        return;
+      }
+
+      // 取込データから消えた行を削除（対象科目外のデータは対象にしない）
+      const removedEntries = existingEntries.filter(
+        (entry) =>
+          !keptIds.has(entry.id) &&
+          (options.accountCodes.length === 0 || options.accountCodes.includes(entry.accountCode))
+      );
+      const result = await this.removeEntries(removedEntries, tx);
+      removedRows = result.removedRows;
+      unmatchedCount = result.unmatchedCount;
+    });
+
+    // 取込後の伝票の貸借チェック
+    const { summary: voucherCheck } = await this.glVoucherCheckService.checkVouchers(
+      { periods: Array.from(periods) },
+      executor
+    );
+
+    // 取込後の異常検知（検出結果は保存し、GL取込画面で確認・却下する）
+    const anomalyScan = await this.glAnomalyService.scanPeriods(Array.from(periods), executor);
+
+    return {
+      insertedRows,
+      updatedRows,
+      unchangedRows,
+      removedRows,
+      unmatchedCount,
+      voucherCheck,
+      anomalyScan,
+    };
+  }
+
+  /**
+   * 取込バッチで追加したGLデータの取消
+   *
+   * @description 取込バッチで追加された行の突合を解除して削除する（更新のみ行った既存データは対象外）
+   * @param importBatchId - 取込バッチID
+   * @param override - 締め済み期間の変更指定（管理者のみ）
+   * @param executor - DBエグゼキューター（トランザクション内で呼び出す場合に指定）
+   * @returns 削除・突合解除の件数
+   * @throws AppError - 締め済みの期間を含む場合
+   */
+  async revertImportBatch(
+    importBatchId: string,
+    override?: PeriodLockOverrideRequest,
+    executor: DbExecutor = db
+  ): Promise<{ removedRows: number; unmatchedCount: number }> {
+    const entries = await this.glEntryRepository.findByImportBatchId(importBatchId, executor);
+    await this.accountingPeriodService.assertPeriodsOpen(
+      entries.map((entry) => entry.period),
+      "GLデータ取込の取消",
+      override,
+      executor
+    );
+
+    return await executor.transaction(async (tx) => {
+      await this.glEntryRepository.deleteVoucherExclusionsByImportBatchId(importBatchId, tx);
+      return await this.removeEntries(entries, tx);
+    });
+  }
+
+  /**
+   * GLデータの突合解除と削除（プライベートメソッド）
+   */
+  private async removeEntries(
+    entries: GLEntry[],
+    executor: DbExecutor
+  ): Promise<{ removedRows: number; unmatchedCount: number }> {
+    const unmatchedGlIds = new Set<string>();
+    let removedRows = 0;
+    let unmatchedCount = 0;
+
+    for (const glEntry of entries) {
+      const isMatched =
+        glEntry.reconciliationStatus === "matched" || glEntry.reconciliationStatus === "fuzzy";
+
+      // 同じ分割突合グループで解除済みのGLはスキップ
+      if (isMatched && !unmatchedGlIds.has(glEntry.id)) {
+        const result = await this.reconciliationService.unmatchReconciliation(
+          glEntry.id,
+          glEntry.orderMatchId ?? undefined,
+          executor
+        );
+        result.glEntries.forEach((gl) => unmatchedGlIds.add(gl.id));
+        unmatchedCount++;
+      }
+
+      await this.glEntryRepository.delete(glEntry.id, executor);
+      removedRows++;
     }
+
+    await this.glEntryRepository.deleteAnomaliesByGlEntryIds(
+      entries.map((glEntry) => glEntry.id),
+      executor
+    );
+
+    return { removedRows, unmatchedCount };
   }
 
   /**
@@ -641,22 +750,37 @@ export class GLEntryService {
    * @param ids - GL明細IDリスト
    * @param isExcluded - 除外フラグ
    * @param exclusionReason - 除外理由
+   * @param override - 締め済み期間の変更指定（管理者のみ）
    * @returns 更新件数
+   * @throws AppError - 締め済みの期間の明細を含む場合
    */
   async setExclusion(
     ids: string[],
     isExcluded: boolean,
-    exclusionReason?: string
+    exclusionReason?: string,
+    override?: PeriodLockOverrideRequest
   ): Promise<number> {
     try {
       let updatedCount = 0;
 
-      await db.transaction(async (_tx) => {
+      await db.transaction(async (tx) => {
+        const targets = await Promise.all(ids.map((id) => this.glEntryRepository.findById(id, tx)));
+        await this.accountingPeriodService.assertPeriodsOpen(
+          targets.map((target) => target?.period),
+          "GLデータ除外設定",
+          override,
+          tx
+        );
+
         for (const id of ids) {
-          const updated = await this.glEntryRepository.update(id, {
-            isExcluded: isExcluded ? "true" : "false",
-            exclusionReason: isExcluded ? exclusionReason : null,
-          });
+          const updated = await this.glEntryRepository.update(
+            id,
+            {
+              isExcluded: isExcluded ? "true" : "false",
+              exclusionReason: isExcluded ? exclusionReason : null,
+            },
+            tx
+          );
           if (updated) {
             updatedCount++;
           }
@@ -665,6 +789,9 @@ export class GLEntryService {
 
       return updatedCount;
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       console.error("除外設定エラー:", error);
       throw new AppError("除外設定の更新中にエラーが発生しました", 500);
     }
@@ -674,13 +801,20 @@ export class GLEntryService {
    * 期間でGLデータを削除（突合解除も含む）
    *
    * @param period - 期間（YYYY-MM形式）
+   * @param override - 締め済み期間の変更指定（管理者のみ）
    * @returns 削除件数、突合解除件数
+   * @throws AppError - 締め済みの期間の場合
    */
-  async deleteByPeriod(period: string): Promise<{
+  async deleteByPeriod(
+    period: string,
+    override?: PeriodLockOverrideRequest
+  ): Promise<{
     deletedCount: number;
     unmatchedCount: number;
   }> {
     try {
+      await this.accountingPeriodService.assertPeriodsOpen([period], "GLデータ期間削除", override);
+
       // 対象期間のGLデータを取得
       const glEntries = await this.glEntryRepository.findByPeriod(period);
 
@@ -688,33 +822,39 @@ export class GLEntryService {
         return { deletedCount: 0, unmatchedCount: 0 };
       }
 
-      // 突合済みデータを抽出
+      // 突合済み・曖昧一致データを抽出（分割突合はorderMatchIdを持たない）
       const matchedEntries = glEntries.filter(
-        (gl) => gl.reconciliationStatus === "matched" && gl.orderMatchId
+        (gl) => gl.reconciliationStatus === "matched" || gl.reconciliationStatus === "fuzzy"
       );
 
       let unmatchedCount = 0;
+      const unmatchedGlIds = new Set<string>();
 
-      // トランザクション内で突合解除と削除を実行
-      await db.transaction(async (_tx) => {
+      // トランザクション内で突合解除と削除を実行（突合解除に失敗した場合は削除も取り消す）
+      await db.transaction(async (tx) => {
         // 突合済みデータの突合解除
         for (const glEntry of matchedEntries) {
-          if (glEntry.orderMatchId) {
-            try {
-              await this.reconciliationService.unmatchReconciliation(
-                glEntry.id,
-                glEntry.orderMatchId
-              );
-              unmatchedCount++;
-            } catch (error) {
-              console.error(`突合解除エラー (GL ID: ${glEntry.id}):`, error);
-              // エラーが発生しても処理を続行
-            }
+          // 同じ分割突合グループで解除済みのGLはスキップ
+          if (unmatchedGlIds.has(glEntry.id)) {
+            continue;
           }
+
+          const result = await this.reconciliationService.unmatchReconciliation(
+            glEntry.id,
+            glEntry.orderMatchId ?? undefined,
+            tx
+          );
+          result.glEntries.forEach((gl) => unmatchedGlIds.add(gl.id));
+          unmatchedCount++;
         }
 
-        // すべてのGLデータを削除
-        await this.glEntryRepository.deleteByPeriod(period);
+        // すべてのGLデータと取込対象外明細の集計、異常検知結果を削除
+        await this.glEntryRepository.deleteByPeriod(period, tx);
+        await this.glEntryRepository.replaceVoucherExclusions([period], [], tx);
+        await this.glEntryRepository.deleteAnomaliesByGlEntryIds(
+          glEntries.map((gl) => gl.id),
+          tx
+        );
       });
 
       return {
@@ -0,0 +1,649 @@
+import type {
+  CreateGLEntryData,
+  GLImportColumnMapping,
+  GLImportPreview,
+  GLImportProfile,
+  GLVoucherExclusionData,
+  NewGLImportProfile,
+} from "@shared/schema/integrated";
+import { convertHalfWidthKanaToFullWidth } from "@shared/utils/textNormalization";
+import { parse } from "csv-parse";
+import iconv from "iconv-lite";
+
+import { db } from "../db";
+import { AppError } from "../middleware/errorHandler";
+import { AccountingItemRepository } from "../storage/accountingItem";
+import { GLImportProfileRepository } from "../storage/glImportProfile";
+import { type ImportFileSource, SpreadsheetService } from "./spreadsheetService";
+
+/** CSVの解釈に使用するプロファイルの設定項目 */
+export type GLImportProfileSettings = Pick<
+  NewGLImportProfile,
+  | "encoding"
+  | "skipHeaderRows"
+  | "dateFormat"
+  | "amountFormat"
+  | "debitFlagValue"
+  | "columnMapping"
+  | "accountCodes"
+>;
+
+/** 取込1行分の値（列の割当に従って取り出した値、金額は正の数と貸借区分に変換済み） */
+export type GLImportRowValues = Record<
+  | "voucherNo"
+  | "transactionDate"
+  | "accountCode"
+  | "accountName"
+  | "amount"
+  | "debitCredit"
+  | "description",
+  string
+>;
+
+/** 取込ファイルの解釈結果（取込対象のGLデータと行番号） */
+export interface ParsedGLImportFile {
+  encoding: string; // 実際に使用した文字コード（XLSXの場合は "xlsx"）
+  sheetNames?: string[]; // XLSXのシート一覧
+  sheetName?: string; // 読み込んだXLSXのシート
+  rawRows: string[][];
+  entries: Array<{ row: number; entry: CreateGLEntryData; values: GLImportRowValues }>;
+  errors: Array<{ row: number; message: string; values: GLImportRowValues }>;
+  totalRows: number;
+  skippedRows: number;
+  accountCodes: string[]; // 取込対象の勘定科目コード（空の場合は全科目）
+  voucherExclusions: GLVoucherExclusionData[]; // 対象科目外として取り込まなかった明細の伝票ごとの集計
+}
+
+/**
+ * 標準レイアウト（プロファイル未登録時に使用する従来の会計ソフトの総勘定元帳CSV）
+ * 22列（科目コード・科目名・補助・税区分・日付・伝票番号・相手科目…・摘要・借方・貸方・残高）
+ * 取込対象の勘定科目は計上科目マスタのGL取込対象から決定する（getStandardSettings）
+ */
+export const STANDARD_GL_IMPORT_PROFILE: GLImportProfileSettings = {
+  encoding: "auto",
+  skipHeaderRows: 0,
+  dateFormat: "auto",
+  amountFormat: "separate",
+  debitFlagValue: null,
+  columnMapping: {
+    accountCode: 0,
+    accountName: 1,
+    transactionDate: 6,
+    voucherNo: 7,
+    description: 14,
+    debitAmount: 17,
+    creditAmount: 19,
+  },
+  accountCodes: null,
+};
+
+const AUTO_DETECT_ENCODINGS = ["shift_jis", "euc-jp", "utf8"];
+const PREVIEW_RAW_ROWS = 10;
+const PREVIEW_ENTRIES = 20;
+
+/**
+ * GL CSV取込プロファイル管理サービスクラス
+ *
+ * @description GL CSV取込プロファイルの管理と、プロファイルに基づくCSV・XLSXの解釈を担当
+ * @responsibility プロファイルの作成・更新・削除、文字コード判定、列の割当・日付形式・借方/貸方の表現に従ったGLデータへの変換
+ */
+export class GLImportProfileService {
+  private spreadsheetService = new SpreadsheetService();
+
+  constructor(
+    private glImportProfileRepository: GLImportProfileRepository,
+    private accountingItemRepository: AccountingItemRepository
+  ) {}
+
+  /**
+   * GL CSV取込プロファイル一覧取得
+   *
+   * @returns 名称順のプロファイル一覧と総件数
+   */
+  async getProfiles(): Promise<{ profiles: GLImportProfile[]; totalCount: number }> {
+    try {
+      const profiles = await this.glImportProfileRepository.findAll();
+      return { profiles, totalCount: profiles.length };
+    } catch (error) {
+      console.error("GL取込プロファイル一覧取得エラー:", error);
+      throw new AppError("GL取込プロファイル一覧の取得に失敗しました", 500);
+    }
+  }
+
+  /**
+   * GL CSV取込プロファイル作成
+   *
+   * @param data - プロファイルデータ
+   * @returns 作成されたプロファイル
+   * @throws AppError - 同名のプロファイルが存在する場合、列の割当が不足している場合
+   */
+  async createProfile(data: NewGLImportProfile): Promise<GLImportProfile> {
+    try {
+      this.validateSettings({ ...STANDARD_GL_IMPORT_PROFILE, ...data });
+
+      const existing = await this.glImportProfileRepository.findByName(data.name);
+      if (existing) {
+        throw new AppError(`プロファイル「${data.name}」は既に存在します`, 409, true, "CONFLICT");
+      }
+
+      return await db.transaction(async (tx) => {
+        if (data.isDefault === "true") {
+          await this.glImportProfileRepository.clearDefault(tx);
+        }
+        return await this.glImportProfileRepository.create(data, tx);
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("GL取込プロファイル作成エラー:", error);
+      throw new AppError("GL取込プロファイルの作成に失敗しました", 500);
+    }
+  }
+
+  /**
+   * GL CSV取込プロファイル更新
+   *
+   * @param id - プロファイルID
+   * @param data - 更新データ
+   * @returns 更新されたプロファイル
+   * @throws AppError - プロファイルが見つからない場合、同名のプロファイルが存在する場合
+   */
+  async updateProfile(id: string, data: Partial<NewGLImportProfile>): Promise<GLImportProfile> {
+    try {
+      const existing = await this.glImportProfileRepository.findById(id);
+      if (!existing) {
+        throw new AppError("GL取込プロファイルが見つかりません", 404, true, "NOT_FOUND");
+      }
+
+      this.validateSettings({ ...existing, ...data });
+
+      if (data.name && data.name !== existing.name) {
+        const duplicate = await this.glImportProfileRepository.findByName(data.name);
+        if (duplicate) {
+          throw new AppError(`プロファイル「${data.name}」は既に存在します`, 409, true, "CONFLICT");
+        }
+      }
+
+      const profile = await db.transaction(async (tx) => {
+        if (data.isDefault === "true") {
+          await this.glImportProfileRepository.clearDefault(tx);
+        }
+        return await this.glImportProfileRepository.update(id, data, tx);
+      });
+
+      if (!profile) {
+        throw new AppError("GL取込プロファイルが見つかりません", 404, true, "NOT_FOUND");
+      }
+
+      return profile;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("GL取込プロファイル更新エラー:", error);
+      throw new AppError("GL取込プロファイルの更新に失敗しました", 500);
+    }
+  }
+
+  /**
+   * GL CSV取込プロファイル削除
+   *
+   * @param id - プロファイルID
+   */
+  async deleteProfile(id: string): Promise<void> {
+    try {
+      const deleted = await this.glImportProfileRepository.delete(id);
+
+      if (!deleted) {
+        throw new AppError("GL取込プロファイルが見つかりません", 404, true, "NOT_FOUND");
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("GL取込プロファイル削除エラー:", error);
+      throw new AppError("GL取込プロファイルの削除に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 取込に使用するプロファイル設定の決定
+   *
+   * @description プロファイル指定がない場合は既定のプロファイル、既定もない場合は標準レイアウトを使用する
+   * @param profileId - プロファイルID
+   * @returns プロファイル設定
+   * @throws AppError - 指定されたプロファイルが見つからない場合
+   */
+  async resolveSettings(profileId?: string): Promise<GLImportProfileSettings> {
+    if (profileId) {
+      const profile = await this.glImportProfileRepository.findById(profileId);
+      if (!profile) {
+        throw new AppError("GL取込プロファイルが見つかりません", 404, true, "NOT_FOUND");
+      }
+      return profile;
+    }
+
+    const defaultProfile = await this.glImportProfileRepository.findDefault();
+    return defaultProfile ?? (await this.getStandardSettings());
+  }
+
+  /**
+   * 標準レイアウトの設定取得
+   *
+   * @description 取込対象の勘定科目に計上科目マスタのGL取込対象の科目コードを設定する
+   * @returns 標準レイアウトの設定
+   */
+  async getStandardSettings(): Promise<GLImportProfileSettings> {
+    try {
+      const items = await this.accountingItemRepository.findGLImportTargets();
+      return {
+        ...STANDARD_GL_IMPORT_PROFILE,
+        accountCodes: items.length > 0 ? items.map((item) => item.code).join(",") : null,
+      };
+    } catch (error) {
+      console.error("GL取込標準レイアウト取得エラー:", error);
+      throw new AppError("GL取込の標準レイアウトの取得に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 取込プレビュー
+   *
+   * @description 保存前のプロファイル設定でもファイルの解釈結果を確認できるように、ファイル先頭の生データと変換結果の一部を返す
+   * @param fileBuffer - CSV・XLSXファイルのバッファ
+   * @param settings - プロファイル設定
+   * @param source - 取込ファイルの形式（XLSXの場合は読み込むシート）
+   * @returns プレビュー結果
+   */
+  async previewFile(
+    fileBuffer: Buffer,
+    settings: GLImportProfileSettings,
+    source: ImportFileSource = { fileType: "csv" }
+  ): Promise<GLImportPreview> {
+    const parsed = await this.parseFile(fileBuffer, settings, source);
+
+    return {
+      encoding: parsed.encoding,
+      sheetNames: parsed.sheetNames,
+      sheetName: parsed.sheetName,
+      rawRows: parsed.rawRows.slice(0, PREVIEW_RAW_ROWS),
+      entries: parsed.entries.slice(0, PREVIEW_ENTRIES).map(({ row, entry }) => ({
+        row,
+        voucherNo: entry.voucherNo,
+        transactionDate: String(entry.transactionDate),
+        accountCode: entry.accountCode,
+        accountName: entry.accountName,
+        amount: String(entry.amount),
+        debitCredit: entry.debitCredit,
+        description: entry.description ?? "",
+        period: entry.period,
+      })),
+      errors: parsed.errors.slice(0, PREVIEW_ENTRIES).map(({ row, message }) => ({ row, message })),
+      totalRows: parsed.totalRows,
+      importableRows: parsed.entries.length,
+      skippedRows: parsed.skippedRows,
+    };
+  }
+
+  /**
+   * プロファイル設定に従った取込ファイル（CSV・XLSX）の解釈
+   *
+   * @description XLSXの場合は文字コード・日付形式の設定を使用せず、セルの値（日付セルはYYYY-MM-DD）をそのまま解釈する
+   * @param fileBuffer - CSV・XLSXファイルのバッファ
+   * @param settings - プロファイル設定
+   * @param source - 取込ファイルの形式（XLSXの場合は読み込むシート）
+   * @returns 取込対象のGLデータ、行ごとのエラー、対象外としてスキップした行数
+   * @throws AppError - 列の割当が不足している場合、CSV・XLSXとして読み込めない場合
+   */
+  async parseFile(
+    fileBuffer: Buffer,
+    settings: GLImportProfileSettings,
+    source: ImportFileSource = { fileType: "csv" }
+  ): Promise<ParsedGLImportFile> {
+    this.validateSettings(settings);
+
+    let encoding = "xlsx";
+    let rawRows: string[][];
+    let sheet: { sheetNames: string[]; sheetName: string } | undefined;
+    if (source.fileType === "xlsx") {
+      const { rows, ...sheetInfo } = await this.spreadsheetService.readSheet(
+        fileBuffer,
+        source.sheetName
+      );
+      rawRows = rows;
+      sheet = sheetInfo;
+    } else {
+      const decoded = this.decode(fileBuffer, settings.encoding ?? "auto");
+      encoding = decoded.encoding;
+      rawRows = await this.parseRows(decoded.content);
+    }
+    const dateFormat = source.fileType === "xlsx" ? "auto" : settings.dateFormat;
+
+    const mapping = settings.columnMapping;
+    const skipHeaderRows = settings.skipHeaderRows ?? 0;
+    const accountCodes = this.parseAccountCodes(settings.accountCodes);
+    const entries: ParsedGLImportFile["entries"] = [];
+    const errors: ParsedGLImportFile["errors"] = [];
+    const voucherExclusions = new Map<string, GLVoucherExclusionData>();
+    let skippedRows = 0;
+
+    rawRows.forEach((values, index) => {
+      const row = index + 1;
+      if (index < skipHeaderRows) {
+        return;
+      }
+
+      const cell = (column?: number) =>
+        column === undefined ? "" : String(values[column] ?? "").trim();
+
+      // 対象科目コードチェック
+      const accountCode = cell(mapping.accountCode);
+      if (accountCodes.length > 0 && !accountCodes.includes(accountCode)) {
+        skippedRows++;
+        this.addVoucherExclusion(voucherExclusions, cell, accountCode, settings, dateFormat);
+        return;
+      }
+
+      const amountResult = this.resolveAmount(cell, settings);
+      if (!amountResult) {
+        skippedRows++;
+        return;
+      }
+
+      const rowValues: GLImportRowValues = {
+        voucherNo: cell(mapping.voucherNo),
+        transactionDate: cell(mapping.transactionDate),
+        accountCode,
+        accountName: cell(mapping.accountName),
+        amount: amountResult.amount.toString(),
+        debitCredit: amountResult.debitCredit,
+        description: cell(mapping.description),
+      };
+
+      const validated = this.validateRowValues(rowValues, dateFormat);
+      if ("error" in validated) {
+        errors.push({ row, message: validated.error, values: rowValues });
+        return;
+      }
+
+      entries.push({ row, entry: validated.entry, values: rowValues });
+    });
+
+    return {
+      encoding,
+      ...sheet,
+      rawRows,
+      entries,
+      errors,
+      totalRows: Math.max(rawRows.length - skipHeaderRows, 0),
+      skippedRows,
+      accountCodes,
+      voucherExclusions: Array.from(voucherExclusions.values()),
+    };
+  }
+
+  /**
+   * 対象科目外の明細の伝票ごとの集計（プライベートメソッド）
+   *
+   * @description 伝票の貸借チェックで一部の明細のみ取り込まれた伝票を検出するため、
+   * 取り込まない明細の件数と借方・貸方の合計を伝票番号・期間ごとに記録する
+   */
+  private addVoucherExclusion(
+    voucherExclusions: Map<string, GLVoucherExclusionData>,
+    cell: (column?: number) => string,
+    accountCode: string,
+    settings: GLImportProfileSettings,
+    dateFormat?: string | null
+  ): void {
+    const voucherNo = cell(settings.columnMapping.voucherNo);
+    const dateResult = this.parseDate(
+      cell(settings.columnMapping.transactionDate),
+      dateFormat ?? "auto"
+    );
+    const amountResult = this.resolveAmount(cell, settings);
+    if (!voucherNo || !dateResult || !amountResult) {
+      return;
+    }
+
+    const key = `${voucherNo}|${dateResult.period}`;
+    const exclusion = voucherExclusions.get(key) ?? {
+      voucherNo,
+      period: dateResult.period,
+      lineCount: 0,
+      debitAmount: 0,
+      creditAmount: 0,
+      accountCodes: [],
+    };
+    exclusion.lineCount++;
+    if (amountResult.debitCredit === "debit") {
+      exclusion.debitAmount += amountResult.amount;
+    } else {
+      exclusion.creditAmount += amountResult.amount;
+    }
+    if (accountCode && !exclusion.accountCodes.includes(accountCode)) {
+      exclusion.accountCodes.push(accountCode);
+    }
+    voucherExclusions.set(key, exclusion);
+  }
+
+  /**
+   * 取込1行分の値の検証とGLデータへの変換
+   *
+   * @description 取込バッチで修正された値の再検証にも使用する
+   * @param values - 取込項目の値
+   * @param dateFormat - 取引日の形式（未指定の場合は自動判定）
+   * @returns GLデータ、または検証エラーの内容
+   */
+  validateRowValues(
+    values: GLImportRowValues,
+    dateFormat?: string | null
+  ): { entry: CreateGLEntryData } | { error: string } {
+    const dateResult = this.parseDate((values.transactionDate ?? "").trim(), dateFormat ?? "auto");
+    if (!dateResult) {
+      return { error: `日付フォーマットエラー: ${values.transactionDate ?? ""}` };
+    }
+
+    const amount = this.parseAmount(values.amount ?? "");
+    if (!(amount > 0)) {
+      return { error: `金額が不正です: ${values.amount ?? ""}` };
+    }
+
+    if (values.debitCredit !== "debit" && values.debitCredit !== "credit") {
+      return { error: `貸借区分が不正です: ${values.debitCredit ?? ""}（debit または credit）` };
+    }
+
+    return {
+      entry: {
+        voucherNo: (values.voucherNo ?? "").trim(),
+        transactionDate: dateResult.transactionDate,
+        accountCode: (values.accountCode ?? "").trim(),
+        accountName: convertHalfWidthKanaToFullWidth((values.accountName ?? "").trim()),
+        amount: amount.toString(),
+        debitCredit: values.debitCredit,
+        description: (values.description ?? "").trim(),
+        period: dateResult.period,
+      },
+    };
+  }
+
+  /**
+   * プロファイル設定の検証（プライベートメソッド）
+   *
+   * @description 借方/貸方の表現に応じて必要な列が割り当てられているかを確認する
+   */
+  private validateSettings(settings: GLImportProfileSettings): void {
+    const mapping: Partial<GLImportColumnMapping> = settings.columnMapping ?? {};
+    const required: Array<keyof GLImportColumnMapping> = [
+      "voucherNo",
+      "transactionDate",
+      "accountCode",
+      "accountName",
+    ];
+
+    if (settings.amountFormat === "flag") {
+      required.push("amount", "debitCreditFlag");
+      if (!settings.debitFlagValue?.trim()) {
+        throw new AppError("借方を示す貸借区分の値を指定してください", 400);
+      }
+    } else if (settings.amountFormat === "signed") {
+      required.push("amount");
+    } else {
+      required.push("debitAmount", "creditAmount");
+    }
+
+    const missing = required.filter((field) => mapping[field] === undefined);
+    if (missing.length > 0) {
+      throw new AppError(`列の割当が不足しています: ${missing.join(", ")}`, 400);
+    }
+  }
+
+  /**
+   * 文字コードの判定とUTF-8への変換（プライベートメソッド）
+   *
+   * @description auto の場合は候補の文字コードで変換し、日本語文字が多く文字化けが少ないものを採用する
+   */
+  private decode(fileBuffer: Buffer, encoding: string): { content: string; encoding: string } {
+    if (encoding !== "auto") {
+      if (!iconv.encodingExists(encoding)) {
+        throw new AppError(`文字コード ${encoding} には対応していません`, 400);
+      }
+      return { content: iconv.decode(fileBuffer, encoding), encoding };
+    }
+
+    let best = { content: iconv.decode(fileBuffer, "shift_jis"), encoding: "shift_jis" };
+    let bestScore = 0;
+
+    for (const candidate of AUTO_DETECT_ENCODINGS) {
+      const decoded = iconv.decode(fileBuffer, candidate);
+      const japaneseCount = (decoded.match(/[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/g) || [])
+        .length;
+      const garbledCount = (decoded.match(/[\uFFFD]/g) || []).length;
+      const score = japaneseCount - garbledCount * 10;
+
+      if (score > bestScore) {
+        bestScore = score;
+        best = { content: decoded, encoding: candidate };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * CSVの行・列への分割（プライベートメソッド）
+   */
+  private async parseRows(content: string): Promise<string[][]> {
+    try {
+      return await new Promise<string[][]>((resolve, reject) => {
+        parse(
+          content,
+          {
+            bom: true,
+            skipEmptyLines: true,
+            relaxColumnCount: true,
+            relaxQuotes: true,
+          },
+          (error, records: string[][]) => (error ? reject(error) : resolve(records))
+        );
+      });
+    } catch (error) {
+      console.error("CSVパースエラー:", error);
+      throw new AppError("CSVファイルを読み込めませんでした", 400);
+    }
+  }
+
+  /**
+   * 金額と借方/貸方の判定（プライベートメソッド）
+   *
+   * @returns 金額（絶対値）と借方/貸方（金額が0の場合はnull）
+   */
+  private resolveAmount(
+    cell: (column?: number) => string,
+    settings: GLImportProfileSettings
+  ): { amount: number; debitCredit: "debit" | "credit" } | null {
+    const mapping = settings.columnMapping;
+
+    if (settings.amountFormat === "signed") {
+      const amount = this.parseAmount(cell(mapping.amount));
+      if (amount === 0) {
+        return null;
+      }
+      return { amount: Math.abs(amount), debitCredit: amount > 0 ? "debit" : "credit" };
+    }
+
+    if (settings.amountFormat === "flag") {
+      const amount = Math.abs(this.parseAmount(cell(mapping.amount)));
+      if (amount === 0) {
+        return null;
+      }
+      const isDebit = cell(mapping.debitCreditFlag) === settings.debitFlagValue?.trim();
+      return { amount, debitCredit: isDebit ? "debit" : "credit" };
+    }
+
+    const debitAmount = this.parseAmount(cell(mapping.debitAmount));
+    const creditAmount = this.parseAmount(cell(mapping.creditAmount));
+    // 借方のマイナス（△）は貸方、貸方のマイナスは借方として扱う
+    const netAmount = debitAmount - creditAmount;
+    if (netAmount === 0) {
+      return null;
+    }
+    return { amount: Math.abs(netAmount), debitCredit: netAmount > 0 ? "debit" : "credit" };
+  }
+
+  /**
+   * 金額文字列の数値変換（プライベートメソッド）
+   *
+   * @description カンマ・円記号・空白を除去し、先頭の△/▲はマイナスとして扱う
+   */
+  private parseAmount(value: string): number {
+    const normalized = value.replace(/[,¥￥\s]/g, "").replace(/^[△▲]/, "-");
+    const amount = parseFloat(normalized);
+    return isNaN(amount) ? 0 : amount;
+  }
+
+  /**
+   * 日付文字列から取引日と期間への変換（プライベートメソッド）
+   *
+   * @returns 取引日（YYYY-MM-DD）と期間（YYYY-MM）、解釈できない場合はnull
+   */
+  private parseDate(
+    value: string,
+    dateFormat: string | undefined
+  ): { transactionDate: string; period: string } | null {
+    const patterns: Record<string, RegExp> = {
+      YYYYMMDD: /^(\d{4})(\d{2})(\d{2})$/,
+      "YYYY/MM/DD": /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/,
+      "YYYY-MM-DD": /^(\d{4})-(\d{1,2})-(\d{1,2})$/,
+    };
+    const candidates =
+      !dateFormat || dateFormat === "auto" ? Object.values(patterns) : [patterns[dateFormat]];
+
+    for (const pattern of candidates) {
+      const match = pattern?.exec(value);
+      if (!match) {
+        continue;
+      }
+
+      const [, year, month, day] = match;
+      if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) {
+        return null;
+      }
+
+      const period = `${year}-${month.padStart(2, "0")}`;
+      return { transactionDate: `${period}-${day.padStart(2, "0")}`, period };
+    }
+
+    return null;
+  }
+
+  /**
+   * 対象科目コードの分解（プライベートメソッド）
+   */
+  private parseAccountCodes(accountCodes: string | null | undefined): string[] {
+    return (accountCodes ?? "")
+      .split(",")
+      .map((code) => code.trim())
+      .filter((code) => code.length > 0);
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * GL試算表・勘定科目元帳サービス
+ *
+ * 責務:
+ * - 会計年度（4月〜翌年3月）の勘定科目別の月次試算表の作成
+ * - 勘定科目元帳（明細ごとの累計残高）の作成
+ */
+
+import type {
+  GLLedgerLine,
+  GLLedgerResponse,
+  GLMonthlyBalance,
+  GLTrialBalanceAccount,
+  GLTrialBalanceResponse,
+} from "@shared/schema/integrated";
+
+import { AppError } from "../middleware/errorHandler";
+import { GLEntryRepository } from "../storage/glEntry";
+
+/**
+ * GL試算表・勘定科目元帳サービスクラス
+ *
+ * @description 残高は借方残をプラスとして計算する。
+ * GLデータに期首残高は含まれないため、会計年度の期首（4月）の残高を0として累計する。
+ */
+export class GLLedgerService {
+  constructor(private glEntryRepository: GLEntryRepository) {}
+
+  /**
+   * 月次試算表の取得
+   *
+   * @param fiscalYear - 会計年度
+   * @returns 勘定科目別の月次の借方・貸方合計、増減、累計残高
+   */
+  async getTrialBalance(fiscalYear: number): Promise<GLTrialBalanceResponse> {
+    try {
+      const periods = this.getFiscalYearPeriods(fiscalYear);
+      const totals = await this.glEntryRepository.getMonthlyAccountTotals(periods);
+
+      // 勘定科目ごとに月別の合計をまとめる
+      const accountMap = new Map<
+        string,
+        { accountName: string; monthTotals: Map<string, { debit: number; credit: number }> }
+      >();
+      for (const total of totals) {
+        let account = accountMap.get(total.accountCode);
+        if (!account) {
+          account = { accountName: total.accountName, monthTotals: new Map() };
+          accountMap.set(total.accountCode, account);
+        }
+        account.monthTotals.set(total.period, {
+          debit: Number(total.debitTotal),
+          credit: Number(total.creditTotal),
+        });
+      }
+
+      const accounts: GLTrialBalanceAccount[] = Array.from(accountMap.entries()).map(
+        ([accountCode, account]) => {
+          const months = this.buildMonthlyBalances(periods, account.monthTotals);
+          return {
+            accountCode,
+            accountName: account.accountName,
+            months,
+            debitTotal: this.round(months.reduce((sum, month) => sum + month.debitTotal, 0)),
+            creditTotal: this.round(months.reduce((sum, month) => sum + month.creditTotal, 0)),
+            closingBalance: months[months.length - 1].cumulativeBalance,
+          };
+        }
+      );
+
+      // 全勘定科目の月次合計
+      const allMonthTotals = new Map<string, { debit: number; credit: number }>();
+      for (const total of totals) {
+        const current = allMonthTotals.get(total.period) ?? { debit: 0, credit: 0 };
+        current.debit += Number(total.debitTotal);
+        current.credit += Number(total.creditTotal);
+        allMonthTotals.set(total.period, current);
+      }
+      const monthTotals = this.buildMonthlyBalances(periods, allMonthTotals);
+
+      return {
+        fiscalYear,
+        periods,
+        accounts,
+        totals: monthTotals,
+        debitTotal: this.round(monthTotals.reduce((sum, month) => sum + month.debitTotal, 0)),
+        creditTotal: this.round(monthTotals.reduce((sum, month) => sum + month.creditTotal, 0)),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("試算表取得エラー:", error);
+      throw new AppError("試算表の取得中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 勘定科目元帳の取得
+   *
+   * @description 月を指定した場合も累計残高は期首から計算し、明細のみ指定月に絞り込む
+   *
+   * @param accountCode - 勘定科目コード
+   * @param fiscalYear - 会計年度
+   * @param month - 月（オプション）
+   * @returns 月次推移と明細ごとの累計残高
+   * @throws AppError - 対象年度に勘定科目のGLデータが存在しない場合
+   */
+  async getLedger(
+    accountCode: string,
+    fiscalYear: number,
+    month?: number
+  ): Promise<GLLedgerResponse> {
+    try {
+      const periods = this.getFiscalYearPeriods(fiscalYear);
+      const entries = await this.glEntryRepository.findByAccountCodeAndPeriods(
+        accountCode,
+        periods
+      );
+
+      if (entries.length === 0) {
+        throw new AppError("指定された勘定科目のGLデータが見つかりません", 404);
+      }
+
+      const targetPeriod = month ? this.toPeriod(fiscalYear, month) : undefined;
+      const monthTotals = new Map<string, { debit: number; credit: number }>();
+      const lines: GLLedgerLine[] = [];
+      let balance = 0;
+      let openingBalance = 0;
+
+      for (const entry of entries) {
+        const amount = Number(entry.amount);
+        const debitAmount = entry.debitCredit === "debit" ? amount : 0;
+        const creditAmount = entry.debitCredit === "credit" ? amount : 0;
+
+        const current = monthTotals.get(entry.period) ?? { debit: 0, credit: 0 };
+        current.debit += debitAmount;
+        current.credit += creditAmount;
+        monthTotals.set(entry.period, current);
+
+        balance = this.round(balance + debitAmount - creditAmount);
+
+        // 指定月より前の明細は残高の計算のみに使用
+        if (targetPeriod && entry.period < targetPeriod) {
+          openingBalance = balance;
+          continue;
+        }
+        if (targetPeriod && entry.period > targetPeriod) {
+          continue;
+        }
+
+        lines.push({
+          id: entry.id,
+          voucherNo: entry.voucherNo,
+          transactionDate: entry.transactionDate,
+          period: entry.period,
+          description: entry.description,
+          debitAmount,
+          creditAmount,
+          balance,
+          reconciliationStatus: entry.reconciliationStatus,
+        });
+      }
+
+      return {
+        fiscalYear,
+        accountCode,
+        accountName: entries[entries.length - 1].accountName,
+        months: this.buildMonthlyBalances(periods, monthTotals),
+        openingBalance,
+        lines,
+        debitTotal: this.round(lines.reduce((sum, line) => sum + line.debitAmount, 0)),
+        creditTotal: this.round(lines.reduce((sum, line) => sum + line.creditAmount, 0)),
+        closingBalance: lines.length > 0 ? lines[lines.length - 1].balance : openingBalance,
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("勘定科目元帳取得エラー:", error);
+      throw new AppError("勘定科目元帳の取得中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 月次推移の作成（プライベートメソッド）
+   *
+   * @description データのない月も0として含め、期首からの累計残高を計算する
+   */
+  private buildMonthlyBalances(
+    periods: string[],
+    monthTotals: Map<string, { debit: number; credit: number }>
+  ): GLMonthlyBalance[] {
+    let cumulativeBalance = 0;
+    return periods.map((period) => {
+      const total = monthTotals.get(period);
+      const debitTotal = this.round(total?.debit ?? 0);
+      const creditTotal = this.round(total?.credit ?? 0);
+      const netMovement = this.round(debitTotal - creditTotal);
+      cumulativeBalance = this.round(cumulativeBalance + netMovement);
+      return { period, debitTotal, creditTotal, netMovement, cumulativeBalance };
+    });
+  }
+
+  /**
+   * 会計年度の期間一覧（4月〜翌年3月）の取得（プライベートメソッド）
+   */
+  private getFiscalYearPeriods(fiscalYear: number): string[] {
+    return [4, 5, 6, 7, 8, 9, 10, 11, 12, 1, 2, 3].map((month) => this.toPeriod(fiscalYear, month));
+  }
+
+  /**
+   * 会計年度と月から期間（YYYY-MM）を作成（プライベートメソッド）
+   */
+  private toPeriod(fiscalYear: number, month: number): string {
+    const year = month >= 4 ? fiscalYear : fiscalYear + 1;
+    return `${year}-${month.toString().padStart(2, "0")}`;
+  }
+
+  /**
+   * 金額の丸め（プライベートメソッド）
+   *
+   * @description 金額は小数第2位までのため、浮動小数点の誤差を銭単位で丸める
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * GL伝票の貸借チェックサービス
+ *
+ * 責務:
+ * - 伝票番号・期間ごとの借方・貸方合計の照合
+ * - 取込対象の勘定科目の絞込みで一部の明細のみ取り込まれた伝票の検出
+ */
+
+import type {
+  GLVoucherCheckResponse,
+  GLVoucherCheckResult,
+  GLVoucherIssueType,
+} from "@shared/schema/integrated";
+
+import { db, type DbExecutor } from "../db";
+import { AppError } from "../middleware/errorHandler";
+import { GLEntryRepository } from "../storage/glEntry";
+
+/** 貸借チェックの対象期間の指定 */
+export interface GLVoucherCheckFilter {
+  fiscalYear?: number;
+  month?: number; // 年度が指定されている場合のみ有効
+  periods?: string[]; // 期間（YYYY-MM）を直接指定する場合
+}
+
+/**
+ * GL伝票の貸借チェックサービスクラス
+ *
+ * @description 伝票全体（取込済みの明細と取込対象外の明細の合計）の借方・貸方の一致と、
+ * 対象科目外として取り込まなかった明細の有無を伝票ごとに判定する
+ */
+export class GLVoucherCheckService {
+  constructor(private glEntryRepository: GLEntryRepository) {}
+
+  /**
+   * GL伝票の貸借チェック
+   *
+   * @param filter - 対象期間（年度・月、または期間の配列）
+   * @param executor - DBエグゼキューター（トランザクション内で呼び出す場合に指定）
+   * @returns チェックした伝票の件数と問題のある伝票の一覧
+   * @throws AppError - 対象期間が指定されていない場合
+   */
+  async checkVouchers(
+    filter: GLVoucherCheckFilter,
+    executor: DbExecutor = db
+  ): Promise<GLVoucherCheckResponse> {
+    const periods = this.resolvePeriods(filter);
+    if (!filter.periods && periods.length === 0) {
+      throw new AppError("チェック対象の年度または期間を指定してください", 400);
+    }
+
+    try {
+      const totals = await this.glEntryRepository.getVoucherTotals(periods, executor);
+      const exclusions = await this.glEntryRepository.findVoucherExclusions(periods, executor);
+
+      const exclusionByKey = new Map(
+        exclusions.map((exclusion) => [`${exclusion.voucherNo}|${exclusion.period}`, exclusion])
+      );
+
+      const vouchers: GLVoucherCheckResult[] = [];
+      let unbalancedVouchers = 0;
+      let truncatedVouchers = 0;
+
+      for (const total of totals) {
+        const exclusion = exclusionByKey.get(`${total.voucherNo}|${total.period}`);
+        const debitTotal = Number(total.debitTotal);
+        const creditTotal = Number(total.creditTotal);
+        const excludedDebitTotal = Number(exclusion?.debitAmount ?? 0);
+        const excludedCreditTotal = Number(exclusion?.creditAmount ?? 0);
+
+        // 金額は小数第2位までのため、円未満の誤差を避けて銭単位で比較する
+        const difference =
+          Math.round((debitTotal + excludedDebitTotal - creditTotal - excludedCreditTotal) * 100) /
+          100;
+
+        const issues: GLVoucherIssueType[] = [];
+        if (difference !== 0) {
+          issues.push("unbalanced");
+          unbalancedVouchers++;
+        }
+        if ((exclusion?.lineCount ?? 0) > 0) {
+          issues.push("truncated");
+          truncatedVouchers++;
+        }
+        if (issues.length === 0) {
+          continue;
+        }
+
+        vouchers.push({
+          voucherNo: total.voucherNo,
+          period: total.period,
+          transactionDate: total.transactionDate,
+          lineCount: total.lineCount,
+          debitTotal,
+          creditTotal,
+          excludedLineCount: exclusion?.lineCount ?? 0,
+          excludedDebitTotal,
+          excludedCreditTotal,
+          excludedAccountCodes: exclusion?.accountCodes ? exclusion.accountCodes.split(",") : [],
+          difference,
+          issues,
+        });
+      }
+
+      return {
+        periods,
+        summary: {
+          checkedVouchers: totals.length,
+          unbalancedVouchers,
+          truncatedVouchers,
+        },
+        vouchers,
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("GL伝票貸借チェックエラー:", error);
+      throw new AppError("GL伝票の貸借チェック中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 対象期間の決定（プライベートメソッド）
+   *
+   * @description 月の指定がない場合は年度の12ヶ月（4月〜翌年3月）を対象にする
+   */
+  private resolvePeriods(filter: GLVoucherCheckFilter): string[] {
+    if (filter.periods) {
+      return Array.from(new Set(filter.periods)).sort();
+    }
+    if (!filter.fiscalYear) {
+      return [];
+    }
+
+    const months = filter.month ? [filter.month] : [4, 5, 6, 7, 8, 9, 10, 11, 12, 1, 2, 3];
+    return months.map((month) => {
+      const year = month >= 4 ? filter.fiscalYear! : filter.fiscalYear! + 1;
+      return `${year}-${month.toString().padStart(2, "0")}`;
+    });
+  }
+}
@@ -0,0 +1,147 @@
+import { glEntries } from "@shared/schema";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../db";
+import { AccountingItemRepository } from "../storage/accountingItem";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
+import { AngleBForecastRepository } from "../storage/angleBForecast";
+import { GLEntryRepository } from "../storage/glEntry";
+import { GLImportProfileRepository } from "../storage/glImportProfile";
+import { ImportBatchRepository } from "../storage/importBatch";
+import { OrderForecastRepository } from "../storage/orderForecast";
+import { ProjectRepository } from "../storage/project";
+import { resetTestDb, type TestDb } from "../testing/testDb";
+import { AccountingPeriodService } from "./accountingPeriodService";
+import { ForecastImportService } from "./forecastImportService";
+import { GLEntryService } from "./glEntryService";
+import { GLImportProfileService } from "./glImportProfileService";
+import { ImportBatchService } from "./importBatchService";
+
+vi.mock("../db", async () => {
+  const { createTestDb } = await import("../testing/testDb");
+  return await createTestDb();
+});
+
+const testDb = db as unknown as TestDb;
+
+describe("取込バッチの反映・取消", () => {
+  const importBatchRepository = new ImportBatchRepository();
+  const orderForecastRepository = new OrderForecastRepository();
+  const accountingItemRepository = new AccountingItemRepository();
+  const accountingPeriodService = new AccountingPeriodService(new AccountingPeriodRepository());
+  const glImportProfileService = new GLImportProfileService(
+    new GLImportProfileRepository(),
+    accountingItemRepository
+  );
+  const service = new ImportBatchService(
+    importBatchRepository,
+    new GLEntryService(
+      new GLEntryRepository(),
+      orderForecastRepository,
+      accountingPeriodService,
+      glImportProfileService
+    ),
+    glImportProfileService,
+    new ForecastImportService(
+      orderForecastRepository,
+      new AngleBForecastRepository(),
+      new ProjectRepository(),
+      accountingItemRepository,
+      accountingPeriodService
+    ),
+    accountingPeriodService
+  );
+  const user = { userId: "user-1" };
+
+  /**
+   * GLの取込バッチ（確認中）を登録
+   */
+  const stageGLBatch = async (voucherNos = ["V001", "V002"]) => {
+    const batch = await importBatchRepository.create({
+      importType: "gl-entries",
+      fileName: "gl.csv",
+      totalRows: voucherNos.length,
+      validRows: voucherNos.length,
+    });
+    await importBatchRepository.createRows(
+      voucherNos.map((voucherNo, index) => ({
+        batchId: batch.id,
+        rowNo: index + 1,
+        values: {
+          voucherNo,
+          transactionDate: "2025-06-30",
+          accountCode: "4110",
+          accountName: "売上高",
+          amount: "100000",
+          debitCredit: "credit",
+          description: "保守費用",
+        },
+      }))
+    );
+    return batch;
+  };
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await resetTestDb(testDb);
+  });
+
+  it("反映したGLデータを取消で削除し、反映・取消は1回のみ受け付ける", async () => {
+    const batch = await stageGLBatch();
+
+    const committed = await service.commit(batch.id, user);
+    expect(committed.status).toBe("committed");
+    expect(committed.committedByUserId).toBe("user-1");
+    expect(committed.result?.importedRows).toBe(2);
+    expect(await testDb.select().from(glEntries)).toHaveLength(2);
+
+    await expect(service.commit(batch.id, user)).rejects.toMatchObject({ statusCode: 409 });
+    expect(await testDb.select().from(glEntries)).toHaveLength(2);
+
+    const reverted = await service.revert(batch.id, user);
+    expect(reverted.status).toBe("reverted");
+    expect(reverted.result?.revertedRows).toBe(2);
+    expect(await testDb.select().from(glEntries)).toHaveLength(0);
+
+    await expect(service.revert(batch.id, user)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it("同じ期間を後から反映した取込バッチがある場合は、先に反映した取込バッチを取り消さない", async () => {
+    const firstBatch = await stageGLBatch();
+    await service.commit(firstBatch.id, user);
+    // 後の取込ではV001・V002は自然キーが一致して引き継がれ、V003のみ追加される
+    const laterBatch = await stageGLBatch(["V001", "V002", "V003"]);
+    const committed = await service.commit(laterBatch.id, user);
+    expect(committed.result).toMatchObject({
+      insertedRows: 1,
+      unchangedRows: 2,
+      periods: ["2025-06"],
+    });
+
+    await expect(service.revert(firstBatch.id, user)).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(await testDb.select().from(glEntries)).toHaveLength(3);
+    expect((await importBatchRepository.findById(firstBatch.id))?.status).toBe("committed");
+
+    // 後の取込バッチを先に取り消せば、先の取込バッチも取り消せる
+    expect((await service.revert(laterBatch.id, user)).result?.revertedRows).toBe(1);
+    expect((await service.revert(firstBatch.id, user)).result?.revertedRows).toBe(2);
+    expect(await testDb.select().from(glEntries)).toHaveLength(0);
+  });
+
+  it("状態の確認後に破棄された取込バッチは反映せず409を返す", async () => {
+    const batch = await stageGLBatch();
+    await service.discard(batch.id);
+
+    // 状態の確認時点では確認中だった（確認と反映の間に破棄された）ものとする
+    vi.spyOn(importBatchRepository, "findById").mockResolvedValue(batch);
+
+    await expect(service.commit(batch.id, user)).rejects.toMatchObject({ statusCode: 409 });
+
+    vi.mocked(importBatchRepository.findById).mockRestore();
+    expect((await importBatchRepository.findById(batch.id))?.status).toBe("discarded");
+    expect(await testDb.select().from(glEntries)).toHaveLength(0);
+  });
+});
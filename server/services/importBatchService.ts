@@ -0,0 +1,609 @@
+/**
+ * 取込バッチ（ステージング）管理サービス
+ *
+ * 責務:
+ * - CSV・XLSXの取込内容の取込バッチへの登録と行ごとの検証
+ * - 取込バッチ明細の修正・取込対象外の設定
+ * - 取込バッチの一括反映・破棄・反映後の取消
+ */
+
+import type {
+  CreateGLEntryData,
+  GLVoucherExclusionData,
+  ImportBatch,
+  ImportBatchResult,
+  ImportBatchRow,
+  ImportBatchType,
+  ImportRowValues,
+  NewImportBatchRow,
+} from "@shared/schema/integrated";
+
+import { db, type DbExecutor } from "../db";
+import { AppError } from "../middleware/errorHandler";
+import { type ImportBatchFilter, ImportBatchRepository } from "../storage/importBatch";
+import { AccountingPeriodService, type PeriodLockOverrideRequest } from "./accountingPeriodService";
+import {
+  type ForecastImportRowValues,
+  ForecastImportService,
+  type ForecastImportType,
+  type ValidatedForecastRow,
+} from "./forecastImportService";
+import { GLEntryService } from "./glEntryService";
+import { GLImportProfileService, type GLImportRowValues } from "./glImportProfileService";
+import type { ImportFileSource } from "./spreadsheetService";
+
+/** 取込バッチの操作ユーザー */
+interface ImportBatchUser {
+  userId: string;
+  employeeId?: string;
+}
+
+/** 取込バッチ明細の検証結果 */
+type ImportRowValidation =
+  | { glEntry: CreateGLEntryData }
+  | { forecast: ValidatedForecastRow }
+  | { error: string };
+
+export class ImportBatchService {
+  constructor(
+    private importBatchRepository: ImportBatchRepository,
+    private glEntryService: GLEntryService,
+    private glImportProfileService: GLImportProfileService,
+    private forecastImportService: ForecastImportService,
+    private accountingPeriodService: AccountingPeriodService
+  ) {}
+
+  /**
+   * 取込バッチ一覧取得
+   *
+   * @param filter - 取込の種類・状態
+   * @returns 取込バッチ一覧（新しい順）
+   */
+  async getBatches(filter: ImportBatchFilter = {}): Promise<ImportBatch[]> {
+    try {
+      return await this.importBatchRepository.findAll(filter);
+    } catch (error) {
+      console.error("取込バッチ一覧取得エラー:", error);
+      throw new AppError("取込バッチ一覧の取得中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 取込バッチ詳細取得
+   *
+   * @param id - 取込バッチID
+   * @returns 取込バッチと明細
+   * @throws AppError - 取込バッチが存在しない場合
+   */
+  async getBatch(id: string): Promise<{ batch: ImportBatch; rows: ImportBatchRow[] }> {
+    try {
+      const batch = await this.findBatchOrThrow(id);
+      const rows = await this.importBatchRepository.findRows(id);
+      return { batch, rows };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("取込バッチ取得エラー:", error);
+      throw new AppError("取込バッチの取得中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 取込ファイルのステージング
+   *
+   * @description ファイルの各行を検証して取込バッチに登録する（この時点ではGLデータ・受注見込み等には反映しない）
+   * @param fileBuffer - CSV・XLSXファイルのバッファ
+   * @param fileName - 取込ファイル名
+   * @param importType - 取込の種類
+   * @param options - 取込対象年度（受注見込み・角度B案件）、GL取込プロファイルID、取込ファイルの形式
+   * @param user - 取込ユーザー
+   * @returns 登録した取込バッチ
+   * @throws AppError - ファイルを解釈できない場合、取込対象年度が未指定の場合
+   */
+  async stage(
+    fileBuffer: Buffer,
+    fileName: string,
+    importType: ImportBatchType,
+    options: { fiscalYear?: number; profileId?: string; source: ImportFileSource },
+    user: ImportBatchUser
+  ): Promise<ImportBatch> {
+    try {
+      const closedPeriods = await this.accountingPeriodService.getClosedPeriods();
+      const rows: Array<Omit<NewImportBatchRow, "batchId">> = [];
+      let sheetName: string | undefined = options.source.sheetName;
+      let targetAccountCodes: string[] = [];
+      let voucherExclusions: GLVoucherExclusionData[] | null = null;
+
+      if (importType === "gl-entries") {
+        // プロファイル設定に従って解釈（対象科目外・金額0の行は明細にしない）
+        const settings = await this.glImportProfileService.resolveSettings(options.profileId);
+        const parsed = await this.glImportProfileService.parseFile(
+          fileBuffer,
+          settings,
+          options.source
+        );
+        sheetName = parsed.sheetName;
+        targetAccountCodes = parsed.accountCodes;
+        voucherExclusions = parsed.voucherExclusions;
+
+        for (const { row, entry, values } of parsed.entries) {
+          const errorMessage = this.getClosedPeriodError(entry.period, closedPeriods);
+          rows.push({
+            rowNo: row,
+            values,
+            status: errorMessage ? "error" : "valid",
+            errorMessage,
+          });
+        }
+        for (const { row, message, values } of parsed.errors) {
+          rows.push({ rowNo: row, values, status: "error", errorMessage: message });
+        }
+        rows.sort((a, b) => a.rowNo - b.rowNo);
+      } else {
+        if (!options.fiscalYear) {
+          throw new AppError("取込対象年度を指定してください", 400);
+        }
+
+        const rawRows = await this.forecastImportService.readRows(fileBuffer, options.source);
+        for (const { rowIndex, values } of rawRows) {
+          const validated = await this.forecastImportService.validateRow(
+            values,
+            options.fiscalYear,
+            closedPeriods
+          );
+          rows.push({
+            rowNo: rowIndex,
+            values,
+            status: "error" in validated ? "error" : "valid",
+            errorMessage: "error" in validated ? validated.error : null,
+          });
+        }
+      }
+
+      return await db.transaction(async (tx) => {
+        const batch = await this.importBatchRepository.create(
+          {
+            importType,
+            fileName,
+            sheetName: options.source.fileType === "xlsx" ? (sheetName ?? null) : null,
+            fiscalYear: importType === "gl-entries" ? null : options.fiscalYear,
+            profileId: importType === "gl-entries" ? (options.profileId ?? null) : null,
+            targetAccountCodes: targetAccountCodes.length > 0 ? targetAccountCodes.join(",") : null,
+            voucherExclusions,
+            totalRows: rows.length,
+            validRows: rows.filter((row) => row.status === "valid").length,
+            errorRows: rows.filter((row) => row.status === "error").length,
+            createdByUserId: user.userId,
+            createdByEmployeeId: user.employeeId,
+          },
+          tx
+        );
+        await this.importBatchRepository.createRows(
+          rows.map((row) => ({ ...row, batchId: batch.id })),
+          tx
+        );
+
+        return batch;
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("取込バッチ登録エラー:", error);
+      throw new AppError("取込ファイルの読込中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 取込バッチ明細の修正・取込対象外の設定
+   *
+   * @description 値を修正した場合は再検証する。取込対象外にした行は反映されない
+   * @param batchId - 取込バッチID
+   * @param rowId - 取込バッチ明細ID
+   * @param data - 修正後の値、取込対象外フラグ
+   * @returns 更新後の明細
+   * @throws AppError - 取込バッチ・明細が存在しない場合、確認中でない場合
+   */
+  async updateRow(
+    batchId: string,
+    rowId: string,
+    data: { values?: ImportRowValues; excluded?: boolean }
+  ): Promise<ImportBatchRow> {
+    try {
+      const batch = await this.findBatchOrThrow(batchId);
+      this.assertStatus(batch, "staged", "確認中の取込バッチのみ修正できます");
+
+      const row = await this.importBatchRepository.findRowById(rowId);
+      if (!row || row.batchId !== batchId) {
+        throw new AppError("取込バッチの明細が見つかりません", 404);
+      }
+
+      const values = { ...row.values, ...data.values };
+      const excluded = data.excluded ?? row.status === "excluded";
+      const closedPeriods = await this.accountingPeriodService.getClosedPeriods();
+      const validated = await this.validateRow(batch, values, closedPeriods);
+
+      const updated = await db.transaction(async (tx) => {
+        const result = await this.importBatchRepository.updateRow(
+          rowId,
+          {
+            values,
+            status: excluded ? "excluded" : "error" in validated ? "error" : "valid",
+            errorMessage: "error" in validated ? validated.error : null,
+          },
+          tx
+        );
+        await this.refreshCounts(batchId, tx);
+        return result;
+      });
+
+      return updated!;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("取込バッチ明細更新エラー:", error);
+      throw new AppError("取込バッチ明細の更新中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 取込バッチの反映
+   *
+   * @description 反映直前に全行を再検証し、エラーの行が残っている場合は反映しない。
+   * GLは自然キーで既存データと照合して登録し、全行が取込対象の場合のみファイルから消えた行を削除する。
+   * 登録したデータには取込バッチIDを設定する（取消に使用）
+   *
+   * @param batchId - 取込バッチID
+   * @param user - 反映するユーザー
+   * @param override - 締め済み期間への取込指定（管理者のみ）
+   * @returns 反映後の取込バッチ
+   * @throws AppError - 確認中でない場合、エラーの行が残っている場合、締め済みの期間を含む場合
+   */
+  async commit(
+    batchId: string,
+    user: ImportBatchUser,
+    override?: PeriodLockOverrideRequest
+  ): Promise<ImportBatch> {
+    try {
+      const batch = await this.findBatchOrThrow(batchId);
+      this.assertStatus(batch, "staged", "確認中の取込バッチのみ反映できます");
+
+      // 締め済み期間の状態や参照マスタが変わっている可能性があるため全行を再検証
+      const rows = await this.importBatchRepository.findRows(batchId);
+      const closedPeriods = await this.accountingPeriodService.getClosedPeriods();
+      const validations = new Map<string, ImportRowValidation>();
+      for (const row of rows) {
+        if (row.status !== "excluded") {
+          validations.set(
+            row.id,
+            await this.validateRow(batch, row.values, closedPeriods, override)
+          );
+        }
+      }
+
+      // 再検証の結果を明細に反映
+      let errorCount = 0;
+      await db.transaction(async (tx) => {
+        for (const row of rows) {
+          const validation = validations.get(row.id);
+          if (!validation) {
+            continue;
+          }
+          const status = "error" in validation ? "error" : "valid";
+          const errorMessage = "error" in validation ? validation.error : null;
+          if (status === "error") {
+            errorCount++;
+          }
+          if (row.status !== status || row.errorMessage !== errorMessage) {
+            await this.importBatchRepository.updateRow(row.id, { status, errorMessage }, tx);
+          }
+        }
+        await this.refreshCounts(batchId, tx);
+      });
+
+      if (errorCount > 0) {
+        throw new AppError(
+          `エラーの行が${errorCount}件あるため反映できません。修正するか取込対象外にしてください`,
+          400
+        );
+      }
+
+      const committed = await db.transaction(async (tx) => {
+        // 同時に反映・破棄された場合に二重に反映しないよう、確認中の場合のみ反映済にする
+        await this.transitionStatus(
+          batchId,
+          "staged",
+          { status: "committed", committedAt: new Date(), committedByUserId: user.userId },
+          "確認中の取込バッチのみ反映できます",
+          tx
+        );
+
+        let result: ImportBatchResult;
+        const validRows = Array.from(validations.values());
+
+        if (batch.importType === "gl-entries") {
+          const entries = validRows.flatMap((validation) =>
+            "glEntry" in validation ? [validation.glEntry] : []
+          );
+          // 取込対象外の行がある場合はファイルから消えた行と区別できないため削除は行わない
+          const applied = await this.glEntryService.applyImportEntries(
+            entries,
+            {
+              accountCodes: batch.targetAccountCodes ? batch.targetAccountCodes.split(",") : [],
+              removeMissing: entries.length === rows.length,
+              importBatchId: batchId,
+              voucherExclusions: batch.voucherExclusions ?? undefined,
+            },
+            override,
+            tx
+          );
+          const { voucherCheck, anomalyScan, ...counts } = applied;
+          result = {
+            importedRows: entries.length,
+            ...counts,
+            ...voucherCheck,
+            openAnomalies: anomalyScan.openAnomalies,
+            periods: Array.from(new Set(entries.map((entry) => entry.period))).sort(),
+          };
+        } else {
+          const forecasts = validRows.flatMap((validation) =>
+            "forecast" in validation ? [validation.forecast] : []
+          );
+          const importedRows = await this.forecastImportService.insertRows(
+            batch.importType as ForecastImportType,
+            forecasts,
+            {
+              userId: batch.createdByUserId ?? user.userId,
+              employeeId: batch.createdByEmployeeId ?? undefined,
+            },
+            override,
+            batchId,
+            tx
+          );
+          result = { importedRows };
+        }
+
+        return await this.importBatchRepository.update(batchId, { result }, tx);
+      });
+
+      return committed!;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("取込バッチ反映エラー:", error);
+      throw new AppError("取込バッチの反映中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 取込バッチの破棄
+   *
+   * @param batchId - 取込バッチID
+   * @returns 破棄後の取込バッチ
+   * @throws AppError - 確認中でない場合
+   */
+  async discard(batchId: string): Promise<ImportBatch> {
+    try {
+      const batch = await this.findBatchOrThrow(batchId);
+      this.assertStatus(batch, "staged", "確認中の取込バッチのみ破棄できます");
+
+      return await this.transitionStatus(
+        batchId,
+        "staged",
+        { status: "discarded" },
+        "確認中の取込バッチのみ破棄できます"
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("取込バッチ破棄エラー:", error);
+      throw new AppError("取込バッチの破棄中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 反映済み取込バッチの取消
+   *
+   * @description 取込バッチで追加したデータを削除する（GLの突合は解除する）。
+   * GLの再取込で更新・削除した既存データは元に戻らない。同じ期間を含むGLの取込バッチを後から反映している場合は取り消せない
+   *
+   * @param batchId - 取込バッチID
+   * @param user - 取り消すユーザー
+   * @param override - 締め済み期間の変更指定（管理者のみ）
+   * @returns 取消後の取込バッチ
+   * @throws AppError - 反映済みでない場合、後から同じ期間のGLを反映している場合、締め済みの期間を含む場合、突合済みの受注見込みを含む場合
+   */
+  async revert(
+    batchId: string,
+    user: ImportBatchUser,
+    override?: PeriodLockOverrideRequest
+  ): Promise<ImportBatch> {
+    try {
+      const batch = await this.findBatchOrThrow(batchId);
+      this.assertStatus(batch, "committed", "反映済みの取込バッチのみ取り消せます");
+
+      const reverted = await db.transaction(async (tx) => {
+        // 同時に取り消された場合に二重に取り消さないよう、反映済の場合のみ取消済にする
+        await this.transitionStatus(
+          batchId,
+          "committed",
+          { status: "reverted", revertedAt: new Date(), revertedByUserId: user.userId },
+          "反映済みの取込バッチのみ取り消せます",
+          tx
+        );
+
+        let result: ImportBatchResult;
+        if (batch.importType === "gl-entries") {
+          await this.assertNoLaterGLBatch(batch, tx);
+          const { removedRows, unmatchedCount } = await this.glEntryService.revertImportBatch(
+            batchId,
+            override,
+            tx
+          );
+          result = {
+            ...batch.result,
+            revertedRows: removedRows,
+            unmatchedCount: (batch.result?.unmatchedCount ?? 0) + unmatchedCount,
+          };
+        } else {
+          const revertedRows = await this.forecastImportService.revertImportBatch(
+            batch.importType as ForecastImportType,
+            batchId,
+            override,
+            tx
+          );
+          result = { ...batch.result, revertedRows };
+        }
+
+        return await this.importBatchRepository.update(batchId, { result }, tx);
+      });
+
+      return reverted!;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("取込バッチ取消エラー:", error);
+      throw new AppError("取込バッチの取消中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 取込バッチ明細の検証（プライベートメソッド）
+   *
+   * @description GLの日付は修正後の値を考慮して形式を自動判定する
+   */
+  private async validateRow(
+    batch: ImportBatch,
+    values: ImportRowValues,
+    closedPeriods: Set<string>,
+    override?: PeriodLockOverrideRequest
+  ): Promise<ImportRowValidation> {
+    if (batch.importType === "gl-entries") {
+      const validated = this.glImportProfileService.validateRowValues(
+        values as GLImportRowValues,
+        "auto"
+      );
+      if ("error" in validated) {
+        return validated;
+      }
+
+      const closedError = override
+        ? null
+        : this.getClosedPeriodError(validated.entry.period, closedPeriods);
+      return closedError ? { error: closedError } : { glEntry: validated.entry };
+    }
+
+    const validated = await this.forecastImportService.validateRow(
+      values as ForecastImportRowValues,
+      batch.fiscalYear ?? 0,
+      closedPeriods,
+      override
+    );
+    return "error" in validated ? validated : { forecast: validated.data };
+  }
+
+  /**
+   * 締め済み期間のエラーメッセージ（プライベートメソッド）
+   */
+  private getClosedPeriodError(period: string, closedPeriods: Set<string>): string | null {
+    return closedPeriods.has(period) ? `期間 ${period} は締め済みのため取り込めません` : null;
+  }
+
+  /**
+   * 取込バッチの明細件数の再集計（プライベートメソッド）
+   */
+  private async refreshCounts(batchId: string, executor: DbExecutor): Promise<void> {
+    const counts = await this.importBatchRepository.countRowsByStatus(batchId, executor);
+    await this.importBatchRepository.update(
+      batchId,
+      {
+        totalRows: Object.values(counts).reduce((sum, count) => sum + count, 0),
+        validRows: counts.valid ?? 0,
+        errorRows: counts.error ?? 0,
+        excludedRows: counts.excluded ?? 0,
+      },
+      executor
+    );
+  }
+
+  /**
+   * 取込バッチの取得（存在しない場合はエラー）（プライベートメソッド）
+   */
+  private async findBatchOrThrow(id: string): Promise<ImportBatch> {
+    const batch = await this.importBatchRepository.findById(id);
+    if (!batch) {
+      throw new AppError("取込バッチが見つかりません", 404);
+    }
+    return batch;
+  }
+
+  /**
+   * 取込バッチの状態遷移（プライベートメソッド）
+   *
+   * @description 現在の状態が想定どおりの場合のみ更新する（確認と更新の間に他の操作で状態が変わった場合もエラーにする）
+   * @throws AppError - 状態が一致しない場合
+   */
+  private async transitionStatus(
+    batchId: string,
+    expectedStatus: string,
+    data: Partial<ImportBatch>,
+    message: string,
+    executor: DbExecutor = db
+  ): Promise<ImportBatch> {
+    const updated = await this.importBatchRepository.updateIfStatusMatches(
+      batchId,
+      expectedStatus,
+      data,
+      executor
+    );
+    if (!updated) {
+      throw new AppError(message, 409);
+    }
+    return updated;
+  }
+
+  /**
+   * 同じ期間を含むGLの取込バッチが後から反映されていないことを確認（プライベートメソッド）
+   *
+   * @description 後の取込で自然キーが一致して引き継がれた行（突合を含む）まで削除しないよう、
+   * 後の取込バッチを先に取り消す必要がある。反映した期間を記録していない取込バッチは期間が重なるものとして扱う
+   */
+  private async assertNoLaterGLBatch(batch: ImportBatch, executor: DbExecutor): Promise<void> {
+    if (!batch.committedAt) {
+      return;
+    }
+
+    const laterBatches = await this.importBatchRepository.findCommittedSince(
+      batch.importType,
+      batch.committedAt,
+      batch.id,
+      executor
+    );
+    const periods = batch.result?.periods;
+    for (const laterBatch of laterBatches) {
+      const laterPeriods = laterBatch.result?.periods;
+      const overlapping =
+        periods && laterPeriods ? laterPeriods.filter((period) => periods.includes(period)) : null;
+      if (overlapping === null || overlapping.length > 0) {
+        throw new AppError(
+          `後から反映した取込バッチ（${laterBatch.fileName}）が同じ期間${overlapping ? `（${overlapping.join("、")}）` : ""}を含むため取り消せません。先に後の取込バッチを取り消してください`,
+          409
+        );
+      }
+    }
+  }
+
+  /**
+   * 取込バッチの状態確認（プライベートメソッド）
+   */
+  private assertStatus(batch: ImportBatch, status: string, message: string): void {
+    if (batch.status !== status) {
+      throw new AppError(message, 409);
+    }
+  }
+}
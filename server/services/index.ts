@@ -13,18 +13,60 @@ export { ProjectService } from "./projectService";
 // 受発注データ管理サービス
 export { OrderForecastService } from "./orderForecastService";
 
+// 受発注データ変更履歴サービス
+export { OrderForecastHistoryService } from "./orderForecastHistoryService";
+
+// 定期売上テンプレート・受発注データ生成サービス
+export { RecurringForecastService } from "./recurringForecastService";
+
+// 分割計上サービス
+export { ForecastSplitService } from "./forecastSplitService";
+
 // 角度B案件管理サービス
 export { AngleBForecastService } from "./angleBForecastService";
 
 // GL総勘定元帳管理サービス
 export { GLEntryService } from "./glEntryService";
 
+// GL伝票の貸借チェックサービス
+export { GLVoucherCheckService } from "./glVoucherCheckService";
+
+// GLデータの異常検知サービス
+export { GLAnomalyService } from "./glAnomalyService";
+
+// GL試算表・勘定科目元帳サービス
+export { GLLedgerService } from "./glLedgerService";
+
+// 見込み・実績・予算の差異分析サービス
+export { VarianceAnalysisService } from "./varianceAnalysisService";
+
+// 見込み精度評価サービス
+export { ForecastAccuracyService } from "./forecastAccuracyService";
+
+// GL CSV取込プロファイル管理サービス
+export { GLImportProfileService } from "./glImportProfileService";
+
+// 取込バッチ（ステージング）管理サービス
+export { ImportBatchService } from "./importBatchService";
+
 // 突合処理管理サービス
 export { ReconciliationService } from "./reconciliationService";
 
+// 突合差異レポートサービス
+export { ReconciliationReportService } from "./reconciliationReportService";
+
+// 突合ルール管理サービス
+export { ReconciliationRuleService } from "./reconciliationRuleService";
+
+// 突合エイリアス管理サービス
+export { ReconciliationAliasService } from "./reconciliationAliasService";
+
 // 会計項目管理サービス
 export { AccountingItemService } from "./accountingItemService";
 
+// 会計期間（月度締め）管理サービス
+export { AccountingPeriodService } from "./accountingPeriodService";
+
 // アイテム管理サービス
 export { ItemService } from "./itemService";
 
@@ -0,0 +1,112 @@
+import type { OrderForecast, OrderForecastHistoryListItem } from "@shared/schema/integrated";
+import {
+  ORDER_FORECAST_HISTORY_FIELDS,
+  type OrderForecastFieldChange,
+  type OrderForecastHistoryAction,
+  type OrderForecastHistorySnapshot,
+} from "@shared/schema/orderForecast";
+
+import { db, type DbExecutor } from "../db";
+import { AppError } from "../middleware/errorHandler";
+import { OrderForecastRepository } from "../storage/orderForecast";
+
+/**
+ * 変更履歴に記録する操作者
+ */
+export interface OrderForecastHistoryActor {
+  userId?: string | null;
+  employeeId?: string | null;
+}
+
+/**
+ * 受発注データ変更履歴サービスクラス
+ *
+ * @description 受発注データの操作ごとに項目単位の変更前後の値を記録する
+ * @responsibility 変更履歴の記録・取得（作成・更新・削除・除外設定・昇格・降格の各処理から呼び出される）
+ */
+export class OrderForecastHistoryService {
+  constructor(private orderForecastRepository: OrderForecastRepository) {}
+
+  /**
+   * 変更履歴を記録
+   *
+   * @param action - 操作種別
+   * @param before - 操作前の受発注データ（作成・昇格の場合はnull）
+   * @param after - 操作後の受発注データ（削除・降格の場合はnull）
+   * @param actor - 操作者
+   * @param executor - トランザクション（操作と同じトランザクションで記録する）
+   */
+  async record(
+    action: OrderForecastHistoryAction,
+    before: OrderForecast | null,
+    after: OrderForecast | null,
+    actor: OrderForecastHistoryActor,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    const target = after ?? before;
+    if (!target) {
+      return;
+    }
+
+    const beforeSnapshot = before ? this.toSnapshot(before) : null;
+    const afterSnapshot = after ? this.toSnapshot(after) : null;
+    const snapshot = afterSnapshot ?? this.toSnapshot(target);
+    const changes: OrderForecastFieldChange[] = ORDER_FORECAST_HISTORY_FIELDS.map((field) => ({
+      field,
+      before: beforeSnapshot ? beforeSnapshot[field] : null,
+      after: afterSnapshot ? afterSnapshot[field] : null,
+    })).filter((change) => change.before !== change.after);
+
+    // 値の変わらない更新は記録しない
+    if ((action === "update" || action === "restore") && changes.length === 0) {
+      return;
+    }
+
+    await this.orderForecastRepository.createHistory(
+      {
+        orderForecastId: target.id,
+        action,
+        changes,
+        snapshot,
+        version: after ? after.version : null,
+        changedByUserId: actor.userId ?? null,
+        changedByEmployeeId: actor.employeeId ?? null,
+      },
+      executor
+    );
+  }
+
+  /**
+   * 受発注データの変更履歴を取得
+   *
+   * @param orderForecastId - 受発注データID
+   * @returns 変更履歴（新しい順、変更者名付き）
+   */
+  async getHistory(orderForecastId: string): Promise<OrderForecastHistoryListItem[]> {
+    try {
+      return await this.orderForecastRepository.findHistoriesByOrderForecastId(orderForecastId);
+    } catch (error) {
+      console.error("受発注データ変更履歴取得エラー:", error);
+      throw new AppError("変更履歴の取得中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 変更履歴に記録する値を取り出す（プライベートメソッド）
+   * 金額は小数点以下の表記ゆれ（"1000" と "1000.00"）を差分としないよう正規化する
+   */
+  private toSnapshot(orderForecast: OrderForecast): OrderForecastHistorySnapshot {
+    const snapshot = {} as OrderForecastHistorySnapshot;
+    for (const field of ORDER_FORECAST_HISTORY_FIELDS) {
+      const value = orderForecast[field];
+      if (value === null || value === undefined) {
+        snapshot[field] = null;
+      } else if (field === "amount") {
+        snapshot[field] = Number(value).toFixed(2);
+      } else {
+        snapshot[field] = String(value);
+      }
+    }
+    return snapshot;
+  }
+}
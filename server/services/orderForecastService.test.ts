@@ -0,0 +1,290 @@
+import { accountingItems, orderForecastHistories, orderForecasts } from "@shared/schema";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../db";
+import { AccountingItemRepository } from "../storage/accountingItem";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
+import { AngleBForecastRepository } from "../storage/angleBForecast";
+import { GLEntryRepository } from "../storage/glEntry";
+import { OrderForecastRepository } from "../storage/orderForecast";
+import { ProjectRepository } from "../storage/project";
+import { insertOrderForecast, insertProject } from "../testing/fixtures";
+import { resetTestDb, type TestDb } from "../testing/testDb";
+import { AccountingPeriodService } from "./accountingPeriodService";
+import { OrderForecastHistoryService } from "./orderForecastHistoryService";
+import { OrderForecastService } from "./orderForecastService";
+
+vi.mock("../db", async () => {
+  const { createTestDb } = await import("../testing/testDb");
+  return await createTestDb();
+});
+
+const testDb = db as unknown as TestDb;
+
+describe("受発注データの一括保存", () => {
+  const orderForecastRepository = new OrderForecastRepository();
+  const service = new OrderForecastService(
+    orderForecastRepository,
+    new ProjectRepository(),
+    new GLEntryRepository(),
+    new AccountingItemRepository(),
+    new AngleBForecastRepository(),
+    new AccountingPeriodService(new AccountingPeriodRepository()),
+    new OrderForecastHistoryService(orderForecastRepository)
+  );
+  const actor = { userId: "user-1" };
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await resetTestDb(testDb);
+  });
+
+  it("除外設定の変更を更新と同じトランザクションで保存し、除外の変更履歴を記録する", async () => {
+    const orderForecast = await insertOrderForecast(testDb);
+
+    const { updated } = await service.bulkOperation(
+      {
+        create: [],
+        update: [
+          {
+            id: orderForecast.id,
+            version: orderForecast.version,
+            data: { description: "保守費用（6月分）" },
+            isExcluded: true,
+            exclusionReason: "手動除外",
+          },
+        ],
+        delete: [],
+      },
+      actor
+    );
+
+    expect(updated[0]).toMatchObject({
+      description: "保守費用（6月分）",
+      isExcluded: "true",
+      exclusionReason: "手動除外",
+      version: orderForecast.version + 2,
+    });
+    const histories = await testDb.select().from(orderForecastHistories);
+    expect(histories.map((history) => history.action).sort()).toEqual(["exclude", "update"]);
+  });
+
+  it("突合済の明細の除外は行ごとのエラーにし、同じ保存の他の行も保存しない", async () => {
+    const project = await insertProject(testDb);
+    const matched = await insertOrderForecast(testDb, {
+      projectId: project.id,
+      reconciliationStatus: "matched",
+    });
+    const other = await insertOrderForecast(testDb, { projectId: project.id });
+
+    const error = await service
+      .bulkOperation(
+        {
+          create: [
+            {
+              projectId: project.id,
+              projectCode: "P001",
+              projectName: "テストプロジェクト",
+              accountingPeriod: "2025-07",
+              accountingItem: "売上高",
+              description: "保守費用",
+              amount: "100000.00",
+              period: "2025-07",
+            },
+          ],
+          update: [
+            {
+              id: other.id,
+              version: other.version,
+              data: { amount: "120000.00" },
+            },
+            {
+              id: matched.id,
+              version: matched.version,
+              data: {},
+              isExcluded: true,
+              exclusionReason: "手動除外",
+            },
+          ],
+          delete: [],
+        },
+        actor
+      )
+      .catch((caught: unknown) => caught);
+
+    expect(error).toMatchObject({
+      statusCode: 400,
+      errors: [
+        {
+          operation: "update",
+          index: 1,
+          id: matched.id,
+          message: "突合済の明細は除外できません。先に突合を解除してください",
+        },
+      ],
+    });
+    expect(await testDb.select().from(orderForecasts)).toHaveLength(2);
+    expect((await orderForecastRepository.findById(other.id))?.amount).toBe("100000.00");
+    expect(await testDb.select().from(orderForecastHistories)).toHaveLength(0);
+  });
+
+  it("削除する行のバージョンが古い場合は競合として最新データを返し、削除しない", async () => {
+    const orderForecast = await insertOrderForecast(testDb);
+    const latest = await orderForecastRepository.update(orderForecast.id, {
+      amount: "150000.00",
+    });
+
+    const error = await service
+      .bulkOperation(
+        {
+          create: [],
+          update: [],
+          delete: [{ id: orderForecast.id, version: orderForecast.version }],
+        },
+        actor
+      )
+      .catch((caught: unknown) => caught);
+
+    expect(error).toMatchObject({
+      statusCode: 409,
+      errors: [],
+      conflicts: [{ id: orderForecast.id, current: { version: latest?.version } }],
+    });
+    expect(await orderForecastRepository.findById(orderForecast.id)).not.toBeNull();
+  });
+
+  it("チェック後に他のユーザーが更新した場合は、トランザクション内で取得した最新データを競合として返す", async () => {
+    const orderForecast = await insertOrderForecast(testDb);
+    const deleted = await insertOrderForecast(testDb, { description: "開発費用" });
+    // バージョンの確認後、更新前に他のユーザーが更新したものとする
+    vi.spyOn(orderForecastRepository, "updateIfVersionMatches").mockResolvedValueOnce(null);
+
+    const error = await service
+      .bulkOperation(
+        {
+          create: [],
+          update: [
+            {
+              id: orderForecast.id,
+              version: orderForecast.version,
+              data: { amount: "120000.00" },
+            },
+          ],
+          delete: [{ id: deleted.id, version: deleted.version }],
+        },
+        actor
+      )
+      .catch((caught: unknown) => caught);
+
+    expect(error).toMatchObject({
+      statusCode: 409,
+      conflicts: [{ id: orderForecast.id, current: { id: orderForecast.id } }],
+    });
+    // 先に実行した削除も取り消される
+    expect(await orderForecastRepository.findById(deleted.id)).not.toBeNull();
+    expect(await testDb.select().from(orderForecastHistories)).toHaveLength(0);
+  });
+  it("同じ受発注データを複数の行に指定した場合は行ごとのエラーにし、何も保存しない", async () => {
+    const orderForecast = await insertOrderForecast(testDb);
+    const other = await insertOrderForecast(testDb, { description: "開発費用" });
+
+    const error = await service
+      .bulkOperation(
+        {
+          create: [],
+          update: [
+            {
+              id: orderForecast.id,
+              version: orderForecast.version,
+              data: { amount: "120000.00" },
+            },
+            {
+              id: orderForecast.id,
+              version: orderForecast.version,
+              data: {},
+              isExcluded: true,
+            },
+          ],
+          delete: [
+            { id: orderForecast.id, version: orderForecast.version },
+            { id: other.id, version: other.version },
+            { id: other.id, version: other.version },
+          ],
+        },
+        actor
+      )
+      .catch((caught: unknown) => caught);
+
+    expect(error).toMatchObject({
+      statusCode: 400,
+      errors: [
+        { operation: "update", index: 1, id: orderForecast.id },
+        { operation: "delete", index: 0, id: orderForecast.id },
+        { operation: "delete", index: 2, id: other.id },
+      ],
+      conflicts: [],
+    });
+    expect(await testDb.select().from(orderForecasts)).toHaveLength(2);
+    expect((await orderForecastRepository.findById(orderForecast.id))?.version).toBe(
+      orderForecast.version
+    );
+  });
+});
+
+describe("営業担当者別サマリ", () => {
+  const orderForecastRepository = new OrderForecastRepository();
+  const service = new OrderForecastService(
+    orderForecastRepository,
+    new ProjectRepository(),
+    new GLEntryRepository(),
+    new AccountingItemRepository(),
+    new AngleBForecastRepository(),
+    new AccountingPeriodService(new AccountingPeriodRepository()),
+    new OrderForecastHistoryService(orderForecastRepository)
+  );
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    await resetTestDb(testDb);
+    // 計上区分マスタの初期設定と同じ集計区分・符号
+    await testDb.insert(accountingItems).values([
+      { code: "511", name: "保守売上", category: "revenue", sign: 1 },
+      { code: "541", name: "仕入高", category: "costOfSales", sign: 1 },
+      { code: "740", name: "支払保守料", category: "sgaExpenses", sign: 1 },
+      { code: "745", name: "外注加工費", category: "sgaExpenses", sign: 1 },
+      { code: "1200", name: "期首商品棚卸高", category: "inventoryAdjustment", sign: 1 },
+      { code: "1400", name: "期末商品棚卸高", category: "inventoryAdjustment", sign: -1 },
+    ]);
+  });
+
+  it("売上原価は仕入高と棚卸調整で集計し、支払保守料・外注加工費は含めない", async () => {
+    const project = await insertProject(testDb);
+    for (const [accountingItem, amount] of [
+      ["保守売上", "1000000.00"],
+      ["仕入高", "300000.00"],
+      ["外注加工費", "100000.00"],
+      ["支払保守料", "50000.00"],
+      ["期首商品棚卸高", "20000.00"],
+      ["期末商品棚卸高", "30000.00"],
+    ]) {
+      await insertOrderForecast(testDb, { projectId: project.id, accountingItem, amount });
+    }
+
+    const { summaries } = await service.getSalesPersonSummary(2025);
+
+    expect(summaries).toEqual([
+      {
+        salesPerson: "営業担当",
+        serviceType: "保守",
+        analysisType: "ストック",
+        revenueWithAngleB: 1000000,
+        costOfSalesWithAngleB: 290000,
+        grossProfitWithAngleB: 710000,
+        revenueWithoutAngleB: 1000000,
+        costOfSalesWithoutAngleB: 290000,
+        grossProfitWithoutAngleB: 710000,
+      },
+    ]);
+  });
+});
@@ -1,21 +1,53 @@
+import { type AccountingSummaryCategory, toSummaryCategory } from "@shared/schema/accountingItem";
 import {
   CreateOrderForecastData,
   OrderForecast,
+  OrderForecastBulkConflict,
   OrderForecastFilter,
   UpdateOrderForecastData,
 } from "@shared/schema/integrated";
 import type {
   AccountingItemMonthlySummary,
   MonthlySummaryResponse,
+  OrderForecastBulkOperation,
+  OrderForecastBulkRowError,
 } from "@shared/schema/orderForecast";
 
 import { db } from "../db";
-import { AppError } from "../middleware/errorHandler";
+import { AppError, BulkOperationError, VersionConflictError } from "../middleware/errorHandler";
 import { AccountingItemRepository } from "../storage/accountingItem";
 import { AngleBForecastRepository } from "../storage/angleBForecast";
 import { GLEntryRepository } from "../storage/glEntry";
 import { OrderForecastRepository } from "../storage/orderForecast";
 import { ProjectRepository } from "../storage/project";
+import { AccountingPeriodService, type PeriodLockOverrideRequest } from "./accountingPeriodService";
+import {
+  type OrderForecastHistoryActor,
+  OrderForecastHistoryService,
+} from "./orderForecastHistoryService";
+
+// 楽観ロックの競合時のメッセージ
+const VERSION_CONFLICT_MESSAGE =
+  "他のユーザーが先に更新したため保存できませんでした。最新の内容を確認してください";
+
+// 突合済・曖昧一致の明細を除外しようとした場合のメッセージ
+// （GL側・突合リンクと整合しなくなるため、突合を解除してから除外する）
+const RECONCILED_EXCLUSION_MESSAGE = "突合済の明細は除外できません。先に突合を解除してください";
+
+// 変更履歴から復元する項目
+const RESTORABLE_FIELDS = [
+  "projectId",
+  "projectCode",
+  "projectName",
+  "customerId",
+  "customerCode",
+  "customerName",
+  "accountingPeriod",
+  "accountingItem",
+  "description",
+  "amount",
+  "remarks",
+] as const;
 
 /**
  * 受発注データ管理サービスクラス
@@ -29,7 +61,9 @@ export class OrderForecastService {
     private projectRepository: ProjectRepository,
     private glEntryRepository: GLEntryRepository,
     private accountingItemRepository: AccountingItemRepository,
-    private angleBForecastRepository: AngleBForecastRepository
+    private angleBForecastRepository: AngleBForecastRepository,
+    private accountingPeriodService: AccountingPeriodService,
+    private orderForecastHistoryService: OrderForecastHistoryService
   ) {}
 
   /**
@@ -148,14 +182,22 @@ export class OrderForecastService {
    *
    * @param data - 受発注データ作成データ
    * @param user - 作成者ユーザー情報
+   * @param override - 締め済み期間の変更指定（管理者のみ）
    * @returns 作成された受発注データ情報
-   * @throws AppError - プロジェクト不存在時
+   * @throws AppError - プロジェクト不存在時、締め済みの期間の場合
    */
   async createOrderForecast(
     data: CreateOrderForecastData,
-    user: { id: string; employee?: { id: number } }
+    user: { id: string; employee?: { id: number } },
+    override?: PeriodLockOverrideRequest
   ): Promise<OrderForecast> {
     try {
+      await this.accountingPeriodService.assertPeriodsOpen(
+        [data.accountingPeriod],
+        "受発注データ作成",
+        override
+      );
+
       // プロジェクトの存在チェック
       const project = await this.projectRepository.findById(data.projectId);
       if (!project) {
@@ -169,7 +211,17 @@ export class OrderForecastService {
         createdByEmployeeId: user.employee?.id?.toString(),
       };
 
-      const orderForecast = await this.orderForecastRepository.create(orderForecastData);
+      const orderForecast = await db.transaction(async (tx) => {
+        const created = await this.orderForecastRepository.create(orderForecastData, tx);
+        await this.orderForecastHistoryService.record(
+          "create",
+          null,
+          created,
+          { userId: user.id, employeeId: user.employee?.id?.toString() },
+          tx
+        );
+        return created;
+      });
 
       return orderForecast;
     } catch (error) {
@@ -186,32 +238,30 @@ export class OrderForecastService {
    *
    * @param id - 受発注データID
    * @param data - 受発注データ更新データ
+   * @param expectedVersion - 編集を開始した時点のバージョン（楽観ロック）
+   * @param actor - 更新者（変更履歴に記録）
+   * @param override - 締め済み期間の変更指定（管理者のみ）
    * @returns 更新された受発注データ情報
-   * @throws AppError - 受発注データが見つからない場合
+   * @throws AppError - 受発注データが見つからない場合、変更前後の期間が締め済みの場合
+   * @throws VersionConflictError - 他のユーザーが先に更新していた場合（最新データを保持）
    */
-  async updateOrderForecast(id: string, data: UpdateOrderForecastData): Promise<OrderForecast> {
+  async updateOrderForecast(
+    id: string,
+    data: UpdateOrderForecastData,
+    expectedVersion: number,
+    actor: OrderForecastHistoryActor,
+    override?: PeriodLockOverrideRequest
+  ): Promise<OrderForecast> {
     try {
-      // 受発注データの存在チェック
-      const existingOrderForecast = await this.orderForecastRepository.findById(id);
-      if (!existingOrderForecast) {
-        throw new AppError("受発注データが見つかりません", 404);
-      }
-
-      // プロジェクトの存在チェック（プロジェクトID変更時）
-      if (data.projectId && data.projectId !== existingOrderForecast.projectId) {
-        const project = await this.projectRepository.findById(data.projectId);
-        if (!project) {
-          throw new AppError("指定されたプロジェクトが見つかりません", 404);
-        }
-      }
-
-      const orderForecast = await this.orderForecastRepository.update(id, data);
-
-      if (!orderForecast) {
-        throw new AppError("受発注データの更新に失敗しました", 500);
-      }
-
-      return orderForecast;
+      return await this.applyVersionedUpdate(
+        id,
+        data,
+        expectedVersion,
+        actor,
+        "update",
+        "受発注データ更新",
+        override
+      );
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -225,10 +275,16 @@ export class OrderForecastService {
    * 受発注データ削除
    *
    * @param id - 受発注データID
+   * @param actor - 削除者（変更履歴に記録）
+   * @param override - 締め済み期間の変更指定（管理者のみ）
    * @returns 削除成功フラグ
-   * @throws AppError - 受発注データが見つからない場合
+   * @throws AppError - 受発注データが見つからない場合、締め済みの期間の場合
    */
-  async deleteOrderForecast(id: string): Promise<boolean> {
+  async deleteOrderForecast(
+    id: string,
+    actor: OrderForecastHistoryActor,
+    override?: PeriodLockOverrideRequest
+  ): Promise<boolean> {
     try {
       // 受発注データの存在チェック
       const existingOrderForecast = await this.orderForecastRepository.findById(id);
@@ -236,7 +292,25 @@ export class OrderForecastService {
         throw new AppError("受発注データが見つかりません", 404);
       }
 
-      const deleted = await this.orderForecastRepository.delete(id);
+      await this.accountingPeriodService.assertPeriodsOpen(
+        [existingOrderForecast.accountingPeriod],
+        "受発注データ削除",
+        override
+      );
+
+      const deleted = await db.transaction(async (tx) => {
+        const result = await this.orderForecastRepository.delete(id, tx);
+        if (result) {
+          await this.orderForecastHistoryService.record(
+            "delete",
+            existingOrderForecast,
+            null,
+            actor,
+            tx
+          );
+        }
+        return result;
+      });
 
       if (!deleted) {
         throw new AppError("受発注データの削除に失敗しました", 500);
@@ -252,6 +326,291 @@ export class OrderForecastService {
     }
   }
 
+  /**
+   * 受発注データの一括保存（作成・更新・削除）
+   *
+   * @description すべての操作を1つのトランザクションで実行する。行ごとに入力内容・楽観ロック・締め状態を確認し、
+   * 保存できない行が1件でもある場合は何も保存しない。更新する行の除外設定の変更もあわせて保存する。
+   * 同じ受発注データを複数の行に指定した場合は、トランザクションを開始する前に行ごとのエラーにする
+   * @param operations - 作成・更新（IDと編集開始時点のバージョン、除外設定の変更）・削除（IDと削除指示時点のバージョン）する受発注データ
+   * @param actor - 操作者（作成者・変更履歴に記録）
+   * @param override - 締め済み期間の変更指定（管理者のみ）
+   * @returns 作成・更新した受発注データと削除件数
+   * @throws BulkOperationError - 保存できない行がある場合（行ごとのエラーと競合した行の最新データを保持）
+   * @throws AppError - 締め済み期間の変更指定が不正な場合
+   */
+  async bulkOperation(
+    operations: {
+      create: CreateOrderForecastData[];
+      update: Array<{
+        id: string;
+        version: number;
+        data: UpdateOrderForecastData;
+        isExcluded?: boolean;
+        exclusionReason?: string;
+      }>;
+      delete: Array<{ id: string; version: number }>;
+    },
+    actor: OrderForecastHistoryActor,
+    override?: PeriodLockOverrideRequest
+  ): Promise<{ created: OrderForecast[]; updated: OrderForecast[]; deleted: number }> {
+    try {
+      // 同じ受発注データを複数の行に指定している場合は、トランザクションを開始せずに行ごとのエラーにする
+      const duplicateErrors = this.findDuplicateBulkRows(operations);
+      if (duplicateErrors.length > 0) {
+        throw new BulkOperationError(
+          `${duplicateErrors.length}件の行を保存できないため、保存を中止しました`,
+          duplicateErrors,
+          []
+        );
+      }
+
+      return await db.transaction(async (tx) => {
+        const errors: OrderForecastBulkRowError[] = [];
+        const conflicts: OrderForecastBulkConflict[] = [];
+        const closedPeriods = await this.accountingPeriodService.getClosedPeriods(tx);
+        const targetPeriods: string[] = [];
+        const projectExists = new Map<string, boolean>();
+
+        // 締め済みの期間を含む場合のエラーメッセージ（管理者による変更の指定がある場合はまとめて判定する）
+        const checkPeriods = (periods: Array<string | null | undefined>): string | null => {
+          const closed = periods.filter(
+            (period): period is string => !!period && closedPeriods.has(period)
+          );
+          targetPeriods.push(...closed);
+          if (closed.length === 0 || override) {
+            return null;
+          }
+          return `締め済みの期間（${Array.from(new Set(closed)).join("、")}）のデータは変更できません`;
+        };
+        const checkProject = async (projectId: string): Promise<string | null> => {
+          if (!projectExists.has(projectId)) {
+            projectExists.set(projectId, !!(await this.projectRepository.findById(projectId, tx)));
+          }
+          return projectExists.get(projectId) ? null : "指定されたプロジェクトが見つかりません";
+        };
+
+        for (const [index, data] of operations.create.entries()) {
+          const message =
+            (await checkProject(data.projectId)) ?? checkPeriods([data.accountingPeriod]);
+          if (message) {
+            errors.push({ operation: "create", index, message });
+          }
+        }
+
+        const existingById = new Map<string, OrderForecast>();
+        for (const [index, { id, version, data, isExcluded }] of operations.update.entries()) {
+          const existing = await this.orderForecastRepository.findById(id, tx);
+          if (!existing) {
+            errors.push({
+              operation: "update",
+              index,
+              id,
+              message: "受発注データが見つかりません",
+            });
+            continue;
+          }
+          if (existing.version !== version) {
+            conflicts.push({ id, current: existing });
+            continue;
+          }
+          existingById.set(id, existing);
+          const message =
+            (data.projectId && data.projectId !== existing.projectId
+              ? await checkProject(data.projectId)
+              : null) ??
+            checkPeriods([existing.accountingPeriod, data.accountingPeriod]) ??
+            (isExcluded && this.isReconciled(existing) ? RECONCILED_EXCLUSION_MESSAGE : null);
+          if (message) {
+            errors.push({ operation: "update", index, id, message });
+          }
+        }
+
+        for (const [index, { id, version }] of operations.delete.entries()) {
+          const existing = await this.orderForecastRepository.findById(id, tx);
+          if (!existing) {
+            errors.push({
+              operation: "delete",
+              index,
+              id,
+              message: "受発注データが見つかりません",
+            });
+            continue;
+          }
+          if (existing.version !== version) {
+            conflicts.push({ id, current: existing });
+            continue;
+          }
+          existingById.set(id, existing);
+          const message = checkPeriods([existing.accountingPeriod]);
+          if (message) {
+            errors.push({ operation: "delete", index, id, message });
+          }
+        }
+
+        if (errors.length > 0 || conflicts.length > 0) {
+          throw new BulkOperationError(
+            errors.length > 0
+              ? `${errors.length}件の行を保存できないため、保存を中止しました`
+              : `${conflicts.length}件は他のユーザーが先に更新していたため、保存を中止しました`,
+            errors,
+            conflicts
+          );
+        }
+
+        // 締め済みの期間を含む場合は管理者による変更の指定を確認し、変更履歴を記録する
+        if (targetPeriods.length > 0) {
+          await this.accountingPeriodService.assertPeriodsOpen(
+            targetPeriods,
+            "受発注データ一括保存",
+            override,
+            tx
+          );
+        }
+
+        // チェック後に他のユーザーが更新・削除した場合（最新データはトランザクション内で取得する）
+        const throwRaceConflict = async (
+          operation: OrderForecastBulkOperation,
+          index: number,
+          id: string
+        ): Promise<never> => {
+          const current = await this.orderForecastRepository.findById(id, tx);
+          throw new BulkOperationError(
+            "他のユーザーが先に更新したため、保存を中止しました",
+            current ? [] : [{ operation, index, id, message: "受発注データが見つかりません" }],
+            current ? [{ id, current }] : []
+          );
+        };
+
+        // 削除（最初に実行）
+        let deleted = 0;
+        for (const [index, { id, version }] of operations.delete.entries()) {
+          if (!(await this.orderForecastRepository.deleteIfVersionMatches(id, version, tx))) {
+            await throwRaceConflict("delete", index, id);
+          }
+          await this.orderForecastHistoryService.record(
+            "delete",
+            existingById.get(id) ?? null,
+            null,
+            actor,
+            tx
+          );
+          deleted++;
+        }
+
+        // 更新（次に実行）。除外設定の変更は入力内容の更新とは別の変更履歴として記録する
+        const updated: OrderForecast[] = [];
+        for (const [index, operation] of operations.update.entries()) {
+          const { id, version, data, isExcluded, exclusionReason } = operation;
+          let current = existingById.get(id)!;
+          const changesExclusion =
+            isExcluded !== undefined && isExcluded !== (current.isExcluded === "true");
+          const steps: Array<{
+            action: "update" | "exclude" | "include";
+            changes: Partial<OrderForecast>;
+          }> = [];
+          if (Object.keys(data).length > 0 || !changesExclusion) {
+            steps.push({ action: "update", changes: data });
+          }
+          if (changesExclusion) {
+            steps.push({
+              action: isExcluded ? "exclude" : "include",
+              changes: this.toExclusionChanges(isExcluded, exclusionReason),
+            });
+          }
+
+          let expectedVersion = version;
+          for (const { action, changes } of steps) {
+            const result = await this.orderForecastRepository.updateIfVersionMatches(
+              id,
+              expectedVersion,
+              changes,
+              tx
+            );
+            if (!result) {
+              return await throwRaceConflict("update", index, id);
+            }
+            await this.orderForecastHistoryService.record(action, current, result, actor, tx);
+            current = result;
+            expectedVersion = result.version;
+          }
+          updated.push(current);
+        }
+
+        // 作成（最後に実行）
+        const created: OrderForecast[] = [];
+        for (const data of operations.create) {
+          const result = await this.orderForecastRepository.create(
+            {
+              ...data,
+              createdByUserId: actor.userId ?? undefined,
+              createdByEmployeeId: actor.employeeId ?? undefined,
+            },
+            tx
+          );
+          await this.orderForecastHistoryService.record("create", null, result, actor, tx);
+          created.push(result);
+        }
+
+        return { created, updated, deleted };
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("受発注データ一括保存エラー:", error);
+      throw new AppError("受発注データの一括保存中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 受発注データを変更履歴の時点の内容に復元
+   *
+   * @param id - 受発注データID
+   * @param historyId - 復元する変更履歴ID
+   * @param expectedVersion - 復元を指示した時点のバージョン（楽観ロック）
+   * @param actor - 復元者（変更履歴に記録）
+   * @param override - 締め済み期間の変更指定（管理者のみ）
+   * @returns 復元された受発注データ情報
+   * @throws AppError - 受発注データ・変更履歴が見つからない場合、復元前後の期間が締め済みの場合
+   * @throws VersionConflictError - 他のユーザーが先に更新していた場合（最新データを保持）
+   */
+  async restoreOrderForecast(
+    id: string,
+    historyId: string,
+    expectedVersion: number,
+    actor: OrderForecastHistoryActor,
+    override?: PeriodLockOverrideRequest
+  ): Promise<OrderForecast> {
+    try {
+      const history = await this.orderForecastRepository.findHistoryById(historyId);
+      if (!history || history.orderForecastId !== id) {
+        throw new AppError("変更履歴が見つかりません", 404);
+      }
+
+      // 入力項目のみ復元する（突合・除外の状態は突合処理・除外設定で管理するため対象外）
+      const data = Object.fromEntries(
+        RESTORABLE_FIELDS.map((field) => [field, history.snapshot[field]])
+      ) as UpdateOrderForecastData;
+
+      return await this.applyVersionedUpdate(
+        id,
+        data,
+        expectedVersion,
+        actor,
+        "restore",
+        "受発注データ復元",
+        override
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("受発注データ復元エラー:", error);
+      throw new AppError("受発注データの復元中にエラーが発生しました", 500);
+    }
+  }
+
   /**
    * 突合ステータス更新
    *
@@ -363,32 +722,59 @@ export class OrderForecastService {
    * @param ids - 受発注見込み明細IDリスト
    * @param isExcluded - 除外フラグ
    * @param exclusionReason - 除外理由
+   * @param actor - 変更者（変更履歴に記録）
+   * @param override - 締め済み期間の変更指定（管理者のみ）
    * @returns 更新件数
+   * @throws AppError - 締め済みの期間の明細を含む場合、突合済・曖昧一致の明細を除外しようとした場合
    */
   async setExclusion(
     ids: string[],
     isExcluded: boolean,
-    exclusionReason?: string
+    exclusionReason: string | undefined,
+    actor: OrderForecastHistoryActor,
+    override?: PeriodLockOverrideRequest
   ): Promise<number> {
     try {
       let updatedCount = 0;
 
-      await db.transaction(async (_tx) => {
-        for (const id of ids) {
-          const updated = await this.orderForecastRepository.update(id, {
-            reconciliationStatus: isExcluded ? "excluded" : "unmatched",
-            glMatchId: isExcluded ? null : undefined, // 除外時は突合情報をクリア
-            isExcluded: isExcluded ? "true" : "false",
-            exclusionReason: isExcluded ? exclusionReason : null,
-          });
+      await db.transaction(async (tx) => {
+        const targets = await Promise.all(
+          ids.map((id) => this.orderForecastRepository.findById(id, tx))
+        );
+        await this.accountingPeriodService.assertPeriodsOpen(
+          targets.map((target) => target?.accountingPeriod),
+          "受発注データ除外設定",
+          override,
+          tx
+        );
+        if (isExcluded && targets.some((target) => target && this.isReconciled(target))) {
+          throw new AppError(RECONCILED_EXCLUSION_MESSAGE, 409);
+        }
+
+        for (const [index, id] of ids.entries()) {
+          const updated = await this.orderForecastRepository.update(
+            id,
+            this.toExclusionChanges(isExcluded, exclusionReason),
+            tx
+          );
           if (updated) {
             updatedCount++;
+            await this.orderForecastHistoryService.record(
+              isExcluded ? "exclude" : "include",
+              targets[index],
+              updated,
+              actor,
+              tx
+            );
           }
         }
       });
 
       return updatedCount;
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       console.error("除外設定エラー:", error);
       throw new AppError("除外設定の更新中にエラーが発生しました", 500);
     }
@@ -408,11 +794,8 @@ export class OrderForecastService {
     salesPerson?: string
   ): Promise<MonthlySummaryResponse> {
     try {
-      // 計上区分マスタから全15種類を取得（コード昇順）
-      const accountingItems = await this.accountingItemRepository.findAll({
-        sortBy: "code",
-        sortOrder: "asc",
-      });
+      // 計上区分マスタから集計区分が設定された科目を取得（表示順）
+      const accountingItems = await this.accountingItemRepository.findAggregationTargets();
 
       // 年度の全12ヶ月（4月〜3月）を生成
       const months: string[] = [];
@@ -440,11 +823,6 @@ export class OrderForecastService {
         angleBData = await this.angleBForecastRepository.getMonthlySummary(fiscalYear, salesPerson);
       }
 
-      // 計上区分のマッピング定義
-      const revenueCodes = ["511", "512", "513", "514", "515"]; // 純売上
-      const costOfSalesCodes = ["541", "1100", "1200", "1300", "1400"]; // 売上原価
-      const sgaExpensesCodes = ["727", "737", "740", "745", "9999"]; // 販管費
-
       // コード→名称のマッピング作成
       const codeToNameMap = new Map<string, string>();
       accountingItems.forEach((item) => {
@@ -506,24 +884,18 @@ export class OrderForecastService {
       // 各計上区分のデータを処理
       accountingItems.forEach((item) => {
         const monthlyAmounts: Record<string, number> = {};
-        let category: "revenue" | "costOfSales" | "sgaExpenses";
-
-        // カテゴリを決定
-        if (revenueCodes.includes(item.code)) {
-          category = "revenue";
-        } else if (costOfSalesCodes.includes(item.code)) {
-          category = "costOfSales";
-        } else if (sgaExpensesCodes.includes(item.code)) {
-          category = "sgaExpenses";
-        } else {
-          return; // 該当しない計上区分はスキップ
+
+        // カテゴリを決定（棚卸調整は売上原価に含める）
+        const category = toSummaryCategory(item.category);
+        if (!category) {
+          return; // 集計区分が未設定の計上区分はスキップ
         }
 
-        // 各月の金額を取得
+        // 各月の金額を取得（合計には計上区分の符号を反映）
         months.forEach((month) => {
           const amount = dataMap.get(month)?.get(item.name) || 0;
           monthlyAmounts[month] = amount;
-          summaries[category].monthlyTotals[month] += amount;
+          summaries[category].monthlyTotals[month] += amount * item.sign;
         });
 
         accountingItemSummaries.push({
@@ -549,6 +921,8 @@ export class OrderForecastService {
   /**
    * 営業担当者別サマリ取得
    *
+   * @description 売上・売上原価は計上区分マスタの集計区分と符号で分類する（プロジェクト分析・月次サマリと同じ定義）。
+   * 売上原価は仕入高と棚卸調整（期首棚卸高は加算、期末棚卸高は減算）で、支払保守料・外注加工費は販管費として売上原価に含めない。
    * @param fiscalYear - 年度
    * @param includeAngleB - 角度B案件を含むかどうか
    * @param salesPersons - 営業担当者リスト（オプション）
@@ -574,32 +948,27 @@ export class OrderForecastService {
     }>;
   }> {
     try {
-      // 計上区分のマッピング定義（名称ベース）
-      const revenueNames = ["保守売上", "ソフト売上", "商品売上", "消耗品売上", "その他売上"]; // 純売上
-      const costOfSalesNames = [
-        "仕入高",
-        "外注加工費",
-        "支払保守料",
-        "期首商品棚卸高",
-        "期首製品棚卸高",
-      ]; // 売上原価
-
       // 並列でデータを取得（パフォーマンス最適化）
-      const [orderForecastData, angleBData] = await Promise.all([
+      const [orderForecastData, angleBData, accountingItems] = await Promise.all([
         this.orderForecastRepository.getSalesPersonSummary(fiscalYear, salesPersons),
         includeAngleB
           ? this.angleBForecastRepository.getSalesPersonSummary(fiscalYear, salesPersons)
           : Promise.resolve([]),
+        this.accountingItemRepository.findAggregationTargets(),
       ]);
 
-      console.log("営業担当者別サマリ - データ取得結果:", {
-        fiscalYear,
-        salesPersons,
-        orderForecastDataCount: orderForecastData.length,
-        angleBDataCount: angleBData.length,
-        firstOrderForecastRow: orderForecastData[0],
-        firstAngleBRow: angleBData[0],
-      });
+      // 計上区分マスタから計上科目（名称・コード）→集計区分・符号のマッピングを作成
+      const itemCategoryMap = new Map<
+        string,
+        { category: AccountingSummaryCategory; sign: number }
+      >();
+      for (const item of accountingItems) {
+        const category = toSummaryCategory(item.category);
+        if (category) {
+          itemCategoryMap.set(item.name, { category, sign: item.sign });
+          itemCategoryMap.set(item.code, { category, sign: item.sign });
+        }
+      }
 
       // 営業担当者・サービス区分・分析区分別の集計データを構築
       const summaryMap = new Map<
@@ -616,13 +985,8 @@ export class OrderForecastService {
       >();
 
       // 受発注見込みデータを処理（角度B含まない）
-      let processedCount = 0;
-      let skippedCount = 0;
       for (const row of orderForecastData) {
-        if (!row.sales_person || !row.service_type || !row.analysis_type) {
-          skippedCount++;
-          continue;
-        }
+        if (!row.sales_person || !row.service_type || !row.analysis_type) continue;
 
         const key = `${row.sales_person}_${row.service_type}_${row.analysis_type}`;
         const amount = parseFloat(row.total_amount);
@@ -641,33 +1005,17 @@ export class OrderForecastService {
 
         const summary = summaryMap.get(key)!;
 
-        // 計上科目名称で分類
-        if (revenueNames.includes(row.accounting_item)) {
-          summary.revenueWithoutAngleB += amount;
-          summary.revenueWithAngleB += amount;
-          processedCount++;
-        } else if (costOfSalesNames.includes(row.accounting_item)) {
-          summary.costOfSalesWithoutAngleB += amount;
-          summary.costOfSalesWithAngleB += amount;
-          processedCount++;
-        } else {
-          console.log("営業担当者別サマリ - 未分類の計上科目:", {
-            sales_person: row.sales_person,
-            service_type: row.service_type,
-            analysis_type: row.analysis_type,
-            accounting_item: row.accounting_item,
-            amount: row.total_amount,
-          });
+        // 計上区分マスタの集計区分で分類
+        const itemCategory = itemCategoryMap.get(row.accounting_item);
+        if (itemCategory?.category === "revenue") {
+          summary.revenueWithoutAngleB += amount * itemCategory.sign;
+          summary.revenueWithAngleB += amount * itemCategory.sign;
+        } else if (itemCategory?.category === "costOfSales") {
+          summary.costOfSalesWithoutAngleB += amount * itemCategory.sign;
+          summary.costOfSalesWithAngleB += amount * itemCategory.sign;
         }
       }
 
-      console.log("営業担当者別サマリ - 受発注見込みデータ処理結果:", {
-        totalRows: orderForecastData.length,
-        processedCount,
-        skippedCount,
-        summaryMapSize: summaryMap.size,
-      });
-
       // 角度B案件データを処理（includeAngleBがtrueの場合）
       if (includeAngleB) {
         for (const row of angleBData) {
@@ -691,21 +1039,11 @@ export class OrderForecastService {
           const summary = summaryMap.get(key)!;
 
           // 角度B案件の計上科目は名称で格納されているため、名称で判定
-          const accountingItemName = row.accounting_item;
-
-          // 売上系（保守売上、ソフト売上、商品売上、消耗品売上、その他売上）
-          if (
-            accountingItemName === "保守売上" ||
-            accountingItemName === "ソフト売上" ||
-            accountingItemName === "商品売上" ||
-            accountingItemName === "消耗品売上" ||
-            accountingItemName === "その他売上"
-          ) {
-            summary.revenueWithAngleB += amount;
-          }
-          // 仕入高
-          else if (accountingItemName === "仕入高") {
-            summary.costOfSalesWithAngleB += amount;
+          const itemCategory = itemCategoryMap.get(row.accounting_item);
+          if (itemCategory?.category === "revenue") {
+            summary.revenueWithAngleB += amount * itemCategory.sign;
+          } else if (itemCategory?.category === "costOfSales") {
+            summary.costOfSalesWithAngleB += amount * itemCategory.sign;
           }
         }
       }
@@ -728,15 +1066,6 @@ export class OrderForecastService {
       const selectedSalesPersons =
         salesPersons && salesPersons.length > 0 ? salesPersons : allSalesPersons;
 
-      console.log("営業担当者別サマリ取得結果:", {
-        fiscalYear,
-        orderForecastDataCount: orderForecastData.length,
-        angleBDataCount: angleBData.length,
-        summariesCount: summaries.length,
-        allSalesPersonsCount: allSalesPersons.length,
-        firstSummary: summaries[0],
-      });
-
       return {
         fiscalYear,
         salesPersons: selectedSalesPersons,
@@ -747,4 +1076,140 @@ export class OrderForecastService {
       throw new AppError("営業担当者別サマリの取得中にエラーが発生しました", 500);
     }
   }
+
+  /**
+   * バージョンを確認して受発注データを更新し、変更履歴を記録（プライベートメソッド）
+   */
+  private async applyVersionedUpdate(
+    id: string,
+    data: UpdateOrderForecastData,
+    expectedVersion: number,
+    actor: OrderForecastHistoryActor,
+    action: "update" | "restore",
+    operationName: string,
+    override?: PeriodLockOverrideRequest
+  ): Promise<OrderForecast> {
+    // 受発注データの存在チェック
+    const existingOrderForecast = await this.orderForecastRepository.findById(id);
+    if (!existingOrderForecast) {
+      throw new AppError("受発注データが見つかりません", 404);
+    }
+    if (existingOrderForecast.version !== expectedVersion) {
+      throw new VersionConflictError(VERSION_CONFLICT_MESSAGE, existingOrderForecast);
+    }
+
+    await this.accountingPeriodService.assertPeriodsOpen(
+      [existingOrderForecast.accountingPeriod, data.accountingPeriod],
+      operationName,
+      override
+    );
+
+    // プロジェクトの存在チェック（プロジェクトID変更時）
+    if (data.projectId && data.projectId !== existingOrderForecast.projectId) {
+      const project = await this.projectRepository.findById(data.projectId);
+      if (!project) {
+        throw new AppError("指定されたプロジェクトが見つかりません", 404);
+      }
+    }
+
+    const orderForecast = await db.transaction(async (tx) => {
+      const updated = await this.orderForecastRepository.updateIfVersionMatches(
+        id,
+        expectedVersion,
+        data,
+        tx
+      );
+      if (updated) {
+        await this.orderForecastHistoryService.record(
+          action,
+          existingOrderForecast,
+          updated,
+          actor,
+          tx
+        );
+      }
+      return updated;
+    });
+
+    if (!orderForecast) {
+      // チェック後に他のユーザーが更新・削除した場合
+      const current = await this.orderForecastRepository.findById(id);
+      if (!current) {
+        throw new AppError("受発注データが見つかりません", 404);
+      }
+      throw new VersionConflictError(VERSION_CONFLICT_MESSAGE, current);
+    }
+
+    return orderForecast;
+  }
+
+  /**
+   * 一括保存で同じ受発注データを複数の行に指定している行を取得（プライベートメソッド）
+   *
+   * @description 更新（除外設定の変更を含む）・削除を通して、2回目以降に指定された行をエラーにする
+   */
+  private findDuplicateBulkRows(operations: {
+    update: Array<{ id: string }>;
+    delete: Array<{ id: string }>;
+  }): OrderForecastBulkRowError[] {
+    const errors: OrderForecastBulkRowError[] = [];
+    const updateIds = new Set<string>();
+    for (const [index, { id }] of operations.update.entries()) {
+      if (updateIds.has(id)) {
+        errors.push({
+          operation: "update",
+          index,
+          id,
+          message: "同じ受発注データを複数回更新しようとしています",
+        });
+      }
+      updateIds.add(id);
+    }
+
+    const deleteIds = new Set<string>();
+    for (const [index, { id }] of operations.delete.entries()) {
+      if (updateIds.has(id)) {
+        errors.push({
+          operation: "delete",
+          index,
+          id,
+          message: "同じ受発注データを更新と削除の両方に指定しています",
+        });
+      } else if (deleteIds.has(id)) {
+        errors.push({
+          operation: "delete",
+          index,
+          id,
+          message: "同じ受発注データを複数回削除しようとしています",
+        });
+      }
+      deleteIds.add(id);
+    }
+    return errors;
+  }
+
+  /**
+   * 突合済・曖昧一致の明細か判定（プライベートメソッド）
+   */
+  private isReconciled(orderForecast: OrderForecast): boolean {
+    return (
+      orderForecast.reconciliationStatus === "matched" ||
+      orderForecast.reconciliationStatus === "fuzzy"
+    );
+  }
+
+  /**
+   * 除外設定の変更内容を作成（プライベートメソッド）
+   */
+  private toExclusionChanges(
+    isExcluded: boolean,
+    exclusionReason: string | undefined
+  ): Partial<OrderForecast> {
+    return {
+      reconciliationStatus: isExcluded ? "excluded" : "unmatched",
+      glMatchId: isExcluded ? null : undefined, // 除外時は突合情報をクリア
+      isExcluded: isExcluded ? "true" : "false",
+      exclusionReason: isExcluded ? exclusionReason : null,
+    };
+  }
 }
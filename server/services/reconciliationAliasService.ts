@@ -0,0 +1,56 @@
+import type { ReconciliationAlias } from "@shared/schema/integrated";
+
+import { AppError } from "../middleware/errorHandler";
+import {
+  ReconciliationAliasRepository,
+  type ReconciliationAliasType,
+} from "../storage/reconciliationAlias";
+
+/**
+ * 突合エイリアス管理サービスクラス
+ *
+ * @description 突合エイリアス辞書に関するビジネスロジックを担当
+ * @responsibility 突合エイリアスの参照・削除（記録は手動突合時にReconciliationServiceが行う）
+ */
+export class ReconciliationAliasService {
+  constructor(private reconciliationAliasRepository: ReconciliationAliasRepository) {}
+
+  /**
+   * 突合エイリアス一覧取得
+   *
+   * @param aliasType - エイリアス種別（未指定の場合は全種別）
+   * @returns 記録回数の多い順の突合エイリアス一覧と総件数
+   */
+  async getReconciliationAliases(
+    aliasType?: ReconciliationAliasType
+  ): Promise<{ aliases: ReconciliationAlias[]; totalCount: number }> {
+    try {
+      const aliases = await this.reconciliationAliasRepository.findAll(aliasType);
+      return { aliases, totalCount: aliases.length };
+    } catch (error) {
+      console.error("突合エイリアス一覧取得エラー:", error);
+      throw new AppError("突合エイリアス一覧の取得に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 突合エイリアス削除
+   *
+   * @param id - 突合エイリアスID
+   */
+  async deleteReconciliationAlias(id: string): Promise<void> {
+    try {
+      const deleted = await this.reconciliationAliasRepository.delete(id);
+
+      if (!deleted) {
+        throw new AppError("突合エイリアスが見つかりません", 404, true, "NOT_FOUND");
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("突合エイリアス削除エラー:", error);
+      throw new AppError("突合エイリアスの削除に失敗しました", 500);
+    }
+  }
+}
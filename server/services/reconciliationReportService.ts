@@ -0,0 +1,434 @@
+import type { GLEntry, OrderForecast, ReconciliationLog } from "@shared/schema/integrated";
+import fs from "fs";
+import PDFDocument from "pdfkit";
+import * as XLSX from "xlsx";
+
+import { AppError } from "../middleware/errorHandler";
+import { GLEntryRepository } from "../storage/glEntry";
+import { OrderForecastRepository } from "../storage/orderForecast";
+import { ReconciliationLogRepository } from "../storage/reconciliationLog";
+import { ReconciliationService } from "./reconciliationService";
+
+/** 差異レポートの出力形式 */
+export type VarianceReportFormat = "xlsx" | "pdf";
+
+/** 差異レポートに記載する内容（出力時点の突合状態） */
+interface VarianceReport {
+  period: string;
+  generatedAt: Date;
+  reconciliationLog: ReconciliationLog | null;
+  accountSummary: Awaited<ReturnType<ReconciliationService["getAccountSummary"]>>;
+  unmatchedOrders: OrderForecast[];
+  unmatchedGlEntries: GLEntry[];
+  excludedOrders: OrderForecast[];
+  excludedGlEntries: GLEntry[];
+}
+
+/** 表形式で出力する明細（見出しと行データ） */
+interface ReportTable {
+  title: string;
+  headers: string[];
+  widths: number[]; // 列幅（XLSXは文字数、PDFは比率として使用）
+  numericColumns: number[]; // 金額列（右寄せ・桁区切りで出力）
+  rows: Array<Array<string | number>>;
+}
+
+/** PDF出力で使用する日本語フォントのパス（未設定の場合はPDF出力不可） */
+const PDF_FONT_PATH = process.env.REPORT_PDF_FONT_PATH;
+
+/** 突合ステータスの表示名 */
+const STATUS_LABELS: Record<string, string> = {
+  matched: "突合済",
+  fuzzy: "曖昧一致",
+  unmatched: "未突合",
+  excluded: "除外",
+};
+
+/**
+ * 突合差異レポートサービスクラス
+ *
+ * @description 月次の突合結果を差異レポート（XLSX・PDF）として出力する
+ * @responsibility 未突合明細・除外明細・科目別差異の収集とファイル形式への整形（突合処理はReconciliationServiceが担当）
+ */
+export class ReconciliationReportService {
+  constructor(
+    private reconciliationService: ReconciliationService,
+    private reconciliationLogRepository: ReconciliationLogRepository,
+    private orderForecastRepository: OrderForecastRepository,
+    private glEntryRepository: GLEntryRepository
+  ) {}
+
+  /**
+   * 差異レポート出力
+   *
+   * @param period - 期間（YYYY-MM）
+   * @param format - 出力形式
+   * @param logId - レポートに紐づける突合ログID（未指定の場合は期間の最新の突合ログ）
+   * @returns ファイル名・MIMEタイプ・ファイル内容
+   * @throws AppError - 突合ログが見つからない場合、PDF用フォントが未設定の場合
+   */
+  async exportVarianceReport(
+    period: string,
+    format: VarianceReportFormat,
+    logId?: string
+  ): Promise<{ filename: string; contentType: string; content: Buffer }> {
+    try {
+      const report = await this.buildReport(period, logId);
+      const filename = `突合差異レポート_${period}.${format}`;
+
+      if (format === "pdf") {
+        return { filename, contentType: "application/pdf", content: await this.renderPdf(report) };
+      }
+
+      return {
+        filename,
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        content: this.renderXlsx(report),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("差異レポート出力エラー:", error);
+      throw new AppError("差異レポートの出力中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * レポート内容の収集（プライベートメソッド）
+   */
+  private async buildReport(period: string, logId?: string): Promise<VarianceReport> {
+    const reconciliationLog = logId
+      ? await this.reconciliationLogRepository.findById(logId)
+      : await this.reconciliationLogRepository.findLatestByPeriod(period);
+
+    if (logId && (!reconciliationLog || reconciliationLog.period !== period)) {
+      throw new AppError("突合ログが見つかりません", 404, true, "NOT_FOUND");
+    }
+
+    const [accountSummary, orderForecasts, glEntries] = await Promise.all([
+      this.reconciliationService.getAccountSummary(period),
+      this.orderForecastRepository.findByPeriod(period),
+      this.glEntryRepository.findByPeriod(period),
+    ]);
+
+    const isExcludedOrder = (order: OrderForecast): boolean =>
+      order.isExcluded === "true" || order.reconciliationStatus === "excluded";
+    const isExcludedGl = (gl: GLEntry): boolean =>
+      gl.isExcluded === "true" || gl.reconciliationStatus === "excluded";
+
+    return {
+      period,
+      generatedAt: new Date(),
+      reconciliationLog,
+      accountSummary,
+      // 曖昧一致（確定前）も突合済ではないため未突合として記載する
+      unmatchedOrders: orderForecasts.filter(
+        (order) => !isExcludedOrder(order) && order.reconciliationStatus !== "matched"
+      ),
+      unmatchedGlEntries: glEntries.filter(
+        (gl) => !isExcludedGl(gl) && gl.reconciliationStatus !== "matched"
+      ),
+      excludedOrders: orderForecasts.filter(isExcludedOrder),
+      excludedGlEntries: glEntries.filter(isExcludedGl),
+    };
+  }
+
+  /**
+   * 見出し部分（期間・突合ログ・合計金額）の項目と値（プライベートメソッド）
+   */
+  private buildOverview(report: VarianceReport): Array<[string, string | number]> {
+    const { reconciliationLog: log, accountSummary: summary } = report;
+
+    return [
+      ["対象期間", report.period],
+      ["出力日時", report.generatedAt.toLocaleString("ja-JP")],
+      ["突合実行日時", log ? new Date(log.executedAt).toLocaleString("ja-JP") : "未実行"],
+      ["突合ログID", log?.id ?? "-"],
+      ["突合件数（突合 / 曖昧一致）", log ? `${log.matchedCount} / ${log.fuzzyMatchedCount}` : "-"],
+      ["GL合計金額", summary.totalGlAmount],
+      ["受発注見込み合計", summary.totalOrderAmount],
+      ["差異金額", summary.totalGlAmount - summary.totalOrderAmount],
+      ["うちタイミング差異", summary.totalTimingDifference],
+      ["真の差異", summary.totalVariance],
+      [
+        "未突合（受発注 / GL）",
+        `${report.unmatchedOrders.length} / ${report.unmatchedGlEntries.length}`,
+      ],
+      [
+        "除外（受発注 / GL）",
+        `${report.excludedOrders.length} / ${report.excludedGlEntries.length}`,
+      ],
+    ];
+  }
+
+  /**
+   * 明細表の作成（プライベートメソッド）
+   *
+   * @description XLSX・PDFで共通の表構成（科目別差異・未突合受発注・未突合GL・除外明細）を作成する
+   */
+  private buildTables(report: VarianceReport): ReportTable[] {
+    const toAmount = (amount: string): number => parseFloat(amount);
+
+    return [
+      {
+        title: "科目別差異",
+        headers: [
+          "科目コード",
+          "科目名",
+          "GL金額",
+          "受発注金額",
+          "差異",
+          "タイミング差異",
+          "真の差異",
+        ],
+        widths: [12, 24, 16, 16, 16, 16, 16],
+        numericColumns: [2, 3, 4, 5, 6],
+        rows: [...report.accountSummary.differences]
+          .sort((a, b) => a.accountCode.localeCompare(b.accountCode))
+          .map((diff) => [
+            diff.accountCode,
+            diff.accountName,
+            diff.glAmount,
+            diff.orderAmount,
+            diff.difference,
+            diff.timingDifference,
+            diff.variance,
+          ]),
+      },
+      {
+        title: "未突合受発注",
+        headers: ["状態", "プロジェクト名", "取引先", "計上科目", "摘要文", "営業担当", "金額"],
+        widths: [10, 24, 20, 16, 30, 12, 16],
+        numericColumns: [6],
+        rows: report.unmatchedOrders.map((order) => [
+          STATUS_LABELS[order.reconciliationStatus] ?? order.reconciliationStatus,
+          order.projectName,
+          order.customerName || "",
+          order.accountingItem,
+          order.description || "",
+          order.salesPerson || "",
+          toAmount(order.amount),
+        ]),
+      },
+      {
+        title: "未突合GL",
+        headers: ["状態", "伝票番号", "取引日", "科目コード", "科目名", "摘要", "金額"],
+        widths: [10, 14, 12, 12, 20, 34, 16],
+        numericColumns: [6],
+        rows: report.unmatchedGlEntries.map((gl) => [
+          STATUS_LABELS[gl.reconciliationStatus] ?? gl.reconciliationStatus,
+          gl.voucherNo,
+          gl.transactionDate,
+          gl.accountCode,
+          gl.accountName,
+          gl.description || "",
+          toAmount(gl.amount),
+        ]),
+      },
+      {
+        title: "除外明細",
+        headers: ["区分", "明細", "計上科目", "摘要", "除外理由", "金額"],
+        widths: [10, 28, 18, 30, 30, 16],
+        numericColumns: [5],
+        rows: [
+          ...report.excludedOrders.map((order) => [
+            "受発注",
+            order.projectName,
+            order.accountingItem,
+            order.description || "",
+            order.exclusionReason || "",
+            toAmount(order.amount),
+          ]),
+          ...report.excludedGlEntries.map((gl) => [
+            "GL",
+            `${gl.voucherNo}（${gl.transactionDate}）`,
+            gl.accountName,
+            gl.description || "",
+            gl.exclusionReason || "",
+            toAmount(gl.amount),
+          ]),
+        ],
+      },
+    ];
+  }
+
+  /**
+   * XLSX形式への整形（プライベートメソッド）
+   *
+   * @description 概要シートと明細表ごとのシートを作成し、列幅・桁区切り・オートフィルターを設定する
+   */
+  private renderXlsx(report: VarianceReport): Buffer {
+    const workbook = XLSX.utils.book_new();
+
+    const overviewSheet = XLSX.utils.aoa_to_sheet([
+      [`突合差異レポート（${report.period}）`],
+      [],
+      ...this.buildOverview(report),
+    ]);
+    overviewSheet["!cols"] = [{ wch: 28 }, { wch: 40 }];
+    overviewSheet["!merges"] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: 1 } }];
+    this.applyNumberFormat(overviewSheet, [1], 2);
+    XLSX.utils.book_append_sheet(workbook, overviewSheet, "概要");
+
+    for (const table of this.buildTables(report)) {
+      const sheet = XLSX.utils.aoa_to_sheet([table.headers, ...table.rows]);
+      sheet["!cols"] = table.widths.map((wch) => ({ wch }));
+      if (table.rows.length > 0) {
+        sheet["!autofilter"] = {
+          ref: XLSX.utils.encode_range({
+            s: { r: 0, c: 0 },
+            e: { r: table.rows.length, c: table.headers.length - 1 },
+          }),
+        };
+      }
+      this.applyNumberFormat(sheet, table.numericColumns, 1);
+      XLSX.utils.book_append_sheet(workbook, sheet, table.title);
+    }
+
+    return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+  }
+
+  /**
+   * 数値セルに桁区切りの表示形式を設定（プライベートメソッド）
+   */
+  private applyNumberFormat(sheet: XLSX.WorkSheet, columns: number[], startRow: number): void {
+    const range = XLSX.utils.decode_range(sheet["!ref"] ?? "A1");
+
+    for (let row = startRow; row <= range.e.r; row++) {
+      for (const column of columns) {
+        const cell = sheet[XLSX.utils.encode_cell({ r: row, c: column })] as XLSX.CellObject;
+        if (cell?.t === "n") {
+          cell.z = "#,##0;[Red]-#,##0";
+        }
+      }
+    }
+  }
+
+  /**
+   * PDF形式への整形（プライベートメソッド）
+   *
+   * @description A4横向きで概要と明細表を出力し、全ページにページ番号を付与する
+   */
+  private async renderPdf(report: VarianceReport): Promise<Buffer> {
+    if (!PDF_FONT_PATH || !fs.existsSync(PDF_FONT_PATH)) {
+      throw new AppError(
+        "PDF出力用の日本語フォントが設定されていません（REPORT_PDF_FONT_PATH）",
+        500
+      );
+    }
+
+    const doc = new PDFDocument({ size: "A4", layout: "landscape", margin: 40, bufferPages: true });
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+    });
+
+    doc.registerFont("ja", PDF_FONT_PATH);
+    doc.font("ja");
+
+    doc.fontSize(16).text(`突合差異レポート（${report.period}）`);
+    doc.moveDown(0.5);
+    doc.fontSize(9);
+    for (const [label, value] of this.buildOverview(report)) {
+      doc.text(`${label}：${typeof value === "number" ? this.formatAmount(value) : value}`);
+    }
+
+    for (const table of this.buildTables(report)) {
+      doc.moveDown(1);
+      this.drawPdfTable(doc, table);
+    }
+
+    // 署名欄（承認・保管用）
+    doc.moveDown(2);
+    doc
+      .fontSize(10)
+      .text("確認者：＿＿＿＿＿＿＿＿　承認者：＿＿＿＿＿＿＿＿　承認日：＿＿＿＿＿＿");
+
+    const { start, count } = doc.bufferedPageRange();
+    for (let i = start; i < start + count; i++) {
+      doc.switchToPage(i);
+      doc.fontSize(8).text(`${i - start + 1} / ${count}`, 40, doc.page.height - 30, {
+        width: doc.page.width - 80,
+        align: "right",
+        lineBreak: false,
+      });
+    }
+
+    doc.end();
+    return finished;
+  }
+
+  /**
+   * PDFへの表の描画（プライベートメソッド）
+   *
+   * @description ページ下端に達した場合は改ページし、見出し行を再描画する
+   */
+  private drawPdfTable(doc: PDFKit.PDFDocument, table: ReportTable): void {
+    const left = doc.page.margins.left;
+    const tableWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const totalRatio = table.widths.reduce((sum, width) => sum + width, 0);
+    const columnWidths = table.widths.map((width) => (width / totalRatio) * tableWidth);
+    const padding = 3;
+    const bottom = doc.page.height - doc.page.margins.bottom - 20;
+
+    const drawRow = (cells: Array<string | number>, isHeader: boolean): void => {
+      const texts = cells.map((cell) =>
+        typeof cell === "number" ? this.formatAmount(cell) : String(cell)
+      );
+      doc.fontSize(8);
+      const rowHeight =
+        Math.max(
+          ...texts.map((text, i) =>
+            doc.heightOfString(text, { width: columnWidths[i] - padding * 2 })
+          )
+        ) +
+        padding * 2;
+
+      if (doc.y + rowHeight > bottom) {
+        doc.addPage();
+        if (!isHeader) {
+          drawRow(table.headers, true);
+        }
+      }
+
+      const y = doc.y;
+      let x = left;
+      if (isHeader) {
+        doc.rect(left, y, tableWidth, rowHeight).fill("#eeeeee").fillColor("black");
+      }
+      texts.forEach((text, i) => {
+        doc.rect(x, y, columnWidths[i], rowHeight).stroke("#999999");
+        doc.text(text, x + padding, y + padding, {
+          width: columnWidths[i] - padding * 2,
+          align: !isHeader && table.numericColumns.includes(i) ? "right" : "left",
+        });
+        x += columnWidths[i];
+      });
+      doc.x = left;
+      doc.y = y + rowHeight;
+    };
+
+    doc.fontSize(11).text(`${table.title}（${table.rows.length}件）`, left);
+    doc.moveDown(0.3);
+
+    if (table.rows.length === 0) {
+      doc.fontSize(9).text("該当する明細はありません", left);
+      return;
+    }
+
+    drawRow(table.headers, true);
+    for (const row of table.rows) {
+      drawRow(row, false);
+    }
+  }
+
+  /**
+   * 金額の表示形式（プライベートメソッド）
+   */
+  private formatAmount(value: number): string {
+    return `¥${value.toLocaleString("ja-JP")}`;
+  }
+}
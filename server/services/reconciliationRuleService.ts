@@ -0,0 +1,131 @@
+import type { NewReconciliationRule, ReconciliationRule } from "@shared/schema/integrated";
+
+import { AppError } from "../middleware/errorHandler";
+import { ReconciliationRuleRepository } from "../storage/reconciliationRule";
+
+/**
+ * 突合ルール管理サービスクラス
+ *
+ * @description 突合ルールマスタに関するビジネスロジックを担当
+ * @responsibility 突合ルールの管理（突合処理での評価はReconciliationServiceが担当）
+ */
+export class ReconciliationRuleService {
+  constructor(private reconciliationRuleRepository: ReconciliationRuleRepository) {}
+
+  /**
+   * 突合ルール一覧取得
+   *
+   * @returns 優先度順の突合ルール一覧と総件数
+   */
+  async getReconciliationRules(): Promise<{ rules: ReconciliationRule[]; totalCount: number }> {
+    try {
+      const rules = await this.reconciliationRuleRepository.findAll();
+      return { rules, totalCount: rules.length };
+    } catch (error) {
+      console.error("突合ルール一覧取得エラー:", error);
+      throw new AppError("突合ルール一覧の取得に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 突合ルール詳細取得
+   *
+   * @param id - 突合ルールID
+   * @returns 突合ルール詳細
+   */
+  async getReconciliationRuleById(id: string): Promise<ReconciliationRule> {
+    const rule = await this.reconciliationRuleRepository.findById(id);
+
+    if (!rule) {
+      throw new AppError("突合ルールが見つかりません", 404, true, "NOT_FOUND");
+    }
+
+    return rule;
+  }
+
+  /**
+   * 突合ルール作成
+   *
+   * @param data - 突合ルールデータ
+   * @returns 作成された突合ルール
+   */
+  async createReconciliationRule(data: NewReconciliationRule): Promise<ReconciliationRule> {
+    try {
+      return await this.reconciliationRuleRepository.create(this.normalizeRuleData(data));
+    } catch (error) {
+      console.error("突合ルール作成エラー:", error);
+      throw new AppError("突合ルールの作成に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 突合ルール更新
+   *
+   * @param id - 突合ルールID
+   * @param data - 更新データ
+   * @returns 更新された突合ルール
+   */
+  async updateReconciliationRule(
+    id: string,
+    data: Partial<NewReconciliationRule>
+  ): Promise<ReconciliationRule> {
+    try {
+      const rule = await this.reconciliationRuleRepository.update(id, this.normalizeRuleData(data));
+
+      if (!rule) {
+        throw new AppError("突合ルールが見つかりません", 404, true, "NOT_FOUND");
+      }
+
+      return rule;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("突合ルール更新エラー:", error);
+      throw new AppError("突合ルールの更新に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 突合ルール削除
+   *
+   * @param id - 突合ルールID
+   */
+  async deleteReconciliationRule(id: string): Promise<void> {
+    try {
+      const deleted = await this.reconciliationRuleRepository.delete(id);
+
+      if (!deleted) {
+        throw new AppError("突合ルールが見つかりません", 404, true, "NOT_FOUND");
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("突合ルール削除エラー:", error);
+      throw new AppError("突合ルールの削除に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 突合ルールデータの正規化（プライベートメソッド）
+   *
+   * @description 対象科目コードの空白・重複を除去し、未指定の場合はnull（全科目）にする
+   */
+  private normalizeRuleData<T extends Partial<NewReconciliationRule>>(data: T): T {
+    if (data.accountCodes === undefined) {
+      return data;
+    }
+
+    const codes = Array.from(
+      new Set(
+        (data.accountCodes ?? "")
+          .split(/[,、\s]+/)
+          .map((code) => code.trim())
+          .filter((code) => code.length > 0)
+      )
+    );
+
+    return { ...data, accountCodes: codes.length > 0 ? codes.join(",") : null };
+  }
+}
@@ -0,0 +1,154 @@
+import {
+  accountingPeriods,
+  reconciliationLinks,
+  reconciliationLogDetails,
+  reconciliationLogs,
+  reconciliationRules,
+} from "@shared/schema";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../db";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
+import { GLEntryRepository } from "../storage/glEntry";
+import { OrderForecastRepository } from "../storage/orderForecast";
+import { ReconciliationAliasRepository } from "../storage/reconciliationAlias";
+import { ReconciliationLinkRepository } from "../storage/reconciliationLink";
+import { ReconciliationLogRepository } from "../storage/reconciliationLog";
+import { ReconciliationRuleRepository } from "../storage/reconciliationRule";
+import { insertGLEntry, insertOrderForecast } from "../testing/fixtures";
+import { resetTestDb, type TestDb } from "../testing/testDb";
+import { ReconciliationService } from "./reconciliationService";
+
+vi.mock("../db", async () => {
+  const { createTestDb } = await import("../testing/testDb");
+  return await createTestDb();
+});
+
+const testDb = db as unknown as TestDb;
+
+describe("突合候補の承認", () => {
+  const orderForecastRepository = new OrderForecastRepository();
+  const glEntryRepository = new GLEntryRepository();
+  const service = new ReconciliationService(
+    new ReconciliationLogRepository(),
+    orderForecastRepository,
+    glEntryRepository,
+    new ReconciliationLinkRepository(),
+    new ReconciliationRuleRepository(),
+    new ReconciliationAliasRepository(),
+    new AccountingPeriodRepository()
+  );
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await resetTestDb(testDb);
+  });
+
+  it("サーバーで再判定した突合種別・スコア・判定ルールを保存し、曖昧一致の件数を記録する", async () => {
+    const exactOrder = await insertOrderForecast(testDb);
+    const exactGl = await insertGLEntry(testDb);
+    // 金額が1%異なるため厳格突合では一致せず、曖昧突合で提案される
+    const fuzzyOrder = await insertOrderForecast(testDb, {
+      description: "開発費用",
+      amount: "200000.00",
+    });
+    const fuzzyGl = await insertGLEntry(testDb, {
+      voucherNo: "V002",
+      description: "開発費用",
+      amount: "198000.00",
+    });
+
+    const { reconciliationLog, approvedCount } = await service.approveReconciliationProposals(
+      "2025-06",
+      [
+        { orderIds: [exactOrder.id], glIds: [exactGl.id] },
+        { orderIds: [fuzzyOrder.id], glIds: [fuzzyGl.id] },
+      ]
+    );
+
+    expect(approvedCount).toBe(2);
+    expect(reconciliationLog.matchedCount).toBe(1);
+    expect(reconciliationLog.fuzzyMatchedCount).toBe(1);
+
+    const links = await testDb.select().from(reconciliationLinks);
+    expect(links.find((link) => link.orderForecastId === exactOrder.id)?.matchType).toBe("exact");
+    expect(links.find((link) => link.orderForecastId === fuzzyOrder.id)?.matchType).toBe("fuzzy");
+
+    const details = await testDb.select().from(reconciliationLogDetails);
+    const exactDetail = details.find((detail) => detail.orderForecastId === exactOrder.id);
+    const fuzzyDetail = details.find((detail) => detail.orderForecastId === fuzzyOrder.id);
+    expect(exactDetail).toMatchObject({ score: 100, ruleName: "標準ルール" });
+    expect(fuzzyDetail?.score).toBeLessThan(100);
+    expect(fuzzyDetail?.ruleName).toBeNull();
+
+    expect((await orderForecastRepository.findById(fuzzyOrder.id))?.reconciliationStatus).toBe(
+      "matched"
+    );
+  });
+
+  it("提案されていない組み合わせを含む場合は409を返し、何も保存しない", async () => {
+    const order = await insertOrderForecast(testDb);
+    await insertGLEntry(testDb);
+    // 金額・摘要文が大きく異なり、どの突合でも提案されない
+    const unrelatedGl = await insertGLEntry(testDb, {
+      voucherNo: "V002",
+      description: "備品購入",
+      amount: "5000.00",
+    });
+
+    await expect(
+      service.approveReconciliationProposals("2025-06", [
+        { orderIds: [order.id], glIds: [unrelatedGl.id] },
+      ])
+    ).rejects.toMatchObject({ statusCode: 409 });
+
+    expect(await testDb.select().from(reconciliationLogs)).toHaveLength(0);
+    expect(await testDb.select().from(reconciliationLinks)).toHaveLength(0);
+    expect((await glEntryRepository.findById(unrelatedGl.id))?.reconciliationStatus).toBe(
+      "unmatched"
+    );
+  });
+});
+
+describe("計上月のずれを許容する突合ルール", () => {
+  const service = new ReconciliationService(
+    new ReconciliationLogRepository(),
+    new OrderForecastRepository(),
+    new GLEntryRepository(),
+    new ReconciliationLinkRepository(),
+    new ReconciliationRuleRepository(),
+    new ReconciliationAliasRepository(),
+    new AccountingPeriodRepository()
+  );
+  // 突合ウィンドウを使わず、突合ルールの許容範囲のみで前後月のGLを対象にする
+  const noWindow = { lookBehindMonths: 0, lookAheadMonths: 0 };
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    await resetTestDb(testDb);
+    await testDb.insert(reconciliationRules).values({ name: "翌月計上", monthTolerance: 1 });
+  });
+
+  it("翌月の除外済み・締め済みの期間のGLは突合候補にしない", async () => {
+    const order = await insertOrderForecast(testDb);
+    const nextMonth = { transactionDate: "2025-07-10", period: "2025-07" };
+    await insertGLEntry(testDb, { ...nextMonth, isExcluded: "true", exclusionReason: "対象外" });
+
+    const excluded = await service.previewReconciliation("2025-06", "exact", noWindow);
+    expect(excluded.proposals).toEqual([]);
+
+    const gl = await insertGLEntry(testDb, { ...nextMonth, voucherNo: "V002" });
+    const open = await service.previewReconciliation("2025-06", "exact", noWindow);
+    expect(open.proposals).toHaveLength(1);
+    expect(open.proposals[0]).toMatchObject({
+      orders: [{ id: order.id }],
+      glEntries: [{ id: gl.id }],
+      rule: { name: "翌月計上" },
+    });
+
+    await testDb.insert(accountingPeriods).values({ period: "2025-07", status: "closed" });
+    const closed = await service.previewReconciliation("2025-06", "exact", noWindow);
+    expect(closed.proposals).toEqual([]);
+  });
+});
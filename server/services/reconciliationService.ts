@@ -1,11 +1,118 @@
 import { accountingItems } from "@shared/schema/accountingItem";
-import { GLEntry, OrderForecast, ReconciliationLog } from "@shared/schema/integrated";
-
-import { db } from "../db";
+import {
+  AppliedReconciliationRule,
+  GLEntry,
+  NewReconciliationLogDetail,
+  OrderForecast,
+  ReconciliationAlias,
+  ReconciliationEvidence,
+  ReconciliationLink,
+  ReconciliationLog,
+  ReconciliationLogDetail,
+  ReconciliationProposal,
+  ReconciliationRule,
+} from "@shared/schema/integrated";
+import { randomUUID } from "crypto";
+
+import { db, type DbExecutor } from "../db";
 import { AppError } from "../middleware/errorHandler";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
 import { GLEntryRepository } from "../storage/glEntry";
 import { OrderForecastRepository } from "../storage/orderForecast";
+import { ReconciliationAliasRepository } from "../storage/reconciliationAlias";
+import { ReconciliationLinkRepository } from "../storage/reconciliationLink";
 import { ReconciliationLogRepository } from "../storage/reconciliationLog";
+import { ReconciliationRuleRepository } from "../storage/reconciliationRule";
+
+/** 突合タイプ（exact: 厳格突合のみ、fuzzy: 厳格突合 + 曖昧突合） */
+export type ReconciliationType = "exact" | "fuzzy";
+
+/** 突合リンクの種別（exact: 厳格突合、fuzzy: 曖昧突合、split: 分割突合、manual: 手動突合） */
+export type ReconciliationMatchType = "exact" | "fuzzy" | "split" | "manual";
+
+/** 突合プレビューで承認する候補（受発注・GLの明細IDの組。突合種別・スコア・判定ルールはサーバーで再判定する） */
+export interface ReconciliationApproval {
+  orderIds: string[];
+  glIds: string[];
+}
+
+/** 承認時に再判定した突合候補（突合種別・スコア・判定ルール） */
+type ServerProposal = {
+  matchType: ReconciliationProposal["matchType"];
+  score: number;
+  rule?: AppliedReconciliationRule;
+};
+
+/** 突合ウィンドウ（受発注の計上月に対して、GLの取引月が前後何ヶ月までずれていても突合対象とするか） */
+export interface ReconciliationWindow {
+  lookBehindMonths: number; // GLの取引月が計上月より前にずれることを許容する月数
+  lookAheadMonths: number; // GLの取引月が計上月より後にずれることを許容する月数
+}
+
+/** 突合ログ明細として記録する組（突合ログIDを除く） */
+type DetailRecord = Omit<NewReconciliationLogDetail, "reconciliationLogId">;
+
+/** 厳格突合の結果（判定した突合ルールを含む） */
+type RuleMatch = {
+  order: OrderForecast;
+  gl: GLEntry;
+  score: number;
+  rule: AppliedReconciliationRule;
+  crossPeriod: boolean; // 計上月と取引月が異なる（月度をまたいだ）突合か
+};
+
+/** 突合対象期間の前後月のデータ（突合ルールの月度のずれ・突合ウィンドウの範囲で取得） */
+interface AdjacentTargets {
+  orderForecasts: OrderForecast[];
+  glEntries: GLEntry[];
+}
+
+/** 厳格突合で評価する条件（突合ルールマスタの値を評価用に変換したもの） */
+interface MatchRule {
+  id: string | null;
+  name: string;
+  accountCodes: string[]; // 空の場合は全科目が対象
+  monthTolerance: number;
+  ignoreDescription: boolean;
+  amountToleranceCents: number;
+}
+
+/** 突合エイリアス辞書（キーは「受発注側の文字列 + 区切り文字 + GL側の文字列」の正規化後文字列） */
+interface AliasDictionary {
+  account: Set<string>;
+  description: Set<string>;
+}
+
+/** 標準ルール（月度・計上科目・摘要文・金額の完全一致）。突合ルールマスタのルールより先に評価する */
+const DEFAULT_MATCH_RULE: MatchRule = {
+  id: null,
+  name: "標準ルール",
+  accountCodes: [],
+  monthTolerance: 0,
+  ignoreDescription: false,
+  amountToleranceCents: 0,
+};
+
+/** 既定の突合ウィンドウ（請求書が翌月に計上されるケースを想定し、翌月のGLまで対象とする） */
+export const DEFAULT_RECONCILIATION_WINDOW: ReconciliationWindow = {
+  lookBehindMonths: 0,
+  lookAheadMonths: 1,
+};
+
+/** 分割突合で1グループにまとめる明細の最大件数 */
+const SPLIT_MAX_GROUP_SIZE = 5;
+
+/** 分割突合で組み合わせを探索する候補明細の最大件数 */
+const SPLIT_MAX_CANDIDATES = 20;
+
+/** 曖昧突合の候補として採用する最低スコア */
+const FUZZY_MATCH_THRESHOLD = 70;
+
+/** 曖昧突合で許容する金額差の割合（大きい方の金額に対する比率） */
+const FUZZY_AMOUNT_TOLERANCE_RATE = 0.1;
+
+/** 曖昧突合で許容する計上月からの日付差（日数） */
+const FUZZY_MAX_DATE_DIFF_DAYS = 31;
 
 /**
  * 突合処理管理サービスクラス
@@ -17,19 +124,31 @@ export class ReconciliationService {
   constructor(
     private reconciliationLogRepository: ReconciliationLogRepository,
     private orderForecastRepository: OrderForecastRepository,
-    private glEntryRepository: GLEntryRepository
+    private glEntryRepository: GLEntryRepository,
+    private reconciliationLinkRepository: ReconciliationLinkRepository,
+    private reconciliationRuleRepository: ReconciliationRuleRepository,
+    private reconciliationAliasRepository: ReconciliationAliasRepository,
+    private accountingPeriodRepository: AccountingPeriodRepository
   ) {}
 
   /**
    * 突合処理実行
    *
    * @param period - 期間
+   * @param type - 突合タイプ（fuzzyの場合は厳格突合後に曖昧突合を実行）
+   * @param window - 突合ウィンドウ（月度をまたいで突合する前後の月数）
    * @returns 突合処理結果
    */
-  async executeReconciliation(period: string): Promise<{
+  async executeReconciliation(
+    period: string,
+    type: ReconciliationType = "exact",
+    window: ReconciliationWindow = DEFAULT_RECONCILIATION_WINDOW
+  ): Promise<{
     reconciliationLog: ReconciliationLog;
     results: {
-      matched: Array<{ order: OrderForecast; gl: GLEntry; score: number }>;
+      matched: RuleMatch[];
+      splitMatched: Array<{ orders: OrderForecast[]; glEntries: GLEntry[] }>;
+      fuzzyMatched: Array<{ order: OrderForecast; gl: GLEntry; score: number }>;
       unmatchedOrders: OrderForecast[];
       unmatchedGl: GLEntry[];
       alreadyMatchedOrders: number;
@@ -37,51 +156,270 @@ export class ReconciliationService {
     };
   }> {
     try {
-      // 期間のデータを取得
-      const [orderForecasts, glEntries] = await Promise.all([
-        this.orderForecastRepository.findByPeriod(period),
-        this.glEntryRepository.findByPeriod(period),
-      ]);
-
-      // 突合処理の実行
-      const reconciliationResults = await this.performReconciliation(orderForecasts, glEntries);
+      // 突合結果の保存と突合ログの作成を1トランザクションで実行（途中で失敗した場合は全て取り消す）
+      return await db.transaction(async (tx) => {
+        // 期間のデータと突合ルールを取得
+        const { rules, orderForecasts, glEntries, adjacent, aliases } =
+          await this.loadReconciliationTargets(period, window, tx);
+
+        // 突合処理の実行
+        const reconciliationResults = this.performReconciliation(
+          orderForecasts,
+          glEntries,
+          type,
+          aliases,
+          rules,
+          adjacent,
+          window
+        );
 
-      // 既に突合済みのデータ数を計算（除外データは除く）
-      const alreadyMatchedOrders = orderForecasts.filter(
-        (order) => order.reconciliationStatus === "matched"
-      ).length;
-      const alreadyMatchedGl = glEntries.filter(
-        (gl) => gl.reconciliationStatus === "matched"
-      ).length;
+        // 既に突合済みのデータ数を計算（除外データは除く）
+        const alreadyMatchedOrders = orderForecasts.filter(
+          (order) => order.reconciliationStatus === "matched"
+        ).length;
+        const alreadyMatchedGl = glEntries.filter(
+          (gl) => gl.reconciliationStatus === "matched"
+        ).length;
 
-      // トランザクション内で突合結果を保存
-      const reconciliationLog = await db.transaction(async (_tx) => {
         // 突合ログの作成
-        const log = await this.reconciliationLogRepository.create({
-          period,
-          executedAt: new Date(),
-          matchedCount: reconciliationResults.matched.length,
-          fuzzyMatchedCount: 0, // ファジー突合は削除
-          unmatchedOrderCount: reconciliationResults.unmatchedOrders.length,
-          unmatchedGlCount: reconciliationResults.unmatchedGl.length,
-          totalOrderCount: orderForecasts.length,
-          totalGlCount: glEntries.length,
-        });
+        const reconciliationLog = await this.reconciliationLogRepository.create(
+          {
+            period,
+            executedAt: new Date(),
+            matchedCount:
+              reconciliationResults.matched.length + reconciliationResults.splitMatched.length,
+            fuzzyMatchedCount: reconciliationResults.fuzzyMatched.length,
+            unmatchedOrderCount: reconciliationResults.unmatchedOrders.length,
+            unmatchedGlCount: reconciliationResults.unmatchedGl.length,
+            totalOrderCount: orderForecasts.length,
+            totalGlCount: glEntries.length,
+          },
+          tx
+        );
+
+        // 突合結果と突合ログ明細の保存
+        await this.saveReconciliationResults(reconciliationResults, reconciliationLog.id, tx);
 
-        return log;
+        return {
+          reconciliationLog,
+          results: {
+            ...reconciliationResults,
+            alreadyMatchedOrders,
+            alreadyMatchedGl,
+          },
+        };
       });
+    } catch (error) {
+      console.error("突合処理実行エラー:", error);
+      throw new AppError("突合処理の実行中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 突合プレビュー
+   *
+   * @description executeReconciliationと同じ突合処理を行い、候補と根拠を返す（DBへの書き込みは行わない）
+   * @param period - 期間
+   * @param type - 突合タイプ
+   * @param window - 突合ウィンドウ
+   * @returns 突合候補と未突合データ
+   */
+  async previewReconciliation(
+    period: string,
+    type: ReconciliationType = "exact",
+    window: ReconciliationWindow = DEFAULT_RECONCILIATION_WINDOW
+  ): Promise<{
+    period: string;
+    proposals: ReconciliationProposal[];
+    unmatchedOrders: OrderForecast[];
+    unmatchedGl: GLEntry[];
+    alreadyMatchedOrders: number;
+    alreadyMatchedGl: number;
+  }> {
+    try {
+      const { rules, orderForecasts, glEntries, adjacent, aliases } =
+        await this.loadReconciliationTargets(period, window);
+
+      const results = this.performReconciliation(
+        orderForecasts,
+        glEntries,
+        type,
+        aliases,
+        rules,
+        adjacent,
+        window
+      );
+
+      const proposals: ReconciliationProposal[] = [
+        ...results.matched.map(({ order, gl, score, rule }) => ({
+          ...this.buildProposal("exact", [order], [gl], score, aliases),
+          rule,
+        })),
+        ...results.splitMatched.map((group) =>
+          this.buildProposal("split", group.orders, group.glEntries, 100, aliases)
+        ),
+        ...results.fuzzyMatched.map(({ order, gl, score }) =>
+          this.buildProposal("fuzzy", [order], [gl], score, aliases)
+        ),
+      ];
 
       return {
-        reconciliationLog,
-        results: {
-          ...reconciliationResults,
-          alreadyMatchedOrders,
-          alreadyMatchedGl,
-        },
+        period,
+        proposals,
+        unmatchedOrders: results.unmatchedOrders,
+        unmatchedGl: results.unmatchedGl,
+        alreadyMatchedOrders: orderForecasts.filter(
+          (order) => order.reconciliationStatus === "matched"
+        ).length,
+        alreadyMatchedGl: glEntries.filter((gl) => gl.reconciliationStatus === "matched").length,
       };
     } catch (error) {
-      console.error("突合処理実行エラー:", error);
-      throw new AppError("突合処理の実行中にエラーが発生しました", 500);
+      console.error("突合プレビューエラー:", error);
+      throw new AppError("突合プレビューの作成中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 突合プレビューの候補承認
+   *
+   * @description プレビューで選択された候補のみを突合済として保存し、突合ログを作成する。
+   * 承認時に突合処理を再実行し、サーバーが提案した組み合わせのみを受け付ける（突合種別・スコア・判定ルールは再実行の結果を保存する）。
+   * 曖昧一致の候補もユーザーが承認したものとして突合済にする。
+   * @param period - 期間
+   * @param approvals - 承認する候補
+   * @param window - 突合ウィンドウ（プレビュー時と同じ値を指定する）
+   * @returns 突合ログと突合した件数
+   * @throws AppError - 候補の指定が不正な場合、対象期間外・未突合でない明細を含む場合、提案されていない組み合わせを含む場合
+   */
+  async approveReconciliationProposals(
+    period: string,
+    approvals: ReconciliationApproval[],
+    window: ReconciliationWindow = DEFAULT_RECONCILIATION_WINDOW
+  ): Promise<{ reconciliationLog: ReconciliationLog; approvedCount: number }> {
+    try {
+      if (approvals.length === 0) {
+        throw new AppError("承認する突合候補が選択されていません", 400);
+      }
+
+      const orderIds = approvals.flatMap((approval) => approval.orderIds);
+      const glIds = approvals.flatMap((approval) => approval.glIds);
+
+      if (
+        approvals.some(
+          (approval) =>
+            approval.orderIds.length === 0 ||
+            approval.glIds.length === 0 ||
+            (approval.orderIds.length > 1 && approval.glIds.length > 1)
+        )
+      ) {
+        throw new AppError("突合候補の明細指定が正しくありません", 400);
+      }
+
+      if (new Set(orderIds).size !== orderIds.length || new Set(glIds).size !== glIds.length) {
+        throw new AppError("同じ明細が複数の突合候補に含まれています", 400);
+      }
+
+      return await db.transaction(async (tx) => {
+        // 突合ルール・突合ウィンドウで許容する前後月の明細も承認対象に含める
+        const { rules, orderForecasts, glEntries, adjacent, aliases } =
+          await this.loadReconciliationTargets(period, window, tx);
+
+        const orderById = new Map(
+          [...orderForecasts, ...adjacent.orderForecasts].map((order) => [order.id, order])
+        );
+        const glById = new Map([...glEntries, ...adjacent.glEntries].map((gl) => [gl.id, gl]));
+
+        if (orderIds.some((id) => !orderById.has(id)) || glIds.some((id) => !glById.has(id))) {
+          throw new AppError("対象期間の突合データが見つかりません", 404);
+        }
+
+        if (
+          orderIds.some((id) => orderById.get(id)!.reconciliationStatus !== "unmatched") ||
+          glIds.some((id) => glById.get(id)!.reconciliationStatus !== "unmatched")
+        ) {
+          throw new AppError(
+            "未突合でない明細が含まれています。プレビューを再実行してください",
+            409
+          );
+        }
+
+        // 突合処理を再実行し、承認された組み合わせが現在のデータで提案されるものか確認する
+        // （曖昧突合を含めて実行すると、厳格突合・分割突合の提案もすべて含まれる）
+        const proposalByKey = this.buildProposalIndex(
+          this.performReconciliation(
+            orderForecasts,
+            glEntries,
+            "fuzzy",
+            aliases,
+            rules,
+            adjacent,
+            window
+          )
+        );
+        const proposals = approvals.map((approval) =>
+          proposalByKey.get(this.toProposalKey(approval.orderIds, approval.glIds))
+        );
+        if (proposals.some((proposal) => !proposal)) {
+          throw new AppError(
+            "突合候補として提案されていない組み合わせが含まれています。プレビューを再実行してください",
+            409
+          );
+        }
+        const approvedProposals = proposals as ServerProposal[];
+        const fuzzyMatchedCount = approvedProposals.filter(
+          (proposal) => proposal.matchType === "fuzzy"
+        ).length;
+
+        const assignedOrderIds = new Set(orderIds);
+        const assignedGlIds = new Set(glIds);
+
+        const reconciliationLog = await this.reconciliationLogRepository.create(
+          {
+            period,
+            executedAt: new Date(),
+            matchedCount: approvals.length - fuzzyMatchedCount,
+            fuzzyMatchedCount,
+            unmatchedOrderCount: orderForecasts.filter(
+              (order) =>
+                order.reconciliationStatus === "unmatched" && !assignedOrderIds.has(order.id)
+            ).length,
+            unmatchedGlCount: glEntries.filter(
+              (gl) => gl.reconciliationStatus === "unmatched" && !assignedGlIds.has(gl.id)
+            ).length,
+            totalOrderCount: orderForecasts.length,
+            totalGlCount: glEntries.length,
+          },
+          tx
+        );
+
+        const details: DetailRecord[] = [];
+        for (const [index, approval] of approvals.entries()) {
+          const { matchType, score, rule } = approvedProposals[index];
+          details.push(
+            ...(await this.saveReconciliationGroup(
+              approval.orderIds.map((id) => orderById.get(id)!),
+              approval.glIds.map((id) => glById.get(id)!),
+              "matched",
+              matchType,
+              tx,
+              score,
+              rule
+            ))
+          );
+        }
+        await this.reconciliationLogRepository.createDetails(
+          details.map((detail) => ({ ...detail, reconciliationLogId: reconciliationLog.id })),
+          tx
+        );
+
+        return { reconciliationLog, approvedCount: approvals.length };
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("突合候補承認エラー:", error);
+      throw new AppError("突合候補の承認処理中にエラーが発生しました", 500);
     }
   }
 
@@ -129,10 +467,12 @@ export class ReconciliationService {
    * 突合ログ詳細取得
    *
    * @param id - 突合ログID
-   * @returns 突合ログ詳細情報
+   * @returns 突合ログ詳細情報（突合した受発注・GLの組を含む）
    * @throws AppError - 突合ログが見つからない場合
    */
-  async getReconciliationLogById(id: string): Promise<ReconciliationLog> {
+  async getReconciliationLogById(
+    id: string
+  ): Promise<ReconciliationLog & { details: ReconciliationLogDetail[] }> {
     try {
       const log = await this.reconciliationLogRepository.findById(id);
 
@@ -140,7 +480,9 @@ export class ReconciliationService {
         throw new AppError("突合ログが見つかりません", 404);
       }
 
-      return log;
+      const details = await this.reconciliationLogRepository.findDetailsByLogId(id);
+
+      return { ...log, details };
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -150,6 +492,80 @@ export class ReconciliationService {
     }
   }
 
+  /**
+   * 突合実行の取り消し
+   *
+   * @description 指定した突合ログで作成された突合グループのみを未突合に戻す。
+   * 既に突合解除されたグループ（突合リンクが残っていないもの）はスキップする。
+   * @param id - 突合ログID
+   * @returns 取り消し後の突合ログと取り消し・スキップしたグループ数
+   * @throws AppError - 突合ログが見つからない場合、既に取り消し済みの場合
+   */
+  async rollbackReconciliation(id: string): Promise<{
+    reconciliationLog: ReconciliationLog;
+    revertedGroupCount: number;
+    skippedGroupCount: number;
+  }> {
+    try {
+      return await db.transaction(async (tx) => {
+        const log = await this.reconciliationLogRepository.findById(id, tx);
+
+        if (!log) {
+          throw new AppError("突合ログが見つかりません", 404);
+        }
+
+        if (log.rolledBackAt) {
+          throw new AppError("この突合は既に取り消されています", 400);
+        }
+
+        const details = await this.reconciliationLogRepository.findDetailsByLogId(id, tx);
+        const groupIds = Array.from(new Set(details.map((detail) => detail.groupId)));
+
+        let revertedGroupCount = 0;
+        for (const groupId of groupIds) {
+          const links = await this.reconciliationLinkRepository.findByGroupId(groupId, tx);
+          if (links.length === 0) {
+            continue;
+          }
+
+          await Promise.all([
+            ...Array.from(new Set(links.map((link) => link.glEntryId))).map((glId) =>
+              this.glEntryRepository.updateReconciliationStatus(glId, "unmatched", undefined, tx)
+            ),
+            ...Array.from(new Set(links.map((link) => link.orderForecastId))).map((orderId) =>
+              this.orderForecastRepository.updateReconciliationStatus(
+                orderId,
+                "unmatched",
+                undefined,
+                tx
+              )
+            ),
+            this.reconciliationLinkRepository.deleteByGroupIds([groupId], tx),
+          ]);
+          revertedGroupCount++;
+        }
+
+        const reconciliationLog = await this.reconciliationLogRepository.update(
+          id,
+          { rolledBackAt: new Date() },
+          tx
+        );
+
+        return {
+          reconciliationLog: reconciliationLog ?? log,
+          revertedGroupCount,
+          skippedGroupCount: groupIds.length - revertedGroupCount,
+        };
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("突合取り消しエラー:", error);
+      throw new AppError("突合の取り消し処理中にエラーが発生しました", 500);
+    }
+  }
+
   /**
    * 最新突合ログ取得
    *
@@ -217,6 +633,8 @@ export class ReconciliationService {
   /**
    * 科目別サマリー取得
    *
+   * @description 差異のうち、月度をまたいで突合済みの明細による分をタイミング差異として分離し、
+   * 残りを真の差異（variance）として返す
    * @param period - 期間
    * @returns 科目別サマリー情報
    */
@@ -237,12 +655,16 @@ export class ReconciliationService {
       accountCode: string;
       accountName: string;
       difference: number;
+      timingDifference: number;
+      variance: number;
       glAmount: number;
       orderAmount: number;
     }>;
     matchedAmount: number;
     totalGlAmount: number;
     totalOrderAmount: number;
+    totalTimingDifference: number;
+    totalVariance: number;
   }> {
     try {
       // 計上科目マスタを取得して科目名→科目コードのマッピングを作成
@@ -257,7 +679,10 @@ export class ReconciliationService {
 
       // GL科目別集計（科目コードで集計）
       const glEntries = await this.glEntryRepository.findByPeriod(period);
-      const glMap = new Map<string, { accountName: string; totalAmount: number; count: number }>();
+      const glMap = new Map<
+        string,
+        { accountName: string; totalAmount: number; timingAmount: number; count: number }
+      >();
 
       for (const gl of glEntries) {
         if (gl.isExcluded === "true") continue; // 除外データをスキップ
@@ -269,19 +694,23 @@ export class ReconciliationService {
         if (!glMap.has(accountCode)) {
           // 科目名は計上科目マスタから取得して統一
           const accountName = codeToNameMap.get(accountCode) || gl.accountName;
-          glMap.set(accountCode, { accountName, totalAmount: 0, count: 0 });
+          glMap.set(accountCode, { accountName, totalAmount: 0, timingAmount: 0, count: 0 });
         }
 
         const entry = glMap.get(accountCode)!;
         entry.totalAmount += amount;
         entry.count++;
+        // 月度をまたいで突合済みのGL（相手方の受発注は別月度に計上）
+        if (gl.reconciliationStatus === "matched" && gl.isCrossPeriod === "true") {
+          entry.timingAmount += amount;
+        }
       }
 
       // 受発注見込み科目別集計（科目コードで集計）
       const orderForecasts = await this.orderForecastRepository.findByPeriod(period);
       const orderMap = new Map<
         string,
-        { accountName: string; totalAmount: number; count: number }
+        { accountName: string; totalAmount: number; timingAmount: number; count: number }
       >();
 
       for (const order of orderForecasts) {
@@ -294,12 +723,16 @@ export class ReconciliationService {
         if (!orderMap.has(accountCode)) {
           // 科目名は計上科目マスタから取得して統一
           const accountName = codeToNameMap.get(accountCode) || order.accountingItem;
-          orderMap.set(accountCode, { accountName, totalAmount: 0, count: 0 });
+          orderMap.set(accountCode, { accountName, totalAmount: 0, timingAmount: 0, count: 0 });
         }
 
         const entry = orderMap.get(accountCode)!;
         entry.totalAmount += amount;
         entry.count++;
+        // 月度をまたいで突合済みの受発注（相手方のGLは別月度に計上）
+        if (order.reconciliationStatus === "matched" && order.isCrossPeriod === "true") {
+          entry.timingAmount += amount;
+        }
       }
 
       // サマリー配列作成
@@ -320,18 +753,20 @@ export class ReconciliationService {
       // 差異計算
       const allAccountCodes = new Set([...glMap.keys(), ...orderMap.keys()]);
       const differences = Array.from(allAccountCodes).map((accountCode) => {
-        const glData = glMap.get(accountCode) || { accountName: "", totalAmount: 0, count: 0 };
-        const orderData = orderMap.get(accountCode) || {
-          accountName: "",
-          totalAmount: 0,
-          count: 0,
-        };
+        const emptyData = { accountName: "", totalAmount: 0, timingAmount: 0, count: 0 };
+        const glData = glMap.get(accountCode) || emptyData;
+        const orderData = orderMap.get(accountCode) || emptyData;
         const accountName = glData.accountName || orderData.accountName;
+        const difference = glData.totalAmount - orderData.totalAmount;
+        // タイミング差異：月度をまたいだ突合により、当月度に相手方が存在しない金額
+        const timingDifference = glData.timingAmount - orderData.timingAmount;
 
         return {
           accountCode,
           accountName,
-          difference: glData.totalAmount - orderData.totalAmount,
+          difference,
+          timingDifference,
+          variance: difference - timingDifference,
           glAmount: glData.totalAmount,
           orderAmount: orderData.totalAmount,
         };
@@ -349,6 +784,10 @@ export class ReconciliationService {
       // 合計金額の計算
       const totalGlAmount = glSummary.reduce((sum, item) => sum + item.totalAmount, 0);
       const totalOrderAmount = orderSummary.reduce((sum, item) => sum + item.totalAmount, 0);
+      const totalTimingDifference = differences.reduce(
+        (sum, item) => sum + item.timingDifference,
+        0
+      );
 
       return {
         glSummary,
@@ -357,6 +796,8 @@ export class ReconciliationService {
         matchedAmount,
         totalGlAmount,
         totalOrderAmount,
+        totalTimingDifference,
+        totalVariance: totalGlAmount - totalOrderAmount - totalTimingDifference,
       };
     } catch (error) {
       console.error("科目別サマリー取得エラー:", error);
@@ -367,32 +808,79 @@ export class ReconciliationService {
   /**
    * 手動突合
    *
-   * @param glId - GL明細ID
-   * @param orderId - 受発注見込み明細ID
-   * @returns 突合結果
+   * @description 1対1に加え、1対多・多対1の分割突合に対応する（多対多は不可）。
+   * 計上科目・摘要文が一致しない組を突合した場合は、突合エイリアス辞書に記録して以降の突合で同一とみなす。
+   * @param glIds - GL明細IDリスト
+   * @param orderIds - 受発注見込み明細IDリスト
+   * @returns 突合結果と記録した突合エイリアス
+   * @throws AppError - 多対多の指定時、データ不存在時、既に突合済み・突合対象外の明細を含む場合
    */
   async manualReconcile(
-    glId: string,
-    orderId: string
-  ): Promise<{ gl: GLEntry; order: OrderForecast }> {
+    glIds: string[],
+    orderIds: string[]
+  ): Promise<{
+    glEntries: GLEntry[];
+    orderForecasts: OrderForecast[];
+    learnedAliases: ReconciliationAlias[];
+  }> {
     try {
-      await db.transaction(async (_tx) => {
-        await Promise.all([
-          this.glEntryRepository.updateReconciliationStatus(glId, "matched", orderId),
-          this.orderForecastRepository.updateReconciliationStatus(orderId, "matched", glId),
+      if (glIds.length === 0 || orderIds.length === 0) {
+        throw new AppError("GL IDと受発注見込みIDが必要です", 400);
+      }
+
+      if (glIds.length > 1 && orderIds.length > 1) {
+        throw new AppError(
+          "多対多の突合はできません。GLか受発注見込みのどちらかは1件にしてください",
+          400
+        );
+      }
+
+      return await db.transaction(async (tx) => {
+        const [currentGlEntries, currentOrders] = await Promise.all([
+          Promise.all(glIds.map((id) => this.glEntryRepository.findById(id, tx))),
+          Promise.all(orderIds.map((id) => this.orderForecastRepository.findById(id, tx))),
         ]);
-      });
 
-      const [gl, order] = await Promise.all([
-        this.glEntryRepository.findById(glId),
-        this.orderForecastRepository.findById(orderId),
-      ]);
+        if (currentGlEntries.some((gl) => !gl) || currentOrders.some((order) => !order)) {
+          throw new AppError("突合データが見つかりません", 404);
+        }
 
-      if (!gl || !order) {
-        throw new AppError("突合データが見つかりません", 404);
-      }
+        const targetGlEntries = currentGlEntries as GLEntry[];
+        const targetOrders = currentOrders as OrderForecast[];
+
+        if (
+          targetGlEntries.some((gl) => gl.reconciliationStatus === "matched") ||
+          targetOrders.some((order) => order.reconciliationStatus === "matched")
+        ) {
+          throw new AppError("既に突合済みの明細が含まれています。先に突合を解除してください", 400);
+        }
+
+        if (
+          targetGlEntries.some((gl) => gl.isExcluded === "true") ||
+          targetOrders.some(
+            (order) => order.isExcluded === "true" || order.reconciliationStatus === "excluded"
+          )
+        ) {
+          throw new AppError("突合対象外の明細が含まれています。先に除外を解除してください", 400);
+        }
 
-      return { gl, order };
+        // 曖昧一致で提案中の明細は、提案相手の明細も含めて未突合に戻してから突合する
+        await this.clearFuzzyMatches(targetOrders, targetGlEntries, tx);
+
+        await this.saveReconciliationGroup(targetOrders, targetGlEntries, "matched", "manual", tx);
+        const learnedAliases = await this.recordAliases(targetOrders, targetGlEntries, tx);
+
+        const [glEntries, orderForecasts] = await Promise.all([
+          Promise.all(glIds.map((id) => this.glEntryRepository.findById(id, tx))),
+          Promise.all(orderIds.map((id) => this.orderForecastRepository.findById(id, tx))),
+        ]);
+
+        return {
+          glEntries: glEntries.filter((gl): gl is GLEntry => gl !== null),
+          orderForecasts: orderForecasts.filter((order): order is OrderForecast => order !== null),
+          learnedAliases,
+        };
+      });
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -403,157 +891,1099 @@ export class ReconciliationService {
   }
 
   /**
-   * 突合解除
+   * 突合リンク取得
+   *
+   * @description 指定した明細が属する突合グループのリンクと相手方の明細を取得する
+   * @param params - 受発注見込み明細IDまたはGL明細ID
+   * @returns 突合リンクと関連明細
+   */
+  async getReconciliationLinks(params: { orderId?: string; glId?: string }): Promise<{
+    links: ReconciliationLink[];
+    orderForecasts: OrderForecast[];
+    glEntries: GLEntry[];
+  }> {
+    try {
+      const links = await this.findLinkGroup(params.glId, params.orderId);
+
+      const orderIds = Array.from(new Set(links.map((link) => link.orderForecastId)));
+      const glIds = Array.from(new Set(links.map((link) => link.glEntryId)));
+
+      const [orderForecasts, glEntries] = await Promise.all([
+        Promise.all(orderIds.map((id) => this.orderForecastRepository.findById(id))),
+        Promise.all(glIds.map((id) => this.glEntryRepository.findById(id))),
+      ]);
+
+      return {
+        links,
+        orderForecasts: orderForecasts.filter((order): order is OrderForecast => order !== null),
+        glEntries: glEntries.filter((gl): gl is GLEntry => gl !== null),
+      };
+    } catch (error) {
+      console.error("突合リンク取得エラー:", error);
+      throw new AppError("突合リンクの取得中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 曖昧一致の確定
    *
+   * @description 曖昧突合で提案された組み合わせをユーザー確認済みとして突合済にする
    * @param glId - GL明細ID
    * @param orderId - 受発注見込み明細ID
-   * @returns 解除結果
+   * @returns 確定結果
+   * @throws AppError - データ不存在時、曖昧一致の組み合わせでない場合
    */
-  async unmatchReconciliation(
+  async confirmFuzzyMatch(
     glId: string,
     orderId: string
   ): Promise<{ gl: GLEntry; order: OrderForecast }> {
     try {
-      await db.transaction(async (_tx) => {
-        await Promise.all([
-          this.glEntryRepository.updateReconciliationStatus(glId, "unmatched", undefined),
-          this.orderForecastRepository.updateReconciliationStatus(orderId, "unmatched", undefined),
+      return await db.transaction(async (tx) => {
+        const [currentGl, currentOrder] = await Promise.all([
+          this.glEntryRepository.findById(glId, tx),
+          this.orderForecastRepository.findById(orderId, tx),
         ]);
-      });
 
-      const [gl, order] = await Promise.all([
-        this.glEntryRepository.findById(glId),
-        this.orderForecastRepository.findById(orderId),
-      ]);
+        if (!currentGl || !currentOrder) {
+          throw new AppError("突合データが見つかりません", 404);
+        }
 
-      if (!gl || !order) {
-        throw new AppError("突合データが見つかりません", 404);
-      }
+        if (
+          currentGl.reconciliationStatus !== "fuzzy" ||
+          currentOrder.reconciliationStatus !== "fuzzy" ||
+          currentGl.orderMatchId !== orderId ||
+          currentOrder.glMatchId !== glId
+        ) {
+          throw new AppError("曖昧一致として提案された組み合わせではありません", 400);
+        }
+
+        const [gl, order] = await Promise.all([
+          this.glEntryRepository.updateReconciliationStatus(glId, "matched", orderId, tx),
+          this.orderForecastRepository.updateReconciliationStatus(orderId, "matched", glId, tx),
+        ]);
+
+        if (!gl || !order) {
+          throw new AppError("突合データが見つかりません", 404);
+        }
 
-      return { gl, order };
+        return { gl, order };
+      });
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
       }
-      console.error("突合解除エラー:", error);
-      throw new AppError("突合解除処理中にエラーが発生しました", 500);
+      console.error("曖昧一致確定エラー:", error);
+      throw new AppError("曖昧一致の確定処理中にエラーが発生しました", 500);
     }
   }
 
   /**
-   * 突合処理の実装（プライベートメソッド）
+   * 突合解除
+   *
+   * @description 突合リンクがある場合はグループ単位（分割突合の全明細）で解除する
+   * @param glId - GL明細ID
+   * @param orderId - 受発注見込み明細ID（突合リンクのない旧データの解除時は必須）
+   * @param executor - 呼び出し元のトランザクション（指定時はその中でセーブポイントとして実行）
+   * @returns 解除結果
    */
-  private async performReconciliation(
-    orderForecasts: OrderForecast[],
-    glEntries: GLEntry[]
-  ): Promise<{
-    matched: Array<{ order: OrderForecast; gl: GLEntry; score: number }>;
-    unmatchedOrders: OrderForecast[];
-    unmatchedGl: GLEntry[];
-  }> {
-    const matched: Array<{ order: OrderForecast; gl: GLEntry; score: number }> = [];
-    const unmatchedOrders: OrderForecast[] = [];
-    const unmatchedGl: GLEntry[] = [...glEntries].filter(
-      (gl) => gl.reconciliationStatus !== "excluded" && gl.reconciliationStatus !== "matched"
-    ); // 除外データと既に突合済みのデータを除く
-
-    // 受発注データごとに突合処理を実行（除外データと既に突合済みのデータをスキップ）
-    for (const order of orderForecasts) {
-      if (order.reconciliationStatus === "excluded") {
-        continue; // 除外データはスキップ
-      }
-
-      if (order.reconciliationStatus === "matched") {
-        continue; // 既に突合済みのデータはスキップ
-      }
-
-      let bestMatch: GLEntry | null = null;
-      let bestScore = 0;
-
-      // GLデータとの突合チェック
-      for (let i = unmatchedGl.length - 1; i >= 0; i--) {
-        const gl = unmatchedGl[i];
-
-        // 月度の一致チェック（受発注のaccountingPeriodとGLのtransactionDateの月が一致）
-        const orderMonth = order.accountingPeriod; // 例: "2025-08"
-        const glMonth = gl.transactionDate.substring(0, 7); // 例: "2025-08"
-
-        if (orderMonth !== glMonth) {
-          continue;
-        }
-
-        // 計上科目の一致チェック（半角・全角の違いを吸収）
-        const isAccountMatch = this.isAccountMatch(order.accountingItem, gl.accountName);
-        if (!isAccountMatch) {
-          continue;
-        }
-
-        // 摘要文の一致チェック（半角・全角の違いを吸収）
-        const isDescriptionMatch = this.isDescriptionMatch(
-          order.description || "",
-          gl.description || ""
-        );
-        if (!isDescriptionMatch) {
-          continue;
+  async unmatchReconciliation(
+    glId: string,
+    orderId?: string,
+    executor: DbExecutor = db
+  ): Promise<{ glEntries: GLEntry[]; orderForecasts: OrderForecast[] }> {
+    try {
+      return await executor.transaction(async (tx) => {
+        const links = await this.findLinkGroup(glId, orderId, tx);
+
+        let glIds: string[];
+        let orderIds: string[];
+
+        if (links.length > 0) {
+          glIds = Array.from(new Set(links.map((link) => link.glEntryId)));
+          orderIds = Array.from(new Set(links.map((link) => link.orderForecastId)));
+        } else {
+          // 突合リンク導入前の1対1突合
+          if (!orderId) {
+            throw new AppError("突合情報が見つかりません", 404);
+          }
+          glIds = [glId];
+          orderIds = [orderId];
         }
 
-        // 金額の完全一致チェック
-        const orderAmount = parseFloat(order.amount);
-        const glAmount = parseFloat(gl.amount);
+        const [glEntries, orderForecasts] = await Promise.all([
+          Promise.all(
+            glIds.map((id) =>
+              this.glEntryRepository.updateReconciliationStatus(id, "unmatched", undefined, tx)
+            )
+          ),
+          Promise.all(
+            orderIds.map((id) =>
+              this.orderForecastRepository.updateReconciliationStatus(
+                id,
+                "unmatched",
+                undefined,
+                tx
+              )
+            )
+          ),
+          this.reconciliationLinkRepository.deleteByGroupIds(
+            Array.from(new Set(links.map((link) => link.groupId))),
+            tx
+          ),
+        ]);
 
-        if (orderAmount !== glAmount) {
-          continue;
+        if (glEntries.some((gl) => !gl) || orderForecasts.some((order) => !order)) {
+          throw new AppError("突合データが見つかりません", 404);
         }
 
-        // 厳格突合の条件を満たす場合
-        const score = 100; // 厳格突合なので常に100点
-
-        if (score > bestScore) {
-          bestMatch = gl;
-          bestScore = score;
-        }
+        return {
+          glEntries: glEntries as GLEntry[],
+          orderForecasts: orderForecasts as OrderForecast[],
+        };
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
       }
+      console.error("突合解除エラー:", error);
+      throw new AppError("突合解除処理中にエラーが発生しました", 500);
+    }
+  }
 
-      // マッチが見つかった場合
-      if (bestMatch && bestScore > 0) {
-        // トランザクション内で突合ステータスを更新
-        await db.transaction(async (_tx) => {
-          await Promise.all([
-            this.orderForecastRepository.updateReconciliationStatus(
-              order.id,
-              "matched",
-              bestMatch.id
-            ),
-            this.glEntryRepository.updateReconciliationStatus(bestMatch.id, "matched", order.id),
-          ]);
-        });
-
-        // 結果に追加
-        matched.push({ order, gl: bestMatch, score: bestScore });
-
-        // マッチしたGLデータを未突合リストから削除
-        const index = unmatchedGl.findIndex((gl) => gl.id === bestMatch.id);
-        if (index !== -1) {
-          unmatchedGl.splice(index, 1);
-        }
-      } else {
-        // マッチしない受発注データ
-        unmatchedOrders.push(order);
-      }
+  /**
+   * 突合結果から承認照合用の候補索引を作成（プライベートメソッド）
+   *
+   * @description 受発注・GLの明細IDの組をキーに、突合種別・スコア・判定ルールを引けるようにする
+   */
+  private buildProposalIndex(
+    results: ReturnType<ReconciliationService["performReconciliation"]>
+  ): Map<string, ServerProposal> {
+    const index = new Map<string, ServerProposal>();
+    for (const { order, gl, score, rule } of results.matched) {
+      index.set(this.toProposalKey([order.id], [gl.id]), { matchType: "exact", score, rule });
+    }
+    for (const group of results.splitMatched) {
+      index.set(
+        this.toProposalKey(
+          group.orders.map((order) => order.id),
+          group.glEntries.map((gl) => gl.id)
+        ),
+        { matchType: "split", score: 100 }
+      );
+    }
+    for (const { order, gl, score } of results.fuzzyMatched) {
+      index.set(this.toProposalKey([order.id], [gl.id]), { matchType: "fuzzy", score });
     }
+    return index;
+  }
 
-    return {
-      matched,
-      unmatchedOrders,
-      unmatchedGl,
-    };
+  /**
+   * 突合候補の照合キーを作成（プライベートメソッド）
+   */
+  private toProposalKey(orderIds: string[], glIds: string[]): string {
+    return `${[...orderIds].sort().join(",")}|${[...glIds].sort().join(",")}`;
   }
 
   /**
-   * テキスト正規化（デバッグ用）
+   * 突合候補の作成（プライベートメソッド）
    *
-   * @param text 正規化する文字列
-   * @returns 正規化された文字列
+   * @description 計上科目・摘要文・金額・日付差の一致状況を根拠として添付する
+   */
+  private buildProposal(
+    matchType: ReconciliationProposal["matchType"],
+    orders: OrderForecast[],
+    gls: GLEntry[],
+    score: number,
+    aliases: AliasDictionary
+  ): ReconciliationProposal {
+    const unique = (values: string[]): string[] => Array.from(new Set(values));
+    const toCents = (amount: string): number => Math.round(parseFloat(amount) * 100);
+
+    const orderAccounts = unique(orders.map((order) => order.accountingItem));
+    const glAccounts = unique(gls.map((gl) => gl.accountName));
+    const orderDescriptions = unique(orders.map((order) => order.description || ""));
+    const glDescriptions = unique(gls.map((gl) => gl.description || ""));
+
+    const pairs = orders.flatMap((order) => gls.map((gl) => ({ order, gl })));
+    const orderTotal = orders.reduce((sum, order) => sum + toCents(order.amount), 0);
+    const glTotal = gls.reduce((sum, gl) => sum + toCents(gl.amount), 0);
+
+    const evidence: ReconciliationEvidence = {
+      account: {
+        orderAccounts,
+        glAccounts,
+        matched: pairs.every(({ order, gl }) =>
+          this.isAccountMatch(order.accountingItem, gl.accountName, aliases)
+        ),
+      },
+      description: {
+        orderDescriptions,
+        glDescriptions,
+        matched: pairs.some(({ order, gl }) =>
+          this.isDescriptionMatch(order.description || "", gl.description || "", aliases)
+        ),
+        similarity: Math.round(
+          Math.max(
+            ...pairs.map(({ order, gl }) =>
+              this.calculateTextSimilarity(order.description || "", gl.description || "")
+            )
+          ) * 100
+        ),
+      },
+      amount: {
+        orderTotal: orderTotal / 100,
+        glTotal: glTotal / 100,
+        difference: (orderTotal - glTotal) / 100,
+      },
+      dateDiff: Math.max(
+        ...pairs.map(({ order, gl }) =>
+          this.calculateDateDiff(order.accountingPeriod, gl.transactionDate)
+        )
+      ),
+      crossPeriod: pairs.some(({ order, gl }) => this.isCrossPeriodPair(order, gl)),
+    };
+
+    return { matchType, orders, glEntries: gls, score, evidence };
+  }
+
+  /**
+   * 突合結果の保存（プライベートメソッド）
+   *
+   * @description 厳格突合・分割突合は突合済、曖昧突合は提案状態（fuzzy）で保存し、GL突合画面での確定を待つ。
+   * 突合した組は突合ログ明細として記録し、取り消し時に参照する。
+   */
+  private async saveReconciliationResults(
+    results: {
+      matched: RuleMatch[];
+      splitMatched: Array<{ orders: OrderForecast[]; glEntries: GLEntry[] }>;
+      fuzzyMatched: Array<{ order: OrderForecast; gl: GLEntry; score: number }>;
+    },
+    reconciliationLogId: string,
+    tx: DbExecutor
+  ): Promise<void> {
+    const details: DetailRecord[] = [];
+
+    for (const { order, gl, score, rule } of results.matched) {
+      details.push(
+        ...(await this.saveReconciliationGroup([order], [gl], "matched", "exact", tx, score, rule))
+      );
+    }
+    for (const group of results.splitMatched) {
+      details.push(
+        ...(await this.saveReconciliationGroup(
+          group.orders,
+          group.glEntries,
+          "matched",
+          "split",
+          tx,
+          100
+        ))
+      );
+    }
+    for (const { order, gl, score } of results.fuzzyMatched) {
+      details.push(
+        ...(await this.saveReconciliationGroup([order], [gl], "fuzzy", "fuzzy", tx, score))
+      );
+    }
+
+    await this.reconciliationLogRepository.createDetails(
+      details.map((detail) => ({ ...detail, reconciliationLogId })),
+      tx
+    );
+  }
+
+  /**
+   * 突合グループの保存（プライベートメソッド）
+   *
+   * @description 受発注・GLの突合ステータスを更新し、突合リンクを作成する。
+   * 1対1の場合のみglMatchId/orderMatchIdに相手方IDを設定し、分割突合は突合リンクで管理する。
+   * 計上月と取引月が異なる組を含む場合は、グループ内の全明細に月度をまたいだ突合フラグを設定する。
+   * 呼び出し元のトランザクション内で実行すること。
+   * @param rule - 厳格突合を判定した突合ルール（突合ログ明細に記録する）
+   * @returns 突合ログ明細として記録する組（突合ログIDは呼び出し元で付与する）
+   */
+  private async saveReconciliationGroup(
+    orders: OrderForecast[],
+    gls: GLEntry[],
+    status: "matched" | "fuzzy",
+    matchType: ReconciliationMatchType,
+    tx: DbExecutor,
+    score: number = 100,
+    rule?: AppliedReconciliationRule
+  ): Promise<DetailRecord[]> {
+    const isOneToOne = orders.length === 1 && gls.length === 1;
+    const groupId = randomUUID();
+    const pairs = orders.flatMap((order) => gls.map((gl) => ({ order, gl })));
+
+    await Promise.all([
+      ...orders.map((order) =>
+        this.orderForecastRepository.updateReconciliationStatus(
+          order.id,
+          status,
+          isOneToOne ? gls[0].id : undefined,
+          tx
+        )
+      ),
+      ...gls.map((gl) =>
+        this.glEntryRepository.updateReconciliationStatus(
+          gl.id,
+          status,
+          isOneToOne ? orders[0].id : undefined,
+          tx
+        )
+      ),
+      this.reconciliationLinkRepository.createMany(
+        pairs.map(({ order, gl }) => ({
+          groupId,
+          orderForecastId: order.id,
+          glEntryId: gl.id,
+          matchType,
+        })),
+        tx
+      ),
+    ]);
+
+    if (pairs.some(({ order, gl }) => this.isCrossPeriodPair(order, gl))) {
+      await Promise.all([
+        this.orderForecastRepository.markCrossPeriod(
+          orders.map((order) => order.id),
+          tx
+        ),
+        this.glEntryRepository.markCrossPeriod(
+          gls.map((gl) => gl.id),
+          tx
+        ),
+      ]);
+    }
+
+    return pairs.map(({ order, gl }) => ({
+      groupId,
+      orderForecastId: order.id,
+      glEntryId: gl.id,
+      matchType,
+      status,
+      score: Math.round(score),
+      ruleId: rule?.id ?? null,
+      ruleName: rule?.name ?? null,
+    }));
+  }
+
+  /**
+   * 曖昧一致の提案の解除（プライベートメソッド）
+   *
+   * @description 曖昧一致の明細が属する突合グループの全明細を未突合に戻し、突合リンクを削除する
+   */
+  private async clearFuzzyMatches(
+    orders: OrderForecast[],
+    gls: GLEntry[],
+    tx: DbExecutor
+  ): Promise<void> {
+    const fuzzyOrders = orders.filter((order) => order.reconciliationStatus === "fuzzy");
+    const fuzzyGls = gls.filter((gl) => gl.reconciliationStatus === "fuzzy");
+    if (fuzzyOrders.length === 0 && fuzzyGls.length === 0) {
+      return;
+    }
+
+    const links = (
+      await Promise.all([
+        ...fuzzyOrders.map((order) => this.findLinkGroup(undefined, order.id, tx)),
+        ...fuzzyGls.map((gl) => this.findLinkGroup(gl.id, undefined, tx)),
+      ])
+    ).flat();
+
+    // 突合リンク導入前の1対1の提案は相手方のIDで解除する
+    const orderIds = new Set([
+      ...fuzzyOrders.map((order) => order.id),
+      ...fuzzyGls.flatMap((gl) => (gl.orderMatchId ? [gl.orderMatchId] : [])),
+      ...links.map((link) => link.orderForecastId),
+    ]);
+    const glIds = new Set([
+      ...fuzzyGls.map((gl) => gl.id),
+      ...fuzzyOrders.flatMap((order) => (order.glMatchId ? [order.glMatchId] : [])),
+      ...links.map((link) => link.glEntryId),
+    ]);
+
+    await Promise.all([
+      ...Array.from(orderIds).map((id) =>
+        this.orderForecastRepository.updateReconciliationStatus(id, "unmatched", undefined, tx)
+      ),
+      ...Array.from(glIds).map((id) =>
+        this.glEntryRepository.updateReconciliationStatus(id, "unmatched", undefined, tx)
+      ),
+      this.reconciliationLinkRepository.deleteByGroupIds(
+        Array.from(new Set(links.map((link) => link.groupId))),
+        tx
+      ),
+    ]);
+  }
+
+  /**
+   * 明細が属する突合グループのリンクを取得（プライベートメソッド）
+   *
+   * @param glId - GL明細ID
+   * @param orderId - 受発注見込み明細ID
+   * @param executor - クエリ実行先
+   * @returns グループ内の全突合リンク（見つからない場合は空配列）
+   */
+  private async findLinkGroup(
+    glId?: string,
+    orderId?: string,
+    executor: DbExecutor = db
+  ): Promise<ReconciliationLink[]> {
+    let links: ReconciliationLink[] = [];
+
+    if (glId) {
+      links = await this.reconciliationLinkRepository.findByGlEntryId(glId, executor);
+      if (orderId) {
+        links = links.filter((link) => link.orderForecastId === orderId);
+      }
+    } else if (orderId) {
+      links = await this.reconciliationLinkRepository.findByOrderForecastId(orderId, executor);
+    }
+
+    const groupIds = Array.from(new Set(links.map((link) => link.groupId)));
+    const groups = await Promise.all(
+      groupIds.map((groupId) => this.reconciliationLinkRepository.findByGroupId(groupId, executor))
+    );
+
+    return groups.flat();
+  }
+
+  /**
+   * 突合対象データの取得（プライベートメソッド）
+   *
+   * @description 期間の受発注・GLと有効な突合ルールを取得する。
+   * 突合ルールで許容する月度のずれ・突合ウィンドウの範囲内にある前後月の受発注・GLもあわせて取得する。
+   * あわせて突合エイリアス辞書を読み込む（一致判定の各処理に引数で渡す）。
+   */
+  private async loadReconciliationTargets(
+    period: string,
+    window: ReconciliationWindow = DEFAULT_RECONCILIATION_WINDOW,
+    executor: DbExecutor = db
+  ): Promise<{
+    rules: ReconciliationRule[];
+    orderForecasts: OrderForecast[];
+    glEntries: GLEntry[];
+    adjacent: AdjacentTargets;
+    aliases: AliasDictionary;
+  }> {
+    const [rules, orderForecasts, glEntries, aliasRecords] = await Promise.all([
+      this.reconciliationRuleRepository.findActive(executor),
+      this.orderForecastRepository.findByPeriod(period, executor),
+      this.glEntryRepository.findByPeriod(period, executor),
+      this.reconciliationAliasRepository.findAll(undefined, executor),
+    ]);
+
+    const aliases: AliasDictionary = {
+      account: new Set(
+        aliasRecords
+          .filter((alias) => alias.aliasType === "account")
+          .map((alias) => this.toAliasKey(alias.orderText, alias.glText))
+      ),
+      description: new Set(
+        aliasRecords
+          .filter((alias) => alias.aliasType === "description")
+          .map((alias) => this.toAliasKey(alias.orderText, alias.glText))
+      ),
+    };
+
+    // GLは「当月度の受発注の計上月からのずれ」の範囲、受発注は「当月度のGLの取引月からのずれ」の範囲で取得
+    const maxMonthTolerance = Math.max(0, ...rules.map((rule) => rule.monthTolerance));
+    const glOffsets = this.toOffsets(
+      Math.max(maxMonthTolerance, window.lookBehindMonths),
+      Math.max(maxMonthTolerance, window.lookAheadMonths)
+    );
+    const orderOffsets = this.toOffsets(window.lookAheadMonths, window.lookBehindMonths);
+
+    const [adjacentOrders, adjacentGlEntries, accountingPeriods] = await Promise.all([
+      Promise.all(
+        orderOffsets.map((offset) =>
+          this.orderForecastRepository.findByPeriod(this.shiftPeriod(period, offset), executor)
+        )
+      ),
+      Promise.all(
+        glOffsets.map((offset) =>
+          this.glEntryRepository.findByPeriod(this.shiftPeriod(period, offset), executor)
+        )
+      ),
+      this.accountingPeriodRepository.findAll(executor),
+    ]);
+
+    // 締め済みの前後月の明細は突合状態を変更できないため対象外とする
+    const closedPeriods = new Set(
+      accountingPeriods.filter(({ status }) => status === "closed").map(({ period }) => period)
+    );
+
+    return {
+      rules,
+      orderForecasts,
+      glEntries,
+      adjacent: {
+        orderForecasts: adjacentOrders
+          .flat()
+          .filter((order) => !closedPeriods.has(order.accountingPeriod)),
+        glEntries: adjacentGlEntries.flat().filter((gl) => !closedPeriods.has(gl.period)),
+      },
+      aliases,
+    };
+  }
+
+  /**
+   * 突合処理の実装（プライベートメソッド）
+   *
+   * @description 厳格突合・分割突合を行い、typeがfuzzyの場合は残りのデータに対して曖昧突合を行う。
+   * 厳格突合は標準ルール、突合ルールマスタの有効ルール（優先度順）の順に評価し、
+   * 先に評価したルールで突合できた明細は後のルールの対象から外す。
+   * 前後月のGLは計上月のずれを許容するルールでのみ突合対象とする（除外・突合済みの明細と締め済みの期間の明細は除く）。
+   * 続けて突合ウィンドウの範囲で、当月度の明細と前後月の明細を月度をまたいで突合する
+   * （前後月の明細のうち、自月度内に突合できる相手がいるものは対象外とする）。
+   * 前後月の明細は分割突合・曖昧突合の対象には含めない。
+   * 突合候補の算出のみを行い、DBへの書き込みは行わない（保存はsaveReconciliationResults）。
+   */
+  private performReconciliation(
+    orderForecasts: OrderForecast[],
+    glEntries: GLEntry[],
+    type: ReconciliationType,
+    aliases: AliasDictionary,
+    rules: ReconciliationRule[] = [],
+    adjacent: AdjacentTargets = { orderForecasts: [], glEntries: [] },
+    window: ReconciliationWindow = { lookBehindMonths: 0, lookAheadMonths: 0 }
+  ): {
+    matched: RuleMatch[];
+    splitMatched: Array<{ orders: OrderForecast[]; glEntries: GLEntry[] }>;
+    fuzzyMatched: Array<{ order: OrderForecast; gl: GLEntry; score: number }>;
+    unmatchedOrders: OrderForecast[];
+    unmatchedGl: GLEntry[];
+  } {
+    // 除外データ（除外フラグのみ設定されたGLを含む）、既に突合済み・曖昧一致提案中のデータを除く（前後月の明細も同様）
+    const isTarget = (row: { reconciliationStatus: string; isExcluded: string }): boolean =>
+      row.isExcluded !== "true" &&
+      row.reconciliationStatus !== "excluded" &&
+      row.reconciliationStatus !== "matched" &&
+      row.reconciliationStatus !== "fuzzy";
+
+    const matched: RuleMatch[] = [];
+    const unmatchedOrders = orderForecasts.filter(isTarget);
+    const unmatchedGl = glEntries.filter(isTarget);
+    const adjacentOrders = adjacent.orderForecasts.filter(isTarget);
+    const adjacentGl = adjacent.glEntries.filter(isTarget);
+    const assignedGlIds = new Set<string>();
+
+    const matchRules = [DEFAULT_MATCH_RULE, ...rules.map((rule) => this.toMatchRule(rule))];
+
+    for (const rule of matchRules) {
+      const candidates = rule.monthTolerance > 0 ? [...unmatchedGl, ...adjacentGl] : unmatchedGl;
+      matched.push(
+        ...this.matchByRule(rule, unmatchedOrders, candidates, assignedGlIds, (order, gl) =>
+          this.isRuleMatch(rule, order, gl, aliases)
+        )
+      );
+    }
+
+    // 突合ウィンドウ（月度をまたいだ突合）
+    if (window.lookBehindMonths > 0 || window.lookAheadMonths > 0) {
+      // 前後月の明細のうち、自月度内に標準ルールで突合できる相手がいるものはその月度の突合に委ねる
+      const hasOwnPeriodMatch = (order: OrderForecast, gl: GLEntry): boolean =>
+        !this.isCrossPeriodPair(order, gl) &&
+        this.isRuleMatch(DEFAULT_MATCH_RULE, order, gl, aliases);
+      const periodOrderIds = new Set(unmatchedOrders.map((order) => order.id));
+      const periodGlIds = new Set(unmatchedGl.map((gl) => gl.id));
+
+      const windowOrders = [
+        ...unmatchedOrders,
+        ...adjacentOrders.filter((order) => !adjacentGl.some((gl) => hasOwnPeriodMatch(order, gl))),
+      ];
+      const windowGl = [
+        ...unmatchedGl,
+        ...adjacentGl.filter((gl) => !adjacentOrders.some((order) => hasOwnPeriodMatch(order, gl))),
+      ];
+
+      const windowMatched: RuleMatch[] = [];
+      for (const rule of matchRules) {
+        windowMatched.push(
+          ...this.matchByRule(
+            rule,
+            windowOrders,
+            windowGl,
+            assignedGlIds,
+            (order, gl) =>
+              (periodOrderIds.has(order.id) || periodGlIds.has(gl.id)) &&
+              this.isInWindow(order, gl, window) &&
+              this.isRuleMatch(rule, order, gl, aliases, false)
+          )
+        );
+      }
+
+      // ウィンドウで突合した当月度の受発注を未突合リストから削除
+      const windowMatchedOrderIds = new Set(windowMatched.map(({ order }) => order.id));
+      for (let i = unmatchedOrders.length - 1; i >= 0; i--) {
+        if (windowMatchedOrderIds.has(unmatchedOrders[i].id)) {
+          unmatchedOrders.splice(i, 1);
+        }
+      }
+      matched.push(...windowMatched);
+    }
+
+    // マッチしたGLデータを未突合リストから削除
+    for (let i = unmatchedGl.length - 1; i >= 0; i--) {
+      if (assignedGlIds.has(unmatchedGl[i].id)) {
+        unmatchedGl.splice(i, 1);
+      }
+    }
+
+    // 分割突合（厳格突合で残ったデータが対象）
+    const splitMatched = this.performSplitReconciliation(unmatchedOrders, unmatchedGl, aliases);
+
+    // 曖昧突合（厳格突合・分割突合で残ったデータが対象）
+    const fuzzyMatched =
+      type === "fuzzy"
+        ? this.performFuzzyReconciliation(unmatchedOrders, unmatchedGl, aliases)
+        : [];
+
+    return {
+      matched,
+      splitMatched,
+      fuzzyMatched,
+      unmatchedOrders,
+      unmatchedGl,
+    };
+  }
+
+  /**
+   * 1つの突合ルールによる厳格突合（プライベートメソッド）
+   *
+   * @description 条件を満たすGLのうち、金額差・月度のずれが最も小さいものを受発注に割り当てる。
+   * 割り当てた受発注は引数の配列から取り除き、GLはassignedGlIdsに追加する。
+   * @param isMatch - 受発注とGLの組が突合条件を満たすか判定する関数
+   * @returns 突合した組
+   */
+  private matchByRule(
+    rule: MatchRule,
+    orders: OrderForecast[],
+    candidates: GLEntry[],
+    assignedGlIds: Set<string>,
+    isMatch: (order: OrderForecast, gl: GLEntry) => boolean
+  ): RuleMatch[] {
+    const toCents = (amount: string): number => Math.round(parseFloat(amount) * 100);
+    const matched: RuleMatch[] = [];
+
+    for (let i = 0; i < orders.length; i++) {
+      const order = orders[i];
+
+      let bestMatch: GLEntry | null = null;
+      let bestDistance = Infinity;
+
+      for (const gl of candidates) {
+        if (assignedGlIds.has(gl.id) || !isMatch(order, gl)) {
+          continue;
+        }
+
+        const distance =
+          Math.abs(toCents(order.amount) - toCents(gl.amount)) * 100 +
+          Math.abs(
+            this.toMonthIndex(order.accountingPeriod) -
+              this.toMonthIndex(gl.transactionDate.substring(0, 7))
+          );
+        if (distance < bestDistance) {
+          bestMatch = gl;
+          bestDistance = distance;
+        }
+      }
+
+      if (bestMatch) {
+        matched.push({
+          order,
+          gl: bestMatch,
+          score: 100, // ルールの条件を満たすため厳格突合として100点
+          rule: { id: rule.id, name: rule.name },
+          crossPeriod: this.isCrossPeriodPair(order, bestMatch),
+        });
+        assignedGlIds.add(bestMatch.id);
+        orders.splice(i, 1);
+        i--;
+      }
+    }
+
+    return matched;
+  }
+
+  /**
+   * 突合ルールの条件判定（プライベートメソッド）
+   *
+   * @description 対象科目・月度のずれ・計上科目・摘要文・金額差がルールの条件を満たすか判定する。
+   * 計上科目の一致は全ルール共通の必須条件とする。
+   * @param checkMonth - 月度のずれをルールの許容範囲で判定するか（突合ウィンドウで判定する場合はfalse）
+   */
+  private isRuleMatch(
+    rule: MatchRule,
+    order: OrderForecast,
+    gl: GLEntry,
+    aliases: AliasDictionary,
+    checkMonth: boolean = true
+  ): boolean {
+    if (rule.accountCodes.length > 0 && !rule.accountCodes.includes(gl.accountCode)) {
+      return false;
+    }
+
+    const monthDiff = Math.abs(
+      this.toMonthIndex(order.accountingPeriod) -
+        this.toMonthIndex(gl.transactionDate.substring(0, 7))
+    );
+    if (checkMonth && monthDiff > rule.monthTolerance) {
+      return false;
+    }
+
+    // 計上科目の一致チェック（半角・全角の違いを吸収）
+    if (!this.isAccountMatch(order.accountingItem, gl.accountName, aliases)) {
+      return false;
+    }
+
+    // 摘要文の一致チェック（半角・全角の違いを吸収）
+    if (
+      !rule.ignoreDescription &&
+      !this.isDescriptionMatch(order.description || "", gl.description || "", aliases)
+    ) {
+      return false;
+    }
+
+    // 金額差のチェック（銭単位で比較）
+    const amountDiff = Math.abs(
+      Math.round(parseFloat(order.amount) * 100) - Math.round(parseFloat(gl.amount) * 100)
+    );
+    return amountDiff <= rule.amountToleranceCents;
+  }
+
+  /**
+   * 突合ウィンドウの範囲判定（プライベートメソッド）
+   *
+   * @description GLの取引月が受発注の計上月と異なり、かつウィンドウの範囲内にあるか判定する
+   */
+  private isInWindow(order: OrderForecast, gl: GLEntry, window: ReconciliationWindow): boolean {
+    const monthDiff =
+      this.toMonthIndex(gl.transactionDate.substring(0, 7)) -
+      this.toMonthIndex(order.accountingPeriod);
+    return (
+      monthDiff !== 0 &&
+      monthDiff >= -window.lookBehindMonths &&
+      monthDiff <= window.lookAheadMonths
+    );
+  }
+
+  /**
+   * 月度をまたいだ組か判定（プライベートメソッド）
+   *
+   * @description 受発注の計上月とGLの取引月が異なる場合にtrueを返す
+   */
+  private isCrossPeriodPair(order: OrderForecast, gl: GLEntry): boolean {
+    return order.accountingPeriod !== gl.transactionDate.substring(0, 7);
+  }
+
+  /**
+   * 突合ルールマスタのレコードを評価用の条件に変換（プライベートメソッド）
+   */
+  private toMatchRule(rule: ReconciliationRule): MatchRule {
+    return {
+      id: rule.id,
+      name: rule.name,
+      accountCodes: (rule.accountCodes ?? "")
+        .split(",")
+        .map((code) => code.trim())
+        .filter((code) => code.length > 0),
+      monthTolerance: rule.monthTolerance,
+      ignoreDescription: rule.ignoreDescription === "true",
+      amountToleranceCents: Math.round(parseFloat(rule.amountTolerance) * 100),
+    };
+  }
+
+  /**
+   * 期間（YYYY-MM）を月の通し番号に変換（プライベートメソッド）
+   */
+  private toMonthIndex(period: string): number {
+    const [year, month] = period.split("-").map(Number);
+    return year * 12 + (month - 1);
+  }
+
+  /**
+   * 期間（YYYY-MM）を指定した月数だけずらす（プライベートメソッド）
+   */
+  private shiftPeriod(period: string, offset: number): string {
+    const monthIndex = this.toMonthIndex(period) + offset;
+    const year = Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    return `${year}-${String(month).padStart(2, "0")}`;
+  }
+
+  /**
+   * 前後の月数から、期間をずらすオフセットの一覧を作成（プライベートメソッド、0を除く）
+   */
+  private toOffsets(behindMonths: number, aheadMonths: number): number[] {
+    const offsets: number[] = [];
+    for (let offset = 1; offset <= behindMonths; offset++) {
+      offsets.push(-offset);
+    }
+    for (let offset = 1; offset <= aheadMonths; offset++) {
+      offsets.push(offset);
+    }
+    return offsets;
+  }
+
+  /**
+   * 分割突合の実装（プライベートメソッド）
+   *
+   * @description 同一月度・同一計上科目の中で、金額の合計が一致する組み合わせを探索する。
+   * 1件の受発注に対する複数GL（分割請求）と、同一プロジェクトの複数受発注に対する
+   * 1件のGL（一括請求）の両方向を対象とし、割り当てた明細は引数の配列から取り除く。
+   * @param unmatchedOrders - 未突合の受発注データ（割り当て分を除去する）
+   * @param unmatchedGl - 未突合のGLデータ（割り当て分を除去する）
+   * @returns 分割突合した組み合わせ
+   */
+  private performSplitReconciliation(
+    unmatchedOrders: OrderForecast[],
+    unmatchedGl: GLEntry[],
+    aliases: AliasDictionary
+  ): Array<{ orders: OrderForecast[]; glEntries: GLEntry[] }> {
+    const splitMatched: Array<{ orders: OrderForecast[]; glEntries: GLEntry[] }> = [];
+    const assignedOrderIds = new Set<string>();
+    const assignedGlIds = new Set<string>();
+    const toCents = (amount: string): number => Math.round(parseFloat(amount) * 100);
+
+    // 1対多: 1件の受発注を複数のGLで計上
+    for (const order of unmatchedOrders) {
+      const candidates = unmatchedGl
+        .filter((gl) => !assignedGlIds.has(gl.id) && this.isSplitCandidate(order, gl, aliases))
+        .slice(0, SPLIT_MAX_CANDIDATES);
+
+      const subset = this.findSubsetSum(
+        candidates,
+        (gl) => toCents(gl.amount),
+        toCents(order.amount)
+      );
+      if (!subset) {
+        continue;
+      }
+
+      assignedOrderIds.add(order.id);
+      subset.forEach((gl) => assignedGlIds.add(gl.id));
+      splitMatched.push({ orders: [order], glEntries: subset });
+    }
+
+    // 多対1: 同一プロジェクトの複数の受発注を1件のGLで計上
+    for (const gl of unmatchedGl) {
+      if (assignedGlIds.has(gl.id)) {
+        continue;
+      }
+
+      const ordersByProject = new Map<string, OrderForecast[]>();
+      for (const order of unmatchedOrders) {
+        if (assignedOrderIds.has(order.id) || !this.isSplitCandidate(order, gl, aliases)) {
+          continue;
+        }
+        const projectOrders = ordersByProject.get(order.projectId) || [];
+        projectOrders.push(order);
+        ordersByProject.set(order.projectId, projectOrders);
+      }
+
+      for (const projectOrders of ordersByProject.values()) {
+        const subset = this.findSubsetSum(
+          projectOrders.slice(0, SPLIT_MAX_CANDIDATES),
+          (order) => toCents(order.amount),
+          toCents(gl.amount)
+        );
+        if (!subset) {
+          continue;
+        }
+
+        assignedGlIds.add(gl.id);
+        subset.forEach((order) => assignedOrderIds.add(order.id));
+        splitMatched.push({ orders: subset, glEntries: [gl] });
+        break;
+      }
+    }
+
+    // 割り当て済みのデータを未突合リストから削除
+    for (let i = unmatchedOrders.length - 1; i >= 0; i--) {
+      if (assignedOrderIds.has(unmatchedOrders[i].id)) {
+        unmatchedOrders.splice(i, 1);
+      }
+    }
+    for (let i = unmatchedGl.length - 1; i >= 0; i--) {
+      if (assignedGlIds.has(unmatchedGl[i].id)) {
+        unmatchedGl.splice(i, 1);
+      }
+    }
+
+    return splitMatched;
+  }
+
+  /**
+   * 分割突合の候補判定（プライベートメソッド）
+   *
+   * @description 月度・計上科目が一致し、摘要文が一致するか、GL摘要にプロジェクトコード・名称を含む場合に候補とする
+   */
+  private isSplitCandidate(order: OrderForecast, gl: GLEntry, aliases: AliasDictionary): boolean {
+    if (order.accountingPeriod !== gl.transactionDate.substring(0, 7)) {
+      return false;
+    }
+
+    if (!this.isAccountMatch(order.accountingItem, gl.accountName, aliases)) {
+      return false;
+    }
+
+    if (this.isDescriptionMatch(order.description || "", gl.description || "", aliases)) {
+      return true;
+    }
+
+    const glDescription = this.normalizeText(gl.description || "");
+    if (!glDescription) {
+      return false;
+    }
+
+    return [order.projectCode, order.projectName].some((text) => {
+      const normalized = this.normalizeText(text || "");
+      return normalized.length > 0 && glDescription.includes(normalized);
+    });
+  }
+
+  /**
+   * 合計金額が目標額に一致する組み合わせの探索（プライベートメソッド）
+   *
+   * @description 2件以上SPLIT_MAX_GROUP_SIZE件以下の組み合わせを、件数の少ない順に探索する
+   * @param items - 候補明細
+   * @param amountOf - 明細の金額（銭単位の整数）
+   * @param target - 目標額（銭単位の整数）
+   * @returns 一致した組み合わせ（見つからない場合null）
+   */
+  private findSubsetSum<T>(items: T[], amountOf: (item: T) => number, target: number): T[] | null {
+    if (items.length < 2 || target === 0) {
+      return null;
+    }
+
+    const search = (start: number, size: number, remaining: number, picked: T[]): T[] | null => {
+      if (picked.length === size) {
+        return remaining === 0 ? [...picked] : null;
+      }
+
+      for (let i = start; i < items.length; i++) {
+        picked.push(items[i]);
+        const found = search(i + 1, size, remaining - amountOf(items[i]), picked);
+        picked.pop();
+        if (found) {
+          return found;
+        }
+      }
+
+      return null;
+    };
+
+    const maxSize = Math.min(SPLIT_MAX_GROUP_SIZE, items.length);
+    for (let size = 2; size <= maxSize; size++) {
+      const found = search(0, size, target, []);
+      if (found) {
+        return found;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 曖昧突合の実装（プライベートメソッド）
+   *
+   * @description 未突合の受発注・GLの全組み合わせをスコアリングし、スコアの高い順に
+   * 1対1で割り当てる。割り当てた組み合わせは引数の配列から取り除く。
+   * @param unmatchedOrders - 未突合の受発注データ（割り当て分を除去する）
+   * @param unmatchedGl - 未突合のGLデータ（割り当て分を除去する）
+   * @returns 曖昧一致として提案した組み合わせ
+   */
+  private performFuzzyReconciliation(
+    unmatchedOrders: OrderForecast[],
+    unmatchedGl: GLEntry[],
+    aliases: AliasDictionary
+  ): Array<{ order: OrderForecast; gl: GLEntry; score: number }> {
+    const candidates: Array<{ order: OrderForecast; gl: GLEntry; score: number }> = [];
+
+    for (const order of unmatchedOrders) {
+      for (const gl of unmatchedGl) {
+        const orderAmount = parseFloat(order.amount);
+        const glAmount = parseFloat(gl.amount);
+        const amountDiff = Math.abs(orderAmount - glAmount);
+        const maxAmount = Math.max(Math.abs(orderAmount), Math.abs(glAmount));
+
+        // 金額の許容範囲チェック
+        if (maxAmount > 0 && amountDiff / maxAmount > FUZZY_AMOUNT_TOLERANCE_RATE) {
+          continue;
+        }
+
+        // 日付差の許容範囲チェック
+        const dateDiff = this.calculateDateDiff(order.accountingPeriod, gl.transactionDate);
+        if (dateDiff > FUZZY_MAX_DATE_DIFF_DAYS) {
+          continue;
+        }
+
+        // 突合エイリアス辞書で同一とみなす組は類似度1とする
+        const accountSimilarity = this.isAccountMatch(order.accountingItem, gl.accountName, aliases)
+          ? 1
+          : this.calculateTextSimilarity(order.accountingItem, gl.accountName);
+        const descriptionSimilarity = this.isDescriptionMatch(
+          order.description || "",
+          gl.description || "",
+          aliases
+        )
+          ? 1
+          : this.calculateTextSimilarity(order.description || "", gl.description || "");
+
+        const score = this.calculateMatchScore(
+          order,
+          gl,
+          amountDiff,
+          dateDiff,
+          accountSimilarity,
+          descriptionSimilarity
+        );
+
+        if (score >= FUZZY_MATCH_THRESHOLD) {
+          candidates.push({ order, gl, score });
+        }
+      }
+    }
+
+    // スコアの高い順に1対1で割り当て
+    candidates.sort((a, b) => b.score - a.score);
+
+    const fuzzyMatched: Array<{ order: OrderForecast; gl: GLEntry; score: number }> = [];
+    const assignedOrderIds = new Set<string>();
+    const assignedGlIds = new Set<string>();
+
+    for (const candidate of candidates) {
+      if (assignedOrderIds.has(candidate.order.id) || assignedGlIds.has(candidate.gl.id)) {
+        continue;
+      }
+
+      assignedOrderIds.add(candidate.order.id);
+      assignedGlIds.add(candidate.gl.id);
+      fuzzyMatched.push({ ...candidate, score: Math.round(candidate.score) });
+    }
+
+    // 割り当て済みのデータを未突合リストから削除
+    for (let i = unmatchedOrders.length - 1; i >= 0; i--) {
+      if (assignedOrderIds.has(unmatchedOrders[i].id)) {
+        unmatchedOrders.splice(i, 1);
+      }
+    }
+    for (let i = unmatchedGl.length - 1; i >= 0; i--) {
+      if (assignedGlIds.has(unmatchedGl[i].id)) {
+        unmatchedGl.splice(i, 1);
+      }
+    }
+
+    return fuzzyMatched;
+  }
+
+  /**
+   * テキスト正規化（類似度計算用）
+   *
+   * @param text 正規化する文字列
+   * @returns 正規化された文字列
    */
   private normalizeText(text: string): string {
     if (!text) return "";
@@ -643,219 +2073,296 @@ export class ReconciliationService {
   }
 
   /**
-   * 計上科目の一致チェック（半角・全角の違いを吸収）
+   * 計上科目の一致チェック（半角・全角の違いを吸収し、突合エイリアス辞書の組も一致とみなす）
    *
-   * @param account1 比較する計上科目1
-   * @param account2 比較する計上科目2
-   * @returns 正規化後に一致する場合true
+   * @param account1 比較する計上科目1（受発注側）
+   * @param account2 比較する計上科目2（GL側）
+   * @param aliases 突合エイリアス辞書
+   * @returns 正規化後に一致する場合、またはエイリアスとして登録されている場合true
    */
-  private isAccountMatch(account1: string, account2: string): boolean {
+  private isAccountMatch(account1: string, account2: string, aliases: AliasDictionary): boolean {
     if (!account1 || !account2) {
       return false;
     }
 
-    // 半角・全角を正規化して比較
-    const normalize = (text: string): string => {
-      return (
-        text
-          // 全角英数字を半角に変換
-          .replace(/[Ａ-Ｚａ-ｚ０-９]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0xfee0))
-          // 半角カナを全角カナに変換
-          .replace(/[\uFF65-\uFF9F]/g, (s) => {
-            const code = s.charCodeAt(0);
-            // 半角カナの変換テーブル
-            const hankanaMap: { [key: number]: string } = {
-              0xff65: "・",
-              0xff66: "・",
-              0xff67: "ァ",
-              0xff68: "ィ",
-              0xff69: "ゥ",
-              0xff6a: "ェ",
-              0xff6b: "ォ",
-              0xff6c: "ャ",
-              0xff6d: "ュ",
-              0xff6e: "ョ",
-              0xff6f: "ッ",
-              0xff70: "ー",
-              0xff71: "ア",
-              0xff72: "イ",
-              0xff73: "ウ",
-              0xff74: "エ",
-              0xff75: "オ",
-              0xff76: "カ",
-              0xff77: "キ",
-              0xff78: "ク",
-              0xff79: "ケ",
-              0xff7a: "コ",
-              0xff7b: "サ",
-              0xff7c: "シ",
-              0xff7d: "ス",
-              0xff7e: "セ",
-              0xff7f: "ソ",
-              0xff80: "タ",
-              0xff81: "チ",
-              0xff82: "ツ",
-              0xff83: "テ",
-              0xff84: "ト",
-              0xff85: "ナ",
-              0xff86: "ニ",
-              0xff87: "ヌ",
-              0xff88: "ネ",
-              0xff89: "ノ",
-              0xff8a: "ハ",
-              0xff8b: "ヒ",
-              0xff8c: "フ",
-              0xff8d: "ヘ",
-              0xff8e: "ホ",
-              0xff8f: "マ",
-              0xff90: "ミ",
-              0xff91: "ム",
-              0xff92: "メ",
-              0xff93: "モ",
-              0xff94: "ヤ",
-              0xff95: "ユ",
-              0xff96: "ヨ",
-              0xff97: "ラ",
-              0xff98: "リ",
-              0xff99: "ル",
-              0xff9a: "レ",
-              0xff9b: "ロ",
-              0xff9c: "ワ",
-              0xff9d: "ヲ",
-              0xff9e: "ン",
-              0xff9f: "ヴ",
-            };
-            return hankanaMap[code] || s;
-          })
-          // 全角スペースを半角スペースに変換
-          .replace(/\u3000/g, " ")
-          // 連続する空白を単一のスペースに変換
-          .replace(/\s+/g, " ")
-          // 前後の空白を除去
-          .trim()
-      );
-    };
+    const normalized1 = this.normalizeAccountName(account1);
+    const normalized2 = this.normalizeAccountName(account2);
 
-    return normalize(account1) === normalize(account2);
+    return (
+      normalized1 === normalized2 || aliases.account.has(this.toAliasKey(normalized1, normalized2))
+    );
   }
 
   /**
-   * 摘要文の一致チェック（半角・全角の違いを吸収）
+   * 計上科目の正規化（半角・全角の違いを吸収）
    *
-   * @param description1 比較する摘要文1
-   * @param description2 比較する摘要文2
-   * @returns 正規化後に一致する場合true
+   * @param text 正規化する計上科目
+   * @returns 正規化された計上科目
    */
-  private isDescriptionMatch(description1: string, description2: string): boolean {
+  private normalizeAccountName(text: string): string {
+    return (
+      text
+        // 全角英数字を半角に変換
+        .replace(/[Ａ-Ｚａ-ｚ０-９]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0xfee0))
+        // 半角カナを全角カナに変換
+        .replace(/[\uFF65-\uFF9F]/g, (s) => {
+          const code = s.charCodeAt(0);
+          // 半角カナの変換テーブル
+          const hankanaMap: { [key: number]: string } = {
+            0xff65: "・",
+            0xff66: "・",
+            0xff67: "ァ",
+            0xff68: "ィ",
+            0xff69: "ゥ",
+            0xff6a: "ェ",
+            0xff6b: "ォ",
+            0xff6c: "ャ",
+            0xff6d: "ュ",
+            0xff6e: "ョ",
+            0xff6f: "ッ",
+            0xff70: "ー",
+            0xff71: "ア",
+            0xff72: "イ",
+            0xff73: "ウ",
+            0xff74: "エ",
+            0xff75: "オ",
+            0xff76: "カ",
+            0xff77: "キ",
+            0xff78: "ク",
+            0xff79: "ケ",
+            0xff7a: "コ",
+            0xff7b: "サ",
+            0xff7c: "シ",
+            0xff7d: "ス",
+            0xff7e: "セ",
+            0xff7f: "ソ",
+            0xff80: "タ",
+            0xff81: "チ",
+            0xff82: "ツ",
+            0xff83: "テ",
+            0xff84: "ト",
+            0xff85: "ナ",
+            0xff86: "ニ",
+            0xff87: "ヌ",
+            0xff88: "ネ",
+            0xff89: "ノ",
+            0xff8a: "ハ",
+            0xff8b: "ヒ",
+            0xff8c: "フ",
+            0xff8d: "ヘ",
+            0xff8e: "ホ",
+            0xff8f: "マ",
+            0xff90: "ミ",
+            0xff91: "ム",
+            0xff92: "メ",
+            0xff93: "モ",
+            0xff94: "ヤ",
+            0xff95: "ユ",
+            0xff96: "ヨ",
+            0xff97: "ラ",
+            0xff98: "リ",
+            0xff99: "ル",
+            0xff9a: "レ",
+            0xff9b: "ロ",
+            0xff9c: "ワ",
+            0xff9d: "ヲ",
+            0xff9e: "ン",
+            0xff9f: "ヴ",
+          };
+          return hankanaMap[code] || s;
+        })
+        // 全角スペースを半角スペースに変換
+        .replace(/\u3000/g, " ")
+        // 連続する空白を単一のスペースに変換
+        .replace(/\s+/g, " ")
+        // 前後の空白を除去
+        .trim()
+    );
+  }
+
+  /**
+   * 摘要文の一致チェック（半角・全角の違いを吸収し、突合エイリアス辞書の組も一致とみなす）
+   *
+   * @param description1 比較する摘要文1（受発注側）
+   * @param description2 比較する摘要文2（GL側）
+   * @param aliases 突合エイリアス辞書
+   * @returns 正規化後に一致する場合、またはエイリアスとして登録されている場合true
+   */
+  private isDescriptionMatch(
+    description1: string,
+    description2: string,
+    aliases: AliasDictionary
+  ): boolean {
     if (!description1 || !description2) {
       return false;
     }
 
-    // 半角・全角を正規化して比較
-    const normalize = (text: string): string => {
-      return (
-        text
-          // 全角英数字を半角に変換
-          .replace(/[Ａ-Ｚａ-ｚ０-９]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0xfee0))
-          // 半角カナを全角カナに変換
-          .replace(/[\uFF65-\uFF9F]/g, (s) => {
-            const code = s.charCodeAt(0);
-            // 半角カナの変換テーブル
-            const hankanaMap: { [key: number]: string } = {
-              0xff65: "・",
-              0xff66: "・",
-              0xff67: "ァ",
-              0xff68: "ィ",
-              0xff69: "ゥ",
-              0xff6a: "ェ",
-              0xff6b: "ォ",
-              0xff6c: "ャ",
-              0xff6d: "ュ",
-              0xff6e: "ョ",
-              0xff6f: "ッ",
-              0xff70: "ー",
-              0xff71: "ア",
-              0xff72: "イ",
-              0xff73: "ウ",
-              0xff74: "エ",
-              0xff75: "オ",
-              0xff76: "カ",
-              0xff77: "キ",
-              0xff78: "ク",
-              0xff79: "ケ",
-              0xff7a: "コ",
-              0xff7b: "サ",
-              0xff7c: "シ",
-              0xff7d: "ス",
-              0xff7e: "セ",
-              0xff7f: "ソ",
-              0xff80: "タ",
-              0xff81: "チ",
-              0xff82: "ツ",
-              0xff83: "テ",
-              0xff84: "ト",
-              0xff85: "ナ",
-              0xff86: "ニ",
-              0xff87: "ヌ",
-              0xff88: "ネ",
-              0xff89: "ノ",
-              0xff8a: "ハ",
-              0xff8b: "ヒ",
-              0xff8c: "フ",
-              0xff8d: "ヘ",
-              0xff8e: "ホ",
-              0xff8f: "マ",
-              0xff90: "ミ",
-              0xff91: "ム",
-              0xff92: "メ",
-              0xff93: "モ",
-              0xff94: "ヤ",
-              0xff95: "ユ",
-              0xff96: "ヨ",
-              0xff97: "ラ",
-              0xff98: "リ",
-              0xff99: "ル",
-              0xff9a: "レ",
-              0xff9b: "ロ",
-              0xff9c: "ワ",
-              0xff9d: "ヲ",
-              0xff9e: "ン",
-              0xff9f: "ヴ",
-            };
-            return hankanaMap[code] || s;
-          })
-          // 全角スペースを半角スペースに変換
-          .replace(/\u3000/g, " ")
-          // ハイフン・ダッシュを除去
-          .replace(/[-－ー]/g, "")
-          // 連続する空白を単一のスペースに変換
-          .replace(/\s+/g, " ")
-          // 前後の空白を除去
-          .trim()
-          // 大文字小文字を統一（小文字に）
-          .toLowerCase()
-      );
+    const normalized1 = this.normalizeText(description1);
+    const normalized2 = this.normalizeText(description2);
+
+    return (
+      normalized1 === normalized2 ||
+      aliases.description.has(this.toAliasKey(normalized1, normalized2))
+    );
+  }
+
+  /**
+   * 突合エイリアス辞書のキー作成（プライベートメソッド）
+   */
+  private toAliasKey(orderText: string, glText: string): string {
+    return `${orderText}\u0000${glText}`;
+  }
+
+  /**
+   * 突合エイリアスの記録（プライベートメソッド）
+   *
+   * @description 手動突合した組のうち、正規化後も計上科目・摘要文が一致しないものを記録する。
+   * 呼び出し元のトランザクション内で実行すること。
+   * @returns 記録した突合エイリアス
+   */
+  private async recordAliases(
+    orders: OrderForecast[],
+    gls: GLEntry[],
+    tx: DbExecutor
+  ): Promise<ReconciliationAlias[]> {
+    const aliases = new Map<
+      string,
+      { aliasType: "account" | "description"; orderText: string; glText: string }
+    >();
+
+    for (const order of orders) {
+      for (const gl of gls) {
+        const orderAccount = this.normalizeAccountName(order.accountingItem || "");
+        const glAccount = this.normalizeAccountName(gl.accountName || "");
+        if (orderAccount && glAccount && orderAccount !== glAccount) {
+          aliases.set(`account:${this.toAliasKey(orderAccount, glAccount)}`, {
+            aliasType: "account",
+            orderText: orderAccount,
+            glText: glAccount,
+          });
+        }
+
+        const orderDescription = this.normalizeText(order.description || "");
+        const glDescription = this.normalizeText(gl.description || "");
+        if (orderDescription && glDescription && orderDescription !== glDescription) {
+          aliases.set(`description:${this.toAliasKey(orderDescription, glDescription)}`, {
+            aliasType: "description",
+            orderText: orderDescription,
+            glText: glDescription,
+          });
+        }
+      }
+    }
+
+    const recorded: ReconciliationAlias[] = [];
+    for (const alias of aliases.values()) {
+      recorded.push(await this.reconciliationAliasRepository.upsert(alias, tx));
+    }
+    return recorded;
+  }
+
+  /**
+   * テキスト類似度の計算（文字bigramのDice係数）
+   *
+   * @param text1 比較する文字列1
+   * @param text2 比較する文字列2
+   * @returns 0〜1の類似度（正規化後に一致する場合1）
+   */
+  private calculateTextSimilarity(text1: string, text2: string): number {
+    const normalized1 = this.normalizeText(text1);
+    const normalized2 = this.normalizeText(text2);
+
+    if (!normalized1 || !normalized2) {
+      return 0;
+    }
+
+    if (normalized1 === normalized2) {
+      return 1;
+    }
+
+    const toBigrams = (text: string): string[] => {
+      if (text.length < 2) {
+        return [text];
+      }
+      const bigrams: string[] = [];
+      for (let i = 0; i < text.length - 1; i++) {
+        bigrams.push(text.substring(i, i + 2));
+      }
+      return bigrams;
     };
 
-    return normalize(description1) === normalize(description2);
+    const bigrams1 = toBigrams(normalized1);
+    const remaining = toBigrams(normalized2);
+    const totalCount = bigrams1.length + remaining.length;
+
+    let intersection = 0;
+    for (const bigram of bigrams1) {
+      const index = remaining.indexOf(bigram);
+      if (index !== -1) {
+        intersection++;
+        remaining.splice(index, 1);
+      }
+    }
+
+    return (2 * intersection) / totalCount;
+  }
+
+  /**
+   * 計上年月とGL取引日の日付差を計算
+   *
+   * @param accountingPeriod - 受発注の計上年月（YYYY-MM形式）
+   * @param transactionDate - GLの取引日（YYYY-MM-DD形式）
+   * @returns 取引日が計上月の範囲外にある日数（範囲内の場合0）
+   */
+  private calculateDateDiff(accountingPeriod: string, transactionDate: string): number {
+    const [year, month] = accountingPeriod.split("-").map(Number);
+    const monthStart = Date.UTC(year, month - 1, 1);
+    const monthEnd = Date.UTC(year, month, 0);
+    const glDate = Date.parse(`${transactionDate.substring(0, 10)}T00:00:00Z`);
+
+    if (isNaN(monthStart) || isNaN(glDate)) {
+      return Number.POSITIVE_INFINITY;
+    }
+
+    const dayMs = 24 * 60 * 60 * 1000;
+    if (glDate < monthStart) {
+      return Math.round((monthStart - glDate) / dayMs);
+    }
+    if (glDate > monthEnd) {
+      return Math.round((glDate - monthEnd) / dayMs);
+    }
+    return 0;
   }
 
   /**
    * マッチスコアの計算（プライベートメソッド）
+   *
+   * @description 金額差・日付差による減点と、計上科目・摘要文の類似度による減点で0〜100点を算出
    */
   private calculateMatchScore(
     order: OrderForecast,
     gl: GLEntry,
     amountDiff: number,
-    dateDiff: number
+    dateDiff: number,
+    accountSimilarity: number,
+    descriptionSimilarity: number
   ): number {
     let score = 100;
 
-    // 金額差による減点
-    score -= (amountDiff / Math.max(parseFloat(order.amount), parseFloat(gl.amount))) * 50;
+    // 金額差による減点（許容範囲の上限で最大30点）
+    const maxAmount = Math.max(Math.abs(parseFloat(order.amount)), Math.abs(parseFloat(gl.amount)));
+    if (maxAmount > 0) {
+      score -= (amountDiff / maxAmount / FUZZY_AMOUNT_TOLERANCE_RATE) * 30;
+    }
 
     // 日付差による減点
-    score -= dateDiff * 2;
+    score -= dateDiff * 0.5;
+
+    // 計上科目の類似度による減点（最大30点）
+    score -= (1 - accountSimilarity) * 30;
+
+    // 摘要文の類似度による減点（最大25点）
+    score -= (1 - descriptionSimilarity) * 25;
 
     return Math.max(0, score);
   }
@@ -0,0 +1,519 @@
+import type {
+  NewRecurringForecastTemplate,
+  OrderForecast,
+  Project,
+  RecurringForecastTemplate,
+} from "@shared/schema/integrated";
+import {
+  RECURRING_BILLING_CYCLE_MONTHS,
+  type RecurringForecastGenerationResult,
+} from "@shared/schema/recurringForecastTemplate";
+
+import { db, type DbExecutor } from "../db";
+import { AppError } from "../middleware/errorHandler";
+import { OrderForecastRepository } from "../storage/orderForecast";
+import { ProjectRepository } from "../storage/project";
+import { RecurringForecastTemplateRepository } from "../storage/recurringForecastTemplate";
+import { AccountingPeriodService } from "./accountingPeriodService";
+import {
+  type OrderForecastHistoryActor,
+  OrderForecastHistoryService,
+} from "./orderForecastHistoryService";
+
+// テンプレートから生成する受発注データの項目
+const GENERATED_FIELDS = [
+  "projectId",
+  "projectCode",
+  "projectName",
+  "customerId",
+  "customerCode",
+  "customerName",
+  "accountingPeriod",
+  "accountingItem",
+  "description",
+  "amount",
+  "remarks",
+  "period",
+] as const;
+
+type GeneratedLine = Pick<OrderForecast, (typeof GENERATED_FIELDS)[number]>;
+
+/**
+ * 定期売上生成サービスクラス
+ *
+ * @description 保守売上などの定期売上テンプレートから年度ごとの受発注データを生成・更新する
+ * @responsibility 定期売上テンプレートの管理、受発注データの生成と、テンプレート変更時の当月以降の受発注データへの反映
+ */
+export class RecurringForecastService {
+  constructor(
+    private recurringForecastTemplateRepository: RecurringForecastTemplateRepository,
+    private orderForecastRepository: OrderForecastRepository,
+    private projectRepository: ProjectRepository,
+    private accountingPeriodService: AccountingPeriodService,
+    private orderForecastHistoryService: OrderForecastHistoryService
+  ) {}
+
+  /**
+   * 定期売上テンプレート一覧取得
+   *
+   * @returns プロジェクトコード順の定期売上テンプレート一覧と総件数
+   */
+  async getTemplates(): Promise<{ templates: RecurringForecastTemplate[]; totalCount: number }> {
+    try {
+      const templates = await this.recurringForecastTemplateRepository.findAll();
+      return { templates, totalCount: templates.length };
+    } catch (error) {
+      console.error("定期売上テンプレート一覧取得エラー:", error);
+      throw new AppError("定期売上テンプレート一覧の取得に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 定期売上テンプレート詳細取得
+   *
+   * @param id - 定期売上テンプレートID
+   * @returns 定期売上テンプレート詳細
+   */
+  async getTemplateById(id: string): Promise<RecurringForecastTemplate> {
+    const template = await this.recurringForecastTemplateRepository.findById(id);
+
+    if (!template) {
+      throw new AppError("定期売上テンプレートが見つかりません", 404, true, "NOT_FOUND");
+    }
+
+    return template;
+  }
+
+  /**
+   * 定期売上テンプレート作成
+   *
+   * @description 受発注データは生成処理（年度指定）で作成する
+   * @param data - 定期売上テンプレートデータ
+   * @param userId - 作成者ユーザーID
+   * @returns 作成された定期売上テンプレート
+   * @throws AppError - 契約終了月が契約開始月より前の場合
+   */
+  async createTemplate(
+    data: NewRecurringForecastTemplate,
+    userId?: string
+  ): Promise<RecurringForecastTemplate> {
+    try {
+      this.assertValidTerm(data.startMonth, data.endMonth);
+      return await this.recurringForecastTemplateRepository.create({
+        ...data,
+        createdByUserId: userId ?? null,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("定期売上テンプレート作成エラー:", error);
+      throw new AppError("定期売上テンプレートの作成に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 定期売上テンプレート更新
+   *
+   * @description 生成済みの受発注データのうち、当月以降の未突合のものに変更内容を反映する（テンプレートの更新と同じトランザクションで行う）
+   * @param id - 定期売上テンプレートID
+   * @param data - 更新データ
+   * @param actor - 更新者（受発注データの変更履歴に記録）
+   * @returns 更新された定期売上テンプレートと、年度ごとの受発注データへの反映結果
+   * @throws AppError - テンプレートが見つからない場合、契約終了月が契約開始月より前の場合
+   */
+  async updateTemplate(
+    id: string,
+    data: Partial<NewRecurringForecastTemplate>,
+    actor: OrderForecastHistoryActor
+  ): Promise<{
+    template: RecurringForecastTemplate;
+    results: RecurringForecastGenerationResult[];
+  }> {
+    try {
+      const existing = await this.getTemplateById(id);
+      this.assertValidTerm(
+        data.startMonth ?? existing.startMonth,
+        data.endMonth !== undefined ? data.endMonth : existing.endMonth
+      );
+
+      return await db.transaction(async (tx) => {
+        const template = await this.recurringForecastTemplateRepository.update(id, data, tx);
+        if (!template) {
+          throw new AppError("定期売上テンプレートが見つかりません", 404, true, "NOT_FOUND");
+        }
+
+        const results = await this.refreshFutureLines(template, actor, tx);
+        return { template, results };
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("定期売上テンプレート更新エラー:", error);
+      throw new AppError("定期売上テンプレートの更新に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 定期売上テンプレート削除
+   *
+   * @description 生成済みの受発注データのうち、当月以降の未突合のものを削除する（過去の月は残す）。
+   * テンプレートの削除と同じトランザクションで行う
+   * @param id - 定期売上テンプレートID
+   * @param actor - 削除者（受発注データの変更履歴に記録）
+   * @returns 年度ごとの受発注データへの反映結果
+   * @throws AppError - テンプレートが見つからない場合
+   */
+  async deleteTemplate(
+    id: string,
+    actor: OrderForecastHistoryActor
+  ): Promise<RecurringForecastGenerationResult[]> {
+    try {
+      const template = await this.getTemplateById(id);
+
+      return await db.transaction(async (tx) => {
+        // 無効化したテンプレートとして反映し、請求対象の月をなくす
+        const results = await this.refreshFutureLines(
+          { ...template, isActive: "false" },
+          actor,
+          tx
+        );
+
+        const deleted = await this.recurringForecastTemplateRepository.delete(id, tx);
+        if (!deleted) {
+          throw new AppError("定期売上テンプレートが見つかりません", 404, true, "NOT_FOUND");
+        }
+
+        return results;
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("定期売上テンプレート削除エラー:", error);
+      throw new AppError("定期売上テンプレートの削除に失敗しました", 500);
+    }
+  }
+
+  /**
+   * 年度の受発注データを定期売上テンプレートから生成
+   *
+   * @description 未生成の月の受発注データを作成し、当月以降の未突合の受発注データをテンプレートの内容に更新する。
+   * 締め済みの期間は変更しない。全テンプレートの反映を1つのトランザクションで行う。
+   * 前年度からのプロジェクトコピー後にも呼び出される
+   * @param fiscalYear - 年度
+   * @param actor - 実行者（受発注データの変更履歴に記録）
+   * @returns 生成結果
+   */
+  async generateForFiscalYear(
+    fiscalYear: number,
+    actor: OrderForecastHistoryActor
+  ): Promise<RecurringForecastGenerationResult> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [templates, closedPeriods] = await Promise.all([
+          this.recurringForecastTemplateRepository.findAll(tx),
+          this.accountingPeriodService.getClosedPeriods(tx),
+        ]);
+
+        const result = this.createEmptyResult(fiscalYear);
+        const [firstPeriod] = this.getFiscalYearPeriods(fiscalYear);
+
+        for (const template of templates) {
+          await this.syncTemplate(
+            template,
+            fiscalYear,
+            firstPeriod,
+            actor,
+            closedPeriods,
+            result,
+            tx
+          );
+        }
+
+        return result;
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("定期売上生成エラー:", error);
+      throw new AppError("定期売上の受発注データ生成中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * テンプレートの変更を当月以降の生成済み受発注データに反映（プライベートメソッド）
+   *
+   * @description 当月以降に生成済みの受発注データがある年度のみ対象とする。
+   * 呼び出し元のトランザクション内で実行すること
+   */
+  private async refreshFutureLines(
+    template: RecurringForecastTemplate,
+    actor: OrderForecastHistoryActor,
+    tx: DbExecutor
+  ): Promise<RecurringForecastGenerationResult[]> {
+    const currentPeriod = this.getCurrentPeriod();
+    const generatedLines = await this.orderForecastRepository.findByRecurringTemplateId(
+      template.id,
+      tx
+    );
+    const fiscalYears = Array.from(
+      new Set(
+        generatedLines
+          .filter((line) => line.accountingPeriod >= currentPeriod)
+          .map((line) => this.toFiscalYear(line.accountingPeriod))
+      )
+    ).sort((a, b) => a - b);
+
+    if (fiscalYears.length === 0) {
+      return [];
+    }
+
+    const closedPeriods = await this.accountingPeriodService.getClosedPeriods(tx);
+    const results: RecurringForecastGenerationResult[] = [];
+    for (const fiscalYear of fiscalYears) {
+      const result = this.createEmptyResult(fiscalYear);
+      await this.syncTemplate(
+        template,
+        fiscalYear,
+        currentPeriod,
+        actor,
+        closedPeriods,
+        result,
+        tx
+      );
+      results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * 1つのテンプレートについて年度の受発注データを生成・更新（プライベートメソッド）
+   *
+   * @param createFrom - この月以降の未生成の月のみ作成する（YYYY-MM）
+   * @param result - 生成結果（件数を加算する）
+   * @param tx - 呼び出し元のトランザクション
+   */
+  private async syncTemplate(
+    template: RecurringForecastTemplate,
+    fiscalYear: number,
+    createFrom: string,
+    actor: OrderForecastHistoryActor,
+    closedPeriods: Set<string>,
+    result: RecurringForecastGenerationResult,
+    tx: DbExecutor
+  ): Promise<void> {
+    const currentPeriod = this.getCurrentPeriod();
+    const periods = this.getFiscalYearPeriods(fiscalYear);
+    const billingPeriods =
+      template.isActive === "true"
+        ? periods.filter((period) => this.isBillingPeriod(template, period))
+        : [];
+
+    // プロジェクトは年度ごとに登録されるため、コードで対象年度のプロジェクトを特定する
+    let project: Project | null = null;
+    if (billingPeriods.length > 0) {
+      project = await this.projectRepository.findByCodeAndFiscalYear(
+        template.projectCode,
+        fiscalYear,
+        tx
+      );
+      if (!project) {
+        result.warnings.push(
+          `${fiscalYear}年度のプロジェクト（${template.projectCode}）が登録されていないため、「${template.projectName}」の受発注データを生成できませんでした`
+        );
+        return;
+      }
+    }
+
+    const generatedLines = await this.orderForecastRepository.findByRecurringTemplateId(
+      template.id,
+      tx
+    );
+    const linesByPeriod = new Map<string, OrderForecast>();
+    for (const line of generatedLines) {
+      if (periods.includes(line.accountingPeriod) && !linesByPeriod.has(line.accountingPeriod)) {
+        linesByPeriod.set(line.accountingPeriod, line);
+      }
+    }
+
+    for (const period of periods) {
+      const line = linesByPeriod.get(period);
+      const desired =
+        project && billingPeriods.includes(period)
+          ? this.buildLine(template, project, period)
+          : null;
+
+      if (!line) {
+        if (!desired || period < createFrom) {
+          continue;
+        }
+        if (closedPeriods.has(period)) {
+          result.skipped++;
+          continue;
+        }
+        const created = await this.orderForecastRepository.create(
+          {
+            ...desired,
+            recurringTemplateId: template.id,
+            createdByUserId: actor.userId ?? null,
+            createdByEmployeeId: actor.employeeId ?? null,
+          },
+          tx
+        );
+        await this.orderForecastHistoryService.record("create", null, created, actor, tx);
+        result.created++;
+        continue;
+      }
+
+      const changes = desired ? this.getChangedFields(line, desired) : null;
+      if (desired && !changes) {
+        continue;
+      }
+
+      // 過去の月・締め済みの期間・突合済み（除外を含む）の受発注データは変更しない
+      if (
+        period < currentPeriod ||
+        closedPeriods.has(period) ||
+        line.reconciliationStatus !== "unmatched"
+      ) {
+        result.skipped++;
+        continue;
+      }
+
+      if (changes) {
+        const updated = await this.orderForecastRepository.update(line.id, changes, tx);
+        if (updated) {
+          await this.orderForecastHistoryService.record("update", line, updated, actor, tx);
+          result.updated++;
+        }
+      } else {
+        const deleted = await this.orderForecastRepository.delete(line.id, tx);
+        if (deleted) {
+          await this.orderForecastHistoryService.record("delete", line, null, actor, tx);
+          result.deleted++;
+        }
+      }
+    }
+  }
+
+  /**
+   * テンプレートから受発注データの内容を作成（プライベートメソッド）
+   *
+   * @description 金額は月額に請求間隔の月数を掛けた額。取引先が未指定の場合はプロジェクトの取引先を使用する
+   */
+  private buildLine(
+    template: RecurringForecastTemplate,
+    project: Project,
+    period: string
+  ): GeneratedLine {
+    const cycleMonths = RECURRING_BILLING_CYCLE_MONTHS[template.billingCycle] ?? 1;
+    const [year, month] = period.split("-");
+
+    return {
+      projectId: project.id,
+      projectCode: project.code,
+      projectName: project.name,
+      customerId: template.customerId ?? project.customerId,
+      customerCode: template.customerId ? template.customerCode : null,
+      customerName: template.customerId ? template.customerName : project.customerName,
+      accountingPeriod: period,
+      accountingItem: template.accountingItem,
+      description: template.descriptionPattern
+        .replace(/\{yyyy\}/g, year)
+        .replace(/\{mm\}/g, month)
+        .replace(/\{m\}/g, String(Number(month))),
+      amount: (Number(template.monthlyAmount) * cycleMonths).toFixed(2),
+      remarks: template.remarks,
+      period, // 期間（period）は計上年月と同じ
+    };
+  }
+
+  /**
+   * 生成済みの受発注データとテンプレートの内容の差分を取得（プライベートメソッド）
+   *
+   * @returns 変更する項目。差分がない場合はnull
+   */
+  private getChangedFields(
+    line: OrderForecast,
+    desired: GeneratedLine
+  ): Partial<GeneratedLine> | null {
+    const changes: Partial<Record<keyof GeneratedLine, string | null>> = {};
+    for (const field of GENERATED_FIELDS) {
+      const isSame =
+        field === "amount"
+          ? Number(line.amount) === Number(desired.amount)
+          : (line[field] ?? null) === (desired[field] ?? null);
+      if (!isSame) {
+        changes[field] = desired[field];
+      }
+    }
+    return Object.keys(changes).length > 0 ? (changes as Partial<GeneratedLine>) : null;
+  }
+
+  /**
+   * 請求対象の月かどうかの判定（プライベートメソッド）
+   *
+   * @description 契約期間内で、契約開始月から請求間隔の月数ごとの月を請求対象とする
+   */
+  private isBillingPeriod(template: RecurringForecastTemplate, period: string): boolean {
+    if (period < template.startMonth || (template.endMonth && period > template.endMonth)) {
+      return false;
+    }
+    const cycleMonths = RECURRING_BILLING_CYCLE_MONTHS[template.billingCycle] ?? 1;
+    return this.monthsBetween(template.startMonth, period) % cycleMonths === 0;
+  }
+
+  /**
+   * 契約期間のチェック（プライベートメソッド）
+   */
+  private assertValidTerm(startMonth: string, endMonth?: string | null): void {
+    if (endMonth && endMonth < startMonth) {
+      throw new AppError("契約終了月は契約開始月以降を指定してください", 400);
+    }
+  }
+
+  /**
+   * 2つの年月（YYYY-MM）の間の月数の取得（プライベートメソッド）
+   */
+  private monthsBetween(from: string, to: string): number {
+    const [fromYear, fromMonth] = from.split("-").map(Number);
+    const [toYear, toMonth] = to.split("-").map(Number);
+    return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+  }
+
+  /**
+   * 会計年度の期間一覧（4月〜翌年3月）の取得（プライベートメソッド）
+   */
+  private getFiscalYearPeriods(fiscalYear: number): string[] {
+    return [4, 5, 6, 7, 8, 9, 10, 11, 12, 1, 2, 3].map((month) => {
+      const year = month >= 4 ? fiscalYear : fiscalYear + 1;
+      return `${year}-${month.toString().padStart(2, "0")}`;
+    });
+  }
+
+  /**
+   * 年月（YYYY-MM）が含まれる会計年度の取得（プライベートメソッド）
+   */
+  private toFiscalYear(period: string): number {
+    const [year, month] = period.split("-").map(Number);
+    return month >= 4 ? year : year - 1;
+  }
+
+  /**
+   * 当月（YYYY-MM）の取得（プライベートメソッド）
+   */
+  private getCurrentPeriod(): string {
+    const now = new Date();
+    return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, "0")}`;
+  }
+
+  /**
+   * 空の生成結果の作成（プライベートメソッド）
+   */
+  private createEmptyResult(fiscalYear: number): RecurringForecastGenerationResult {
+    return { fiscalYear, created: 0, updated: 0, deleted: 0, skipped: 0, warnings: [] };
+  }
+}
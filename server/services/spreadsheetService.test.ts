@@ -0,0 +1,70 @@
+import ExcelJS from "exceljs";
+import { describe, expect, it, vi } from "vitest";
+
+import { MAX_SPREADSHEET_FILE_SIZE, SpreadsheetService } from "./spreadsheetService";
+
+/**
+ * テスト用のXLSXファイルを作成
+ */
+async function createWorkbookBuffer(build: (workbook: ExcelJS.Workbook) => void): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  build(workbook);
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+describe("XLSXシートの読込", () => {
+  const service = new SpreadsheetService();
+
+  it("セルの値を文字列に変換し、空行を読み飛ばす", async () => {
+    const buffer = await createWorkbookBuffer((workbook) => {
+      const sheet = workbook.addWorksheet("GL");
+      sheet.addRow(["伝票番号", "取引日", "計上月", "金額", "摘要"]);
+      sheet.addRow([]);
+      const row = sheet.addRow([
+        " V001 ",
+        new Date(Date.UTC(2025, 5, 30)),
+        new Date(Date.UTC(2025, 5, 1)),
+        100000,
+        { richText: [{ text: "保守" }, { text: "費用" }] },
+      ]);
+      row.getCell(2).numFmt = "yyyy/mm/dd";
+      row.getCell(3).numFmt = "yyyy/mm";
+      sheet.addRow(["V002", null, null, { formula: "D3*2", result: 200000 }, "開発費用"]);
+    });
+
+    const result = await service.readSheet(buffer);
+
+    expect(result.sheetNames).toEqual(["GL"]);
+    expect(result.sheetName).toBe("GL");
+    expect(result.rows).toEqual([
+      ["伝票番号", "取引日", "計上月", "金額", "摘要"],
+      ["V001", "2025-06-30", "2025-06", "100000", "保守費用"],
+      ["V002", "", "", "200000", "開発費用"],
+    ]);
+  });
+
+  it("指定のシートを読み込み、存在しないシートはエラーにする", async () => {
+    const buffer = await createWorkbookBuffer((workbook) => {
+      workbook.addWorksheet("表紙").addRow(["受発注見込み"]);
+      workbook.addWorksheet("明細").addRow(["P001", "売上高"]);
+    });
+
+    const result = await service.readSheet(buffer, "明細");
+    expect(result.sheetNames).toEqual(["表紙", "明細"]);
+    expect(result.rows).toEqual([["P001", "売上高"]]);
+
+    await expect(service.readSheet(buffer, "集計")).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it("上限サイズを超えるファイル、XLSXでないファイルは読み込まない", async () => {
+    // 読込失敗時のエラーログを抑止
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(
+      service.readSheet(Buffer.alloc(MAX_SPREADSHEET_FILE_SIZE + 1))
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.readSheet(Buffer.from("伝票番号,金額\n"))).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+});
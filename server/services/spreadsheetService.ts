@@ -0,0 +1,145 @@
+/**
+ * 取込ファイル（CSV・XLSX）読込サービス
+ *
+ * 責務:
+ * - アップロードされたファイルの形式判定
+ * - XLSXファイルのシート一覧取得とシートの行・列への展開
+ */
+
+import ExcelJS from "exceljs";
+
+import { AppError } from "../middleware/errorHandler";
+
+/** 読み込むXLSXファイルの上限サイズ（展開後のサイズが大きくなるため、CSVより小さく制限する） */
+export const MAX_SPREADSHEET_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+/** 取込ファイルの形式 */
+export type ImportFileType = "csv" | "xlsx";
+
+/** 取込ファイルの指定（XLSXの場合は読み込むシート） */
+export interface ImportFileSource {
+  fileType: ImportFileType;
+  sheetName?: string; // 未指定の場合は先頭のシート
+}
+
+/** XLSXシートの読込結果 */
+export interface SpreadsheetSheet {
+  sheetNames: string[];
+  sheetName: string;
+  rows: string[][];
+}
+
+/** 取込を受け付けるファイルのMIMEタイプ */
+export const IMPORT_FILE_MIME_TYPES = [
+  "text/csv",
+  "application/vnd.ms-excel",
+  "text/plain",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/octet-stream",
+];
+
+/** 取込を受け付けるファイルの拡張子 */
+export const IMPORT_FILE_EXTENSIONS = [".csv", ".xlsx"];
+
+export class SpreadsheetService {
+  /**
+   * ファイル名からの取込ファイル形式の判定
+   *
+   * @param fileName - アップロードされたファイル名
+   * @param sheetName - XLSXの読込対象シート名
+   * @returns 取込ファイルの指定
+   */
+  resolveSource(fileName: string, sheetName?: string): ImportFileSource {
+    const isXLSX = fileName.toLowerCase().endsWith(".xlsx");
+    return isXLSX ? { fileType: "xlsx", sheetName: sheetName || undefined } : { fileType: "csv" };
+  }
+
+  /**
+   * XLSXシートの読込
+   *
+   * @description セルの値は文字列に変換する。日付セルは表示形式に日の指定がある場合はYYYY-MM-DD、ない場合はYYYY-MM形式にする
+   * @param fileBuffer - XLSXファイルのバッファ
+   * @param sheetName - 読込対象シート名（未指定の場合は先頭のシート）
+   * @returns シート一覧、読み込んだシート名、行・列の値
+   * @throws AppError - ファイルサイズが上限を超える場合、XLSXとして読み込めない場合、指定のシートが存在しない場合
+   */
+  async readSheet(fileBuffer: Buffer, sheetName?: string): Promise<SpreadsheetSheet> {
+    // 展開前にサイズを確認する
+    if (fileBuffer.length > MAX_SPREADSHEET_FILE_SIZE) {
+      throw new AppError(
+        `XLSXファイルのサイズは${MAX_SPREADSHEET_FILE_SIZE / 1024 / 1024}MB以下にしてください`,
+        400
+      );
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    try {
+      await workbook.xlsx.load(fileBuffer);
+    } catch (error) {
+      console.error("XLSX読込エラー:", error);
+      throw new AppError("XLSXファイルの形式が正しくありません", 400);
+    }
+
+    const sheetNames = workbook.worksheets.map((worksheet) => worksheet.name);
+    const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+    if (!worksheet) {
+      throw new AppError(`シート「${sheetName}」が見つかりません`, 400);
+    }
+
+    const rows: string[][] = [];
+    const columnCount = worksheet.columnCount;
+    worksheet.eachRow((row) => {
+      const values: string[] = [];
+      for (let c = 1; c <= columnCount; c++) {
+        const cell = row.getCell(c);
+        values.push(this.formatCell(cell.value, cell.numFmt));
+      }
+
+      // 空行は読み飛ばす（CSVのskipEmptyLinesと同じ扱い）
+      if (values.some((value) => value !== "")) {
+        rows.push(values);
+      }
+    });
+
+    return { sheetNames, sheetName: worksheet.name, rows };
+  }
+
+  /**
+   * セルの値の文字列変換（プライベートメソッド）
+   *
+   * @description 数式セルは計算結果、リッチテキスト・ハイパーリンクは表示文字列を変換する
+   */
+  private formatCell(value: ExcelJS.CellValue, numFmt: string | undefined): string {
+    if (value === undefined || value === null) {
+      return "";
+    }
+
+    // 日付セルはUTCの0時として読み込まれる
+    if (value instanceof Date) {
+      const yearMonth = `${value.getUTCFullYear()}-${String(value.getUTCMonth() + 1).padStart(2, "0")}`;
+      return !numFmt || /d/i.test(numFmt)
+        ? `${yearMonth}-${String(value.getUTCDate()).padStart(2, "0")}`
+        : yearMonth;
+    }
+
+    if (typeof value === "object") {
+      if ("richText" in value) {
+        return value.richText
+          .map((text) => text.text)
+          .join("")
+          .trim();
+      }
+      if ("formula" in value || "sharedFormula" in value) {
+        return this.formatCell(value.result, numFmt);
+      }
+      if ("hyperlink" in value) {
+        return this.formatCell(value.text, numFmt);
+      }
+      if ("error" in value) {
+        return value.error;
+      }
+    }
+
+    return String(value).trim();
+  }
+}
@@ -0,0 +1,133 @@
+import { orderForecastHistories, orderForecasts } from "@shared/schema";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../db";
+import { AccountingPeriodRepository } from "../storage/accountingPeriod";
+import { AngleBForecastRepository } from "../storage/angleBForecast";
+import { GLEntryRepository } from "../storage/glEntry";
+import { OrderForecastRepository } from "../storage/orderForecast";
+import { ProjectRepository } from "../storage/project";
+import { ReconciliationAliasRepository } from "../storage/reconciliationAlias";
+import { ReconciliationLinkRepository } from "../storage/reconciliationLink";
+import { ReconciliationLogRepository } from "../storage/reconciliationLog";
+import { ReconciliationRuleRepository } from "../storage/reconciliationRule";
+import { RecurringForecastTemplateRepository } from "../storage/recurringForecastTemplate";
+import {
+  insertAngleBForecast,
+  insertGLEntry,
+  insertOrderForecast,
+  insertProject,
+} from "../testing/fixtures";
+import { resetTestDb, type TestDb } from "../testing/testDb";
+import { AccountingPeriodService } from "./accountingPeriodService";
+import { AngleBForecastService } from "./angleBForecastService";
+import { OrderForecastHistoryService } from "./orderForecastHistoryService";
+import { ReconciliationService } from "./reconciliationService";
+import { RecurringForecastService } from "./recurringForecastService";
+
+vi.mock("../db", async () => {
+  const { createTestDb } = await import("../testing/testDb");
+  return await createTestDb();
+});
+
+const testDb = db as unknown as TestDb;
+
+describe("トランザクションのロールバック", () => {
+  beforeEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    // サービスが失敗時に出力するエラーログを抑止
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await resetTestDb(testDb);
+  });
+
+  it("角度B案件の昇格で途中の処理が失敗した場合、作成した受発注データも取り消される", async () => {
+    const angleBForecastRepository = new AngleBForecastRepository();
+    const orderForecastRepository = new OrderForecastRepository();
+    const service = new AngleBForecastService(
+      angleBForecastRepository,
+      orderForecastRepository,
+      new AccountingPeriodService(new AccountingPeriodRepository()),
+      new OrderForecastHistoryService(orderForecastRepository)
+    );
+    const angleB = await insertAngleBForecast(testDb);
+
+    // 受発注データ・変更履歴の作成後、角度B案件の削除で失敗させる
+    vi.spyOn(angleBForecastRepository, "delete").mockRejectedValue(new Error("削除に失敗"));
+
+    await expect(service.promoteToOrderForecast(angleB.id, { userId: "user-1" })).rejects.toThrow(
+      "削除に失敗"
+    );
+
+    expect(await testDb.select().from(orderForecasts)).toHaveLength(0);
+    expect(await testDb.select().from(orderForecastHistories)).toHaveLength(0);
+    expect(await angleBForecastRepository.findById(angleB.id)).not.toBeNull();
+  });
+
+  it("手動突合で途中の処理が失敗した場合、突合状態と突合リンクは変更されない", async () => {
+    const orderForecastRepository = new OrderForecastRepository();
+    const glEntryRepository = new GLEntryRepository();
+    const reconciliationLinkRepository = new ReconciliationLinkRepository();
+    const reconciliationAliasRepository = new ReconciliationAliasRepository();
+    const service = new ReconciliationService(
+      new ReconciliationLogRepository(),
+      orderForecastRepository,
+      glEntryRepository,
+      reconciliationLinkRepository,
+      new ReconciliationRuleRepository(),
+      reconciliationAliasRepository,
+      new AccountingPeriodRepository()
+    );
+    const order = await insertOrderForecast(testDb);
+    // 摘要文が異なるため、突合時に突合エイリアスを記録する
+    const gl = await insertGLEntry(testDb, { description: "保守料 6月分" });
+
+    // 突合状態・突合リンクの保存後、突合エイリアスの記録で失敗させる
+    vi.spyOn(reconciliationAliasRepository, "upsert").mockRejectedValue(
+      new Error("エイリアスの記録に失敗")
+    );
+
+    await expect(service.manualReconcile([gl.id], [order.id])).rejects.toThrow();
+
+    expect((await orderForecastRepository.findById(order.id))?.reconciliationStatus).toBe(
+      "unmatched"
+    );
+    expect((await glEntryRepository.findById(gl.id))?.reconciliationStatus).toBe("unmatched");
+    expect(await reconciliationLinkRepository.findByGlEntryId(gl.id)).toEqual([]);
+  });
+
+  it("定期売上テンプレートの削除が失敗した場合、受発注データの削除も取り消される", async () => {
+    // 2025年度の途中（当月以降の受発注データが削除対象になる）
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(2025, 8, 15));
+
+    const templateRepository = new RecurringForecastTemplateRepository();
+    const orderForecastRepository = new OrderForecastRepository();
+    const service = new RecurringForecastService(
+      templateRepository,
+      orderForecastRepository,
+      new ProjectRepository(),
+      new AccountingPeriodService(new AccountingPeriodRepository()),
+      new OrderForecastHistoryService(orderForecastRepository)
+    );
+    await insertProject(testDb);
+    const template = await templateRepository.create({
+      projectCode: "P001",
+      projectName: "テストプロジェクト",
+      accountingItem: "売上高",
+      descriptionPattern: "保守料 {m}月分",
+      monthlyAmount: "50000.00",
+      startMonth: "2025-04",
+    });
+    const generated = await service.generateForFiscalYear(2025, { userId: "user-1" });
+    expect(generated.created).toBe(12);
+
+    // 受発注データの削除後、テンプレートの削除で失敗させる
+    vi.spyOn(templateRepository, "delete").mockRejectedValue(new Error("削除に失敗"));
+
+    await expect(service.deleteTemplate(template.id, { userId: "user-1" })).rejects.toThrow();
+
+    expect(await orderForecastRepository.findByRecurringTemplateId(template.id)).toHaveLength(12);
+    expect(await templateRepository.findById(template.id)).not.toBeNull();
+  });
+});
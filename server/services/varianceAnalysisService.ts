@@ -0,0 +1,445 @@
+/**
+ * 見込み・実績・予算の差異分析サービス
+ *
+ * 責務:
+ * - 受発注見込み・GL実績・予算の計上区分別・月別の比較
+ * - 突合リンクを通じたGL実績のプロジェクトへの割当と、プロジェクト・計上区分別の比較
+ * - 差異率がしきい値を超える行の判定
+ */
+
+import {
+  type AccountingSummaryCategory,
+  toAccountingItemBalance,
+  toSummaryCategory,
+} from "@shared/schema/accountingItem";
+import type { AccountingItem } from "@shared/schema/integrated";
+import type {
+  AccountingItemVariance,
+  ProjectVarianceLine,
+  VarianceAmounts,
+  VarianceAnalysisResponse,
+} from "@shared/schema/orderForecast";
+
+import { AppError } from "../middleware/errorHandler";
+import { AccountingItemRepository } from "../storage/accountingItem";
+import { BudgetExpenseRepository } from "../storage/budgetExpense";
+import { BudgetRevenueRepository } from "../storage/budgetRevenue";
+import { GLEntryRepository } from "../storage/glEntry";
+import { OrderForecastRepository } from "../storage/orderForecast";
+
+/** 差異率のしきい値の既定値（%） */
+export const DEFAULT_VARIANCE_THRESHOLD = 10;
+
+/** 差異分析の条件 */
+export interface VarianceAnalysisOptions {
+  threshold?: number; // 強調表示する差異率のしきい値（%）
+  salesPerson?: string; // 営業担当者（指定時は担当プロジェクトに突合されたGL実績のみを集計）
+}
+
+/** 1ヶ月分の見込み・実績 */
+interface MonthlyValues {
+  forecast: number;
+  actual: number;
+}
+
+/** 集計中のプロジェクト・計上区分別の行 */
+interface ProjectLineAccumulator {
+  projectId: string | null;
+  projectCode: string | null;
+  projectName: string | null;
+  item: AccountingItem;
+  category: AccountingSummaryCategory;
+  monthly: Map<string, MonthlyValues>;
+}
+
+/**
+ * 差異分析サービスクラス
+ *
+ * @description 金額はいずれも計上区分の通常の残高方向をプラスとして比較する
+ * （売上は貸方、原価・販管費は借方。符号が-1の計上区分は逆方向）。
+ * 予算は年度単位のため、月別の予算は年度予算の1/12とする。
+ * 差異率は見込みに対する実績の差異で、GL実績のある月のみしきい値を判定する。
+ */
+export class VarianceAnalysisService {
+  constructor(
+    private orderForecastRepository: OrderForecastRepository,
+    private glEntryRepository: GLEntryRepository,
+    private accountingItemRepository: AccountingItemRepository,
+    private budgetExpenseRepository: BudgetExpenseRepository,
+    private budgetRevenueRepository: BudgetRevenueRepository
+  ) {}
+
+  /**
+   * 見込み・実績・予算の差異分析
+   *
+   * @param fiscalYear - 年度
+   * @param options - しきい値・営業担当者
+   * @returns 計上区分別・集計区分別・プロジェクト別の月次比較
+   */
+  async getVarianceAnalysis(
+    fiscalYear: number,
+    options: VarianceAnalysisOptions = {}
+  ): Promise<VarianceAnalysisResponse> {
+    const threshold = options.threshold ?? DEFAULT_VARIANCE_THRESHOLD;
+    const { salesPerson } = options;
+
+    try {
+      const months = this.getFiscalYearPeriods(fiscalYear);
+
+      // 並列でデータを取得
+      const [accountingItems, forecastRows, glTotals, expenseBudgets, revenueBudgetTotal] =
+        await Promise.all([
+          this.accountingItemRepository.findAggregationTargets(),
+          this.orderForecastRepository.getProjectMonthlySummary(fiscalYear, salesPerson),
+          this.glEntryRepository.getMonthlyAccountTotals(months),
+          this.budgetExpenseRepository.findByFiscalYear(fiscalYear),
+          this.budgetRevenueRepository.getAnnualTotal(fiscalYear),
+        ]);
+
+      const linkRows = await this.glEntryRepository.findReconciledProjectLinks(
+        months,
+        accountingItems.map((item) => item.code)
+      );
+
+      // 計上区分の名称・コードからのマッピング（受発注データの計上科目は名称またはコード）
+      const itemByKey = new Map<string, AccountingItem>();
+      for (const item of accountingItems) {
+        if (toSummaryCategory(item.category)) {
+          itemByKey.set(item.code, item);
+          itemByKey.set(item.name, item);
+        }
+      }
+
+      const actualPeriods = months.filter((period) =>
+        glTotals.some((total) => total.period === period)
+      );
+
+      const lines = new Map<string, ProjectLineAccumulator>();
+      const getLine = (
+        item: AccountingItem,
+        project: { id: string; code: string; name: string } | null
+      ) => {
+        const key = `${project?.id ?? ""}|${item.code}`;
+        let line = lines.get(key);
+        if (!line) {
+          line = {
+            projectId: project?.id ?? null,
+            projectCode: project?.code ?? null,
+            projectName: project?.name ?? null,
+            item,
+            category: toSummaryCategory(item.category)!,
+            monthly: new Map(),
+          };
+          lines.set(key, line);
+        }
+        return line;
+      };
+      const addAmount = (
+        line: ProjectLineAccumulator,
+        period: string,
+        key: keyof MonthlyValues,
+        amount: number
+      ) => {
+        const values = line.monthly.get(period) ?? { forecast: 0, actual: 0 };
+        values[key] += amount;
+        line.monthly.set(period, values);
+      };
+
+      // 受発注見込み
+      for (const row of forecastRows) {
+        const item = itemByKey.get(row.accounting_item);
+        if (!item) {
+          continue; // 集計区分が未設定の計上科目は対象外
+        }
+        const line = getLine(item, {
+          id: row.project_id,
+          code: row.project_code,
+          name: row.project_name,
+        });
+        addAmount(line, row.accounting_period, "forecast", parseFloat(row.total_amount));
+      }
+
+      // 突合済みのGL実績を受発注見込みの金額比でプロジェクトに割り当てる
+      const linksByGlEntry = new Map<string, typeof linkRows>();
+      for (const row of linkRows) {
+        const links = linksByGlEntry.get(row.glEntryId) ?? [];
+        links.push(row);
+        linksByGlEntry.set(row.glEntryId, links);
+      }
+
+      const allocatedActuals = new Map<string, number>(); // 勘定科目コード|期間 → 割当済み実績
+      for (const links of Array.from(linksByGlEntry.values())) {
+        const gl = links[0];
+        const item = itemByKey.get(gl.accountCode);
+        if (!item) {
+          continue;
+        }
+        const actual = toAccountingItemBalance(
+          item,
+          gl.debitCredit === "debit" ? Number(gl.amount) : 0,
+          gl.debitCredit === "credit" ? Number(gl.amount) : 0
+        );
+        const forecastTotal = links.reduce((sum, link) => sum + Number(link.forecastAmount), 0);
+
+        for (const link of links) {
+          const share =
+            forecastTotal !== 0 ? Number(link.forecastAmount) / forecastTotal : 1 / links.length;
+          const allocationKey = `${gl.accountCode}|${gl.period}`;
+          allocatedActuals.set(
+            allocationKey,
+            (allocatedActuals.get(allocationKey) ?? 0) + actual * share
+          );
+
+          if (salesPerson && link.salesPerson !== salesPerson) {
+            continue;
+          }
+          const line = getLine(item, {
+            id: link.projectId,
+            code: link.projectCode,
+            name: link.projectName,
+          });
+          addAmount(line, gl.period, "actual", actual * share);
+        }
+      }
+
+      // 突合されていないGL実績はプロジェクト未割当として計上（営業担当者指定時は対象外）
+      if (!salesPerson) {
+        for (const total of glTotals) {
+          const item = itemByKey.get(total.accountCode);
+          if (!item) {
+            continue;
+          }
+          const actual = toAccountingItemBalance(
+            item,
+            Number(total.debitTotal),
+            Number(total.creditTotal)
+          );
+          const unassigned =
+            actual - (allocatedActuals.get(`${total.accountCode}|${total.period}`) ?? 0);
+          if (Math.abs(unassigned) >= 0.005) {
+            addAmount(getLine(item, null), total.period, "actual", unassigned);
+          }
+        }
+      }
+
+      // 予算（営業担当者指定時は全社の予算と比較できないため対象外）
+      const monthlyBudgetByItem = new Map<string, number>();
+      if (!salesPerson) {
+        for (const budget of expenseBudgets) {
+          const item = itemByKey.get(budget.accountingItem);
+          if (item) {
+            monthlyBudgetByItem.set(
+              item.code,
+              (monthlyBudgetByItem.get(item.code) ?? 0) + Number(budget.budgetAmount) / 12
+            );
+          }
+        }
+      }
+
+      // プロジェクト・計上区分別の比較
+      const projectLines: ProjectVarianceLine[] = Array.from(lines.values())
+        .sort((a, b) => {
+          if (a.projectCode !== b.projectCode) {
+            if (a.projectCode === null) return 1; // プロジェクト未割当は末尾
+            if (b.projectCode === null) return -1;
+            return a.projectCode.localeCompare(b.projectCode);
+          }
+          return accountingItems.indexOf(a.item) - accountingItems.indexOf(b.item);
+        })
+        .map((line) => {
+          const { monthly, actualToDate } = this.buildComparison(
+            months,
+            actualPeriods,
+            (period) => line.monthly.get(period) ?? { forecast: 0, actual: 0 },
+            () => null,
+            threshold
+          );
+          return {
+            projectId: line.projectId,
+            projectCode: line.projectCode,
+            projectName: line.projectName,
+            accountingItemCode: line.item.code,
+            accountingItemName: line.item.name,
+            category: line.category,
+            monthly,
+            actualToDate,
+          };
+        });
+
+      // 計上区分別の比較（プロジェクト別の行の合計）
+      const itemValues = (item: AccountingItem, period: string): MonthlyValues => {
+        const values = { forecast: 0, actual: 0 };
+        for (const line of Array.from(lines.values())) {
+          if (line.item.code === item.code) {
+            const lineValues = line.monthly.get(period);
+            values.forecast += lineValues?.forecast ?? 0;
+            values.actual += lineValues?.actual ?? 0;
+          }
+        }
+        return values;
+      };
+      const itemBudget = (item: AccountingItem) => monthlyBudgetByItem.get(item.code) ?? null;
+
+      const summaryItems = accountingItems.filter((item) => toSummaryCategory(item.category));
+      const accountingItemVariances: AccountingItemVariance[] = summaryItems.map((item) => ({
+        code: item.code,
+        name: item.name,
+        category: toSummaryCategory(item.category)!,
+        ...this.buildComparison(
+          months,
+          actualPeriods,
+          (period) => itemValues(item, period),
+          () => itemBudget(item),
+          threshold
+        ),
+      }));
+
+      // 集計区分別の比較（計上区分の符号を反映）
+      const buildSummary = (category: AccountingSummaryCategory) => {
+        const categoryItems = summaryItems.filter(
+          (item) => toSummaryCategory(item.category) === category
+        );
+        const budgetItems = categoryItems.filter((item) => itemBudget(item) !== null);
+        return this.buildComparison(
+          months,
+          actualPeriods,
+          (period) =>
+            categoryItems.reduce(
+              (sum, item) => {
+                const values = itemValues(item, period);
+                return {
+                  forecast: sum.forecast + values.forecast * item.sign,
+                  actual: sum.actual + values.actual * item.sign,
+                };
+              },
+              { forecast: 0, actual: 0 }
+            ),
+          () => {
+            if (salesPerson) {
+              return null;
+            }
+            if (category === "revenue") {
+              return revenueBudgetTotal / 12;
+            }
+            return budgetItems.length > 0
+              ? budgetItems.reduce((sum, item) => sum + itemBudget(item)! * item.sign, 0)
+              : null;
+          },
+          threshold
+        );
+      };
+
+      return {
+        fiscalYear,
+        months,
+        actualPeriods,
+        threshold,
+        accountingItems: accountingItemVariances,
+        summaries: {
+          revenue: buildSummary("revenue"),
+          costOfSales: buildSummary("costOfSales"),
+          sgaExpenses: buildSummary("sgaExpenses"),
+        },
+        projects: projectLines,
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error("差異分析取得エラー:", error);
+      throw new AppError("差異分析の取得中にエラーが発生しました", 500);
+    }
+  }
+
+  /**
+   * 月別と実績月累計の比較値の作成（プライベートメソッド）
+   *
+   * @param getValues - 月の見込み・実績
+   * @param getMonthlyBudget - 月の予算（予算の対象外の場合はnull）
+   */
+  private buildComparison(
+    months: string[],
+    actualPeriods: string[],
+    getValues: (period: string) => MonthlyValues,
+    getMonthlyBudget: () => number | null,
+    threshold: number
+  ): { monthly: Record<string, VarianceAmounts>; actualToDate: VarianceAmounts } {
+    const monthlyBudget = getMonthlyBudget();
+    const monthly: Record<string, VarianceAmounts> = {};
+    let forecastToDate = 0;
+    let actualToDate = 0;
+
+    for (const period of months) {
+      const values = getValues(period);
+      const hasActual = actualPeriods.includes(period);
+      monthly[period] = this.toVarianceAmounts(
+        values.forecast,
+        values.actual,
+        monthlyBudget,
+        threshold,
+        hasActual
+      );
+      if (hasActual) {
+        forecastToDate += values.forecast;
+        actualToDate += values.actual;
+      }
+    }
+
+    return {
+      monthly,
+      actualToDate: this.toVarianceAmounts(
+        forecastToDate,
+        actualToDate,
+        monthlyBudget === null ? null : monthlyBudget * actualPeriods.length,
+        threshold,
+        actualPeriods.length > 0
+      ),
+    };
+  }
+
+  /**
+   * 差異・差異率の計算（プライベートメソッド）
+   *
+   * @param judge - しきい値を判定するか（GL実績のない月は判定しない）
+   */
+  private toVarianceAmounts(
+    forecast: number,
+    actual: number,
+    budget: number | null,
+    threshold: number,
+    judge: boolean
+  ): VarianceAmounts {
+    const variance = this.round(actual - forecast);
+    const variancePercent =
+      forecast !== 0 ? Math.round((variance / Math.abs(forecast)) * 1000) / 10 : null;
+
+    return {
+      forecast: this.round(forecast),
+      actual: this.round(actual),
+      budget: budget === null ? null : this.round(budget),
+      variance,
+      variancePercent,
+      budgetVariance: budget === null ? null : this.round(actual - budget),
+      exceedsThreshold:
+        judge &&
+        (variancePercent === null ? variance !== 0 : Math.abs(variancePercent) >= threshold),
+    };
+  }
+
+  /**
+   * 会計年度の期間一覧（4月〜翌年3月）の取得（プライベートメソッド）
+   */
+  private getFiscalYearPeriods(fiscalYear: number): string[] {
+    return [4, 5, 6, 7, 8, 9, 10, 11, 12, 1, 2, 3].map((month) => {
+      const year = month >= 4 ? fiscalYear : fiscalYear + 1;
+      return `${year}-${month.toString().padStart(2, "0")}`;
+    });
+  }
+
+  /**
+   * 金額の丸め（プライベートメソッド）
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -1,8 +1,8 @@
 import { accountingItems } from "@shared/schema/accountingItem";
 import type { AccountingItem, NewAccountingItem } from "@shared/schema/integrated";
-import { and, asc, desc, eq, like, or, sql } from "drizzle-orm";
+import { and, asc, desc, eq, isNotNull, like, or, sql } from "drizzle-orm";
 
-import { db } from "../../db";
+import { db, type DbExecutor } from "../../db";
 import type { AccountingItemFilter, AccountingItemSearchOptions } from "./types";
 
 /**
@@ -16,12 +16,16 @@ export class AccountingItemRepository {
    * 全ての会計項目を取得
    *
    * @param options - 検索オプション（フィルタ、ページネーション、ソート）
+   * @param executor - DBエグゼキューター（トランザクション内で呼び出す場合に指定）
    * @returns 会計項目の配列
    */
-  async findAll(options: AccountingItemSearchOptions = {}): Promise<AccountingItem[]> {
+  async findAll(
+    options: AccountingItemSearchOptions = {},
+    executor: DbExecutor = db
+  ): Promise<AccountingItem[]> {
     const { filter = {}, limit, offset, sortBy = "createdAt", sortOrder = "desc" } = options;
 
-    let query = db.select().from(accountingItems);
+    let query = executor.select().from(accountingItems);
 
     // フィルタリング
     const conditions = [];
@@ -44,9 +48,12 @@ export class AccountingItemRepository {
       query = query.where(and(...conditions)) as any;
     }
 
-    // ソート
+    // ソート（表示順が同じ場合はコード順）
     const orderColumn = accountingItems[sortBy];
-    query = query.orderBy(sortOrder === "asc" ? asc(orderColumn) : desc(orderColumn)) as any;
+    query = query.orderBy(
+      sortOrder === "asc" ? asc(orderColumn) : desc(orderColumn),
+      asc(accountingItems.code)
+    ) as any;
 
     // ページネーション
     if (limit !== undefined) {
@@ -125,6 +132,33 @@ export class AccountingItemRepository {
     return result[0] || null;
   }
 
+  /**
+   * 集計対象の会計項目を取得
+   *
+   * @description 集計区分が設定された会計項目を表示順・コード順で取得
+   * @returns 集計対象の会計項目の配列
+   */
+  async findAggregationTargets(): Promise<AccountingItem[]> {
+    return await db
+      .select()
+      .from(accountingItems)
+      .where(isNotNull(accountingItems.category))
+      .orderBy(asc(accountingItems.displayOrder), asc(accountingItems.code));
+  }
+
+  /**
+   * 標準レイアウトのGL取込対象の会計項目を取得
+   *
+   * @returns GL取込対象の会計項目の配列（コード順）
+   */
+  async findGLImportTargets(): Promise<AccountingItem[]> {
+    return await db
+      .select()
+      .from(accountingItems)
+      .where(eq(accountingItems.glImportTarget, "true"))
+      .orderBy(asc(accountingItems.code));
+  }
+
   /**
    * 会計項目を作成
    *
@@ -0,0 +1,100 @@
+/**
+ * 会計期間リポジトリ
+ *
+ * 責務:
+ * - 会計期間テーブル（accounting_periods）の取得・締め状態の更新
+ * - 締め済み期間の変更履歴テーブル（period_lock_overrides）の記録・取得
+ */
+
+import { accountingPeriods, periodLockOverrides } from "@shared/schema/accountingPeriod";
+import type {
+  AccountingPeriod,
+  NewAccountingPeriod,
+  NewPeriodLockOverride,
+  PeriodLockOverride,
+} from "@shared/schema/integrated";
+import { and, desc, eq, inArray } from "drizzle-orm";
+
+import { db, type DbExecutor } from "../../db";
+
+export class AccountingPeriodRepository {
+  /**
+   * 全ての会計期間を期間の降順で取得
+   */
+  async findAll(executor: DbExecutor = db): Promise<AccountingPeriod[]> {
+    return await executor.select().from(accountingPeriods).orderBy(desc(accountingPeriods.period));
+  }
+
+  /**
+   * 期間で会計期間を取得
+   */
+  async findByPeriod(period: string, executor: DbExecutor = db): Promise<AccountingPeriod | null> {
+    const result = await executor
+      .select()
+      .from(accountingPeriods)
+      .where(eq(accountingPeriods.period, period));
+    return result[0] || null;
+  }
+
+  /**
+   * 指定した期間のうち締め済みの会計期間を取得
+   */
+  async findClosedByPeriods(
+    periods: string[],
+    executor: DbExecutor = db
+  ): Promise<AccountingPeriod[]> {
+    if (periods.length === 0) {
+      return [];
+    }
+
+    return await executor
+      .select()
+      .from(accountingPeriods)
+      .where(
+        and(inArray(accountingPeriods.period, periods), eq(accountingPeriods.status, "closed"))
+      );
+  }
+
+  /**
+   * 会計期間を作成または更新（期間が既に存在する場合は締め状態を更新）
+   */
+  async upsert(data: NewAccountingPeriod, executor: DbExecutor = db): Promise<AccountingPeriod> {
+    const result = await executor
+      .insert(accountingPeriods)
+      .values(data)
+      .onConflictDoUpdate({
+        target: accountingPeriods.period,
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  /**
+   * 締め済み期間の変更履歴を記録
+   */
+  async createOverrides(
+    data: NewPeriodLockOverride[],
+    executor: DbExecutor = db
+  ): Promise<PeriodLockOverride[]> {
+    if (data.length === 0) {
+      return [];
+    }
+
+    return await executor.insert(periodLockOverrides).values(data).returning();
+  }
+
+  /**
+   * 期間の変更履歴を新しい順に取得
+   */
+  async findOverridesByPeriod(
+    period: string,
+    executor: DbExecutor = db
+  ): Promise<PeriodLockOverride[]> {
+    return await executor
+      .select()
+      .from(periodLockOverrides)
+      .where(eq(periodLockOverrides.period, period))
+      .orderBy(desc(periodLockOverrides.createdAt));
+  }
+}
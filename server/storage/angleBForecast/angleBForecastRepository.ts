@@ -1,18 +1,9 @@
 import type { AngleBForecast, AngleBForecastFilter, NewAngleBForecast } from "@shared/schema";
-import { angleBForecasts, projects } from "@shared/schema";
+import { accountingItems, angleBForecasts, projects } from "@shared/schema";
 import type { ProjectAnalysisDetailLine } from "@shared/schema/orderForecast";
 import { and, asc, desc, eq, ilike, inArray, or, sql } from "drizzle-orm";
 
-import { db } from "../../db";
-
-/** プロジェクト分析の売上計上科目（orderForecastRepository の REVENUE_ITEMS と同一） */
-const REVENUE_ITEMS = [
-  "保守売上",
-  "ソフト売上",
-  "商品売上",
-  "消耗品売上",
-  "その他売上",
-] as const;
+import { db, type DbExecutor } from "../../db";
 
 export class AngleBForecastRepository {
   /**
@@ -58,6 +49,8 @@ export class AngleBForecastRepository {
         createdByUserId: angleBForecasts.createdByUserId,
         createdByEmployeeId: angleBForecasts.createdByEmployeeId,
         version: angleBForecasts.version,
+        importBatchId: angleBForecasts.importBatchId,
+        splitGroupId: angleBForecasts.splitGroupId,
         createdAt: angleBForecasts.createdAt,
       })
       .from(angleBForecasts)
@@ -96,8 +89,8 @@ export class AngleBForecastRepository {
     return result[0]?.count || 0;
   }
 
-  async findById(id: string): Promise<AngleBForecast | null> {
-    const result = await db
+  async findById(id: string, executor: DbExecutor = db): Promise<AngleBForecast | null> {
+    const result = await executor
       .select()
       .from(angleBForecasts)
       .where(eq(angleBForecasts.id, id))
@@ -106,6 +99,33 @@ export class AngleBForecastRepository {
     return result[0] || null;
   }
 
+  /**
+   * 取込バッチIDで角度B案件を取得
+   */
+  async findByImportBatchId(
+    importBatchId: string,
+    executor: DbExecutor = db
+  ): Promise<AngleBForecast[]> {
+    return await executor
+      .select()
+      .from(angleBForecasts)
+      .where(eq(angleBForecasts.importBatchId, importBatchId));
+  }
+
+  /**
+   * 分割計上グループIDで角度B案件を取得（計上年月順）
+   */
+  async findBySplitGroupId(
+    splitGroupId: string,
+    executor: DbExecutor = db
+  ): Promise<AngleBForecast[]> {
+    return await executor
+      .select()
+      .from(angleBForecasts)
+      .where(eq(angleBForecasts.splitGroupId, splitGroupId))
+      .orderBy(asc(angleBForecasts.accountingPeriod));
+  }
+
   async findByPeriod(period: string): Promise<AngleBForecast[]> {
     return await db
       .select()
@@ -114,23 +134,74 @@ export class AngleBForecastRepository {
       .orderBy(desc(angleBForecasts.createdAt));
   }
 
-  async create(data: NewAngleBForecast): Promise<AngleBForecast> {
-    const result = await db.insert(angleBForecasts).values(data).returning();
+  async create(data: NewAngleBForecast, executor: DbExecutor = db): Promise<AngleBForecast> {
+    const result = await executor.insert(angleBForecasts).values(data).returning();
     return result[0];
   }
 
-  async update(id: string, data: Partial<NewAngleBForecast>): Promise<AngleBForecast | null> {
-    const result = await db
+  async update(
+    id: string,
+    data: Partial<NewAngleBForecast>,
+    executor: DbExecutor = db
+  ): Promise<AngleBForecast | null> {
+    const result = await executor
       .update(angleBForecasts)
-      .set(data)
+      .set({
+        ...data,
+        version: sql`version + 1`, // 楽観ロック
+      })
       .where(eq(angleBForecasts.id, id))
       .returning();
 
     return result[0] || null;
   }
 
-  async delete(id: string): Promise<boolean> {
-    const result = await db.delete(angleBForecasts).where(eq(angleBForecasts.id, id)).returning();
+  /**
+   * バージョンが一致する場合のみ角度B案件を更新（楽観ロック）
+   *
+   * @returns 更新後の角度B案件。対象が存在しないかバージョンが一致しない場合はnull
+   */
+  async updateIfVersionMatches(
+    id: string,
+    expectedVersion: number,
+    data: Partial<NewAngleBForecast>,
+    executor: DbExecutor = db
+  ): Promise<AngleBForecast | null> {
+    const result = await executor
+      .update(angleBForecasts)
+      .set({
+        ...data,
+        version: sql`version + 1`,
+      })
+      .where(and(eq(angleBForecasts.id, id), eq(angleBForecasts.version, expectedVersion)))
+      .returning();
+
+    return result[0] || null;
+  }
+
+  /**
+   * バージョンが一致する場合のみ角度B案件を削除（楽観ロック）
+   *
+   * @returns 削除した場合true。対象が存在しないかバージョンが一致しない場合はfalse
+   */
+  async deleteIfVersionMatches(
+    id: string,
+    expectedVersion: number,
+    executor: DbExecutor = db
+  ): Promise<boolean> {
+    const result = await executor
+      .delete(angleBForecasts)
+      .where(and(eq(angleBForecasts.id, id), eq(angleBForecasts.version, expectedVersion)))
+      .returning({ id: angleBForecasts.id });
+
+    return result.length > 0;
+  }
+
+  async delete(id: string, executor: DbExecutor = db): Promise<boolean> {
+    const result = await executor
+      .delete(angleBForecasts)
+      .where(eq(angleBForecasts.id, id))
+      .returning();
 
     return result.length > 0;
   }
@@ -276,19 +347,19 @@ export class AngleBForecastRepository {
     const result = await db
       .select({
         projectId: angleBForecasts.projectId,
-        accountingItem: angleBForecasts.accountingItem,
-        totalAmount: sql<string>`COALESCE(SUM(${angleBForecasts.amount}::numeric), 0)`,
+        totalAmount: sql<string>`COALESCE(SUM(${angleBForecasts.amount}::numeric * ${accountingItems.sign}), 0)`,
       })
       .from(angleBForecasts)
+      .innerJoin(accountingItems, eq(angleBForecasts.accountingItem, accountingItems.name))
       .where(
         and(
           inArray(angleBForecasts.projectId, projectIds),
           sql`${angleBForecasts.accountingPeriod} >= ${startPeriod}`,
           sql`${angleBForecasts.accountingPeriod} <= ${endPeriod}`,
-          inArray(angleBForecasts.accountingItem, [...REVENUE_ITEMS])
+          eq(accountingItems.category, "revenue")
         )
       )
-      .groupBy(angleBForecasts.projectId, angleBForecasts.accountingItem);
+      .groupBy(angleBForecasts.projectId);
 
     const summaryMap = new Map<string, number>();
 
@@ -324,12 +395,13 @@ export class AngleBForecastRepository {
         amount: angleBForecasts.amount,
       })
       .from(angleBForecasts)
+      .innerJoin(accountingItems, eq(angleBForecasts.accountingItem, accountingItems.name))
       .where(
         and(
           eq(angleBForecasts.projectId, projectId),
           sql`${angleBForecasts.accountingPeriod} >= ${startPeriod}`,
           sql`${angleBForecasts.accountingPeriod} <= ${endPeriod}`,
-          inArray(angleBForecasts.accountingItem, [...REVENUE_ITEMS])
+          eq(accountingItems.category, "revenue")
         )
       )
       .orderBy(asc(angleBForecasts.accountingPeriod), asc(angleBForecasts.accountingItem));
@@ -11,7 +11,7 @@ import { customers } from "@shared/schema/customer";
 import type { Customer, NewCustomer } from "@shared/schema/integrated";
 import { and, asc, count, desc, eq, like, ne, or } from "drizzle-orm";
 
-import { db } from "../../db";
+import { db, type DbExecutor } from "../../db";
 
 export interface CustomerFilter {
   search?: string;
@@ -76,8 +76,8 @@ export class CustomerRepository {
   /**
    * IDで顧客を取得
    */
-  async findById(id: string): Promise<Customer | null> {
-    const result = await db.select().from(customers).where(eq(customers.id, id));
+  async findById(id: string, executor: DbExecutor = db): Promise<Customer | null> {
+    const result = await executor.select().from(customers).where(eq(customers.id, id));
     return result[0] || null;
   }
 
@@ -0,0 +1,74 @@
+/**
+ * 受発注見込みスナップショットリポジトリ
+ *
+ * 責務:
+ * - 受発注見込みスナップショットテーブル（forecast_snapshots）のCRUD操作
+ */
+
+import { forecastSnapshots } from "@shared/schema/forecastSnapshot";
+import type { ForecastSnapshot, NewForecastSnapshot } from "@shared/schema/integrated";
+import { asc, desc, eq, sql } from "drizzle-orm";
+
+import { db } from "../../db";
+
+/** 集計行を含まないスナップショットの一覧項目 */
+export type ForecastSnapshotSummary = Omit<ForecastSnapshot, "lines"> & { lineCount: number };
+
+export class ForecastSnapshotRepository {
+  /**
+   * 年度のスナップショット一覧を基準日の新しい順に取得（集計行は含まない）
+   */
+  async findSummaries(fiscalYear: number): Promise<ForecastSnapshotSummary[]> {
+    return await db
+      .select({
+        id: forecastSnapshots.id,
+        fiscalYear: forecastSnapshots.fiscalYear,
+        snapshotDate: forecastSnapshots.snapshotDate,
+        name: forecastSnapshots.name,
+        createdByEmployeeId: forecastSnapshots.createdByEmployeeId,
+        createdAt: forecastSnapshots.createdAt,
+        lineCount: sql<number>`jsonb_array_length(${forecastSnapshots.lines})::int`,
+      })
+      .from(forecastSnapshots)
+      .where(eq(forecastSnapshots.fiscalYear, fiscalYear))
+      .orderBy(desc(forecastSnapshots.snapshotDate), desc(forecastSnapshots.createdAt));
+  }
+
+  /**
+   * 年度のスナップショットを集計行を含めて基準日の古い順に取得
+   */
+  async findByFiscalYear(fiscalYear: number): Promise<ForecastSnapshot[]> {
+    return await db
+      .select()
+      .from(forecastSnapshots)
+      .where(eq(forecastSnapshots.fiscalYear, fiscalYear))
+      .orderBy(asc(forecastSnapshots.snapshotDate), asc(forecastSnapshots.createdAt));
+  }
+
+  /**
+   * IDでスナップショットを取得
+   */
+  async findById(id: string): Promise<ForecastSnapshot | null> {
+    const result = await db.select().from(forecastSnapshots).where(eq(forecastSnapshots.id, id));
+    return result[0] || null;
+  }
+
+  /**
+   * スナップショットを作成
+   */
+  async create(data: NewForecastSnapshot): Promise<ForecastSnapshot> {
+    const result = await db.insert(forecastSnapshots).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * スナップショットを削除
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await db
+      .delete(forecastSnapshots)
+      .where(eq(forecastSnapshots.id, id))
+      .returning({ id: forecastSnapshots.id });
+    return result.length > 0;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * 分割計上グループリポジトリ
+ *
+ * 責務:
+ * - 分割計上グループテーブル（forecast_split_groups）の作成・取得・更新
+ */
+
+import { forecastSplitGroups } from "@shared/schema/forecastSplit";
+import type { ForecastSplitGroup, NewForecastSplitGroup } from "@shared/schema/integrated";
+import { eq } from "drizzle-orm";
+
+import { db, type DbExecutor } from "../../db";
+
+export class ForecastSplitGroupRepository {
+  /**
+   * IDで分割計上グループを取得
+   */
+  async findById(id: string, executor: DbExecutor = db): Promise<ForecastSplitGroup | null> {
+    const result = await executor
+      .select()
+      .from(forecastSplitGroups)
+      .where(eq(forecastSplitGroups.id, id));
+    return (result[0] as ForecastSplitGroup) || null;
+  }
+
+  /**
+   * 分割計上グループを作成
+   */
+  async create(
+    data: NewForecastSplitGroup,
+    executor: DbExecutor = db
+  ): Promise<ForecastSplitGroup> {
+    const result = await executor.insert(forecastSplitGroups).values(data).returning();
+    return result[0] as ForecastSplitGroup;
+  }
+
+  /**
+   * 分割計上グループの分割条件を更新
+   */
+  async update(
+    id: string,
+    data: Partial<NewForecastSplitGroup>,
+    executor: DbExecutor = db
+  ): Promise<ForecastSplitGroup | null> {
+    const result = await executor
+      .update(forecastSplitGroups)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(forecastSplitGroups.id, id))
+      .returning();
+    return (result[0] as ForecastSplitGroup) || null;
+  }
+}
@@ -5,13 +5,31 @@
  * - GL総勘定元帳テーブル（gl_entries）のCRUD操作
  * - GLデータの検索・フィルタリング
  * - 突合処理のためのデータ操作
+ * - 伝票の貸借チェックのための集計と取込対象外明細（gl_voucher_exclusions）の管理
+ * - 試算表・勘定科目元帳のための集計
+ * - 差異分析・見込み精度評価のための突合済み受発注データ（プロジェクト）の取得
+ * - 異常検知のための集計と検出結果（gl_anomalies）の管理
  */
 
-import { glEntries } from "@shared/schema/glEntry";
-import type { GLEntry, NewGLEntry } from "@shared/schema/integrated";
-import { and, asc, desc, eq, gte, like, lte, or } from "drizzle-orm";
-
-import { db } from "../../db";
+import { glAnomalies, glEntries, glVoucherExclusions } from "@shared/schema/glEntry";
+import type {
+  GLAnomaly,
+  GLAnomalyListItem,
+  GLAnomalyStatus,
+  GLAnomalyType,
+  GLEntry,
+  GLVoucherExclusion,
+  NewGLAnomaly,
+  NewGLEntry,
+  NewGLVoucherExclusion,
+} from "@shared/schema/integrated";
+import { orderForecasts } from "@shared/schema/orderForecast";
+import { projects } from "@shared/schema/project";
+import { reconciliationLinks } from "@shared/schema/reconciliationLink";
+import { and, asc, desc, eq, gte, inArray, like, lt, lte, ne, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+import { db, type DbExecutor } from "../../db";
 
 export interface GLEntryFilter {
   search?: string;
@@ -134,11 +152,21 @@ export class GLEntryRepository {
   /**
    * IDでGLデータを取得
    */
-  async findById(id: string): Promise<GLEntry | null> {
-    const result = await db.select().from(glEntries).where(eq(glEntries.id, id));
+  async findById(id: string, executor: DbExecutor = db): Promise<GLEntry | null> {
+    const result = await executor.select().from(glEntries).where(eq(glEntries.id, id));
     return result[0] || null;
   }
 
+  /**
+   * 取込バッチIDでGLデータを取得
+   */
+  async findByImportBatchId(importBatchId: string, executor: DbExecutor = db): Promise<GLEntry[]> {
+    return await executor
+      .select()
+      .from(glEntries)
+      .where(eq(glEntries.importBatchId, importBatchId));
+  }
+
   /**
    * 伝票番号でGLデータを取得
    */
@@ -149,8 +177,8 @@ export class GLEntryRepository {
   /**
    * 期間でGLデータを取得
    */
-  async findByPeriod(period: string): Promise<GLEntry[]> {
-    return await db.select().from(glEntries).where(eq(glEntries.period, period));
+  async findByPeriod(period: string, executor: DbExecutor = db): Promise<GLEntry[]> {
+    return await executor.select().from(glEntries).where(eq(glEntries.period, period));
   }
 
   /**
@@ -184,16 +212,20 @@ export class GLEntryRepository {
   /**
    * GLデータを作成
    */
-  async create(data: NewGLEntry): Promise<GLEntry> {
-    const result = await db.insert(glEntries).values(data).returning();
+  async create(data: NewGLEntry, executor: DbExecutor = db): Promise<GLEntry> {
+    const result = await executor.insert(glEntries).values(data).returning();
     return result[0];
   }
 
   /**
    * GLデータを更新
    */
-  async update(id: string, data: Partial<NewGLEntry>): Promise<GLEntry | null> {
-    const result = await db
+  async update(
+    id: string,
+    data: Partial<NewGLEntry>,
+    executor: DbExecutor = db
+  ): Promise<GLEntry | null> {
+    const result = await executor
       .update(glEntries)
       .set({ ...data })
       .where(eq(glEntries.id, id))
@@ -205,16 +237,16 @@ export class GLEntryRepository {
   /**
    * GLデータを削除
    */
-  async delete(id: string): Promise<boolean> {
-    const result = await db.delete(glEntries).where(eq(glEntries.id, id));
+  async delete(id: string, executor: DbExecutor = db): Promise<boolean> {
+    const result = await executor.delete(glEntries).where(eq(glEntries.id, id));
     return (result.rowCount ?? 0) > 0;
   }
 
   /**
    * 期間でGLデータを削除
    */
-  async deleteByPeriod(period: string): Promise<number> {
-    const result = await db.delete(glEntries).where(eq(glEntries.period, period));
+  async deleteByPeriod(period: string, executor: DbExecutor = db): Promise<number> {
+    const result = await executor.delete(glEntries).where(eq(glEntries.period, period));
     return result.rowCount ?? 0;
   }
 
@@ -224,7 +256,8 @@ export class GLEntryRepository {
   async updateReconciliationStatus(
     id: string,
     status: "matched" | "fuzzy" | "unmatched",
-    orderMatchId?: string
+    orderMatchId?: string,
+    executor: DbExecutor = db
   ): Promise<GLEntry | null> {
     const updateData: any = {
       reconciliationStatus: status,
@@ -236,7 +269,11 @@ export class GLEntryRepository {
       updateData.orderMatchId = null;
     }
 
-    const result = await db
+    if (status === "unmatched") {
+      updateData.isCrossPeriod = "false";
+    }
+
+    const result = await executor
       .update(glEntries)
       .set(updateData)
       .where(eq(glEntries.id, id))
@@ -245,6 +282,20 @@ export class GLEntryRepository {
     return result[0] || null;
   }
 
+  /**
+   * 月度をまたいだ突合フラグを設定
+   */
+  async markCrossPeriod(ids: string[], executor: DbExecutor = db): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await executor
+      .update(glEntries)
+      .set({ isCrossPeriod: "true" })
+      .where(inArray(glEntries.id, ids));
+  }
+
   /**
    * GLデータ総数を取得
    */
@@ -322,4 +373,391 @@ export class GLEntryRepository {
     const result = await query;
     return result.length;
   }
+
+  /**
+   * 伝票番号・期間ごとの借方・貸方合計を取得
+   */
+  async getVoucherTotals(
+    periods: string[],
+    executor: DbExecutor = db
+  ): Promise<
+    Array<{
+      voucherNo: string;
+      period: string;
+      transactionDate: string;
+      lineCount: number;
+      debitTotal: string;
+      creditTotal: string;
+    }>
+  > {
+    if (periods.length === 0) {
+      return [];
+    }
+
+    return await executor
+      .select({
+        voucherNo: glEntries.voucherNo,
+        period: glEntries.period,
+        transactionDate: sql<string>`MIN(${glEntries.transactionDate})::text`,
+        lineCount: sql<number>`COUNT(*)::int`,
+        debitTotal: sql<string>`COALESCE(SUM(CASE WHEN ${glEntries.debitCredit} = 'debit' THEN ${glEntries.amount} ELSE 0 END), 0)`,
+        creditTotal: sql<string>`COALESCE(SUM(CASE WHEN ${glEntries.debitCredit} = 'credit' THEN ${glEntries.amount} ELSE 0 END), 0)`,
+      })
+      .from(glEntries)
+      .where(inArray(glEntries.period, periods))
+      .groupBy(glEntries.voucherNo, glEntries.period)
+      .orderBy(asc(glEntries.period), asc(glEntries.voucherNo));
+  }
+
+  /**
+   * 期間の勘定科目・月ごとの借方・貸方合計を取得（試算表用）
+   */
+  async getMonthlyAccountTotals(
+    periods: string[],
+    executor: DbExecutor = db
+  ): Promise<
+    Array<{
+      accountCode: string;
+      accountName: string;
+      period: string;
+      debitTotal: string;
+      creditTotal: string;
+    }>
+  > {
+    if (periods.length === 0) {
+      return [];
+    }
+
+    return await executor
+      .select({
+        accountCode: glEntries.accountCode,
+        accountName: sql<string>`MAX(${glEntries.accountName})`,
+        period: glEntries.period,
+        debitTotal: sql<string>`COALESCE(SUM(CASE WHEN ${glEntries.debitCredit} = 'debit' THEN ${glEntries.amount} ELSE 0 END), 0)`,
+        creditTotal: sql<string>`COALESCE(SUM(CASE WHEN ${glEntries.debitCredit} = 'credit' THEN ${glEntries.amount} ELSE 0 END), 0)`,
+      })
+      .from(glEntries)
+      .where(inArray(glEntries.period, periods))
+      .groupBy(glEntries.accountCode, glEntries.period)
+      .orderBy(asc(glEntries.accountCode), asc(glEntries.period));
+  }
+
+  /**
+   * 期間のGLデータと突合リンクで結び付いた受発注データのプロジェクトを取得（差異分析・見込み精度評価用）
+   *
+   * @description GL明細と受発注明細の組ごとに1行を返す（分割突合の場合は1つのGL明細に複数行）
+   */
+  async findReconciledProjectLinks(
+    periods: string[],
+    accountCodes: string[],
+    executor: DbExecutor = db
+  ): Promise<
+    Array<{
+      glEntryId: string;
+      accountCode: string;
+      period: string;
+      amount: string;
+      debitCredit: string;
+      projectId: string;
+      projectCode: string;
+      projectName: string;
+      salesPerson: string | null;
+      serviceType: string | null;
+      forecastAmount: string;
+    }>
+  > {
+    if (periods.length === 0 || accountCodes.length === 0) {
+      return [];
+    }
+
+    return await executor
+      .select({
+        glEntryId: glEntries.id,
+        accountCode: glEntries.accountCode,
+        period: glEntries.period,
+        amount: glEntries.amount,
+        debitCredit: glEntries.debitCredit,
+        projectId: orderForecasts.projectId,
+        projectCode: orderForecasts.projectCode,
+        projectName: orderForecasts.projectName,
+        salesPerson: projects.salesPerson,
+        serviceType: projects.serviceType,
+        forecastAmount: orderForecasts.amount,
+      })
+      .from(glEntries)
+      .innerJoin(reconciliationLinks, eq(reconciliationLinks.glEntryId, glEntries.id))
+      .innerJoin(orderForecasts, eq(orderForecasts.id, reconciliationLinks.orderForecastId))
+      .leftJoin(projects, eq(projects.id, orderForecasts.projectId))
+      .where(and(inArray(glEntries.period, periods), inArray(glEntries.accountCode, accountCodes)));
+  }
+
+  /**
+   * 勘定科目・期間のGLデータを取引日順に取得（勘定科目元帳用）
+   */
+  async findByAccountCodeAndPeriods(
+    accountCode: string,
+    periods: string[],
+    executor: DbExecutor = db
+  ): Promise<GLEntry[]> {
+    if (periods.length === 0) {
+      return [];
+    }
+
+    return await executor
+      .select()
+      .from(glEntries)
+      .where(and(eq(glEntries.accountCode, accountCode), inArray(glEntries.period, periods)))
+      .orderBy(
+        asc(glEntries.period),
+        asc(glEntries.transactionDate),
+        asc(glEntries.voucherNo),
+        asc(glEntries.createdAt)
+      );
+  }
+
+  /**
+   * 期間の取込対象外明細（伝票ごとの集計）を取得
+   */
+  async findVoucherExclusions(
+    periods: string[],
+    executor: DbExecutor = db
+  ): Promise<GLVoucherExclusion[]> {
+    if (periods.length === 0) {
+      return [];
+    }
+
+    return await executor
+      .select()
+      .from(glVoucherExclusions)
+      .where(inArray(glVoucherExclusions.period, periods));
+  }
+
+  /**
+   * 期間の取込対象外明細（伝票ごとの集計）を置き換え
+   */
+  async replaceVoucherExclusions(
+    periods: string[],
+    data: NewGLVoucherExclusion[],
+    executor: DbExecutor = db
+  ): Promise<void> {
+    if (periods.length > 0) {
+      await executor
+        .delete(glVoucherExclusions)
+        .where(inArray(glVoucherExclusions.period, periods));
+    }
+    if (data.length > 0) {
+      await executor.insert(glVoucherExclusions).values(data);
+    }
+  }
+
+  /**
+   * 取込バッチで登録した取込対象外明細（伝票ごとの集計）を削除
+   */
+  async deleteVoucherExclusionsByImportBatchId(
+    importBatchId: string,
+    executor: DbExecutor = db
+  ): Promise<number> {
+    const result = await executor
+      .delete(glVoucherExclusions)
+      .where(eq(glVoucherExclusions.importBatchId, importBatchId));
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * 期間の範囲の勘定科目・貸借ごとの金額の統計を取得（異常検知用）
+   *
+   * @param fromPeriod - 開始期間（この期間を含む）
+   * @param toPeriod - 終了期間（この期間を含まない）
+   */
+  async getAccountAmountStatistics(
+    fromPeriod: string,
+    toPeriod: string,
+    executor: DbExecutor = db
+  ): Promise<
+    Array<{
+      accountCode: string;
+      debitCredit: string;
+      entryCount: number;
+      averageAmount: string;
+      stddevAmount: string | null;
+    }>
+  > {
+    return await executor
+      .select({
+        accountCode: glEntries.accountCode,
+        debitCredit: glEntries.debitCredit,
+        entryCount: sql<number>`COUNT(*)::int`,
+        averageAmount: sql<string>`AVG(${glEntries.amount})`,
+        stddevAmount: sql<string | null>`STDDEV_SAMP(${glEntries.amount})`,
+      })
+      .from(glEntries)
+      .where(and(gte(glEntries.period, fromPeriod), lt(glEntries.period, toPeriod)))
+      .groupBy(glEntries.accountCode, glEntries.debitCredit);
+  }
+
+  /**
+   * 期間のGLデータのうち、同じ伝票番号・勘定科目・貸借・金額の明細が別の取引日に存在するものを取得（異常検知用）
+   *
+   * @description 比較対象の明細は期間を問わない
+   */
+  async findDuplicateVoucherLines(
+    periods: string[],
+    executor: DbExecutor = db
+  ): Promise<Array<{ id: string; duplicateCount: number; otherTransactionDate: string }>> {
+    if (periods.length === 0) {
+      return [];
+    }
+
+    const others = alias(glEntries, "others");
+    return await executor
+      .select({
+        id: glEntries.id,
+        duplicateCount: sql<number>`COUNT(${others.id})::int`,
+        otherTransactionDate: sql<string>`MIN(${others.transactionDate})::text`,
+      })
+      .from(glEntries)
+      .innerJoin(
+        others,
+        and(
+          eq(others.voucherNo, glEntries.voucherNo),
+          eq(others.accountCode, glEntries.accountCode),
+          eq(others.debitCredit, glEntries.debitCredit),
+          eq(others.amount, glEntries.amount),
+          ne(others.transactionDate, glEntries.transactionDate)
+        )
+      )
+      .where(inArray(glEntries.period, periods))
+      .groupBy(glEntries.id);
+  }
+
+  /**
+   * 期間の異常検知結果を取得
+   */
+  async findAnomaliesByPeriods(periods: string[], executor: DbExecutor = db): Promise<GLAnomaly[]> {
+    if (periods.length === 0) {
+      return [];
+    }
+
+    return await executor.select().from(glAnomalies).where(inArray(glAnomalies.period, periods));
+  }
+
+  /**
+   * 期間の異常検知結果を対象の明細とともに取得
+   */
+  async findAnomalyListItems(
+    periods: string[],
+    status?: GLAnomalyStatus,
+    executor: DbExecutor = db
+  ): Promise<GLAnomalyListItem[]> {
+    if (periods.length === 0) {
+      return [];
+    }
+
+    const conditions = [inArray(glAnomalies.period, periods)];
+    if (status) {
+      conditions.push(eq(glAnomalies.status, status));
+    }
+
+    const rows = await executor
+      .select({
+        anomaly: glAnomalies,
+        voucherNo: glEntries.voucherNo,
+        transactionDate: glEntries.transactionDate,
+        accountCode: glEntries.accountCode,
+        accountName: glEntries.accountName,
+        amount: glEntries.amount,
+        debitCredit: glEntries.debitCredit,
+        description: glEntries.description,
+      })
+      .from(glAnomalies)
+      .innerJoin(glEntries, eq(glAnomalies.glEntryId, glEntries.id))
+      .where(and(...conditions))
+      .orderBy(asc(glAnomalies.period), asc(glEntries.voucherNo), asc(glAnomalies.anomalyType));
+
+    return rows.map(({ anomaly, amount, ...entry }) => ({
+      ...anomaly,
+      anomalyType: anomaly.anomalyType as GLAnomalyType,
+      status: anomaly.status as GLAnomalyStatus,
+      ...entry,
+      amount: Number(amount),
+    }));
+  }
+
+  /**
+   * IDで異常検知結果を取得
+   */
+  async findAnomalyById(id: string, executor: DbExecutor = db): Promise<GLAnomaly | null> {
+    const result = await executor.select().from(glAnomalies).where(eq(glAnomalies.id, id));
+    return result[0] || null;
+  }
+
+  /**
+   * 異常検知結果を一括作成
+   */
+  async createAnomalies(data: NewGLAnomaly[], executor: DbExecutor = db): Promise<void> {
+    if (data.length === 0) {
+      return;
+    }
+    await executor.insert(glAnomalies).values(data);
+  }
+
+  /**
+   * 異常検知結果を更新
+   */
+  async updateAnomaly(
+    id: string,
+    data: Partial<NewGLAnomaly>,
+    executor: DbExecutor = db
+  ): Promise<GLAnomaly | null> {
+    const result = await executor
+      .update(glAnomalies)
+      .set(data)
+      .where(eq(glAnomalies.id, id))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * 異常検知結果を一括削除
+   */
+  async deleteAnomalies(ids: string[], executor: DbExecutor = db): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+    const result = await executor.delete(glAnomalies).where(inArray(glAnomalies.id, ids));
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * GLデータに対する異常検知結果を削除
+   */
+  async deleteAnomaliesByGlEntryIds(
+    glEntryIds: string[],
+    executor: DbExecutor = db
+  ): Promise<number> {
+    if (glEntryIds.length === 0) {
+      return 0;
+    }
+    const result = await executor
+      .delete(glAnomalies)
+      .where(inArray(glAnomalies.glEntryId, glEntryIds));
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * 未対応の異常検知結果の件数を取得
+   */
+  async countOpenAnomalies(period?: string): Promise<number> {
+    const conditions = [eq(glAnomalies.status, "open")];
+    if (period) {
+      conditions.push(eq(glAnomalies.period, period));
+    }
+
+    const result = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(glAnomalies)
+      .innerJoin(glEntries, eq(glAnomalies.glEntryId, glEntries.id))
+      .where(and(...conditions));
+    return result[0]?.count ?? 0;
+  }
 }
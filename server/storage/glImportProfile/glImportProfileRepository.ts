@@ -0,0 +1,97 @@
+/**
+ * GL CSV取込プロファイルリポジトリ
+ *
+ * 責務:
+ * - GL CSV取込プロファイルテーブル（gl_import_profiles）のCRUD操作
+ * - 既定プロファイルの切り替え
+ */
+
+import { glImportProfiles } from "@shared/schema/glImportProfile";
+import type { GLImportProfile, NewGLImportProfile } from "@shared/schema/integrated";
+import { asc, eq } from "drizzle-orm";
+
+import { db, type DbExecutor } from "../../db";
+
+export class GLImportProfileRepository {
+  /**
+   * 全てのGL CSV取込プロファイルを名称順に取得
+   */
+  async findAll(executor: DbExecutor = db): Promise<GLImportProfile[]> {
+    return await executor.select().from(glImportProfiles).orderBy(asc(glImportProfiles.name));
+  }
+
+  /**
+   * IDでGL CSV取込プロファイルを取得
+   */
+  async findById(id: string, executor: DbExecutor = db): Promise<GLImportProfile | null> {
+    const result = await executor
+      .select()
+      .from(glImportProfiles)
+      .where(eq(glImportProfiles.id, id));
+    return result[0] || null;
+  }
+
+  /**
+   * 名称でGL CSV取込プロファイルを取得
+   */
+  async findByName(name: string, executor: DbExecutor = db): Promise<GLImportProfile | null> {
+    const result = await executor
+      .select()
+      .from(glImportProfiles)
+      .where(eq(glImportProfiles.name, name));
+    return result[0] || null;
+  }
+
+  /**
+   * 既定のGL CSV取込プロファイルを取得
+   */
+  async findDefault(executor: DbExecutor = db): Promise<GLImportProfile | null> {
+    const result = await executor
+      .select()
+      .from(glImportProfiles)
+      .where(eq(glImportProfiles.isDefault, "true"));
+    return result[0] || null;
+  }
+
+  /**
+   * GL CSV取込プロファイルを作成
+   */
+  async create(data: NewGLImportProfile, executor: DbExecutor = db): Promise<GLImportProfile> {
+    const result = await executor.insert(glImportProfiles).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * GL CSV取込プロファイルを更新
+   */
+  async update(
+    id: string,
+    data: Partial<NewGLImportProfile>,
+    executor: DbExecutor = db
+  ): Promise<GLImportProfile | null> {
+    const result = await executor
+      .update(glImportProfiles)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(glImportProfiles.id, id))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * 全プロファイルの既定フラグを解除
+   */
+  async clearDefault(executor: DbExecutor = db): Promise<void> {
+    await executor
+      .update(glImportProfiles)
+      .set({ isDefault: "false" })
+      .where(eq(glImportProfiles.isDefault, "true"));
+  }
+
+  /**
+   * GL CSV取込プロファイルを削除
+   */
+  async delete(id: string, executor: DbExecutor = db): Promise<boolean> {
+    const result = await executor.delete(glImportProfiles).where(eq(glImportProfiles.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * 取込バッチリポジトリ
+ *
+ * 責務:
+ * - 取込バッチテーブル（import_batches）と取込バッチ明細テーブル（import_batch_rows）のCRUD操作
+ * - 明細の状態別件数の集計
+ */
+
+import { importBatches, importBatchRows } from "@shared/schema/importBatch";
+import type {
+  ImportBatch,
+  ImportBatchRow,
+  NewImportBatch,
+  NewImportBatchRow,
+} from "@shared/schema/integrated";
+import { and, asc, count, desc, eq, gte, ne, type SQL } from "drizzle-orm";
+
+import { db, type DbExecutor } from "../../db";
+
+// 一括登録時の1回あたりの明細件数（SQLのパラメータ数の上限を超えないようにする）
+const ROW_INSERT_CHUNK_SIZE = 500;
+
+export interface ImportBatchFilter {
+  importType?: string;
+  status?: string;
+}
+
+export class ImportBatchRepository {
+  /**
+   * 取込バッチを新しい順に取得
+   */
+  async findAll(filter: ImportBatchFilter = {}, limit = 100): Promise<ImportBatch[]> {
+    const conditions: SQL[] = [];
+    if (filter.importType) {
+      conditions.push(eq(importBatches.importType, filter.importType));
+    }
+    if (filter.status) {
+      conditions.push(eq(importBatches.status, filter.status));
+    }
+
+    return await db
+      .select()
+      .from(importBatches)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(importBatches.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * IDで取込バッチを取得
+   */
+  async findById(id: string, executor: DbExecutor = db): Promise<ImportBatch | null> {
+    const result = await executor.select().from(importBatches).where(eq(importBatches.id, id));
+    return result[0] || null;
+  }
+
+  /**
+   * 指定日時以降に反映した反映済みの取込バッチを取得（指定の取込バッチを除く）
+   */
+  async findCommittedSince(
+    importType: string,
+    committedAt: Date,
+    excludeId: string,
+    executor: DbExecutor = db
+  ): Promise<ImportBatch[]> {
+    return await executor
+      .select()
+      .from(importBatches)
+      .where(
+        and(
+          eq(importBatches.importType, importType),
+          eq(importBatches.status, "committed"),
+          gte(importBatches.committedAt, committedAt),
+          ne(importBatches.id, excludeId)
+        )
+      )
+      .orderBy(asc(importBatches.committedAt));
+  }
+
+  /**
+   * 取込バッチを作成
+   */
+  async create(data: NewImportBatch, executor: DbExecutor = db): Promise<ImportBatch> {
+    const result = await executor.insert(importBatches).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * 取込バッチを更新
+   */
+  async update(
+    id: string,
+    data: Partial<NewImportBatch>,
+    executor: DbExecutor = db
+  ): Promise<ImportBatch | null> {
+    const result = await executor
+      .update(importBatches)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(importBatches.id, id))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * 状態が一致する場合のみ取込バッチを更新（状態遷移の排他制御）
+   *
+   * @returns 更新後の取込バッチ。対象が存在しないか状態が一致しない場合はnull
+   */
+  async updateIfStatusMatches(
+    id: string,
+    expectedStatus: string,
+    data: Partial<NewImportBatch>,
+    executor: DbExecutor = db
+  ): Promise<ImportBatch | null> {
+    const result = await executor
+      .update(importBatches)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(importBatches.id, id), eq(importBatches.status, expectedStatus)))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * 取込バッチの明細を行番号順に取得
+   */
+  async findRows(batchId: string, executor: DbExecutor = db): Promise<ImportBatchRow[]> {
+    return await executor
+      .select()
+      .from(importBatchRows)
+      .where(eq(importBatchRows.batchId, batchId))
+      .orderBy(asc(importBatchRows.rowNo));
+  }
+
+  /**
+   * IDで取込バッチ明細を取得
+   */
+  async findRowById(id: string, executor: DbExecutor = db): Promise<ImportBatchRow | null> {
+    const result = await executor.select().from(importBatchRows).where(eq(importBatchRows.id, id));
+    return result[0] || null;
+  }
+
+  /**
+   * 取込バッチ明細を一括作成
+   */
+  async createRows(rows: NewImportBatchRow[], executor: DbExecutor = db): Promise<void> {
+    for (let i = 0; i < rows.length; i += ROW_INSERT_CHUNK_SIZE) {
+      await executor.insert(importBatchRows).values(rows.slice(i, i + ROW_INSERT_CHUNK_SIZE));
+    }
+  }
+
+  /**
+   * 取込バッチ明細を更新
+   */
+  async updateRow(
+    id: string,
+    data: Partial<NewImportBatchRow>,
+    executor: DbExecutor = db
+  ): Promise<ImportBatchRow | null> {
+    const result = await executor
+      .update(importBatchRows)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(importBatchRows.id, id))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * 取込バッチ明細の状態別件数を取得
+   */
+  async countRowsByStatus(
+    batchId: string,
+    executor: DbExecutor = db
+  ): Promise<Record<string, number>> {
+    const result = await executor
+      .select({ status: importBatchRows.status, count: count() })
+      .from(importBatchRows)
+      .where(eq(importBatchRows.batchId, batchId))
+      .groupBy(importBatchRows.status);
+
+    return Object.fromEntries(result.map((row) => [row.status, Number(row.count)]));
+  }
+}
@@ -7,13 +7,25 @@
  * - 突合処理のためのデータ操作
  */
 
-import type { NewOrderForecast, OrderForecast } from "@shared/schema/integrated";
+import {
+  accountingItems,
+  toAccountingItemCategories,
+  toSummaryCategory,
+} from "@shared/schema/accountingItem";
+import { users } from "@shared/schema/existing";
+import type {
+  NewOrderForecast,
+  NewOrderForecastHistory,
+  OrderForecast,
+  OrderForecastHistory,
+  OrderForecastHistoryListItem,
+} from "@shared/schema/integrated";
 import type { ProjectAnalysisDetailLine } from "@shared/schema/orderForecast";
-import { orderForecasts } from "@shared/schema/orderForecast";
+import { orderForecastHistories, orderForecasts } from "@shared/schema/orderForecast";
 import { projects } from "@shared/schema/project";
 import { and, asc, count, desc, eq, inArray, like, or, sql } from "drizzle-orm";
 
-import { db } from "../../db";
+import { db, type DbExecutor } from "../../db";
 
 export interface OrderForecastFilter {
   fiscalYear?: number;
@@ -69,6 +81,7 @@ export class OrderForecastRepository {
         glMatchId: orderForecasts.glMatchId,
         isExcluded: orderForecasts.isExcluded,
         exclusionReason: orderForecasts.exclusionReason,
+        splitGroupId: orderForecasts.splitGroupId,
         createdByUserId: orderForecasts.createdByUserId,
         createdByEmployeeId: orderForecasts.createdByEmployeeId,
         version: orderForecasts.version,
@@ -196,16 +209,57 @@ export class OrderForecastRepository {
   /**
    * IDで受発注データを取得
    */
-  async findById(id: string): Promise<OrderForecast | null> {
-    const result = await db.select().from(orderForecasts).where(eq(orderForecasts.id, id));
+  async findById(id: string, executor: DbExecutor = db): Promise<OrderForecast | null> {
+    const result = await executor.select().from(orderForecasts).where(eq(orderForecasts.id, id));
     return result[0] || null;
   }
 
+  /**
+   * 取込バッチIDで受発注データを取得
+   */
+  async findByImportBatchId(
+    importBatchId: string,
+    executor: DbExecutor = db
+  ): Promise<OrderForecast[]> {
+    return await executor
+      .select()
+      .from(orderForecasts)
+      .where(eq(orderForecasts.importBatchId, importBatchId));
+  }
+
+  /**
+   * 生成元の定期売上テンプレートIDで受発注データを取得（計上年月順）
+   */
+  async findByRecurringTemplateId(
+    recurringTemplateId: string,
+    executor: DbExecutor = db
+  ): Promise<OrderForecast[]> {
+    return await executor
+      .select()
+      .from(orderForecasts)
+      .where(eq(orderForecasts.recurringTemplateId, recurringTemplateId))
+      .orderBy(asc(orderForecasts.accountingPeriod));
+  }
+
+  /**
+   * 分割計上グループIDで受発注データを取得（計上年月順）
+   */
+  async findBySplitGroupId(
+    splitGroupId: string,
+    executor: DbExecutor = db
+  ): Promise<OrderForecast[]> {
+    return await executor
+      .select()
+      .from(orderForecasts)
+      .where(eq(orderForecasts.splitGroupId, splitGroupId))
+      .orderBy(asc(orderForecasts.accountingPeriod));
+  }
+
   /**
    * 期間で受発注データを取得
    */
-  async findByPeriod(period: string): Promise<OrderForecast[]> {
-    return await db
+  async findByPeriod(period: string, executor: DbExecutor = db): Promise<OrderForecast[]> {
+    return await executor
       .select()
       .from(orderForecasts)
       .where(eq(orderForecasts.accountingPeriod, period));
@@ -262,16 +316,20 @@ export class OrderForecastRepository {
   /**
    * 受発注データを作成
    */
-  async create(data: NewOrderForecast): Promise<OrderForecast> {
-    const result = await db.insert(orderForecasts).values(data).returning();
+  async create(data: NewOrderForecast, executor: DbExecutor = db): Promise<OrderForecast> {
+    const result = await executor.insert(orderForecasts).values(data).returning();
     return result[0];
   }
 
   /**
    * 受発注データを更新
    */
-  async update(id: string, data: Partial<OrderForecast>): Promise<OrderForecast | null> {
-    const result = await db
+  async update(
+    id: string,
+    data: Partial<OrderForecast>,
+    executor: DbExecutor = db
+  ): Promise<OrderForecast | null> {
+    const result = await executor
       .update(orderForecasts)
       .set({
         ...data,
@@ -284,11 +342,53 @@ export class OrderForecastRepository {
     return result[0] || null;
   }
 
+  /**
+   * バージョンが一致する場合のみ受発注データを更新（楽観ロック）
+   *
+   * @returns 更新後の受発注データ。対象が存在しないかバージョンが一致しない場合はnull
+   */
+  async updateIfVersionMatches(
+    id: string,
+    expectedVersion: number,
+    data: Partial<OrderForecast>,
+    executor: DbExecutor = db
+  ): Promise<OrderForecast | null> {
+    const result = await executor
+      .update(orderForecasts)
+      .set({
+        ...data,
+        updatedAt: new Date(),
+        version: sql`version + 1`,
+      })
+      .where(and(eq(orderForecasts.id, id), eq(orderForecasts.version, expectedVersion)))
+      .returning();
+
+    return result[0] || null;
+  }
+
+  /**
+   * バージョンが一致する場合のみ受発注データを削除（楽観ロック）
+   *
+   * @returns 削除した場合true。対象が存在しないかバージョンが一致しない場合はfalse
+   */
+  async deleteIfVersionMatches(
+    id: string,
+    expectedVersion: number,
+    executor: DbExecutor = db
+  ): Promise<boolean> {
+    const result = await executor
+      .delete(orderForecasts)
+      .where(and(eq(orderForecasts.id, id), eq(orderForecasts.version, expectedVersion)))
+      .returning({ id: orderForecasts.id });
+
+    return result.length > 0;
+  }
+
   /**
    * 受発注データを削除
    */
-  async delete(id: string): Promise<boolean> {
-    const result = await db.delete(orderForecasts).where(eq(orderForecasts.id, id));
+  async delete(id: string, executor: DbExecutor = db): Promise<boolean> {
+    const result = await executor.delete(orderForecasts).where(eq(orderForecasts.id, id));
     return (result.rowCount ?? 0) > 0;
   }
 
@@ -298,7 +398,8 @@ export class OrderForecastRepository {
   async updateReconciliationStatus(
     id: string,
     status: "matched" | "fuzzy" | "unmatched" | "excluded",
-    glMatchId?: string
+    glMatchId?: string,
+    executor: DbExecutor = db
   ): Promise<OrderForecast | null> {
     const updateData: any = {
       reconciliationStatus: status,
@@ -312,7 +413,11 @@ export class OrderForecastRepository {
       updateData.glMatchId = null;
     }
 
-    const result = await db
+    if (status === "unmatched") {
+      updateData.isCrossPeriod = "false";
+    }
+
+    const result = await executor
       .update(orderForecasts)
       .set(updateData)
       .where(eq(orderForecasts.id, id))
@@ -321,6 +426,20 @@ export class OrderForecastRepository {
     return result[0] || null;
   }
 
+  /**
+   * 月度をまたいだ突合フラグを設定
+   */
+  async markCrossPeriod(ids: string[], executor: DbExecutor = db): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await executor
+      .update(orderForecasts)
+      .set({ isCrossPeriod: "true" })
+      .where(inArray(orderForecasts.id, ids));
+  }
+
   /**
    * 受発注データ総数を取得
    */
@@ -456,6 +575,103 @@ export class OrderForecastRepository {
     return result;
   }
 
+  /**
+   * プロジェクト・計上科目・月別の受発注データ集計（差異分析用）
+   *
+   * @param fiscalYear - 年度
+   * @param salesPerson - 営業担当者（オプション）
+   * @returns プロジェクト・計上年月・計上科目ごとの合計金額
+   */
+  async getProjectMonthlySummary(
+    fiscalYear: number,
+    salesPerson?: string
+  ): Promise<
+    Array<{
+      project_id: string;
+      project_code: string;
+      project_name: string;
+      accounting_period: string;
+      accounting_item: string;
+      total_amount: string;
+    }>
+  > {
+    const startPeriod = `${fiscalYear}-04`;
+    const endPeriod = `${fiscalYear + 1}-03`;
+
+    const whereConditions = [
+      sql`${orderForecasts.accountingPeriod} >= ${startPeriod}`,
+      sql`${orderForecasts.accountingPeriod} <= ${endPeriod}`,
+    ];
+
+    if (salesPerson) {
+      whereConditions.push(eq(projects.salesPerson, salesPerson));
+    }
+
+    return await db
+      .select({
+        project_id: orderForecasts.projectId,
+        project_code: sql<string>`MAX(${orderForecasts.projectCode})`,
+        project_name: sql<string>`MAX(${orderForecasts.projectName})`,
+        accounting_period: orderForecasts.accountingPeriod,
+        accounting_item: orderForecasts.accountingItem,
+        total_amount: sql<string>`SUM(${orderForecasts.amount})`,
+      })
+      .from(orderForecasts)
+      .leftJoin(projects, eq(orderForecasts.projectId, projects.id))
+      .where(and(...whereConditions))
+      .groupBy(
+        orderForecasts.projectId,
+        orderForecasts.accountingPeriod,
+        orderForecasts.accountingItem
+      )
+      .orderBy(orderForecasts.projectId, orderForecasts.accountingPeriod);
+  }
+
+  /**
+   * 営業担当者・サービス区分・計上科目・月別の受発注データ集計（見込みスナップショット用）
+   *
+   * @param fiscalYear - 年度
+   * @returns 営業担当者・サービス区分・計上年月・計上科目ごとの合計金額
+   */
+  async getSnapshotSummary(fiscalYear: number): Promise<
+    Array<{
+      sales_person: string;
+      service_type: string;
+      accounting_period: string;
+      accounting_item: string;
+      total_amount: string;
+    }>
+  > {
+    const startPeriod = `${fiscalYear}-04`;
+    const endPeriod = `${fiscalYear + 1}-03`;
+
+    const salesPerson = sql<string>`COALESCE(${projects.salesPerson}, '')`;
+    const serviceType = sql<string>`COALESCE(${projects.serviceType}, '')`;
+
+    return await db
+      .select({
+        sales_person: salesPerson,
+        service_type: serviceType,
+        accounting_period: orderForecasts.accountingPeriod,
+        accounting_item: orderForecasts.accountingItem,
+        total_amount: sql<string>`SUM(${orderForecasts.amount})`,
+      })
+      .from(orderForecasts)
+      .leftJoin(projects, eq(orderForecasts.projectId, projects.id))
+      .where(
+        and(
+          sql`${orderForecasts.accountingPeriod} >= ${startPeriod}`,
+          sql`${orderForecasts.accountingPeriod} <= ${endPeriod}`
+        )
+      )
+      .groupBy(
+        salesPerson,
+        serviceType,
+        orderForecasts.accountingPeriod,
+        orderForecasts.accountingItem
+      );
+  }
+
   /**
    * プロジェクト分析サマリー用の受発注データ一括集計
    *
@@ -483,14 +699,16 @@ export class OrderForecastRepository {
     const startPeriod = `${fiscalYear}-04`;
     const endPeriod = `${fiscalYear + 1}-03`;
 
-    // 年度内の全プロジェクトの受発注データを一括取得・集計
+    // 年度内の全プロジェクトの受発注データを計上区分マスタの集計区分別に一括取得・集計
+    // 売上原価 = 仕入高 + 期首棚卸高 - 期末棚卸高（期末棚卸高は符号 -1 で減算）
     const result = await db
       .select({
         projectId: orderForecasts.projectId,
-        accountingItem: orderForecasts.accountingItem,
-        totalAmount: sql<string>`COALESCE(SUM(${orderForecasts.amount}::numeric), 0)`,
+        category: accountingItems.category,
+        totalAmount: sql<string>`COALESCE(SUM(${orderForecasts.amount}::numeric * ${accountingItems.sign}), 0)`,
       })
       .from(orderForecasts)
+      .innerJoin(accountingItems, eq(orderForecasts.accountingItem, accountingItems.name))
       .where(
         and(
           inArray(orderForecasts.projectId, projectIds),
@@ -498,7 +716,7 @@ export class OrderForecastRepository {
           sql`${orderForecasts.accountingPeriod} <= ${endPeriod}`
         )
       )
-      .groupBy(orderForecasts.projectId, orderForecasts.accountingItem);
+      .groupBy(orderForecasts.projectId, accountingItems.category);
 
     // プロジェクトID別に集計
     const summaryMap = new Map<
@@ -509,6 +727,9 @@ export class OrderForecastRepository {
     for (const row of result) {
       if (!row.projectId) continue;
 
+      const category = toSummaryCategory(row.category);
+      if (!category) continue;
+
       if (!summaryMap.has(row.projectId)) {
         summaryMap.set(row.projectId, {
           revenue: 0,
@@ -517,70 +738,12 @@ export class OrderForecastRepository {
         });
       }
 
-      const summary = summaryMap.get(row.projectId)!;
-      const amount = parseFloat(row.totalAmount);
-      const accountingItem = row.accountingItem;
-
-      // 売上系（保守売上、ソフト売上、商品売上、消耗品売上、その他売上）
-      if (
-        accountingItem === "保守売上" ||
-        accountingItem === "ソフト売上" ||
-        accountingItem === "商品売上" ||
-        accountingItem === "消耗品売上" ||
-        accountingItem === "その他売上"
-      ) {
-        summary.revenue += amount;
-      }
-      // 売上原価 = 期首製品棚卸高 + 期首商品棚卸高 + 仕入高 - 期末製品棚卸高 - 期末商品棚卸高
-      else if (accountingItem === "仕入高") {
-        summary.costOfSales += amount;
-      }
-      // 期首棚卸高（加算）
-      else if (accountingItem === "期首製品棚卸高" || accountingItem === "期首商品棚卸高") {
-        summary.costOfSales += amount;
-      }
-      // 期末棚卸高（減算）
-      else if (accountingItem === "期末製品棚卸高" || accountingItem === "期末商品棚卸高") {
-        summary.costOfSales -= amount;
-      }
-      // 販管費（通信費、消耗品費、支払保守料、外注加工費、その他調整経費）
-      else if (
-        accountingItem === "通信費" ||
-        accountingItem === "消耗品費" ||
-        accountingItem === "支払保守料" ||
-        accountingItem === "外注加工費" ||
-        accountingItem === "その他調整経費"
-      ) {
-        summary.sgaExpenses += amount;
-      }
+      summaryMap.get(row.projectId)![category] += parseFloat(row.totalAmount);
     }
 
     return summaryMap;
   }
 
-  /** プロジェクト分析の集計対象計上科目（getProjectAnalysisSummary と一致させる） */
-  private static readonly REVENUE_ITEMS = [
-    "保守売上",
-    "ソフト売上",
-    "商品売上",
-    "消耗品売上",
-    "その他売上",
-  ];
-  private static readonly COST_OF_SALES_ITEMS = [
-    "期首製品棚卸高",
-    "期首商品棚卸高",
-    "仕入高",
-    "期末製品棚卸高",
-    "期末商品棚卸高",
-  ];
-  private static readonly SGA_ITEMS = [
-    "通信費",
-    "消耗品費",
-    "支払保守料",
-    "外注加工費",
-    "その他調整経費",
-  ];
-
   /**
    * プロジェクト分析の集計元明細取得
    *
@@ -597,13 +760,6 @@ export class OrderForecastRepository {
     const startPeriod = `${fiscalYear}-04`;
     const endPeriod = `${fiscalYear + 1}-03`;
 
-    const accountingItems =
-      category === "revenue"
-        ? OrderForecastRepository.REVENUE_ITEMS
-        : category === "costOfSales"
-          ? OrderForecastRepository.COST_OF_SALES_ITEMS
-          : OrderForecastRepository.SGA_ITEMS;
-
     const rows = await db
       .select({
         accountingItem: orderForecasts.accountingItem,
@@ -612,12 +768,13 @@ export class OrderForecastRepository {
         amount: orderForecasts.amount,
       })
       .from(orderForecasts)
+      .innerJoin(accountingItems, eq(orderForecasts.accountingItem, accountingItems.name))
       .where(
         and(
           eq(orderForecasts.projectId, projectId),
           sql`${orderForecasts.accountingPeriod} >= ${startPeriod}`,
           sql`${orderForecasts.accountingPeriod} <= ${endPeriod}`,
-          inArray(orderForecasts.accountingItem, accountingItems)
+          inArray(accountingItems.category, toAccountingItemCategories(category))
         )
       )
       .orderBy(asc(orderForecasts.accountingPeriod), asc(orderForecasts.accountingItem));
@@ -714,22 +871,21 @@ export class OrderForecastRepository {
     const startPeriod = `${fiscalYear}-04`;
     const endPeriod = `${fiscalYear + 1}-03`;
 
-    // 売上科目の名称（accounting_itemは名称で保存されている）
-    const revenueItems = ["保守売上", "ソフト売上", "商品売上", "消耗品売上", "その他売上"];
-
+    // 計上区分マスタで売上に区分された科目を集計（accounting_itemは名称で保存されている）
     const result = await db
       .select({
         serviceType: projects.serviceType,
-        totalAmount: sql<string>`COALESCE(SUM(${orderForecasts.amount}::numeric), 0)`,
+        totalAmount: sql<string>`COALESCE(SUM(${orderForecasts.amount}::numeric * ${accountingItems.sign}), 0)`,
       })
       .from(orderForecasts)
+      .innerJoin(accountingItems, eq(orderForecasts.accountingItem, accountingItems.name))
       .leftJoin(projects, eq(orderForecasts.projectId, projects.id))
       .where(
         and(
           sql`${orderForecasts.accountingPeriod} >= ${startPeriod}`,
           sql`${orderForecasts.accountingPeriod} <= ${endPeriod}`,
           sql`${projects.serviceType} IS NOT NULL`,
-          inArray(orderForecasts.accountingItem, revenueItems)
+          eq(accountingItems.category, "revenue")
         )
       )
       .groupBy(projects.serviceType);
@@ -743,4 +899,56 @@ export class OrderForecastRepository {
 
     return revenueMap;
   }
+
+  /**
+   * 受発注データの変更履歴を記録
+   */
+  async createHistory(
+    data: NewOrderForecastHistory,
+    executor: DbExecutor = db
+  ): Promise<OrderForecastHistory> {
+    const result = await executor.insert(orderForecastHistories).values(data).returning();
+    return result[0] as OrderForecastHistory;
+  }
+
+  /**
+   * 受発注データの変更履歴を新しい順に取得（変更者名付き）
+   */
+  async findHistoriesByOrderForecastId(
+    orderForecastId: string,
+    executor: DbExecutor = db
+  ): Promise<OrderForecastHistoryListItem[]> {
+    const result = await executor
+      .select({
+        history: orderForecastHistories,
+        changedByName: sql<
+          string | null
+        >`NULLIF(TRIM(CONCAT(${users.lastName}, ' ', ${users.firstName})), '')`,
+      })
+      .from(orderForecastHistories)
+      .leftJoin(users, eq(orderForecastHistories.changedByUserId, users.id))
+      .where(eq(orderForecastHistories.orderForecastId, orderForecastId))
+      .orderBy(desc(orderForecastHistories.createdAt));
+
+    return result.map((row) => ({
+      ...(row.history as OrderForecastHistory),
+      changedByName: row.changedByName,
+    }));
+  }
+
+  /**
+   * IDで受発注データの変更履歴を取得
+   */
+  async findHistoryById(
+    id: string,
+    executor: DbExecutor = db
+  ): Promise<OrderForecastHistory | null> {
+    const result = await executor
+      .select()
+      .from(orderForecastHistories)
+      .where(eq(orderForecastHistories.id, id))
+      .limit(1);
+
+    return (result[0] as OrderForecastHistory) || null;
+  }
 }
@@ -11,7 +11,7 @@ import type { NewProject, Project } from "@shared/schema/integrated";
 import { projects } from "@shared/schema/project";
 import { and, asc, count, desc, eq, like, ne, or, sql } from "drizzle-orm";
 
-import { db } from "../../db";
+import { db, type DbExecutor } from "../../db";
 
 export interface ProjectFilter {
   search?: string;
@@ -111,8 +111,8 @@ export class ProjectRepository {
   /**
    * IDでプロジェクトを取得
    */
-  async findById(id: string): Promise<Project | null> {
-    const result = await db.select().from(projects).where(eq(projects.id, id));
+  async findById(id: string, executor: DbExecutor = db): Promise<Project | null> {
+    const result = await executor.select().from(projects).where(eq(projects.id, id));
     return result[0] || null;
   }
 
@@ -127,8 +127,12 @@ export class ProjectRepository {
   /**
    * プロジェクトコードと年度でプロジェクトを取得
    */
-  async findByCodeAndFiscalYear(code: string, fiscalYear: number): Promise<Project | null> {
-    const result = await db
+  async findByCodeAndFiscalYear(
+    code: string,
+    fiscalYear: number,
+    executor: DbExecutor = db
+  ): Promise<Project | null> {
+    const result = await executor
       .select()
       .from(projects)
       .where(and(eq(projects.code, code), eq(projects.fiscalYear, fiscalYear)));
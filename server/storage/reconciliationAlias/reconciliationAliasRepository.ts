@@ -0,0 +1,68 @@
+/**
+ * 突合エイリアスリポジトリ
+ *
+ * 責務:
+ * - 突合エイリアス辞書テーブル（reconciliation_aliases）のCRUD操作
+ * - 手動突合時のエイリアス記録（同一の組は記録回数を加算）
+ */
+
+import type { NewReconciliationAlias, ReconciliationAlias } from "@shared/schema/integrated";
+import { reconciliationAliases } from "@shared/schema/reconciliationAlias";
+import { desc, eq, sql } from "drizzle-orm";
+
+import { db, type DbExecutor } from "../../db";
+
+export type ReconciliationAliasType = "account" | "description";
+
+export class ReconciliationAliasRepository {
+  /**
+   * 突合エイリアスを取得（記録回数の多い順）
+   */
+  async findAll(
+    aliasType?: ReconciliationAliasType,
+    executor: DbExecutor = db
+  ): Promise<ReconciliationAlias[]> {
+    return await executor
+      .select()
+      .from(reconciliationAliases)
+      .where(aliasType ? eq(reconciliationAliases.aliasType, aliasType) : undefined)
+      .orderBy(desc(reconciliationAliases.matchCount), desc(reconciliationAliases.lastMatchedAt));
+  }
+
+  /**
+   * 突合エイリアスを記録
+   *
+   * @description 同じ種別・文字列の組が既に存在する場合は記録回数と最終記録日時を更新する
+   */
+  async upsert(
+    data: Pick<NewReconciliationAlias, "aliasType" | "orderText" | "glText">,
+    executor: DbExecutor = db
+  ): Promise<ReconciliationAlias> {
+    const result = await executor
+      .insert(reconciliationAliases)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [
+          reconciliationAliases.aliasType,
+          reconciliationAliases.orderText,
+          reconciliationAliases.glText,
+        ],
+        set: {
+          matchCount: sql`${reconciliationAliases.matchCount} + 1`,
+          lastMatchedAt: new Date(),
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  /**
+   * 突合エイリアスを削除
+   */
+  async delete(id: string, executor: DbExecutor = db): Promise<boolean> {
+    const result = await executor
+      .delete(reconciliationAliases)
+      .where(eq(reconciliationAliases.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * 突合リンクリポジトリ
+ *
+ * 責務:
+ * - 突合リンクテーブル（reconciliation_links）のCRUD操作
+ * - 分割突合（1対多・多対1）のグループ単位での取得・削除
+ */
+
+import type { NewReconciliationLink, ReconciliationLink } from "@shared/schema/integrated";
+import { reconciliationLinks } from "@shared/schema/reconciliationLink";
+import { eq, inArray } from "drizzle-orm";
+
+import { db, type DbExecutor } from "../../db";
+
+export class ReconciliationLinkRepository {
+  /**
+   * 突合リンクを一括作成
+   */
+  async createMany(
+    data: NewReconciliationLink[],
+    executor: DbExecutor = db
+  ): Promise<ReconciliationLink[]> {
+    if (data.length === 0) {
+      return [];
+    }
+
+    return await executor.insert(reconciliationLinks).values(data).returning();
+  }
+
+  /**
+   * 受発注見込み明細IDで突合リンクを取得
+   */
+  async findByOrderForecastId(
+    orderForecastId: string,
+    executor: DbExecutor = db
+  ): Promise<ReconciliationLink[]> {
+    return await executor
+      .select()
+      .from(reconciliationLinks)
+      .where(eq(reconciliationLinks.orderForecastId, orderForecastId));
+  }
+
+  /**
+   * GL明細IDで突合リンクを取得
+   */
+  async findByGlEntryId(
+    glEntryId: string,
+    executor: DbExecutor = db
+  ): Promise<ReconciliationLink[]> {
+    return await executor
+      .select()
+      .from(reconciliationLinks)
+      .where(eq(reconciliationLinks.glEntryId, glEntryId));
+  }
+
+  /**
+   * グループIDで突合リンクを取得
+   */
+  async findByGroupId(groupId: string, executor: DbExecutor = db): Promise<ReconciliationLink[]> {
+    return await executor
+      .select()
+      .from(reconciliationLinks)
+      .where(eq(reconciliationLinks.groupId, groupId));
+  }
+
+  /**
+   * グループIDで突合リンクを削除
+   */
+  async deleteByGroupIds(groupIds: string[], executor: DbExecutor = db): Promise<number> {
+    if (groupIds.length === 0) {
+      return 0;
+    }
+
+    const result = await executor
+      .delete(reconciliationLinks)
+      .where(inArray(reconciliationLinks.groupId, groupIds));
+    return result.rowCount ?? 0;
+  }
+}
@@ -5,13 +5,19 @@
  * - 突合ログテーブル（reconciliation_logs）のCRUD操作
  * - 突合処理の実行履歴管理
  * - 突合結果の統計情報管理
+ * - 突合ログ明細テーブル（reconciliation_log_details）の登録・取得
  */
 
-import type { NewReconciliationLog, ReconciliationLog } from "@shared/schema/integrated";
-import { reconciliationLogs } from "@shared/schema/reconciliationLog";
+import type {
+  NewReconciliationLog,
+  NewReconciliationLogDetail,
+  ReconciliationLog,
+  ReconciliationLogDetail,
+} from "@shared/schema/integrated";
+import { reconciliationLogDetails, reconciliationLogs } from "@shared/schema/reconciliationLog";
 import { and, asc, count, desc, eq, gte, lte } from "drizzle-orm";
 
-import { db } from "../../db";
+import { db, type DbExecutor } from "../../db";
 
 export interface ReconciliationLogFilter {
   period?: string;
@@ -74,8 +80,11 @@ export class ReconciliationLogRepository {
   /**
    * IDで突合ログを取得
    */
-  async findById(id: string): Promise<ReconciliationLog | null> {
-    const result = await db.select().from(reconciliationLogs).where(eq(reconciliationLogs.id, id));
+  async findById(id: string, executor: DbExecutor = db): Promise<ReconciliationLog | null> {
+    const result = await executor
+      .select()
+      .from(reconciliationLogs)
+      .where(eq(reconciliationLogs.id, id));
     return result[0] || null;
   }
 
@@ -116,16 +125,20 @@ export class ReconciliationLogRepository {
   /**
    * 突合ログを作成
    */
-  async create(data: NewReconciliationLog): Promise<ReconciliationLog> {
-    const result = await db.insert(reconciliationLogs).values(data).returning();
+  async create(data: NewReconciliationLog, executor: DbExecutor = db): Promise<ReconciliationLog> {
+    const result = await executor.insert(reconciliationLogs).values(data).returning();
     return result[0];
   }
 
   /**
    * 突合ログを更新
    */
-  async update(id: string, data: Partial<NewReconciliationLog>): Promise<ReconciliationLog | null> {
-    const result = await db
+  async update(
+    id: string,
+    data: Partial<NewReconciliationLog>,
+    executor: DbExecutor = db
+  ): Promise<ReconciliationLog | null> {
+    const result = await executor
       .update(reconciliationLogs)
       .set({ ...data })
       .where(eq(reconciliationLogs.id, id))
@@ -142,6 +155,34 @@ export class ReconciliationLogRepository {
     return (result.rowCount ?? 0) > 0;
   }
 
+  /**
+   * 突合ログ明細を一括作成
+   */
+  async createDetails(
+    data: NewReconciliationLogDetail[],
+    executor: DbExecutor = db
+  ): Promise<ReconciliationLogDetail[]> {
+    if (data.length === 0) {
+      return [];
+    }
+
+    return await executor.insert(reconciliationLogDetails).values(data).returning();
+  }
+
+  /**
+   * 突合ログIDで突合ログ明細を取得
+   */
+  async findDetailsByLogId(
+    reconciliationLogId: string,
+    executor: DbExecutor = db
+  ): Promise<ReconciliationLogDetail[]> {
+    return await executor
+      .select()
+      .from(reconciliationLogDetails)
+      .where(eq(reconciliationLogDetails.reconciliationLogId, reconciliationLogId))
+      .orderBy(asc(reconciliationLogDetails.createdAt));
+  }
+
   /**
    * 突合ログ総数を取得
    */
@@ -0,0 +1,82 @@
+/**
+ * 突合ルールリポジトリ
+ *
+ * 責務:
+ * - 突合ルールマスタテーブル（reconciliation_rules）のCRUD操作
+ * - 突合処理で評価する有効ルールの優先度順での取得
+ */
+
+import type { NewReconciliationRule, ReconciliationRule } from "@shared/schema/integrated";
+import { reconciliationRules } from "@shared/schema/reconciliationRule";
+import { asc, eq } from "drizzle-orm";
+
+import { db, type DbExecutor } from "../../db";
+
+export class ReconciliationRuleRepository {
+  /**
+   * 全ての突合ルールを優先度順に取得
+   */
+  async findAll(executor: DbExecutor = db): Promise<ReconciliationRule[]> {
+    return await executor
+      .select()
+      .from(reconciliationRules)
+      .orderBy(asc(reconciliationRules.priority), asc(reconciliationRules.createdAt));
+  }
+
+  /**
+   * 有効な突合ルールを優先度順に取得
+   */
+  async findActive(executor: DbExecutor = db): Promise<ReconciliationRule[]> {
+    return await executor
+      .select()
+      .from(reconciliationRules)
+      .where(eq(reconciliationRules.isActive, "true"))
+      .orderBy(asc(reconciliationRules.priority), asc(reconciliationRules.createdAt));
+  }
+
+  /**
+   * IDで突合ルールを取得
+   */
+  async findById(id: string, executor: DbExecutor = db): Promise<ReconciliationRule | null> {
+    const result = await executor
+      .select()
+      .from(reconciliationRules)
+      .where(eq(reconciliationRules.id, id));
+    return result[0] || null;
+  }
+
+  /**
+   * 突合ルールを作成
+   */
+  async create(
+    data: NewReconciliationRule,
+    executor: DbExecutor = db
+  ): Promise<ReconciliationRule> {
+    const result = await executor.insert(reconciliationRules).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * 突合ルールを更新
+   */
+  async update(
+    id: string,
+    data: Partial<NewReconciliationRule>,
+    executor: DbExecutor = db
+  ): Promise<ReconciliationRule | null> {
+    const result = await executor
+      .update(reconciliationRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(reconciliationRules.id, id))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * 突合ルールを削除
+   */
+  async delete(id: string, executor: DbExecutor = db): Promise<boolean> {
+    const result = await executor.delete(reconciliationRules).where(eq(reconciliationRules.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+}
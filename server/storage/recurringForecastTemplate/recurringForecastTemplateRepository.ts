@@ -0,0 +1,81 @@
+/**
+ * 定期売上テンプレートリポジトリ
+ *
+ * 責務:
+ * - 定期売上テンプレートテーブル（recurring_forecast_templates）のCRUD操作
+ * - 受発注データの生成対象となるテンプレートの取得
+ */
+
+import type {
+  NewRecurringForecastTemplate,
+  RecurringForecastTemplate,
+} from "@shared/schema/integrated";
+import { recurringForecastTemplates } from "@shared/schema/recurringForecastTemplate";
+import { asc, eq } from "drizzle-orm";
+
+import { db, type DbExecutor } from "../../db";
+
+export class RecurringForecastTemplateRepository {
+  /**
+   * 全ての定期売上テンプレートをプロジェクトコード順に取得
+   */
+  async findAll(executor: DbExecutor = db): Promise<RecurringForecastTemplate[]> {
+    const result = await executor
+      .select()
+      .from(recurringForecastTemplates)
+      .orderBy(
+        asc(recurringForecastTemplates.projectCode),
+        asc(recurringForecastTemplates.startMonth),
+        asc(recurringForecastTemplates.createdAt)
+      );
+    return result as RecurringForecastTemplate[];
+  }
+
+  /**
+   * IDで定期売上テンプレートを取得
+   */
+  async findById(id: string, executor: DbExecutor = db): Promise<RecurringForecastTemplate | null> {
+    const result = await executor
+      .select()
+      .from(recurringForecastTemplates)
+      .where(eq(recurringForecastTemplates.id, id));
+    return (result[0] as RecurringForecastTemplate) || null;
+  }
+
+  /**
+   * 定期売上テンプレートを作成
+   */
+  async create(
+    data: NewRecurringForecastTemplate,
+    executor: DbExecutor = db
+  ): Promise<RecurringForecastTemplate> {
+    const result = await executor.insert(recurringForecastTemplates).values(data).returning();
+    return result[0] as RecurringForecastTemplate;
+  }
+
+  /**
+   * 定期売上テンプレートを更新
+   */
+  async update(
+    id: string,
+    data: Partial<NewRecurringForecastTemplate>,
+    executor: DbExecutor = db
+  ): Promise<RecurringForecastTemplate | null> {
+    const result = await executor
+      .update(recurringForecastTemplates)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(recurringForecastTemplates.id, id))
+      .returning();
+    return (result[0] as RecurringForecastTemplate) || null;
+  }
+
+  /**
+   * 定期売上テンプレートを削除
+   */
+  async delete(id: string, executor: DbExecutor = db): Promise<boolean> {
+    const result = await executor
+      .delete(recurringForecastTemplates)
+      .where(eq(recurringForecastTemplates.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+}
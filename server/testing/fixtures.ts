@@ -0,0 +1,96 @@
+import {
+  angleBForecasts,
+  glEntries,
+  type NewAngleBForecast,
+  type NewGLEntry,
+  type NewOrderForecast,
+  type NewProject,
+  orderForecasts,
+  projects,
+} from "@shared/schema";
+
+import type { TestDb } from "./testDb";
+
+/**
+ * テスト用のプロジェクトを登録
+ */
+export async function insertProject(db: TestDb, data: Partial<NewProject> = {}) {
+  const [project] = await db
+    .insert(projects)
+    .values({
+      code: "P001",
+      name: "テストプロジェクト",
+      fiscalYear: 2025,
+      customerId: "customer-1",
+      customerName: "テスト取引先",
+      salesPerson: "営業担当",
+      serviceType: "保守",
+      analysisType: "ストック",
+      ...data,
+    })
+    .returning();
+  return project;
+}
+
+/**
+ * テスト用の受発注データを登録
+ */
+export async function insertOrderForecast(db: TestDb, data: Partial<NewOrderForecast> = {}) {
+  const [orderForecast] = await db
+    .insert(orderForecasts)
+    .values({
+      projectId: "project-1",
+      projectCode: "P001",
+      projectName: "テストプロジェクト",
+      accountingPeriod: "2025-06",
+      accountingItem: "売上高",
+      description: "保守費用",
+      amount: "100000.00",
+      period: "2025-06",
+      ...data,
+    })
+    .returning();
+  return orderForecast;
+}
+
+/**
+ * テスト用の角度B案件を登録
+ */
+export async function insertAngleBForecast(db: TestDb, data: Partial<NewAngleBForecast> = {}) {
+  const [angleBForecast] = await db
+    .insert(angleBForecasts)
+    .values({
+      projectId: "project-1",
+      projectCode: "P001",
+      projectName: "テストプロジェクト",
+      accountingPeriod: "2025-06",
+      accountingItem: "売上高",
+      description: "追加開発",
+      amount: "500000.00",
+      period: "2025-06",
+      ...data,
+    })
+    .returning();
+  return angleBForecast;
+}
+
+/**
+ * テスト用のGL明細を登録
+ */
+export async function insertGLEntry(db: TestDb, data: Partial<NewGLEntry> = {}) {
+  const [glEntry] = await db
+    .insert(glEntries)
+    .values({
+      voucherNo: "V001",
+      transactionDate: "2025-06-30",
+      accountCode: "4110",
+      accountName: "売上高",
+      amount: "100000.00",
+      debitCredit: "credit",
+      description: "保守費用",
+      period: "2025-06",
+      ...data,
+    })
+    .returning();
+  return glEntry;
+}
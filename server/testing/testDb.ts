@@ -0,0 +1,50 @@
+import { PGlite } from "@electric-sql/pglite";
+import * as schema from "@shared/schema";
+import { sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/pglite";
+import { createRequire } from "module";
+
+// drizzle-kit/apiのESM版はNode.jsの組み込みモジュールを動的requireするため、CommonJS版を読み込む
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+  "drizzle-kit/api"
+) as typeof import("drizzle-kit/api");
+
+export type TestDb = ReturnType<typeof drizzle<typeof schema>>;
+
+/**
+ * テスト用のインメモリPostgreSQL（PGlite）を作成し、スキーマ定義からテーブルを作成する
+ *
+ * @description テストファイルで `vi.mock("../db", ...)` の戻り値として使用し、サービス・リポジトリのDB接続を置き換える
+ * @returns drizzleのDB接続
+ */
+export async function createTestDb(): Promise<{ db: TestDb }> {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+
+  const statements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson(schema as Record<string, unknown>)
+  );
+  // 各モジュールのpgSchema("app")はエクスポートされていないため、スキーマは個別に作成する
+  await client.exec('CREATE SCHEMA IF NOT EXISTS "app"');
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+
+  return { db };
+}
+
+/**
+ * appスキーマの全テーブルのデータを削除（テストごとの初期化に使用）
+ *
+ * @param db - テスト用のDB接続
+ */
+export async function resetTestDb(db: TestDb): Promise<void> {
+  const result = await db.execute<{ tablename: string }>(
+    sql`SELECT tablename FROM pg_tables WHERE schemaname = 'app'`
+  );
+  const tables = result.rows.map((row) => `"app"."${row.tablename}"`);
+  if (tables.length > 0) {
+    await db.execute(sql.raw(`TRUNCATE ${tables.join(", ")}`));
+  }
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
+import { integer, pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
 
 // appスキーマを定義
 const appSchema = pgSchema("app");
@@ -11,5 +11,9 @@ export const accountingItems = appSchema.table("accounting_items", {
     .default(sql`gen_random_uuid()`),
   code: text("code").notNull().unique(),
   name: text("name").notNull(),
+  category: text("category"), // 集計区分: revenue, costOfSales, sgaExpenses, inventoryAdjustment（未設定の場合は集計対象外）
+  sign: integer("sign").notNull().default(1), // 集計時の符号: 1 または -1（期末棚卸高など控除項目は -1）
+  displayOrder: integer("display_order").notNull().default(0), // 表示順
+  glImportTarget: text("gl_import_target").notNull().default("false"), // 標準レイアウトのGL取込対象: "true" or "false"
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
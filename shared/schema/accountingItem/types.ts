@@ -0,0 +1,69 @@
+/**
+ * 計上科目マスタの集計区分
+ * - revenue: 売上高
+ * - costOfSales: 売上原価（仕入高など）
+ * - sgaExpenses: 販売費及び一般管理費
+ * - inventoryAdjustment: 棚卸調整（期首・期末棚卸高、売上原価に含めて集計）
+ */
+export const ACCOUNTING_ITEM_CATEGORIES = [
+  "revenue",
+  "costOfSales",
+  "sgaExpenses",
+  "inventoryAdjustment",
+] as const;
+
+export type AccountingItemCategory = (typeof ACCOUNTING_ITEM_CATEGORIES)[number];
+
+/** 集計結果の区分（棚卸調整は売上原価に含める） */
+export type AccountingSummaryCategory = Exclude<AccountingItemCategory, "inventoryAdjustment">;
+
+/**
+ * 計上科目の集計区分から集計結果の区分を取得
+ *
+ * @param category - 計上科目の集計区分
+ * @returns 集計結果の区分（集計対象外の場合はnull）
+ */
+export const toSummaryCategory = (
+  category: string | null | undefined
+): AccountingSummaryCategory | null => {
+  switch (category) {
+    case "revenue":
+    case "costOfSales":
+    case "sgaExpenses":
+      return category;
+    case "inventoryAdjustment":
+      return "costOfSales";
+    default:
+      return null;
+  }
+};
+
+/**
+ * 集計結果の区分に含まれる計上科目の集計区分を取得
+ *
+ * @param category - 集計結果の区分
+ * @returns 計上科目の集計区分の配列
+ */
+export const toAccountingItemCategories = (
+  category: AccountingSummaryCategory
+): AccountingItemCategory[] =>
+  category === "costOfSales" ? ["costOfSales", "inventoryAdjustment"] : [category];
+
+/**
+ * GLの借方・貸方金額を計上科目の残高方向の金額に変換
+ *
+ * @description 売上高は貸方、それ以外は借方をプラスとし、符号が-1の計上科目（売上値引・期末棚卸高など）は逆にする。
+ * 受発注見込みの金額（通常の残高方向でプラス）と比較するために使用する。
+ * @param item - 計上科目の集計区分と符号
+ * @param debit - 借方金額
+ * @param credit - 貸方金額
+ * @returns 残高方向の金額
+ */
+export const toAccountingItemBalance = (
+  item: { category: string | null; sign: number },
+  debit: number,
+  credit: number
+): number => {
+  const direction = toSummaryCategory(item.category) === "revenue" ? -1 : 1;
+  return (debit - credit) * direction * item.sign;
+};
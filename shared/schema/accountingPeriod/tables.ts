@@ -0,0 +1,35 @@
+import { sql } from "drizzle-orm";
+import { pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
+
+// appスキーマを定義
+const appSchema = pgSchema("app");
+
+// 会計期間 (Accounting Period)
+// 月度ごとの締め状態を管理し、締め済みの月度の受発注・GLデータの変更を禁止する
+export const accountingPeriods = appSchema.table("accounting_periods", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  period: text("period").notNull().unique(), // 期間 (YYYY-MM形式)
+  status: text("status").notNull().default("open"), // open: 未締め, closed: 締め済み
+  closedAt: timestamp("closed_at"), // 締め日時
+  closedByUserId: varchar("closed_by_user_id"), // 締めを行ったユーザーID
+  reopenedAt: timestamp("reopened_at"), // 締め解除日時
+  reopenedByUserId: varchar("reopened_by_user_id"), // 締め解除を行ったユーザーID
+  reopenReason: text("reopen_reason"), // 締め解除理由
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// 締め済み期間の変更履歴 (Period Lock Override)
+// 管理者が理由を付けて締め済みの月度のデータを変更した操作を記録する
+export const periodLockOverrides = appSchema.table("period_lock_overrides", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  period: text("period").notNull(), // 変更した期間 (YYYY-MM形式)
+  operation: text("operation").notNull(), // 操作内容（例: 受発注データ更新）
+  reason: text("reason").notNull(), // 変更理由
+  userId: varchar("user_id").notNull(), // 変更したユーザーID
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -22,6 +22,8 @@ export const angleBForecasts = appSchema.table("angle_b_forecasts", {
   probability: integer("probability").notNull().default(50), // 確度（%）
   remarks: text("remarks"), // 備考
   period: text("period").notNull(), // 期間 (YYYY-MM形式)
+  importBatchId: varchar("import_batch_id"), // 登録した取込バッチID（取込の取消に使用）
+  splitGroupId: varchar("split_group_id"), // 分割計上グループID（同じ金額を分割した明細をまとめる）
 
   // 既存システムとの関連（参照専用、外部キー制約なし）
   createdByUserId: varchar("created_by_user_id"), // 作成者ユーザーID（参照専用）
@@ -13,6 +13,7 @@ export const appSchema = pgSchema("app");
 
 // appスキーマのテーブルのみをインポート
 import * as accountingItems from "./accountingItem";
+import * as accountingPeriods from "./accountingPeriod";
 import * as angleBForecasts from "./angleBForecast";
 import * as budgetsExpense from "./budgetExpense";
 import * as budgetsRevenue from "./budgetRevenue";
@@ -20,12 +21,19 @@ import * as budgetsTarget from "./budgetTarget";
 import * as customers from "./customer";
 // existing/tables.tsからsessionsのみをインポート（appスキーマ）
 import { sessions } from "./existing/tables";
+import * as forecastSplits from "./forecastSplit";
 import * as glEntries from "./glEntry";
+import * as glImportProfiles from "./glImportProfile";
+import * as importBatches from "./importBatch";
 import * as items from "./item";
 import * as orderForecasts from "./orderForecast";
 import * as projects from "./project";
 import * as projectAnalysisSnapshots from "./projectAnalysisSnapshot";
+import * as reconciliationAliases from "./reconciliationAlias";
+import * as reconciliationLinks from "./reconciliationLink";
 import * as reconciliationLogs from "./reconciliationLog";
+import * as reconciliationRules from "./reconciliationRule";
+import * as recurringForecastTemplates from "./recurringForecastTemplate";
 import * as staffing from "./staffing";
 
 // appスキーマのテーブルのみをエクスポート
@@ -36,9 +44,17 @@ export const schema = {
   ...items,
   ...projects,
   ...accountingItems,
+  ...accountingPeriods,
   ...orderForecasts,
+  ...recurringForecastTemplates,
+  ...forecastSplits,
   ...glEntries,
+  ...glImportProfiles,
+  ...importBatches,
   ...reconciliationLogs,
+  ...reconciliationLinks,
+  ...reconciliationRules,
+  ...reconciliationAliases,
   ...angleBForecasts,
   ...budgetsRevenue,
   ...budgetsExpense,
@@ -0,0 +1,21 @@
+import { sql } from "drizzle-orm";
+import { date, integer, jsonb, pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
+
+import type { ForecastSnapshotLine } from "./types";
+
+// appスキーマを定義
+const appSchema = pgSchema("app");
+
+// 受発注見込みスナップショット (Forecast Snapshot)
+// ある時点の受発注見込みを営業担当者・サービス区分・計上科目・計上年月ごとに集計して保存し、見込み精度の評価に使用する
+export const forecastSnapshots = appSchema.table("forecast_snapshots", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  fiscalYear: integer("fiscal_year").notNull(), // 年度
+  snapshotDate: date("snapshot_date").notNull(), // 基準日（この日時点の見込み）
+  name: text("name"), // スナップショット名
+  lines: jsonb("lines").$type<ForecastSnapshotLine[]>().notNull(), // 集計した見込み
+  createdByEmployeeId: varchar("created_by_employee_id"), // 作成者従業員ID
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
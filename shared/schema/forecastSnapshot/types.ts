@@ -0,0 +1,53 @@
+/**
+ * 受発注見込みスナップショットの集計行
+ */
+export interface ForecastSnapshotLine {
+  salesPerson: string;
+  serviceType: string;
+  accountingItemCode: string;
+  accountingPeriod: string; // 計上年月（YYYY-MM形式）
+  amount: number;
+}
+
+/**
+ * 見込み精度の指標
+ * - accuracy: 100 - 加重絶対誤差率（Σ|見込み - 実績| / Σ|実績|、%）。0未満は0
+ * - bias: 見込みの偏り（Σ(見込み - 実績) / Σ|実績|、%）。プラスは見込みが過大
+ */
+export interface ForecastAccuracyMetrics {
+  forecast: number;
+  actual: number;
+  absoluteError: number;
+  accuracy: number | null; // 実績が0の場合はnull
+  bias: number | null; // 実績が0の場合はnull
+}
+
+/**
+ * 営業担当者・サービス区分・計上科目別の見込み精度
+ */
+export interface ForecastAccuracyDetail extends ForecastAccuracyMetrics {
+  salesPerson: string;
+  serviceType: string;
+  accountingItemCode: string;
+  accountingItemName: string;
+}
+
+/**
+ * 営業担当者別の見込み精度と月別の推移
+ */
+export interface SalesPersonForecastAccuracy extends ForecastAccuracyMetrics {
+  salesPerson: string;
+  monthly: Record<string, ForecastAccuracyMetrics>; // 評価した月ごとの指標
+}
+
+/**
+ * 見込み精度の評価結果
+ */
+export interface ForecastAccuracyResponse {
+  fiscalYear: number;
+  leadMonths: number; // 何ヶ月前の見込みと比較したか
+  evaluatedPeriods: string[]; // 評価した月（実績が確定し、比較するスナップショットがある月）
+  snapshotByPeriod: Record<string, { id: string; snapshotDate: string }>; // 評価した月ごとに比較したスナップショット
+  salesPersons: SalesPersonForecastAccuracy[];
+  details: ForecastAccuracyDetail[];
+}
@@ -0,0 +1,22 @@
+import { sql } from "drizzle-orm";
+import { decimal, integer, jsonb, pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
+
+// appスキーマを定義
+const appSchema = pgSchema("app");
+
+// 分割計上グループ (Forecast Split Group)
+// 1つの金額を複数月に分割して計上した受発注見込み・角度B案件の明細をまとめ、分割条件を保持する（再分割に使用）
+export const forecastSplitGroups = appSchema.table("forecast_split_groups", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  targetType: text("target_type").notNull(), // 分割した明細の種類 (order-forecast, angle-b)
+  totalAmount: decimal("total_amount", { precision: 14, scale: 2 }).notNull(), // 分割前の総額
+  startMonth: text("start_month").notNull(), // 開始月 (YYYY-MM形式)
+  months: integer("months").notNull(), // 分割する月数
+  pattern: text("pattern").notNull(), // 分割方法 (equal, custom, working-days)
+  percentages: jsonb("percentages").$type<number[]>(), // 月ごとの割合（%、分割方法がcustomの場合）
+  createdByUserId: varchar("created_by_user_id"), // 作成者ユーザーID（参照専用）
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
@@ -0,0 +1,32 @@
+/**
+ * 分割計上の対象（受発注見込み・角度B案件）
+ */
+export type ForecastSplitTargetType = "order-forecast" | "angle-b";
+
+/**
+ * 分割方法
+ * - equal: 均等割り
+ * - custom: 月ごとの割合（%）を指定
+ * - working-days: 各月の稼働日数（土日を除く日数）で按分
+ */
+export type ForecastSplitPattern = "equal" | "custom" | "working-days";
+
+/**
+ * 分割条件
+ */
+export interface ForecastSplitSchedule {
+  totalAmount: string;
+  startMonth: string; // YYYY-MM形式
+  months: number;
+  pattern: ForecastSplitPattern;
+  percentages?: number[] | null; // 分割方法がcustomの場合の月ごとの割合（%）
+}
+
+/**
+ * 月ごとの分割結果
+ */
+export interface ForecastSplitAllocation {
+  accountingPeriod: string; // YYYY-MM形式
+  ratio: number; // 総額に対する割合（%）
+  amount: string; // 計上金額（円未満は切り捨て、端数は最終月に加算）
+}
@@ -1,5 +1,14 @@
 import { sql } from "drizzle-orm";
-import { date, decimal, pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
+import {
+  date,
+  decimal,
+  integer,
+  pgSchema,
+  text,
+  timestamp,
+  unique,
+  varchar,
+} from "drizzle-orm/pg-core";
 
 // appスキーマを定義
 const appSchema = pgSchema("app");
@@ -19,7 +28,54 @@ export const glEntries = appSchema.table("gl_entries", {
   period: text("period").notNull(), // 期間 (YYYY-MM形式)
   reconciliationStatus: text("reconciliation_status").notNull().default("unmatched"), // matched, fuzzy, unmatched
   orderMatchId: varchar("order_match_id"), // 突合された受発注IDへの参照
+  isCrossPeriod: text("is_cross_period").notNull().default("false"), // 月度をまたいだ突合フラグ (true/false)
   isExcluded: text("is_excluded").notNull().default("false"), // 突合対象外フラグ (true/false)
   exclusionReason: text("exclusion_reason"), // 除外理由
+  importBatchId: varchar("import_batch_id"), // 登録した取込バッチID（取込の取消に使用）
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
+
+// GL伝票の取込対象外明細 (GL Voucher Exclusion)
+// 取込対象の勘定科目の絞込みで取り込まなかった明細を伝票番号・期間ごとに集計したもの（伝票の貸借チェックに使用）
+export const glVoucherExclusions = appSchema.table(
+  "gl_voucher_exclusions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    voucherNo: text("voucher_no").notNull(), // 伝票番号
+    period: text("period").notNull(), // 期間 (YYYY-MM形式)
+    lineCount: integer("line_count").notNull().default(0), // 取込対象外の明細数
+    debitAmount: decimal("debit_amount", { precision: 14, scale: 2 }).notNull().default("0"), // 取込対象外の借方合計
+    creditAmount: decimal("credit_amount", { precision: 14, scale: 2 }).notNull().default("0"), // 取込対象外の貸方合計
+    accountCodes: text("account_codes"), // 取込対象外の勘定科目コード（カンマ区切り）
+    importBatchId: varchar("import_batch_id"), // 登録した取込バッチID（取込の取消に使用）
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    voucherPeriodUnique: unique().on(table.voucherNo, table.period),
+  })
+);
+
+// GLデータの異常検知結果 (GL Anomaly)
+// 取込後の自動スキャンで検出した明細ごとの異常（同じ明細・種類の異常は1件のみ保持し、再スキャン時も却下状態を引き継ぐ）
+export const glAnomalies = appSchema.table(
+  "gl_anomalies",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    glEntryId: varchar("gl_entry_id").notNull(), // 対象のGLデータID
+    period: text("period").notNull(), // 期間 (YYYY-MM形式)
+    anomalyType: text("anomaly_type").notNull(), // large_amount, duplicate_voucher, unknown_account, out_of_period, negative_revenue
+    message: text("message").notNull(), // 検出内容
+    status: text("status").notNull().default("open"), // open, dismissed
+    dismissComment: text("dismiss_comment"), // 却下時のコメント
+    dismissedBy: varchar("dismissed_by"), // 却下したユーザーID
+    dismissedAt: timestamp("dismissed_at"), // 却下日時
+    createdAt: timestamp("created_at").defaultNow().notNull(), // 検出日時
+  },
+  (table) => ({
+    glEntryTypeUnique: unique().on(table.glEntryId, table.anomalyType),
+  })
+);
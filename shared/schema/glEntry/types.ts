@@ -0,0 +1,175 @@
+/**
+ * GL伝票の貸借チェックで検出する問題の種類
+ * - unbalanced: 借方合計と貸方合計が一致しない
+ * - truncated: 取込対象の勘定科目の絞込みで一部の明細のみ取り込まれた
+ */
+export type GLVoucherIssueType = "unbalanced" | "truncated";
+
+/**
+ * 取込対象外とした明細の伝票番号・期間ごとの集計（取込ファイルの解釈結果）
+ */
+export interface GLVoucherExclusionData {
+  voucherNo: string;
+  period: string;
+  lineCount: number;
+  debitAmount: number;
+  creditAmount: number;
+  accountCodes: string[];
+}
+
+/**
+ * 問題のあるGL伝票（伝票番号・期間ごと）
+ */
+export interface GLVoucherCheckResult {
+  voucherNo: string;
+  period: string;
+  transactionDate: string;
+  lineCount: number; // 取込済みの明細数
+  debitTotal: number; // 取込済みの借方合計
+  creditTotal: number; // 取込済みの貸方合計
+  excludedLineCount: number; // 取込対象外の明細数
+  excludedDebitTotal: number; // 取込対象外の借方合計
+  excludedCreditTotal: number; // 取込対象外の貸方合計
+  excludedAccountCodes: string[]; // 取込対象外の勘定科目コード
+  difference: number; // 伝票全体の貸借差額（借方 - 貸方）
+  issues: GLVoucherIssueType[];
+}
+
+/**
+ * GL伝票の貸借チェックの件数
+ */
+export interface GLVoucherCheckSummary {
+  checkedVouchers: number; // チェックした伝票数
+  unbalancedVouchers: number; // 貸借が一致しない伝票数
+  truncatedVouchers: number; // 一部の明細のみ取り込まれた伝票数
+}
+
+/**
+ * GL伝票の貸借チェック結果
+ */
+export interface GLVoucherCheckResponse {
+  periods: string[];
+  summary: GLVoucherCheckSummary;
+  vouchers: GLVoucherCheckResult[];
+}
+
+/**
+ * 勘定科目の月次推移（会計年度の1ヶ月分）
+ * 残高は借方残をプラスとし、会計年度の期首（4月）を0として累計する
+ */
+export interface GLMonthlyBalance {
+  period: string; // 期間（YYYY-MM形式）
+  debitTotal: number; // 借方合計
+  creditTotal: number; // 貸方合計
+  netMovement: number; // 当月の増減（借方 - 貸方）
+  cumulativeBalance: number; // 期首からの累計残高
+}
+
+/**
+ * 試算表の勘定科目行
+ */
+export interface GLTrialBalanceAccount {
+  accountCode: string;
+  accountName: string;
+  months: GLMonthlyBalance[]; // 会計年度の12ヶ月分（4月〜翌年3月）
+  debitTotal: number; // 年度の借方合計
+  creditTotal: number; // 年度の貸方合計
+  closingBalance: number; // 年度末の累計残高
+}
+
+/**
+ * 月次試算表
+ */
+export interface GLTrialBalanceResponse {
+  fiscalYear: number;
+  periods: string[];
+  accounts: GLTrialBalanceAccount[];
+  totals: GLMonthlyBalance[]; // 全勘定科目の月次合計
+  debitTotal: number;
+  creditTotal: number;
+}
+
+/**
+ * 勘定科目元帳の明細行
+ */
+export interface GLLedgerLine {
+  id: string;
+  voucherNo: string;
+  transactionDate: string;
+  period: string;
+  description: string | null;
+  debitAmount: number;
+  creditAmount: number;
+  balance: number; // この明細までの累計残高
+  reconciliationStatus: string;
+}
+
+/**
+ * 勘定科目元帳
+ */
+export interface GLLedgerResponse {
+  fiscalYear: number;
+  accountCode: string;
+  accountName: string;
+  months: GLMonthlyBalance[]; // 会計年度の12ヶ月分（4月〜翌年3月）
+  openingBalance: number; // 明細の表示開始時点の累計残高（月指定時は前月末の残高）
+  lines: GLLedgerLine[];
+  debitTotal: number; // 表示対象の明細の借方合計
+  creditTotal: number; // 表示対象の明細の貸方合計
+  closingBalance: number; // 表示対象の明細の最終残高
+}
+
+/**
+ * GLデータの異常検知で検出する異常の種類
+ * - large_amount: 勘定科目の過去の金額と比べて著しく大きい
+ * - duplicate_voucher: 同じ伝票番号・勘定科目・貸借・金額の明細が別の取引日に存在する
+ * - unknown_account: 会計項目マスタに存在しない勘定科目への計上
+ * - out_of_period: 取引日が期間の範囲外
+ * - negative_revenue: 売上の勘定科目へのマイナス計上（借方計上）
+ */
+export type GLAnomalyType =
+  | "large_amount"
+  | "duplicate_voucher"
+  | "unknown_account"
+  | "out_of_period"
+  | "negative_revenue";
+
+/**
+ * GLデータの異常の状態
+ * - open: 未対応
+ * - dismissed: 確認済みとして却下
+ */
+export type GLAnomalyStatus = "open" | "dismissed";
+
+/**
+ * GLデータの異常検知の件数
+ */
+export interface GLAnomalyScanSummary {
+  scannedEntries: number; // スキャンした明細数
+  detectedAnomalies: number; // 検出した異常の件数（却下済みを含む）
+  newAnomalies: number; // 今回新たに検出した異常の件数
+  openAnomalies: number; // 未対応の異常の件数
+}
+
+/**
+ * GLデータの異常と対象の明細
+ */
+export interface GLAnomalyListItem {
+  id: string;
+  glEntryId: string;
+  period: string;
+  anomalyType: GLAnomalyType;
+  message: string;
+  status: GLAnomalyStatus;
+  dismissComment: string | null;
+  dismissedBy: string | null;
+  dismissedAt: Date | null;
+  createdAt: Date;
+  voucherNo: string;
+  transactionDate: string;
+  accountCode: string;
+  accountName: string;
+  amount: number;
+  debitCredit: string;
+  description: string | null;
+}
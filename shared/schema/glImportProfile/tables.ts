@@ -0,0 +1,27 @@
+import { sql } from "drizzle-orm";
+import { integer, jsonb, pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
+
+import type { GLImportColumnMapping } from "./types";
+
+// appスキーマを定義
+const appSchema = pgSchema("app");
+
+// GL CSV取込プロファイル (GL Import Profile)
+// 会計ソフトごとのCSVレイアウト（列の割当・日付形式・借方/貸方の表現など）を管理する
+export const glImportProfiles = appSchema.table("gl_import_profiles", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(), // プロファイル名
+  encoding: text("encoding").notNull().default("auto"), // 文字コード (auto/shift_jis/utf8/euc-jp)
+  skipHeaderRows: integer("skip_header_rows").notNull().default(0), // 読み飛ばす先頭行数（ヘッダー行）
+  dateFormat: text("date_format").notNull().default("auto"), // 日付形式 (auto/YYYYMMDD/YYYY/MM/DD/YYYY-MM-DD)
+  amountFormat: text("amount_format").notNull().default("separate"), // 借方/貸方の表現 (separate: 借方・貸方の別列, signed: 符号付き金額, flag: 金額＋貸借区分列)
+  debitFlagValue: text("debit_flag_value"), // 貸借区分列で借方を示す値（amountFormat=flagの場合）
+  columnMapping: jsonb("column_mapping").$type<GLImportColumnMapping>().notNull(), // 列の割当（0始まりの列番号）
+  accountCodes: text("account_codes"), // 取込対象の勘定科目コード（カンマ区切り、未指定は全科目）
+  isDefault: text("is_default").notNull().default("false"), // 既定のプロファイル (true/false)
+  remarks: text("remarks"), // 備考
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
@@ -0,0 +1,44 @@
+/**
+ * GL CSV取込プロファイルの列の割当（0始まりの列番号）
+ * 借方/貸方の表現（amountFormat）に応じて、使用する金額列が異なる
+ */
+export interface GLImportColumnMapping {
+  voucherNo: number; // 伝票番号
+  transactionDate: number; // 取引日
+  accountCode: number; // 勘定科目コード
+  accountName: number; // 勘定科目名
+  description?: number; // 摘要
+  debitAmount?: number; // 借方金額（amountFormat=separate）
+  creditAmount?: number; // 貸方金額（amountFormat=separate）
+  amount?: number; // 金額（amountFormat=signed/flag）
+  debitCreditFlag?: number; // 貸借区分（amountFormat=flag）
+}
+
+export type GLImportEncoding = "auto" | "shift_jis" | "utf8" | "euc-jp";
+export type GLImportDateFormat = "auto" | "YYYYMMDD" | "YYYY/MM/DD" | "YYYY-MM-DD";
+export type GLImportAmountFormat = "separate" | "signed" | "flag";
+
+/**
+ * GL取込プレビュー結果（CSV・XLSX）
+ */
+export interface GLImportPreview {
+  encoding: string; // 実際に使用した文字コード（XLSXの場合は "xlsx"）
+  sheetNames?: string[]; // XLSXのシート一覧
+  sheetName?: string; // 読み込んだXLSXのシート
+  rawRows: string[][]; // ファイル先頭の生データ（ヘッダー行を含む）
+  entries: Array<{
+    row: number;
+    voucherNo: string;
+    transactionDate: string;
+    accountCode: string;
+    accountName: string;
+    amount: string;
+    debitCredit: string;
+    description: string;
+    period: string;
+  }>;
+  errors: Array<{ row: number; message: string }>;
+  totalRows: number;
+  importableRows: number;
+  skippedRows: number;
+}
@@ -0,0 +1,52 @@
+import { sql } from "drizzle-orm";
+import { integer, jsonb, pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
+
+import type { GLVoucherExclusionData } from "../glEntry/types";
+import type { ImportBatchResult, ImportRowValues } from "./types";
+
+// appスキーマを定義
+const appSchema = pgSchema("app");
+
+// 取込バッチ (Import Batch)
+// CSV・XLSXの取込内容を一旦ステージングし、行ごとの確認・修正後に一括で反映・破棄する
+export const importBatches = appSchema.table("import_batches", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  importType: text("import_type").notNull(), // gl-entries, order-forecasts, angle-b-forecasts
+  fileName: text("file_name").notNull(), // 取込ファイル名
+  sheetName: text("sheet_name"), // XLSXの読込シート
+  status: text("status").notNull().default("staged"), // staged: 確認中, committed: 反映済み, discarded: 破棄, reverted: 取消済み
+  fiscalYear: integer("fiscal_year"), // 取込対象年度（受注見込み・角度B案件）
+  profileId: varchar("profile_id"), // GL CSV取込プロファイルID（GL）
+  targetAccountCodes: text("target_account_codes"), // 取込対象の勘定科目コード（GL、カンマ区切り）
+  voucherExclusions: jsonb("voucher_exclusions").$type<GLVoucherExclusionData[]>(), // 取込対象外とした明細の伝票ごとの集計（GL）
+  totalRows: integer("total_rows").notNull().default(0), // 行数
+  validRows: integer("valid_rows").notNull().default(0), // 取込可能な行数
+  errorRows: integer("error_rows").notNull().default(0), // エラーの行数
+  excludedRows: integer("excluded_rows").notNull().default(0), // 取込対象外にした行数
+  result: jsonb("result").$type<ImportBatchResult>(), // 反映・取消の結果
+  createdByUserId: varchar("created_by_user_id"), // 取込ユーザーID
+  createdByEmployeeId: varchar("created_by_employee_id"), // 取込従業員ID
+  committedAt: timestamp("committed_at"), // 反映日時
+  committedByUserId: varchar("committed_by_user_id"), // 反映したユーザーID
+  revertedAt: timestamp("reverted_at"), // 取消日時
+  revertedByUserId: varchar("reverted_by_user_id"), // 取り消したユーザーID
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// 取込バッチ明細 (Import Batch Row)
+// 取込ファイルの1行分の値と検証結果（値は反映前に修正できる）
+export const importBatchRows = appSchema.table("import_batch_rows", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  batchId: varchar("batch_id").notNull(), // 取込バッチID
+  rowNo: integer("row_no").notNull(), // ファイル上の行番号
+  values: jsonb("values").$type<ImportRowValues>().notNull(), // 取込項目の値
+  status: text("status").notNull().default("valid"), // valid: 取込可能, error: エラー, excluded: 取込対象外
+  errorMessage: text("error_message"), // 検証エラーの内容
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
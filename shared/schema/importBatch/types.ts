@@ -0,0 +1,32 @@
+/**
+ * 取込バッチの種類
+ */
+export type ImportBatchType = "gl-entries" | "order-forecasts" | "angle-b-forecasts";
+
+export type ImportBatchStatus = "staged" | "committed" | "discarded" | "reverted";
+export type ImportBatchRowStatus = "valid" | "error" | "excluded";
+
+/**
+ * 取込バッチ明細の値（項目名と文字列の値）
+ * GL: voucherNo, transactionDate, accountCode, accountName, amount, debitCredit, description
+ * 受注見込み・角度B案件: projectCode, accountingItem, accountingPeriod, description, amount
+ */
+export type ImportRowValues = Record<string, string>;
+
+/**
+ * 取込バッチの反映・取消の結果
+ */
+export interface ImportBatchResult {
+  importedRows?: number; // 反映した行数
+  insertedRows?: number; // 追加した行数（GL）
+  updatedRows?: number; // 既存データを更新した行数（GL）
+  unchangedRows?: number; // 変更のなかった行数（GL）
+  removedRows?: number; // ファイルから消えたため削除した行数（GL）
+  revertedRows?: number; // 取消で削除した行数
+  unmatchedCount?: number; // 削除に伴い解除した突合の件数
+  checkedVouchers?: number; // 反映後に貸借チェックした伝票数（GL）
+  unbalancedVouchers?: number; // 貸借が一致しない伝票数（GL）
+  truncatedVouchers?: number; // 一部の明細のみ取り込まれた伝票数（GL）
+  openAnomalies?: number; // 反映後の異常検知で未対応の異常の件数（GL）
+  periods?: string[]; // 反映した期間（GL）
+}
@@ -2,6 +2,7 @@ import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
 import * as accountingItems from "./accountingItem";
+import * as accountingPeriods from "./accountingPeriod";
 import * as angleBForecasts from "./angleBForecast";
 import * as budgetsExpense from "./budgetExpense";
 import * as budgetsRevenue from "./budgetRevenue";
@@ -11,14 +12,22 @@ import * as budgetsTarget from "./budgetTarget";
 import * as customers from "./customer";
 // 既存システムのテーブル（参照専用）
 import * as existing from "./existing";
+import * as forecastSnapshots from "./forecastSnapshot";
+import * as forecastSplits from "./forecastSplit";
 // リレーション定義
 // import * as existingRelations from "./existing/relations"; // 未使用のためコメントアウト
 import * as glEntries from "./glEntry";
+import * as glImportProfiles from "./glImportProfile";
+import * as importBatches from "./importBatch";
 import * as items from "./item";
 import * as orderForecasts from "./orderForecast";
 import * as projects from "./project";
 import * as projectAnalysisSnapshots from "./projectAnalysisSnapshot";
+import * as reconciliationAliases from "./reconciliationAlias";
+import * as reconciliationLinks from "./reconciliationLink";
 import * as reconciliationLogs from "./reconciliationLog";
+import * as reconciliationRules from "./reconciliationRule";
+import * as recurringForecastTemplates from "./recurringForecastTemplate";
 import * as staffing from "./staffing";
 
 // 統合スキーマ
@@ -31,9 +40,18 @@ export const schema = {
   ...items,
   ...projects,
   ...accountingItems,
+  ...accountingPeriods,
   ...orderForecasts,
+  ...recurringForecastTemplates,
+  ...forecastSplits,
+  ...forecastSnapshots,
   ...glEntries,
+  ...glImportProfiles,
+  ...importBatches,
   ...reconciliationLogs,
+  ...reconciliationLinks,
+  ...reconciliationRules,
+  ...reconciliationAliases,
   ...angleBForecasts,
   ...budgetsRevenue,
   ...budgetsExpense,
@@ -47,17 +65,26 @@ export * from "./existing";
 
 // 新規業務データスキーマ
 export * from "./accountingItem";
+export * from "./accountingPeriod";
 export * from "./angleBForecast";
 export * from "./budgetExpense";
 export * from "./budgetRevenue";
 export * from "./budgetTarget";
 export * from "./customer";
+export * from "./forecastSnapshot";
+export * from "./forecastSplit";
 export * from "./glEntry";
+export * from "./glImportProfile";
+export * from "./importBatch";
 export * from "./item";
 export * from "./orderForecast";
 export * from "./project";
 export * from "./projectAnalysisSnapshot";
+export * from "./reconciliationAlias";
+export * from "./reconciliationLink";
 export * from "./reconciliationLog";
+export * from "./reconciliationRule";
+export * from "./recurringForecastTemplate";
 export * from "./staffing";
 
 // リレーション定義
@@ -84,12 +111,60 @@ export const selectProjectSchema = createSelectSchema(projects.projects);
 export const insertAccountingItemSchema = createInsertSchema(accountingItems.accountingItems);
 export const selectAccountingItemSchema = createSelectSchema(accountingItems.accountingItems);
 
+export const insertAccountingPeriodSchema = createInsertSchema(accountingPeriods.accountingPeriods);
+export const selectAccountingPeriodSchema = createSelectSchema(accountingPeriods.accountingPeriods);
+
+export const insertPeriodLockOverrideSchema = createInsertSchema(
+  accountingPeriods.periodLockOverrides
+);
+export const selectPeriodLockOverrideSchema = createSelectSchema(
+  accountingPeriods.periodLockOverrides
+);
+
 export const insertOrderForecastSchema = createInsertSchema(orderForecasts.orderForecasts);
 export const selectOrderForecastSchema = createSelectSchema(orderForecasts.orderForecasts);
+export const insertOrderForecastHistorySchema = createInsertSchema(
+  orderForecasts.orderForecastHistories
+);
+export const selectOrderForecastHistorySchema = createSelectSchema(
+  orderForecasts.orderForecastHistories
+);
+
+export const insertRecurringForecastTemplateSchema = createInsertSchema(
+  recurringForecastTemplates.recurringForecastTemplates
+);
+export const selectRecurringForecastTemplateSchema = createSelectSchema(
+  recurringForecastTemplates.recurringForecastTemplates
+);
+
+export const insertForecastSplitGroupSchema = createInsertSchema(
+  forecastSplits.forecastSplitGroups
+);
+export const selectForecastSplitGroupSchema = createSelectSchema(
+  forecastSplits.forecastSplitGroups
+);
+
+export const insertForecastSnapshotSchema = createInsertSchema(forecastSnapshots.forecastSnapshots);
+export const selectForecastSnapshotSchema = createSelectSchema(forecastSnapshots.forecastSnapshots);
 
 export const insertGLEntrySchema = createInsertSchema(glEntries.glEntries);
 export const selectGLEntrySchema = createSelectSchema(glEntries.glEntries);
 
+export const insertGLVoucherExclusionSchema = createInsertSchema(glEntries.glVoucherExclusions);
+export const selectGLVoucherExclusionSchema = createSelectSchema(glEntries.glVoucherExclusions);
+
+export const insertGLAnomalySchema = createInsertSchema(glEntries.glAnomalies);
+export const selectGLAnomalySchema = createSelectSchema(glEntries.glAnomalies);
+
+export const insertGLImportProfileSchema = createInsertSchema(glImportProfiles.glImportProfiles);
+export const selectGLImportProfileSchema = createSelectSchema(glImportProfiles.glImportProfiles);
+
+export const insertImportBatchSchema = createInsertSchema(importBatches.importBatches);
+export const selectImportBatchSchema = createSelectSchema(importBatches.importBatches);
+
+export const insertImportBatchRowSchema = createInsertSchema(importBatches.importBatchRows);
+export const selectImportBatchRowSchema = createSelectSchema(importBatches.importBatchRows);
+
 export const insertReconciliationLogSchema = createInsertSchema(
   reconciliationLogs.reconciliationLogs
 );
@@ -97,6 +172,34 @@ export const selectReconciliationLogSchema = createSelectSchema(
   reconciliationLogs.reconciliationLogs
 );
 
+export const insertReconciliationLogDetailSchema = createInsertSchema(
+  reconciliationLogs.reconciliationLogDetails
+);
+export const selectReconciliationLogDetailSchema = createSelectSchema(
+  reconciliationLogs.reconciliationLogDetails
+);
+
+export const insertReconciliationLinkSchema = createInsertSchema(
+  reconciliationLinks.reconciliationLinks
+);
+export const selectReconciliationLinkSchema = createSelectSchema(
+  reconciliationLinks.reconciliationLinks
+);
+
+export const insertReconciliationRuleSchema = createInsertSchema(
+  reconciliationRules.reconciliationRules
+);
+export const selectReconciliationRuleSchema = createSelectSchema(
+  reconciliationRules.reconciliationRules
+);
+
+export const insertReconciliationAliasSchema = createInsertSchema(
+  reconciliationAliases.reconciliationAliases
+);
+export const selectReconciliationAliasSchema = createSelectSchema(
+  reconciliationAliases.reconciliationAliases
+);
+
 export const insertAngleBForecastSchema = createInsertSchema(angleBForecasts.angleBForecasts);
 export const selectAngleBForecastSchema = createSelectSchema(angleBForecasts.angleBForecasts);
 
@@ -144,6 +247,12 @@ export type UpdateProjectData = Partial<CreateProjectData>;
 export type AccountingItem = z.infer<typeof selectAccountingItemSchema>;
 export type NewAccountingItem = z.infer<typeof insertAccountingItemSchema>;
 
+export type AccountingPeriod = z.infer<typeof selectAccountingPeriodSchema>;
+export type NewAccountingPeriod = z.infer<typeof insertAccountingPeriodSchema>;
+
+export type PeriodLockOverride = z.infer<typeof selectPeriodLockOverrideSchema>;
+export type NewPeriodLockOverride = z.infer<typeof insertPeriodLockOverrideSchema>;
+
 export type OrderForecast = z.infer<typeof selectOrderForecastSchema> & {
   salesPerson?: string | null;
 };
@@ -151,14 +260,128 @@ export type NewOrderForecast = z.infer<typeof insertOrderForecastSchema>;
 export type CreateOrderForecastData = z.infer<typeof insertOrderForecastSchema>;
 export type UpdateOrderForecastData = Partial<CreateOrderForecastData>;
 
+export type OrderForecastHistory = Omit<
+  z.infer<typeof selectOrderForecastHistorySchema>,
+  "action" | "changes" | "snapshot"
+> & {
+  action: orderForecasts.OrderForecastHistoryAction;
+  changes: orderForecasts.OrderForecastFieldChange[];
+  snapshot: orderForecasts.OrderForecastHistorySnapshot;
+};
+export type NewOrderForecastHistory = Omit<
+  z.infer<typeof insertOrderForecastHistorySchema>,
+  "action" | "changes" | "snapshot"
+> & {
+  action: orderForecasts.OrderForecastHistoryAction;
+  changes: orderForecasts.OrderForecastFieldChange[];
+  snapshot: orderForecasts.OrderForecastHistorySnapshot;
+};
+// 変更履歴の一覧項目（変更者名付き）
+export type OrderForecastHistoryListItem = OrderForecastHistory & {
+  changedByName: string | null;
+};
+
+/** 一括保存で他のユーザーが先に更新していた行（サーバー上の最新データを保持） */
+export type OrderForecastBulkConflict = {
+  id: string;
+  current: OrderForecast;
+};
+
+export type RecurringForecastTemplate = Omit<
+  z.infer<typeof selectRecurringForecastTemplateSchema>,
+  "billingCycle"
+> & {
+  billingCycle: recurringForecastTemplates.RecurringBillingCycle;
+};
+export type NewRecurringForecastTemplate = Omit<
+  z.infer<typeof insertRecurringForecastTemplateSchema>,
+  "billingCycle"
+> & {
+  billingCycle?: recurringForecastTemplates.RecurringBillingCycle;
+};
+
+export type ForecastSplitGroup = Omit<
+  z.infer<typeof selectForecastSplitGroupSchema>,
+  "targetType" | "pattern" | "percentages"
+> & {
+  targetType: forecastSplits.ForecastSplitTargetType;
+  pattern: forecastSplits.ForecastSplitPattern;
+  percentages: number[] | null;
+};
+export type NewForecastSplitGroup = Omit<
+  z.infer<typeof insertForecastSplitGroupSchema>,
+  "targetType" | "pattern" | "percentages"
+> & {
+  targetType: forecastSplits.ForecastSplitTargetType;
+  pattern: forecastSplits.ForecastSplitPattern;
+  percentages?: number[] | null;
+};
+
+export type ForecastSnapshot = Omit<z.infer<typeof selectForecastSnapshotSchema>, "lines"> & {
+  lines: forecastSnapshots.ForecastSnapshotLine[];
+};
+export type NewForecastSnapshot = Omit<z.infer<typeof insertForecastSnapshotSchema>, "lines"> & {
+  lines: forecastSnapshots.ForecastSnapshotLine[];
+};
+
 export type GLEntry = z.infer<typeof selectGLEntrySchema>;
 export type NewGLEntry = z.infer<typeof insertGLEntrySchema>;
 export type CreateGLEntryData = z.infer<typeof insertGLEntrySchema>;
 export type UpdateGLEntryData = Partial<CreateGLEntryData>;
 
+export type GLVoucherExclusion = z.infer<typeof selectGLVoucherExclusionSchema>;
+export type NewGLVoucherExclusion = z.infer<typeof insertGLVoucherExclusionSchema>;
+
+export type GLAnomaly = z.infer<typeof selectGLAnomalySchema>;
+export type NewGLAnomaly = z.infer<typeof insertGLAnomalySchema>;
+
+export type GLImportProfile = Omit<z.infer<typeof selectGLImportProfileSchema>, "columnMapping"> & {
+  columnMapping: glImportProfiles.GLImportColumnMapping;
+};
+export type NewGLImportProfile = Omit<
+  z.infer<typeof insertGLImportProfileSchema>,
+  "columnMapping"
+> & {
+  columnMapping: glImportProfiles.GLImportColumnMapping;
+};
+
+export type ImportBatch = Omit<
+  z.infer<typeof selectImportBatchSchema>,
+  "result" | "voucherExclusions"
+> & {
+  result: importBatches.ImportBatchResult | null;
+  voucherExclusions: glEntries.GLVoucherExclusionData[] | null;
+};
+export type NewImportBatch = Omit<
+  z.infer<typeof insertImportBatchSchema>,
+  "result" | "voucherExclusions"
+> & {
+  result?: importBatches.ImportBatchResult | null;
+  voucherExclusions?: glEntries.GLVoucherExclusionData[] | null;
+};
+
+export type ImportBatchRow = Omit<z.infer<typeof selectImportBatchRowSchema>, "values"> & {
+  values: importBatches.ImportRowValues;
+};
+export type NewImportBatchRow = Omit<z.infer<typeof insertImportBatchRowSchema>, "values"> & {
+  values: importBatches.ImportRowValues;
+};
+
 export type ReconciliationLog = z.infer<typeof selectReconciliationLogSchema>;
 export type NewReconciliationLog = z.infer<typeof insertReconciliationLogSchema>;
 
+export type ReconciliationLogDetail = z.infer<typeof selectReconciliationLogDetailSchema>;
+export type NewReconciliationLogDetail = z.infer<typeof insertReconciliationLogDetailSchema>;
+
+export type ReconciliationLink = z.infer<typeof selectReconciliationLinkSchema>;
+export type NewReconciliationLink = z.infer<typeof insertReconciliationLinkSchema>;
+
+export type ReconciliationRule = z.infer<typeof selectReconciliationRuleSchema>;
+export type NewReconciliationRule = z.infer<typeof insertReconciliationRuleSchema>;
+
+export type ReconciliationAlias = z.infer<typeof selectReconciliationAliasSchema>;
+export type NewReconciliationAlias = z.infer<typeof insertReconciliationAliasSchema>;
+
 export type AngleBForecast = z.infer<typeof selectAngleBForecastSchema>;
 export type NewAngleBForecast = z.infer<typeof insertAngleBForecastSchema>;
 export type CreateAngleBForecastData = z.infer<typeof insertAngleBForecastSchema>;
@@ -279,12 +502,39 @@ export type StaffingFilter = {
 export type ReconciliationResult = {
   orderForecastId: string;
   glEntryId: string;
-  matchType: "exact" | "fuzzy";
+  matchType: "exact" | "fuzzy" | "split" | "manual";
   confidence: number; // 0-100
   dateDiff?: number; // 日付差分（日数）
   amountDiff?: number; // 金額差分
 };
 
+/** 突合候補の根拠（計上科目・摘要文・金額の一致状況） */
+export type ReconciliationEvidence = {
+  account: { orderAccounts: string[]; glAccounts: string[]; matched: boolean };
+  description: {
+    orderDescriptions: string[];
+    glDescriptions: string[];
+    matched: boolean;
+    similarity: number; // 0-100
+  };
+  amount: { orderTotal: number; glTotal: number; difference: number };
+  dateDiff: number; // 計上月からの日付差分（日数）
+  crossPeriod: boolean; // 計上月と取引月が異なる（月度をまたいだ）組を含むか
+};
+
+/** 厳格突合を判定した突合ルール（標準ルールの場合idはnull） */
+export type AppliedReconciliationRule = { id: string | null; name: string };
+
+/** 突合プレビューの候補（承認されるまでDBには保存しない） */
+export type ReconciliationProposal = {
+  matchType: "exact" | "split" | "fuzzy";
+  orders: OrderForecast[];
+  glEntries: GLEntry[];
+  score: number; // 0-100
+  evidence: ReconciliationEvidence;
+  rule?: AppliedReconciliationRule; // 厳格突合の場合のみ
+};
+
 export type ReconciliationSummary = {
   period: string;
   totalOrders: number;
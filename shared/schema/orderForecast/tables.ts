@@ -1,5 +1,7 @@
 import { sql } from "drizzle-orm";
-import { decimal, integer, pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
+import { decimal, integer, jsonb, pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
+
+import type { OrderForecastFieldChange, OrderForecastHistorySnapshot } from "./types";
 
 // appスキーマを定義
 const appSchema = pgSchema("app");
@@ -23,8 +25,12 @@ export const orderForecasts = appSchema.table("order_forecasts", {
   period: text("period").notNull(), // 期間 (YYYY-MM形式)
   reconciliationStatus: text("reconciliation_status").notNull().default("unmatched"), // matched, fuzzy, unmatched, excluded
   glMatchId: varchar("gl_match_id"), // 突合されたGL IDへの参照
+  isCrossPeriod: text("is_cross_period").notNull().default("false"), // 月度をまたいだ突合フラグ (true/false)
   isExcluded: text("is_excluded").notNull().default("false"), // 突合対象外フラグ (true/false)
   exclusionReason: text("exclusion_reason"), // 除外理由
+  importBatchId: varchar("import_batch_id"), // 登録した取込バッチID（取込の取消に使用）
+  recurringTemplateId: varchar("recurring_template_id"), // 生成元の定期売上テンプレートID（テンプレート変更時の再生成に使用）
+  splitGroupId: varchar("split_group_id"), // 分割計上グループID（同じ金額を分割した明細をまとめる）
 
   // 既存システムとの関連（参照専用、外部キー制約なし）
   createdByUserId: varchar("created_by_user_id"), // 作成者ユーザーID（参照専用）
@@ -34,3 +40,19 @@ export const orderForecasts = appSchema.table("order_forecasts", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
+
+// 受発注データの変更履歴 (Order Forecast History)
+// 作成・更新・削除・除外設定・昇格・降格ごとに項目単位の変更前後の値を記録する（明細の削除後も履歴は残す）
+export const orderForecastHistories = appSchema.table("order_forecast_histories", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  orderForecastId: varchar("order_forecast_id").notNull(), // 受発注データID
+  action: text("action").notNull(), // create, update, delete, exclude, include, promote, demote, restore
+  changes: jsonb("changes").$type<OrderForecastFieldChange[]>().notNull(), // 項目ごとの変更前後の値
+  snapshot: jsonb("snapshot").$type<OrderForecastHistorySnapshot>().notNull(), // 操作後の値（削除・降格は操作前の値）
+  version: integer("version"), // 操作後のバージョン（削除・降格の場合はnull）
+  changedByUserId: varchar("changed_by_user_id"), // 変更者ユーザーID（参照専用）
+  changedByEmployeeId: varchar("changed_by_employee_id"), // 変更者従業員ID（参照専用）
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -25,3 +25,123 @@ export interface MonthlySummaryResponse {
     sgaExpenses: { monthlyTotals: Record<string, number> };
   };
 }
+
+/**
+ * 見込み・実績・予算の比較値（1ヶ月分または実績月の累計）
+ */
+export interface VarianceAmounts {
+  forecast: number; // 受発注見込み
+  actual: number; // GL実績
+  budget: number | null; // 予算（年度予算の1/12、予算の対象外の行はnull）
+  variance: number; // 見込みとの差異（実績 - 見込み）
+  variancePercent: number | null; // 見込みに対する差異率（%、見込みが0の場合はnull）
+  budgetVariance: number | null; // 予算との差異（実績 - 予算）
+  exceedsThreshold: boolean; // 差異率がしきい値以上（実績のある月のみ判定）
+}
+
+/**
+ * 計上区分別の見込み・実績・予算比較
+ */
+export interface AccountingItemVariance {
+  code: string;
+  name: string;
+  category: "revenue" | "costOfSales" | "sgaExpenses";
+  monthly: Record<string, VarianceAmounts>;
+  actualToDate: VarianceAmounts; // 実績のある月の累計
+}
+
+/**
+ * プロジェクト・計上区分別の見込み・実績比較
+ */
+export interface ProjectVarianceLine {
+  projectId: string | null; // null: 受発注見込みと突合されていないGL実績
+  projectCode: string | null;
+  projectName: string | null;
+  accountingItemCode: string;
+  accountingItemName: string;
+  category: "revenue" | "costOfSales" | "sgaExpenses";
+  monthly: Record<string, VarianceAmounts>;
+  actualToDate: VarianceAmounts; // 実績のある月の累計
+}
+
+/**
+ * 見込み・実績・予算の差異分析
+ */
+export interface VarianceAnalysisResponse {
+  fiscalYear: number;
+  months: string[];
+  actualPeriods: string[]; // GL実績のある月
+  threshold: number; // 強調表示する差異率のしきい値（%）
+  accountingItems: AccountingItemVariance[];
+  summaries: {
+    revenue: { monthly: Record<string, VarianceAmounts>; actualToDate: VarianceAmounts };
+    costOfSales: { monthly: Record<string, VarianceAmounts>; actualToDate: VarianceAmounts };
+    sgaExpenses: { monthly: Record<string, VarianceAmounts>; actualToDate: VarianceAmounts };
+  };
+  projects: ProjectVarianceLine[];
+}
+
+/**
+ * 受発注データの変更履歴の操作種別
+ */
+export type OrderForecastHistoryAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "exclude"
+  | "include"
+  | "promote"
+  | "demote"
+  | "restore";
+
+/**
+ * 受発注データの変更履歴に記録する項目
+ */
+export const ORDER_FORECAST_HISTORY_FIELDS = [
+  "projectId",
+  "projectCode",
+  "projectName",
+  "customerId",
+  "customerCode",
+  "customerName",
+  "accountingPeriod",
+  "accountingItem",
+  "description",
+  "amount",
+  "remarks",
+  "period",
+  "reconciliationStatus",
+  "isExcluded",
+  "exclusionReason",
+] as const;
+
+export type OrderForecastHistoryField = (typeof ORDER_FORECAST_HISTORY_FIELDS)[number];
+
+/**
+ * 項目単位の変更前後の値（作成時のbefore・削除時のafterはnull）
+ */
+export interface OrderForecastFieldChange {
+  field: OrderForecastHistoryField;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * 変更履歴に保存する受発注データの値（復元に使用）
+ */
+export type OrderForecastHistorySnapshot = Record<OrderForecastHistoryField, string | null>;
+
+/**
+ * 一括保存の操作種別
+ */
+export type OrderForecastBulkOperation = "create" | "update" | "delete";
+
+/**
+ * 一括保存で保存できなかった行（いずれかの行がエラーの場合は何も保存しない）
+ */
+export interface OrderForecastBulkRowError {
+  operation: OrderForecastBulkOperation;
+  index: number; // 操作ごとの配列内の位置
+  id?: string; // 更新・削除の場合の受発注データID
+  message: string;
+}
@@ -0,0 +1,25 @@
+import { sql } from "drizzle-orm";
+import { integer, pgSchema, text, timestamp, unique, varchar } from "drizzle-orm/pg-core";
+
+// appスキーマを定義
+const appSchema = pgSchema("app");
+
+// 突合エイリアス辞書 (Reconciliation Alias)
+// 手動突合で文字列が異なる受発注・GLを突合した際に記録し、以降の突合で同一とみなす
+export const reconciliationAliases = appSchema.table(
+  "reconciliation_aliases",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    aliasType: text("alias_type").notNull(), // account: 計上科目, description: 摘要文
+    orderText: text("order_text").notNull(), // 受発注側の文字列（正規化後）
+    glText: text("gl_text").notNull(), // GL側の文字列（正規化後）
+    matchCount: integer("match_count").notNull().default(1), // 手動突合で記録された回数
+    lastMatchedAt: timestamp("last_matched_at").defaultNow().notNull(), // 最後に手動突合で記録された日時
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    aliasUnique: unique().on(table.aliasType, table.orderText, table.glText),
+  })
+);
@@ -0,0 +1,18 @@
+import { sql } from "drizzle-orm";
+import { pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
+
+// appスキーマを定義
+const appSchema = pgSchema("app");
+
+// 突合リンク (Reconciliation Link)
+// 受発注見込み明細とGL明細の突合関係を1組ごとに保持する（1対多・多対1の分割突合に対応）
+export const reconciliationLinks = appSchema.table("reconciliation_links", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull(), // 同一の突合として扱うリンクのグループID
+  orderForecastId: varchar("order_forecast_id").notNull(), // 受発注見込み明細ID
+  glEntryId: varchar("gl_entry_id").notNull(), // GL明細ID
+  matchType: text("match_type").notNull(), // exact, fuzzy, split, manual
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -17,4 +17,23 @@ export const reconciliationLogs = appSchema.table("reconciliation_logs", {
   unmatchedGlCount: integer("unmatched_gl_count").notNull().default(0),
   totalOrderCount: integer("total_order_count").notNull().default(0),
   totalGlCount: integer("total_gl_count").notNull().default(0),
+  rolledBackAt: timestamp("rolled_back_at"), // 突合の取り消し日時（未取り消しの場合null）
+});
+
+// 突合ログ明細 (Reconciliation Log Detail)
+// 突合実行ごとに突合した受発注見込み明細とGL明細の組を保持する（監査・取り消し用）
+export const reconciliationLogDetails = appSchema.table("reconciliation_log_details", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  reconciliationLogId: varchar("reconciliation_log_id").notNull(), // 突合ログID
+  groupId: varchar("group_id").notNull(), // 突合リンクのグループID
+  orderForecastId: varchar("order_forecast_id").notNull(), // 受発注見込み明細ID
+  glEntryId: varchar("gl_entry_id").notNull(), // GL明細ID
+  matchType: text("match_type").notNull(), // exact, fuzzy, split, manual
+  status: text("status").notNull(), // 突合時に設定したステータス（matched, fuzzy）
+  score: integer("score").notNull().default(0), // 突合スコア（0-100）
+  ruleId: varchar("rule_id"), // 突合を判定した突合ルールID（標準ルール・手動突合の場合null）
+  ruleName: text("rule_name"), // 突合を判定したルール名（ルール変更後も判定時点の名称を保持）
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -0,0 +1,23 @@
+import { sql } from "drizzle-orm";
+import { decimal, integer, pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
+
+// appスキーマを定義
+const appSchema = pgSchema("app");
+
+// 突合ルールマスタ (Reconciliation Rule)
+// 厳格突合の判定条件を管理者が設定する（優先度の小さい順に評価する）
+export const reconciliationRules = appSchema.table("reconciliation_rules", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull(), // ルール名
+  priority: integer("priority").notNull().default(100), // 優先度（小さいほど先に評価）
+  accountCodes: text("account_codes"), // 対象GL勘定科目コード（カンマ区切り、未指定は全科目）
+  monthTolerance: integer("month_tolerance").notNull().default(0), // 許容する計上月のずれ（月数）
+  ignoreDescription: text("ignore_description").notNull().default("false"), // 摘要文を判定に使わない (true/false)
+  amountTolerance: decimal("amount_tolerance", { precision: 14, scale: 2 }).notNull().default("0"), // 許容する金額差
+  isActive: text("is_active").notNull().default("true"), // 有効フラグ (true/false)
+  remarks: text("remarks"), // 備考
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
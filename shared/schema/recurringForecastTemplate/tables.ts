@@ -0,0 +1,29 @@
+import { sql } from "drizzle-orm";
+import { decimal, pgSchema, text, timestamp, varchar } from "drizzle-orm/pg-core";
+
+// appスキーマを定義
+const appSchema = pgSchema("app");
+
+// 定期売上テンプレート (Recurring Forecast Template)
+// 保守売上などの毎月発生する受発注見込みを年度ごとに生成する（プロジェクトは年度ごとにコードで特定する）
+export const recurringForecastTemplates = appSchema.table("recurring_forecast_templates", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  projectCode: text("project_code").notNull(), // プロジェクトコード（年度をまたいで同じコードのプロジェクトに生成）
+  projectName: text("project_name").notNull(), // プロジェクト名（表示用）
+  customerId: varchar("customer_id"), // 取引先ID（未指定の場合はプロジェクトの取引先）
+  customerCode: text("customer_code"),
+  customerName: text("customer_name"),
+  accountingItem: text("accounting_item").notNull(), // 計上科目
+  descriptionPattern: text("description_pattern").notNull(), // 摘要文パターン（{yyyy}・{mm}・{m}を計上年月に置き換える）
+  monthlyAmount: decimal("monthly_amount", { precision: 14, scale: 2 }).notNull(), // 月額
+  startMonth: text("start_month").notNull(), // 契約開始月 (YYYY-MM形式)
+  endMonth: text("end_month"), // 契約終了月 (YYYY-MM形式、未指定は終了なし)
+  billingCycle: text("billing_cycle").notNull().default("monthly"), // 請求サイクル (monthly, quarterly, annual)
+  isActive: text("is_active").notNull().default("true"), // 有効フラグ (true/false)
+  remarks: text("remarks"), // 備考（生成する受発注データの備考にも設定）
+  createdByUserId: varchar("created_by_user_id"), // 作成者ユーザーID（参照専用）
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
@@ -0,0 +1,23 @@
+/**
+ * 定期売上テンプレートの請求サイクル
+ */
+export type RecurringBillingCycle = "monthly" | "quarterly" | "annual";
+
+/** 請求サイクルごとの請求間隔（月数） */
+export const RECURRING_BILLING_CYCLE_MONTHS: Record<RecurringBillingCycle, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12,
+};
+
+/**
+ * 定期売上の受発注データ生成結果
+ */
+export interface RecurringForecastGenerationResult {
+  fiscalYear: number;
+  created: number; // 新規に生成した件数
+  updated: number; // テンプレートの変更を反映した件数
+  deleted: number; // 請求対象外になったため削除した件数
+  skipped: number; // 締め済み・突合済みのため変更しなかった件数
+  warnings: string[]; // 生成できなかったテンプレートの理由
+}
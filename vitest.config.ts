@@ -0,0 +1,17 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // PGliteの起動とスキーマ作成に時間がかかるため長めに設定
+    testTimeout: 60000,
+    hookTimeout: 120000,
+  },
+});